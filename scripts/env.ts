@@ -0,0 +1,5 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local the same way `next dev` does. Scripts import this first:
+// lib/supabase reads the env at module load.
+loadEnvConfig(process.cwd());
@@ -0,0 +1,155 @@
+import './env';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  compareClassificationEvals,
+  EVAL_RECORDINGS_DIR,
+  EVAL_REPORTS_DIR,
+  formatEvalComparison,
+  formatEvalReport,
+  getClassificationPromptVersion,
+  loadEvalDataset,
+  runClassificationEval,
+  saveEvalDataset,
+  seedEvalCases
+} from '@/lib/classification-eval';
+import * as llm from '@/lib/llm';
+import { getStorage, transformConversationMessage, transformResponseInteraction } from '@/lib/storage';
+import type { ClassificationEvalReport, ConversationMessage } from '@/types';
+
+const USAGE = `Usage:
+  npm run eval:classification -- seed
+  npm run eval:classification -- run [--label name] [--provider mock|replay|live] [--record] [--guide file]
+  npm run eval:classification -- compare <baseline-label> <candidate-label>`;
+
+function readFlags(args: string[]): Record<string, string | true> {
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+    const next = args[i + 1];
+    flags[args[i].slice(2)] = next && !next.startsWith('--') ? args[++i] : true;
+  }
+  return flags;
+}
+
+function readJSON<T>(filePath: string): T {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${path.relative(process.cwd(), filePath)} does not exist`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+function writeJSON(filePath: string, value: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2) + '\n');
+}
+
+// A recorded run of a live provider, replayed offline by --provider replay
+interface RecordingFile {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  recordedAt: string;
+  replies: Record<string, string>;
+}
+
+async function seed() {
+  const storage = getStorage();
+  const interactions = (await storage.getResponseInteractions({ limit: null }))
+    .map(transformResponseInteraction);
+  const prospectIds = [...new Set(interactions.filter(i => i.classificationOverridden).map(i => i.prospectId))];
+
+  const threads = new Map<string, ConversationMessage[]>();
+  const names = new Map<string, string>();
+  for (const prospectId of prospectIds) {
+    const thread = await storage.getConversation(prospectId);
+    threads.set(prospectId, thread.map(transformConversationMessage));
+    const prospect = await storage.getProspectById(prospectId);
+    if (prospect?.full_name) names.set(prospectId, prospect.full_name as string);
+  }
+
+  const { cases, added } = seedEvalCases(loadEvalDataset(), interactions, threads, names);
+  saveEvalDataset(cases);
+  console.log(`Added ${added.length} overridden replies (${cases.length} cases in the dataset).`);
+}
+
+async function run(flags: Record<string, string | true>) {
+  const mode = typeof flags.provider === 'string' ? flags.provider : 'mock';
+  const label = typeof flags.label === 'string' ? flags.label : mode;
+  const guide = typeof flags.guide === 'string' ? fs.readFileSync(flags.guide, 'utf-8') : undefined;
+  const recordingPath = path.join(EVAL_RECORDINGS_DIR, `${label}.json`);
+
+  const cases = loadEvalDataset();
+  if (cases.length === 0) {
+    throw new Error('The dataset is empty. Add cases or run the seed command first.');
+  }
+
+  let provider;
+  let recording: RecordingFile | null = null;
+  if (mode === 'mock') {
+    provider = llm.createMockProvider();
+  } else if (mode === 'replay') {
+    recording = readJSON<RecordingFile>(recordingPath);
+    provider = llm.createReplayProvider(
+      recording.replies,
+      llm.resolveLLMTaskSettings('mock', { LLM_MODEL: recording.model })
+    );
+  } else if (mode === 'live') {
+    provider = llm.getLLMProvider();
+    if (flags.record) {
+      recording = {
+        provider: provider.name,
+        model: provider.settings.classification.model,
+        promptVersion: getClassificationPromptVersion(guide),
+        recordedAt: new Date().toISOString(),
+        replies: {}
+      };
+      provider = llm.createRecordingProvider(provider, recording.replies);
+    }
+  } else {
+    throw new Error(`Unknown provider "${mode}". Use mock, replay or live.`);
+  }
+
+  const report = await runClassificationEval(cases, provider, { label, guide });
+  if (mode === 'replay' && recording) {
+    report.provider = `${recording.provider} (replayed)`;
+  }
+  if (mode === 'live' && recording) {
+    writeJSON(recordingPath, recording);
+    console.log(`Recorded ${Object.keys(recording.replies).length} replies to ${path.relative(process.cwd(), recordingPath)}`);
+  }
+
+  const reportPath = path.join(EVAL_REPORTS_DIR, `${label}.json`);
+  writeJSON(reportPath, report);
+  console.log(formatEvalReport(report));
+  console.log(`\nSaved ${path.relative(process.cwd(), reportPath)}`);
+}
+
+async function compare(baselineLabel?: string, candidateLabel?: string) {
+  if (!baselineLabel || !candidateLabel) {
+    throw new Error(USAGE);
+  }
+  const baseline = readJSON<ClassificationEvalReport>(path.join(EVAL_REPORTS_DIR, `${baselineLabel}.json`));
+  const candidate = readJSON<ClassificationEvalReport>(path.join(EVAL_REPORTS_DIR, `${candidateLabel}.json`));
+  console.log(formatEvalComparison(compareClassificationEvals(baseline, candidate)));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'seed') {
+    await seed();
+  } else if (command === 'run') {
+    await run(readFlags(args));
+  } else if (command === 'compare') {
+    await compare(args[0], args[1]);
+  } else {
+    console.error(USAGE);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Classification eval failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import './env';
+import { getAuthProvider } from '@/lib/auth';
+import { createJobHandlers, drainJobs } from '@/lib/jobs';
+
+// Pause between drains when the queue is empty
+const IDLE_POLL_MS = 2000;
+
+/**
+ * Standalone job worker for deployments where work started by a request
+ * can't keep running after the response. With --once it drains the queue
+ * and exits (for cron); otherwise it keeps polling until interrupted.
+ */
+async function main() {
+  const once = process.argv.includes('--once');
+  const auth = getAuthProvider();
+  const handlers = createJobHandlers();
+
+  let stopping = false;
+  process.on('SIGINT', () => {
+    console.log('Stopping after the current step...');
+    stopping = true;
+  });
+
+  do {
+    // Every workspace's queue in turn; on Supabase this needs the service role key
+    let steps = 0;
+    for (const workspaceId of await auth.getWorkspaceIds()) {
+      steps += await drainJobs(auth.getWorkerStorage(workspaceId), handlers, { deadlineMs: 60_000 });
+    }
+    if (steps > 0) console.log(`Ran ${steps} job steps`);
+    if (!once && !stopping) await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+  } while (!once && !stopping);
+}
+
+main().catch(error => {
+  console.error('Job worker failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+import './env';
+import { applyPendingMigrations, getMigrationStatus, getMigrationTarget } from '@/lib/migrations';
+
+async function main() {
+  const command = process.argv[2] || 'status';
+  const target = getMigrationTarget();
+
+  try {
+    if (command === 'apply') {
+      const applied = await applyPendingMigrations(target);
+      if (applied.length === 0) {
+        console.log('Database is up to date.');
+      }
+      for (const migration of applied) {
+        console.log(`Applied ${migration.version}_${migration.name}`);
+      }
+    } else if (command !== 'status') {
+      console.error(`Unknown command "${command}". Use "status" or "apply".`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const status = await getMigrationStatus(target);
+    console.log(`Backend: ${status.backend}`);
+    for (const migration of status.applied) {
+      console.log(`  [applied] ${migration.version}_${migration.name} (${migration.applied_at})`);
+    }
+    for (const migration of status.pending) {
+      console.log(`  [pending] ${migration.version}_${migration.name}`);
+    }
+
+    if (status.missingTables.length > 0) {
+      console.log(`Schema drift: missing tables used by the app: ${status.missingTables.join(', ')}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await target.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AnalyticsDimension, AnalyticsReport, FunnelReport, PipelineStatus, StageConversion } from '@/types';
+
+const stageLabels: Record<PipelineStatus, string> = {
+  not_contacted: 'New',
+  visited: 'Visited',
+  connection_sent: 'Requested',
+  connected: 'Connected',
+  message_sent: 'Messaged',
+  responded: 'Responded',
+  call_booked: 'Call',
+  closed_won: 'Won',
+  closed_lost: 'Lost',
+};
+
+const dimensionLabels: Record<AnalyticsDimension, string> = {
+  segment: 'Segment',
+  track: 'Track',
+  icp_tier: 'ICP tier',
+  import_batch: 'Import batch',
+  week: 'Week added',
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '–' : `${rate}%`;
+}
+
+function formatDays(days: number | null): string {
+  if (days === null) return '–';
+  return days < 1 ? `${Math.round(days * 24)}h` : `${days}d`;
+}
+
+// A group's conversion into one stage
+function getConversion(funnel: FunnelReport, to: PipelineStatus): StageConversion | undefined {
+  return funnel.conversions.find(c => c.to === to);
+}
+
+export default function AnalyticsPage() {
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [dimension, setDimension] = useState<AnalyticsDimension>('segment');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const response = await fetch('/api/analytics');
+        if (!response.ok) {
+          throw new Error('Failed to load analytics');
+        }
+        setReport(await response.json());
+      } catch (err) {
+        console.error('Error loading analytics:', err);
+        setError('Failed to load analytics');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, []);
+
+  const conversions = report?.overall.conversions || [];
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <p className="text-sm text-gray-600">
+          Each rate is the share of prospects that reached a stage and went on to the next.
+          Prospects marked lost still count toward the stages they got through.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : report && (
+          <>
+            {/* Overall funnel */}
+            <section className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Funnel</h2>
+                <span className="text-xs text-gray-500">
+                  {report.overall.prospects} prospects · {report.overall.closedLost} lost
+                </span>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-4 py-2">Stage</th>
+                    <th className="px-4 py-2 text-right">Reached</th>
+                    <th className="px-4 py-2 text-right">Went on</th>
+                    <th className="px-4 py-2 text-right">Conversion</th>
+                    <th className="px-4 py-2 text-right">Median time in stage</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {conversions.map(conversion => (
+                    <tr key={conversion.from}>
+                      <td className="px-4 py-3 text-gray-900">
+                        {stageLabels[conversion.from]} → {stageLabels[conversion.to]}
+                      </td>
+                      <td className="px-4 py-3 text-right">{conversion.reachedFrom}</td>
+                      <td className="px-4 py-3 text-right">{conversion.reachedTo}</td>
+                      <td className="px-4 py-3 text-right font-medium">{formatRate(conversion.rate)}</td>
+                      <td className="px-4 py-3 text-right text-gray-600">{formatDays(conversion.medianDaysInStage)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {/* Breakdown */}
+            <section className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap items-center gap-2">
+                <h2 className="font-semibold text-gray-900 mr-2">By</h2>
+                {(Object.keys(dimensionLabels) as AnalyticsDimension[]).map(d => (
+                  <button
+                    key={d}
+                    onClick={() => setDimension(d)}
+                    className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                      dimension === d ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {dimensionLabels[d]}
+                  </button>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-4 py-2">{dimensionLabels[dimension]}</th>
+                      <th className="px-4 py-2 text-right">Prospects</th>
+                      {conversions.map(c => (
+                        <th key={c.to} className="px-3 py-2 text-right whitespace-nowrap">→ {stageLabels[c.to]}</th>
+                      ))}
+                      <th className="px-4 py-2 text-right">Lost</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.breakdowns[dimension].length === 0 ? (
+                      <tr>
+                        <td colSpan={conversions.length + 3} className="px-4 py-6 text-center text-gray-500">
+                          No prospects yet
+                        </td>
+                      </tr>
+                    ) : report.breakdowns[dimension].map(group => (
+                      <tr key={group.key}>
+                        <td className="px-4 py-3 text-gray-900">{group.label}</td>
+                        <td className="px-4 py-3 text-right">{group.prospects}</td>
+                        {conversions.map(c => {
+                          const conversion = getConversion(group, c.to);
+                          return (
+                            <td
+                              key={c.to}
+                              className="px-3 py-3 text-right"
+                              title={conversion
+                                ? `${conversion.reachedTo} of ${conversion.reachedFrom} · median ${formatDays(conversion.medianDaysInStage)}`
+                                : undefined}
+                            >
+                              {formatRate(conversion?.rate ?? null)}
+                            </td>
+                          );
+                        })}
+                        <td className="px-4 py-3 text-right text-gray-600">{group.closedLost}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp, transformImportBatch, transformPipelineEvent } from '@/lib/storage';
+import { buildAnalyticsReport } from '@/lib/analytics';
+
+// GET - Stage conversion rates and time in stage, overall and per breakdown
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const [prospectRecords, eventRecords, batchRecords] = await Promise.all([
+      storage.getProspects(),
+      storage.getPipelineEvents(),
+      storage.getImportBatches()
+    ]);
+
+    return NextResponse.json(buildAnalyticsReport({
+      prospects: transformDbToApp(prospectRecords),
+      events: eventRecords.map(transformPipelineEvent),
+      batches: batchRecords.map(transformImportBatch)
+    }));
+  } catch (error) {
+    console.error('Error building analytics report:', error);
+    return NextResponse.json(
+      { error: 'Failed to load analytics', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
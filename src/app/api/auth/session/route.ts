@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getRequestSession, setWorkspaceCookie } from '@/lib/auth';
+import type { SessionInfo } from '@/types';
+
+// GET - Who is signed in, their current workspace and the others they're in
+export async function GET() {
+  try {
+    const { user, workspace, workspaces } = await getRequestSession();
+    return NextResponse.json({ user, workspace, workspaces } satisfies SessionInfo);
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Switch to another of the user's workspaces
+export async function PUT(request: Request) {
+  try {
+    const { workspaceId } = await request.json() as { workspaceId?: string };
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: 'workspaceId is required' },
+        { status: 400 }
+      );
+    }
+
+    const { user, workspaces } = await getRequestSession();
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'Workspace not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({ user, workspace, workspaces } satisfies SessionInfo);
+    setWorkspaceCookie(response, workspace.id);
+    return response;
+  } catch (error) {
+    console.error('Error switching workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
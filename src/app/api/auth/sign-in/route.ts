@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getAuthErrorStatus, getAuthProvider, setSessionCookies } from '@/lib/auth';
+
+// POST - Sign in with email and password
+export async function POST(request: Request) {
+  try {
+    const { email, password } = await request.json() as { email?: string; password?: string };
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: 'email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const tokens = await getAuthProvider().signIn(email, password);
+    const response = NextResponse.json({ success: true });
+    setSessionCookies(response, tokens);
+    return response;
+  } catch (error) {
+    const status = getAuthErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status }
+      );
+    }
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_COOKIE, clearSessionCookies, getAuthProvider, REFRESH_TOKEN_COOKIE } from '@/lib/auth';
+
+// POST - End the session and clear its cookies
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    if (accessToken) {
+      await getAuthProvider().signOut({
+        accessToken,
+        refreshToken: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value
+      });
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAuthErrorStatus, getAuthProvider, setSessionCookies, type SignUpInput } from '@/lib/auth';
+
+// POST - Create an account and sign in. With an invite code the user joins
+// that workspace; otherwise they get one of their own.
+export async function POST(request: Request) {
+  try {
+    const input = await request.json() as SignUpInput;
+    const tokens = await getAuthProvider().signUp(input);
+
+    const response = NextResponse.json({ success: true }, { status: 201 });
+    setSessionCookies(response, tokens);
+    return response;
+  } catch (error) {
+    const status = getAuthErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status }
+      );
+    }
+    console.error('Error signing up:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign up', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
-import { clearArchivedEngagementPosts } from '@/lib/supabase';
+import { getWorkspaceStorage } from '@/lib/auth';
 
 export async function DELETE() {
   try {
-    await clearArchivedEngagementPosts();
+    const storage = await getWorkspaceStorage();
+    await storage.clearArchivedEngagementPosts();
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error clearing archived posts:', error);
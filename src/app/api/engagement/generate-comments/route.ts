@@ -1,69 +1,26 @@
-import { NextResponse } from 'next/server';
-import { generateComments } from '@/lib/claude';
-import { updateEngagementPostComments } from '@/lib/supabase';
-import type { Prospect } from '@/types';
-
-interface PostInput {
-  postId: string;
-  postContent: string;
-  prospect: Partial<Prospect>;
-}
+import { after, NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { enqueueJob, runQueuedJobs } from '@/lib/jobs';
 
+// POST - Start a generate_comments job: 3 purposeful comment options for each
+// post (conversational, perspective, brief), saved on the post. Returns the
+// job at once; poll /api/jobs/[id] for progress.
 export async function POST(request: Request) {
   try {
-    const { posts } = await request.json() as { posts: PostInput[] };
+    const storage = await getWorkspaceStorage();
+    const { posts, postIds } = await request.json() as { posts?: unknown; postIds?: unknown };
+    const ids = postIds ?? (Array.isArray(posts) ? posts.map(p => p?.postId) : []);
 
-    if (!posts || !Array.isArray(posts) || posts.length === 0) {
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
       return NextResponse.json(
         { error: 'No posts provided' },
         { status: 400 }
       );
     }
 
-    const results = [];
-
-    // Process each post - generate 3 purposeful comment options
-    for (const post of posts) {
-      try {
-        // Generate 3 different comment styles in one call:
-        // 1. Conversational (with question)
-        // 2. Perspective (no company names)
-        // 3. Brief and genuine
-        const commentOptions = await generateComments(post.prospect, post.postContent);
-
-        const comments = [
-          commentOptions.conversational,
-          commentOptions.perspective,
-          commentOptions.brief
-        ];
-
-        // Save comments to database
-        await updateEngagementPostComments(post.postId, comments);
-
-        results.push({
-          postId: post.postId,
-          success: true,
-          comments,
-          styles: ['conversational', 'perspective', 'brief']
-        });
-      } catch (error) {
-        console.error(`Error generating comments for post ${post.postId}:`, error);
-        results.push({
-          postId: post.postId,
-          success: false,
-          error: String(error)
-        });
-      }
-
-      // Small delay between posts to respect rate limits
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
-
-    return NextResponse.json({
-      success: true,
-      results
-    });
-
+    const job = await enqueueJob(storage, 'generate_comments', { postIds: ids }, { total: ids.length });
+    after(() => runQueuedJobs(storage));
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
   } catch (error) {
     console.error('Error generating comments:', error);
     return NextResponse.json(
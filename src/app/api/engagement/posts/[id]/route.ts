@@ -1,20 +1,21 @@
 import { NextResponse } from 'next/server';
-import { archiveEngagementPost, restoreEngagementPost } from '@/lib/supabase';
+import { getWorkspaceStorage } from '@/lib/auth';
 
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const storage = await getWorkspaceStorage();
     const { id } = await params;
     const body = await request.json();
     const { action, reason } = body as { action: 'archive' | 'restore'; reason?: 'aged' | 'engaged' };
 
     if (action === 'archive') {
-      const post = await archiveEngagementPost(id, reason || 'engaged');
+      const post = await storage.archiveEngagementPost(id, reason || 'engaged');
       return NextResponse.json(post);
     } else if (action === 'restore') {
-      const post = await restoreEngagementPost(id);
+      const post = await storage.restoreEngagementPost(id);
       return NextResponse.json(post);
     } else {
       return NextResponse.json(
@@ -1,15 +1,17 @@
 import { NextResponse } from 'next/server';
-import { getEngagementPosts, transformEngagementPost } from '@/lib/supabase';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformEngagementPost } from '@/lib/storage';
 
 export async function GET(request: Request) {
   try {
+    const storage = await getWorkspaceStorage();
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status') as 'active' | 'archived' | null;
 
     // Note: Auto-archiving only happens when fetching new posts from Apify
     // Not on every GET request, otherwise restored posts would be re-archived
 
-    const posts = await getEngagementPosts(status || undefined);
+    const posts = await storage.getEngagementPosts(status || undefined);
     const transformed = (posts || []).map(p => transformEngagementPost(p as Record<string, unknown>));
 
     return NextResponse.json(transformed);
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { removeWatchedProfile } from '@/lib/supabase';
+import { getWorkspaceStorage } from '@/lib/auth';
 
 // DELETE - Remove a watched profile
 export async function DELETE(
@@ -7,8 +7,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const storage = await getWorkspaceStorage();
     const { id } = await params;
-    await removeWatchedProfile(id);
+    await storage.removeWatchedProfile(id);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error removing watched profile:', error);
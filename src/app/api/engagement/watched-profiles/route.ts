@@ -1,15 +1,14 @@
 import { NextResponse } from 'next/server';
-import {
-  getWatchedProfiles,
-  addWatchedProfile,
-  addWatchedProfileByUrl,
-  transformWatchedProfile
-} from '@/lib/supabase';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { getDoNotContactMessage } from '@/lib/do-not-contact';
+import { isLinkedInProfileUrl } from '@/lib/linkedin-identity';
+import { transformDbToApp, transformWatchedProfile } from '@/lib/storage';
 
 // GET - List all watched profiles
 export async function GET() {
   try {
-    const profiles = await getWatchedProfiles();
+    const storage = await getWorkspaceStorage();
+    const profiles = await storage.getWatchedProfiles();
     const transformed = (profiles || []).map(p => transformWatchedProfile(p as Record<string, unknown>));
     return NextResponse.json(transformed);
   } catch (error) {
@@ -24,6 +23,7 @@ export async function GET() {
 // POST - Add watched profile(s) - supports single or bulk
 export async function POST(request: Request) {
   try {
+    const storage = await getWorkspaceStorage();
     const body = await request.json();
     const { prospectId, linkedinUrl, linkedinUrls } = body as {
       prospectId?: string;
@@ -39,9 +39,13 @@ export async function POST(request: Request) {
       for (const url of linkedinUrls) {
         const trimmedUrl = url.trim();
         if (!trimmedUrl) continue;
+        if (!isLinkedInProfileUrl(trimmedUrl)) {
+          errors.push({ url: trimmedUrl, error: 'Not a LinkedIn profile URL' });
+          continue;
+        }
 
         try {
-          const result = await addWatchedProfileByUrl(trimmedUrl);
+          const result = await storage.addWatchedProfileByUrl(trimmedUrl);
           results.push(transformWatchedProfile(result as Record<string, unknown>));
         } catch (err) {
           errors.push({ url: trimmedUrl, error: String(err) });
@@ -61,9 +65,23 @@ export async function POST(request: Request) {
     let result;
 
     if (prospectId) {
-      result = await addWatchedProfile(prospectId);
+      const record = await storage.getProspectById(prospectId);
+      const prospect = record ? transformDbToApp([record])[0] : null;
+      if (prospect?.doNotContact) {
+        return NextResponse.json(
+          { error: getDoNotContactMessage(prospect) },
+          { status: 409 }
+        );
+      }
+      result = await storage.addWatchedProfile(prospectId);
     } else if (linkedinUrl) {
-      result = await addWatchedProfileByUrl(linkedinUrl);
+      if (!isLinkedInProfileUrl(linkedinUrl)) {
+        return NextResponse.json(
+          { error: 'Not a LinkedIn profile URL' },
+          { status: 400 }
+        );
+      }
+      result = await storage.addWatchedProfileByUrl(linkedinUrl);
     } else {
       return NextResponse.json(
         { error: 'Either prospectId, linkedinUrl, or linkedinUrls is required' },
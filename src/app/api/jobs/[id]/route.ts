@@ -0,0 +1,63 @@
+import { after, NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { runQueuedJobs } from '@/lib/jobs';
+import { transformJob } from '@/lib/storage';
+
+// GET - One job with its progress. Polling an unfinished job also keeps the
+// worker going, so retries and polling steps run when they fall due.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { id } = await params;
+    const job = await storage.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      after(() => runQueuedJobs(storage));
+    }
+    return NextResponse.json(transformJob(job));
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch job', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Cancel a job. Queued jobs stop at once, running jobs after their
+// current step; finished jobs are returned unchanged.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { id } = await params;
+    const job = await storage.requestJobCancel(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(transformJob(job));
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel job', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { after, NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { enqueueJob, JOB_TYPES, runQueuedJobs, validateJobPayload } from '@/lib/jobs';
+import { resolveBulkTarget } from '@/lib/saved-views';
+import { transformJob } from '@/lib/storage';
+import type { JobStatus, JobType } from '@/types';
+
+// GET - Recent jobs, newest first (?status=running&type=fetch_posts&limit=20)
+export async function GET(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit')) || 50;
+    const jobs = await storage.getJobs({
+      status: (searchParams.get('status') as JobStatus | null) || undefined,
+      type: (searchParams.get('type') as JobType | null) || undefined,
+      limit
+    });
+    return NextResponse.json(jobs.map(transformJob));
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Enqueue a job and return it at once; it runs after the response.
+// A `viewId` in the payload stands for the prospects currently in that saved
+// view and is replaced by their ids before the job is queued.
+export async function POST(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { type, payload: body = {} } = await request.json() as { type: JobType; payload?: Record<string, unknown> };
+    let payload = body;
+
+    if (!JOB_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (payload.viewId !== undefined) {
+      const { viewId, ...rest } = payload;
+      const target = await resolveBulkTarget(storage, { viewId }, (await getRequestIdentity()).userId);
+      if (target.error !== undefined) {
+        return NextResponse.json(
+          { error: target.error },
+          { status: target.status }
+        );
+      }
+      payload = { ...rest, prospectIds: target.ids };
+    }
+
+    const payloadError = validateJobPayload(type, payload);
+    if (payloadError) {
+      return NextResponse.json(
+        { error: payloadError },
+        { status: 400 }
+      );
+    }
+
+    const items = (payload.prospectIds || payload.postIds) as string[] | undefined;
+    const job = await enqueueJob(storage, type, payload, { total: items?.length });
+    after(() => runQueuedJobs(storage));
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error('Error enqueueing job:', error);
+    return NextResponse.json(
+      { error: 'Failed to enqueue job', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
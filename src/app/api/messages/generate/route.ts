@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
 import { generateMessagesWithSkill, type GenerationResult, type MessageTrack } from '@/lib/claude';
-import type { Prospect } from '@/types';
+import { getLLMConfigError } from '@/lib/llm';
+import { saveGeneratedMessages } from '@/lib/message-history';
+import { OUTREACH_MESSAGE_TYPES, type OutreachMessages } from '@/lib/message-rules';
+import { transformDbToApp } from '@/lib/storage';
+import type { GeneratedMessage, MessageRuleWarning, OutreachMessageType, PromptSelection, Prospect } from '@/types';
 
 export interface MessageGenerationResponse {
   track: MessageTrack;
   personalization_hook: string;
-  messages: {
-    connection_request: string;
-    opening_dm: string;
-    follow_up: string;
-  };
+  messages: Partial<OutreachMessages>;
+  warnings: MessageRuleWarning[];
+  attempts: number;
+  model: string;
+  prompts: Partial<Record<OutreachMessageType, PromptSelection>>;
+  saved: GeneratedMessage[]; // Stored versions; empty when nothing was persisted
 }
 
 export interface SkippedResponse {
@@ -21,34 +27,68 @@ export type GenerateMessagesResponse = MessageGenerationResponse | SkippedRespon
 
 export async function POST(request: NextRequest) {
   try {
+    const storage = await getWorkspaceStorage();
     const body = await request.json();
-    const { prospect } = body as { prospect: Partial<Prospect> };
+    const { prospect, messageTypes = OUTREACH_MESSAGE_TYPES, persist = true } = body as {
+      prospect: Partial<Prospect>;
+      messageTypes?: OutreachMessageType[]; // Regenerate only these types
+      persist?: boolean;                    // Save each message as a new version
+    };
 
-    if (!prospect) {
+    if (!prospect?.id) {
       return NextResponse.json(
-        { error: 'Prospect data is required' },
+        { error: 'Prospect data with an id is required' },
         { status: 400 }
       );
     }
 
-    // Check for API key
-    if (!process.env.OPENAI_API_KEY) {
+    if (
+      !Array.isArray(messageTypes) ||
+      messageTypes.length === 0 ||
+      messageTypes.some(type => !OUTREACH_MESSAGE_TYPES.includes(type))
+    ) {
       return NextResponse.json(
-        { error: 'OPENAI_API_KEY is not configured' },
+        { error: `messageTypes must be a non-empty list of: ${OUTREACH_MESSAGE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Check for a configured model provider
+    const configError = getLLMConfigError();
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
         { status: 500 }
       );
     }
 
-    const result = await generateMessagesWithSkill(prospect);
+    // The stored do-not-contact flag wins over whatever the client sent
+    const record = await storage.getProspectById(prospect.id);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+    const { doNotContact, doNotContactReason } = transformDbToApp([record])[0];
+    Object.assign(prospect, { doNotContact, doNotContactReason });
+
+    const result = await generateMessagesWithSkill(prospect, undefined, messageTypes);
+    if ('skipped' in result) {
+      return NextResponse.json(result);
+    }
+
+    // Store each message as a new version with how it was produced
+    const saved = persist
+      ? await saveGeneratedMessages(storage, prospect.id, result)
+      : [];
 
-    // Return the full result which includes either:
-    // - { track, personalization_hook, messages } for successful generation
-    // - { skipped: true, skip_reason } for skipped prospects
-    return NextResponse.json(result);
+    const response: MessageGenerationResponse = { ...result, saved };
+    return NextResponse.json(response);
   } catch (error) {
     console.error('Error generating messages:', error);
     return NextResponse.json(
-      { error: 'Failed to generate messages' },
+      { error: 'Failed to generate messages', details: String(error) },
       { status: 500 }
     );
   }
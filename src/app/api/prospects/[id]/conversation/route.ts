@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformConversationMessage } from '@/lib/storage';
+import type { ConversationMessage, ResponseClassification } from '@/types';
+
+// GET - The prospect's conversation thread, oldest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { id } = await params;
+    const thread = await storage.getConversation(id);
+    return NextResponse.json(thread.map(transformConversationMessage));
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a message to the thread by hand, e.g. earlier back-and-forth
+// that happened before the dashboard was used
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { direction, content, sentAt, classification } = await request.json() as {
+      direction: ConversationMessage['direction'];
+      content: string;
+      sentAt?: string;
+      classification?: ResponseClassification;
+    };
+
+    if (!['inbound', 'outbound'].includes(direction) || !content?.trim()) {
+      return NextResponse.json(
+        { error: 'direction (inbound or outbound) and content are required' },
+        { status: 400 }
+      );
+    }
+    if (sentAt && Number.isNaN(Date.parse(sentAt))) {
+      return NextResponse.json(
+        { error: 'sentAt must be a date' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    if (!await storage.getProspectById(id)) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    const saved = await storage.addConversationMessage({
+      prospect_id: id,
+      direction,
+      content: content.trim(),
+      source: 'manual',
+      classification: direction === 'inbound' ? classification || null : null,
+      sent_at: sentAt ? new Date(sentAt).toISOString() : new Date().toISOString()
+    });
+
+    return NextResponse.json(transformConversationMessage(saved));
+  } catch (error) {
+    console.error('Error adding conversation message:', error);
+    return NextResponse.json(
+      { error: 'Failed to add conversation message', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp } from '@/lib/storage';
+
+// PUT - Mark a prospect do not contact by hand
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { reason } = await request.json() as { reason?: string };
+
+    if (!reason?.trim()) {
+      return NextResponse.json(
+        { error: 'reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    if (!await storage.getProspectById(id)) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    await storage.setDoNotContact(id, reason.trim());
+    const updated = await storage.getProspectById(id);
+    return NextResponse.json(transformDbToApp([updated!])[0]);
+  } catch (error) {
+    console.error('Error marking prospect do not contact:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark prospect do not contact', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Clear the flag, e.g. after a hard no was misclassified
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    if (!await storage.getProspectById(id)) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    await storage.setDoNotContact(id, null);
+    const updated = await storage.getProspectById(id);
+    return NextResponse.json(transformDbToApp([updated!])[0]);
+  } catch (error) {
+    console.error('Error clearing do not contact:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear do not contact', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
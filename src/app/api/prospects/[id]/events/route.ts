@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getAuthProvider, getRequestIdentity } from '@/lib/auth';
+import { transformPipelineEvent } from '@/lib/storage';
+
+// GET - Pipeline status history for one prospect, newest first, with who
+// made each change
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = getAuthProvider();
+    const identity = await getRequestIdentity();
+    const { id } = await params;
+    const [events, members] = await Promise.all([
+      auth.getStorage(identity).getPipelineEvents(id),
+      auth.getMembers(identity)
+    ]);
+    const names = new Map(members.map(m => [m.userId, m.name]));
+
+    return NextResponse.json(events.map(record => {
+      const event = transformPipelineEvent(record);
+      return { ...event, actorName: event.actorId ? names.get(event.actorId) : undefined };
+    }));
+  } catch (error) {
+    console.error('Error fetching pipeline events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline events', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
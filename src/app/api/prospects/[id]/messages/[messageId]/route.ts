@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { getDoNotContactMessage } from '@/lib/do-not-contact';
+import { transformDbToApp, transformGeneratedMessage } from '@/lib/storage';
+import { getMessageSentPipelineUpdate } from '@/lib/message-history';
+import { DEFAULT_SEQUENCE } from '@/lib/sequences';
+import type { MessageType } from '@/types';
+
+// PATCH - Mark one message version as the one sent. Adds it to the conversation
+// thread, completes the matching sequence step and advances the pipeline
+// (stamping message_sent_at).
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const { id, messageId } = await params;
+    const { action } = await request.json() as { action?: 'mark_sent' };
+
+    if (action !== 'mark_sent') {
+      return NextResponse.json(
+        { error: 'Invalid action. Use "mark_sent"' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const message = await storage.getGeneratedMessage(messageId);
+    if (!message || message.prospect_id !== id) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const record = await storage.getProspectById(id);
+    const prospect = record ? transformDbToApp([record])[0] : null;
+    if (prospect?.doNotContact) {
+      return NextResponse.json(
+        { error: getDoNotContactMessage(prospect) },
+        { status: 409 }
+      );
+    }
+
+    const sent = await storage.markGeneratedMessageSent(messageId);
+    const messageType = sent.message_type as MessageType;
+
+    // Sent outreach opens (or continues) the conversation thread
+    const thread = await storage.getConversation(id);
+    if (!thread.some(t => t.generated_message_id === messageId)) {
+      await storage.addConversationMessage({
+        prospect_id: id,
+        direction: 'outbound',
+        content: sent.content,
+        source: 'outreach',
+        generated_message_id: messageId,
+        sent_at: sent.sent_at
+      });
+    }
+
+    const step = DEFAULT_SEQUENCE.steps.find(s => s.messageType === messageType);
+    if (step) {
+      await storage.recordSequenceStep(id, step.id, 'completed');
+    }
+
+    const update = getMessageSentPipelineUpdate(
+      messageType,
+      prospect?.pipeline?.status || 'not_contacted',
+      sent.sent_at as string
+    );
+
+    let pipeline = null;
+    if (prospect && update) {
+      pipeline = await storage.updatePipelineStatus(id, update, {
+        source: 'message',
+        note: `${step?.name || messageType} (version ${sent.version})`
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: transformGeneratedMessage(sent),
+      status: pipeline?.status
+    });
+  } catch (error) {
+    console.error('Error marking message sent:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark message sent', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+
+// POST - Save generated messages for one prospect
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { id } = await params;
+    const { messages } = await request.json() as {
+      messages: Array<{ messageType: string; content: string }>;
+    };
+
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json(
+        { error: 'No messages provided' },
+        { status: 400 }
+      );
+    }
+
+    const saved = [];
+    for (const message of messages) {
+      saved.push(await storage.saveGeneratedMessage(id, message.messageType, message.content));
+    }
+
+    return NextResponse.json({ success: true, messages: saved });
+  } catch (error) {
+    console.error('Error saving generated messages:', error);
+    return NextResponse.json(
+      { error: 'Failed to save messages', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { getDoNotContactMessage, isBlockedStatus } from '@/lib/do-not-contact';
+import { transformDbToApp } from '@/lib/storage';
+import type { PipelineEventSource, PipelineStatus } from '@/types';
+
+// PATCH - Update pipeline fields (status, timestamps, notes) for one prospect.
+// `source` and `note` are recorded on the pipeline event, not the pipeline row.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { source, note, ...updates } = await request.json() as Record<string, unknown> & {
+      source?: PipelineEventSource;
+      note?: string;
+    };
+
+    if (!updates || Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: 'No pipeline updates provided' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getProspectById(id);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    if (typeof updates.status === 'string' && isBlockedStatus(updates.status as PipelineStatus)) {
+      const prospect = transformDbToApp([record])[0];
+      if (prospect.doNotContact) {
+        return NextResponse.json(
+          { error: getDoNotContactMessage(prospect) },
+          { status: 409 }
+        );
+      }
+    }
+
+    const pipeline = await storage.updatePipelineStatus(id, updates, {
+      source: source || 'manual',
+      note
+    });
+    return NextResponse.json(pipeline);
+  } catch (error) {
+    console.error('Error updating pipeline status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update pipeline status', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp } from '@/lib/storage';
+
+// GET - One prospect with its pipeline and messages, for links that open a
+// prospect which may not be on the dashboard's loaded pages
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getProspectById(id);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(transformDbToApp([record])[0]);
+  } catch (error) {
+    console.error('Error fetching prospect:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prospect', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
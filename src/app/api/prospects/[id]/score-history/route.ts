@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformScoreSnapshot } from '@/lib/storage';
+
+// GET - ICP score snapshots for one prospect, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { id } = await params;
+    const snapshots = await storage.getScoreSnapshots(id);
+    return NextResponse.json(snapshots.map(transformScoreSnapshot));
+  } catch (error) {
+    console.error('Error fetching score history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch score history', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceMembers, getWorkspaceStorage } from '@/lib/auth';
+import { resolveBulkTarget } from '@/lib/saved-views';
+
+// POST - Give prospects to a workspace member, or unassign them with a null
+// assigneeId. Send `ids`, or a `viewId` for everyone in a saved view.
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const { assigneeId } = body;
+
+    const target = await resolveBulkTarget(storage, body, (await getRequestIdentity()).userId);
+    if (target.error !== undefined) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+    const ids = target.ids;
+
+    if (assigneeId === undefined) {
+      return NextResponse.json(
+        { error: 'No assignee provided' },
+        { status: 400 }
+      );
+    }
+
+    const assignee = assigneeId === null
+      ? null
+      : (await getWorkspaceMembers()).find(m => m.userId === assigneeId);
+    if (assignee === undefined) {
+      return NextResponse.json(
+        { error: 'Assignee is not a member of this workspace' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await storage.bulkAssignProspects(ids, assigneeId);
+    } catch (error) {
+      console.error('Error assigning prospects:', error);
+      return NextResponse.json(
+        { error: 'Failed to assign prospects', details: String(error) },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: assignee
+        ? `Assigned ${ids.length} prospects to ${assignee.name}`
+        : `Unassigned ${ids.length} prospects`,
+      updated: ids.length
+    });
+
+  } catch (error) {
+    console.error('Error in bulk assign:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
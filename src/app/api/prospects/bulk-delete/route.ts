@@ -1,18 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+import { getWorkspaceStorage } from '@/lib/auth';
 
+// POST - Delete prospects by id. Unlike the other bulk routes this takes no
+// viewId: deleting a whole view is too easy to do by accident.
 export async function POST(request: NextRequest) {
   try {
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { error: 'Supabase not configured' },
-        { status: 500 }
-      );
-    }
-
+    const storage = await getWorkspaceStorage();
     const { ids } = await request.json();
 
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -22,17 +15,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-    const { error } = await supabase
-      .from('prospects')
-      .delete()
-      .in('id', ids);
-
-    if (error) {
+    try {
+      await storage.bulkDeleteProspects(ids);
+    } catch (error) {
       console.error('Error deleting prospects:', error);
       return NextResponse.json(
-        { error: 'Failed to delete prospects', details: error.message },
+        { error: 'Failed to delete prospects', details: String(error) },
         { status: 500 }
       );
     }
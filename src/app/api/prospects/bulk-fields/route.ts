@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { validateCustomFieldChanges } from '@/lib/custom-fields';
+import { resolveBulkTarget } from '@/lib/saved-views';
+import { transformCustomField } from '@/lib/storage';
+
+// POST - Set custom field values on prospects ({ ids, values } with values
+// keyed by field id; null or blank clears a field). A `viewId` in place of
+// ids sets them for everyone in a saved view.
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const { values } = body;
+
+    const target = await resolveBulkTarget(storage, body, (await getRequestIdentity()).userId);
+    if (target.error !== undefined) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+    const ids = target.ids;
+
+    const fields = (await storage.getCustomFields()).map(transformCustomField);
+    const { changes, errors } = validateCustomFieldChanges(values, fields);
+    if (!changes) {
+      return NextResponse.json(
+        { error: errors.join('; '), errors },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await storage.bulkSetCustomFields(ids, changes);
+    } catch (error) {
+      console.error('Error setting custom fields:', error);
+      return NextResponse.json(
+        { error: 'Failed to set custom fields', details: String(error) },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated ${Object.keys(changes).length} field(s) for ${ids.length} prospects`,
+      updated: ids.length,
+      values: changes
+    });
+
+  } catch (error) {
+    console.error('Error in bulk field update:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { isBlockedStatus } from '@/lib/do-not-contact';
+import { resolveBulkTarget } from '@/lib/saved-views';
 
+// POST - Move prospects to a status. Send `ids`, or a `viewId` to move
+// everyone in a saved view.
 export async function POST(request: NextRequest) {
   try {
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { error: 'Supabase not configured' },
-        { status: 500 }
-      );
-    }
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const { status, note } = body;
 
-    const { ids, status } = await request.json();
-
-    if (!ids || !Array.isArray(ids) || ids.length === 0) {
+    const target = await resolveBulkTarget(storage, body, (await getRequestIdentity()).userId);
+    if (target.error !== undefined) {
       return NextResponse.json(
-        { error: 'No prospect IDs provided' },
-        { status: 400 }
+        { error: target.error },
+        { status: target.status }
       );
     }
+    const ids = target.ids;
 
     if (!status) {
       return NextResponse.json(
@@ -29,33 +27,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-    // Create upsert records for each prospect
-    const pipelineRecords = ids.map((id: string) => ({
-      prospect_id: id,
-      status: status,
-      updated_at: new Date().toISOString()
-    }));
-
-    const { error } = await supabase
-      .from('pipeline_status')
-      .upsert(pipelineRecords, {
-        onConflict: 'prospect_id'
-      });
+    // Prospects marked do not contact are left out of any move toward outreach
+    let targetIds: string[] = ids;
+    if (isBlockedStatus(status)) {
+      const doNotContactIds = new Set(await storage.getDoNotContactIds(ids));
+      targetIds = ids.filter((id: string) => !doNotContactIds.has(id));
+    }
+    const skippedDoNotContact = ids.length - targetIds.length;
 
-    if (error) {
+    try {
+      if (targetIds.length > 0) {
+        await storage.bulkUpdatePipelineStatus(targetIds, status, { source: 'bulk', note });
+      }
+    } catch (error) {
       console.error('Error updating pipeline status:', error);
       return NextResponse.json(
-        { error: 'Failed to update pipeline status', details: error.message },
+        { error: 'Failed to update pipeline status', details: String(error) },
         { status: 500 }
       );
     }
 
+    const skippedNote = skippedDoNotContact > 0
+      ? ` (skipped ${skippedDoNotContact} marked do not contact)`
+      : '';
     return NextResponse.json({
       success: true,
-      message: `Updated status to "${status}" for ${ids.length} prospects`,
-      updated: ids.length
+      message: `Updated status to "${status}" for ${targetIds.length} prospects${skippedNote}`,
+      updated: targetIds.length,
+      skippedDoNotContact
     });
 
   } catch (error) {
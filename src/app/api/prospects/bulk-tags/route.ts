@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { normalizeTags } from '@/lib/custom-fields';
+import { resolveBulkTarget } from '@/lib/saved-views';
+
+// POST - Add and/or remove tags on prospects ({ ids, add, remove }, or
+// viewId in place of ids for everyone in a saved view)
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const { add, remove } = body;
+
+    const target = await resolveBulkTarget(storage, body, (await getRequestIdentity()).userId);
+    if (target.error !== undefined) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+    const ids = target.ids;
+
+    const added = normalizeTags(add);
+    const removed = normalizeTags(remove);
+    if (added.length === 0 && removed.length === 0) {
+      return NextResponse.json(
+        { error: 'No tags provided' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await storage.bulkUpdateTags(ids, added, removed);
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      return NextResponse.json(
+        { error: 'Failed to update tags', details: String(error) },
+        { status: 500 }
+      );
+    }
+
+    const changes = [
+      added.length > 0 ? `added ${added.join(', ')}` : '',
+      removed.length > 0 ? `removed ${removed.join(', ')}` : ''
+    ].filter(Boolean).join(' and ');
+    return NextResponse.json({
+      success: true,
+      message: `Tags ${changes} for ${ids.length} prospects`,
+      updated: ids.length
+    });
+
+  } catch (error) {
+    console.error('Error in bulk tag update:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp } from '@/lib/storage';
+import { findDuplicateGroups } from '@/lib/duplicates';
+
+// GET - Prospects that look like the same person, grouped for merging
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const prospects = transformDbToApp(await storage.getProspects());
+    return NextResponse.json({ groups: findDuplicateGroups(prospects) });
+  } catch (error) {
+    console.error('Error finding duplicate prospects:', error);
+    return NextResponse.json(
+      { error: 'Failed to find duplicates', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
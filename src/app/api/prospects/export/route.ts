@@ -1,11 +1,11 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { loadProspectQueryContext, queryAllProspects, readProspectQuery } from '@/lib/prospect-query';
+import { transformCustomField } from '@/lib/storage';
+import type { CustomFieldDefinition, ProspectWithPipeline } from '@/types';
 
 // Helper to escape CSV fields
-function escapeCSV(value: string | number | null | undefined): string {
+function escapeCSV(value: unknown): string {
   if (value === null || value === undefined) return '';
   const str = String(value);
   // If contains comma, quote, or newline, wrap in quotes and escape existing quotes
@@ -17,94 +17,47 @@ function escapeCSV(value: string | number | null | undefined): string {
 
 export async function GET(request: Request) {
   try {
-    if (!supabaseUrl || !supabaseAnonKey) {
+    const storage = await getWorkspaceStorage();
+    // Same filters and sort as the dashboard list (src/lib/prospect-query.ts);
+    // the default order is ICP score, highest first
+    const { query, errors } = readProspectQuery(new URL(request.url).searchParams);
+    if (!query) {
       return NextResponse.json(
-        { error: 'Supabase not configured' },
-        { status: 500 }
+        { error: 'Invalid prospect query', errors },
+        { status: 400 }
       );
     }
 
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-    // Parse query params for optional filtering
-    const { searchParams } = new URL(request.url);
-    const filterStatus = searchParams.get('status');
-    const filterSegment = searchParams.get('segment');
-    const filterIcpRange = searchParams.get('icpRange');
-    const filterSearch = searchParams.get('search');
-
-    // Build query
-    let query = supabase
-      .from('prospects')
-      .select(`
-        id,
-        full_name,
-        linkedin_url,
-        headline,
-        job_title,
-        company_name,
-        company_industry,
-        company_size,
-        about_summary,
-        location,
-        icp_score,
-        icp_score_breakdown,
-        created_at,
-        pipeline:pipeline_status(status)
-      `)
-      .order('icp_score', { ascending: false });
-
-    // Apply filters if provided
-    if (filterSearch) {
-      query = query.or(`full_name.ilike.%${filterSearch}%,company_name.ilike.%${filterSearch}%,job_title.ilike.%${filterSearch}%`);
-    }
-
-    const { data: prospects, error } = await query;
-
-    if (error) {
+    let prospects: ProspectWithPipeline[];
+    let fields: CustomFieldDefinition[];
+    try {
+      if (await storage.countProspects({}) === 0) {
+        return NextResponse.json(
+          { error: 'No prospects to export' },
+          { status: 404 }
+        );
+      }
+
+      const context = await loadProspectQueryContext(storage, query.filters, (await getRequestIdentity()).userId);
+      // A saved view narrows the export to the prospects currently in it
+      if (!context) {
+        return NextResponse.json(
+          { error: 'Saved view not found' },
+          { status: 404 }
+        );
+      }
+
+      prospects = await queryAllProspects(storage, query, context);
+      fields = (await storage.getCustomFields()).map(transformCustomField);
+    } catch (error) {
       console.error('Error fetching prospects for export:', error);
       return NextResponse.json(
-        { error: 'Failed to fetch prospects', details: error.message },
+        { error: 'Failed to fetch prospects', details: String(error) },
         { status: 500 }
       );
     }
 
-    if (!prospects || prospects.length === 0) {
-      return NextResponse.json(
-        { error: 'No prospects to export' },
-        { status: 404 }
-      );
-    }
-
-    // Apply additional filters that can't be done in Supabase query
-    let filteredProspects = prospects;
-
-    if (filterStatus && filterStatus !== 'all') {
-      filteredProspects = filteredProspects.filter(p => {
-        const pipelineArray = p.pipeline as { status: string }[] | null;
-        const status = pipelineArray?.[0]?.status || 'not_contacted';
-        return status === filterStatus;
-      });
-    }
-
-    if (filterSegment && filterSegment !== 'all') {
-      filteredProspects = filteredProspects.filter(p => {
-        const breakdown = p.icp_score_breakdown as { segment?: string } | null;
-        return breakdown?.segment === filterSegment;
-      });
-    }
-
-    if (filterIcpRange && filterIcpRange !== 'all') {
-      filteredProspects = filteredProspects.filter(p => {
-        const score = p.icp_score || 0;
-        if (filterIcpRange === 'high') return score >= 70;
-        if (filterIcpRange === 'medium') return score >= 40 && score < 70;
-        if (filterIcpRange === 'low') return score < 40;
-        return true;
-      });
-    }
-
-    // CSV Headers
+    // CSV Headers. Each custom field gets a column after the built-in ones.
     const headers = [
       'id',
       'full_name',
@@ -124,47 +77,40 @@ export async function GET(request: Request) {
       'icp_product_category',
       'icp_profile_completeness',
       'pipeline_status',
-      'created_at'
+      'tags',
+      'created_at',
+      ...fields.map(field => field.label)
     ];
 
     // Build CSV rows
-    const rows: string[] = [headers.join(',')];
-
-    for (const prospect of filteredProspects) {
-      // Extract ICP breakdown fields
-      const breakdown = prospect.icp_score_breakdown as {
-        segment?: string;
-        titleAuthority?: number;
-        companySignals?: number;
-        companySize?: number;
-        productCategory?: number;
-        profileCompleteness?: number;
-      } | null;
+    const rows: string[] = [headers.map(escapeCSV).join(',')];
 
-      // Get pipeline status
-      const pipelineArray = prospect.pipeline as { status: string }[] | null;
-      const pipelineStatus = pipelineArray?.[0]?.status || 'not_contacted';
+    for (const prospect of prospects) {
+      const breakdown = prospect.icpScoreBreakdown;
+      const customFields = prospect.customFields || {};
 
       const row = [
         escapeCSV(prospect.id),
-        escapeCSV(prospect.full_name),
-        escapeCSV(prospect.linkedin_url),
+        escapeCSV(prospect.fullName),
+        escapeCSV(prospect.linkedinUrl),
         escapeCSV(prospect.headline),
-        escapeCSV(prospect.job_title),
-        escapeCSV(prospect.company_name),
-        escapeCSV(prospect.company_industry),
-        escapeCSV(prospect.company_size),
-        escapeCSV(prospect.about_summary),
+        escapeCSV(prospect.jobTitle),
+        escapeCSV(prospect.companyName),
+        escapeCSV(prospect.companyIndustry),
+        escapeCSV(prospect.companySize),
+        escapeCSV(prospect.aboutSummary),
         escapeCSV(prospect.location),
         escapeCSV(breakdown?.segment || ''),
-        escapeCSV(prospect.icp_score),
+        escapeCSV(prospect.icpScore),
         escapeCSV(breakdown?.titleAuthority),
         escapeCSV(breakdown?.companySignals),
         escapeCSV(breakdown?.companySize),
         escapeCSV(breakdown?.productCategory),
         escapeCSV(breakdown?.profileCompleteness),
-        escapeCSV(pipelineStatus),
-        escapeCSV(prospect.created_at)
+        escapeCSV(prospect.pipeline?.status || 'not_contacted'),
+        escapeCSV((prospect.tags || []).join('; ')),
+        escapeCSV(prospect.createdAt),
+        ...fields.map(field => escapeCSV(customFields[field.id]))
       ];
 
       rows.push(row.join(','));
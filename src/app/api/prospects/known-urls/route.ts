@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+
+// POST - Which of the given LinkedIn URLs ({ urls }) belong to a stored
+// prospect, under any URL form it is known by. Lets the URL import skip
+// duplicates without the dashboard loading every prospect.
+export async function POST(request: Request) {
+  try {
+    const { urls } = await request.json() as { urls?: unknown };
+    if (!Array.isArray(urls) || urls.some(url => typeof url !== 'string')) {
+      return NextResponse.json(
+        { error: 'urls must be a list of LinkedIn URLs' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const known: string[] = [];
+    for (const url of urls as string[]) {
+      if (await storage.findProspectByLinkedInUrl(url)) known.push(url);
+    }
+    return NextResponse.json({ known });
+  } catch (error) {
+    console.error('Error checking LinkedIn URLs:', error);
+    return NextResponse.json(
+      { error: 'Failed to check LinkedIn URLs', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp } from '@/lib/storage';
+
+// POST - Merge duplicate prospects into one. Their messages, posts, replies
+// and pipeline history move to keepId, which keeps the most advanced status.
+export async function POST(request: NextRequest) {
+  try {
+    const { keepId, mergeIds } = await request.json() as { keepId?: string; mergeIds?: string[] };
+
+    if (!keepId || !Array.isArray(mergeIds) || mergeIds.length === 0) {
+      return NextResponse.json(
+        { error: 'keepId and mergeIds are required' },
+        { status: 400 }
+      );
+    }
+
+    const ids = [...new Set(mergeIds)];
+    if (ids.includes(keepId)) {
+      return NextResponse.json(
+        { error: 'The kept prospect cannot also be merged' },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const found = await Promise.all([keepId, ...ids].map(id => storage.getProspectById(id)));
+    if (found.some(prospect => !prospect)) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    const merged = await storage.mergeProspects(keepId, ids);
+    return NextResponse.json({
+      prospect: transformDbToApp([merged])[0],
+      merged: ids.length
+    });
+  } catch (error) {
+    console.error('Error merging prospects:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge prospects', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
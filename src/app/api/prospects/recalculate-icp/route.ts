@@ -1,30 +1,27 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp, type DbRecord } from '@/lib/storage';
 import { calculateICPScoreWithBreakdown } from '@/lib/import';
+import { getScoringProfileRevision, resolveScoringProfile } from '@/lib/scoring-profile';
+import { buildRescoreReport, type RescoreChange } from '@/lib/icp-history';
+import type { ICPScoreBreakdown, Prospect } from '@/types';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-
-export async function POST() {
+// POST - Rescore every prospect against the active scoring profile.
+// Body { dryRun: true } returns the diff report without saving anything.
+export async function POST(request: Request) {
   try {
-    if (!supabaseUrl || !supabaseAnonKey) {
-      return NextResponse.json(
-        { error: 'Supabase not configured' },
-        { status: 500 }
-      );
-    }
-
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const storage = await getWorkspaceStorage();
+    const { dryRun = false } = await request.json().catch(() => ({})) as { dryRun?: boolean };
 
     // Fetch all prospects
-    const { data: prospects, error: fetchError } = await supabase
-      .from('prospects')
-      .select('*');
-
-    if (fetchError) {
+    let prospects;
+    try {
+      prospects = await storage.getProspects();
+    } catch (fetchError) {
       console.error('Error fetching prospects:', fetchError);
       return NextResponse.json(
-        { error: 'Failed to fetch prospects', details: fetchError.message },
+        { error: 'Failed to fetch prospects', details: String(fetchError) },
         { status: 500 }
       );
     }
@@ -37,53 +34,80 @@ export async function POST() {
       });
     }
 
+    // Score against the workspace's active profile
+    const profileRecord = await storage.getScoringProfile(storage.workspaceId);
+    const profile = resolveScoringProfile(profileRecord);
+    const profileRevision = getScoringProfileRevision(profileRecord);
+    const runId = randomUUID();
+
     // Recalculate ICP scores for each prospect
     let updated = 0;
     const errors: string[] = [];
+    const changes: RescoreChange[] = [];
+    const snapshots: DbRecord[] = [];
 
     for (const prospect of prospects) {
       // Transform DB record to app format for scoring
-      const prospectData = {
-        firstName: prospect.first_name,
-        lastName: prospect.last_name,
-        fullName: prospect.full_name,
-        linkedinUrl: prospect.linkedin_url,
-        headline: prospect.headline,
-        aboutSummary: prospect.about_summary,
-        companyName: prospect.company_name,
-        companyIndustry: prospect.company_industry,
-        companySize: prospect.company_size,
-        jobTitle: prospect.job_title,
-        location: prospect.location,
-        careerHistory: prospect.career_history || [],
-        recentPosts: prospect.recent_posts || [],
-      };
+      const prospectData = transformDbToApp([prospect])[0] as Partial<Prospect>;
+      const previousBreakdown = prospect.icp_score_breakdown as ICPScoreBreakdown | null;
+      const previousScore = Number(prospect.icp_score ?? 0);
 
       // Calculate new ICP score
-      const icpBreakdown = calculateICPScoreWithBreakdown(prospectData);
+      const icpBreakdown = calculateICPScoreWithBreakdown(prospectData, profile);
 
-      // Update the prospect in the database
-      const { error: updateError } = await supabase
-        .from('prospects')
-        .update({
+      changes.push({
+        prospectId: prospect.id as string,
+        name: (prospect.full_name as string) || 'Unknown',
+        previousScore,
+        newScore: icpBreakdown.total,
+        previousSegment: previousBreakdown?.segment,
+        newSegment: icpBreakdown.segment
+      });
+
+      if (dryRun) continue;
+
+      // Update the prospect
+      try {
+        await storage.updateProspect(prospect.id as string, {
+          icp_score: icpBreakdown.total,
+          icp_score_breakdown: icpBreakdown
+        });
+        snapshots.push({
+          run_id: runId,
+          prospect_id: prospect.id,
           icp_score: icpBreakdown.total,
           icp_score_breakdown: icpBreakdown,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', prospect.id);
-
-      if (updateError) {
-        errors.push(`Failed to update ${prospect.full_name}: ${updateError.message}`);
-      } else {
+          previous_score: previousScore,
+          profile_name: profile.name,
+          profile_revision: profileRevision
+        });
         updated++;
+      } catch (updateError) {
+        errors.push(`Failed to update ${prospect.full_name}: ${String(updateError)}`);
       }
     }
 
+    // Keep the history even if some updates failed
+    try {
+      await storage.saveScoreSnapshots(snapshots);
+    } catch (snapshotError) {
+      errors.push(`Failed to save score history: ${String(snapshotError)}`);
+    }
+
+    const report = buildRescoreReport(changes);
+
     return NextResponse.json({
       success: true,
-      message: `Recalculated ICP scores for ${updated} prospects`,
+      message: dryRun
+        ? `Previewed ICP scores for ${prospects.length} prospects (${report.tierChanged} would change tier)`
+        : `Recalculated ICP scores for ${updated} prospects`,
+      dryRun,
+      runId: dryRun ? undefined : runId,
+      profile: profile.name,
+      profileRevision,
       updated,
       total: prospects.length,
+      report,
       errors: errors.length > 0 ? errors : undefined
     });
 
@@ -1,11 +1,34 @@
-import { NextResponse } from 'next/server';
-import { getProspects, transformDbToApp } from '@/lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { assignNewProspects } from '@/lib/assignment';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { normalizeTags, sanitizeCustomFieldValues } from '@/lib/custom-fields';
+import { loadProspectQueryContext, queryProspects, readProspectQuery } from '@/lib/prospect-query';
+import { transformCustomField, type ImportBatchInput, type ProspectImportInput } from '@/lib/storage';
 
-export async function GET() {
+// GET - One page of the prospect list. Takes the dashboard's query string
+// (status, segment, icp, search, assignee, tag, field, view, sort) plus
+// cursor and limit; see src/lib/prospect-query.ts.
+export async function GET(request: NextRequest) {
   try {
-    const data = await getProspects();
-    const transformed = transformDbToApp(data || []);
-    return NextResponse.json(transformed);
+    const { query, errors } = readProspectQuery(new URL(request.url).searchParams);
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Invalid prospect query', errors },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const { userId } = await getRequestIdentity();
+    const context = await loadProspectQueryContext(storage, query.filters, userId);
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await queryProspects(storage, query, context));
   } catch (error) {
     console.error('Error fetching prospects:', error);
     return NextResponse.json(
@@ -14,3 +37,62 @@ export async function GET() {
     );
   }
 }
+
+const IMPORT_BATCH_SOURCES = ['excel', 'url', 'manual'];
+
+// POST - Bulk import prospects with optional pipeline data keyed by LinkedIn URL.
+// `batch` records the upload so analytics can compare import batches. New
+// prospects are assigned by the workspace's assignment settings. Tags and
+// custom field values mapped from import columns are added to what the
+// prospect already has; values that don't fit their field are dropped.
+export async function POST(request: NextRequest) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { prospects, pipeline, batch } = await request.json() as {
+      prospects: ProspectImportInput[];
+      pipeline?: Array<{ linkedinUrl: string; status?: string; notes?: string }>;
+      batch?: ImportBatchInput;
+    };
+
+    if (!prospects || !Array.isArray(prospects) || prospects.length === 0) {
+      return NextResponse.json(
+        { error: 'No prospects provided' },
+        { status: 400 }
+      );
+    }
+
+    if (batch && (!IMPORT_BATCH_SOURCES.includes(batch.source) || !batch.label?.trim())) {
+      return NextResponse.json(
+        { error: 'Import batch needs a source (excel, url or manual) and a label' },
+        { status: 400 }
+      );
+    }
+
+    const pipelineMap = new Map<string, { status?: string; notes?: string }>();
+    for (const entry of pipeline || []) {
+      pipelineMap.set(entry.linkedinUrl, { status: entry.status, notes: entry.notes });
+    }
+
+    const fields = (await storage.getCustomFields()).map(transformCustomField);
+    const sanitized = prospects.map(p => ({
+      ...p,
+      ...(p.tags !== undefined ? { tags: normalizeTags(p.tags) } : {}),
+      ...(p.customFields !== undefined ? { customFields: sanitizeCustomFieldValues(p.customFields, fields) } : {})
+    }));
+
+    const inserted = await storage.bulkImportProspects(sanitized, pipelineMap, batch);
+    const assigned = await assignNewProspects(storage, inserted);
+
+    return NextResponse.json({
+      success: true,
+      imported: inserted.length,
+      assigned
+    });
+  } catch (error) {
+    console.error('Error importing prospects:', error);
+    return NextResponse.json(
+      { error: 'Failed to import prospects', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
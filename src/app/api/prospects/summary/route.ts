@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { loadProspectSummary } from '@/lib/prospect-query';
+import { resolveSavedView } from '@/lib/saved-views';
+
+// GET - Header stats, tags in use and saved view counts for the workspace, so
+// the dashboard doesn't need every prospect to show them
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { userId } = await getRequestIdentity();
+    const views = (await storage.getSavedViews()).map(resolveSavedView);
+
+    return NextResponse.json(await loadProspectSummary(storage, views, { currentUserId: userId }));
+  } catch (error) {
+    console.error('Error summarizing prospects:', error);
+    return NextResponse.json(
+      { error: 'Failed to summarize prospects', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
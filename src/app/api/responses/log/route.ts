@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import type { ResponseClassification, ResponseOption } from '@/types';
-
-// Initialize Supabase client if configured
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-const supabase = supabaseUrl && supabaseKey
-  ? createClient(supabaseUrl, supabaseKey)
-  : null;
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformConversationMessage, transformDbToApp } from '@/lib/storage';
+import { findLoggedReply } from '@/lib/conversation';
+import { buildHardNoReason } from '@/lib/do-not-contact';
+import type {
+  PipelineStatus,
+  ResponseClassification,
+  ResponseOption
+} from '@/types';
+
+// Logging a reply moves prospects still in these stages to 'responded'
+const PRE_RESPONSE_STATUSES: PipelineStatus[] = [
+  'not_contacted',
+  'visited',
+  'connection_sent',
+  'connected',
+  'message_sent'
+];
 
 interface LogResponseRequest {
   prospectId: string;
@@ -16,6 +24,7 @@ interface LogResponseRequest {
   classification: ResponseClassification;
   classificationOverridden: boolean;
   originalClassification?: ResponseClassification;
+  classificationConfidence?: number;
   generatedResponses: ResponseOption[];
   selectedResponse?: string;
   selectedStyle?: 'direct' | 'soft' | 'question_first';
@@ -31,6 +40,7 @@ export async function POST(request: NextRequest) {
       classification,
       classificationOverridden,
       originalClassification,
+      classificationConfidence,
       generatedResponses,
       selectedResponse,
       selectedStyle
@@ -43,8 +53,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const logEntry = {
-      id: `resp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getProspectById(prospectId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+    const prospect = transformDbToApp([record])[0];
+    const currentStatus = prospect.pipeline?.status || 'not_contacted';
+
+    // Attribute the reply to the last message sent, and so to its prompt variant
+    const lastSent = (prospect.messages || [])
+      .filter(m => m.used && m.sentAt)
+      .sort((a, b) => b.sentAt!.localeCompare(a.sentAt!))[0];
+
+    const saved = await storage.logResponseInteraction({
       prospect_id: prospectId,
       prospect_response: prospectResponse,
       classification,
@@ -53,29 +78,71 @@ export async function POST(request: NextRequest) {
       generated_responses: generatedResponses,
       selected_response: selectedResponse,
       selected_style: selectedStyle,
-      created_at: new Date().toISOString()
+      generated_message_id: lastSent?.id || null,
+      prompt_variant: lastSent?.promptVariant || null
+    });
+
+    // Add the reply and the chosen response to the thread. Logging the same
+    // reply again (another option copied, classification overridden) updates
+    // those turns instead of adding new ones.
+    const thread = (await storage.getConversation(prospectId))
+      .map(transformConversationMessage);
+    const logged = findLoggedReply(thread, prospectResponse);
+    const classificationFields = {
+      classification,
+      classification_confidence: classificationOverridden ? null : classificationConfidence ?? null
     };
 
-    // Try to save to Supabase if configured
-    if (supabase) {
-      const { error } = await supabase
-        .from('response_interactions')
-        .insert(logEntry);
-
-      if (error) {
-        // Table might not exist, log to console instead
-        console.log('Response interaction (Supabase unavailable):', JSON.stringify(logEntry, null, 2));
+    const inbound = logged.inbound
+      ? await storage.updateConversationMessage(logged.inbound.id, classificationFields)
+      : await storage.addConversationMessage({
+          prospect_id: prospectId,
+          direction: 'inbound',
+          content: prospectResponse,
+          source: 'response',
+          ...classificationFields,
+          sent_at: saved.created_at || new Date().toISOString()
+        });
+
+    if (selectedResponse) {
+      if (logged.response) {
+        await storage.updateConversationMessage(logged.response.id, { content: selectedResponse });
+      } else {
+        // Always after the reply it answers, even when logged in the same instant
+        const sentAt = Math.max(Date.now(), Date.parse(inbound.sent_at as string) + 1000);
+        await storage.addConversationMessage({
+          prospect_id: prospectId,
+          direction: 'outbound',
+          content: selectedResponse,
+          source: 'response',
+          sent_at: new Date(sentAt).toISOString()
+        });
       }
-    } else {
-      // Log to console for tracking
-      console.log('Response interaction logged:', JSON.stringify(logEntry, null, 2));
     }
 
-    return NextResponse.json({ success: true, id: logEntry.id });
+    if (PRE_RESPONSE_STATUSES.includes(currentStatus)) {
+      // Received as of this log entry, so the reply counts as answered on /today
+      await storage.updatePipelineStatus(prospectId, {
+        status: 'responded',
+        response_received_at: saved.created_at || new Date().toISOString()
+      }, {
+        source: 'response_log',
+        note: `Reply classified as ${classification}`
+      });
+    }
+
+    // A hard no means no follow-up ever. Clearing the flag is left to a person.
+    let doNotContactReason: string | undefined;
+    if (classification === 'hard_no' && !prospect.doNotContact) {
+      doNotContactReason = buildHardNoReason(prospectResponse);
+      await storage.setDoNotContact(prospectId, doNotContactReason);
+    }
+
+    return NextResponse.json({ success: true, id: saved.id, doNotContactReason });
   } catch (error) {
     console.error('Error logging response:', error);
     return NextResponse.json(
-      { error: 'Failed to log response' },
+      { error: 'Failed to log response', details: String(error) },
       { status: 500 }
     );
   }
@@ -84,42 +151,21 @@ export async function POST(request: NextRequest) {
 // Get response interaction logs (for analytics)
 export async function GET(request: NextRequest) {
   try {
+    const storage = await getWorkspaceStorage();
     const { searchParams } = new URL(request.url);
     const prospectId = searchParams.get('prospectId');
     const limit = parseInt(searchParams.get('limit') || '50');
 
-    if (!supabase) {
-      return NextResponse.json({
-        interactions: [],
-        message: 'Supabase not configured - logs are only in server console'
-      });
-    }
-
-    let query = supabase
-      .from('response_interactions')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (prospectId) {
-      query = query.eq('prospect_id', prospectId);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      // Table might not exist
-      return NextResponse.json({
-        interactions: [],
-        message: 'Response interactions table not found'
-      });
-    }
+    const interactions = await storage.getResponseInteractions({
+      prospectId: prospectId || undefined,
+      limit
+    });
 
-    return NextResponse.json({ interactions: data || [] });
+    return NextResponse.json({ interactions });
   } catch (error) {
     console.error('Error fetching response logs:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch response logs' },
+      { error: 'Failed to fetch response logs', details: String(error) },
       { status: 500 }
     );
   }
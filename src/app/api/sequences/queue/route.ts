@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { filterToSavedView } from '@/lib/saved-views';
+import { transformDbToApp, transformSequenceProgress } from '@/lib/storage';
+import { buildSequenceQueue, DEFAULT_SEQUENCE, DEFAULT_UPCOMING_DAYS } from '@/lib/sequences';
+
+// GET - Sequence steps due today, plus those coming up in the next ?days= days.
+// ?view= limits the queue to the prospects in a saved view.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Number(searchParams.get('days') ?? DEFAULT_UPCOMING_DAYS);
+    const viewId = searchParams.get('view');
+    const storage = await getWorkspaceStorage();
+
+    const [prospects, progress] = await Promise.all([
+      storage.getProspects(),
+      storage.getSequenceProgress()
+    ]);
+
+    let queueProspects = transformDbToApp(prospects);
+    if (viewId) {
+      const inView = await filterToSavedView(storage, queueProspects, viewId, (await getRequestIdentity()).userId);
+      if (!inView) {
+        return NextResponse.json(
+          { error: 'Saved view not found' },
+          { status: 404 }
+        );
+      }
+      queueProspects = inView;
+    }
+
+    const queue = buildSequenceQueue(
+      queueProspects,
+      progress.map(transformSequenceProgress),
+      { upcomingDays: Number.isFinite(days) && days >= 0 ? days : DEFAULT_UPCOMING_DAYS }
+    );
+
+    return NextResponse.json({
+      sequence: DEFAULT_SEQUENCE,
+      ...queue
+    });
+  } catch (error) {
+    console.error('Error building sequence queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to build sequence queue', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { getDoNotContactMessage } from '@/lib/do-not-contact';
+import { transformDbToApp, transformSequenceProgress } from '@/lib/storage';
+import { DEFAULT_SEQUENCE } from '@/lib/sequences';
+import type { SequenceStepOutcome } from '@/types';
+
+const OUTCOMES: SequenceStepOutcome[] = ['completed', 'skipped'];
+
+// POST - Mark a sequence step done or skipped for one prospect.
+// Completing a step with `advancesTo` also moves the prospect's pipeline status.
+export async function POST(request: Request) {
+  try {
+    const { prospectId, stepId, outcome = 'completed' } = await request.json() as {
+      prospectId?: string;
+      stepId?: string;
+      outcome?: SequenceStepOutcome;
+    };
+
+    if (!prospectId || !stepId) {
+      return NextResponse.json(
+        { error: 'prospectId and stepId are required' },
+        { status: 400 }
+      );
+    }
+
+    const step = DEFAULT_SEQUENCE.steps.find(s => s.id === stepId);
+    if (!step) {
+      return NextResponse.json(
+        { error: `Unknown sequence step: ${stepId}` },
+        { status: 400 }
+      );
+    }
+
+    if (!OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `outcome must be one of: ${OUTCOMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+
+    const record = await storage.getProspectById(prospectId);
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Prospect not found' },
+        { status: 404 }
+      );
+    }
+
+    // Skipping a step is still allowed; completing one would mean reaching out
+    const prospect = transformDbToApp([record])[0];
+    if (outcome === 'completed' && prospect.doNotContact) {
+      return NextResponse.json(
+        { error: getDoNotContactMessage(prospect) },
+        { status: 409 }
+      );
+    }
+
+    const progress = await storage.recordSequenceStep(prospectId, stepId, outcome);
+
+    let pipeline = null;
+    if (outcome === 'completed' && step.advancesTo) {
+      pipeline = await storage.updatePipelineStatus(prospectId, { status: step.advancesTo }, {
+        source: 'sequence',
+        note: step.name
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      progress: transformSequenceProgress(progress),
+      status: pipeline?.status
+    });
+  } catch (error) {
+    console.error('Error recording sequence step:', error);
+    return NextResponse.json(
+      { error: 'Failed to record sequence step', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceMembers, getWorkspaceStorage } from '@/lib/auth';
+import { resolveAssignmentSettings, validateAssignmentSettings } from '@/lib/assignment';
+
+// GET - How the workspace assigns new prospects (nobody if none saved)
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getAssignmentSettings(storage.workspaceId);
+    return NextResponse.json({
+      settings: resolveAssignmentSettings(record),
+      updatedAt: record?.updated_at ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching assignment settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch assignment settings', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Validate and save the workspace's assignment rules and round-robin
+export async function PUT(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const members = await getWorkspaceMembers();
+    const { settings, errors } = validateAssignmentSettings(body.settings, members.map(m => m.userId));
+
+    if (!settings) {
+      return NextResponse.json(
+        { error: 'Invalid assignment settings', errors },
+        { status: 400 }
+      );
+    }
+
+    const saved = await storage.saveAssignmentSettings(storage.workspaceId, settings);
+    return NextResponse.json({
+      settings,
+      updatedAt: saved.updated_at ?? null
+    });
+  } catch (error) {
+    console.error('Error saving assignment settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save assignment settings', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { validateCustomFieldDefinition } from '@/lib/custom-fields';
+import { transformCustomField } from '@/lib/storage';
+
+// PATCH - Rename a custom field or change a select field's options. The type
+// is fixed once values have been stored under it.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    const fields = await storage.getCustomFields();
+    const current = fields.find(f => f.id === id);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Custom field not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { field, errors } = validateCustomFieldDefinition({ ...current, ...body });
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Invalid custom field', errors },
+        { status: 400 }
+      );
+    }
+
+    if (field.type !== current.type) {
+      return NextResponse.json(
+        { error: 'A custom field\'s type cannot be changed' },
+        { status: 400 }
+      );
+    }
+
+    if (fields.some(f => f.id !== id && String(f.label).toLowerCase() === field.label.toLowerCase())) {
+      return NextResponse.json(
+        { error: `There is already a field called "${field.label}"` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await storage.updateCustomField(id, { label: field.label, options: field.options });
+    return NextResponse.json({ field: transformCustomField(updated) });
+  } catch (error) {
+    console.error('Error updating custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to update custom field', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a custom field. Values already on prospects are ignored.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    await storage.deleteCustomField(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete custom field', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { validateCustomFieldDefinition } from '@/lib/custom-fields';
+import { transformCustomField } from '@/lib/storage';
+
+// GET - The workspace's custom fields, oldest first
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const fields = await storage.getCustomFields();
+    return NextResponse.json({ fields: fields.map(transformCustomField) });
+  } catch (error) {
+    console.error('Error fetching custom fields:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custom fields', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a custom field ({ label, type, options })
+export async function POST(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { field, errors } = validateCustomFieldDefinition(await request.json());
+
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Invalid custom field', errors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await storage.getCustomFields();
+    if (existing.some(f => String(f.label).toLowerCase() === field.label.toLowerCase())) {
+      return NextResponse.json(
+        { error: `There is already a field called "${field.label}"` },
+        { status: 400 }
+      );
+    }
+
+    const created = await storage.createCustomField(field);
+    return NextResponse.json({ field: transformCustomField(created) });
+  } catch (error) {
+    console.error('Error creating custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to create custom field', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
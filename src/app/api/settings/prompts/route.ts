@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { transformDbToApp, transformResponseInteraction } from '@/lib/storage';
+import { buildPromptVariantReport, PROMPT_VARIANTS } from '@/lib/prompts';
+
+// GET - Registered prompt variants with messages sent and reply rates
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const [prospectRecords, interactionRecords] = await Promise.all([
+      storage.getProspects(),
+      storage.getResponseInteractions({ limit: null })
+    ]);
+
+    const prospects = transformDbToApp(prospectRecords);
+    const interactions = interactionRecords.map(transformResponseInteraction);
+
+    return NextResponse.json({
+      variants: buildPromptVariantReport(
+        prospects.flatMap(p => p.messages || []),
+        interactions,
+        PROMPT_VARIANTS
+      )
+    });
+  } catch (error) {
+    console.error('Error building prompt variant report:', error);
+    return NextResponse.json(
+      { error: 'Failed to load prompt variants', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import {
+  DEFAULT_SCORING_PROFILE,
+  getScoringProfileRevision,
+  resolveScoringProfile,
+  validateScoringProfile
+} from '@/lib/scoring-profile';
+
+// GET - Active scoring profile for the workspace (the default if none saved)
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getScoringProfile(storage.workspaceId);
+    return NextResponse.json({
+      profile: resolveScoringProfile(record),
+      revision: getScoringProfileRevision(record),
+      isDefault: !record,
+      updatedAt: record?.updated_at ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching scoring profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring profile', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Validate and save the workspace's scoring profile
+export async function PUT(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const body = await request.json();
+    const { profile, errors } = validateScoringProfile(body.profile);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Invalid scoring profile', errors },
+        { status: 400 }
+      );
+    }
+
+    const saved = await storage.saveScoringProfile(storage.workspaceId, profile);
+    return NextResponse.json({
+      profile,
+      revision: getScoringProfileRevision(saved),
+      isDefault: false,
+      updatedAt: saved.updated_at ?? null
+    });
+  } catch (error) {
+    console.error('Error saving scoring profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save scoring profile', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Discard the saved profile and go back to the default
+export async function DELETE() {
+  try {
+    const storage = await getWorkspaceStorage();
+    await storage.deleteScoringProfile(storage.workspaceId);
+    return NextResponse.json({
+      profile: DEFAULT_SCORING_PROFILE,
+      revision: 0,
+      isDefault: true,
+      updatedAt: null
+    });
+  } catch (error) {
+    console.error('Error resetting scoring profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset scoring profile', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { filterToSavedView } from '@/lib/saved-views';
+import {
+  ENGAGEMENT_POST_MAX_AGE_DAYS,
+  transformDbToApp,
+  transformEngagementPost,
+  transformSequenceProgress
+} from '@/lib/storage';
+import { buildActionQueue } from '@/lib/action-queue';
+
+// GET - The prioritized /today action queue. ?view= limits it to the
+// prospects in a saved view.
+export async function GET(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const viewId = new URL(request.url).searchParams.get('view');
+
+    const [prospectRecords, progress, posts] = await Promise.all([
+      storage.getProspects(),
+      storage.getSequenceProgress(),
+      storage.getEngagementPosts('active')
+    ]);
+    let prospects = transformDbToApp(prospectRecords);
+    if (viewId) {
+      const inView = await filterToSavedView(storage, prospects, viewId, (await getRequestIdentity()).userId);
+      if (!inView) {
+        return NextResponse.json(
+          { error: 'Saved view not found' },
+          { status: 404 }
+        );
+      }
+      prospects = inView;
+    }
+
+    // Only prospects who replied can be waiting on an answer
+    const lastAnsweredAt = await storage.getLatestResponseTimes(
+      prospects.filter(p => p.pipeline?.status === 'responded').map(p => p.id)
+    );
+
+    const queue = buildActionQueue({
+      prospects,
+      sequenceProgress: progress.map(transformSequenceProgress),
+      activePosts: posts.map(transformEngagementPost),
+      lastAnsweredAt,
+      postMaxAgeDays: ENGAGEMENT_POST_MAX_AGE_DAYS
+    });
+
+    return NextResponse.json(queue);
+  } catch (error) {
+    console.error('Error building action queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to build action queue', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
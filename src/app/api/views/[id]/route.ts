@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { resolveSavedView, validateSavedView } from '@/lib/saved-views';
+
+// PATCH - Rename a saved view or change its filter or sort
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    const record = await storage.getSavedView(id);
+
+    if (!record) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = resolveSavedView(record);
+    const body = await request.json();
+    const { view, errors } = validateSavedView({
+      name: current.name,
+      filter: current.filter,
+      sort: current.sort,
+      ...body
+    });
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', errors },
+        { status: 400 }
+      );
+    }
+
+    const others = (await storage.getSavedViews()).filter(v => v.id !== id);
+    if (others.some(v => String(v.name).toLowerCase() === view.name.toLowerCase())) {
+      return NextResponse.json(
+        { error: `There is already a view called "${view.name}"` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await storage.updateSavedView(id, { name: view.name, filter: view.filter, sort: view.sort || null });
+    return NextResponse.json({ view: resolveSavedView(updated) });
+  } catch (error) {
+    console.error('Error updating saved view:', error);
+    return NextResponse.json(
+      { error: 'Failed to update saved view', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a saved view. The prospects in it are untouched.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const storage = await getWorkspaceStorage();
+    await storage.deleteSavedView(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved view', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getRequestIdentity, getWorkspaceStorage } from '@/lib/auth';
+import { EMPTY_PROSPECT_FILTERS, queryProspects } from '@/lib/prospect-query';
+import { validateViewFilter } from '@/lib/saved-views';
+
+// POST - How many prospects a filter ({ filter }) matches right now, shown
+// while a view is edited
+export async function POST(request: Request) {
+  try {
+    const { filter, errors } = validateViewFilter((await request.json())?.filter);
+    if (!filter) {
+      return NextResponse.json(
+        { error: 'Invalid view filter', errors },
+        { status: 400 }
+      );
+    }
+
+    const storage = await getWorkspaceStorage();
+    const { userId } = await getRequestIdentity();
+    const { total } = await queryProspects(
+      storage,
+      { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'recent', limit: 1 },
+      { currentUserId: userId, fields: [], view: { filter } }
+    );
+    return NextResponse.json({ count: total ?? 0 });
+  } catch (error) {
+    console.error('Error counting view prospects:', error);
+    return NextResponse.json(
+      { error: 'Failed to count prospects', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
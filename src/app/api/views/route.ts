@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getWorkspaceStorage } from '@/lib/auth';
+import { resolveSavedView, validateSavedView } from '@/lib/saved-views';
+
+// GET - The workspace's saved views, by name
+export async function GET() {
+  try {
+    const storage = await getWorkspaceStorage();
+    const views = await storage.getSavedViews();
+    return NextResponse.json({ views: views.map(resolveSavedView) });
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved views', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Save a view ({ name, filter, sort })
+export async function POST(request: Request) {
+  try {
+    const storage = await getWorkspaceStorage();
+    const { view, errors } = validateSavedView(await request.json());
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Invalid saved view', errors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await storage.getSavedViews();
+    if (existing.some(v => String(v.name).toLowerCase() === view.name.toLowerCase())) {
+      return NextResponse.json(
+        { error: `There is already a view called "${view.name}"` },
+        { status: 400 }
+      );
+    }
+
+    const created = await storage.createSavedView({ name: view.name, filter: view.filter, sort: view.sort || null });
+    return NextResponse.json({ view: resolveSavedView(created) });
+  } catch (error) {
+    console.error('Error creating saved view:', error);
+    return NextResponse.json(
+      { error: 'Failed to create saved view', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getAuthErrorStatus, getAuthProvider, getRequestIdentity, setWorkspaceCookie } from '@/lib/auth';
+
+// POST - Join a workspace with its invite code and switch to it
+export async function POST(request: Request) {
+  try {
+    const { inviteCode } = await request.json() as { inviteCode?: string };
+    if (!inviteCode?.trim()) {
+      return NextResponse.json(
+        { error: 'inviteCode is required' },
+        { status: 400 }
+      );
+    }
+
+    const workspaceId = await getAuthProvider().joinWorkspace(await getRequestIdentity(), inviteCode);
+    const response = NextResponse.json({ workspaceId });
+    setWorkspaceCookie(response, workspaceId);
+    return response;
+  } catch (error) {
+    const status = getAuthErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status }
+      );
+    }
+    console.error('Error joining workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to join workspace', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
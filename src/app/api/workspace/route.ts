@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getAuthProvider, getRequestIdentity, getRequestSession } from '@/lib/auth';
+
+// GET - The current workspace and its members. The invite code is only
+// included for owners.
+export async function GET() {
+  try {
+    const [{ workspace }, members] = await Promise.all([
+      getRequestSession(),
+      getAuthProvider().getMembers(await getRequestIdentity())
+    ]);
+    return NextResponse.json({ workspace, members });
+  } catch (error) {
+    console.error('Error fetching workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
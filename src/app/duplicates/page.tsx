@@ -0,0 +1,245 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { DUPLICATE_REASON_LABELS, mostAdvancedStatus } from '@/lib/duplicates';
+import type { DuplicateGroup, PipelineStatus, ProspectWithPipeline } from '@/types';
+
+const stageLabels: Record<PipelineStatus, string> = {
+  not_contacted: 'New',
+  visited: 'Visited',
+  connection_sent: 'Requested',
+  connected: 'Connected',
+  message_sent: 'Messaged',
+  responded: 'Responded',
+  call_booked: 'Call',
+  closed_won: 'Won',
+  closed_lost: 'Lost',
+};
+
+const secondaryButton = 'px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50';
+const primaryButton = 'px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function ProspectOption({
+  prospect,
+  isKept,
+  isMerged,
+  onKeep,
+  onToggle,
+}: {
+  prospect: ProspectWithPipeline;
+  isKept: boolean;
+  isMerged: boolean;
+  onKeep: () => void;
+  onToggle: () => void;
+}) {
+  const status = prospect.pipeline?.status || 'not_contacted';
+
+  return (
+    <div className={`flex items-start gap-3 p-3 rounded-lg border ${
+      isKept ? 'border-blue-300 bg-blue-50' : isMerged ? 'border-gray-200' : 'border-gray-200 opacity-60'
+    }`}>
+      {prospect.profilePicUrl ? (
+        <img src={prospect.profilePicUrl} alt="" className="w-10 h-10 rounded-full object-cover" />
+      ) : (
+        <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-sm text-gray-600">
+          {prospect.firstName?.[0]}{prospect.lastName?.[0]}
+        </div>
+      )}
+      <div className="flex-1 min-w-0 text-sm">
+        <div className="font-medium text-gray-900">{prospect.fullName}</div>
+        <div className="text-gray-600 truncate">
+          {[prospect.jobTitle, prospect.companyName].filter(Boolean).join(' at ') || 'No title'}
+        </div>
+        <a
+          href={prospect.linkedinUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-blue-600 hover:underline break-all"
+        >
+          {prospect.linkedinUrl}
+        </a>
+        <div className="mt-1 flex flex-wrap gap-2 text-xs text-gray-500">
+          <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">{stageLabels[status]}</span>
+          <span>{prospect.messages?.length || 0} messages</span>
+          <span>{prospect.careerHistory.length} jobs</span>
+          <span>Added {formatDate(prospect.createdAt)}</span>
+          {prospect.doNotContact && <span className="text-red-600">Do not contact</span>}
+        </div>
+      </div>
+      <div className="flex flex-col items-end gap-1 text-xs">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="radio" checked={isKept} onChange={onKeep} />
+          Keep
+        </label>
+        {!isKept && (
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={isMerged} onChange={onToggle} />
+            Merge in
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DuplicateGroupCard({
+  group,
+  onMerged,
+}: {
+  group: DuplicateGroup;
+  onMerged: () => void;
+}) {
+  const [keepId, setKeepId] = useState(group.keepId);
+  const [skippedIds, setSkippedIds] = useState<Set<string>>(new Set());
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mergeIds = group.prospects.map(p => p.id).filter(id => id !== keepId && !skippedIds.has(id));
+  const kept = group.prospects.find(p => p.id === keepId)!;
+  const resultStatus = mostAdvancedStatus(
+    group.prospects.filter(p => p.id === keepId || mergeIds.includes(p.id)).map(p => p.pipeline?.status)
+  );
+
+  const toggle = (id: string) => {
+    setSkippedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const merge = async () => {
+    if (!confirm(`Merge ${mergeIds.length} into ${kept.fullName}? The merged prospects are deleted.`)) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/prospects/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keepId, mergeIds }),
+      });
+      if (!response.ok) throw new Error('Failed to merge prospects');
+      onMerged();
+    } catch (err) {
+      console.error('Error merging prospects:', err);
+      setError('Failed to merge prospects');
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap items-center gap-2">
+        <h2 className="font-semibold text-gray-900 mr-2">{kept.fullName}</h2>
+        {group.reasons.map(reason => (
+          <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">
+            {DUPLICATE_REASON_LABELS[reason]}
+          </span>
+        ))}
+      </div>
+      <div className="p-4 space-y-2">
+        {group.prospects.map(prospect => (
+          <ProspectOption
+            key={prospect.id}
+            prospect={prospect}
+            isKept={prospect.id === keepId}
+            isMerged={mergeIds.includes(prospect.id)}
+            onKeep={() => setKeepId(prospect.id)}
+            onToggle={() => toggle(prospect.id)}
+          />
+        ))}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex items-center justify-between pt-2">
+          <p className="text-xs text-gray-500">
+            Messages, posts, replies and pipeline history move to the kept prospect.
+            Status after merge: {stageLabels[resultStatus]}
+          </p>
+          <button onClick={merge} disabled={isMerging || mergeIds.length === 0} className={primaryButton}>
+            {isMerging ? 'Merging...' : `Merge ${mergeIds.length}`}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default function DuplicatesPage() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prospects/duplicates');
+      if (!response.ok) {
+        throw new Error('Failed to load duplicates');
+      }
+      const data = await response.json() as { groups: DuplicateGroup[] };
+      setGroups(data.groups);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading duplicates:', err);
+      setError('Failed to load duplicates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Duplicates</h1>
+            <button onClick={loadGroups} className={`${secondaryButton} ml-auto`}>
+              Refresh
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        <p className="text-sm text-gray-600">
+          Prospects that share a LinkedIn profile, a name and company, or a name and photo.
+          Merging keeps the furthest pipeline status and combines career history, posts,
+          messages, engagement posts and pipeline events.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-gray-500">No duplicates found</p>
+        ) : groups.map(group => (
+          <DuplicateGroupCard
+            key={group.prospects.map(p => p.id).join(',')}
+            group={group}
+            onMerged={loadGroups}
+          />
+        ))}
+      </main>
+    </div>
+  );
+}
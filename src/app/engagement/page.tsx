@@ -3,7 +3,17 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import type { EngagementPostWithProspect, WatchedProfileWithProspect, Prospect } from '@/types';
+import { JobProgress } from '@/components';
+import { isJobFinished } from '@/lib/jobs/progress';
+import { isLinkedInProfileUrl } from '@/lib/linkedin-identity';
+import type {
+  EngagementPostWithProspect,
+  FetchPostsJobResult,
+  GenerateCommentsJobResult,
+  Job,
+  WatchedProfileWithProspect,
+  Prospect
+} from '@/types';
 
 function getInitials(name: string): string {
   return name
@@ -43,10 +53,14 @@ export default function EngagementPage() {
   // Loading states
   const [isLoadingProfiles, setIsLoadingProfiles] = useState(true);
   const [isLoadingPosts, setIsLoadingPosts] = useState(true);
-  const [isFetchingPosts, setIsFetchingPosts] = useState(false);
-  const [isGeneratingComments, setIsGeneratingComments] = useState(false);
+  const [isStartingFetch, setIsStartingFetch] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
+  // Background jobs: fetching posts, then generating comments for the new ones
+  const [fetchJobId, setFetchJobId] = useState<string | null>(null);
+  const [commentsJobId, setCommentsJobId] = useState<string | null>(null);
+  const isFetchingPosts = isStartingFetch || Boolean(fetchJobId || commentsJobId);
+
   // Fetch watched profiles
   const fetchWatchedProfiles = useCallback(async () => {
     try {
@@ -90,6 +104,23 @@ export default function EngagementPage() {
     fetchEngagementPosts();
   }, [fetchEngagementPosts]);
 
+  // Pick up jobs still running from before a reload
+  useEffect(() => {
+    const resumeJobs = async () => {
+      try {
+        const res = await fetch('/api/jobs?limit=10');
+        if (!res.ok) return;
+        const jobs: Job[] = await res.json();
+        const running = (type: Job['type']) => jobs.find(j => j.type === type && !isJobFinished(j));
+        setFetchJobId(running('fetch_posts')?.id ?? null);
+        setCommentsJobId(running('generate_comments')?.id ?? null);
+      } catch (error) {
+        console.error('Error loading jobs:', error);
+      }
+    };
+    resumeJobs();
+  }, []);
+
   // Add a watched profile by URL
   const handleAddProfile = async () => {
     if (!newProfileUrl.trim()) return;
@@ -122,7 +153,7 @@ export default function EngagementPage() {
     const urls = bulkUrls
       .split('\n')
       .map(url => url.trim())
-      .filter(url => url.length > 0 && url.includes('linkedin.com'));
+      .filter(isLinkedInProfileUrl);
 
     if (urls.length === 0) {
       alert('No valid LinkedIn URLs found. Paste one URL per line.');
@@ -167,14 +198,14 @@ export default function EngagementPage() {
     }
   };
 
-  // Fetch posts for all watched profiles
+  // Start a job fetching posts for all watched profiles
   const handleFetchPosts = async () => {
     if (watchedProfiles.length === 0) {
       alert('Add some profiles to your watch list first');
       return;
     }
 
-    setIsFetchingPosts(true);
+    setIsStartingFetch(true);
     try {
       const res = await fetch('/api/engagement/fetch-posts', {
         method: 'POST',
@@ -182,71 +213,70 @@ export default function EngagementPage() {
         body: JSON.stringify({ useWatchedProfiles: true })
       });
 
+      const data = await res.json();
       if (res.ok) {
-        const data = await res.json();
-        console.log('Fetch posts result:', data);
-
-        // Show results summary
-        const summary = [
-          `Apify returned: ${data.totalFromApify || 0} posts`,
-          `Saved active: ${data.savedActive || 0}`,
-          `Saved archived: ${data.savedArchived || 0}`,
-          `Skipped: ${data.skipped || 0}`
-        ];
-
-        if (data.skippedDetails && data.skippedDetails.length > 0) {
-          console.log('Skipped posts details:', data.skippedDetails);
-          const reasons = data.skippedDetails.slice(0, 3).map(
-            (s: { url: string; reason: string; linkedinUrlField?: string; contentField?: string }) =>
-              `- ${s.reason}${s.linkedinUrlField ? ` (linkedinUrl: ${s.linkedinUrlField.substring(0, 30)}...)` : ''}`
-          );
-          if (data.skippedDetails.length > 3) {
-            reasons.push(`... and ${data.skippedDetails.length - 3} more`);
-          }
-          summary.push('\nSkip reasons:', ...reasons);
-        }
-
-        // Generate comments for new posts
-        if (data.posts && data.posts.length > 0) {
-          setIsGeneratingComments(true);
-
-          // Get full prospect data for comment generation
-          const postsToGenerate = data.posts.map((post: Record<string, unknown>) => {
-            const watchedProfile = watchedProfiles.find(
-              wp => wp.prospectId === post.prospect_id
-            );
-            return {
-              postId: post.id,
-              postContent: post.post_content,
-              prospect: watchedProfile?.prospect || { fullName: post.author_name }
-            };
-          });
-
-          await fetch('/api/engagement/generate-comments', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ posts: postsToGenerate })
-          });
-          setIsGeneratingComments(false);
-          summary.push('\nComments generated for new posts');
-        }
-
-        alert(summary.join('\n'));
-
-        // Refresh posts list
-        await fetchEngagementPosts();
+        setFetchJobId(data.jobId);
       } else {
-        const error = await res.json();
-        console.error('Fetch posts error:', error);
-        alert(error.error || 'Failed to fetch posts');
+        console.error('Fetch posts error:', data);
+        alert(data.error || 'Failed to fetch posts');
       }
     } catch (error) {
       console.error('Error fetching posts:', error);
       alert('Failed to fetch posts');
     } finally {
-      setIsFetchingPosts(false);
-      setIsGeneratingComments(false);
+      setIsStartingFetch(false);
+    }
+  };
+
+  const handleFetchJobFinished = async (job: Job) => {
+    setFetchJobId(null);
+
+    if (job.status === 'succeeded') {
+      const result = job.result as FetchPostsJobResult;
+      console.log('Fetch posts result:', result);
+
+      // Show results summary
+      const summary = [
+        `Scraped: ${result.totalScraped} posts`,
+        `Saved active: ${result.savedActive}`,
+        `Saved archived: ${result.savedArchived}`,
+        `Skipped: ${result.skipped}`
+      ];
+
+      if (result.skippedDetails.length > 0) {
+        console.log('Skipped posts details:', result.skippedDetails);
+        const reasons = result.skippedDetails.slice(0, 3).map(s => `- ${s.reason}`);
+        if (result.skippedDetails.length > 3) {
+          reasons.push(`... and ${result.skippedDetails.length - 3} more`);
+        }
+        summary.push('\nSkip reasons:', ...reasons);
+      }
+
+      // Comments for the new posts are generated by a follow-up job
+      if (result.commentsJobId) {
+        setCommentsJobId(result.commentsJobId);
+        summary.push('\nGenerating comments for new posts');
+      }
+
+      alert(summary.join('\n'));
+    } else if (job.status === 'failed') {
+      alert(`Failed to fetch posts: ${job.error}`);
+    }
+
+    await fetchEngagementPosts();
+  };
+
+  const handleCommentsJobFinished = async (job: Job) => {
+    setCommentsJobId(null);
+
+    const result = job.result as GenerateCommentsJobResult | undefined;
+    if (job.status === 'failed') {
+      alert(`Failed to generate comments: ${job.error}`);
+    } else if (result && result.failed.length > 0) {
+      console.log('Comment generation failures:', result.failed);
     }
+
+    await fetchEngagementPosts();
   };
 
   // Mark as engaged (archive)
@@ -324,10 +354,10 @@ export default function EngagementPage() {
               disabled={isFetchingPosts || watchedProfiles.length === 0}
               className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isFetchingPosts || isGeneratingComments ? (
+              {isFetchingPosts ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  {isGeneratingComments ? 'Generating Comments...' : 'Fetching Posts...'}
+                  {commentsJobId ? 'Generating Comments...' : 'Fetching Posts...'}
                 </>
               ) : (
                 <>
@@ -343,6 +373,18 @@ export default function EngagementPage() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        {/* Job Progress */}
+        {(fetchJobId || commentsJobId) && (
+          <div className="mb-6 space-y-3">
+            {fetchJobId && (
+              <JobProgress jobId={fetchJobId} label="Fetching posts" onFinished={handleFetchJobFinished} />
+            )}
+            {commentsJobId && (
+              <JobProgress jobId={commentsJobId} label="Generating comments" onFinished={handleCommentsJobFinished} />
+            )}
+          </div>
+        )}
+
         {/* Watched Profiles Section */}
         <section className="mb-8 bg-white rounded-lg border border-gray-200 p-4">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -677,7 +719,7 @@ export default function EngagementPage() {
                 className="w-full h-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
               />
               <p className="text-xs text-gray-500 mt-2">
-                {bulkUrls.split('\n').filter(url => url.trim() && url.includes('linkedin.com')).length} valid URLs detected
+                {bulkUrls.split('\n').filter(isLinkedInProfileUrl).length} valid URLs detected
               </p>
             </div>
 
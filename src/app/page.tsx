@@ -1,22 +1,87 @@
 'use client';
 
-import { useState, useMemo, useEffect, useCallback, Suspense } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { ProspectCard, ProspectDetail, ImportModal, PipelineBoard, AddProspectModal, BulkUrlImportModal } from '@/components';
-import type { ProspectWithPipeline, PipelineStatus, Prospect, PipelineRecord, FilterOptions, SegmentFilter, MessageTrack } from '@/types';
+import { ProspectCard, ProspectDetail, ImportModal, PipelineBoard, AddProspectModal, BulkUrlImportModal, JobProgress, WorkspaceMenu, CustomFieldInput, SavedViewsSidebar, ViewEditorModal, VirtualGrid, type SavedViewDraft } from '@/components';
 import {
-  getProspects,
-  bulkImportProspects,
-  updatePipelineStatus,
-  saveGeneratedMessage,
-  transformDbToApp,
-  isSupabaseConfigured
-} from '@/lib/supabase';
+  applyCustomFieldChanges,
+  applyTagChanges,
+  fetchCustomFields,
+  parseTagList,
+  readCustomFieldFilter
+} from '@/lib/custom-fields';
+import { getDoNotContactMessage, isBlockedStatus } from '@/lib/do-not-contact';
+import {
+  DEFAULT_PAGE_SIZE,
+  EMPTY_PROSPECT_FILTERS,
+  fetchProspectPage,
+  fetchProspectSummary,
+  MAX_PAGE_SIZE,
+  pageProspects,
+  summarizeProspects,
+  writeProspectQuery,
+  type ProspectPageRequest
+} from '@/lib/prospect-query';
+import { fetchSavedViews, viewFilterFromFilterOptions } from '@/lib/saved-views';
+import type { ProspectWithPipeline, PipelineStatus, PipelineEventSource, Prospect, PipelineRecord, FilterOptions, SegmentFilter, MessageTrack, MessageRuleWarning, GeneratedMessage, OutreachMessageType, ImportBatchSource, GenerateMessagesJobResult, Job, SessionInfo, WorkspaceMember, CustomFieldDefinition, CustomFieldValue, ProspectSort, SavedView, ViewFilterGroup, ICPRange, ProspectPage, ProspectSummary } from '@/types';
 
 type ViewMode = 'grid' | 'pipeline';
-type SortOption = 'icp_desc' | 'icp_asc' | 'name_asc' | 'recent';
-type ICPRange = 'all' | 'high' | 'medium' | 'low';
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+// One prospect, for links to a prospect that may not be on a loaded page
+async function fetchProspect(id: string): Promise<ProspectWithPipeline | null> {
+  const response = await fetch(`/api/prospects/${id}`);
+  return response.ok ? response.json() : null;
+}
+
+// Who is signed in and who else is in the workspace, for the assignee filter
+async function fetchTeam(): Promise<{ userId: string; members: WorkspaceMember[] }> {
+  const [sessionResponse, workspaceResponse] = await Promise.all([
+    fetch('/api/auth/session'),
+    fetch('/api/workspace')
+  ]);
+  if (!sessionResponse.ok || !workspaceResponse.ok) {
+    throw new Error('Failed to fetch workspace members');
+  }
+  const session = await sessionResponse.json() as SessionInfo;
+  const { members } = await workspaceResponse.json() as { members: WorkspaceMember[] };
+  return { userId: session.user.id, members };
+}
+
+// Persist prospects and their initial pipeline state
+async function importProspects(
+  importedProspects: Partial<Prospect>[],
+  pipelineData: Map<string, Partial<PipelineRecord>>,
+  batch: { source: ImportBatchSource; label: string }
+) {
+  const response = await fetch('/api/prospects', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      prospects: importedProspects.map(p => ({
+        ...p,
+        firstName: p.firstName || '',
+        lastName: p.lastName || '',
+        fullName: p.fullName || '',
+        linkedinUrl: p.linkedinUrl || ''
+      })),
+      pipeline: Array.from(pipelineData.entries()).map(([linkedinUrl, data]) => ({
+        linkedinUrl,
+        status: data.status || 'not_contacted',
+        notes: data.notes
+      })),
+      batch
+    }),
+  });
+
+  if (!response.ok) {
+    const result = await response.json();
+    throw new Error(result.error || 'Failed to import prospects');
+  }
+}
 
 // Loading component for Suspense fallback
 function DashboardLoading() {
@@ -47,9 +112,18 @@ function DashboardContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
 
+  // The pages of the list loaded so far, in order
   const [prospects, setProspects] = useState<ProspectWithPipeline[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matchingTotal, setMatchingTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped to load the list again after prospects change on the server
+  const [listVersion, setListVersion] = useState(0);
+  // Without storage every prospect is held here and paged in memory
+  const [localProspects, setLocalProspects] = useState<ProspectWithPipeline[]>([]);
+  const [storedSummary, setStoredSummary] = useState<ProspectSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [useSupabase, setUseSupabase] = useState(false);
+  const [isPersisted, setIsPersisted] = useState(false);
   const [selectedProspect, setSelectedProspect] = useState<ProspectWithPipeline | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -59,34 +133,50 @@ function DashboardContent() {
   const [generationMetadata, setGenerationMetadata] = useState<{
     track: MessageTrack;
     personalization_hook: string;
+    warnings: MessageRuleWarning[];
   } | null>(null);
   const [isRecalculatingICP, setIsRecalculatingICP] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isBulkProcessing, setIsBulkProcessing] = useState(false);
-  const [sortBy, setSortBy] = useState<SortOption>('icp_desc');
+  const [messagesJobId, setMessagesJobId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<ProspectSort>('icp_desc');
   const [icpRange, setIcpRange] = useState<ICPRange>('all');
-  const [filters, setFilters] = useState<FilterOptions>({
-    status: 'all',
-    segment: 'all',
-    search: '',
-  });
+  const [filters, setFilters] = useState<FilterOptions>(EMPTY_PROSPECT_FILTERS);
+  const [debouncedSearch, setDebouncedSearch] = useState(() => searchParams.get('search') || '');
+  const [currentUserId, setCurrentUserId] = useState<string | undefined>();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [bulkTags, setBulkTags] = useState('');
+  const [bulkFieldId, setBulkFieldId] = useState('');
+  const [bulkFieldValue, setBulkFieldValue] = useState('');
+  const [views, setViews] = useState<SavedView[]>([]);
+  // The view being edited; no id means a new one
+  const [editingView, setEditingView] = useState<(SavedViewDraft & { id?: string }) | null>(null);
 
   // Initialize filters from URL params
   useEffect(() => {
     const status = searchParams.get('status') as PipelineStatus | 'all' | null;
     const segment = searchParams.get('segment') as SegmentFilter | null;
-    const sort = searchParams.get('sort') as SortOption | null;
+    const sort = searchParams.get('sort') as ProspectSort | null;
     const icp = searchParams.get('icp') as ICPRange | null;
     const search = searchParams.get('search');
+    const assignee = searchParams.get('assignee');
+    const tag = searchParams.get('tag');
+    const customField = readCustomFieldFilter(searchParams);
+    const view = searchParams.get('view');
 
-    if (status || segment || search) {
+    if (status || segment || search || assignee || tag || customField || view) {
       setFilters(prev => ({
         ...prev,
         status: status || 'all',
         segment: segment || 'all',
         search: search || '',
+        assignee: assignee || 'all',
+        tag: tag || undefined,
+        customField,
+        view: view || undefined,
       }));
     }
     if (sort) setSortBy(sort);
@@ -94,32 +184,23 @@ function DashboardContent() {
   }, [searchParams]);
 
   // Update URL when filters change
-  const updateUrlParams = useCallback((newFilters: FilterOptions, newSort: SortOption, newIcpRange: ICPRange) => {
+  const updateUrlParams = useCallback((newFilters: FilterOptions, newSort: ProspectSort, newIcpRange: ICPRange) => {
     const params = new URLSearchParams();
-    if (newFilters.status && newFilters.status !== 'all') params.set('status', newFilters.status);
-    if (newFilters.segment && newFilters.segment !== 'all') params.set('segment', newFilters.segment);
-    if (newFilters.search) params.set('search', newFilters.search);
-    if (newSort !== 'icp_desc') params.set('sort', newSort);
-    if (newIcpRange !== 'all') params.set('icp', newIcpRange);
+    writeProspectQuery(params, newFilters, newIcpRange, newSort);
 
     const queryString = params.toString();
     router.replace(queryString ? `?${queryString}` : '/', { scroll: false });
   }, [router]);
 
-  // Check for Supabase and load data on mount
+  // Load data from storage on mount. The list itself loads a page at a time
+  // once this finishes.
   useEffect(() => {
     const loadData = async () => {
-      const supabaseConfigured = isSupabaseConfigured();
-      setUseSupabase(supabaseConfigured);
-
-      if (supabaseConfigured) {
-        try {
-          const data = await getProspects();
-          const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-          setProspects(transformed);
-        } catch (error) {
-          console.error('Failed to load from Supabase:', error);
-        }
+      try {
+        setStoredSummary(await fetchProspectSummary());
+        setIsPersisted(true);
+      } catch (error) {
+        console.error('Failed to load from storage:', error);
       }
 
       setIsLoading(false);
@@ -128,76 +209,180 @@ function DashboardContent() {
     loadData();
   }, []);
 
-  // Filter, search, and sort prospects
-  const filteredProspects = useMemo(() => {
-    let result = prospects.filter((prospect) => {
-      // Status filter
-      if (filters.status && filters.status !== 'all') {
-        const prospectStatus = prospect.pipeline?.status || 'not_contacted';
-        if (prospectStatus !== filters.status) return false;
-      }
+  useEffect(() => {
+    fetchTeam()
+      .then(team => {
+        setCurrentUserId(team.userId);
+        setMembers(team.members);
+      })
+      .catch(error => console.error('Failed to load workspace members:', error));
+  }, []);
 
-      // Segment filter
-      if (filters.segment && filters.segment !== 'all') {
-        const prospectSegment = prospect.icpScoreBreakdown?.segment || 'merchant';
-        if (prospectSegment !== filters.segment) return false;
-      }
+  useEffect(() => {
+    fetchCustomFields().then(setCustomFields);
+  }, []);
 
-      // ICP Range filter
-      if (icpRange !== 'all') {
-        const score = prospect.icpScore || 0;
-        if (icpRange === 'high' && score < 70) return false;
-        if (icpRange === 'medium' && (score < 40 || score >= 70)) return false;
-        if (icpRange === 'low' && score >= 40) return false;
-      }
+  useEffect(() => {
+    fetchSavedViews().then(setViews);
+  }, []);
 
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        const matchesName = prospect.fullName.toLowerCase().includes(searchLower);
-        const matchesCompany = prospect.companyName?.toLowerCase().includes(searchLower);
-        const matchesTitle = prospect.jobTitle?.toLowerCase().includes(searchLower);
-        if (!matchesName && !matchesCompany && !matchesTitle) return false;
-      }
+  const activeView = views.find(v => v.id === filters.view);
 
-      return true;
-    });
+  // Header numbers, tags in use and view counts: from the server, or from
+  // the prospects in memory without storage
+  const summary = useMemo(
+    () => storedSummary ?? summarizeProspects(localProspects, views, { currentUserId }),
+    [storedSummary, localProspects, views, currentUserId]
+  );
+  const stats = summary.stats;
 
-    // Sort results
-    result = [...result].sort((a, b) => {
-      switch (sortBy) {
-        case 'icp_desc':
-          return (b.icpScore || 0) - (a.icpScore || 0);
-        case 'icp_asc':
-          return (a.icpScore || 0) - (b.icpScore || 0);
-        case 'name_asc':
-          return a.fullName.localeCompare(b.fullName);
-        case 'recent':
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        default:
-          return 0;
-      }
-    });
+  // Every tag in use, for the tag filter and bulk tagging
+  const allTags = summary.tags;
+
+  // Prospects in each saved view, for the sidebar
+  const viewCounts = useMemo(() => new Map(Object.entries(summary.viewCounts)), [summary]);
+
+  const memberNames = useMemo(
+    () => new Map(members.map(m => [m.userId, m.name])),
+    [members]
+  );
+
+  // Open the prospect linked from the daily queue (?prospect=<id>) once loaded
+  const openedLinkedProspect = useRef(false);
+  useEffect(() => {
+    const prospectId = searchParams.get('prospect');
+    if (!prospectId || isLoading || !isPersisted || openedLinkedProspect.current) return;
+    openedLinkedProspect.current = true;
+    fetchProspect(prospectId)
+      .then(linked => {
+        if (linked) setSelectedProspect(linked);
+      })
+      .catch(error => console.error('Failed to load linked prospect:', error));
+  }, [searchParams, isLoading, isPersisted]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filters.search || ''), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  // The list's filters and sort, with search as of the last pause in typing.
+  // Keyed by value so a new filters object with the same filters (or a
+  // keystroke still waiting) doesn't load the list again.
+  const listQueryKey = JSON.stringify({ filters: { ...filters, search: debouncedSearch }, icpRange, sort: sortBy });
+  const listQuery = useMemo(
+    () => JSON.parse(listQueryKey) as Omit<ProspectPageRequest, 'cursor' | 'limit'>,
+    [listQueryKey]
+  );
+
+  // Pages come from the API, or from memory without storage
+  const localPages = useMemo(
+    () => isPersisted
+      ? null
+      : (request: ProspectPageRequest) => Promise.resolve(
+          pageProspects(localProspects, request, { currentUserId, fields: customFields, view: activeView })
+        ),
+    [isPersisted, localProspects, currentUserId, customFields, activeView]
+  );
+  const loadProspectPage = localPages ?? fetchProspectPage;
+
+  // How many prospects the next first-page load asks for; a reload after a
+  // change asks for as many as were showing so the list doesn't shrink
+  const nextLoadLimit = useRef(DEFAULT_PAGE_SIZE);
+  const latestListRequest = useRef(0);
+  const isLoadingMoreRef = useRef(false);
+
+  useEffect(() => {
+    if (isLoading) return;
+    const requestId = ++latestListRequest.current;
+    const limit = nextLoadLimit.current;
+    nextLoadLimit.current = DEFAULT_PAGE_SIZE;
+
+    loadProspectPage({ ...listQuery, limit })
+      .then(page => {
+        // A newer query may have been sent while this one was out
+        if (requestId !== latestListRequest.current) return;
+        setProspects(page.prospects);
+        setNextCursor(page.nextCursor);
+        setMatchingTotal(page.total ?? page.prospects.length);
+      })
+      .catch(error => console.error('Failed to load prospects:', error));
+  }, [isLoading, loadProspectPage, listQuery, listVersion]);
+
+  // Append the next page, when the grid scrolls near the end
+  const loadMoreProspects = useCallback(async () => {
+    if (!nextCursor || isLoadingMoreRef.current) return;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    const requestId = latestListRequest.current;
+    try {
+      const page = await loadProspectPage({ ...listQuery, cursor: nextCursor });
+      if (requestId !== latestListRequest.current) return;
+      setProspects(prev => [...prev, ...page.prospects]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more prospects:', error);
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, loadProspectPage, listQuery]);
 
-    return result;
-  }, [prospects, filters, sortBy, icpRange]);
+  // One page of a pipeline board column: the list query with that status
+  const loadBoardColumn = useCallback(
+    (status: PipelineStatus, cursor?: string): Promise<ProspectPage> =>
+      loadProspectPage({ ...listQuery, filters: { ...listQuery.filters, status }, cursor }),
+    [loadProspectPage, listQuery]
+  );
 
-  // Stats
-  const stats = useMemo(() => {
-    const total = prospects.length;
-    const connected = prospects.filter(p =>
-      ['connected', 'message_sent', 'responded', 'call_booked'].includes(p.pipeline?.status || '')
-    ).length;
-    const withMessages = prospects.filter(p => p.messages && p.messages.length > 0).length;
-    const highICP = prospects.filter(p => p.icpScore >= 70).length;
-    const mediumICP = prospects.filter(p => p.icpScore >= 40 && p.icpScore < 70).length;
-    const lowICP = prospects.filter(p => p.icpScore < 40).length;
+  const refreshSummary = useCallback(() => {
+    if (!isPersisted) return;
+    fetchProspectSummary()
+      .then(setStoredSummary)
+      .catch(error => console.error('Failed to load prospect summary:', error));
+  }, [isPersisted]);
+
+  // Load the list, board and header numbers again after prospects changed
+  // on the server
+  const refreshProspects = useCallback(() => {
+    nextLoadLimit.current = Math.min(MAX_PAGE_SIZE, Math.max(DEFAULT_PAGE_SIZE, prospects.length));
+    setListVersion(v => v + 1);
+    refreshSummary();
+  }, [prospects.length, refreshSummary]);
+
+  // Prospects a view filter matches, for the view editor
+  const countViewMatches = useCallback(async (filter: ViewFilterGroup) => {
+    if (!isPersisted) {
+      const request = { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all' as const, sort: sortBy, limit: 1 };
+      return pageProspects(localProspects, request, { currentUserId, fields: [], view: { filter } }).total ?? 0;
+    }
+    const response = await fetch('/api/views/count', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filter }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to count prospects');
+    }
+    const { count } = await response.json() as { count: number };
+    return count;
+  }, [isPersisted, localProspects, currentUserId, sortBy]);
+
+  // Apply a change to prospects wherever they are held: the loaded list and,
+  // without storage, the prospects in memory
+  const mapProspects = (update: (prospect: ProspectWithPipeline) => ProspectWithPipeline) => {
+    setProspects(prev => prev.map(update));
+    setLocalProspects(prev => prev.map(update));
+  };
 
-    return { total, connected, withMessages, highICP, mediumICP, lowICP };
-  }, [prospects]);
+  const bulkField = customFields.find(f => f.id === bulkFieldId);
+  const filteredField = customFields.find(f => f.id === filters.customField?.fieldId);
+
+  const isFilteredBeyondView = filters.status !== 'all' || filters.segment !== 'all' || icpRange !== 'all' ||
+    filters.assignee !== 'all' || Boolean(filters.search) || Boolean(filters.tag) || Boolean(filters.customField);
+  const isFiltered = isFilteredBeyondView || Boolean(filters.view);
 
   // Helper to apply filters and update URL
-  const applyFilter = useCallback((newFilters: Partial<FilterOptions>, newSort?: SortOption, newIcpRange?: ICPRange) => {
+  const applyFilter = useCallback((newFilters: Partial<FilterOptions>, newSort?: ProspectSort, newIcpRange?: ICPRange) => {
     const updatedFilters = { ...filters, ...newFilters };
     const updatedSort = newSort ?? sortBy;
     const updatedIcpRange = newIcpRange ?? icpRange;
@@ -211,7 +396,7 @@ function DashboardContent() {
 
   // Clear all filters
   const clearFilters = useCallback(() => {
-    setFilters({ status: 'all', segment: 'all', search: '' });
+    setFilters(EMPTY_PROSPECT_FILTERS);
     setSortBy('icp_desc');
     setIcpRange('all');
     router.replace('/', { scroll: false });
@@ -219,49 +404,18 @@ function DashboardContent() {
 
   const handleImport = async (
     importedProspects: Partial<Prospect>[],
-    pipelineData: Map<string, Partial<PipelineRecord>>
+    pipelineData: Map<string, Partial<PipelineRecord>>,
+    fileName: string
   ) => {
-    // If Supabase is configured, save to database
-    if (useSupabase) {
+    // If storage is available, save to database
+    if (isPersisted) {
       try {
-        const pipelineMap = new Map<string, { status?: string; notes?: string }>();
-        for (const [url, data] of pipelineData.entries()) {
-          pipelineMap.set(url, {
-            status: data.status,
-            notes: data.notes
-          });
-        }
-
-        await bulkImportProspects(
-          importedProspects.map(p => ({
-            firstName: p.firstName || '',
-            lastName: p.lastName || '',
-            fullName: p.fullName || '',
-            linkedinUrl: p.linkedinUrl || '',
-            profilePicUrl: p.profilePicUrl,
-            headline: p.headline,
-            aboutSummary: p.aboutSummary,
-            companyName: p.companyName,
-            companyIndustry: p.companyIndustry,
-            companySize: p.companySize,
-            jobTitle: p.jobTitle,
-            location: p.location,
-            careerHistory: p.careerHistory,
-            recentPosts: p.recentPosts,
-            icpScore: p.icpScore,
-            icpScoreBreakdown: p.icpScoreBreakdown,
-            totalExperienceYears: p.totalExperienceYears,
-            topSkills: p.topSkills
-          })),
-          pipelineMap
-        );
+        await importProspects(importedProspects, pipelineData, { source: 'excel', label: fileName });
 
         // Reload from database to get proper IDs
-        const data = await getProspects();
-        const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-        setProspects(transformed);
+        refreshProspects();
       } catch (error) {
-        console.error('Failed to import to Supabase:', error);
+        console.error('Failed to import to storage:', error);
         alert('Failed to save to database. Data will be stored locally only.');
         // Fall back to local storage
         createLocalProspects(importedProspects, pipelineData);
@@ -302,6 +456,8 @@ function DashboardContent() {
         icpScoreBreakdown: p.icpScoreBreakdown,
         totalExperienceYears: p.totalExperienceYears,
         topSkills: p.topSkills,
+        tags: p.tags || [],
+        customFields: p.customFields || {},
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         pipeline: pipeline ? {
@@ -320,7 +476,7 @@ function DashboardContent() {
       };
     });
 
-    setProspects(newProspects);
+    setLocalProspects(newProspects);
   };
 
   const handleAddProspect = async (prospect: Partial<Prospect>) => {
@@ -356,90 +512,49 @@ function DashboardContent() {
       messages: [],
     };
 
-    // Save to Supabase if configured
-    if (useSupabase) {
+    // Save to storage if available
+    if (isPersisted) {
       try {
-        const pipelineMap = new Map<string, { status?: string; notes?: string }>();
-        pipelineMap.set(prospect.linkedinUrl || '', { status: 'not_contacted' });
-
-        await bulkImportProspects([{
-          firstName: prospect.firstName || '',
-          lastName: prospect.lastName || '',
-          fullName: prospect.fullName || '',
-          linkedinUrl: prospect.linkedinUrl || '',
-          profilePicUrl: prospect.profilePicUrl,
-          headline: prospect.headline,
-          aboutSummary: prospect.aboutSummary,
-          companyName: prospect.companyName,
-          companyIndustry: prospect.companyIndustry,
-          companySize: prospect.companySize,
-          jobTitle: prospect.jobTitle,
-          location: prospect.location,
-          careerHistory: prospect.careerHistory,
-          recentPosts: prospect.recentPosts,
-          icpScore: prospect.icpScore,
-          icpScoreBreakdown: prospect.icpScoreBreakdown,
-          totalExperienceYears: prospect.totalExperienceYears,
-          topSkills: prospect.topSkills
-        }], pipelineMap);
+        await importProspects(
+          [prospect],
+          new Map([[prospect.linkedinUrl || '', { status: 'not_contacted' as const }]]),
+          { source: 'manual', label: prospect.fullName || 'Added manually' }
+        );
 
         // Reload from database
-        const data = await getProspects();
-        const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-        setProspects(transformed);
+        refreshProspects();
       } catch (error) {
-        console.error('Failed to add to Supabase:', error);
+        console.error('Failed to add to storage:', error);
         // Fall back to local
-        setProspects(prev => [newProspect, ...prev]);
+        setLocalProspects(prev => [newProspect, ...prev]);
       }
     } else {
-      setProspects(prev => [newProspect, ...prev]);
+      setLocalProspects(prev => [newProspect, ...prev]);
     }
 
     setShowAddModal(false);
   };
 
   const handleBulkUrlImport = async (importedProspects: Partial<Prospect>[]) => {
-    // If Supabase is configured, save to database
-    if (useSupabase) {
+    // If storage is available, save to database
+    if (isPersisted) {
       try {
-        const pipelineMap = new Map<string, { status?: string; notes?: string }>();
+        const pipelineMap = new Map<string, Partial<PipelineRecord>>();
         for (const p of importedProspects) {
           if (p.linkedinUrl) {
             pipelineMap.set(p.linkedinUrl, { status: 'not_contacted' });
           }
         }
 
-        await bulkImportProspects(
-          importedProspects.map(p => ({
-            firstName: p.firstName || '',
-            lastName: p.lastName || '',
-            fullName: p.fullName || '',
-            linkedinUrl: p.linkedinUrl || '',
-            profilePicUrl: p.profilePicUrl,
-            headline: p.headline,
-            aboutSummary: p.aboutSummary,
-            companyName: p.companyName,
-            companyIndustry: p.companyIndustry,
-            companySize: p.companySize,
-            jobTitle: p.jobTitle,
-            location: p.location,
-            careerHistory: p.careerHistory,
-            recentPosts: p.recentPosts,
-            icpScore: p.icpScore,
-            icpScoreBreakdown: p.icpScoreBreakdown,
-            totalExperienceYears: p.totalExperienceYears,
-            topSkills: p.topSkills
-          })),
-          pipelineMap
-        );
+        await importProspects(importedProspects, pipelineMap, {
+          source: 'url',
+          label: `${importedProspects.length} LinkedIn URL${importedProspects.length === 1 ? '' : 's'}`
+        });
 
         // Reload from database to get proper IDs
-        const data = await getProspects();
-        const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-        setProspects(transformed);
+        refreshProspects();
       } catch (error) {
-        console.error('Failed to import to Supabase:', error);
+        console.error('Failed to import to storage:', error);
         alert('Failed to save to database. Data will be stored locally only.');
         // Fall back to local storage
         const emptyPipelineData = new Map<string, Partial<PipelineRecord>>();
@@ -454,26 +569,34 @@ function DashboardContent() {
     setShowBulkUrlModal(false);
   };
 
-  const handleStatusChange = async (prospectId: string, newStatus: PipelineStatus) => {
+  const handleStatusChange = async (
+    prospectId: string,
+    newStatus: PipelineStatus,
+    source: PipelineEventSource = 'drag'
+  ) => {
+    const prospect = prospects.find(p => p.id === prospectId);
+    if (prospect?.doNotContact && isBlockedStatus(newStatus)) {
+      alert(getDoNotContactMessage(prospect));
+      return;
+    }
+
     // Update local state immediately for responsive UI
-    setProspects((prev) =>
-      prev.map((p) => {
-        if (p.id === prospectId) {
-          return {
-            ...p,
-            pipeline: {
-              ...p.pipeline,
-              id: p.pipeline?.id || `pipeline-${Date.now()}`,
-              prospectId: p.id,
-              status: newStatus,
-              createdAt: p.pipeline?.createdAt || new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-            },
-          };
-        }
-        return p;
-      })
-    );
+    mapProspects((p) => {
+      if (p.id === prospectId) {
+        return {
+          ...p,
+          pipeline: {
+            ...p.pipeline,
+            id: p.pipeline?.id || `pipeline-${Date.now()}`,
+            prospectId: p.id,
+            status: newStatus,
+            createdAt: p.pipeline?.createdAt || new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+          },
+        };
+      }
+      return p;
+    });
 
     // Also update selected prospect if it's the one being changed
     if (selectedProspect?.id === prospectId) {
@@ -494,23 +617,30 @@ function DashboardContent() {
       );
     }
 
-    // Persist to Supabase if configured
-    if (useSupabase) {
+    // Persist to storage if available
+    if (isPersisted) {
       try {
-        await updatePipelineStatus(prospectId, { status: newStatus });
+        const response = await fetch(`/api/prospects/${prospectId}/pipeline`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status: newStatus, source }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to update status');
+        }
       } catch (error) {
-        console.error('Failed to update status in Supabase:', error);
+        console.error('Failed to update status in storage:', error);
       }
     }
   };
 
   const handleRecalculateICP = async () => {
-    if (!useSupabase) {
-      alert('ICP recalculation requires Supabase to be configured.');
+    if (!isPersisted) {
+      alert('ICP recalculation requires persistent storage.');
       return;
     }
 
-    if (!confirm('This will recalculate ICP scores for all prospects using the new algorithm. Continue?')) {
+    if (!confirm('This will recalculate ICP scores for all prospects using the active scoring profile. Continue?')) {
       return;
     }
 
@@ -527,12 +657,13 @@ function DashboardContent() {
         throw new Error(result.error || 'Failed to recalculate ICP scores');
       }
 
-      alert(`Successfully recalculated ICP scores for ${result.updated} prospects.`);
+      const summary = result.report
+        ? `\n${result.report.tierChanged} moved tier, ${result.report.segmentChanges.length} changed segment.`
+        : '';
+      alert(`Successfully recalculated ICP scores for ${result.updated} prospects using "${result.profile}".${summary}`);
 
       // Reload prospects to get updated scores
-      const data = await getProspects();
-      const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-      setProspects(transformed);
+      refreshProspects();
 
     } catch (error) {
       console.error('Error recalculating ICP scores:', error);
@@ -544,8 +675,8 @@ function DashboardContent() {
 
   // Export prospects to CSV
   const handleExport = async (exportAll: boolean = true) => {
-    if (!useSupabase) {
-      alert('Export requires Supabase to be configured.');
+    if (!isPersisted) {
+      alert('Export requires persistent storage.');
       return;
     }
 
@@ -554,12 +685,7 @@ function DashboardContent() {
     try {
       // Build query params for filtered export
       const params = new URLSearchParams();
-      if (!exportAll) {
-        if (filters.status && filters.status !== 'all') params.set('status', filters.status);
-        if (filters.segment && filters.segment !== 'all') params.set('segment', filters.segment);
-        if (icpRange && icpRange !== 'all') params.set('icpRange', icpRange);
-        if (filters.search) params.set('search', filters.search);
-      }
+      if (!exportAll) writeProspectQuery(params, filters, icpRange, sortBy);
 
       const queryString = params.toString();
       const url = `/api/prospects/export${queryString ? `?${queryString}` : ''}`;
@@ -596,8 +722,17 @@ function DashboardContent() {
     }
   };
 
-  const handleGenerateMessages = async () => {
+  // Apply a change to one prospect in the list and in the open detail view
+  const updateProspect = (prospectId: string, update: (prospect: ProspectWithPipeline) => ProspectWithPipeline) => {
+    mapProspects((p) => (p.id === prospectId ? update(p) : p));
+    setSelectedProspect((prev) => (prev?.id === prospectId ? update(prev) : prev));
+  };
+
+  // Generate all three messages, or regenerate only the given types. Each
+  // message is saved as a new version next to the earlier ones.
+  const handleGenerateMessages = async (messageTypes?: OutreachMessageType[]) => {
     if (!selectedProspect) return;
+    const prospectId = selectedProspect.id;
 
     setIsGenerating(true);
     setGenerationMetadata(null);
@@ -606,7 +741,7 @@ function DashboardContent() {
       const response = await fetch('/api/messages/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prospect: selectedProspect }),
+        body: JSON.stringify({ prospect: selectedProspect, messageTypes, persist: isPersisted }),
       });
 
       if (!response.ok) {
@@ -622,76 +757,112 @@ function DashboardContent() {
         return;
       }
 
-      const { track, personalization_hook, messages } = result;
+      const { track, personalization_hook, messages, warnings = [], model, prompts = {}, saved = [] } = result;
+
+      // Store the generation metadata (and any rule warnings) for display
+      setGenerationMetadata({ track, personalization_hook, warnings });
+
+      // Saved versions come back from the API; build them locally when not persisted
+      const existing = selectedProspect.messages || [];
+      const newMessages: GeneratedMessage[] = saved.length > 0
+        ? saved
+        : (Object.entries(messages) as Array<[OutreachMessageType, string]>).map(([messageType, content], index) => ({
+            id: `msg-${Date.now()}-${index + 1}`,
+            prospectId,
+            messageType,
+            content,
+            generatedAt: new Date().toISOString(),
+            used: false,
+            version: existing.filter(m => m.messageType === messageType).length + 1,
+            track,
+            personalizationHook: personalization_hook,
+            model,
+            promptVariant: prompts[messageType]?.variant,
+            promptVersion: prompts[messageType]?.version,
+            warnings: warnings.filter((w: MessageRuleWarning) => w.messageType === messageType),
+          }));
+
+      updateProspect(prospectId, (p) => ({
+        ...p,
+        messages: [...(p.messages || []), ...newMessages],
+      }));
+    } catch (error) {
+      console.error('Error generating messages:', error);
+      alert('Failed to generate messages. Make sure your API key is configured.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
 
-      // Store the generation metadata for display
-      setGenerationMetadata({ track, personalization_hook });
+  // Mark one message version as sent; the API advances the pipeline to match
+  const handleMarkMessageSent = async (message: GeneratedMessage) => {
+    try {
+      const response = await fetch(`/api/prospects/${message.prospectId}/messages/${message.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'mark_sent' }),
+      });
 
-      // Save to Supabase if configured
-      if (useSupabase) {
-        try {
-          await saveGeneratedMessage(selectedProspect.id, 'connection_request', messages.connection_request);
-          await saveGeneratedMessage(selectedProspect.id, 'opening_dm', messages.opening_dm);
-          await saveGeneratedMessage(selectedProspect.id, 'follow_up', messages.follow_up);
-        } catch (error) {
-          console.error('Failed to save messages to Supabase:', error);
-        }
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to mark message sent');
       }
 
-      // Update prospects with new messages
-      const newMessages = [
-        {
-          id: `msg-${Date.now()}-1`,
-          prospectId: selectedProspect.id,
-          messageType: 'connection_request' as const,
-          content: messages.connection_request,
-          generatedAt: new Date().toISOString(),
-          used: false,
-        },
-        {
-          id: `msg-${Date.now()}-2`,
-          prospectId: selectedProspect.id,
-          messageType: 'opening_dm' as const,
-          content: messages.opening_dm,
-          generatedAt: new Date().toISOString(),
-          used: false,
-        },
-        {
-          id: `msg-${Date.now()}-3`,
-          prospectId: selectedProspect.id,
-          messageType: 'follow_up' as const,
-          content: messages.follow_up,
-          generatedAt: new Date().toISOString(),
-          used: false,
-        },
-      ];
-
-      setProspects((prev) =>
-        prev.map((p) => {
-          if (p.id === selectedProspect.id) {
-            return {
-              ...p,
-              messages: newMessages, // Replace, don't append
-            };
-          }
-          return p;
-        })
-      );
-
-      // Update selected prospect
-      setSelectedProspect((prev) =>
-        prev
+      const { message: sent, status } = result as { message: GeneratedMessage; status?: PipelineStatus };
+
+      updateProspect(message.prospectId, (p) => ({
+        ...p,
+        messages: (p.messages || []).map((m) =>
+          m.id === sent.id
+            ? sent
+            : m.messageType === sent.messageType
+              ? { ...m, used: false, sentAt: undefined }
+              : m
+        ),
+        pipeline: status
           ? {
-              ...prev,
-              messages: newMessages, // Replace, don't append
+              ...p.pipeline,
+              id: p.pipeline?.id || `pipeline-${Date.now()}`,
+              prospectId: p.id,
+              status,
+              createdAt: p.pipeline?.createdAt || new Date().toISOString(),
+              updatedAt: new Date().toISOString(),
             }
-          : null
-      );
+          : p.pipeline,
+      }));
     } catch (error) {
-      console.error('Error generating messages:', error);
-      alert('Failed to generate messages. Make sure your API key is configured.');
-    } finally {
-      setIsGenerating(false);
+      console.error('Error marking message sent:', error);
+      alert(`Failed to mark message sent. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  // Set or clear do not contact in local state
+  const applyDoNotContact = (prospectId: string, reason: string | null) => {
+    updateProspect(prospectId, (p) => ({
+      ...p,
+      doNotContact: reason !== null,
+      doNotContactReason: reason ?? undefined,
+      doNotContactAt: reason !== null ? new Date().toISOString() : undefined,
+    }));
+  };
+
+  // Mark a prospect do not contact by hand, or clear the flag
+  const handleDoNotContactChange = async (prospectId: string, reason: string | null) => {
+    try {
+      const response = await fetch(`/api/prospects/${prospectId}/do-not-contact`, {
+        method: reason === null ? 'DELETE' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: reason === null ? undefined : JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update do not contact');
+      }
+
+      applyDoNotContact(prospectId, reason);
+    } catch (error) {
+      console.error('Error updating do not contact:', error);
+      alert('Failed to update do not contact.');
     }
   };
 
@@ -708,8 +879,9 @@ function DashboardContent() {
     });
   };
 
+  // Everyone on the loaded pages; a saved view covers the whole list
   const handleSelectAll = () => {
-    const allIds = filteredProspects.map(p => p.id);
+    const allIds = prospects.map(p => p.id);
     setSelectedIds(new Set(allIds));
   };
 
@@ -735,7 +907,7 @@ function DashboardContent() {
     setIsBulkProcessing(true);
 
     try {
-      if (useSupabase) {
+      if (isPersisted) {
         const response = await fetch('/api/prospects/bulk-delete', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -748,12 +920,10 @@ function DashboardContent() {
         }
 
         // Reload from database
-        const data = await getProspects();
-        const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-        setProspects(transformed);
+        refreshProspects();
       } else {
         // Local delete
-        setProspects(prev => prev.filter(p => !selectedIds.has(p.id)));
+        setLocalProspects(prev => prev.filter(p => !selectedIds.has(p.id)));
       }
 
       setSelectedIds(new Set());
@@ -773,25 +943,26 @@ function DashboardContent() {
     setIsBulkProcessing(true);
 
     try {
-      if (useSupabase) {
+      if (isPersisted) {
         const response = await fetch('/api/prospects/bulk-status', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ ids: Array.from(selectedIds), status: newStatus }),
         });
 
+        const result = await response.json();
         if (!response.ok) {
-          const result = await response.json();
           throw new Error(result.error || 'Failed to update status');
         }
 
         // Reload from database
-        const data = await getProspects();
-        const transformed = transformDbToApp(data) as ProspectWithPipeline[];
-        setProspects(transformed);
+        refreshProspects();
+        if (result.skippedDoNotContact > 0) {
+          alert(`${result.skippedDoNotContact} prospect(s) marked do not contact were left unchanged.`);
+        }
       } else {
         // Local update
-        setProspects(prev => prev.map(p => {
+        mapProspects(p => {
           if (selectedIds.has(p.id)) {
             return {
               ...p,
@@ -806,7 +977,7 @@ function DashboardContent() {
             };
           }
           return p;
-        }));
+        });
       }
 
       setSelectedIds(new Set());
@@ -819,6 +990,269 @@ function DashboardContent() {
     }
   };
 
+  // Assign a prospect to a member, or unassign with null
+  const assignProspects = async (ids: string[], assigneeId: string | null) => {
+    const response = await fetch('/api/prospects/bulk-assign', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, assigneeId }),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to assign prospects');
+    }
+
+    const idSet = new Set(ids);
+    const withAssignee = (p: ProspectWithPipeline) =>
+      idSet.has(p.id) ? { ...p, assigneeId: assigneeId ?? undefined } : p;
+    mapProspects(withAssignee);
+    setSelectedProspect(prev => prev && withAssignee(prev));
+  };
+
+  // Bulk reassignment handler
+  const handleBulkAssign = async (assigneeId: string | null) => {
+    if (selectedIds.size === 0) return;
+
+    setIsBulkProcessing(true);
+
+    try {
+      await assignProspects(Array.from(selectedIds), assigneeId);
+      setSelectedIds(new Set());
+      setSelectionMode(false);
+    } catch (error) {
+      console.error('Error assigning prospects:', error);
+      alert('Failed to assign prospects. Check console for details.');
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const handleAssigneeChange = async (prospectId: string, assigneeId: string | null) => {
+    try {
+      await assignProspects([prospectId], assigneeId);
+    } catch (error) {
+      console.error('Error assigning prospect:', error);
+      alert('Failed to assign prospect.');
+    }
+  };
+
+  // Add and remove tags on prospects
+  const updateTags = async (ids: string[], add: string[], remove: string[]) => {
+    const response = await fetch('/api/prospects/bulk-tags', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, add, remove }),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to update tags');
+    }
+
+    const idSet = new Set(ids);
+    const withTags = (p: ProspectWithPipeline) =>
+      idSet.has(p.id) ? { ...p, tags: applyTagChanges(p.tags, add, remove) } : p;
+    mapProspects(withTags);
+    setSelectedProspect(prev => prev && withTags(prev));
+  };
+
+  // Set custom field values by field id; blank clears a field
+  const setCustomFieldValues = async (ids: string[], values: Record<string, string>) => {
+    const response = await fetch('/api/prospects/bulk-fields', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, values }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to set custom fields');
+    }
+
+    // The API returns the values as stored, e.g. numbers parsed and dates normalized
+    const changes = result.values as Record<string, CustomFieldValue | null>;
+    const idSet = new Set(ids);
+    const withValues = (p: ProspectWithPipeline) =>
+      idSet.has(p.id) ? { ...p, customFields: applyCustomFieldChanges(p.customFields, changes) } : p;
+    mapProspects(withValues);
+    setSelectedProspect(prev => prev && withValues(prev));
+  };
+
+  const handleBulkTags = async (action: 'add' | 'remove') => {
+    const tags = parseTagList(bulkTags);
+    if (selectedIds.size === 0 || tags.length === 0) return;
+
+    setIsBulkProcessing(true);
+
+    try {
+      await updateTags(Array.from(selectedIds), action === 'add' ? tags : [], action === 'remove' ? tags : []);
+      setBulkTags('');
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      alert('Failed to update tags. Check console for details.');
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const handleBulkSetField = async () => {
+    if (selectedIds.size === 0 || !bulkFieldId) return;
+
+    setIsBulkProcessing(true);
+
+    try {
+      await setCustomFieldValues(Array.from(selectedIds), { [bulkFieldId]: bulkFieldValue });
+      setBulkFieldValue('');
+    } catch (error) {
+      console.error('Error setting custom field:', error);
+      alert(error instanceof Error ? error.message : 'Failed to set custom field.');
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  const handleTagsChange = async (prospectId: string, add: string[], remove: string[]) => {
+    try {
+      await updateTags([prospectId], add, remove);
+    } catch (error) {
+      console.error('Error updating tags:', error);
+      alert('Failed to update tags.');
+    }
+  };
+
+  const handleCustomFieldChange = async (prospectId: string, fieldId: string, value: string) => {
+    try {
+      await setCustomFieldValues([prospectId], { [fieldId]: value });
+    } catch (error) {
+      console.error('Error setting custom field:', error);
+      alert(error instanceof Error ? error.message : 'Failed to set custom field.');
+    }
+  };
+
+  // Bulk message generation runs as a background job
+  const handleBulkGenerateMessages = async () => {
+    if (selectedIds.size === 0) return;
+
+    setIsBulkProcessing(true);
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'generate_messages', payload: { prospectIds: Array.from(selectedIds) } }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start message generation');
+      }
+
+      setMessagesJobId(result.jobId);
+      setSelectedIds(new Set());
+      setSelectionMode(false);
+    } catch (error) {
+      console.error('Error starting message generation:', error);
+      alert('Failed to start message generation. Check console for details.');
+    } finally {
+      setIsBulkProcessing(false);
+    }
+  };
+
+  // Show a saved view (or all prospects with null), using its sort if it has one
+  const handleSelectView = (view: SavedView | null) => {
+    applyFilter({ view: view?.id }, view?.sort);
+  };
+
+  // Start a new view from the view and filters showing now
+  const handleNewView = () => {
+    const quick = viewFilterFromFilterOptions(filters, icpRange);
+    let filter: ViewFilterGroup = quick;
+    if (activeView) {
+      filter = activeView.filter.match === 'all'
+        ? { match: 'all', conditions: [...activeView.filter.conditions, ...quick.conditions] }
+        : { match: 'all', conditions: [activeView.filter, ...quick.conditions] };
+    }
+    setEditingView({ name: '', filter, sort: sortBy });
+  };
+
+  const handleSaveView = async (draft: SavedViewDraft) => {
+    const id = editingView?.id;
+    const response = await fetch(id ? `/api/views/${id}` : '/api/views', {
+      method: id ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...draft, sort: draft.sort ?? null }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.errors?.join('; ') || result.error || 'Failed to save view');
+    }
+
+    const saved = result.view as SavedView;
+    setViews(prev => [...prev.filter(v => v.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    refreshSummary();
+    if (!id) {
+      // A new view takes over the quick filters it was made from. Custom
+      // field filters can't be part of a view, so that one stays.
+      const remaining: FilterOptions = {
+        status: 'all', segment: 'all', search: '', assignee: 'all', customField: filters.customField, view: saved.id
+      };
+      setFilters(remaining);
+      setIcpRange('all');
+      updateUrlParams(remaining, saved.sort ?? sortBy, 'all');
+    }
+    if (saved.sort) setSortBy(saved.sort);
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"? The prospects in it are not affected.`)) return;
+
+    try {
+      const response = await fetch(`/api/views/${view.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete view');
+      }
+      setViews(prev => prev.filter(v => v.id !== view.id));
+      if (filters.view === view.id) applyFilter({ view: undefined });
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      alert('Failed to delete view.');
+    }
+  };
+
+  // Generate messages for everyone in a view; the server resolves who that is
+  const handleGenerateForView = async (view: SavedView) => {
+    const count = viewCounts.get(view.id) ?? 0;
+    if (!confirm(`Generate messages for the ${count} prospect(s) in "${view.name}"?`)) return;
+
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'generate_messages', payload: { viewId: view.id } }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start message generation');
+      }
+      setMessagesJobId(result.jobId);
+    } catch (error) {
+      console.error('Error starting message generation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start message generation.');
+    }
+  };
+
+  const handleMessagesJobFinished = async (job: Job) => {
+    setMessagesJobId(null);
+    refreshProspects();
+
+    if (job.status === 'failed') {
+      alert(`Message generation failed: ${job.error}`);
+      return;
+    }
+    const result = job.result as GenerateMessagesJobResult | undefined;
+    if (result && (result.skipped.length > 0 || result.failed.length > 0)) {
+      console.log('Message generation skipped/failed:', result);
+      alert(`Generated messages for ${result.generated} prospect(s). Skipped ${result.skipped.length}, failed ${result.failed.length}.`);
+    }
+  };
+
   // Show loading state
   if (isLoading) {
     return (
@@ -846,9 +1280,9 @@ function DashboardContent() {
                 Parcelis
               </span>
               <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
-                useSupabase ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                isPersisted ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
               }`}>
-                {useSupabase ? 'Synced' : 'Local'}
+                {isPersisted ? 'Synced' : 'Local'}
               </span>
             </div>
 
@@ -879,6 +1313,17 @@ function DashboardContent() {
                 Import
               </button>
 
+              <Link
+                href="/today"
+                className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-md hover:bg-blue-700 transition-colors"
+                title="Sequence steps due today"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                Today
+              </Link>
+
               <Link
                 href="/engagement"
                 className="inline-flex items-center px-3 py-1.5 bg-orange-600 text-white text-xs font-medium rounded-md hover:bg-orange-700 transition-colors"
@@ -888,6 +1333,65 @@ function DashboardContent() {
                 </svg>
                 Engage
               </Link>
+
+              <Link
+                href="/settings/scoring"
+                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+                title="ICP scoring settings"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                </svg>
+                Scoring
+              </Link>
+
+              <Link
+                href="/settings/prompts"
+                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+                title="Prompt variants and reply rates"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                Prompts
+              </Link>
+
+              <Link
+                href="/settings/fields"
+                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+                title="Custom fields on prospects"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                </svg>
+                Fields
+              </Link>
+
+              <Link
+                href="/analytics"
+                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+                title="Stage conversion rates by segment, track and import batch"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+                Analytics
+              </Link>
+
+              <Link
+                href="/duplicates"
+                className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 text-xs font-medium rounded-md hover:bg-gray-200 transition-colors"
+                title="Find and merge prospects imported more than once"
+              >
+                <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                </svg>
+                Duplicates
+              </Link>
+
+              <div className="pl-2 ml-1 border-l border-gray-200">
+                <WorkspaceMenu />
+              </div>
             </div>
           </div>
         </div>
@@ -967,329 +1471,551 @@ function DashboardContent() {
           </button>
         </div>
 
-        {/* Filters and View Toggle - Compact */}
-        <div className="bg-white rounded-md border border-gray-200 p-2.5 mb-3">
-          <div className="flex flex-col gap-2">
-            {/* Row 1: Search */}
-            <div className="relative">
-              <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-              </svg>
-              <input
-                type="text"
-                placeholder="Search prospects..."
-                value={filters.search}
-                onChange={(e) => applyFilter({ search: e.target.value })}
-                className="w-full pl-9 pr-4 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-              />
-            </div>
+        <div className="flex flex-col lg:flex-row gap-3">
+          {/* Saved Views */}
+          <SavedViewsSidebar
+            views={views}
+            counts={viewCounts}
+            total={stats.total}
+            activeViewId={filters.view}
+            onSelect={handleSelectView}
+            onNew={handleNewView}
+            onEdit={(view) => setEditingView(view)}
+            onDelete={handleDeleteView}
+            onGenerateMessages={isPersisted ? handleGenerateForView : undefined}
+          />
 
-            {/* Row 2: Filters, Quick Pills, Sort, View Toggle */}
-            <div className="flex flex-wrap items-center gap-2">
-              {/* Filter Dropdowns - Compact */}
-              <select
-                value={filters.status || 'all'}
-                onChange={(e) => applyFilter({ status: e.target.value as PipelineStatus | 'all' })}
-                className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
-              >
-                <option value="all">All Status</option>
-                <option value="not_contacted">Not Contacted</option>
-                <option value="visited">Visited</option>
-                <option value="connection_sent">Request Sent</option>
-                <option value="connected">Connected</option>
-                <option value="message_sent">Message Sent</option>
-                <option value="responded">Responded</option>
-                <option value="call_booked">Call Booked</option>
-              </select>
-
-              <select
-                value={filters.segment || 'all'}
-                onChange={(e) => applyFilter({ segment: e.target.value as SegmentFilter })}
-                className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
-              >
-                <option value="all">All Segments</option>
-                <option value="agency">Agency</option>
-                <option value="merchant">Merchant</option>
-                <option value="freelancer">Freelancer</option>
-              </select>
-
-              <select
-                value={icpRange}
-                onChange={(e) => applyFilter({}, undefined, e.target.value as ICPRange)}
-                className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
-              >
-                <option value="all">All ICP</option>
-                <option value="high">High (70+)</option>
-                <option value="medium">Medium (40-69)</option>
-                <option value="low">Low (&lt;40)</option>
-              </select>
+          <div className="flex-1 min-w-0">
+            {/* Filters and View Toggle - Compact */}
+            <div className="bg-white rounded-md border border-gray-200 p-2.5 mb-3">
+              <div className="flex flex-col gap-2">
+                {/* Row 1: Search */}
+                <div className="relative">
+                  <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                  </svg>
+                  <input
+                    type="text"
+                    placeholder="Search prospects..."
+                    value={filters.search}
+                    onChange={(e) => applyFilter({ search: e.target.value })}
+                    className="w-full pl-9 pr-4 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
 
-              {/* Separator */}
-              <div className="h-4 w-px bg-gray-200 mx-1 hidden sm:block" />
+                {/* Row 2: Filters, Quick Pills, Sort, View Toggle */}
+                <div className="flex flex-wrap items-center gap-2">
+                  {/* Filter Dropdowns - Compact */}
+                  <select
+                    value={filters.status || 'all'}
+                    onChange={(e) => applyFilter({ status: e.target.value as PipelineStatus | 'all' })}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    <option value="all">All Status</option>
+                    <option value="not_contacted">Not Contacted</option>
+                    <option value="visited">Visited</option>
+                    <option value="connection_sent">Request Sent</option>
+                    <option value="connected">Connected</option>
+                    <option value="message_sent">Message Sent</option>
+                    <option value="responded">Responded</option>
+                    <option value="call_booked">Call Booked</option>
+                  </select>
+
+                  <select
+                    value={filters.segment || 'all'}
+                    onChange={(e) => applyFilter({ segment: e.target.value as SegmentFilter })}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    <option value="all">All Segments</option>
+                    <option value="agency">Agency</option>
+                    <option value="merchant">Merchant</option>
+                    <option value="freelancer">Freelancer</option>
+                  </select>
+
+                  <select
+                    value={icpRange}
+                    onChange={(e) => applyFilter({}, undefined, e.target.value as ICPRange)}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  >
+                    <option value="all">All ICP</option>
+                    <option value="high">High (70+)</option>
+                    <option value="medium">Medium (40-69)</option>
+                    <option value="low">Low (&lt;40)</option>
+                  </select>
+
+                  {members.length > 0 && (
+                    <select
+                      value={filters.assignee || 'all'}
+                      onChange={(e) => applyFilter({ assignee: e.target.value })}
+                      className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                    >
+                      <option value="all">Everyone</option>
+                      <option value="mine">Mine</option>
+                      <option value="unassigned">Unassigned</option>
+                      {members.filter(m => m.userId !== currentUserId).map(member => (
+                        <option key={member.userId} value={member.userId}>{member.name}</option>
+                      ))}
+                    </select>
+                  )}
 
-              {/* Quick Filter Pills - Smaller */}
-              <button
-                onClick={() => applyFilter({}, undefined, icpRange === 'high' ? 'all' : 'high')}
-                className={`px-2 py-0.5 text-[11px] font-medium rounded-full transition-colors ${
-                  icpRange === 'high'
-                    ? 'bg-emerald-600 text-white'
-                    : 'border border-gray-200 text-gray-600 hover:bg-gray-50'
-                }`}
-              >
-                70+
-              </button>
-              <button
-                onClick={() => applyFilter({ status: filters.status === 'not_contacted' ? 'all' : 'not_contacted' })}
-                className={`px-2 py-0.5 text-[11px] font-medium rounded-full transition-colors ${
-                  filters.status === 'not_contacted'
-                    ? 'bg-gray-700 text-white'
-                    : 'border border-gray-200 text-gray-600 hover:bg-gray-50'
-                }`}
-              >
-                New
-              </button>
-              {(filters.status !== 'all' || filters.segment !== 'all' || icpRange !== 'all' || filters.search) && (
-                <button
-                  onClick={clearFilters}
-                  className="px-2 py-0.5 text-[11px] font-medium text-gray-400 hover:text-gray-600 transition-colors"
-                >
-                  Clear
-                </button>
-              )}
-
-              {/* Right side: Sort and View Toggle */}
-              <div className="flex items-center gap-2 ml-auto">
-                <select
-                  value={sortBy}
-                  onChange={(e) => applyFilter({}, e.target.value as SortOption)}
-                  className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
-                >
-                  <option value="icp_desc">ICP ↓</option>
-                  <option value="icp_asc">ICP ↑</option>
-                  <option value="name_asc">Name A-Z</option>
-                  <option value="recent">Recent</option>
-                </select>
-
-                {/* View Toggle */}
-                <div className="flex border border-gray-200 rounded-md overflow-hidden">
+                  {allTags.length > 0 && (
+                    <select
+                      value={filters.tag || ''}
+                      onChange={(e) => applyFilter({ tag: e.target.value || undefined })}
+                      className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                    >
+                      <option value="">All Tags</option>
+                      {allTags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                  )}
+
+                  {customFields.length > 0 && (
+                    <select
+                      value={filters.customField?.fieldId || ''}
+                      onChange={(e) => applyFilter({ customField: e.target.value ? { fieldId: e.target.value } : undefined })}
+                      className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                    >
+                      <option value="">Any Field</option>
+                      {customFields.map(field => (
+                        <option key={field.id} value={field.id}>{field.label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {filteredField && filters.customField && (
+                    filteredField.type === 'number' || filteredField.type === 'date' ? (
+                      <>
+                        <CustomFieldInput
+                          field={filteredField}
+                          value={filters.customField.min || ''}
+                          onChange={(min) => applyFilter({ customField: { ...filters.customField!, min: min || undefined } })}
+                          placeholder="From"
+                          className="w-28 px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                        />
+                        <CustomFieldInput
+                          field={filteredField}
+                          value={filters.customField.max || ''}
+                          onChange={(max) => applyFilter({ customField: { ...filters.customField!, max: max || undefined } })}
+                          placeholder="To"
+                          className="w-28 px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                        />
+                      </>
+                    ) : (
+                      <CustomFieldInput
+                        field={filteredField}
+                        value={filters.customField.value || ''}
+                        onChange={(value) => applyFilter({ customField: { ...filters.customField!, value: value || undefined } })}
+                        placeholder={filteredField.type === 'select' ? 'Any' : 'Contains...'}
+                        className="w-32 px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                      />
+                    )
+                  )}
+
+                  {/* Separator */}
+                  <div className="h-4 w-px bg-gray-200 mx-1 hidden sm:block" />
+
+                  {/* Quick Filter Pills - Smaller */}
                   <button
-                    onClick={() => setViewMode('grid')}
-                    className={`px-2 py-1 text-xs transition-colors ${
-                      viewMode === 'grid'
-                        ? 'bg-gray-100 text-gray-900'
-                        : 'text-gray-500 hover:bg-gray-50'
+                    onClick={() => applyFilter({}, undefined, icpRange === 'high' ? 'all' : 'high')}
+                    className={`px-2 py-0.5 text-[11px] font-medium rounded-full transition-colors ${
+                      icpRange === 'high'
+                        ? 'bg-emerald-600 text-white'
+                        : 'border border-gray-200 text-gray-600 hover:bg-gray-50'
                     }`}
-                    title="Grid view"
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
-                    </svg>
+                    70+
                   </button>
                   <button
-                    onClick={() => setViewMode('pipeline')}
-                    className={`px-2 py-1 text-xs transition-colors ${
-                      viewMode === 'pipeline'
-                        ? 'bg-gray-100 text-gray-900'
-                        : 'text-gray-500 hover:bg-gray-50'
+                    onClick={() => applyFilter({ status: filters.status === 'not_contacted' ? 'all' : 'not_contacted' })}
+                    className={`px-2 py-0.5 text-[11px] font-medium rounded-full transition-colors ${
+                      filters.status === 'not_contacted'
+                        ? 'bg-gray-700 text-white'
+                        : 'border border-gray-200 text-gray-600 hover:bg-gray-50'
                     }`}
-                    title="Pipeline view"
                   >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
-                    </svg>
+                    New
                   </button>
-                </div>
-              </div>
-            </div>
-
-            {/* Row 3: Showing count + Actions */}
-            <div className="flex items-center justify-between pt-1 border-t border-gray-100">
-              <div className="text-xs text-gray-500">
-                Showing {filteredProspects.length} of {prospects.length}
-                {(filters.status !== 'all' || filters.segment !== 'all' || icpRange !== 'all' || filters.search) && (
-                  <span className="ml-1 text-blue-600">(filtered)</span>
-                )}
-              </div>
+                  {isFiltered && (
+                    <button
+                      onClick={clearFilters}
+                      className="px-2 py-0.5 text-[11px] font-medium text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      Clear
+                    </button>
+                  )}
 
-              {useSupabase && (
-                <div className="flex items-center gap-3">
-                  {/* Export CSV Button */}
-                  <button
-                    onClick={() => handleExport(true)}
-                    disabled={isExporting}
-                    className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
-                    title="Export all prospects to CSV"
-                  >
-                    {isExporting ? (
-                      <>
-                        <svg className="animate-spin w-3 h-3 mr-1" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                  {/* Right side: Sort and View Toggle */}
+                  <div className="flex items-center gap-2 ml-auto">
+                    <select
+                      value={sortBy}
+                      onChange={(e) => applyFilter({}, e.target.value as ProspectSort)}
+                      className="px-2 py-1 text-xs border border-gray-200 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                    >
+                      <option value="icp_desc">ICP ↓</option>
+                      <option value="icp_asc">ICP ↑</option>
+                      <option value="name_asc">Name A-Z</option>
+                      <option value="recent">Recent</option>
+                    </select>
+
+                    {/* View Toggle */}
+                    <div className="flex border border-gray-200 rounded-md overflow-hidden">
+                      <button
+                        onClick={() => setViewMode('grid')}
+                        className={`px-2 py-1 text-xs transition-colors ${
+                          viewMode === 'grid'
+                            ? 'bg-gray-100 text-gray-900'
+                            : 'text-gray-500 hover:bg-gray-50'
+                        }`}
+                        title="Grid view"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
                         </svg>
-                        Exporting...
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </button>
+                      <button
+                        onClick={() => setViewMode('pipeline')}
+                        className={`px-2 py-1 text-xs transition-colors ${
+                          viewMode === 'pipeline'
+                            ? 'bg-gray-100 text-gray-900'
+                            : 'text-gray-500 hover:bg-gray-50'
+                        }`}
+                        title="Pipeline view"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
                         </svg>
-                        Export CSV
-                      </>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Row 3: Showing count + Actions */}
+                <div className="flex items-center justify-between pt-1 border-t border-gray-100">
+                  <div className="text-xs text-gray-500">
+                    Showing {matchingTotal} of {stats.total}
+                    {activeView ? (
+                      <span className="ml-1 text-blue-600">in {activeView.name}{isFilteredBeyondView && ' (filtered)'}</span>
+                    ) : isFiltered && (
+                      <span className="ml-1 text-blue-600">(filtered)</span>
                     )}
-                  </button>
+                  </div>
+
+                  {isPersisted && (
+                    <div className="flex items-center gap-3">
+                      {/* Export just what is showing */}
+                      {isFiltered && (
+                        <button
+                          onClick={() => handleExport(false)}
+                          disabled={isExporting}
+                          className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                          title="Export the prospects showing to CSV"
+                        >
+                          Export shown
+                        </button>
+                      )}
+
+                      {/* Export CSV Button */}
+                      <button
+                        onClick={() => handleExport(true)}
+                        disabled={isExporting}
+                        className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                        title="Export all prospects to CSV"
+                      >
+                        {isExporting ? (
+                          <>
+                            <svg className="animate-spin w-3 h-3 mr-1" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                            </svg>
+                            Exporting...
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                            Export CSV
+                          </>
+                        )}
+                      </button>
+
+                      {/* Recalculate ICP Button */}
+                      <button
+                        onClick={handleRecalculateICP}
+                        disabled={isRecalculatingICP}
+                        className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                        title="Recalculate ICP scores"
+                      >
+                        {isRecalculatingICP ? (
+                          <>
+                            <svg className="animate-spin w-3 h-3 mr-1" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                            </svg>
+                            Recalculating...
+                          </>
+                        ) : (
+                          <>
+                            <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            Recalculate ICP
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
 
-                  {/* Recalculate ICP Button */}
+            {/* Bulk Actions Bar */}
+            {selectionMode && (
+              <div className="bg-gray-800 rounded-md p-3 mb-3 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-4">
+                  <span className="text-white font-medium">
+                    {selectedIds.size} selected
+                  </span>
                   <button
-                    onClick={handleRecalculateICP}
-                    disabled={isRecalculatingICP}
-                    className="inline-flex items-center text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
-                    title="Recalculate ICP scores"
+                    onClick={handleSelectAll}
+                    className="text-sm text-gray-300 hover:text-white"
                   >
-                    {isRecalculatingICP ? (
-                      <>
-                        <svg className="animate-spin w-3 h-3 mr-1" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
-                        </svg>
-                        Recalculating...
-                      </>
-                    ) : (
-                      <>
-                        <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        Recalculate ICP
-                      </>
-                    )}
+                    Select All ({prospects.length}{nextCursor ? ' loaded' : ''})
                   </button>
+                  {selectedIds.size > 0 && (
+                    <button
+                      onClick={handleDeselectAll}
+                      className="text-sm text-gray-300 hover:text-white"
+                    >
+                      Deselect All
+                    </button>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
-        </div>
 
-        {/* Bulk Actions Bar */}
-        {selectionMode && (
-          <div className="bg-gray-800 rounded-md p-3 mb-3 flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <span className="text-white font-medium">
-                {selectedIds.size} selected
-              </span>
-              <button
-                onClick={handleSelectAll}
-                className="text-sm text-gray-300 hover:text-white"
-              >
-                Select All ({filteredProspects.length})
-              </button>
-              {selectedIds.size > 0 && (
-                <button
-                  onClick={handleDeselectAll}
-                  className="text-sm text-gray-300 hover:text-white"
-                >
-                  Deselect All
-                </button>
-              )}
-            </div>
+                {selectedIds.size > 0 && (
+                  <div className="flex flex-wrap items-center justify-end gap-3">
+                    {/* Status Change Dropdown */}
+                    <select
+                      onChange={(e) => {
+                        if (e.target.value) {
+                          handleBulkStatusChange(e.target.value as PipelineStatus);
+                          e.target.value = '';
+                        }
+                      }}
+                      disabled={isBulkProcessing}
+                      className="px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
+                      defaultValue=""
+                    >
+                      <option value="" disabled>Change Status</option>
+                      <option value="not_contacted">Not Contacted</option>
+                      <option value="visited">Visited</option>
+                      <option value="connection_sent">Request Sent</option>
+                      <option value="connected">Connected</option>
+                      <option value="message_sent">Message Sent</option>
+                      <option value="responded">Responded</option>
+                      <option value="call_booked">Call Booked</option>
+                      <option value="closed_won">Won</option>
+                      <option value="closed_lost">Lost</option>
+                    </select>
+
+                    {/* Assign Dropdown */}
+                    {isPersisted && members.length > 0 && (
+                      <select
+                        onChange={(e) => {
+                          if (e.target.value) {
+                            handleBulkAssign(e.target.value === 'unassigned' ? null : e.target.value);
+                            e.target.value = '';
+                          }
+                        }}
+                        disabled={isBulkProcessing}
+                        className="px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
+                        defaultValue=""
+                      >
+                        <option value="" disabled>Assign To</option>
+                        {members.map(member => (
+                          <option key={member.userId} value={member.userId}>
+                            {member.userId === currentUserId ? `${member.name} (me)` : member.name}
+                          </option>
+                        ))}
+                        <option value="unassigned">Nobody</option>
+                      </select>
+                    )}
 
-            {selectedIds.size > 0 && (
-              <div className="flex items-center gap-3">
-                {/* Status Change Dropdown */}
-                <select
-                  onChange={(e) => {
-                    if (e.target.value) {
-                      handleBulkStatusChange(e.target.value as PipelineStatus);
-                      e.target.value = '';
-                    }
-                  }}
-                  disabled={isBulkProcessing}
-                  className="px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
-                  defaultValue=""
-                >
-                  <option value="" disabled>Change Status</option>
-                  <option value="not_contacted">Not Contacted</option>
-                  <option value="visited">Visited</option>
-                  <option value="connection_sent">Request Sent</option>
-                  <option value="connected">Connected</option>
-                  <option value="message_sent">Message Sent</option>
-                  <option value="responded">Responded</option>
-                  <option value="call_booked">Call Booked</option>
-                  <option value="closed_won">Won</option>
-                  <option value="closed_lost">Lost</option>
-                </select>
-
-                {/* Delete Button */}
+                    {/* Tags */}
+                    {isPersisted && (
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="text"
+                          list="bulk-tag-options"
+                          value={bulkTags}
+                          onChange={(e) => setBulkTags(e.target.value)}
+                          placeholder="Tags"
+                          disabled={isBulkProcessing}
+                          className="w-28 px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
+                        />
+                        <datalist id="bulk-tag-options">
+                          {allTags.map(tag => <option key={tag} value={tag} />)}
+                        </datalist>
+                        <button
+                          onClick={() => handleBulkTags('add')}
+                          disabled={isBulkProcessing || !bulkTags.trim()}
+                          className="px-2 py-2 text-sm font-medium text-white hover:bg-white/10 rounded-lg disabled:opacity-50"
+                          title="Add these tags"
+                        >
+                          + Tag
+                        </button>
+                        <button
+                          onClick={() => handleBulkTags('remove')}
+                          disabled={isBulkProcessing || !bulkTags.trim()}
+                          className="px-2 py-2 text-sm font-medium text-white hover:bg-white/10 rounded-lg disabled:opacity-50"
+                          title="Remove these tags"
+                        >
+                          − Tag
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Custom field */}
+                    {isPersisted && customFields.length > 0 && (
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={bulkFieldId}
+                          onChange={(e) => { setBulkFieldId(e.target.value); setBulkFieldValue(''); }}
+                          disabled={isBulkProcessing}
+                          className="px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Set Field</option>
+                          {customFields.map(field => (
+                            <option key={field.id} value={field.id}>{field.label}</option>
+                          ))}
+                        </select>
+                        {bulkField && (
+                          <>
+                            <CustomFieldInput
+                              field={bulkField}
+                              value={bulkFieldValue}
+                              onChange={setBulkFieldValue}
+                              placeholder={bulkField.type === 'select' ? '(clear)' : undefined}
+                              className="w-32 px-3 py-2 bg-white text-gray-900 text-sm font-medium rounded-lg border-0 focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={handleBulkSetField}
+                              disabled={isBulkProcessing}
+                              className="px-2 py-2 text-sm font-medium text-white hover:bg-white/10 rounded-lg disabled:opacity-50"
+                              title="Blank clears the field"
+                            >
+                              Set
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Generate Messages Button */}
+                    {isPersisted && (
+                      <button
+                        onClick={handleBulkGenerateMessages}
+                        disabled={isBulkProcessing || messagesJobId !== null}
+                        className="inline-flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        Generate Messages
+                      </button>
+                    )}
+
+                    {/* Delete Button */}
+                    <button
+                      onClick={handleBulkDelete}
+                      disabled={isBulkProcessing}
+                      className="inline-flex items-center px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      {isBulkProcessing ? (
+                        <>
+                          <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                          </svg>
+                          Processing...
+                        </>
+                      ) : (
+                        <>
+                          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                          Delete
+                        </>
+                      )}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Bulk Message Generation Progress */}
+            {messagesJobId && (
+              <div className="mb-3">
+                <JobProgress jobId={messagesJobId} label="Generating messages" onFinished={handleMessagesJobFinished} />
+              </div>
+            )}
+
+            {/* Content */}
+            {stats.total === 0 ? (
+              <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+                <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">No Prospects Yet</h3>
+                <p className="text-gray-600 mb-6">
+                  Import your LinkedIn prospects Excel file to get started.
+                </p>
                 <button
-                  onClick={handleBulkDelete}
-                  disabled={isBulkProcessing}
-                  className="inline-flex items-center px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                  onClick={() => setShowImportModal(true)}
+                  className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  {isBulkProcessing ? (
-                    <>
-                      <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                      </svg>
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                      Delete
-                    </>
-                  )}
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                  </svg>
+                  Import Prospects
                 </button>
               </div>
-            )}
-          </div>
-        )}
-
-        {/* Content */}
-        {prospects.length === 0 ? (
-          <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
-            <svg className="w-16 h-16 mx-auto text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-            </svg>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Prospects Yet</h3>
-            <p className="text-gray-600 mb-6">
-              Import your LinkedIn prospects Excel file to get started.
-            </p>
-            <button
-              onClick={() => setShowImportModal(true)}
-              className="inline-flex items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-              </svg>
-              Import Prospects
-            </button>
-          </div>
-        ) : viewMode === 'grid' ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
-            {filteredProspects.map((prospect) => (
-              <ProspectCard
-                key={prospect.id}
-                prospect={prospect}
-                onClick={() => !selectionMode && setSelectedProspect(prospect)}
-                selectionMode={selectionMode}
-                isSelected={selectedIds.has(prospect.id)}
-                onSelect={handleSelectProspect}
+            ) : viewMode === 'grid' ? (
+              prospects.length > 0 ? (
+                <>
+                  <VirtualGrid
+                    items={prospects}
+                    getKey={(prospect) => prospect.id}
+                    renderItem={(prospect) => (
+                      <ProspectCard
+                        prospect={prospect}
+                        onClick={() => !selectionMode && setSelectedProspect(prospect)}
+                        selectionMode={selectionMode}
+                        isSelected={selectedIds.has(prospect.id)}
+                        onSelect={handleSelectProspect}
+                        assigneeName={prospect.assigneeId ? memberNames.get(prospect.assigneeId) : undefined}
+                      />
+                    )}
+                    onEndReached={nextCursor ? loadMoreProspects : undefined}
+                  />
+                  {isLoadingMore && (
+                    <div className="text-center py-4 text-sm text-gray-500">Loading more prospects...</div>
+                  )}
+                </>
+              ) : (
+                <div className="text-center py-12 text-gray-500">
+                  No prospects match your filters
+                </div>
+              )
+            ) : (
+              <PipelineBoard
+                loadColumn={loadBoardColumn}
+                statusFilter={listQuery.filters.status}
+                refreshKey={listVersion}
+                onProspectClick={setSelectedProspect}
+                onStatusChange={handleStatusChange}
               />
-            ))}
-            {filteredProspects.length === 0 && (
-              <div className="col-span-full text-center py-12 text-gray-500">
-                No prospects match your filters
-              </div>
             )}
           </div>
-        ) : (
-          <PipelineBoard
-            prospects={filteredProspects}
-            onProspectClick={setSelectedProspect}
-            onStatusChange={handleStatusChange}
-          />
-        )}
+        </div>
       </main>
 
       {/* Modals */}
@@ -1311,7 +2037,18 @@ function DashboardContent() {
         <BulkUrlImportModal
           onClose={() => setShowBulkUrlModal(false)}
           onImport={handleBulkUrlImport}
-          existingUrls={prospects.map(p => p.linkedinUrl)}
+        />
+      )}
+
+      {editingView && (
+        <ViewEditorModal
+          initial={editingView}
+          isNew={!editingView.id}
+          tags={allTags}
+          members={members}
+          countMatches={countViewMatches}
+          onSave={handleSaveView}
+          onClose={() => setEditingView(null)}
         />
       )}
 
@@ -1322,8 +2059,16 @@ function DashboardContent() {
             setSelectedProspect(null);
             setGenerationMetadata(null);
           }}
-          onStatusChange={(status) => handleStatusChange(selectedProspect.id, status)}
+          onStatusChange={(status) => handleStatusChange(selectedProspect.id, status, 'manual')}
           onGenerateMessages={handleGenerateMessages}
+          onMarkMessageSent={isPersisted ? handleMarkMessageSent : undefined}
+          onDoNotContactChange={isPersisted ? (reason) => handleDoNotContactChange(selectedProspect.id, reason) : undefined}
+          onMarkedDoNotContact={(reason) => applyDoNotContact(selectedProspect.id, reason)}
+          members={members}
+          onAssigneeChange={isPersisted ? (assigneeId) => handleAssigneeChange(selectedProspect.id, assigneeId) : undefined}
+          customFields={customFields}
+          onTagsChange={isPersisted ? (add, remove) => handleTagsChange(selectedProspect.id, add, remove) : undefined}
+          onCustomFieldChange={isPersisted ? (fieldId, value) => handleCustomFieldChange(selectedProspect.id, fieldId, value) : undefined}
           isGenerating={isGenerating}
           generationMetadata={generationMetadata}
         />
@@ -0,0 +1,221 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CUSTOM_FIELD_TYPES, parseTagList } from '@/lib/custom-fields';
+import type { CustomFieldDefinition, CustomFieldType } from '@/types';
+
+const secondaryButton = 'px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50';
+const inputClass = 'px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white';
+
+const typeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+};
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const result = await response.json();
+  return result.errors?.join('; ') || result.error || fallback;
+}
+
+export default function CustomFieldsPage() {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Comma-separated options being edited, by select field id
+  const [optionDrafts, setOptionDrafts] = useState<Record<string, string>>({});
+
+  const loadFields = useCallback(async () => {
+    try {
+      const response = await fetch('/api/settings/custom-fields');
+      if (!response.ok) {
+        throw new Error('Failed to load custom fields');
+      }
+      const data = await response.json() as { fields: CustomFieldDefinition[] };
+      setFields(data.fields);
+      setOptionDrafts(Object.fromEntries(data.fields.map(f => [f.id, f.options.join(', ')])));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading custom fields:', err);
+      setError('Failed to load custom fields');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFields();
+  }, [loadFields]);
+
+  const addField = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/settings/custom-fields', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label, type, options: parseTagList(options) }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to add field'));
+      }
+      setLabel('');
+      setOptions('');
+      await loadFields();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add field');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateField = async (field: CustomFieldDefinition, changes: Partial<CustomFieldDefinition>) => {
+    try {
+      const response = await fetch(`/api/settings/custom-fields/${field.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update field'));
+      }
+      await loadFields();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update field');
+    }
+  };
+
+  const renameField = (field: CustomFieldDefinition) => {
+    const newLabel = prompt('Field name', field.label);
+    if (newLabel && newLabel.trim() !== field.label) {
+      updateField(field, { label: newLabel });
+    }
+  };
+
+  const deleteField = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete "${field.label}"? Values stored on prospects will no longer be shown or exported.`)) return;
+    try {
+      const response = await fetch(`/api/settings/custom-fields/${field.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete field'));
+      }
+      await loadFields();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete field');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Custom Fields</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        <section className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <h2 className="font-semibold text-gray-900">Fields</h2>
+            <p className="text-xs text-gray-500">
+              Every prospect in the workspace can have a value for each field. Fields can be filtered on,
+              set in bulk from selection mode, filled from import columns and are included in CSV exports.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <p className="px-4 py-3 text-sm text-gray-500">Loading...</p>
+          ) : fields.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No custom fields yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {fields.map(field => (
+                <li key={field.id} className="px-4 py-3 text-sm space-y-2">
+                  <div className="flex items-center gap-3">
+                    <span className="flex-1 font-medium text-gray-900">{field.label}</span>
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">{typeLabels[field.type]}</span>
+                    <button onClick={() => renameField(field)} className="text-xs text-gray-500 hover:text-gray-800">
+                      Rename
+                    </button>
+                    <button onClick={() => deleteField(field)} className="text-xs text-gray-400 hover:text-red-600">
+                      Delete
+                    </button>
+                  </div>
+                  {field.type === 'select' && (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={optionDrafts[field.id] ?? ''}
+                        onChange={(e) => setOptionDrafts(prev => ({ ...prev, [field.id]: e.target.value }))}
+                        className={`flex-1 ${inputClass}`}
+                      />
+                      <button
+                        onClick={() => updateField(field, { options: parseTagList(optionDrafts[field.id] ?? '') })}
+                        className={secondaryButton}
+                      >
+                        Save options
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-2">Add a field</h2>
+          <form onSubmit={addField} className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Name, e.g. Deal size"
+                className={`flex-1 ${inputClass}`}
+                required
+              />
+              <select value={type} onChange={(e) => setType(e.target.value as CustomFieldType)} className={inputClass}>
+                {CUSTOM_FIELD_TYPES.map(t => (
+                  <option key={t} value={t}>{typeLabels[t]}</option>
+                ))}
+              </select>
+              <button type="submit" disabled={isSaving} className={secondaryButton}>
+                {isSaving ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+            {type === 'select' && (
+              <input
+                type="text"
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder="Options, comma-separated"
+                className={`w-full ${inputClass}`}
+                required
+              />
+            )}
+            <p className="text-xs text-gray-500">A field&apos;s type can&apos;t be changed once it&apos;s added.</p>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
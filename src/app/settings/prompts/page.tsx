@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { MessageType, PromptVariantStats } from '@/types';
+
+const messageTypeLabels: Partial<Record<MessageType, string>> = {
+  connection_request: 'Connection request',
+  opening_dm: 'Opening DM',
+  follow_up: 'Follow-up',
+  comment: 'Comments',
+};
+
+export default function PromptsPage() {
+  const [variants, setVariants] = useState<PromptVariantStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVariants = async () => {
+      try {
+        const response = await fetch('/api/settings/prompts');
+        if (!response.ok) {
+          throw new Error('Failed to load prompt variants');
+        }
+        const data = await response.json();
+        setVariants(data.variants);
+      } catch (err) {
+        console.error('Error loading prompt variants:', err);
+        setError('Failed to load prompt variants');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadVariants();
+  }, []);
+
+  // Traffic share among the active variants writing the same message type
+  const trafficShare = (variant: PromptVariantStats, type: MessageType): number => {
+    const competing = variants.filter(v => v.active && v.messageTypes.includes(type));
+    const total = competing.reduce((sum, v) => sum + v.weight, 0);
+    return total > 0 ? Math.round((variant.weight / total) * 100) : 0;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Prompt Variants</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-4">
+        <p className="text-sm text-gray-600">
+          Variants are registered in <code className="text-xs bg-gray-200 px-1 rounded">src/lib/prompts.ts</code>.
+          Reply rate is the share of prospects sent a variant&apos;s message whose logged reply came after it.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2">Variant</th>
+                  <th className="px-4 py-2">Traffic</th>
+                  <th className="px-4 py-2 text-right">Generated</th>
+                  <th className="px-4 py-2 text-right">Prospects sent</th>
+                  <th className="px-4 py-2 text-right">Replied</th>
+                  <th className="px-4 py-2 text-right">Reply rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {variants.map(variant => (
+                  <tr key={variant.variant} className={variant.active ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{variant.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {variant.variant}
+                        {variant.versions.length > 0 && ` · ${variant.versions.length} version${variant.versions.length === 1 ? '' : 's'}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3">
+                      {variant.active ? (
+                        <ul className="text-xs text-gray-600 space-y-0.5">
+                          {variant.messageTypes.map(type => (
+                            <li key={type}>
+                              {messageTypeLabels[type] || type}: {trafficShare(variant, type)}%
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-xs">Inactive</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">{variant.generated}</td>
+                    <td className="px-4 py-3 text-right">{variant.prospectsSent}</td>
+                    <td className="px-4 py-3 text-right">{variant.prospectsReplied}</td>
+                    <td className="px-4 py-3 text-right font-medium">
+                      {variant.replyRate === null ? '–' : `${variant.replyRate}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { validateScoringProfile } from '@/lib/scoring-profile';
+import { ICP_TIERS } from '@/lib/icp-history';
+import type { ICPTier, RescoreReport, ScoringProfile } from '@/types';
+
+interface ScoringProfileResponse {
+  profile: ScoringProfile;
+  revision: number;
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+const tierLabels: Record<ICPTier, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+function RescoreReportPanel({ report, isPreview }: { report: RescoreReport; isPreview: boolean }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 text-sm">
+      <h2 className="font-semibold text-gray-900 mb-1">
+        {isPreview ? 'Preview: what would change' : 'Last rescore'}
+      </h2>
+      <p className="text-gray-600 mb-3">
+        {report.scoreChanged} of {report.total} scores changed, {report.tierChanged} moved tier,{' '}
+        {report.segmentChanges.length} changed segment.
+      </p>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {ICP_TIERS.map(tier => (
+          <div key={tier} className="p-2 bg-gray-50 rounded-lg text-center">
+            <p className="text-xs text-gray-500">{tierLabels[tier]}</p>
+            <p className="font-medium text-gray-900">
+              {report.tierCounts.before[tier]} → {report.tierCounts.after[tier]}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {report.tierMoves.length > 0 && (
+        <ul className="mb-3 space-y-0.5 text-gray-700">
+          {report.tierMoves.map(move => (
+            <li key={`${move.from}-${move.to}`}>
+              {tierLabels[move.from]} → {tierLabels[move.to]}: {move.count}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.biggestMovers.length > 0 && (
+        <>
+          <h3 className="font-medium text-gray-900 mb-1">Biggest movers</h3>
+          <ul className="mb-3 space-y-0.5">
+            {report.biggestMovers.map(mover => (
+              <li key={mover.prospectId} className="flex justify-between text-gray-700">
+                <span className="truncate mr-2">{mover.name}</span>
+                <span className={mover.delta > 0 ? 'text-green-700' : 'text-red-700'}>
+                  {mover.previousScore} → {mover.newScore}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {report.segmentChanges.length > 0 && (
+        <>
+          <h3 className="font-medium text-gray-900 mb-1">Segment changes</h3>
+          <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+            {report.segmentChanges.map(change => (
+              <li key={change.prospectId} className="flex justify-between text-gray-700">
+                <span className="truncate mr-2">{change.name}</span>
+                <span>{change.previousSegment} → {change.newSegment}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+function formatProfile(profile: ScoringProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+export default function ScoringSettingsPage() {
+  const [saved, setSaved] = useState<ScoringProfileResponse | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+  const [serverErrors, setServerErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<{ report: RescoreReport; isPreview: boolean } | null>(null);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/settings/scoring-profile');
+        if (!response.ok) throw new Error('Failed to load scoring profile');
+        const data: ScoringProfileResponse = await response.json();
+        setSaved(data);
+        setDraft(formatProfile(data.profile));
+      } catch (error) {
+        console.error('Failed to load scoring profile:', error);
+        setServerErrors(['Failed to load scoring profile. Check console for details.']);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  // Validate as the user types so problems show up before saving
+  const validation = useMemo(() => {
+    try {
+      return validateScoringProfile(JSON.parse(draft));
+    } catch (error) {
+      return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+  }, [draft]);
+
+  const isDirty = saved !== null && draft !== formatProfile(saved.profile);
+  const errors = serverErrors.length > 0 ? serverErrors : validation.errors;
+
+  const applyResponse = (data: ScoringProfileResponse, note: string) => {
+    setSaved(data);
+    setDraft(formatProfile(data.profile));
+    setServerErrors([]);
+    setMessage(note);
+  };
+
+  const handleSave = async () => {
+    if (!validation.profile) return;
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/settings/scoring-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: validation.profile })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setServerErrors(result.errors || [result.error || 'Failed to save scoring profile']);
+        return;
+      }
+
+      applyResponse(result, 'Scoring profile saved. Recalculate to apply it to existing prospects.');
+    } catch (error) {
+      console.error('Failed to save scoring profile:', error);
+      setServerErrors(['Failed to save scoring profile. Check console for details.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Discard the saved profile and go back to the default scoring rules?')) {
+      return;
+    }
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/settings/scoring-profile', { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to reset scoring profile');
+      applyResponse(result, 'Reset to the default scoring profile.');
+    } catch (error) {
+      console.error('Failed to reset scoring profile:', error);
+      setServerErrors(['Failed to reset scoring profile. Check console for details.']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // dryRun previews the diff report without saving any scores
+  const handleRecalculate = async (dryRun: boolean) => {
+    setIsRecalculating(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/prospects/recalculate-icp', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to recalculate ICP scores');
+      setMessage(result.message);
+      setReport(result.report ? { report: result.report, isPreview: dryRun } : null);
+    } catch (error) {
+      console.error('Error recalculating ICP:', error);
+      setServerErrors(['Failed to recalculate ICP scores. Check console for details.']);
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/" className="text-gray-500 hover:text-gray-700">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">ICP Scoring</h1>
+              {saved && (
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                  saved.isDefault ? 'bg-gray-100 text-gray-600' : 'bg-blue-100 text-blue-700'
+                }`}>
+                  {saved.isDefault ? 'Default profile' : `Custom profile (rev ${saved.revision})`}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                disabled={isSaving || !saved || saved.isDefault}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reset to Default
+              </button>
+              <button
+                onClick={() => handleRecalculate(true)}
+                disabled={isRecalculating || isDirty}
+                title={isDirty ? 'Save your changes first' : 'See what the saved profile would change without saving'}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview Changes
+              </button>
+              <button
+                onClick={() => handleRecalculate(false)}
+                disabled={isRecalculating || isDirty}
+                title={isDirty ? 'Save your changes first' : 'Rescore every prospect with the saved profile'}
+                className="px-4 py-2 text-purple-700 bg-purple-50 border border-purple-200 rounded-lg hover:bg-purple-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRecalculating ? 'Recalculating...' : 'Recalculate ICP'}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !isDirty || !validation.profile}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : 'Save Profile'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 sm:px-6 lg:px-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Editor */}
+            <div className="lg:col-span-2 bg-white rounded-xl shadow-sm p-4">
+              <p className="text-sm text-gray-600 mb-3">
+                Keyword lists, title tiers, point values and company size bands used to score prospects.
+                Title tiers are checked in order and the first match wins.
+              </p>
+              <textarea
+                value={draft}
+                onChange={(e) => {
+                  setDraft(e.target.value);
+                  setServerErrors([]);
+                  setMessage(null);
+                }}
+                spellCheck={false}
+                className="w-full h-[70vh] font-mono text-xs text-gray-800 border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            {/* Status */}
+            <div className="space-y-4">
+              {message && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+                  {message}
+                </div>
+              )}
+
+              {errors.length > 0 ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                  <p className="font-medium mb-1">Fix these before saving:</p>
+                  <ul className="list-disc list-inside space-y-0.5">
+                    {errors.map((error, i) => (
+                      <li key={i}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-gray-600 text-sm">
+                  {isDirty ? 'Profile is valid. Save to use it for new imports and recalculation.' : 'No unsaved changes.'}
+                </div>
+              )}
+
+              {report && <RescoreReportPanel report={report.report} isPreview={report.isPreview} />}
+
+              {validation.profile && (
+                <div className="bg-white rounded-xl shadow-sm p-4">
+                  <h2 className="text-sm font-semibold text-gray-900 mb-2">Title Tiers</h2>
+                  <ol className="space-y-1 text-sm">
+                    {validation.profile.titleTiers.map((tier, i) => (
+                      <li key={i} className="flex justify-between text-gray-700">
+                        <span>{i + 1}. {tier.name}</span>
+                        <span className="font-medium">{tier.points} pts</span>
+                      </li>
+                    ))}
+                  </ol>
+                  <h2 className="text-sm font-semibold text-gray-900 mt-4 mb-2">Company Signals</h2>
+                  <p className="text-sm text-gray-700">
+                    {validation.profile.companySignals.rules.length} rules, capped at {validation.profile.companySignals.maxPoints} pts
+                  </p>
+                </div>
+              )}
+
+              {saved?.updatedAt && (
+                <p className="text-xs text-gray-500">
+                  Last saved {new Date(saved.updatedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AssignmentRule, AssignmentSettings, ICPSegment, ICPTier, Workspace, WorkspaceMember } from '@/types';
+
+const secondaryButton = 'px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50';
+
+const segmentLabels: Record<ICPSegment, string> = { merchant: 'Merchants', agency: 'Agencies', freelancer: 'Freelancers' };
+const tierLabels: Record<ICPTier, string> = { high: 'High ICP (70+)', medium: 'Medium ICP (40-69)', low: 'Low ICP (<40)' };
+
+const selectClass = 'px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function WorkspacePage() {
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [assignment, setAssignment] = useState<AssignmentSettings>({ rules: [], roundRobin: [] });
+  const [isSavingAssignment, setIsSavingAssignment] = useState(false);
+  const [assignmentMessage, setAssignmentMessage] = useState<string | null>(null);
+
+  const loadWorkspace = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspace');
+      if (!response.ok) {
+        throw new Error('Failed to load workspace');
+      }
+      const data = await response.json() as { workspace: Workspace; members: WorkspaceMember[] };
+      setWorkspace(data.workspace);
+      setMembers(data.members);
+
+      const assignmentResponse = await fetch('/api/settings/assignment');
+      if (assignmentResponse.ok) {
+        setAssignment((await assignmentResponse.json()).settings);
+      }
+      setError(null);
+    } catch (err) {
+      console.error('Error loading workspace:', err);
+      setError('Failed to load workspace');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorkspace();
+  }, [loadWorkspace]);
+
+  const join = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsJoining(true);
+    setJoinError(null);
+    try {
+      const response = await fetch('/api/workspace/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inviteCode }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to join workspace');
+      }
+      window.location.href = '/';
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : 'Failed to join workspace');
+      setIsJoining(false);
+    }
+  };
+
+  const updateRule = (index: number, changes: Partial<AssignmentRule>) => {
+    setAssignment(prev => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => {
+        if (i !== index) return rule;
+        const updated = { ...rule, ...changes };
+        // An empty choice means any segment or tier
+        if (!updated.segment) delete updated.segment;
+        if (!updated.icpTier) delete updated.icpTier;
+        return updated;
+      })
+    }));
+  };
+
+  const addRule = () => {
+    if (members.length === 0) return;
+    setAssignment(prev => ({ ...prev, rules: [...prev.rules, { assigneeId: members[0].userId }] }));
+  };
+
+  const removeRule = (index: number) => {
+    setAssignment(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const toggleRoundRobin = (userId: string) => {
+    setAssignment(prev => ({
+      ...prev,
+      roundRobin: prev.roundRobin.includes(userId)
+        ? prev.roundRobin.filter(id => id !== userId)
+        : [...prev.roundRobin, userId]
+    }));
+  };
+
+  const saveAssignment = async () => {
+    setIsSavingAssignment(true);
+    setAssignmentMessage(null);
+    try {
+      const response = await fetch('/api/settings/assignment', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: assignment }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.errors?.join('; ') || result.error || 'Failed to save assignment rules');
+      }
+      setAssignment(result.settings);
+      setAssignmentMessage('Saved');
+    } catch (err) {
+      setAssignmentMessage(err instanceof Error ? err.message : 'Failed to save assignment rules');
+    } finally {
+      setIsSavingAssignment(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Workspace</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : workspace && (
+          <section className="bg-white rounded-xl shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100">
+              <h2 className="font-semibold text-gray-900">{workspace.name}</h2>
+              <p className="text-xs text-gray-500">
+                Everyone here shares the same prospects, pipeline, messages and engagement posts.
+                Pipeline changes show who made them.
+              </p>
+            </div>
+            {workspace.inviteCode && (
+              <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-3 text-sm">
+                <span className="text-gray-600">Invite code</span>
+                <code className="px-2 py-1 rounded bg-gray-100 text-gray-900">{workspace.inviteCode}</code>
+                <button onClick={() => navigator.clipboard.writeText(workspace.inviteCode!)} className={secondaryButton}>
+                  Copy
+                </button>
+                <span className="text-xs text-gray-500">Teammates enter it when they sign up</span>
+              </div>
+            )}
+            <ul className="divide-y divide-gray-100">
+              {members.map(member => (
+                <li key={member.userId} className="px-4 py-3 flex items-center gap-3 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900">{member.name}</div>
+                    <div className="text-gray-500 truncate">{member.email}</div>
+                  </div>
+                  <span className={`px-2 py-0.5 text-xs rounded-full ${
+                    member.role === 'owner' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {member.role === 'owner' ? 'Owner' : 'Member'}
+                  </span>
+                  <span className="text-xs text-gray-500">Joined {formatDate(member.joinedAt)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {!isLoading && workspace && (
+          <section className="bg-white rounded-xl shadow-sm p-4 space-y-4">
+            <div>
+              <h2 className="font-semibold text-gray-900">Assigning new prospects</h2>
+              <p className="text-xs text-gray-500">
+                Imported prospects go to the first rule that matches them, otherwise to the next
+                person in the round-robin. Prospects that already have someone keep them.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              {assignment.rules.map((rule, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={rule.segment || ''}
+                    onChange={(e) => updateRule(index, { segment: (e.target.value || undefined) as ICPSegment | undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">Any segment</option>
+                    {(Object.keys(segmentLabels) as ICPSegment[]).map(segment => (
+                      <option key={segment} value={segment}>{segmentLabels[segment]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.icpTier || ''}
+                    onChange={(e) => updateRule(index, { icpTier: (e.target.value || undefined) as ICPTier | undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">Any ICP score</option>
+                    {(Object.keys(tierLabels) as ICPTier[]).map(tier => (
+                      <option key={tier} value={tier}>{tierLabels[tier]}</option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500">go to</span>
+                  <select
+                    value={rule.assigneeId}
+                    onChange={(e) => updateRule(index, { assigneeId: e.target.value })}
+                    className={selectClass}
+                  >
+                    {members.map(member => (
+                      <option key={member.userId} value={member.userId}>{member.name}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => removeRule(index)} className="text-xs text-gray-400 hover:text-red-600">
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button onClick={addRule} className={secondaryButton}>Add rule</button>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-1">Round-robin</h3>
+              <div className="flex flex-wrap gap-3">
+                {members.map(member => (
+                  <label key={member.userId} className="flex items-center gap-1.5 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={assignment.roundRobin.includes(member.userId)}
+                      onChange={() => toggleRoundRobin(member.userId)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {member.name}
+                  </label>
+                ))}
+              </div>
+              {assignment.roundRobin.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500">Nobody is in the round-robin, so prospects no rule matches stay unassigned.</p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button onClick={saveAssignment} disabled={isSavingAssignment} className={secondaryButton}>
+                {isSavingAssignment ? 'Saving...' : 'Save'}
+              </button>
+              {assignmentMessage && <span className="text-sm text-gray-600">{assignmentMessage}</span>}
+            </div>
+          </section>
+        )}
+
+        <section className="bg-white rounded-xl shadow-sm p-4">
+          <h2 className="font-semibold text-gray-900 mb-2">Join another workspace</h2>
+          <form onSubmit={join} className="flex gap-2">
+            <input
+              type="text"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              placeholder="Invite code"
+              className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+            <button type="submit" disabled={isJoining} className={secondaryButton}>
+              {isJoining ? 'Joining...' : 'Join'}
+            </button>
+          </form>
+          {joinError && <p className="mt-2 text-sm text-red-600">{joinError}</p>}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+type Mode = 'sign-in' | 'sign-up';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export default function SignInPage() {
+  return (
+    <Suspense fallback={null}>
+      <SignInForm />
+    </Suspense>
+  );
+}
+
+function SignInForm() {
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'sign-in'
+          ? { email, password }
+          : { email, password, name, inviteCode: inviteCode || undefined }),
+      });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to sign in');
+      }
+      // Only follow redirects within the dashboard
+      const next = searchParams.get('next');
+      window.location.href = next?.startsWith('/') && !next.startsWith('//') ? next : '/';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-sm bg-white rounded-xl shadow-sm p-6">
+        <div className="flex items-center gap-2 mb-6">
+          <h1 className="text-lg font-bold text-gray-900">Isaac Outreach</h1>
+          <span className="px-1.5 py-0.5 text-[10px] font-medium bg-purple-100 text-purple-700 rounded">
+            Parcelis
+          </span>
+        </div>
+
+        <form onSubmit={submit} className="space-y-4">
+          {mode === 'sign-up' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} autoComplete="email" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              required
+            />
+          </div>
+          {mode === 'sign-up' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Invite code</label>
+              <input
+                type="text"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                placeholder="Leave blank to start a new workspace"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSubmitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Create account'}
+          </button>
+        </form>
+
+        <p className="mt-4 text-sm text-center text-gray-600">
+          {mode === 'sign-in' ? 'New here?' : 'Already have an account?'}{' '}
+          <button
+            onClick={() => { setMode(mode === 'sign-in' ? 'sign-up' : 'sign-in'); setError(null); }}
+            className="text-blue-600 hover:underline"
+          >
+            {mode === 'sign-in' ? 'Create an account' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
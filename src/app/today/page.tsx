@@ -0,0 +1,384 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchSavedViews } from '@/lib/saved-views';
+import type {
+  ActionItem,
+  ActionKind,
+  ActionQueue,
+  PipelineStatus,
+  SavedView,
+  SequenceQueueItem,
+  SequenceStepOutcome
+} from '@/types';
+
+const sectionColors: Record<ActionKind, string> = {
+  reply: 'bg-green-100 text-green-700',
+  engage_post: 'bg-orange-100 text-orange-700',
+  send_opening_dm: 'bg-blue-100 text-blue-700',
+  send_follow_up: 'bg-indigo-100 text-indigo-700',
+  send_connection: 'bg-purple-100 text-purple-700',
+  visit_profile: 'bg-gray-100 text-gray-700',
+};
+
+const secondaryButton = 'px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50';
+const primaryButton = 'px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50';
+
+function formatDueDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function hoursUntil(iso: string): number {
+  return Math.max(0, Math.round((new Date(iso).getTime() - Date.now()) / (60 * 60 * 1000)));
+}
+
+async function updatePipelineStatus(prospectId: string, status: PipelineStatus) {
+  const response = await fetch(`/api/prospects/${prospectId}/pipeline`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, source: 'queue' }),
+  });
+  if (!response.ok) throw new Error('Failed to update pipeline status');
+}
+
+async function recordSequenceStep(prospectId: string, stepId: string, outcome: SequenceStepOutcome) {
+  const response = await fetch('/api/sequences/steps', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prospectId, stepId, outcome }),
+  });
+  if (!response.ok) throw new Error('Failed to update sequence step');
+}
+
+// Marking the stored version sent also completes its sequence step
+async function markMessageSent(prospectId: string, messageId: string) {
+  const response = await fetch(`/api/prospects/${prospectId}/messages/${messageId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'mark_sent' }),
+  });
+  if (!response.ok) throw new Error('Failed to mark message sent');
+}
+
+async function archivePost(postId: string) {
+  const response = await fetch(`/api/engagement/posts/${postId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'archive', reason: 'engaged' }),
+  });
+  if (!response.ok) throw new Error('Failed to archive post');
+}
+
+function ActionItemCard({
+  item,
+  isBusy,
+  onRun
+}: {
+  item: ActionItem;
+  isBusy: boolean;
+  onRun: (item: ActionItem, action: () => Promise<void>) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const copyMessage = async () => {
+    if (!item.message) return;
+    await navigator.clipboard.writeText(item.message);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renderActions = () => {
+    switch (item.kind) {
+      case 'visit_profile':
+        return (
+          <button
+            onClick={() => {
+              window.open(item.linkedinUrl, '_blank', 'noopener,noreferrer');
+              onRun(item, () => updatePipelineStatus(item.prospectId, 'visited'));
+            }}
+            disabled={isBusy}
+            className={primaryButton}
+          >
+            Visit Profile
+          </button>
+        );
+      case 'send_connection':
+      case 'send_opening_dm':
+      case 'send_follow_up':
+        return (
+          <>
+            <button
+              onClick={() => onRun(item, () => recordSequenceStep(item.prospectId, item.stepId!, 'skipped'))}
+              disabled={isBusy}
+              className={secondaryButton}
+            >
+              Skip
+            </button>
+            <button
+              onClick={() => onRun(item, () => item.messageId
+                ? markMessageSent(item.prospectId, item.messageId)
+                : recordSequenceStep(item.prospectId, item.stepId!, 'completed'))}
+              disabled={isBusy}
+              className={primaryButton}
+            >
+              Mark Sent
+            </button>
+          </>
+        );
+      case 'reply':
+        return (
+          <>
+            <Link href={`/?prospect=${item.prospectId}`} className={secondaryButton}>
+              Respond
+            </Link>
+            <button
+              onClick={() => onRun(item, () => updatePipelineStatus(item.prospectId, 'closed_lost'))}
+              disabled={isBusy}
+              className={secondaryButton}
+            >
+              Closed Lost
+            </button>
+            <button
+              onClick={() => onRun(item, () => updatePipelineStatus(item.prospectId, 'call_booked'))}
+              disabled={isBusy}
+              className={primaryButton}
+            >
+              Call Booked
+            </button>
+          </>
+        );
+      case 'engage_post':
+        return (
+          <>
+            <a href={item.postUrl} target="_blank" rel="noopener noreferrer" className={secondaryButton}>
+              Open Post
+            </a>
+            <button
+              onClick={() => onRun(item, () => archivePost(item.postId!))}
+              disabled={isBusy}
+              className={primaryButton}
+            >
+              Mark Engaged
+            </button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <li className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <a
+              href={item.linkedinUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-gray-900 hover:text-blue-600 truncate"
+            >
+              {item.fullName}
+            </a>
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+              ICP {item.icpScore}
+            </span>
+            {item.kind === 'engage_post' && item.expiresAt ? (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                Archives in {hoursUntil(item.expiresAt)}h
+              </span>
+            ) : item.waitingDays > 0 && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                Waiting {item.waitingDays}d
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 truncate">
+            {[item.jobTitle, item.companyName].filter(Boolean).join(' at ')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {renderActions()}
+        </div>
+      </div>
+
+      {item.kind === 'engage_post' && item.postContent && (
+        <p className="mt-3 text-sm text-gray-600 line-clamp-3">{item.postContent}</p>
+      )}
+
+      {item.stepId && (
+        item.message ? (
+          <div className="mt-3 bg-gray-50 rounded-lg p-3 relative">
+            <p className="text-sm text-gray-700 whitespace-pre-wrap pr-16">{item.message}</p>
+            <button
+              onClick={copyMessage}
+              className="absolute top-2 right-2 px-2 py-1 text-xs text-gray-600 bg-white border border-gray-200 rounded hover:bg-gray-100"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        ) : (
+          <p className="mt-3 text-xs text-gray-500">
+            No message generated yet.{' '}
+            <Link href={`/?prospect=${item.prospectId}`} className="text-blue-600 hover:underline">
+              Generate one
+            </Link>
+          </p>
+        )
+      )}
+    </li>
+  );
+}
+
+function UpcomingList({ items }: { items: SequenceQueueItem[] }) {
+  return (
+    <ul className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+      {items.map(item => (
+        <li key={`${item.prospectId}:${item.step.id}`} className="px-4 py-2 flex justify-between text-sm">
+          <span className="truncate mr-2">
+            <span className="text-gray-900">{item.fullName}</span>
+            <span className="text-gray-500"> · {item.step.name}</span>
+          </span>
+          <span className="text-gray-500 shrink-0">{formatDueDate(item.dueAt)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function TodayPage() {
+  const [queue, setQueue] = useState<ActionQueue | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyItem, setBusyItem] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewId, setViewId] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch(viewId ? `/api/today?view=${encodeURIComponent(viewId)}` : '/api/today');
+      if (!response.ok) {
+        throw new Error('Failed to load queue');
+      }
+      setQueue(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading action queue:', err);
+      setError('Failed to load today\'s queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [viewId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    fetchSavedViews().then(setViews);
+  }, []);
+
+  // Run an item's action, drop it from the list, then refresh the queue
+  const runAction = async (item: ActionItem, action: () => Promise<void>) => {
+    setBusyItem(item.id);
+    try {
+      await action();
+      setQueue(prev => prev && {
+        ...prev,
+        total: prev.total - 1,
+        sections: prev.sections.map(section => ({
+          ...section,
+          items: section.items.filter(i => i.id !== item.id),
+        })),
+      });
+      await loadQueue();
+    } catch (err) {
+      console.error('Error running queue action:', err);
+      alert('Action failed. Check console for details.');
+    } finally {
+      setBusyItem(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link href="/" className="text-gray-500 hover:text-gray-700">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Today</h1>
+            {queue && (
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-700">
+                {queue.total} to do
+              </span>
+            )}
+            {views.length > 0 && (
+              <select
+                value={viewId}
+                onChange={(e) => setViewId(e.target.value)}
+                className="ml-auto px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                aria-label="Saved view"
+              >
+                <option value="">All prospects</option>
+                {views.map(view => (
+                  <option key={view.id} value={view.id}>{view.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 sm:px-6 lg:px-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : queue && (
+          <>
+            {queue.total === 0 && (
+              <p className="text-sm text-gray-500">Nothing to do right now. Check back tomorrow.</p>
+            )}
+
+            {queue.sections.filter(section => section.items.length > 0).map(section => (
+              <section key={section.kind}>
+                <div className="flex items-center gap-2 mb-3">
+                  <h2 className="text-lg font-semibold text-gray-900">{section.label}</h2>
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${sectionColors[section.kind]}`}>
+                    {section.items.length}
+                  </span>
+                  {section.hiddenCount > 0 && (
+                    <span className="text-xs text-gray-500">+{section.hiddenCount} more after today&apos;s limit</span>
+                  )}
+                </div>
+                <ul className="space-y-3">
+                  {section.items.map(item => (
+                    <ActionItemCard
+                      key={item.id}
+                      item={item}
+                      isBusy={busyItem === item.id}
+                      onRun={runAction}
+                    />
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            {queue.upcoming.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Coming up</h2>
+                <UpcomingList items={queue.upcoming} />
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import type { Prospect, ICPScoreBreakdown } from '@/types';
 import { calculateICPScoreWithBreakdown } from '@/lib/import';
+import { canonicalizeLinkedInUrl } from '@/lib/linkedin-identity';
+import { fetchActiveScoringProfile } from '@/lib/scoring-profile';
 
 interface AddProspectModalProps {
   onClose: () => void;
@@ -39,16 +41,7 @@ export function AddProspectModal({ onClose, onAdd }: AddProspectModalProps) {
     setIsSubmitting(true);
 
     try {
-      // Normalize LinkedIn URL
-      let normalizedUrl = linkedinUrl.toLowerCase().trim();
-      if (!normalizedUrl.startsWith('http')) {
-        normalizedUrl = 'https://' + normalizedUrl;
-      }
-      normalizedUrl = normalizedUrl.replace('http://', 'https://');
-      normalizedUrl = normalizedUrl.replace(/\/$/, '');
-      if (normalizedUrl.includes('linkedin.com') && !normalizedUrl.includes('www.linkedin.com')) {
-        normalizedUrl = normalizedUrl.replace('linkedin.com', 'www.linkedin.com');
-      }
+      const normalizedUrl = canonicalizeLinkedInUrl(linkedinUrl);
 
       const fullName = `${firstName} ${lastName}`.trim();
 
@@ -69,7 +62,7 @@ export function AddProspectModal({ onClose, onAdd }: AddProspectModalProps) {
       };
 
       // Calculate ICP score
-      const icpBreakdown = calculateICPScoreWithBreakdown(prospect);
+      const icpBreakdown = calculateICPScoreWithBreakdown(prospect, await fetchActiveScoringProfile());
       prospect.icpScore = icpBreakdown.total;
       prospect.icpScoreBreakdown = icpBreakdown;
 
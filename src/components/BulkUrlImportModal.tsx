@@ -1,15 +1,32 @@
 'use client';
 
 import { useState } from 'react';
+import { canonicalizeLinkedInUrl } from '@/lib/linkedin-identity';
 import type { Prospect } from '@/types';
 
 interface BulkUrlImportModalProps {
   onClose: () => void;
   onImport: (prospects: Partial<Prospect>[]) => void;
-  existingUrls: string[];
 }
 
-export function BulkUrlImportModal({ onClose, onImport, existingUrls }: BulkUrlImportModalProps) {
+// The pasted URLs that stored prospects are already known by. Without
+// storage nothing is stored, so nothing is known.
+async function fetchKnownUrls(urls: string[]): Promise<string[]> {
+  try {
+    const response = await fetch('/api/prospects/known-urls', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ urls }),
+    });
+    if (!response.ok) return [];
+    const data = await response.json() as { known: string[] };
+    return data.known;
+  } catch {
+    return [];
+  }
+}
+
+export function BulkUrlImportModal({ onClose, onImport }: BulkUrlImportModalProps) {
   const [urls, setUrls] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -30,19 +47,19 @@ export function BulkUrlImportModal({ onClose, onImport, existingUrls }: BulkUrlI
       return;
     }
 
-    // Check for duplicates against existing prospects
-    const normalizedExisting = new Set(
-      existingUrls.map(u => u.toLowerCase().replace(/\/+$/, '').split('?')[0])
-    );
+    // Check for duplicates against existing prospects (any URL form they're
+    // known by) and within the pasted list
+    const known = new Set((await fetchKnownUrls(urlList)).map(canonicalizeLinkedInUrl));
 
     const newUrls: string[] = [];
     const duplicates: string[] = [];
 
     for (const url of urlList) {
-      const normalized = url.toLowerCase().replace(/\/+$/, '').split('?')[0];
-      if (normalizedExisting.has(normalized)) {
+      const identity = canonicalizeLinkedInUrl(url);
+      if (known.has(identity)) {
         duplicates.push(url);
       } else {
+        known.add(identity);
         newUrls.push(url);
       }
     }
@@ -68,12 +85,6 @@ export function BulkUrlImportModal({ onClose, onImport, existingUrls }: BulkUrlI
         throw new Error(data.error || 'Failed to import profiles');
       }
 
-      // Log debug info to help identify correct field names from Apify
-      if (data.debug) {
-        console.log('Apify available fields:', data.debug.availableFields);
-        console.log('Apify profile picture values:', data.debug.sampleValues);
-      }
-
       if (data.prospects && data.prospects.length > 0) {
         console.log('First imported prospect:', data.prospects[0]);
         setProgress(`Successfully fetched ${data.prospects.length} profiles!`);
@@ -170,7 +181,7 @@ https://www.linkedin.com/in/bobwilson`}
             <h4 className="text-sm font-medium text-gray-700 mb-2">How it works:</h4>
             <ul className="text-sm text-gray-600 space-y-1">
               <li>1. Paste LinkedIn profile URLs (one per line)</li>
-              <li>2. We&apos;ll fetch profile data using the Apify scraper</li>
+              <li>2. We&apos;ll fetch profile data using the LinkedIn scraper</li>
               <li>3. ICP scores are calculated automatically</li>
               <li>4. Duplicates are skipped (based on LinkedIn URL)</li>
             </ul>
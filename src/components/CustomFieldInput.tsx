@@ -0,0 +1,36 @@
+'use client';
+
+import type { CustomFieldDefinition } from '@/types';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+// The input that fits a custom field's type. Values are kept as strings and
+// checked by the API (see coerceCustomFieldValue).
+export function CustomFieldInput({ field, value, onChange, className = '', placeholder }: CustomFieldInputProps) {
+  if (field.type === 'select') {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+        <option value="">{placeholder ?? '—'}</option>
+        {field.options.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder ?? field.label}
+      className={className}
+    />
+  );
+}
@@ -1,12 +1,21 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import {
+  applyColumnMappings,
+  fetchCustomFields,
+  suggestColumnMappings,
+  TAGS_IMPORT_TARGET,
+  type ImportColumnMappings,
+  type ImportColumnValues
+} from '@/lib/custom-fields';
 import { parseExcelFile } from '@/lib/import';
-import type { Prospect, PipelineRecord } from '@/types';
+import { fetchActiveScoringProfile } from '@/lib/scoring-profile';
+import type { CustomFieldDefinition, Prospect, PipelineRecord } from '@/types';
 
 interface ImportModalProps {
   onClose: () => void;
-  onImport: (prospects: Partial<Prospect>[], pipelineData: Map<string, Partial<PipelineRecord>>) => void;
+  onImport: (prospects: Partial<Prospect>[], pipelineData: Map<string, Partial<PipelineRecord>>, fileName: string) => void;
 }
 
 type ImportStep = 'upload' | 'preview' | 'importing' | 'done';
@@ -18,15 +27,28 @@ export function ImportModal({ onClose, onImport }: ImportModalProps) {
   const [pipelineData, setPipelineData] = useState<Map<string, Partial<PipelineRecord>>>(new Map());
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Sheet columns the parser doesn't read, which can go to tags or custom fields
+  const [extraColumns, setExtraColumns] = useState<string[]>([]);
+  const [columnValues, setColumnValues] = useState<ImportColumnValues>(new Map());
+  const [columnMappings, setColumnMappings] = useState<ImportColumnMappings>({});
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [invalidCells, setInvalidCells] = useState(0);
 
   const handleFileSelect = useCallback(async (selectedFile: File) => {
     setFile(selectedFile);
     setError(null);
 
     try {
-      const result = await parseExcelFile(selectedFile);
+      const [result, fields] = await Promise.all([
+        fetchActiveScoringProfile().then(profile => parseExcelFile(selectedFile, profile)),
+        fetchCustomFields()
+      ]);
       setProspects(result.prospects);
       setPipelineData(result.pipelineData);
+      setExtraColumns(result.extraColumns);
+      setColumnValues(result.columnValues);
+      setCustomFields(fields);
+      setColumnMappings(suggestColumnMappings(result.extraColumns, fields));
       setStep('preview');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to parse file');
@@ -52,14 +74,28 @@ export function ImportModal({ onClose, onImport }: ImportModalProps) {
     }
   }, [handleFileSelect]);
 
+  const setColumnMapping = (column: string, target: string) => {
+    setColumnMappings(prev => {
+      const next = { ...prev };
+      if (target) {
+        next[column] = target;
+      } else {
+        delete next[column];
+      }
+      return next;
+    });
+  };
+
   const handleImport = useCallback(() => {
     setStep('importing');
+    const mapped = applyColumnMappings(prospects, columnValues, columnMappings, customFields);
+    setInvalidCells(mapped.invalidCells);
     // Simulate a small delay for UX
     setTimeout(() => {
-      onImport(prospects, pipelineData);
+      onImport(mapped.prospects, pipelineData, file?.name || 'Excel import');
       setStep('done');
     }, 500);
-  }, [prospects, pipelineData, onImport]);
+  }, [prospects, pipelineData, columnValues, columnMappings, customFields, file, onImport]);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -135,6 +171,33 @@ export function ImportModal({ onClose, onImport }: ImportModalProps) {
                 </div>
               </div>
 
+              {extraColumns.length > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4 mb-4">
+                  <h4 className="font-medium text-gray-900 mb-1">Other columns</h4>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Keep these as tags or custom fields. Cells that don&apos;t fit their field are skipped.
+                  </p>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {extraColumns.map(column => (
+                      <div key={column} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="text-gray-700 truncate">{column}</span>
+                        <select
+                          value={columnMappings[column] || ''}
+                          onChange={(e) => setColumnMapping(column, e.target.value)}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white"
+                        >
+                          <option value="">Don&apos;t import</option>
+                          <option value={TAGS_IMPORT_TARGET}>Tags</option>
+                          {customFields.map(field => (
+                            <option key={field.id} value={field.id}>{field.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="bg-gray-50 rounded-lg p-4 mb-4">
                 <h4 className="font-medium text-gray-900 mb-2">Preview</h4>
                 <div className="max-h-48 overflow-y-auto space-y-2">
@@ -182,6 +245,11 @@ export function ImportModal({ onClose, onImport }: ImportModalProps) {
               <p className="text-gray-600">
                 Successfully imported {prospects.length} prospects
               </p>
+              {invalidCells > 0 && (
+                <p className="text-sm text-yellow-700 mt-2">
+                  {invalidCells} mapped {invalidCells === 1 ? 'cell was' : 'cells were'} skipped because they didn&apos;t fit their field
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { describeJob, getJobPercent, isJobFinished } from '@/lib/jobs/progress';
+import type { Job } from '@/types';
+
+interface JobProgressProps {
+  jobId: string;
+  label: string;
+  onFinished: (job: Job) => void; // Called once, when the job succeeds, fails or is cancelled
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+export function JobProgress({ jobId, label, onFinished }: JobProgressProps) {
+  const [job, setJob] = useState<Job | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  // Poll until the job finishes
+  useEffect(() => {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/jobs/${jobId}`);
+        if (res.ok) {
+          const latest: Job = await res.json();
+          if (stopped) return;
+          setJob(latest);
+          if (isJobFinished(latest)) {
+            onFinishedRef.current(latest);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Error polling job:', error);
+      }
+      if (!stopped) timer = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+      if (res.ok) setJob(await res.json());
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+    }
+  };
+
+  const percent = job ? getJobPercent(job) : null;
+  const finished = job ? isJobFinished(job) : false;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-sm">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900">{label}</p>
+          <p className={`text-xs truncate ${job?.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+            {job ? describeJob(job) : 'Starting...'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          {job && job.progress.total > 0 && (
+            <span className="text-xs text-gray-500">
+              {job.progress.completed}/{job.progress.total}
+            </span>
+          )}
+          {!finished && (
+            <button
+              onClick={handleCancel}
+              disabled={isCancelling || job?.cancelRequested}
+              className="text-xs font-medium text-gray-600 hover:text-red-600 disabled:opacity-50"
+            >
+              {isCancelling || job?.cancelRequested ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        {percent === null ? (
+          <div className="h-full w-1/3 bg-blue-400 rounded-full animate-pulse" />
+        ) : (
+          <div
+            className={`h-full rounded-full transition-all ${job?.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'}`}
+            style={{ width: `${percent}%` }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ interface ProspectCardProps {
   isSelected?: boolean;
   onSelect?: (id: string, selected: boolean) => void;
   selectionMode?: boolean;
+  assigneeName?: string;
 }
 
 const statusColors: Record<PipelineStatus, string> = {
@@ -52,7 +53,7 @@ function getICPDotColor(score: number): string {
   return 'bg-gray-400';
 }
 
-export function ProspectCard({ prospect, onClick, isSelected, onSelect, selectionMode }: ProspectCardProps) {
+export function ProspectCard({ prospect, onClick, isSelected, onSelect, selectionMode, assigneeName }: ProspectCardProps) {
   const status = prospect.pipeline?.status || 'not_contacted';
   const hasMessages = prospect.messages && prospect.messages.length > 0;
   const icpScore = prospect.icpScore || 0;
@@ -125,6 +126,22 @@ export function ProspectCard({ prospect, onClick, isSelected, onSelect, selectio
         </div>
       </div>
 
+      {/* Tags */}
+      {prospect.tags && prospect.tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {prospect.tags.slice(0, 4).map(tag => (
+            <span key={tag} className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-medium">
+              {tag}
+            </span>
+          ))}
+          {prospect.tags.length > 4 && (
+            <span className="text-[10px] text-gray-400" title={prospect.tags.slice(4).join(', ')}>
+              +{prospect.tags.length - 4}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Bottom row: Segment, Industry, ICP, Icons */}
       <div className="mt-3 pt-2 border-t border-gray-100 flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -154,6 +171,16 @@ export function ProspectCard({ prospect, onClick, isSelected, onSelect, selectio
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Assignee initials */}
+          {assigneeName && (
+            <span
+              className="w-5 h-5 rounded-full bg-gray-100 text-gray-600 flex items-center justify-center text-[9px] font-semibold"
+              title={`Assigned to ${assigneeName}`}
+            >
+              {getInitials(assigneeName)}
+            </span>
+          )}
+
           {/* Messages Indicator */}
           {hasMessages && (
             <span title="Messages ready">
@@ -1,19 +1,32 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import type { ProspectWithPipeline, PipelineStatus, GeneratedMessage, MessageTrack } from '@/types';
+import { parseTagList } from '@/lib/custom-fields';
+import { groupMessageVersions } from '@/lib/message-history';
+import { OUTREACH_MESSAGE_TYPES } from '@/lib/message-rules';
+import type { CustomFieldDefinition, ProspectWithPipeline, PipelineStatus, PipelineEvent, PipelineEventSource, GeneratedMessage, MessageTrack, MessageRuleWarning, MessageType, OutreachMessageType, WorkspaceMember } from '@/types';
+import { CustomFieldInput } from './CustomFieldInput';
 import ResponseGenerator from './ResponseGenerator';
 
 interface ProspectDetailProps {
   prospect: ProspectWithPipeline;
   onClose: () => void;
   onStatusChange: (status: PipelineStatus) => void;
-  onGenerateMessages: () => void;
+  onGenerateMessages: (messageTypes?: OutreachMessageType[]) => void;
+  onMarkMessageSent?: (message: GeneratedMessage) => void; // Omitted when messages aren't persisted
+  onDoNotContactChange?: (reason: string | null) => void;  // Null clears the flag; omitted when not persisted
+  onMarkedDoNotContact?: (reason: string) => void;         // A logged hard_no flagged the prospect
+  members?: WorkspaceMember[];
+  onAssigneeChange?: (assigneeId: string | null) => void;  // Null unassigns; omitted when not persisted
+  customFields?: CustomFieldDefinition[];
+  onTagsChange?: (add: string[], remove: string[]) => void;  // Omitted when not persisted
+  onCustomFieldChange?: (fieldId: string, value: string) => void;  // Blank clears the field
   isGenerating?: boolean;
   generationMetadata?: {
     track: MessageTrack;
     personalization_hook: string;
+    warnings?: MessageRuleWarning[];
   } | null;
 }
 
@@ -29,6 +42,22 @@ const statusOptions: { value: PipelineStatus; label: string }[] = [
   { value: 'closed_lost', label: 'Closed - Lost' },
 ];
 
+const statusLabels = Object.fromEntries(
+  statusOptions.map(option => [option.value, option.label])
+) as Record<PipelineStatus, string>;
+
+const eventSourceLabels: Record<PipelineEventSource, string> = {
+  drag: 'Pipeline board',
+  manual: 'Status dropdown',
+  bulk: 'Bulk update',
+  import: 'Import',
+  response_log: 'Response logged',
+  sequence: 'Sequence step',
+  queue: 'Daily queue',
+  message: 'Message marked sent',
+  merge: 'Duplicates merged',
+};
+
 const messageTypeLabels: Record<string, string> = {
   connection_request: 'Connection Request',
   opening_dm: 'Opening DM',
@@ -48,6 +77,21 @@ const trackLabels: Record<MessageTrack, { label: string; color: string }> = {
   CONSULTANT_OUTREACH: { label: 'Consultant', color: 'bg-teal-100 text-teal-700' },
 };
 
+const messageTypeOrder: MessageType[] = ['connection_request', 'opening_dm', 'follow_up', 'follow_up_1', 'follow_up_2', 'comment'];
+
+function isOutreachType(type: MessageType): type is OutreachMessageType {
+  return (OUTREACH_MESSAGE_TYPES as MessageType[]).includes(type);
+}
+
+function formatEventTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
 function getInitials(name: string): string {
   return name
     .split(' ')
@@ -62,13 +106,76 @@ export function ProspectDetail({
   onClose,
   onStatusChange,
   onGenerateMessages,
+  onMarkMessageSent,
+  onDoNotContactChange,
+  onMarkedDoNotContact,
+  members = [],
+  onAssigneeChange,
+  customFields = [],
+  onTagsChange,
+  onCustomFieldChange,
   isGenerating = false,
   generationMetadata,
 }: ProspectDetailProps) {
   const [copiedMessage, setCopiedMessage] = useState<string | null>(null);
+  const [regeneratingType, setRegeneratingType] = useState<OutreachMessageType | null>(null);
+  const [openHistory, setOpenHistory] = useState<Set<MessageType>>(new Set());
   const [showICPBreakdown, setShowICPBreakdown] = useState(false);
   const [showResponseGenerator, setShowResponseGenerator] = useState(false);
+  const [events, setEvents] = useState<PipelineEvent[]>([]);
+  const [newTags, setNewTags] = useState('');
+  const [fieldDrafts, setFieldDrafts] = useState<Record<string, string>>({});
   const status = prospect.pipeline?.status || 'not_contacted';
+  const doNotContact = Boolean(prospect.doNotContact);
+
+  const addTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = parseTagList(newTags);
+    if (tags.length > 0) onTagsChange?.(tags, []);
+    setNewTags('');
+  };
+
+  const storedFieldValue = (field: CustomFieldDefinition): string => {
+    const value = prospect.customFields?.[field.id];
+    return value === undefined ? '' : String(value);
+  };
+
+  // Selects and dates save straight away; text and numbers are drafted and
+  // saved when the input loses focus
+  const changeField = (field: CustomFieldDefinition, value: string) => {
+    if (field.type === 'select' || field.type === 'date') {
+      onCustomFieldChange?.(field.id, value);
+    } else {
+      setFieldDrafts(prev => ({ ...prev, [field.id]: value }));
+    }
+  };
+
+  const saveField = (field: CustomFieldDefinition) => {
+    const draft = fieldDrafts[field.id];
+    if (draft === undefined) return;
+    setFieldDrafts(prev => {
+      const next = { ...prev };
+      delete next[field.id];
+      return next;
+    });
+    if (draft !== storedFieldValue(field)) onCustomFieldChange?.(field.id, draft);
+  };
+
+  // Reload the status timeline whenever the status changes
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/prospects/${prospect.id}/events`)
+      .then(res => (res.ok ? res.json() : []))
+      .then((data: PipelineEvent[]) => {
+        if (!cancelled) setEvents(data);
+      })
+      .catch(error => console.error('Failed to load pipeline events:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [prospect.id, status]);
 
   const copyToClipboard = async (text: string, messageId: string) => {
     await navigator.clipboard.writeText(text);
@@ -76,13 +183,77 @@ export function ProspectDetail({
     setTimeout(() => setCopiedMessage(null), 2000);
   };
 
-  const groupedMessages = (prospect.messages || []).reduce((acc, msg) => {
-    if (!acc[msg.messageType]) {
-      acc[msg.messageType] = [];
-    }
-    acc[msg.messageType].push(msg);
-    return acc;
-  }, {} as Record<string, GeneratedMessage[]>);
+  const groupedMessages = groupMessageVersions(prospect.messages || []);
+
+  const regenerate = (type: OutreachMessageType) => {
+    setRegeneratingType(type);
+    onGenerateMessages([type]);
+  };
+
+  const markDoNotContact = () => {
+    const reason = window.prompt(`Why should ${prospect.fullName} never be contacted?`);
+    if (reason?.trim()) onDoNotContactChange?.(reason.trim());
+  };
+
+  const toggleHistory = (type: MessageType) => {
+    setOpenHistory(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  const renderMessageVersion = (message: GeneratedMessage) => (
+    <div key={message.id} className="relative">
+      <p className="text-sm text-gray-700 whitespace-pre-wrap pr-8">
+        {message.content}
+      </p>
+      <button
+        onClick={() => copyToClipboard(message.content, message.id)}
+        className="absolute top-0 right-0 p-1 text-gray-400 hover:text-gray-600"
+        title="Copy to clipboard"
+      >
+        {copiedMessage === message.id ? (
+          <svg className="w-5 h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+          </svg>
+        ) : (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+          </svg>
+        )}
+      </button>
+      {message.warnings.length > 0 && (
+        <p className="mt-1 text-xs text-amber-700">
+          {message.warnings.map(w => w.detail).join(' · ')}
+        </p>
+      )}
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-400 truncate" title={message.promptVersion}>
+          v{message.version} · {formatEventTime(message.generatedAt)}
+          {message.track && ` · ${trackLabels[message.track].label}`}
+          {message.model && ` · ${message.model}`}
+          {message.promptVariant && ` · ${message.promptVariant}`}
+        </p>
+        {message.used ? (
+          <span className="shrink-0 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">
+            Sent{message.sentAt && ` ${formatEventTime(message.sentAt)}`}
+          </span>
+        ) : onMarkMessageSent && !doNotContact && isOutreachType(message.messageType) && (
+          <button
+            onClick={() => onMarkMessageSent(message)}
+            className="shrink-0 text-xs text-blue-600 hover:text-blue-700"
+          >
+            Mark Sent
+          </button>
+        )}
+      </div>
+    </div>
+  );
 
   const icpBreakdown = prospect.icpScoreBreakdown;
 
@@ -151,6 +322,29 @@ export function ProspectDetail({
               {/* Status & Actions */}
               <div className="bg-gray-50 rounded-lg p-4">
                 <h3 className="font-semibold text-gray-900 mb-3">Pipeline Status</h3>
+                {doNotContact && (
+                  <div className="mb-3 bg-red-50 border border-red-200 rounded-lg p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium text-red-800">Do not contact</p>
+                        {prospect.doNotContactReason && (
+                          <p className="text-sm text-red-700 mt-0.5">{prospect.doNotContactReason}</p>
+                        )}
+                        {prospect.doNotContactAt && (
+                          <p className="text-xs text-red-500 mt-1">Since {formatEventTime(prospect.doNotContactAt)}</p>
+                        )}
+                      </div>
+                      {onDoNotContactChange && (
+                        <button
+                          onClick={() => onDoNotContactChange(null)}
+                          className="shrink-0 text-xs text-red-700 hover:text-red-800 underline"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <select
                   value={status}
                   onChange={(e) => onStatusChange(e.target.value as PipelineStatus)}
@@ -163,6 +357,69 @@ export function ProspectDetail({
                   ))}
                 </select>
 
+                {onAssigneeChange && members.length > 0 && (
+                  <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                    Assigned to
+                    <select
+                      value={prospect.assigneeId || ''}
+                      onChange={(e) => onAssigneeChange(e.target.value || null)}
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Nobody</option>
+                      {members.map(member => (
+                        <option key={member.userId} value={member.userId}>{member.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                {onTagsChange && (
+                  <div className="mt-3">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {(prospect.tags || []).map(tag => (
+                        <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-amber-50 text-amber-700 text-xs font-medium">
+                          {tag}
+                          <button
+                            onClick={() => onTagsChange([], [tag])}
+                            className="text-amber-500 hover:text-amber-800"
+                            title={`Remove ${tag}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                      <form onSubmit={addTags} className="flex-1 min-w-[8rem]">
+                        <input
+                          type="text"
+                          value={newTags}
+                          onChange={(e) => setNewTags(e.target.value)}
+                          placeholder="Add tags (comma-separated)"
+                          className="w-full px-2 py-1 text-xs border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </form>
+                    </div>
+                  </div>
+                )}
+
+                {onCustomFieldChange && customFields.length > 0 && (
+                  <div className="mt-3 grid grid-cols-2 gap-2">
+                    {customFields.map(field => (
+                      <label key={field.id} className="text-xs text-gray-600">
+                        {field.label}
+                        <div onBlur={() => saveField(field)}>
+                          <CustomFieldInput
+                            field={field}
+                            value={fieldDrafts[field.id] ?? storedFieldValue(field)}
+                            onChange={(value) => changeField(field, value)}
+                            placeholder=""
+                            className="mt-0.5 w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                          />
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
                 <div className="mt-3 flex space-x-2">
                   <a
                     href={prospect.linkedinUrl}
@@ -177,6 +434,15 @@ export function ProspectDetail({
                   </a>
                 </div>
 
+                {!doNotContact && onDoNotContactChange && (
+                  <button
+                    onClick={markDoNotContact}
+                    className="mt-2 text-xs text-gray-500 hover:text-red-700"
+                  >
+                    Mark do not contact
+                  </button>
+                )}
+
                 {/* Response Generator Button - Shows when prospect has responded */}
                 {(status === 'responded' || status === 'message_sent' || status === 'connected') && (
                   <button
@@ -191,6 +457,35 @@ export function ProspectDetail({
                 )}
               </div>
 
+              {/* Status History Timeline */}
+              {events.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Status History</h3>
+                  <ol className="space-y-3">
+                    {events.map((event) => (
+                      <li key={event.id} className="border-l-2 border-blue-200 pl-4">
+                        <p className="text-sm text-gray-900">
+                          {event.fromStatus ? (
+                            <>
+                              <span className="text-gray-500">{statusLabels[event.fromStatus] || event.fromStatus}</span>
+                              {' \u2192 '}
+                            </>
+                          ) : null}
+                          <span className="font-medium">{statusLabels[event.toStatus] || event.toStatus}</span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatEventTime(event.createdAt)} &middot; {eventSourceLabels[event.source] || event.source}
+                          {event.actorName && <> by {event.actorName}</>}
+                        </p>
+                        {event.note && (
+                          <p className="text-xs text-gray-600 mt-1">{event.note}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
               {/* ICP Score with Breakdown */}
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="flex items-center justify-between mb-2">
@@ -308,11 +603,15 @@ export function ProspectDetail({
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-gray-900">Generated Messages</h3>
                 <button
-                  onClick={onGenerateMessages}
-                  disabled={isGenerating}
+                  onClick={() => {
+                    setRegeneratingType(null);
+                    onGenerateMessages();
+                  }}
+                  disabled={isGenerating || doNotContact}
+                  title={doNotContact ? 'Marked do not contact' : undefined}
                   className="inline-flex items-center px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {isGenerating ? (
+                  {isGenerating && !regeneratingType ? (
                     <>
                       <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -344,6 +643,18 @@ export function ProspectDetail({
                     <p className="text-xs text-blue-600 font-medium mb-1">Personalization Hook</p>
                     <p className="text-sm text-blue-900">{generationMetadata.personalization_hook}</p>
                   </div>
+                  {generationMetadata.warnings && generationMetadata.warnings.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                      <p className="text-xs text-amber-700 font-medium mb-1">Review before sending</p>
+                      <ul className="text-sm text-amber-900 space-y-0.5">
+                        {generationMetadata.warnings.map((warning, index) => (
+                          <li key={index}>
+                            {messageTypeLabels[warning.messageType]}: {warning.detail}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -359,37 +670,46 @@ export function ProspectDetail({
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {['connection_request', 'opening_dm', 'follow_up', 'follow_up_1', 'follow_up_2', 'comment'].map((type) => {
-                    const messages = groupedMessages[type];
-                    if (!messages || messages.length === 0) return null;
+                  {messageTypeOrder.map((type) => {
+                    const versions = groupedMessages[type];
+                    if (!versions || versions.length === 0) return null;
+
+                    // Show the version that was sent, otherwise the newest
+                    const current = versions.find(m => m.used) || versions[0];
+                    const older = versions.filter(m => m.id !== current.id);
 
                     return (
                       <div key={type} className="bg-gray-50 rounded-lg p-4">
-                        <h4 className="font-medium text-gray-900 mb-2">
-                          {messageTypeLabels[type]}
-                        </h4>
-                        {messages.map((message) => (
-                          <div key={message.id} className="relative">
-                            <p className="text-sm text-gray-700 whitespace-pre-wrap pr-8">
-                              {message.content}
-                            </p>
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="font-medium text-gray-900">
+                            {messageTypeLabels[type]}
+                          </h4>
+                          {isOutreachType(type) && (
+                            <button
+                              onClick={() => regenerate(type)}
+                              disabled={isGenerating || doNotContact}
+                              className="text-xs text-purple-600 hover:text-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {isGenerating && regeneratingType === type ? 'Regenerating...' : 'Regenerate'}
+                            </button>
+                          )}
+                        </div>
+                        {renderMessageVersion(current)}
+                        {older.length > 0 && (
+                          <div className="mt-3 border-t border-gray-200 pt-2">
                             <button
-                              onClick={() => copyToClipboard(message.content, message.id)}
-                              className="absolute top-0 right-0 p-1 text-gray-400 hover:text-gray-600"
-                              title="Copy to clipboard"
+                              onClick={() => toggleHistory(type)}
+                              className="text-xs text-gray-500 hover:text-gray-700"
                             >
-                              {copiedMessage === message.id ? (
-                                <svg className="w-5 h-5 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-                                  <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                                </svg>
-                              ) : (
-                                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                </svg>
-                              )}
+                              {openHistory.has(type) ? 'Hide' : 'Show'} {older.length} earlier version{older.length === 1 ? '' : 's'}
                             </button>
+                            {openHistory.has(type) && (
+                              <div className="mt-2 space-y-3 opacity-75">
+                                {older.map(renderMessageVersion)}
+                              </div>
+                            )}
                           </div>
-                        ))}
+                        )}
                       </div>
                     );
                   })}
@@ -415,6 +735,7 @@ export function ProspectDetail({
         <ResponseGenerator
           prospect={prospect}
           onClose={() => setShowResponseGenerator(false)}
+          onMarkedDoNotContact={onMarkedDoNotContact}
         />
       )}
     </div>
@@ -1,11 +1,13 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import type { ProspectWithPipeline, ResponseClassification, GeneratedResponse, ResponseOption } from '@/types';
+import { useState, useCallback, useEffect } from 'react';
+import { sortThread } from '@/lib/conversation';
+import type { ConversationMessage, ProspectWithPipeline, ResponseClassification, GeneratedResponse, ResponseOption } from '@/types';
 
 interface ResponseGeneratorProps {
   prospect: ProspectWithPipeline;
   onClose: () => void;
+  onMarkedDoNotContact?: (reason: string) => void; // Logging a hard_no flags the prospect
 }
 
 const CLASSIFICATION_LABELS: Record<ResponseClassification, { label: string; color: string; description: string }> = {
@@ -67,15 +69,58 @@ const STYLE_LABELS: Record<string, { label: string; description: string }> = {
   question_first: { label: 'Question First', description: 'Leads with a question' }
 };
 
-export default function ResponseGenerator({ prospect, onClose }: ResponseGeneratorProps) {
+export default function ResponseGenerator({ prospect, onClose, onMarkedDoNotContact }: ResponseGeneratorProps) {
   const [prospectResponse, setProspectResponse] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [result, setResult] = useState<GeneratedResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [selectedClassification, setSelectedClassification] = useState<ResponseClassification | null>(null);
+  const [thread, setThread] = useState<ConversationMessage[]>([]);
+  const [showAddTurn, setShowAddTurn] = useState(false);
+  const [newTurn, setNewTurn] = useState<{ direction: ConversationMessage['direction']; content: string }>({
+    direction: 'inbound',
+    content: ''
+  });
 
   const segment = prospect.icpScoreBreakdown?.segment || 'merchant';
+  const firstName = prospect.firstName || prospect.fullName?.split(' ')[0] || 'Them';
+  const sentimentTrail = thread.filter(t => t.classification).map(t => t.classification!);
+
+  const loadThread = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/prospects/${prospect.id}/conversation`);
+      if (response.ok) {
+        setThread(sortThread(await response.json()));
+      }
+    } catch (err) {
+      console.error('Failed to load conversation:', err);
+    }
+  }, [prospect.id]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  const handleAddTurn = useCallback(async () => {
+    if (!newTurn.content.trim()) return;
+    try {
+      const response = await fetch(`/api/prospects/${prospect.id}/conversation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTurn)
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add message');
+      }
+      setNewTurn(prev => ({ ...prev, content: '' }));
+      setShowAddTurn(false);
+      await loadThread();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }, [prospect.id, newTurn, loadThread]);
 
   const handleGenerate = useCallback(async () => {
     if (!prospectResponse.trim()) {
@@ -150,7 +195,7 @@ export default function ResponseGenerator({ prospect, onClose }: ResponseGenerat
     // Log the interaction
     if (result) {
       try {
-        await fetch('/api/responses/log', {
+        const response = await fetch('/api/responses/log', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -159,16 +204,22 @@ export default function ResponseGenerator({ prospect, onClose }: ResponseGenerat
             classification: selectedClassification || result.classification,
             classificationOverridden: selectedClassification !== result.classification,
             originalClassification: result.classification,
+            classificationConfidence: result.classificationConfidence,
             generatedResponses: result.responses,
             selectedResponse: text,
             selectedStyle: style
           })
         });
+        const { doNotContactReason } = await response.json() as { doNotContactReason?: string };
+        if (doNotContactReason) {
+          onMarkedDoNotContact?.(doNotContactReason);
+        }
+        await loadThread();
       } catch (err) {
         console.error('Failed to log response interaction:', err);
       }
     }
-  }, [prospect.id, prospectResponse, result, selectedClassification]);
+  }, [prospect.id, prospectResponse, result, selectedClassification, loadThread, onMarkedDoNotContact]);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -225,8 +276,84 @@ export default function ResponseGenerator({ prospect, onClose }: ResponseGenerat
               </div>
             </div>
 
+            {/* Conversation thread, sent to the model as context */}
+            {thread.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs text-gray-500">Conversation ({thread.length} messages)</p>
+                  {sentimentTrail.length > 1 && (
+                    <p className="text-xs text-gray-500">
+                      Sentiment: {sentimentTrail.map(c => CLASSIFICATION_LABELS[c]?.label || c).join(' → ')}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {thread.map(turn => (
+                    <div key={turn.id} className={`flex ${turn.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[80%] px-3 py-2 rounded-lg text-xs ${
+                        turn.direction === 'outbound' ? 'bg-blue-50 text-blue-900' : 'bg-white text-gray-800 border border-gray-200'
+                      }`}>
+                        <p className="whitespace-pre-wrap">{turn.content}</p>
+                        <p className="mt-1 text-[10px] text-gray-400 flex items-center gap-1">
+                          {turn.direction === 'outbound' ? 'Isaac' : firstName} · {new Date(turn.sentAt).toLocaleDateString()}
+                          {turn.classification && (
+                            <span className={`ml-1 px-1.5 rounded-full border ${CLASSIFICATION_LABELS[turn.classification]?.color || ''}`}>
+                              {CLASSIFICATION_LABELS[turn.classification]?.label || turn.classification}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Add earlier back-and-forth that happened outside the dashboard */}
+            <div className="mt-3 pt-3 border-t border-gray-200">
+              {showAddTurn ? (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    {(['inbound', 'outbound'] as const).map(direction => (
+                      <button
+                        key={direction}
+                        onClick={() => setNewTurn(prev => ({ ...prev, direction }))}
+                        className={`px-3 py-1 text-xs font-medium rounded-md ${
+                          newTurn.direction === direction ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 border border-gray-200'
+                        }`}
+                      >
+                        {direction === 'inbound' ? `From ${firstName}` : 'From Isaac'}
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    value={newTurn.content}
+                    onChange={(e) => setNewTurn(prev => ({ ...prev, content: e.target.value }))}
+                    placeholder="Paste an earlier message..."
+                    className="w-full h-20 px-3 py-2 text-sm border border-gray-300 rounded-lg resize-none"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setShowAddTurn(false)} className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleAddTurn}
+                      disabled={!newTurn.content.trim()}
+                      className="px-3 py-1 text-xs font-medium bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50"
+                    >
+                      Add to Thread
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button onClick={() => setShowAddTurn(true)} className="text-xs text-blue-600 hover:text-blue-700">
+                  + Add an earlier message to the thread
+                </button>
+              )}
+            </div>
+
             {/* Previous messages context */}
-            {prospect.messages && prospect.messages.length > 0 && (
+            {thread.length === 0 && prospect.messages && prospect.messages.length > 0 && (
               <div className="mt-3 pt-3 border-t border-gray-200">
                 <p className="text-xs text-gray-500 mb-2">Previous outreach:</p>
                 <div className="space-y-1">
@@ -0,0 +1,90 @@
+'use client';
+
+import { describeViewFilter } from '@/lib/saved-views';
+import type { SavedView } from '@/types';
+
+interface SavedViewsSidebarProps {
+  views: SavedView[];
+  counts: Map<string, number>;
+  total: number;
+  activeViewId?: string;
+  onSelect: (view: SavedView | null) => void;
+  onNew: () => void;
+  onEdit: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+  // Queue message generation for everyone in the view (absent without storage)
+  onGenerateMessages?: (view: SavedView) => void;
+}
+
+// Saved views with how many prospects are in each right now
+export function SavedViewsSidebar({
+  views,
+  counts,
+  total,
+  activeViewId,
+  onSelect,
+  onNew,
+  onEdit,
+  onDelete,
+  onGenerateMessages
+}: SavedViewsSidebarProps) {
+  const itemClass = (isActive: boolean) => `w-full flex items-center justify-between gap-2 px-2 py-1.5 text-sm rounded-md text-left transition-colors ${
+    isActive ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+  }`;
+
+  return (
+    <aside className="lg:w-56 flex-shrink-0 bg-white rounded-md border border-gray-200 p-2.5 self-start">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Views</h2>
+        <button
+          onClick={onNew}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          title="Save the current filters as a view"
+        >
+          + Save view
+        </button>
+      </div>
+
+      <ul className="space-y-0.5">
+        <li>
+          <button onClick={() => onSelect(null)} className={itemClass(!activeViewId)}>
+            <span className="truncate">All prospects</span>
+            <span className="text-xs text-gray-400">{total}</span>
+          </button>
+        </li>
+        {views.map(view => {
+          const isActive = view.id === activeViewId;
+          return (
+            <li key={view.id}>
+              <button
+                onClick={() => onSelect(isActive ? null : view)}
+                className={itemClass(isActive)}
+                title={describeViewFilter(view.filter)}
+              >
+                <span className="truncate">{view.name}</span>
+                <span className="text-xs text-gray-400">{counts.get(view.id) ?? 0}</span>
+              </button>
+              {isActive && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 px-2 pt-1 pb-1.5 text-xs">
+                  <button onClick={() => onEdit(view)} className="text-gray-500 hover:text-gray-800">Edit</button>
+                  {onGenerateMessages && (
+                    <button onClick={() => onGenerateMessages(view)} className="text-gray-500 hover:text-gray-800">
+                      Generate messages
+                    </button>
+                  )}
+                  <button onClick={() => onDelete(view)} className="text-gray-400 hover:text-red-600">Delete</button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {views.length === 0 && (
+        <p className="mt-2 px-2 text-xs text-gray-500">
+          Filter the list, then save it as a view to come back to it.
+        </p>
+      )}
+    </aside>
+  );
+}
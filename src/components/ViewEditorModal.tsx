@@ -0,0 +1,342 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  getViewFilterChoices,
+  getViewFilterOperators,
+  isViewFilterGroup,
+  MAX_GROUP_DEPTH,
+  PROSPECT_SORTS,
+  VIEW_FILTER_FIELDS,
+  VIEW_FILTER_OPERATOR_LABELS
+} from '@/lib/saved-views';
+import type {
+  ProspectSort,
+  SavedView,
+  ViewCondition,
+  ViewFilterField,
+  ViewFilterGroup,
+  ViewFilterNode,
+  WorkspaceMember
+} from '@/types';
+
+export type SavedViewDraft = Pick<SavedView, 'name' | 'filter' | 'sort'>;
+
+interface ViewEditorModalProps {
+  initial: SavedViewDraft;
+  isNew: boolean;
+  tags: string[];
+  members: WorkspaceMember[];
+  // Prospects the filter matches right now, shown as it is edited
+  countMatches: (filter: ViewFilterGroup) => Promise<number>;
+  onSave: (view: SavedViewDraft) => Promise<void>;
+  onClose: () => void;
+}
+
+const sortLabels: Record<ProspectSort, string> = {
+  icp_desc: 'ICP ↓',
+  icp_asc: 'ICP ↑',
+  name_asc: 'Name A-Z',
+  recent: 'Recent'
+};
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white';
+
+interface ValueChoice {
+  value: string;
+  label: string;
+}
+
+// What a condition's value can be set to, for fields with a list of values
+function valueChoices(field: ViewFilterField, tags: string[], members: WorkspaceMember[]): ValueChoice[] | undefined {
+  if (field === 'tag') return tags.map(tag => ({ value: tag, label: tag }));
+  if (field === 'assignee') {
+    return [
+      { value: 'mine', label: 'Me' },
+      { value: 'unassigned', label: 'Nobody' },
+      ...members.map(m => ({ value: m.userId, label: m.name }))
+    ];
+  }
+  return getViewFilterChoices(field)?.map(choice => ({ value: choice, label: choice.replace(/_/g, ' ') }));
+}
+
+function newCondition(field: ViewFilterField, tags: string[], members: WorkspaceMember[]): ViewCondition {
+  const { kind } = VIEW_FILTER_FIELDS[field];
+  return {
+    field,
+    operator: getViewFilterOperators(field)[0],
+    value: kind === 'number' ? 0 : valueChoices(field, tags, members)?.[0]?.value ?? ''
+  };
+}
+
+interface ConditionRowProps {
+  condition: ViewCondition;
+  tags: string[];
+  members: WorkspaceMember[];
+  onChange: (condition: ViewCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, tags, members, onChange, onRemove }: ConditionRowProps) {
+  const { kind } = VIEW_FILTER_FIELDS[condition.field];
+  const choices = valueChoices(condition.field, tags, members);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => onChange(newCondition(e.target.value as ViewFilterField, tags, members))}
+        className={inputClass}
+      >
+        {(Object.keys(VIEW_FILTER_FIELDS) as ViewFilterField[]).map(field => (
+          <option key={field} value={field}>{VIEW_FILTER_FIELDS[field].label}</option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) => onChange({ ...condition, operator: e.target.value as ViewCondition['operator'] })}
+        className={inputClass}
+      >
+        {getViewFilterOperators(condition.field).map(operator => (
+          <option key={operator} value={operator}>{VIEW_FILTER_OPERATOR_LABELS[operator]}</option>
+        ))}
+      </select>
+      {choices ? (
+        <select
+          value={String(condition.value)}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={inputClass}
+        >
+          {choices.map(choice => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={kind === 'number' ? 'number' : 'text'}
+          min={kind === 'number' ? 0 : undefined}
+          value={condition.value}
+          onChange={(e) => onChange({
+            ...condition,
+            value: kind === 'number' ? Number(e.target.value) : e.target.value
+          })}
+          className={`${inputClass} w-36`}
+        />
+      )}
+      <button type="button" onClick={onRemove} className="text-xs text-gray-400 hover:text-red-600">
+        Remove
+      </button>
+    </div>
+  );
+}
+
+interface GroupEditorProps {
+  group: ViewFilterGroup;
+  depth: number;
+  tags: string[];
+  members: WorkspaceMember[];
+  onChange: (group: ViewFilterGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, tags, members, onChange, onRemove }: GroupEditorProps) {
+  const setChild = (index: number, child: ViewFilterNode) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+  const addChild = (child: ViewFilterNode) => {
+    onChange({ ...group, conditions: [...group.conditions, child] });
+  };
+
+  return (
+    <div className={depth > 1 ? 'border-l-2 border-blue-200 pl-3 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>Match</span>
+        <select
+          value={group.match}
+          onChange={(e) => onChange({ ...group, match: e.target.value as ViewFilterGroup['match'] })}
+          className={inputClass}
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these</span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="ml-auto text-xs text-gray-400 hover:text-red-600">
+            Remove group
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) => (
+        isViewFilterGroup(child) ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            tags={tags}
+            members={members}
+            onChange={(updated) => setChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            tags={tags}
+            members={members}
+            onChange={(updated) => setChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      ))}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => addChild(newCondition('status', tags, members))}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+          + Condition
+        </button>
+        {depth + 1 < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={() => addChild({ match: group.match === 'all' ? 'any' : 'all', conditions: [] })}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Wait for a pause in editing before counting matches again
+const COUNT_DELAY_MS = 300;
+
+// Name a view and build its filter: conditions joined by all (AND) or any
+// (OR), with groups for mixing the two
+export function ViewEditorModal({ initial, isNew, tags, members, countMatches, onSave, onClose }: ViewEditorModalProps) {
+  const [name, setName] = useState(initial.name);
+  const [filter, setFilter] = useState<ViewFilterGroup>(initial.filter);
+  const [sort, setSort] = useState<ProspectSort | ''>(initial.sort || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      countMatches(filter)
+        .then(count => {
+          if (!cancelled) setMatchCount(count);
+        })
+        .catch(err => console.error('Failed to count view prospects:', err));
+    }, COUNT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [countMatches, filter]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      await onSave({ name, filter, sort: sort || undefined });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900">{isNew ? 'Save View' : 'Edit View'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <svg className="w-6 h-6 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Hot agencies"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sort</label>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as ProspectSort | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              >
+                <option value="">Keep current</option>
+                {PROSPECT_SORTS.map(option => (
+                  <option key={option} value={option}>{sortLabels[option]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Prospects in this view</label>
+            <GroupEditor group={filter} depth={1} tags={tags} members={members} onChange={setFilter} />
+            <p className="mt-3 text-xs text-gray-500">
+              {filter.conditions.length === 0
+                ? 'No conditions: every prospect is in this view.'
+                : matchCount === null
+                  ? 'Counting prospects...'
+                  : `${matchCount} prospects match right now.`}
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save View'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  // Called when the last rows come into view, to load the next page
+  onEndReached?: () => void;
+}
+
+// Columns from Tailwind's md, lg and xl breakpoints up, widest first
+const BREAKPOINT_COLUMNS: Array<[minWidth: number, columns: number]> = [[1280, 4], [1024, 3], [768, 2]];
+const GAP = 12;                 // gap-3
+const MIN_ROW_HEIGHT = 160;     // Until a row has been measured
+const OVERSCAN_ROWS = 3;
+
+function columnsForWidth(width: number): number {
+  return BREAKPOINT_COLUMNS.find(([minWidth]) => width >= minWidth)?.[1] ?? 1;
+}
+
+// A card grid that renders only the rows near the viewport, so a long list
+// stays fast to scroll. It scrolls with the window. Every row is given the
+// height of the tallest row measured so far, which keeps the offsets exact.
+export function VirtualGrid<T>({ items, getKey, renderItem, onEndReached }: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const columnsRef = useRef(1);
+  const [columns, setColumns] = useState(1);
+  const [rowHeight, setRowHeight] = useState(MIN_ROW_HEIGHT);
+  const [range, setRange] = useState({ start: 0, end: 8 });
+
+  const rowCount = Math.ceil(items.length / columns);
+
+  // Work out the rows in view from the window's scroll position and width,
+  // once per animation frame
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+
+      const nextColumns = columnsForWidth(window.innerWidth);
+      if (nextColumns !== columnsRef.current) {
+        // Cards change height with the column width, so measure again
+        columnsRef.current = nextColumns;
+        setColumns(nextColumns);
+        setRowHeight(MIN_ROW_HEIGHT);
+      }
+
+      const scrolled = -container.getBoundingClientRect().top;
+      const start = Math.max(0, Math.floor(scrolled / rowHeight) - OVERSCAN_ROWS);
+      const end = Math.max(start, Math.ceil((scrolled + window.innerHeight) / rowHeight) + OVERSCAN_ROWS);
+      setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    schedule();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [rowHeight, items.length]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Rendered rows report their height; the tallest sets the row height
+  const observeRow = useCallback((row: HTMLDivElement) => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        const tallest = Math.max(...entries.map(entry => entry.borderBoxSize[0]?.blockSize ?? 0));
+        setRowHeight(prev => Math.max(prev, Math.ceil(tallest) + GAP));
+      });
+    }
+    const observer = observerRef.current;
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, []);
+
+  const start = Math.min(range.start, rowCount);
+  const end = Math.min(range.end, rowCount);
+
+  useEffect(() => {
+    if (onEndReached && rowCount > 0 && end >= rowCount) onEndReached();
+  }, [onEndReached, end, rowCount]);
+
+  const rows: number[] = [];
+  for (let row = start; row < end; row++) rows.push(row);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ paddingTop: start * rowHeight, paddingBottom: (rowCount - end) * rowHeight }}
+    >
+      {rows.map(row => (
+        <div
+          key={row}
+          ref={observeRow}
+          className="grid gap-3"
+          style={{
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            minHeight: rowHeight - GAP,
+            marginBottom: GAP
+          }}
+        >
+          {items.slice(row * columns, (row + 1) * columns).map(item => (
+            <Fragment key={getKey(item)}>{renderItem(item)}</Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
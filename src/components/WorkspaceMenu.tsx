@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { SessionInfo } from '@/types';
+
+/**
+ * The signed-in user and workspace, with a workspace switcher when they're in
+ * more than one
+ */
+export function WorkspaceMenu() {
+  const [session, setSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.ok ? response.json() : null)
+      .then(setSession)
+      .catch(err => console.error('Error loading session:', err));
+  }, []);
+
+  const switchWorkspace = async (workspaceId: string) => {
+    const response = await fetch('/api/auth/session', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId }),
+    });
+    if (response.ok) window.location.reload();
+  };
+
+  const signOut = async () => {
+    await fetch('/api/auth/sign-out', { method: 'POST' });
+    window.location.href = '/sign-in';
+  };
+
+  if (!session) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-600">
+      {session.workspaces.length > 1 ? (
+        <select
+          value={session.workspace.id}
+          onChange={(e) => switchWorkspace(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          title="Switch workspace"
+        >
+          {session.workspaces.map(w => (
+            <option key={w.id} value={w.id}>{w.name}</option>
+          ))}
+        </select>
+      ) : (
+        <Link href="/settings/workspace" className="font-medium text-gray-700 hover:underline">
+          {session.workspace.name}
+        </Link>
+      )}
+      <Link href="/settings/workspace" className="hover:underline" title={session.user.email}>
+        {session.user.name}
+      </Link>
+      <button onClick={signOut} className="px-2 py-1 rounded-md hover:bg-gray-100">
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -5,3 +5,9 @@ export { PipelineBoard } from './PipelineBoard';
 export { AddProspectModal } from './AddProspectModal';
 export { BulkUrlImportModal } from './BulkUrlImportModal';
 export { default as ResponseGenerator } from './ResponseGenerator';
+export { JobProgress } from './JobProgress';
+export { WorkspaceMenu } from './WorkspaceMenu';
+export { CustomFieldInput } from './CustomFieldInput';
+export { SavedViewsSidebar } from './SavedViewsSidebar';
+export { ViewEditorModal, type SavedViewDraft } from './ViewEditorModal';
+export { VirtualGrid } from './VirtualGrid';
@@ -0,0 +1,180 @@
+import { isDoNotContact } from '@/lib/do-not-contact';
+import { buildSequenceQueue, DEFAULT_SEQUENCE, DEFAULT_UPCOMING_DAYS } from '@/lib/sequences';
+import type {
+  ActionItem,
+  ActionKind,
+  ActionQueue,
+  EngagementPost,
+  OutreachMessageType,
+  OutreachSequence,
+  ProspectWithPipeline,
+  SequenceProgress
+} from '@/types';
+
+// ============================================================================
+// DAILY ACTION QUEUE
+// ============================================================================
+//
+// Builds the /today to-do list from pipeline status, sequence progress,
+// generated messages, logged replies and engagement posts. Sections are
+// listed most urgent first; within a section items are ordered by ICP score
+// plus a bonus for every day they have been waiting.
+//
+// Browser-safe: the API route gathers the data, this only ranks it.
+// ============================================================================
+
+export const ACTION_SECTIONS: Array<{ kind: ActionKind; label: string }> = [
+  { kind: 'reply', label: 'Replies awaiting a response' },
+  { kind: 'engage_post', label: 'Posts to engage before they age out' },
+  { kind: 'send_opening_dm', label: 'Opening DMs to send' },
+  { kind: 'send_follow_up', label: 'Follow-ups due' },
+  { kind: 'send_connection', label: 'Connection requests to send' },
+  { kind: 'visit_profile', label: 'Profiles to visit' }
+];
+
+// Daily caps keep LinkedIn activity at a safe pace; other sections are uncapped
+export const DEFAULT_ACTION_LIMITS: Partial<Record<ActionKind, number>> = {
+  send_connection: 20,
+  visit_profile: 25
+};
+
+// Priority points added per day an item has been waiting
+const STALENESS_POINTS_PER_DAY = 5;
+
+// Posts are listed once they are within this many hours of being archived
+const POST_EXPIRY_WARNING_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STEP_ACTIONS: Record<OutreachMessageType, ActionKind> = {
+  connection_request: 'send_connection',
+  opening_dm: 'send_opening_dm',
+  follow_up: 'send_follow_up'
+};
+
+export interface ActionQueueInput {
+  prospects: ProspectWithPipeline[];
+  sequenceProgress: SequenceProgress[];
+  activePosts: EngagementPost[];
+  // When we last answered each prospect (latest logged response interaction)
+  lastAnsweredAt: Map<string, string>;
+  postMaxAgeDays: number;
+  sequence?: OutreachSequence;
+  limits?: Partial<Record<ActionKind, number>>;
+  now?: Date;
+}
+
+function daysBetween(from: string | undefined, now: Date): number {
+  if (!from) return 0;
+  return Math.max(0, Math.floor((now.getTime() - new Date(from).getTime()) / DAY_MS));
+}
+
+function baseItem(
+  kind: ActionKind,
+  prospect: ProspectWithPipeline,
+  waitingDays: number
+): ActionItem {
+  const icpScore = prospect.icpScore || 0;
+  return {
+    id: `${kind}:${prospect.id}`,
+    kind,
+    prospectId: prospect.id,
+    fullName: prospect.fullName,
+    companyName: prospect.companyName,
+    jobTitle: prospect.jobTitle,
+    linkedinUrl: prospect.linkedinUrl,
+    icpScore,
+    status: prospect.pipeline?.status || 'not_contacted',
+    waitingDays,
+    priority: icpScore + waitingDays * STALENESS_POINTS_PER_DAY
+  };
+}
+
+/**
+ * Whether a prospect in 'responded' still needs an answer: nothing has been
+ * logged from the response generator since their reply came in
+ */
+export function isAwaitingReply(prospect: ProspectWithPipeline, lastAnsweredAt?: string): boolean {
+  if (prospect.pipeline?.status !== 'responded') return false;
+  if (!lastAnsweredAt) return true;
+  const receivedAt = prospect.pipeline.responseReceivedAt || prospect.pipeline.updatedAt;
+  return new Date(lastAnsweredAt) < new Date(receivedAt);
+}
+
+export function buildActionQueue(input: ActionQueueInput): ActionQueue {
+  const now = input.now || new Date();
+  const limits = { ...DEFAULT_ACTION_LIMITS, ...input.limits };
+  const items: ActionItem[] = [];
+  // Nothing is ever queued for a prospect marked do not contact
+  const prospects = input.prospects.filter(p => !isDoNotContact(p));
+  const prospectsById = new Map(prospects.map(p => [p.id, p]));
+
+  // Replies waiting on us
+  for (const prospect of prospects) {
+    if (isAwaitingReply(prospect, input.lastAnsweredAt.get(prospect.id))) {
+      const receivedAt = prospect.pipeline?.responseReceivedAt || prospect.pipeline?.updatedAt;
+      items.push(baseItem('reply', prospect, daysBetween(receivedAt, now)));
+    }
+  }
+
+  // Sequence steps due today (connection requests, opening DMs, follow-ups)
+  const { due, upcoming } = buildSequenceQueue(prospects, input.sequenceProgress, {
+    sequence: input.sequence || DEFAULT_SEQUENCE,
+    now,
+    upcomingDays: DEFAULT_UPCOMING_DAYS
+  });
+  for (const step of due) {
+    const prospect = prospectsById.get(step.prospectId);
+    if (!prospect) continue;
+    items.push({
+      ...baseItem(STEP_ACTIONS[step.step.messageType], prospect, step.overdueDays),
+      stepId: step.step.id,
+      message: step.message,
+      messageId: step.messageId
+    });
+  }
+
+  // Profiles nobody has visited yet
+  for (const prospect of prospects) {
+    if ((prospect.pipeline?.status || 'not_contacted') === 'not_contacted') {
+      items.push(baseItem('visit_profile', prospect, daysBetween(prospect.createdAt, now)));
+    }
+  }
+
+  // Engagement posts about to be archived as aged
+  for (const post of input.activePosts) {
+    const prospect = prospectsById.get(post.prospectId);
+    if (!prospect) continue;
+    const expiresAt = new Date(new Date(post.postedAt).getTime() + input.postMaxAgeDays * DAY_MS);
+    const hoursLeft = (expiresAt.getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (hoursLeft > POST_EXPIRY_WARNING_HOURS) continue;
+    items.push({
+      ...baseItem('engage_post', prospect, daysBetween(post.postedAt, now)),
+      id: `engage_post:${post.id}`,
+      postId: post.id,
+      postUrl: post.postUrl,
+      postContent: post.postContent,
+      expiresAt: expiresAt.toISOString()
+    });
+  }
+
+  const sections = ACTION_SECTIONS.map(({ kind, label }) => {
+    const sectionItems = items
+      .filter(i => i.kind === kind)
+      .sort((a, b) => b.priority - a.priority || b.waitingDays - a.waitingDays);
+    const limit = limits[kind] ?? sectionItems.length;
+    return {
+      kind,
+      label,
+      items: sectionItems.slice(0, limit),
+      hiddenCount: Math.max(0, sectionItems.length - limit)
+    };
+  });
+
+  return {
+    generatedAt: now.toISOString(),
+    total: sections.reduce((sum, s) => sum + s.items.length, 0),
+    sections,
+    upcoming
+  };
+}
@@ -0,0 +1,276 @@
+import { ICP_TIERS, getICPTier } from '@/lib/icp-history';
+import type {
+  AnalyticsDimension,
+  AnalyticsReport,
+  FunnelReport,
+  ImportBatch,
+  PipelineEvent,
+  PipelineRecord,
+  PipelineStatus,
+  ProspectWithPipeline,
+  StageConversion
+} from '@/types';
+
+// ============================================================================
+// PIPELINE ANALYTICS
+// ============================================================================
+//
+// Conversion between consecutive pipeline stages, overall and broken down by
+// ICP segment, message track, ICP tier, import batch and the week a prospect
+// was added.
+//
+// A prospect has reached every stage up to the furthest one its status,
+// milestone timestamps or pipeline events show, so a prospect now in
+// closed_lost still counts toward the stages it got through. Time in stage is
+// the gap between first entering a stage and first entering the next one.
+//
+// Browser-safe: pure functions over data loaded by /api/analytics.
+// ============================================================================
+
+// Funnel order. closed_lost is counted separately: a prospect can be lost at any stage.
+export const FUNNEL_STAGES: PipelineStatus[] = [
+  'not_contacted',
+  'visited',
+  'connection_sent',
+  'connected',
+  'message_sent',
+  'responded',
+  'call_booked',
+  'closed_won'
+];
+
+export const ANALYTICS_DIMENSIONS: AnalyticsDimension[] = ['segment', 'track', 'icp_tier', 'import_batch', 'week'];
+
+// Milestone stamped when a prospect moves into a stage
+const STAGE_MILESTONES: Partial<Record<PipelineStatus, keyof PipelineRecord>> = {
+  visited: 'visitedAt',
+  connection_sent: 'connectionSentAt',
+  connected: 'connectionAcceptedAt',
+  message_sent: 'messageSentAt',
+  responded: 'responseReceivedAt',
+  call_booked: 'callBookedAt'
+};
+
+const SEGMENT_LABELS: Record<string, string> = {
+  agency: 'Agency',
+  merchant: 'Merchant',
+  freelancer: 'Freelancer',
+  unscored: 'Unscored'
+};
+
+const TIER_LABELS: Record<string, string> = {
+  high: 'High (70+)',
+  medium: 'Medium (40-69)',
+  low: 'Low (<40)'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far one prospect got, and when it first entered each stage
+export interface ProspectJourney {
+  furthestStage: number; // Index into FUNNEL_STAGES
+  closedLost: boolean;
+  enteredAt: Partial<Record<PipelineStatus, number>>; // Epoch ms
+}
+
+interface AnalyticsInput {
+  prospects: ProspectWithPipeline[];
+  events: PipelineEvent[];
+  batches: ImportBatch[];
+}
+
+// A group's key, label and sort position within its dimension
+interface GroupKey {
+  key: string;
+  label: string;
+  order: number | string;
+}
+
+/**
+ * Furthest stage reached and first entry time per stage for one prospect
+ */
+export function buildProspectJourney(prospect: ProspectWithPipeline, events: PipelineEvent[]): ProspectJourney {
+  const status = prospect.pipeline?.status || 'not_contacted';
+  const enteredAt: Partial<Record<PipelineStatus, number>> = {};
+  let furthestStage = 0;
+
+  const reach = (stage: PipelineStatus | undefined, at?: string) => {
+    const index = stage ? FUNNEL_STAGES.indexOf(stage) : -1;
+    if (index === -1) return;
+    furthestStage = Math.max(furthestStage, index);
+    const time = at ? Date.parse(at) : NaN;
+    if (!Number.isNaN(time) && (enteredAt[stage!] === undefined || time < enteredAt[stage!]!)) {
+      enteredAt[stage!] = time;
+    }
+  };
+
+  reach('not_contacted', prospect.createdAt);
+  reach(status);
+  for (const [stage, field] of Object.entries(STAGE_MILESTONES) as [PipelineStatus, keyof PipelineRecord][]) {
+    const at = prospect.pipeline?.[field];
+    if (at) reach(stage, at as string);
+  }
+  for (const event of events) {
+    reach(event.fromStatus);
+    reach(event.toStatus, event.createdAt);
+  }
+
+  return { furthestStage, closedLost: status === 'closed_lost', enteredAt };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Stage-to-stage conversion and median time in stage for a group of journeys
+ */
+export function buildFunnel(key: string, label: string, journeys: ProspectJourney[]): FunnelReport {
+  const reached: Partial<Record<PipelineStatus, number>> = {};
+  FUNNEL_STAGES.forEach((stage, index) => {
+    reached[stage] = journeys.filter(j => j.furthestStage >= index).length;
+  });
+
+  const conversions: StageConversion[] = FUNNEL_STAGES.slice(0, -1).map((from, index) => {
+    const to = FUNNEL_STAGES[index + 1];
+    const reachedFrom = reached[from] || 0;
+    const reachedTo = reached[to] || 0;
+
+    const durations: number[] = [];
+    for (const journey of journeys) {
+      const start = journey.enteredAt[from];
+      const end = journey.enteredAt[to];
+      if (start !== undefined && end !== undefined && end >= start) {
+        durations.push((end - start) / DAY_MS);
+      }
+    }
+    const medianDays = median(durations);
+
+    return {
+      from,
+      to,
+      reachedFrom,
+      reachedTo,
+      rate: reachedFrom > 0 ? round1((reachedTo / reachedFrom) * 100) : null,
+      medianDaysInStage: medianDays === null ? null : round1(medianDays)
+    };
+  });
+
+  return {
+    key,
+    label,
+    prospects: journeys.length,
+    closedLost: journeys.filter(j => j.closedLost).length,
+    reached,
+    conversions
+  };
+}
+
+/**
+ * Monday (UTC) of the week a date falls in, as YYYY-MM-DD
+ */
+export function getWeekStart(date: string): string {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+// The track of the message that was sent, else of the latest one generated
+export function getProspectTrack(prospect: ProspectWithPipeline): string | undefined {
+  const messages = (prospect.messages || []).filter(m => m.track);
+  const sent = messages.find(m => m.used);
+  if (sent) return sent.track;
+  return [...messages].sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))[0]?.track;
+}
+
+function groupKeyFor(
+  dimension: AnalyticsDimension,
+  prospect: ProspectWithPipeline,
+  batches: Map<string, ImportBatch>
+): GroupKey {
+  switch (dimension) {
+    case 'segment': {
+      const segment = prospect.icpScoreBreakdown?.segment || 'unscored';
+      return { key: segment, label: SEGMENT_LABELS[segment] || segment, order: Object.keys(SEGMENT_LABELS).indexOf(segment) };
+    }
+    case 'track': {
+      const track = getProspectTrack(prospect);
+      // Ordered by size once grouped
+      return track ? { key: track, label: track, order: 0 } : { key: 'none', label: 'No messages yet', order: 1 };
+    }
+    case 'icp_tier': {
+      const tier = getICPTier(prospect.icpScore || 0);
+      return { key: tier, label: TIER_LABELS[tier], order: ICP_TIERS.indexOf(tier) };
+    }
+    case 'import_batch': {
+      const batch = prospect.importBatchId ? batches.get(prospect.importBatchId) : undefined;
+      if (!batch) return { key: 'none', label: 'Not from a batch', order: '' };
+      // Newest batch first
+      return { key: batch.id, label: `${batch.label} (${batch.createdAt.slice(0, 10)})`, order: batch.createdAt };
+    }
+    case 'week': {
+      const week = getWeekStart(prospect.createdAt);
+      return { key: week, label: `Week of ${week}`, order: week };
+    }
+  }
+}
+
+function compareGroups(dimension: AnalyticsDimension, a: GroupKey & { size: number }, b: GroupKey & { size: number }): number {
+  if (typeof a.order === 'string' && typeof b.order === 'string') {
+    return b.order.localeCompare(a.order);
+  }
+  if (dimension === 'track') {
+    return (a.order as number) - (b.order as number) || b.size - a.size || a.label.localeCompare(b.label);
+  }
+  return (a.order as number) - (b.order as number);
+}
+
+/**
+ * Overall funnel plus one funnel per group for every dimension
+ */
+export function buildAnalyticsReport(
+  { prospects, events, batches }: AnalyticsInput,
+  now: Date = new Date()
+): AnalyticsReport {
+  const eventsByProspect = new Map<string, PipelineEvent[]>();
+  for (const event of events) {
+    eventsByProspect.set(event.prospectId, [...(eventsByProspect.get(event.prospectId) || []), event]);
+  }
+  const batchesById = new Map(batches.map(b => [b.id, b]));
+
+  const journeys = prospects.map(p => ({
+    prospect: p,
+    journey: buildProspectJourney(p, eventsByProspect.get(p.id) || [])
+  }));
+
+  const breakdowns = {} as Record<AnalyticsDimension, FunnelReport[]>;
+  for (const dimension of ANALYTICS_DIMENSIONS) {
+    const groups = new Map<string, GroupKey & { journeys: ProspectJourney[] }>();
+    for (const { prospect, journey } of journeys) {
+      const group = groupKeyFor(dimension, prospect, batchesById);
+      const existing = groups.get(group.key);
+      if (existing) {
+        existing.journeys.push(journey);
+      } else {
+        groups.set(group.key, { ...group, journeys: [journey] });
+      }
+    }
+
+    breakdowns[dimension] = Array.from(groups.values())
+      .map(g => ({ ...g, size: g.journeys.length }))
+      .sort((a, b) => compareGroups(dimension, a, b))
+      .map(g => buildFunnel(g.key, g.label, g.journeys));
+  }
+
+  return {
+    overall: buildFunnel('all', 'All prospects', journeys.map(j => j.journey)),
+    breakdowns,
+    generatedAt: now.toISOString()
+  };
+}
@@ -0,0 +1,192 @@
+import { getICPTier, ICP_TIERS } from '@/lib/icp-history';
+import { ICP_SEGMENTS } from '@/lib/scoring-profile';
+import type { DbRecord, StorageAdapter } from '@/lib/storage';
+import type {
+  AssigneeFilter,
+  AssignmentRule,
+  AssignmentSettings,
+  ICPSegment,
+  ICPTier,
+  Prospect
+} from '@/types';
+
+// ============================================================================
+// PROSPECT ASSIGNMENT
+// ============================================================================
+//
+// Each prospect can have an assignee: the workspace member working it. New
+// prospects are assigned when they are imported, using the workspace's
+// assignment settings:
+//   1. The first rule matching the prospect's segment and ICP tier
+//   2. Otherwise the next member in the round-robin list. The turn carries
+//      over between imports (assignment_settings.round_robin_cursor).
+//   3. Otherwise the prospect stays unassigned
+// Prospects that already have an assignee keep them.
+//
+// Browser-safe apart from assignNewProspects, which the import route calls.
+// ============================================================================
+
+export const DEFAULT_ASSIGNMENT_SETTINGS: AssignmentSettings = { rules: [], roundRobin: [] };
+
+export interface AssignmentSettingsValidation {
+  settings?: AssignmentSettings;
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate untrusted assignment settings (e.g. from the workspace settings
+ * page). Everyone named must be a member of the workspace.
+ */
+export function validateAssignmentSettings(input: unknown, memberIds: string[]): AssignmentSettingsValidation {
+  const errors: string[] = [];
+  const isMember = (id: unknown) => typeof id === 'string' && memberIds.includes(id);
+
+  if (!isRecord(input)) {
+    return { errors: ['Assignment settings must be a JSON object'] };
+  }
+
+  if (!Array.isArray(input.rules)) {
+    errors.push('rules must be a list');
+  } else {
+    input.rules.forEach((rule: unknown, i: number) => {
+      const path = `rules[${i}]`;
+      if (!isRecord(rule)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (rule.segment !== undefined && !ICP_SEGMENTS.includes(rule.segment as ICPSegment)) {
+        errors.push(`${path}.segment must be one of ${ICP_SEGMENTS.join(', ')}`);
+      }
+      if (rule.icpTier !== undefined && !ICP_TIERS.includes(rule.icpTier as ICPTier)) {
+        errors.push(`${path}.icpTier must be one of ${ICP_TIERS.join(', ')}`);
+      }
+      if (!isMember(rule.assigneeId)) {
+        errors.push(`${path}.assigneeId must be a member of the workspace`);
+      }
+    });
+  }
+
+  if (!Array.isArray(input.roundRobin)) {
+    errors.push('roundRobin must be a list');
+  } else {
+    if (input.roundRobin.some(id => !isMember(id))) {
+      errors.push('roundRobin must only contain members of the workspace');
+    }
+    if (new Set(input.roundRobin).size !== input.roundRobin.length) {
+      errors.push('roundRobin must not list anyone twice');
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const rules = (input.rules as Record<string, unknown>[]).map(rule => ({
+    ...(rule.segment !== undefined ? { segment: rule.segment as ICPSegment } : {}),
+    ...(rule.icpTier !== undefined ? { icpTier: rule.icpTier as ICPTier } : {}),
+    assigneeId: rule.assigneeId as string
+  }));
+  return { settings: { rules, roundRobin: input.roundRobin as string[] }, errors };
+}
+
+/**
+ * Turn a stored assignment_settings row into usable settings. Nothing saved,
+ * or a document that no longer validates, means nobody is assigned.
+ */
+export function resolveAssignmentSettings(record: DbRecord | null): AssignmentSettings {
+  const settings = record?.settings;
+  if (!isRecord(settings) || !Array.isArray(settings.rules) || !Array.isArray(settings.roundRobin)) {
+    return DEFAULT_ASSIGNMENT_SETTINGS;
+  }
+  return { rules: settings.rules as AssignmentRule[], roundRobin: settings.roundRobin as string[] };
+}
+
+// Segment and tier of a stored prospect. Unscored prospects count as
+// merchants, as in the dashboard's segment filter.
+function describeProspect(prospect: DbRecord): { segment: ICPSegment; tier: ICPTier } {
+  const breakdown = prospect.icp_score_breakdown as { segment?: ICPSegment } | null | undefined;
+  return {
+    segment: breakdown?.segment || 'merchant',
+    tier: getICPTier(Number(prospect.icp_score) || 0)
+  };
+}
+
+export function findAssignmentRule(rules: AssignmentRule[], prospect: DbRecord): AssignmentRule | undefined {
+  const { segment, tier } = describeProspect(prospect);
+  return rules.find(rule =>
+    (!rule.segment || rule.segment === segment) && (!rule.icpTier || rule.icpTier === tier)
+  );
+}
+
+/**
+ * Round-robin turns an import needs: one per prospect no rule matches, or
+ * none when nobody is in the round-robin
+ */
+export function countRoundRobinTurns(prospects: DbRecord[], settings: AssignmentSettings): number {
+  if (settings.roundRobin.length === 0) return 0;
+  return prospects.filter(p => !findAssignmentRule(settings.rules, p)).length;
+}
+
+/**
+ * Who gets each prospect. `cursor` is the round-robin turn the first
+ * unmatched prospect takes. Prospects nobody gets are left out.
+ */
+export function planAssignments(
+  prospects: DbRecord[],
+  settings: AssignmentSettings,
+  cursor: number
+): Array<{ prospectId: string; assigneeId: string }> {
+  const { rules, roundRobin } = settings;
+  let turn = cursor;
+
+  return prospects.flatMap(prospect => {
+    const assigneeId = findAssignmentRule(rules, prospect)?.assigneeId
+      ?? (roundRobin.length > 0 ? roundRobin[turn++ % roundRobin.length] : undefined);
+    return assigneeId ? [{ prospectId: prospect.id as string, assigneeId }] : [];
+  });
+}
+
+/**
+ * Assign freshly imported prospects that don't have an assignee yet.
+ * Updates the given rows in place and returns how many were assigned.
+ */
+export async function assignNewProspects(storage: StorageAdapter, prospects: DbRecord[]): Promise<number> {
+  const unassigned = prospects.filter(p => !p.assignee_id);
+  if (unassigned.length === 0) return 0;
+
+  const settings = resolveAssignmentSettings(await storage.getAssignmentSettings(storage.workspaceId));
+  const turns = countRoundRobinTurns(unassigned, settings);
+  const cursor = turns > 0 ? await storage.takeRoundRobinTurns(storage.workspaceId, turns) : 0;
+  const assignments = planAssignments(unassigned, settings, cursor);
+
+  const byAssignee = new Map<string, string[]>();
+  for (const { prospectId, assigneeId } of assignments) {
+    byAssignee.set(assigneeId, [...(byAssignee.get(assigneeId) || []), prospectId]);
+  }
+  for (const [assigneeId, ids] of byAssignee) {
+    await storage.bulkAssignProspects(ids, assigneeId);
+  }
+
+  const assigneeOf = new Map(assignments.map(a => [a.prospectId, a.assigneeId]));
+  for (const prospect of unassigned) {
+    if (assigneeOf.has(prospect.id as string)) prospect.assignee_id = assigneeOf.get(prospect.id as string);
+  }
+  return assignments.length;
+}
+
+/**
+ * Dashboard assignee filter: everyone, the signed-in user's, nobody's, or a
+ * given member's prospects
+ */
+export function matchesAssigneeFilter(
+  prospect: Pick<Prospect, 'assigneeId'>,
+  filter: AssigneeFilter | undefined,
+  currentUserId: string | undefined
+): boolean {
+  if (!filter || filter === 'all') return true;
+  if (filter === 'unassigned') return !prospect.assigneeId;
+  if (filter === 'mine') return Boolean(currentUserId) && prospect.assigneeId === currentUserId;
+  return prospect.assigneeId === filter;
+}
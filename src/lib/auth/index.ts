@@ -0,0 +1,101 @@
+import { headers } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import type { WorkspaceMember } from '@/types';
+import { getStorageBackend, type StorageAdapter } from '@/lib/storage';
+import { createLocalAuthProvider } from './local';
+import { createSupabaseAuthProvider } from './supabase';
+import {
+  ACCESS_TOKEN_COOKIE,
+  ACCESS_TOKEN_HEADER,
+  authError,
+  REFRESH_TOKEN_COOKIE,
+  USER_ID_HEADER,
+  WORKSPACE_COOKIE,
+  WORKSPACE_ID_HEADER,
+  type AuthProvider,
+  type AuthSession,
+  type RequestIdentity,
+  type SessionTokens
+} from './types';
+
+export * from './types';
+
+let provider: AuthProvider | null = null;
+
+// Sign-in follows the storage backend: Supabase Auth, or users in the local JSON file
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    provider = getStorageBackend() === 'supabase'
+      ? createSupabaseAuthProvider()
+      : createLocalAuthProvider();
+  }
+  return provider;
+}
+
+/**
+ * The signed-in user and workspace of the current request. src/proxy.ts
+ * checks the session and sets these headers before any API route runs.
+ */
+export async function getRequestIdentity(): Promise<RequestIdentity> {
+  const requestHeaders = await headers();
+  const userId = requestHeaders.get(USER_ID_HEADER);
+  const workspaceId = requestHeaders.get(WORKSPACE_ID_HEADER);
+  const accessToken = requestHeaders.get(ACCESS_TOKEN_HEADER);
+  if (!userId || !workspaceId || !accessToken) {
+    throw authError('Not signed in');
+  }
+  return { userId, workspaceId, accessToken };
+}
+
+/**
+ * Storage for the current request's workspace, attributing what it writes to
+ * the signed-in user
+ */
+export async function getWorkspaceStorage(): Promise<StorageAdapter> {
+  return getAuthProvider().getStorage(await getRequestIdentity());
+}
+
+// Members of the current request's workspace, e.g. to check an assignee
+export async function getWorkspaceMembers(): Promise<WorkspaceMember[]> {
+  return getAuthProvider().getMembers(await getRequestIdentity());
+}
+
+/**
+ * The current request's session with the user's workspaces, for routes that
+ * show or switch them
+ */
+export async function getRequestSession(): Promise<AuthSession> {
+  const identity = await getRequestIdentity();
+  const session = await getAuthProvider().getSession({ accessToken: identity.accessToken }, identity.workspaceId);
+  if (!session) throw authError('Not signed in');
+  return session;
+}
+
+// Session cookies outlive a Supabase access token so its refresh token can
+// renew it; a local session token is good for as long as the cookie
+const SESSION_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/'
+};
+
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, { ...cookieOptions, maxAge: SESSION_COOKIE_MAX_AGE });
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, { ...cookieOptions, maxAge: SESSION_COOKIE_MAX_AGE });
+  }
+}
+
+// The workspace to open next time, when the user is in more than one
+export function setWorkspaceCookie(response: NextResponse, workspaceId: string): void {
+  response.cookies.set(WORKSPACE_COOKIE, workspaceId, { ...cookieOptions, maxAge: 365 * 24 * 60 * 60 });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  for (const name of [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, WORKSPACE_COOKIE]) {
+    response.cookies.delete(name);
+  }
+}
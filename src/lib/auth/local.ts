@@ -0,0 +1,208 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { DEFAULT_WORKSPACE_ID, type DbRecord } from '@/lib/storage';
+import {
+  createLocalStorage,
+  getLocalDbPath,
+  insertRow,
+  loadLocalDatabase,
+  table,
+  updateLocalDatabase,
+  upsertRow,
+  type LocalDatabase
+} from '@/lib/storage/local';
+import type { Workspace, WorkspaceRole } from '@/types';
+import {
+  authError,
+  normalizeEmail,
+  toAuthUser,
+  toWorkspace,
+  toWorkspaceMember,
+  validateSignUp,
+  type AuthProvider,
+  type SessionTokens
+} from './types';
+
+// ============================================================================
+// LOCAL AUTH
+// ============================================================================
+//
+// Users, sessions and workspaces kept in the local JSON database next to the
+// data. Passwords are stored as scrypt hashes and session tokens only as
+// their SHA-256, so the file never holds anything that signs someone in.
+// ============================================================================
+
+const SESSION_TTL_DAYS = 30;
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `scrypt:${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: unknown): boolean {
+  const [scheme, salt, hash] = String(stored || '').split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  return timingSafeEqual(scryptSync(password, salt, expected.length), expected);
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function createLocalAuthProvider(filePath: string = getLocalDbPath()): AuthProvider {
+  function read<T>(fn: (db: LocalDatabase) => T): T {
+    return fn(loadLocalDatabase(filePath));
+  }
+
+  function write<T>(fn: (db: LocalDatabase) => T): T {
+    return updateLocalDatabase(filePath, fn);
+  }
+
+  function startSession(db: LocalDatabase, userId: string): SessionTokens {
+    const now = new Date();
+    db.sessions = table(db, 'sessions').filter(s => String(s.expires_at) > now.toISOString());
+    const token = randomBytes(32).toString('base64url');
+    insertRow(db, 'sessions', {
+      user_id: userId,
+      token_hash: hashToken(token),
+      expires_at: new Date(now.getTime() + SESSION_TTL_DAYS * 86_400_000).toISOString()
+    });
+    return { accessToken: token, expiresIn: SESSION_TTL_DAYS * 86_400 };
+  }
+
+  function findWorkspaceByCode(db: LocalDatabase, inviteCode: string): DbRecord {
+    const workspace = table(db, 'workspaces').find(w => w.invite_code === inviteCode.trim());
+    if (!workspace) throw authError('No workspace has that invite code', 404);
+    return workspace;
+  }
+
+  function addMember(db: LocalDatabase, workspaceId: string, user: DbRecord, role: WorkspaceRole): void {
+    const members = table(db, 'workspace_members');
+    if (members.some(m => m.workspace_id === workspaceId && m.user_id === user.id)) return;
+    insertRow(db, 'workspace_members', {
+      workspace_id: workspaceId,
+      user_id: user.id,
+      email: user.email,
+      name: user.name,
+      role
+    });
+  }
+
+  // The first person to sign up takes over the default workspace and the
+  // data already in it; everyone after them starts an empty one
+  function createOwnWorkspace(db: LocalDatabase, user: DbRecord): string {
+    const values = { name: `${user.name}'s workspace`, created_by: user.id };
+    const unclaimed = !table(db, 'workspace_members').some(m => m.workspace_id === DEFAULT_WORKSPACE_ID);
+    const workspace = unclaimed
+      ? upsertRow(db, 'workspaces', 'id', { id: DEFAULT_WORKSPACE_ID, ...values })
+      : insertRow(db, 'workspaces', values);
+    return workspace.id as string;
+  }
+
+  function listWorkspaces(db: LocalDatabase, userId: string): Workspace[] {
+    const workspaces = table(db, 'workspaces');
+    return table(db, 'workspace_members')
+      .filter(m => m.user_id === userId)
+      .flatMap(m => {
+        const workspace = workspaces.find(w => w.id === m.workspace_id);
+        return workspace ? [toWorkspace(workspace, m.role as WorkspaceRole)] : [];
+      });
+  }
+
+  return {
+    backend: 'local',
+
+    async signUp(input) {
+      const problem = validateSignUp(input);
+      if (problem) throw authError(problem, 400);
+      const email = normalizeEmail(input.email);
+
+      return write(db => {
+        if (table(db, 'users').some(u => u.email === email)) {
+          throw authError('An account with that email already exists', 409);
+        }
+        const invited = input.inviteCode?.trim() ? findWorkspaceByCode(db, input.inviteCode) : null;
+        const user = insertRow(db, 'users', {
+          email,
+          name: input.name.trim(),
+          password_hash: hashPassword(input.password)
+        });
+        if (invited) {
+          addMember(db, invited.id as string, user, 'member');
+        } else {
+          addMember(db, createOwnWorkspace(db, user), user, 'owner');
+        }
+        return startSession(db, user.id as string);
+      });
+    },
+
+    async signIn(email, password) {
+      return write(db => {
+        const user = table(db, 'users').find(u => u.email === normalizeEmail(email));
+        if (!user || !verifyPassword(password, user.password_hash)) {
+          throw authError('Wrong email or password');
+        }
+        return startSession(db, user.id as string);
+      });
+    },
+
+    async signOut(tokens) {
+      write(db => {
+        const tokenHash = hashToken(tokens.accessToken);
+        db.sessions = table(db, 'sessions').filter(s => s.token_hash !== tokenHash);
+      });
+    },
+
+    async getSession(tokens, workspaceId) {
+      return read(db => {
+        const tokenHash = hashToken(tokens.accessToken);
+        const session = table(db, 'sessions').find(s => s.token_hash === tokenHash);
+        if (!session || String(session.expires_at) <= new Date().toISOString()) return null;
+
+        const user = table(db, 'users').find(u => u.id === session.user_id);
+        if (!user) return null;
+
+        const workspaces = listWorkspaces(db, user.id as string);
+        const workspace = workspaces.find(w => w.id === workspaceId) || workspaces[0];
+        if (!workspace) return null;
+
+        return { user: toAuthUser(user), workspace, workspaces, tokens, refreshed: false };
+      });
+    },
+
+    async joinWorkspace(identity, inviteCode) {
+      return write(db => {
+        const workspace = findWorkspaceByCode(db, inviteCode);
+        const user = table(db, 'users').find(u => u.id === identity.userId);
+        if (!user) throw authError('Not signed in');
+        addMember(db, workspace.id as string, user, 'member');
+        return workspace.id as string;
+      });
+    },
+
+    async getMembers(identity) {
+      return read(db =>
+        table(db, 'workspace_members')
+          .filter(m => m.workspace_id === identity.workspaceId)
+          .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+          .map(toWorkspaceMember)
+      );
+    },
+
+    getStorage(identity) {
+      return createLocalStorage(filePath, { workspaceId: identity.workspaceId, userId: identity.userId });
+    },
+
+    async getWorkspaceIds() {
+      // The default workspace holds data from before anyone signed up
+      return read(db => [...new Set([
+        DEFAULT_WORKSPACE_ID,
+        ...table(db, 'workspaces').map(w => w.id as string)
+      ])]);
+    },
+
+    getWorkerStorage(workspaceId) {
+      return createLocalStorage(filePath, { workspaceId });
+    }
+  };
+}
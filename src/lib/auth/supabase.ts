@@ -0,0 +1,164 @@
+import type { Session, SupabaseClient, User } from '@supabase/supabase-js';
+import { createSupabaseClient, getSupabaseServiceClient } from '@/lib/supabase';
+import type { DbRecord } from '@/lib/storage';
+import { createSupabaseStorage } from '@/lib/storage/supabase';
+import type { Workspace, WorkspaceRole } from '@/types';
+import {
+  authError,
+  normalizeEmail,
+  toWorkspace,
+  toWorkspaceMember,
+  validateSignUp,
+  type AuthProvider,
+  type SessionTokens
+} from './types';
+
+// ============================================================================
+// SUPABASE AUTH
+// ============================================================================
+//
+// Users sign in with Supabase Auth. Each request gets a client carrying the
+// user's access token, so Postgres checks every read and write against the
+// row-level policies in src/migrations/0014_workspaces.sql; workspaces are
+// created and joined through the SECURITY DEFINER functions defined there.
+// ============================================================================
+
+function toTokens(session: Session): SessionTokens {
+  return {
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresIn: session.expires_in
+  };
+}
+
+async function loadWorkspaces(client: SupabaseClient, userId: string): Promise<Workspace[]> {
+  const { data, error } = await client
+    .from('workspace_members')
+    .select('role, workspaces (id, name, invite_code)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return ((data || []) as DbRecord[]).flatMap(row =>
+    row.workspaces ? [toWorkspace(row.workspaces as DbRecord, row.role as WorkspaceRole)] : []
+  );
+}
+
+// New users get a workspace the first time they have a session (after
+// confirming their email): the one their invite code names, else their own
+async function setUpWorkspace(client: SupabaseClient, user: User): Promise<void> {
+  const inviteCode = user.user_metadata?.invite_code as string | undefined;
+  if (inviteCode) {
+    const { error } = await client.rpc('join_workspace', { code: inviteCode });
+    if (!error) return;
+    console.error('Invite code from sign-up no longer works:', error.message);
+  }
+  const { error } = await client.rpc('create_workspace');
+  if (error) throw error;
+}
+
+export function createSupabaseAuthProvider(): AuthProvider {
+  return {
+    backend: 'supabase',
+
+    async signUp(input) {
+      const problem = validateSignUp(input);
+      if (problem) throw authError(problem, 400);
+
+      const { data, error } = await createSupabaseClient().auth.signUp({
+        email: normalizeEmail(input.email),
+        password: input.password,
+        options: { data: { name: input.name.trim(), invite_code: input.inviteCode?.trim() || undefined } }
+      });
+      if (error) throw authError(error.message, error.status === 422 ? 409 : 400);
+      if (!data.session) {
+        throw authError('Check your email to confirm your account, then sign in', 400);
+      }
+      return toTokens(data.session);
+    },
+
+    async signIn(email, password) {
+      const { data, error } = await createSupabaseClient().auth.signInWithPassword({
+        email: normalizeEmail(email),
+        password
+      });
+      if (error || !data.session) throw authError('Wrong email or password');
+      return toTokens(data.session);
+    },
+
+    async signOut(tokens) {
+      const { error } = await createSupabaseClient().auth.admin.signOut(tokens.accessToken, 'local');
+      if (error) console.error('Error signing out:', error.message);
+    },
+
+    async getSession(tokens, workspaceId) {
+      const { auth } = createSupabaseClient();
+      let current = tokens;
+      let { data: { user } } = await auth.getUser(tokens.accessToken);
+
+      // An expired access token is traded for a new one
+      if (!user && tokens.refreshToken) {
+        const { data } = await auth.refreshSession({ refresh_token: tokens.refreshToken });
+        if (!data.session) return null;
+        current = toTokens(data.session);
+        user = data.session.user;
+      }
+      if (!user) return null;
+
+      const client = createSupabaseClient(current.accessToken);
+      let workspaces = await loadWorkspaces(client, user.id);
+      if (workspaces.length === 0) {
+        await setUpWorkspace(client, user);
+        workspaces = await loadWorkspaces(client, user.id);
+      }
+      const workspace = workspaces.find(w => w.id === workspaceId) || workspaces[0];
+      if (!workspace) return null;
+
+      return {
+        user: {
+          id: user.id,
+          email: user.email || '',
+          name: (user.user_metadata?.name as string) || user.email || ''
+        },
+        workspace,
+        workspaces,
+        tokens: current,
+        refreshed: current !== tokens
+      };
+    },
+
+    async joinWorkspace(identity, inviteCode) {
+      const { data, error } = await createSupabaseClient(identity.accessToken)
+        .rpc('join_workspace', { code: inviteCode.trim() });
+      if (error) throw authError('No workspace has that invite code', 404);
+      return data as string;
+    },
+
+    async getMembers(identity) {
+      const { data, error } = await createSupabaseClient(identity.accessToken)
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', identity.workspaceId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(toWorkspaceMember);
+    },
+
+    getStorage(identity) {
+      return createSupabaseStorage(createSupabaseClient(identity.accessToken), {
+        workspaceId: identity.workspaceId,
+        userId: identity.userId
+      });
+    },
+
+    async getWorkspaceIds() {
+      const { data, error } = await getSupabaseServiceClient().from('workspaces').select('id');
+      if (error) throw error;
+      return (data || []).map(row => row.id as string);
+    },
+
+    getWorkerStorage(workspaceId) {
+      return createSupabaseStorage(getSupabaseServiceClient(), { workspaceId });
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import type { DbRecord, StorageAdapter, StorageBackend } from '@/lib/storage';
+import type { AuthUser, Workspace, WorkspaceMember, WorkspaceRole } from '@/types';
+
+// Cookies holding the session (set by the /api/auth routes and src/proxy.ts)
+export const ACCESS_TOKEN_COOKIE = 'outreach_access_token';
+export const REFRESH_TOKEN_COOKIE = 'outreach_refresh_token';
+export const WORKSPACE_COOKIE = 'outreach_workspace';
+
+// Request headers src/proxy.ts sets for route handlers once the session
+// checks out. Incoming copies are always dropped so they can't be forged.
+export const USER_ID_HEADER = 'x-outreach-user-id';
+export const WORKSPACE_ID_HEADER = 'x-outreach-workspace-id';
+export const ACCESS_TOKEN_HEADER = 'x-outreach-access-token';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;  // Supabase only: trades for a new access token
+  expiresIn?: number;     // Seconds until the access token expires
+}
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  name: string;
+  inviteCode?: string;    // Join this workspace instead of starting one
+}
+
+// A checked session in the workspace it's working in
+export interface AuthSession {
+  user: AuthUser;
+  workspace: Workspace;
+  workspaces: Workspace[];
+  tokens: SessionTokens;
+  refreshed: boolean;     // tokens are new and the cookies need updating
+}
+
+// Who a route handler acts for, from the headers src/proxy.ts sets
+export interface RequestIdentity {
+  userId: string;
+  workspaceId: string;
+  accessToken: string;
+}
+
+/**
+ * Sign-in and workspace membership for one storage backend. The local
+ * provider keeps users in the local JSON database; the Supabase provider
+ * uses Supabase Auth, and row-level policies enforce the workspace.
+ */
+export interface AuthProvider {
+  readonly backend: StorageBackend;
+
+  signUp(input: SignUpInput): Promise<SessionTokens>;
+  signIn(email: string, password: string): Promise<SessionTokens>;
+  signOut(tokens: SessionTokens): Promise<void>;
+  // null when the tokens are expired or unknown. Uses workspaceId when the
+  // user is a member of it, else their first workspace.
+  getSession(tokens: SessionTokens, workspaceId?: string): Promise<AuthSession | null>;
+
+  // Join the workspace with this invite code; returns its id
+  joinWorkspace(identity: RequestIdentity, inviteCode: string): Promise<string>;
+  getMembers(identity: RequestIdentity): Promise<WorkspaceMember[]>;
+
+  // Storage scoped to the identity's workspace, attributing writes to them
+  getStorage(identity: RequestIdentity): StorageAdapter;
+
+  // For the job worker, which runs without a signed-in user
+  getWorkspaceIds(): Promise<string[]>;
+  getWorkerStorage(workspaceId: string): StorageAdapter;
+}
+
+type AuthFailure = Error & { status?: number };
+
+/**
+ * A sign-in or membership failure to show the user, with the HTTP status the
+ * route should answer with
+ */
+export function authError(message: string, status = 401): Error {
+  const error: AuthFailure = new Error(message);
+  error.status = status;
+  return error;
+}
+
+// The status of an authError, or null for anything else
+export function getAuthErrorStatus(error: unknown): number | null {
+  return error instanceof Error ? (error as AuthFailure).status ?? null : null;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Why a sign-up can't go ahead, or null when it can
+ */
+export function validateSignUp(input: Partial<SignUpInput>): string | null {
+  if (!input.email || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(input.email.trim())) {
+    return 'A valid email is required';
+  }
+  if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!input.name?.trim()) {
+    return 'Name is required';
+  }
+  return null;
+}
+
+// Rows of the workspaces and workspace_members tables, shared by both providers
+
+export function toWorkspace(row: DbRecord, role: WorkspaceRole): Workspace {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    role,
+    // Only owners hand out the invite code
+    inviteCode: role === 'owner' ? row.invite_code as string : undefined
+  };
+}
+
+export function toWorkspaceMember(row: DbRecord): WorkspaceMember {
+  return {
+    userId: row.user_id as string,
+    email: row.email as string,
+    name: (row.name as string) || (row.email as string),
+    role: row.role as WorkspaceRole,
+    joinedAt: row.created_at as string
+  };
+}
+
+export function toAuthUser(row: DbRecord): AuthUser {
+  return {
+    id: row.id as string,
+    email: row.email as string,
+    name: (row.name as string) || (row.email as string)
+  };
+}
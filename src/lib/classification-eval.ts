@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMProvider } from '@/lib/llm';
+import { CLASSIFICATION_GUIDE, RESPONSE_CLASSIFICATIONS, classifyResponse } from '@/lib/response-generator';
+import type {
+  ClassificationEvalCase,
+  ClassificationEvalComparison,
+  ClassificationEvalReport,
+  ClassificationEvalResult,
+  ClassificationScore,
+  ConversationMessage,
+  ResponseClassification,
+  ResponseInteraction
+} from '@/types';
+
+// ============================================================================
+// CLASSIFICATION EVAL
+// ============================================================================
+//
+// Scores the reply classifier against a labeled dataset of real replies
+// (evals/classification/dataset.json). Replies whose classification was
+// corrected in the response generator are the best source of labels, so the
+// dataset is seeded from overridden response_interactions.
+//
+// A run classifies every case with one provider and classification guide
+// and reports accuracy, precision/recall per classification and a confusion
+// matrix. Reports are saved by label so a new guide or model can be
+// compared against a baseline case by case.
+//
+// Server-only: reads and writes the dataset, recordings and reports on disk.
+// ============================================================================
+
+export const EVAL_DIR = path.join(process.cwd(), 'evals', 'classification');
+export const EVAL_DATASET_PATH = path.join(EVAL_DIR, 'dataset.json');
+export const EVAL_RECORDINGS_DIR = path.join(EVAL_DIR, 'recordings');
+export const EVAL_REPORTS_DIR = path.join(EVAL_DIR, 'reports');
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const percent = (part: number, whole: number) => (whole > 0 ? round1((part / whole) * 100) : null);
+
+export function loadEvalDataset(filePath: string = EVAL_DATASET_PATH): ClassificationEvalCase[] {
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : [];
+}
+
+export function saveEvalDataset(cases: ClassificationEvalCase[], filePath: string = EVAL_DATASET_PATH): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cases, null, 2) + '\n');
+}
+
+/**
+ * Version of a classification guide: a hash of its text, so editing the
+ * guide starts a new version
+ */
+export function getClassificationPromptVersion(guide: string = CLASSIFICATION_GUIDE): string {
+  const hash = createHash('sha256').update(guide).digest('hex').slice(0, 8);
+  return `classification-guide@${hash}`;
+}
+
+function normalizeReply(reply: string): string {
+  return reply.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Add overridden interactions to the dataset, labeled with the classification
+ * a person chose. `threads` holds each prospect's conversation so a case keeps
+ * the turns before the reply. Replies already in the dataset are skipped.
+ */
+export function seedEvalCases(
+  existing: ClassificationEvalCase[],
+  interactions: ResponseInteraction[],
+  threads: Map<string, ConversationMessage[]> = new Map(),
+  prospectNames: Map<string, string> = new Map()
+): { cases: ClassificationEvalCase[]; added: ClassificationEvalCase[] } {
+  const ids = new Set(existing.map(c => c.id));
+  const replies = new Set(existing.map(c => normalizeReply(c.reply)));
+  const added: ClassificationEvalCase[] = [];
+
+  const overridden = interactions
+    .filter(i => i.classificationOverridden && i.prospectResponse?.trim())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const interaction of overridden) {
+    const id = `interaction-${interaction.id}`;
+    const reply = normalizeReply(interaction.prospectResponse);
+    if (ids.has(id) || replies.has(reply)) continue;
+
+    const thread = (threads.get(interaction.prospectId) || [])
+      .filter(t => t.sentAt < interaction.createdAt)
+      .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+      .map(({ direction, content, sentAt, classification }) => ({ direction, content, sentAt, classification }));
+
+    const evalCase: ClassificationEvalCase = {
+      id,
+      reply: interaction.prospectResponse.trim(),
+      expected: interaction.classification,
+      source: 'override',
+      prospectName: prospectNames.get(interaction.prospectId),
+      thread: thread.length > 0 ? thread : undefined,
+      note: interaction.originalClassification ? `Classifier said ${interaction.originalClassification}` : undefined
+    };
+    added.push(evalCase);
+    ids.add(id);
+    replies.add(reply);
+  }
+
+  return { cases: [...existing, ...added], added };
+}
+
+// A case's earlier turns in the shape the classifier takes
+function toThread(evalCase: ClassificationEvalCase): ConversationMessage[] {
+  return (evalCase.thread || []).map((turn, index) => ({
+    ...turn,
+    id: `${evalCase.id}-turn-${index}`,
+    prospectId: evalCase.id,
+    source: turn.direction === 'inbound' ? 'response' : 'outreach',
+    createdAt: turn.sentAt
+  }));
+}
+
+/**
+ * Accuracy, per-classification precision/recall and the confusion matrix
+ */
+export function scoreClassificationResults(
+  results: ClassificationEvalResult[]
+): Pick<ClassificationEvalReport, 'total' | 'correct' | 'accuracy' | 'perClass' | 'confusion'> {
+  const perClass = {} as Record<ResponseClassification, ClassificationScore>;
+  const confusion = {} as ClassificationEvalReport['confusion'];
+
+  for (const classification of RESPONSE_CLASSIFICATIONS) {
+    const labeled = results.filter(r => r.expected === classification);
+    const predicted = results.filter(r => r.predicted === classification);
+    const correct = labeled.filter(r => r.predicted === classification).length;
+    perClass[classification] = {
+      support: labeled.length,
+      predicted: predicted.length,
+      correct,
+      precision: percent(correct, predicted.length),
+      recall: percent(correct, labeled.length)
+    };
+
+    const row: Partial<Record<ResponseClassification | 'error', number>> = {};
+    for (const result of labeled) {
+      const key = result.predicted || 'error';
+      row[key] = (row[key] || 0) + 1;
+    }
+    confusion[classification] = row;
+  }
+
+  const correct = results.filter(r => r.predicted === r.expected).length;
+  return {
+    total: results.length,
+    correct,
+    accuracy: percent(correct, results.length) ?? 0,
+    perClass,
+    confusion
+  };
+}
+
+/**
+ * Classify every case with one provider and guide, one call at a time
+ */
+export async function runClassificationEval(
+  cases: ClassificationEvalCase[],
+  provider: LLMProvider,
+  options: { label: string; guide?: string; now?: Date }
+): Promise<ClassificationEvalReport> {
+  const guide = options.guide ?? CLASSIFICATION_GUIDE;
+  const results: ClassificationEvalResult[] = [];
+
+  for (const evalCase of cases) {
+    const prospect = { firstName: evalCase.prospectName?.split(' ')[0], fullName: evalCase.prospectName };
+    try {
+      const { classification, confidence } = await classifyResponse(
+        prospect,
+        evalCase.reply,
+        provider,
+        toThread(evalCase),
+        guide
+      );
+      const known = RESPONSE_CLASSIFICATIONS.includes(classification);
+      results.push({
+        caseId: evalCase.id,
+        expected: evalCase.expected,
+        predicted: known ? classification : null,
+        confidence,
+        error: known ? undefined : `Unknown classification "${classification}"`
+      });
+    } catch (error) {
+      results.push({ caseId: evalCase.id, expected: evalCase.expected, predicted: null, error: String(error) });
+    }
+  }
+
+  return {
+    label: options.label,
+    provider: provider.name,
+    model: provider.settings.classification.model,
+    promptVersion: getClassificationPromptVersion(guide),
+    runAt: (options.now || new Date()).toISOString(),
+    ...scoreClassificationResults(results),
+    results
+  };
+}
+
+/**
+ * What changed between two runs over the same cases
+ */
+export function compareClassificationEvals(
+  baseline: ClassificationEvalReport,
+  candidate: ClassificationEvalReport
+): ClassificationEvalComparison {
+  const baselineById = new Map(baseline.results.map(r => [r.caseId, r]));
+  const fixed: string[] = [];
+  const regressed: string[] = [];
+
+  for (const result of candidate.results) {
+    const before = baselineById.get(result.caseId);
+    if (!before) continue;
+    const wasRight = before.predicted === before.expected;
+    const isRight = result.predicted === result.expected;
+    if (isRight && !wasRight) fixed.push(result.caseId);
+    if (wasRight && !isRight) regressed.push(result.caseId);
+  }
+
+  const recallDelta: ClassificationEvalComparison['recallDelta'] = {};
+  for (const classification of RESPONSE_CLASSIFICATIONS) {
+    const before = baseline.perClass[classification]?.recall;
+    const after = candidate.perClass[classification]?.recall;
+    if (before !== null && after !== null && before !== undefined && after !== undefined && before !== after) {
+      recallDelta[classification] = round1(after - before);
+    }
+  }
+
+  return {
+    baseline: baseline.label,
+    candidate: candidate.label,
+    accuracyDelta: round1(candidate.accuracy - baseline.accuracy),
+    recallDelta,
+    fixed,
+    regressed
+  };
+}
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${value}%`);
+
+/**
+ * Report as plain text for the terminal: summary, per-classification scores
+ * and the confusion matrix (rows are labels, columns are predictions)
+ */
+export function formatEvalReport(report: ClassificationEvalReport): string {
+  const width = Math.max(...RESPONSE_CLASSIFICATIONS.map(c => c.length));
+  const lines = [
+    `${report.label}: ${report.provider} / ${report.model} / ${report.promptVersion}`,
+    `Accuracy ${report.accuracy}% (${report.correct}/${report.total})`,
+    '',
+    `${'classification'.padEnd(width)}  support  precision  recall`
+  ];
+
+  for (const classification of RESPONSE_CLASSIFICATIONS) {
+    const score = report.perClass[classification];
+    lines.push(
+      `${classification.padEnd(width)}  ${String(score.support).padStart(7)}  ${formatPercent(score.precision).padStart(9)}  ${formatPercent(score.recall).padStart(6)}`
+    );
+  }
+
+  const columns = [...RESPONSE_CLASSIFICATIONS.map((_, index) => String(index + 1)), 'err'];
+  lines.push('', 'Confusion matrix (columns: predicted, numbered as the rows)');
+  lines.push(`${''.padEnd(width + 4)}${columns.map(c => c.padStart(4)).join('')}`);
+  RESPONSE_CLASSIFICATIONS.forEach((classification, index) => {
+    const row = report.confusion[classification];
+    const cells = [...RESPONSE_CLASSIFICATIONS, 'error' as const].map(p => String(row[p] || '.').padStart(4));
+    lines.push(`${String(index + 1).padStart(2)}. ${classification.padEnd(width)}${cells.join('')}`);
+  });
+
+  const misses = report.results.filter(r => r.predicted !== r.expected);
+  if (misses.length > 0) {
+    lines.push('', 'Misclassified');
+    for (const miss of misses) {
+      lines.push(`  ${miss.caseId}: expected ${miss.expected}, got ${miss.predicted || `error (${miss.error})`}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatEvalComparison(comparison: ClassificationEvalComparison): string {
+  const sign = (value: number) => (value > 0 ? `+${value}` : String(value));
+  const lines = [
+    `${comparison.candidate} vs ${comparison.baseline}: accuracy ${sign(comparison.accuracyDelta)} points`
+  ];
+
+  for (const [classification, delta] of Object.entries(comparison.recallDelta)) {
+    lines.push(`  recall ${classification}: ${sign(delta)} points`);
+  }
+  lines.push(`Fixed (${comparison.fixed.length}): ${comparison.fixed.join(', ') || 'none'}`);
+  lines.push(`Regressed (${comparison.regressed.length}): ${comparison.regressed.join(', ') || 'none'}`);
+  return lines.join('\n');
+}
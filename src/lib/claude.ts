@@ -1,11 +1,22 @@
-import OpenAI from 'openai';
-import * as fs from 'fs';
-import * as path from 'path';
-import type { Prospect, MessageType } from '@/types';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || ''
-});
+import { getDoNotContactMessage, isDoNotContact } from '@/lib/do-not-contact';
+import { getLLMProvider, parseJSONContent, type LLMMessage, type LLMProvider } from '@/lib/llm';
+import {
+  checkMessageRules,
+  MESSAGE_MAX_LENGTHS,
+  OUTREACH_MESSAGE_TYPES,
+  repairOutreachMessages,
+  validateOutreachMessages,
+  type OutreachMessages
+} from '@/lib/message-rules';
+import { loadPromptVariant, pickPromptVariant, PROMPT_VARIANTS } from '@/lib/prompts';
+import type {
+  Prospect,
+  MessageType,
+  MessageRuleWarning,
+  OutreachMessageType,
+  PromptSelection,
+  PromptVariant
+} from '@/types';
 
 // Track types based on the skill file
 export type MessageTrack =
@@ -34,11 +45,11 @@ const CONSULTANT_SIGNALS = [
 export interface MessageGenerationResult {
   track: MessageTrack;
   personalization_hook: string;
-  messages: {
-    connection_request: string;
-    opening_dm: string;
-    follow_up: string;
-  };
+  messages: Partial<OutreachMessages>; // The requested message types (all three by default)
+  warnings: MessageRuleWarning[];      // Writing rules the messages break
+  attempts: number;                    // Model calls needed to get valid output
+  model: string;
+  prompts: Partial<Record<OutreachMessageType, PromptSelection>>; // Variant that wrote each message
 }
 
 export interface SkippedResult {
@@ -78,6 +89,11 @@ function hasFreelancerSignals(prospect: Partial<Prospect>): { hasSignals: boolea
  * Validate if a prospect qualifies for message generation
  */
 export function validateProspectForGeneration(prospect: Partial<Prospect>): { valid: boolean; reason?: string; freelancerType?: 'influencer' | 'consultant' } {
+  // Never write to someone who asked not to be contacted
+  if (isDoNotContact(prospect)) {
+    return { valid: false, reason: getDoNotContactMessage(prospect) };
+  }
+
   // Check required fields
   if (!prospect.fullName) {
     return { valid: false, reason: 'Missing full_name - required for personalization' };
@@ -265,20 +281,6 @@ function extractPersonalizationHook(prospect: Partial<Prospect>): string {
   return `your work at ${prospect.companyName || 'your company'}`;
 }
 
-/**
- * Load the skill file for system prompt
- */
-function loadSkillFile(): string {
-  try {
-    const skillPath = path.join(process.cwd(), 'src', 'prompts', 'isaac-linkedin-outreach.md');
-    return fs.readFileSync(skillPath, 'utf-8');
-  } catch (error) {
-    console.error('Error loading skill file:', error);
-    // Return a minimal fallback
-    return 'Generate personalized LinkedIn outreach messages following Isaac Stern\'s voice.';
-  }
-}
-
 function buildProspectContext(prospect: Partial<Prospect>): string {
   const parts: string[] = [];
 
@@ -346,10 +348,16 @@ function buildProspectContext(prospect: Partial<Prospect>): string {
 }
 
 /**
- * Generate all messages for a prospect using the skill file approach
+ * Generate messages for a prospect using the skill file approach. All three
+ * message types by default; pass `messageTypes` to regenerate only some.
+ * Each type is written by the prompt variant picked for this prospect
+ * (src/lib/prompts.ts); types sharing a variant share one model call.
  */
 export async function generateMessagesWithSkill(
-  prospect: Partial<Prospect>
+  prospect: Partial<Prospect>,
+  provider: LLMProvider = getLLMProvider(),
+  messageTypes: OutreachMessageType[] = OUTREACH_MESSAGE_TYPES,
+  variants: PromptVariant[] = PROMPT_VARIANTS
 ): Promise<GenerationResult> {
   // Validate prospect first
   const validation = validateProspectForGeneration(prospect);
@@ -366,25 +374,71 @@ export async function generateMessagesWithSkill(
   // Extract personalization hook
   const personalization_hook = extractPersonalizationHook(prospect);
 
-  // Load skill file as system prompt
-  const skillPrompt = loadSkillFile();
-
   // Build prospect context
   const prospectContext = buildProspectContext(prospect);
 
-  // Generate messages using OpenAI
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    max_tokens: 1500,
-    temperature: 0.7,
-    messages: [
-      {
-        role: 'system',
-        content: skillPrompt
-      },
-      {
-        role: 'user',
-        content: `Generate all three message types (connection_request, opening_dm, follow_up) for this prospect.
+  // Group the requested types by the variant that writes them
+  const groups = new Map<string, { variant: PromptVariant; types: OutreachMessageType[] }>();
+  for (const type of OUTREACH_MESSAGE_TYPES.filter(t => messageTypes.includes(t))) {
+    const variant = pickPromptVariant(type, prospect.id, variants);
+    const group = groups.get(variant.id) || { variant, types: [] };
+    group.types.push(type);
+    groups.set(variant.id, group);
+  }
+
+  const messages: Partial<OutreachMessages> = {};
+  const prompts: Partial<Record<OutreachMessageType, PromptSelection>> = {};
+  let attempts = 0;
+
+  for (const { variant, types } of Array.from(groups.values())) {
+    // The variant's prompt file is the system prompt
+    const { content: systemPrompt, selection } = loadPromptVariant(variant);
+    const result = await requestOutreachMessages(
+      provider,
+      types,
+      buildOutreachRequest(systemPrompt, types, track, personalization_hook, prospectContext)
+    );
+    Object.assign(messages, result.messages);
+    attempts += result.attempts;
+    for (const type of types) {
+      prompts[type] = selection;
+    }
+  }
+
+  return {
+    track,
+    personalization_hook,
+    messages,
+    warnings: checkMessageRules(messages),
+    attempts,
+    model: provider.settings.messages.model,
+    prompts
+  };
+}
+
+/**
+ * Prompt for the given message types. Only the requested types appear in the
+ * instructions and output format.
+ */
+function buildOutreachRequest(
+  systemPrompt: string,
+  types: OutreachMessageType[],
+  track: MessageTrack,
+  personalization_hook: string,
+  prospectContext: string
+): LLMMessage[] {
+  const typeList = types.join(', ');
+  const outputFormat = types.map(type => `  "${type}": "the message text here"`).join(',\n');
+  const lengthRules = types.map(type => `- ${type}: Max ${MESSAGE_MAX_LENGTHS[type]} characters`).join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: systemPrompt
+    },
+    {
+      role: 'user',
+      content: `Generate ${types.length === OUTREACH_MESSAGE_TYPES.length ? 'all three message types' : 'only these message types'} (${typeList}) for this prospect.
 
 ## Assigned Track: ${track}
 
@@ -397,59 +451,65 @@ ${prospectContext}
 ## Output Format
 Return ONLY a JSON object with this exact structure, no markdown code blocks:
 {
-  "connection_request": "the message text here",
-  "opening_dm": "the message text here",
-  "follow_up": "the message text here"
+${outputFormat}
 }
 
 Remember:
-- connection_request: Max 300 characters
-- opening_dm: Max 800 characters
-- follow_up: Max 400 characters
+${lengthRules}
 - NO em-dashes, NO exclamation points, NO emojis
 - End statements with periods (opening_dm should not end with a question)
 - All messages end with "Isaac" on its own line`
-      }
-    ]
-  });
+    }
+  ];
+}
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response from OpenAI');
-  }
+// Model calls per prospect before giving up on malformed output
+const MAX_GENERATION_ATTEMPTS = 3;
 
-  // Parse the JSON response
-  let messages: { connection_request: string; opening_dm: string; follow_up: string };
-  try {
-    // Clean up potential markdown code blocks
-    let cleanContent = content.trim();
-    if (cleanContent.startsWith('```json')) {
-      cleanContent = cleanContent.slice(7);
-    }
-    if (cleanContent.startsWith('```')) {
-      cleanContent = cleanContent.slice(3);
-    }
-    if (cleanContent.endsWith('```')) {
-      cleanContent = cleanContent.slice(0, -3);
+/**
+ * Ask for the requested messages until the output matches the schema. Near
+ * misses are repaired locally; anything else is sent back to the model with
+ * the validation errors.
+ */
+async function requestOutreachMessages(
+  provider: LLMProvider,
+  messageTypes: OutreachMessageType[],
+  prompt: LLMMessage[]
+): Promise<{ messages: Partial<OutreachMessages>; attempts: number }> {
+  const conversation = [...prompt];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const { content } = await provider.complete({ task: 'messages', messages: conversation, json: true });
+
+    try {
+      const validation = validateOutreachMessages(repairOutreachMessages(parseJSONContent(content)), messageTypes);
+      if (validation.messages) {
+        return { messages: validation.messages, attempts: attempt };
+      }
+      errors = validation.errors;
+    } catch {
+      errors = ['output was not valid JSON'];
     }
-    messages = JSON.parse(cleanContent.trim());
-  } catch (parseError) {
-    console.error('Failed to parse OpenAI response as JSON:', content);
-    throw new Error('Failed to parse message generation response');
+
+    console.warn(`Message generation attempt ${attempt} returned invalid output: ${errors.join('; ')}`);
+    conversation.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `That output did not match the required format:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Return ONLY the JSON object with ${messageTypes.map(type => `"${type}"`).join(', ')} as non-empty strings.`
+      }
+    );
   }
 
-  return {
-    track,
-    personalization_hook,
-    messages
-  };
+  throw new Error(`Message generation returned invalid output after ${MAX_GENERATION_ATTEMPTS} attempts: ${errors.join('; ')}`);
 }
 
 // ===== LEGACY FUNCTIONS (kept for backwards compatibility with comments feature) =====
 
-// Import from deprecated voice-profile for comment generation
-import { buildMessagePrompt, COMMENT_PROMPT } from './voice-profile';
-
 // Banned phrases for comment validation
 const COMMENT_BANNED_PHRASES = [
   'truscope golf', 'legacy seller', 'parcelis',
@@ -490,8 +550,13 @@ export interface CommentOptions {
 
 export async function generateComments(
   prospect: Partial<Prospect>,
-  postContent: string
+  postContent: string,
+  provider: LLMProvider = getLLMProvider()
 ): Promise<CommentOptions> {
+  if (isDoNotContact(prospect)) {
+    throw new Error(getDoNotContactMessage(prospect));
+  }
+
   const prospectContext = buildProspectContext(prospect);
 
   // Truncate post content to avoid overly long prompts
@@ -499,17 +564,21 @@ export async function generateComments(
     ? postContent.substring(0, 800) + '...'
     : postContent;
 
-  const prompt = `${buildMessagePrompt('comment', prospectContext)}
+  const { content: commentPrompt } = loadPromptVariant(pickPromptVariant('comment', prospect.id));
+  const prompt = `${commentPrompt}
+
+## Prospect Context
+${prospectContext}
+
+Generate the message now:
 
 ## Post to Comment On
 ${truncatedPost}
 
 Generate 3 comment options now (separated by ---):`;
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o',
-    max_tokens: 500,
-    temperature: 0.8,
+  const { content } = await provider.complete({
+    task: 'comments',
     messages: [
       {
         role: 'system',
@@ -528,11 +597,6 @@ Return 3 comments separated by ---`
     ]
   });
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response from OpenAI');
-  }
-
   // Parse the 3 options
   const parts = content.split('---').map(p => {
     let cleaned = p.trim();
@@ -594,57 +658,8 @@ export async function generateAllMessages(
   }
 
   return {
-    connectionRequest: result.messages.connection_request,
-    followUp1: result.messages.opening_dm,
-    followUp2: result.messages.follow_up
+    connectionRequest: result.messages.connection_request ?? '',
+    followUp1: result.messages.opening_dm ?? '',
+    followUp2: result.messages.follow_up ?? ''
   };
 }
-
-// Batch generate messages for multiple prospects
-export async function batchGenerateMessages(
-  prospects: Partial<Prospect>[],
-  onProgress?: (completed: number, total: number) => void
-): Promise<Map<string, { connectionRequest: string; followUp1: string; followUp2: string }>> {
-  const results = new Map<string, { connectionRequest: string; followUp1: string; followUp2: string }>();
-
-  // Process in batches of 5 to avoid rate limits
-  const batchSize = 5;
-  let completed = 0;
-
-  for (let i = 0; i < prospects.length; i += batchSize) {
-    const batch = prospects.slice(i, i + batchSize);
-
-    const batchResults = await Promise.all(
-      batch.map(async (prospect) => {
-        try {
-          const messages = await generateAllMessages(prospect);
-          return { linkedinUrl: prospect.linkedinUrl!, messages };
-        } catch (error) {
-          console.error(`Error generating messages for ${prospect.fullName}:`, error);
-          return {
-            linkedinUrl: prospect.linkedinUrl!,
-            messages: {
-              connectionRequest: '',
-              followUp1: '',
-              followUp2: ''
-            }
-          };
-        }
-      })
-    );
-
-    for (const result of batchResults) {
-      results.set(result.linkedinUrl, result.messages);
-    }
-
-    completed += batch.length;
-    onProgress?.(completed, prospects.length);
-
-    // Small delay between batches to respect rate limits
-    if (i + batchSize < prospects.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
-  }
-
-  return results;
-}
@@ -0,0 +1,66 @@
+import type { ConversationMessage } from '@/types';
+
+// ============================================================================
+// CONVERSATION THREADS
+// ============================================================================
+//
+// Each prospect has one thread of inbound and outbound messages
+// (conversation_messages). Outreach marked sent, replies logged from the
+// response generator and the option chosen for each, and turns added by hand
+// all land in it. The response generator sends the whole thread to the model
+// so a reply is classified and answered in context, and each inbound turn
+// keeps its classification so sentiment can be followed over time.
+//
+// Browser-safe: used by the API routes, the response generator and its UI.
+// ============================================================================
+
+/**
+ * Thread in the order it happened
+ */
+export function sortThread(thread: ConversationMessage[]): ConversationMessage[] {
+  return [...thread].sort((a, b) => a.sentAt.localeCompare(b.sentAt) || a.createdAt.localeCompare(b.createdAt));
+}
+
+function isSameText(a: string, b: string): boolean {
+  return a.trim() === b.trim();
+}
+
+/**
+ * Turns already logged for a reply: the inbound turn holding it, when it is
+ * the latest inbound turn, and the chosen response that followed it.
+ * Logging the same reply again updates these instead of adding turns.
+ */
+export function findLoggedReply(
+  thread: ConversationMessage[],
+  reply: string
+): { inbound?: ConversationMessage; response?: ConversationMessage } {
+  const sorted = sortThread(thread);
+  const inboundIndex = sorted.findLastIndex(t => t.direction === 'inbound');
+  if (inboundIndex === -1 || !isSameText(sorted[inboundIndex].content, reply)) return {};
+
+  const response = sorted.slice(inboundIndex + 1).find(t => t.direction === 'outbound' && t.source === 'response');
+  return { inbound: sorted[inboundIndex], response };
+}
+
+/**
+ * Earlier turns to give the model as context for a reply, leaving out the
+ * reply itself if it was already logged
+ */
+export function getThreadContext(thread: ConversationMessage[], reply: string): ConversationMessage[] {
+  const { inbound } = findLoggedReply(thread, reply);
+  const sorted = sortThread(thread);
+  return inbound ? sorted.slice(0, sorted.indexOf(inbound)) : sorted;
+}
+
+/**
+ * Thread as a transcript for prompts, with the classification of each earlier reply
+ */
+export function formatThreadForPrompt(thread: ConversationMessage[], prospectName: string): string {
+  return sortThread(thread)
+    .map(turn => {
+      const speaker = turn.direction === 'inbound' ? prospectName : 'Isaac';
+      const classification = turn.classification ? ` (classified: ${turn.classification})` : '';
+      return `[${turn.sentAt.slice(0, 10)}] ${speaker}${classification}: "${turn.content.trim()}"`;
+    })
+    .join('\n');
+}
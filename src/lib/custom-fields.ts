@@ -0,0 +1,380 @@
+import type {
+  CustomFieldDefinition,
+  CustomFieldFilter,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+  Prospect
+} from '@/types';
+
+// ============================================================================
+// TAGS AND CUSTOM FIELDS
+// ============================================================================
+//
+// Tags are free-form labels on a prospect, compared case-insensitively.
+// Custom fields are typed values a workspace defines (custom_fields table)
+// and stores on each prospect keyed by field id (prospects.custom_fields).
+// Values are checked and normalized here wherever they come in: the detail
+// view, bulk edits from selection mode and mapped import columns.
+//
+// Browser-safe.
+// ============================================================================
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select'];
+
+export const MAX_TAG_LENGTH = 50;
+const MAX_LABEL_LENGTH = 60;
+
+// Separators accepted when a spreadsheet cell holds several tags
+const TAG_SEPARATOR = /[,;|]/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============ Tags ============
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Tags without blanks or repeats. The first spelling of a tag is kept, so
+ * "VIP" and "vip" are one tag.
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    if (typeof raw !== 'string') continue;
+    const tag = normalizeTag(raw);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result;
+}
+
+export function parseTagList(text: string): string[] {
+  return normalizeTags(text.split(TAG_SEPARATOR));
+}
+
+export function hasTag(tags: string[] | undefined, tag: string): boolean {
+  const wanted = tag.toLowerCase();
+  return (tags || []).some(t => t.toLowerCase() === wanted);
+}
+
+export function applyTagChanges(tags: string[] | undefined, add: string[], remove: string[]): string[] {
+  return normalizeTags([...(tags || []), ...add]).filter(tag => !hasTag(remove, tag));
+}
+
+/**
+ * Every tag in use, alphabetically, for filter and bulk-edit menus
+ */
+export function collectTags(prospects: Array<Pick<Prospect, 'tags'>>): string[] {
+  return normalizeTags(prospects.flatMap(p => p.tags || []))
+    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
+
+// ============ Field definitions ============
+
+export interface CustomFieldValidation {
+  field?: Omit<CustomFieldDefinition, 'id' | 'createdAt'>;
+  errors: string[];
+}
+
+/**
+ * Validate an untrusted field definition (label, type, options)
+ */
+export function validateCustomFieldDefinition(input: unknown): CustomFieldValidation {
+  if (!isRecord(input)) {
+    return { errors: ['Custom field must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const label = typeof input.label === 'string' ? input.label.trim() : '';
+  if (!label) {
+    errors.push('label is required');
+  } else if (label.length > MAX_LABEL_LENGTH) {
+    errors.push(`label must be at most ${MAX_LABEL_LENGTH} characters`);
+  }
+
+  const type = input.type as CustomFieldType;
+  if (!CUSTOM_FIELD_TYPES.includes(type)) {
+    errors.push(`type must be one of ${CUSTOM_FIELD_TYPES.join(', ')}`);
+  }
+
+  const options = type === 'select' ? normalizeTags(input.options) : [];
+  if (type === 'select' && options.length === 0) {
+    errors.push('a select field needs at least one option');
+  }
+
+  if (errors.length > 0) return { errors };
+  return { field: { label, type, options }, errors };
+}
+
+// ============ Values ============
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// Excel stores dates as days since 1899-12-30
+function excelSerialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400000));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function parseDate(raw: unknown): string | null {
+  if (typeof raw === 'number') {
+    return raw > 0 && raw < 2958466 ? excelSerialToDate(raw) : null;
+  }
+  const text = String(raw).trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return date.getUTCDate() === Number(iso[3]) ? iso.slice(1).join('-') : null;
+  }
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+export type CoercedValue =
+  | { ok: true; value: CustomFieldValue | null }  // null clears the field
+  | { ok: false; error: string };
+
+/**
+ * Turn raw input (a form value, JSON or a spreadsheet cell) into the stored
+ * value for a field. Blank input clears the field.
+ */
+export function coerceCustomFieldValue(field: CustomFieldDefinition, raw: unknown): CoercedValue {
+  if (raw === null || raw === undefined || String(raw).trim() === '') {
+    return { ok: true, value: null };
+  }
+
+  switch (field.type) {
+    case 'text':
+      return { ok: true, value: String(raw).trim() };
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim().replace(/[,\s]/g, ''));
+      return Number.isFinite(value)
+        ? { ok: true, value }
+        : { ok: false, error: `${field.label} must be a number` };
+    }
+    case 'date': {
+      const value = parseDate(raw);
+      return value
+        ? { ok: true, value }
+        : { ok: false, error: `${field.label} must be a date` };
+    }
+    case 'select': {
+      const option = field.options.find(o => o.toLowerCase() === String(raw).trim().toLowerCase());
+      return option
+        ? { ok: true, value: option }
+        : { ok: false, error: `${field.label} must be one of ${field.options.join(', ')}` };
+    }
+  }
+}
+
+/**
+ * Check a set of changes keyed by field id. Unknown fields and values that
+ * don't fit their field are reported; null clears a field.
+ */
+export function validateCustomFieldChanges(
+  changes: unknown,
+  fields: CustomFieldDefinition[]
+): { changes?: Record<string, CustomFieldValue | null>; errors: string[] } {
+  if (!isRecord(changes) || Object.keys(changes).length === 0) {
+    return { errors: ['No field values provided'] };
+  }
+
+  const errors: string[] = [];
+  const result: Record<string, CustomFieldValue | null> = {};
+  for (const [fieldId, raw] of Object.entries(changes)) {
+    const field = fields.find(f => f.id === fieldId);
+    if (!field) {
+      errors.push(`Unknown custom field: ${fieldId}`);
+      continue;
+    }
+    const coerced = coerceCustomFieldValue(field, raw);
+    if (coerced.ok) {
+      result[fieldId] = coerced.value;
+    } else {
+      errors.push(coerced.error);
+    }
+  }
+  return errors.length > 0 ? { errors } : { changes: result, errors };
+}
+
+export function applyCustomFieldChanges(
+  values: CustomFieldValues | undefined,
+  changes: Record<string, CustomFieldValue | null>
+): CustomFieldValues {
+  const result: CustomFieldValues = { ...(values || {}) };
+  for (const [fieldId, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete result[fieldId];
+    } else {
+      result[fieldId] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Keep only values of fields that exist and fit them, e.g. for imported rows
+ */
+export function sanitizeCustomFieldValues(values: unknown, fields: CustomFieldDefinition[]): CustomFieldValues {
+  if (!isRecord(values)) return {};
+  const result: CustomFieldValues = {};
+  for (const field of fields) {
+    const coerced = coerceCustomFieldValue(field, values[field.id]);
+    if (coerced.ok && coerced.value !== null) result[field.id] = coerced.value;
+  }
+  return result;
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined) return '';
+  if (field.type === 'number' && typeof value === 'number') return value.toLocaleString();
+  return String(value);
+}
+
+// ============ Filters ============
+
+export function matchesTagFilter(prospect: Pick<Prospect, 'tags'>, tag: string | undefined): boolean {
+  return !tag || hasTag(prospect.tags, tag);
+}
+
+export function matchesCustomFieldFilter(
+  prospect: Pick<Prospect, 'customFields'>,
+  filter: CustomFieldFilter | undefined,
+  fields: CustomFieldDefinition[]
+): boolean {
+  if (!filter) return true;
+  const field = fields.find(f => f.id === filter.fieldId);
+  if (!field) return true;
+
+  const value = prospect.customFields?.[field.id];
+  const { min, max } = filter;
+  switch (field.type) {
+    case 'text':
+      return !filter.value || String(value ?? '').toLowerCase().includes(filter.value.toLowerCase());
+    case 'select':
+      return !filter.value || value === filter.value;
+    case 'number':
+      if (!min && !max) return true;
+      if (typeof value !== 'number') return false;
+      return (!min || value >= Number(min)) && (!max || value <= Number(max));
+    case 'date':
+      if (!min && !max) return true;
+      if (typeof value !== 'string') return false;
+      return (!min || value >= min) && (!max || value <= max);
+  }
+}
+
+// The custom field filter in query strings: field=<id> plus fieldValue, or
+// fieldMin/fieldMax for numbers and dates
+export function readCustomFieldFilter(params: Pick<URLSearchParams, 'get'>): CustomFieldFilter | undefined {
+  const fieldId = params.get('field');
+  if (!fieldId) return undefined;
+  return {
+    fieldId,
+    value: params.get('fieldValue') || undefined,
+    min: params.get('fieldMin') || undefined,
+    max: params.get('fieldMax') || undefined
+  };
+}
+
+export function writeCustomFieldFilter(params: URLSearchParams, filter: CustomFieldFilter | undefined): void {
+  if (!filter) return;
+  params.set('field', filter.fieldId);
+  if (filter.value) params.set('fieldValue', filter.value);
+  if (filter.min) params.set('fieldMin', filter.min);
+  if (filter.max) params.set('fieldMax', filter.max);
+}
+
+// ============ Import column mapping ============
+
+// A spreadsheet column the import doesn't read itself can go to the tags or
+// to a custom field (by id)
+export const TAGS_IMPORT_TARGET = 'tags';
+
+export type ImportColumnMappings = Record<string, string>;  // Column header -> target
+
+// Cells of the unread columns, by the prospect's canonical LinkedIn URL
+export type ImportColumnValues = Map<string, Record<string, unknown>>;
+
+/**
+ * Pre-select targets for columns named like a custom field or "Tags"
+ */
+export function suggestColumnMappings(columns: string[], fields: CustomFieldDefinition[]): ImportColumnMappings {
+  const mappings: ImportColumnMappings = {};
+  for (const column of columns) {
+    const name = column.trim().toLowerCase();
+    const field = fields.find(f => f.label.toLowerCase() === name);
+    if (field) {
+      mappings[column] = field.id;
+    } else if (name === 'tags' || name === 'tag') {
+      mappings[column] = TAGS_IMPORT_TARGET;
+    }
+  }
+  return mappings;
+}
+
+/**
+ * Copy mapped column cells onto the parsed prospects as tags and custom
+ * field values. Cells that don't fit their field are skipped and counted.
+ */
+export function applyColumnMappings<P extends Partial<Prospect>>(
+  prospects: P[],
+  columnValues: ImportColumnValues,
+  mappings: ImportColumnMappings,
+  fields: CustomFieldDefinition[]
+): { prospects: P[]; invalidCells: number } {
+  let invalidCells = 0;
+
+  const mapped = prospects.map(prospect => {
+    const cells = columnValues.get(prospect.linkedinUrl || '');
+    if (!cells) return prospect;
+
+    let tags = prospect.tags || [];
+    let customFields = prospect.customFields || {};
+    for (const [column, target] of Object.entries(mappings)) {
+      const cell = cells[column];
+      if (cell === undefined || cell === null || cell === '') continue;
+
+      if (target === TAGS_IMPORT_TARGET) {
+        tags = normalizeTags([...tags, ...parseTagList(String(cell))]);
+        continue;
+      }
+      const field = fields.find(f => f.id === target);
+      if (!field) continue;
+      const coerced = coerceCustomFieldValue(field, cell);
+      if (!coerced.ok) {
+        invalidCells++;
+      } else if (coerced.value !== null) {
+        customFields = { ...customFields, [field.id]: coerced.value };
+      }
+    }
+    return { ...prospect, tags, customFields };
+  });
+
+  return { prospects: mapped, invalidCells };
+}
+
+/**
+ * Client-side: the workspace's custom fields, or none if the API fails
+ */
+export async function fetchCustomFields(): Promise<CustomFieldDefinition[]> {
+  try {
+    const response = await fetch('/api/settings/custom-fields');
+    if (!response.ok) return [];
+    const data = await response.json() as { fields: CustomFieldDefinition[] };
+    return data.fields;
+  } catch {
+    return [];
+  }
+}
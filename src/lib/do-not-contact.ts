@@ -0,0 +1,54 @@
+import type { PipelineStatus, Prospect } from '@/types';
+
+// ============================================================================
+// DO NOT CONTACT
+// ============================================================================
+//
+// A prospect who replies with a hard no (or is marked by hand) is flagged
+// do_not_contact. Message and comment generation, fetching their posts,
+// the engagement watch list, sequence steps and any status change that means
+// reaching out all refuse to act on a flagged prospect. Imports never write
+// the flag, so re-importing the same LinkedIn URL keeps it.
+//
+// Browser-safe: used by the API routes, the queues and the prospect UI.
+// ============================================================================
+
+// Moving a flagged prospect into one of these would mean contacting them
+export const DO_NOT_CONTACT_BLOCKED_STATUSES: PipelineStatus[] = [
+  'visited',
+  'connection_sent',
+  'connected',
+  'message_sent',
+  'call_booked'
+];
+
+const REPLY_EXCERPT_LENGTH = 120;
+
+type FlaggedProspect = Pick<Prospect, 'doNotContact' | 'doNotContactReason'> & { fullName?: string };
+
+export function isDoNotContact(prospect: Pick<Prospect, 'doNotContact'> | null | undefined): boolean {
+  return Boolean(prospect?.doNotContact);
+}
+
+export function isBlockedStatus(status: PipelineStatus): boolean {
+  return DO_NOT_CONTACT_BLOCKED_STATUSES.includes(status);
+}
+
+/**
+ * Why an action was refused, for API errors and skip reasons
+ */
+export function getDoNotContactMessage(prospect: FlaggedProspect): string {
+  const name = prospect.fullName || 'This prospect';
+  return prospect.doNotContactReason
+    ? `${name} is marked do not contact: ${prospect.doNotContactReason}`
+    : `${name} is marked do not contact`;
+}
+
+/**
+ * Reason stored when a hard_no reply is logged
+ */
+export function buildHardNoReason(reply: string): string {
+  const text = reply.trim().replace(/\s+/g, ' ');
+  const excerpt = text.length > REPLY_EXCERPT_LENGTH ? `${text.slice(0, REPLY_EXCERPT_LENGTH - 3)}...` : text;
+  return excerpt ? `Replied hard no: "${excerpt}"` : 'Replied hard no';
+}
@@ -0,0 +1,197 @@
+import { getProspectIdentities } from '@/lib/linkedin-identity';
+import type { DuplicateGroup, DuplicateMatchReason, PipelineStatus, ProspectWithPipeline } from '@/types';
+
+// ============================================================================
+// DUPLICATE PROSPECTS
+// ============================================================================
+//
+// Imports already resolve URL forms to one prospect (src/lib/linkedin-identity.ts),
+// but older rows, a vanity URL that changed, or a profile imported before and
+// after a job change can still leave one person stored twice with their
+// pipeline split between the rows. Two prospects are flagged as the same
+// person when they share:
+//
+//   - a canonical profile URL or alias
+//   - a name and a company (current company or any in their career history)
+//   - a name and a profile picture
+//
+// Matches are transitive: if A matches B and B matches C, all three are one
+// group. Merging is done by the storage adapter (mergeProspects), which keeps
+// the most advanced pipeline status of the group.
+//
+// Browser-safe: pure functions over prospects loaded by /api/prospects/duplicates.
+// ============================================================================
+
+// Least to most advanced. A closed deal outranks any open stage, and a won
+// deal outranks a lost one.
+export const PIPELINE_STATUS_ORDER: PipelineStatus[] = [
+  'not_contacted',
+  'visited',
+  'connection_sent',
+  'connected',
+  'message_sent',
+  'responded',
+  'call_booked',
+  'closed_lost',
+  'closed_won'
+];
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  linkedin_url: 'Same LinkedIn profile',
+  name_company: 'Same name and company',
+  name_photo: 'Same name and photo'
+};
+
+// Legal suffixes that don't tell two companies apart
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'co', 'corp', 'corporation',
+  'company', 'plc', 'gmbh', 'ag', 'bv', 'sa', 'pty', 'llp'
+]);
+
+function foldText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * A name compared without case, accents, punctuation or trailing credentials
+ * ("Dana Reyes, MBA" is "dana reyes")
+ */
+export function normalizePersonName(name: string | null | undefined): string {
+  return foldText((name || '').split(',')[0]);
+}
+
+/**
+ * A company compared without case, punctuation or legal suffixes
+ * ("Trailhead Goods, Inc." is "trailhead goods")
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+  const words = foldText(name || '').split(' ').filter(Boolean);
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.join(' ');
+}
+
+/**
+ * The image a profile picture URL points at. LinkedIn serves one image at
+ * several sizes with expiring query tokens, so the image id is compared, not
+ * the URL. Default avatars are never a match.
+ */
+export function getProfilePictureKey(url: string | null | undefined): string {
+  const value = (url || '').trim().split(/[?#]/)[0];
+  if (!value || /ghost|default-avatar|static\.licdn\.com/i.test(value)) return '';
+  const image = value.match(/\/dms\/image\/(?:v\d+\/)?([^/]+)/);
+  return image ? image[1] : value.toLowerCase();
+}
+
+export function getStatusRank(status: string | null | undefined): number {
+  return Math.max(0, PIPELINE_STATUS_ORDER.indexOf((status || 'not_contacted') as PipelineStatus));
+}
+
+/**
+ * The most advanced of the statuses; not_contacted when there are none
+ */
+export function mostAdvancedStatus(statuses: Array<string | null | undefined>): PipelineStatus {
+  return PIPELINE_STATUS_ORDER[Math.max(0, ...statuses.map(getStatusRank))];
+}
+
+/**
+ * The prospect a group merges into: the furthest along the pipeline, then
+ * the one imported first
+ */
+export function chooseProspectToKeep(prospects: ProspectWithPipeline[]): ProspectWithPipeline {
+  return [...prospects].sort((a, b) =>
+    getStatusRank(b.pipeline?.status) - getStatusRank(a.pipeline?.status) ||
+    String(a.createdAt || '').localeCompare(String(b.createdAt || ''))
+  )[0];
+}
+
+// Keys under which a prospect matches others, tagged with the reason
+function getMatchKeys(prospect: ProspectWithPipeline): Array<[string, DuplicateMatchReason]> {
+  const keys: Array<[string, DuplicateMatchReason]> = getProspectIdentities(
+    prospect.linkedinUrl,
+    prospect.linkedinAliases
+  ).map(identity => [`url:${identity}`, 'linkedin_url']);
+
+  const name = normalizePersonName(prospect.fullName || `${prospect.firstName} ${prospect.lastName}`);
+  if (!name) return keys;
+
+  const companies = new Set(
+    [prospect.companyName, ...(prospect.careerHistory || []).map(job => job.companyName)]
+      .map(normalizeCompanyName)
+      .filter(Boolean)
+  );
+  for (const company of companies) {
+    keys.push([`company:${name}|${company}`, 'name_company']);
+  }
+
+  const picture = getProfilePictureKey(prospect.profilePicUrl);
+  if (picture) keys.push([`photo:${name}|${picture}`, 'name_photo']);
+
+  return keys;
+}
+
+/**
+ * Groups of two or more prospects that look like the same person, biggest
+ * groups first
+ */
+export function findDuplicateGroups(prospects: ProspectWithPipeline[]): DuplicateGroup[] {
+  // Union-find over prospect indexes
+  const parent = prospects.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const firstWithKey = new Map<string, number>();
+  const edges: Array<[number, DuplicateMatchReason]> = [];
+
+  prospects.forEach((prospect, index) => {
+    for (const [key, reason] of getMatchKeys(prospect)) {
+      const first = firstWithKey.get(key);
+      if (first === undefined) {
+        firstWithKey.set(key, index);
+      } else if (first !== index) {
+        parent[root(index)] = root(first);
+        edges.push([index, reason]);
+      }
+    }
+  });
+
+  const members = new Map<number, ProspectWithPipeline[]>();
+  prospects.forEach((prospect, index) => {
+    const group = root(index);
+    members.set(group, [...(members.get(group) || []), prospect]);
+  });
+
+  const reasons = new Map<number, Set<DuplicateMatchReason>>();
+  for (const [index, reason] of edges) {
+    const group = root(index);
+    reasons.set(group, (reasons.get(group) || new Set()).add(reason));
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const [group, groupProspects] of members) {
+    if (groupProspects.length < 2) continue;
+    const keep = chooseProspectToKeep(groupProspects);
+    groups.push({
+      keepId: keep.id,
+      prospects: [keep, ...groupProspects.filter(p => p !== keep)],
+      reasons: Object.keys(DUPLICATE_REASON_LABELS)
+        .filter(reason => reasons.get(group)?.has(reason as DuplicateMatchReason)) as DuplicateMatchReason[]
+    });
+  }
+
+  return groups.sort((a, b) =>
+    b.prospects.length - a.prospects.length ||
+    a.prospects[0].fullName.localeCompare(b.prospects[0].fullName)
+  );
+}
@@ -0,0 +1,108 @@
+import type {
+  ICPSegment,
+  ICPTier,
+  RescoreMover,
+  RescoreReport,
+  RescoreSegmentChange
+} from '@/types';
+
+// ============================================================================
+// ICP SCORE HISTORY
+// ============================================================================
+//
+// Each run of /api/prospects/recalculate-icp stores one snapshot per prospect
+// (icp_score_snapshots) and returns a RescoreReport describing what moved, so
+// a scoring profile change can be reviewed before it is trusted.
+//
+// Browser-safe: getICPTier is shared with the dashboard filters.
+// ============================================================================
+
+export const ICP_TIERS: ICPTier[] = ['high', 'medium', 'low'];
+
+// Biggest movers listed in a report
+const MAX_MOVERS = 10;
+
+/**
+ * Bucket a score the way the dashboard does: High 70+, Medium 40-69, Low <40
+ */
+export function getICPTier(score: number): ICPTier {
+  if (score >= 70) return 'high';
+  if (score >= 40) return 'medium';
+  return 'low';
+}
+
+// One prospect's score before and after a rescore
+export interface RescoreChange {
+  prospectId: string;
+  name: string;
+  previousScore: number;
+  newScore: number;
+  previousSegment?: ICPSegment;  // undefined if never scored with a breakdown
+  newSegment: ICPSegment;
+}
+
+function emptyTierCounts(): Record<ICPTier, number> {
+  return { high: 0, medium: 0, low: 0 };
+}
+
+/**
+ * Summarize a rescore: tier moves, segment changes and the biggest movers
+ */
+export function buildRescoreReport(changes: RescoreChange[]): RescoreReport {
+  const before = emptyTierCounts();
+  const after = emptyTierCounts();
+  const moves = new Map<string, { from: ICPTier; to: ICPTier; count: number }>();
+  const segmentChanges: RescoreSegmentChange[] = [];
+  const movers: RescoreMover[] = [];
+
+  for (const change of changes) {
+    const previousTier = getICPTier(change.previousScore);
+    const newTier = getICPTier(change.newScore);
+    before[previousTier]++;
+    after[newTier]++;
+
+    if (previousTier !== newTier) {
+      const key = `${previousTier}->${newTier}`;
+      const move = moves.get(key) || { from: previousTier, to: newTier, count: 0 };
+      move.count++;
+      moves.set(key, move);
+    }
+
+    if (change.previousSegment && change.previousSegment !== change.newSegment) {
+      segmentChanges.push({
+        prospectId: change.prospectId,
+        name: change.name,
+        previousSegment: change.previousSegment,
+        newSegment: change.newSegment
+      });
+    }
+
+    const delta = change.newScore - change.previousScore;
+    if (delta !== 0) {
+      movers.push({
+        prospectId: change.prospectId,
+        name: change.name,
+        previousScore: change.previousScore,
+        newScore: change.newScore,
+        delta,
+        previousTier,
+        newTier
+      });
+    }
+  }
+
+  const tierMoves = Array.from(moves.values())
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    total: changes.length,
+    scoreChanged: movers.length,
+    tierChanged: tierMoves.reduce((sum, m) => sum + m.count, 0),
+    tierMoves,
+    tierCounts: { before, after },
+    segmentChanges,
+    biggestMovers: movers
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, MAX_MOVERS)
+  };
+}
@@ -5,107 +5,28 @@ import type {
   Experience,
   RawWorkingRow,
   RawScrapedRow,
-  ICPScoreBreakdown
+  ICPScoreBreakdown,
+  ICPSegment,
+  ScoringProfile
 } from '@/types';
+import type { ImportColumnValues } from '@/lib/custom-fields';
+import { canonicalizeLinkedInUrl } from '@/lib/linkedin-identity';
+import {
+  DEFAULT_SCORING_PROFILE,
+  matchTitleTier,
+  scoreCompanySignals,
+  scoreCompanySizeBand
+} from '@/lib/scoring-profile';
 
 // ============================================================================
 // ICP SCORING - Two Segments: Agency Decision-Makers & Merchant Operators
 // ============================================================================
-
-// SEGMENT 1: Agency Decision-Makers
-// Keywords that indicate an e-commerce/Shopify agency
-const AGENCY_KEYWORDS = [
-  'shopify', 'shopify plus', 'shopify partner', 'e-commerce agency',
-  'ecommerce agency', 'dtc agency', 'e-commerce development',
-  'ecommerce development', 'shopify agency', 'shopify expert',
-  'e-commerce services', 'ecommerce services', 'digital agency'
-];
-
-// ============================================================================
-// TITLE AUTHORITY MATCHING
-// ============================================================================
-//
-// CRITICAL BUG FIX (2026-01-20):
-// Previous logic used simple .includes() matching, which failed for:
-// - "Chief Executive Officer" (doesn't contain "ceo")
-// - "Chief Operating Officer" (doesn't contain "coo")
-// - Title variations like "CEO & Founder", "Co-Founder & CEO"
 //
-// NEW LOGIC: We now match against full spelled-out titles AND abbreviations.
-// All title matching is case-insensitive (titles are lowercased before comparison).
+// Keyword lists, title tiers, point values and size bands come from a
+// ScoringProfile (see src/lib/scoring-profile.ts). Callers that know the
+// workspace's active profile pass it in; everything else gets the default.
 // ============================================================================
 
-// Highest priority agency titles (decision-makers)
-// These all score +40 points
-const AGENCY_TOP_TITLES = [
-  // CEO variations
-  'ceo', 'chief executive officer', 'chief executive',
-  // Founder variations
-  'founder', 'co-founder', 'cofounder', 'co founder',
-  // Owner
-  'owner',
-  // COO variations
-  'coo', 'chief operating officer', 'chief operating',
-  // President (when it implies CEO-level authority)
-  'president',
-  // Managing Partner
-  'managing partner',
-  // Partnership roles for agencies
-  'director of partnerships', 'partnerships director'
-];
-
-// Secondary priority agency titles (+30 points)
-const AGENCY_SECONDARY_TITLES = [
-  'vp of client services', 'head of partnerships', 'director of client success',
-  'client success director', 'vp client services', 'head of client success',
-  'partner', 'principal'
-];
-
-// SEGMENT 2: Merchant Operators
-// Keywords that indicate a DTC/e-commerce brand
-const MERCHANT_KEYWORDS = [
-  'shopify', 'dtc', 'direct-to-consumer', 'direct to consumer',
-  'e-commerce brand', 'ecommerce brand', 'd2c', 'online store',
-  'shipping', 'fulfillment', 'physical products', 'consumer brand',
-  'retail brand', 'shopify store', 'bigcommerce', 'woocommerce'
-];
-
-// Highest priority merchant titles (operators with authority)
-// These all score +40 points
-const MERCHANT_TOP_TITLES = [
-  // CEO variations
-  'ceo', 'chief executive officer', 'chief executive',
-  // Founder variations
-  'founder', 'co-founder', 'cofounder', 'co founder',
-  // Owner
-  'owner',
-  // COO variations
-  'coo', 'chief operating officer', 'chief operating',
-  // President
-  'president',
-  // Operations leadership (critical for merchants)
-  'vp of operations', 'vp operations', 'vice president of operations',
-  'head of operations', 'operations director', 'director of operations',
-  // E-commerce leadership
-  'head of e-commerce', 'head of ecommerce', 'vp of e-commerce', 'vp of ecommerce',
-  'director of e-commerce', 'director of ecommerce'
-];
-
-// Secondary merchant titles (+30 points for merchants, +25 for agencies)
-const MERCHANT_SECONDARY_TITLES = [
-  'operations manager', 'head of fulfillment',
-  'director of fulfillment', 'supply chain director', 'head of supply chain',
-  'ecommerce manager', 'e-commerce manager'
-];
-
-// Product categories (minor boost only - often unreliable)
-const PRODUCT_CATEGORIES = [
-  'electronics', 'jewelry', 'supplements', 'vitamins', 'fashion',
-  'apparel', 'beauty', 'cosmetics', 'skincare', 'health',
-  'home goods', 'furniture', 'sporting goods', 'pet supplies',
-  'ceramics', 'premium', 'luxury'
-];
-
 // ============================================================================
 // SEGMENT CLASSIFICATION
 // ============================================================================
@@ -120,53 +41,6 @@ const PRODUCT_CATEGORIES = [
 // Segments: "merchant", "agency", "freelancer" (no more "unknown")
 // ============================================================================
 
-// Industries that strongly indicate a MERCHANT (product-based business)
-const MERCHANT_INDUSTRIES = [
-  'retail', 'consumer goods', 'food & beverages', 'food and beverages',
-  'apparel', 'fashion', 'jewelry', 'cosmetics', 'sporting goods',
-  'furniture', 'home goods', 'electronics', 'health & wellness',
-  'health and wellness', 'consumer products', 'food production',
-  'food & beverage', 'consumer services', 'retail apparel',
-  'luxury goods', 'textiles', 'household products', 'pet products',
-  'beverage', 'personal care', 'beauty', 'toys', 'games',
-  'wholesale', 'manufacturing', 'packaging', 'wine and spirits',
-  'leisure', 'restaurants', 'hospitality'
-];
-
-// Industries that strongly indicate an AGENCY (service-based business)
-const AGENCY_INDUSTRIES = [
-  'marketing', 'advertising', 'marketing and advertising',
-  'public relations', 'design', 'graphic design', 'web design',
-  'information technology', 'computer software', 'internet',
-  'management consulting', 'business consulting', 'staffing',
-  'professional services', 'media production', 'online media'
-];
-
-// Keywords in company description/headline that indicate MERCHANT
-const MERCHANT_DESCRIPTION_KEYWORDS = [
-  'brand', 'products', 'sell', 'shop', 'store', 'e-commerce', 'ecommerce',
-  'dtc', 'd2c', 'direct-to-consumer', 'direct to consumer', 'amazon',
-  'shopify', 'customers', 'shipping', 'fulfillment', 'orders',
-  'manufacturer', 'wholesale', 'retail', 'consumer', 'physical products',
-  'kitchen', 'apparel', 'clothing', 'jewelry', 'accessories', 'gear',
-  'goods', 'collection', 'designs', 'handmade', 'crafted'
-];
-
-// Keywords in company name/description that indicate AGENCY
-const AGENCY_DESCRIPTION_KEYWORDS = [
-  'agency', 'partner', 'partners', 'consulting', 'consultancy',
-  'services', 'solutions', 'help brands', 'work with brands',
-  'clients', 'digital marketing', 'growth agency', 'creative agency',
-  'marketing agency', 'branding agency', 'ecommerce agency',
-  'shopify partner', 'shopify expert', 'shopify agency'
-];
-
-// Keywords/patterns that indicate FREELANCER
-const FREELANCER_INDICATORS = [
-  'self-employed', 'freelance', 'freelancer', 'independent consultant',
-  'independent contractor', 'solo', 'solopreneur'
-];
-
 /**
  * Detect segment based on industry, keywords, and company info
  * Returns: "merchant", "agency", or "freelancer"
@@ -177,21 +51,25 @@ function detectSegment(
   about: string,
   headline: string,
   companySize: string | undefined,
-  title: string
-): 'merchant' | 'agency' | 'freelancer' {
+  title: string,
+  rules: ScoringProfile['segmentation']
+): ICPSegment {
   const companyLower = companyName.toLowerCase().trim();
   const industryLower = industry.toLowerCase().trim();
   const aboutLower = about.toLowerCase();
   const headlineLower = headline.toLowerCase();
   const titleLower = title.toLowerCase();
   const combinedText = `${companyLower} ${aboutLower} ${headlineLower}`;
+  const includesAny = (text: string, keywords: string[]) =>
+    keywords.some(kw => text.includes(kw.toLowerCase()));
 
   // ============================================================================
   // STEP 1: Check for explicit FREELANCER signals (highest priority)
   // ============================================================================
-  const isFreelancerByIndicator = FREELANCER_INDICATORS.some(ind =>
-    companyLower.includes(ind) || titleLower.includes(ind) || headlineLower.includes(ind)
-  );
+  const isFreelancerByIndicator = rules.freelancerIndicators.some(ind => {
+    const indLower = ind.toLowerCase();
+    return companyLower.includes(indLower) || titleLower.includes(indLower) || headlineLower.includes(indLower);
+  });
 
   const isNoCompany = !companyLower || companyLower === 'self-employed' ||
     companyLower === 'freelance' || companyLower === 'independent';
@@ -209,18 +87,13 @@ function detectSegment(
   // ============================================================================
 
   // Industry-based agency detection
-  const hasAgencyIndustry = AGENCY_INDUSTRIES.some(ind =>
-    industryLower.includes(ind)
-  );
+  const hasAgencyIndustry = includesAny(industryLower, rules.agencyIndustries);
 
   // Keyword-based agency detection
-  const hasAgencyKeywords = AGENCY_DESCRIPTION_KEYWORDS.some(kw =>
-    combinedText.includes(kw)
-  );
+  const hasAgencyKeywords = includesAny(combinedText, rules.agencyKeywords);
 
   // Company name contains agency indicators
-  const companyNameIsAgency = ['agency', 'partners', 'consulting', 'consultancy', 'group', 'studios']
-    .some(term => companyLower.includes(term));
+  const companyNameIsAgency = includesAny(companyLower, rules.agencyCompanyTerms);
 
   // Strong agency signal: multiple indicators present
   const isAgency = (hasAgencyIndustry && (hasAgencyKeywords || companyNameIsAgency)) ||
@@ -237,19 +110,13 @@ function detectSegment(
   // ============================================================================
 
   // Industry-based merchant detection (strongest signal)
-  const hasMerchantIndustry = MERCHANT_INDUSTRIES.some(ind =>
-    industryLower.includes(ind)
-  );
+  const hasMerchantIndustry = includesAny(industryLower, rules.merchantIndustries);
 
   // Keyword-based merchant detection
-  const hasMerchantKeywords = MERCHANT_DESCRIPTION_KEYWORDS.some(kw =>
-    combinedText.includes(kw)
-  );
+  const hasMerchantKeywords = includesAny(combinedText, rules.merchantKeywords);
 
   // Company name suggests product business
-  const companyNameIsMerchant = ['brand', 'co.', 'co', 'goods', 'products', 'kitchen',
-    'apparel', 'wear', 'gear', 'shop', 'store', 'swimwear', 'jewelry', 'gems']
-    .some(term => companyLower.includes(term));
+  const companyNameIsMerchant = includesAny(companyLower, rules.merchantCompanyTerms);
 
   if (hasMerchantIndustry || hasMerchantKeywords || companyNameIsMerchant) {
     return 'merchant';
@@ -302,7 +169,10 @@ function parseCompanySize(sizeStr: string | undefined): number | null {
   return null;
 }
 
-export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICPScoreBreakdown {
+export function calculateICPScoreWithBreakdown(
+  prospect: Partial<Prospect>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ICPScoreBreakdown {
   const breakdown: ICPScoreBreakdown = {
     segment: 'merchant', // Default to merchant, will be overwritten by detectSegment
     titleAuthority: 0,
@@ -313,7 +183,6 @@ export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICP
     total: 0
   };
 
-  const title = (prospect.jobTitle || prospect.headline || '').toLowerCase();
   const companyName = (prospect.companyName || '').toLowerCase();
   const about = (prospect.aboutSummary || '').toLowerCase();
   const industry = (prospect.companyIndustry || '').toLowerCase();
@@ -330,20 +199,19 @@ export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICP
     prospect.aboutSummary || '',
     prospect.headline || '',
     prospect.companySize,
-    prospect.jobTitle || prospect.headline || ''
+    prospect.jobTitle || prospect.headline || '',
+    profile.segmentation
   );
 
   // ============================================================================
-  // STEP 2: Score title authority (0-40 points)
-  // Decision-maker titles are the primary scoring factor
+  // STEP 2: Score title authority
+  // Decision-maker titles are the primary scoring factor. Tiers are checked in
+  // profile order and the first tier with a matching pattern wins.
   //
-  // FIX (2026-01-20): Complete rewrite with new scoring tiers and debug logging.
-  // Previous implementation was failing for spelled-out titles like "Chief Executive Officer".
-  //
-  // SCORING TIERS:
+  // Default tiers:
   // 40 pts - Top Decision Makers (CEO, Founder, Owner, COO, President, Managing Partner)
-  // 30 pts - Partners (general partner role)
   // 25 pts - Senior Leaders (VP, other Chiefs, Head of, Director of Partnerships/Client)
+  // 30 pts - Partners (general partner role)
   // 15 pts - Directors (general)
   // 10 pts - Senior Individual Contributors
   // 0 pts  - Everyone else
@@ -354,142 +222,8 @@ export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICP
   const headlineForTitle = (prospect.headline || '').toLowerCase().trim();
   const combinedTitleText = `${jobTitle} ${headlineForTitle}`;
 
-  // Helper to check if text contains any pattern (case-insensitive)
-  const containsAny = (text: string, patterns: string[]): string | null => {
-    const normalizedText = text.toLowerCase();
-    for (const pattern of patterns) {
-      if (normalizedText.includes(pattern.toLowerCase())) {
-        return pattern;
-      }
-    }
-    return null;
-  };
-
-  // TIER 1: 40 POINTS - Top Decision Makers
-  // NOTE: Use word-boundary-aware patterns to avoid false matches
-  // (e.g., "coordinator" should NOT match "coo", "vice president" should NOT match "president")
-  const tier1Patterns = [
-    'chief executive officer', 'chief executive',
-    'chief operating officer',
-    'founder', 'co-founder', 'cofounder', 'co founder',
-    'owner', 'co-owner', 'coowner',
-    'managing partner',
-    'general partner'
-  ];
-
-  // Patterns that need word boundary checking (start of string or after space/punctuation)
-  const tier1WordBoundaryPatterns = [
-    'ceo',      // Must not match "geocoding" etc
-    'coo',      // Must not match "coordinator"
-    'president' // Must not match "vice president" (handled separately)
-  ];
-
-  // Helper to check if pattern exists with word boundary (not in middle of word)
-  const containsWordBoundary = (text: string, pattern: string): boolean => {
-    const lower = text.toLowerCase();
-    const patternLower = pattern.toLowerCase();
-    const idx = lower.indexOf(patternLower);
-    if (idx === -1) return false;
-
-    // Check left boundary (start of string or non-alphanumeric)
-    const leftOk = idx === 0 || !/[a-z0-9]/.test(lower[idx - 1]);
-    // Check right boundary (end of string or non-alphanumeric)
-    const rightOk = idx + patternLower.length >= lower.length ||
-                   !/[a-z0-9]/.test(lower[idx + patternLower.length]);
-    return leftOk && rightOk;
-  };
-
-  // TIER 2: 30 POINTS - Partners
-  // Note: "partner" checked with exclusions for director/managing/general partner
-  const tier2Patterns = [
-    'partner'
-  ];
-
-  // Exclusions for tier 2 partner - these should NOT trigger tier 2
-  const tier2Exclusions = [
-    'managing partner', 'general partner',  // These are tier 1
-    'director of partner', 'director of partnerships', 'partnerships director' // These are tier 3
-  ];
-
-  // TIER 3: 25 POINTS - Senior Leaders
-  const tier3Patterns = [
-    'vice president',  // Checked BEFORE president in tier 1
-    'vp ', 'vp,', 'vp/', 'vp-', ' vp',  // VP with delimiter to avoid false matches
-    'chief ',  // Any other chief (CMO, CRO, CTO, CGO, CCO, etc.) - note trailing space
-    'head of',
-    'director of partnerships',
-    'director of partner',
-    'director of client',
-    'director of business development'
-  ];
-
-  // TIER 4: 15 POINTS - Directors
-  const tier4Patterns = [
-    'director',
-    'general manager',
-    ' gm ',  // GM with spaces to avoid false matches
-    ' gm,',
-    ' gm/'
-  ];
-
-  // TIER 5: 10 POINTS - Senior Individual Contributors
-  const tier5Patterns = [
-    'senior manager',
-    'senior director',
-    'lead ',
-    'senior '
-  ];
-
-  let matchedPattern: string | null = null;
-  let titleScore = 0;
-
-  // Check tiers in order (highest first) - use HIGHEST score if multiple match
-  // TIER 1: Check standard patterns + word-boundary patterns
-  const tier1Match = containsAny(combinedTitleText, tier1Patterns);
-  const tier1WordMatch = tier1WordBoundaryPatterns.find(p => {
-    // For "president", exclude "vice president"
-    if (p === 'president' && combinedTitleText.includes('vice president')) {
-      return false;
-    }
-    return containsWordBoundary(combinedTitleText, p);
-  });
-
-  if (tier1Match) {
-    titleScore = 40;
-    matchedPattern = tier1Match;
-  } else if (tier1WordMatch) {
-    titleScore = 40;
-    matchedPattern = tier1WordMatch;
-  } else {
-    // Check tier 3 BEFORE tier 2 to catch "director of partnerships" etc
-    const tier3Match = containsAny(combinedTitleText, tier3Patterns);
-    if (tier3Match) {
-      titleScore = 25;
-      matchedPattern = tier3Match;
-    } else {
-      // Check tier 2 (partner) but NOT if any exclusion applies
-      const tier2Match = containsAny(combinedTitleText, tier2Patterns);
-      const tier2ExcludeMatch = containsAny(combinedTitleText, tier2Exclusions);
-      if (tier2Match && !tier2ExcludeMatch) {
-        titleScore = 30;
-        matchedPattern = tier2Match;
-      } else {
-        // Check tier 4
-        const tier4Match = containsAny(combinedTitleText, tier4Patterns);
-        if (tier4Match) {
-          titleScore = 15;
-          matchedPattern = tier4Match;
-        } else {
-          // Check tier 5
-          const tier5Match = containsAny(combinedTitleText, tier5Patterns);
-          if (tier5Match) {
-            titleScore = 10;
-            matchedPattern = tier5Match;
-          }
-        }
-      }
-    }
-  }
+  const titleMatch = matchTitleTier(combinedTitleText, profile.titleTiers);
+  const titleScore = titleMatch?.tier.points ?? 0;
 
   breakdown.titleAuthority = titleScore;
 
@@ -497,196 +231,52 @@ export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICP
   if (process.env.NODE_ENV === 'development' || process.env.DEBUG_ICP) {
     const name = prospect.fullName || 'Unknown';
     if (titleScore > 0 || (jobTitle && jobTitle.includes('chief'))) {
-      console.log(`[ICP Title] ${name}: job_title="${jobTitle}" headline="${headlineForTitle.substring(0, 50)}..." → ${titleScore} pts (matched: "${matchedPattern || 'none'}")`);
+      console.log(`[ICP Title] ${name}: job_title="${jobTitle}" headline="${headlineForTitle.substring(0, 50)}..." → ${titleScore} pts (matched: "${titleMatch?.pattern || 'none'}")`);
     }
   }
 
   // ============================================================================
-  // STEP 3: Score company signals (0-35 points)
+  // STEP 3: Score company signals (capped at companySignals.maxPoints)
   // ============================================================================
   //
-  // IMPROVED (2026-01-20): Better detection of scale indicators and platform mentions.
-  // Previous logic undervalued high-volume merchants like "tens of millions of customers".
-  //
-  // Signal categories:
+  // Default signal categories:
   // - SCALE INDICATORS: +15 pts (millions of customers, revenue mentions, etc.)
   // - PLATFORM SIGNALS: +12 pts (Shopify Plus, Amazon FBA, etc.)
   // - DTC/ECOMMERCE: +10 pts (direct-to-consumer, online store, etc.)
   // - INDUSTRY BONUS: +10 pts (Merchant in Retail/Consumer Goods industry)
   // - GENERAL COMMERCE: +5 pts (brand, retail, etc.)
   // ============================================================================
-  let signalScore = 0;
-
-  // ---------------------------------------------------------------------------
-  // SCALE INDICATORS - High value, indicates significant business volume
-  // ---------------------------------------------------------------------------
-  const scaleIndicators = [
-    'millions of customers', 'million customers', 'tens of millions',
-    'hundreds of thousands', 'million units', 'millions sold',
-    '$1m', '$2m', '$5m', '$10m', '$20m', '$50m', '$100m',
-    '1 million', '2 million', '5 million', '10 million',
-    'million in revenue', 'million revenue',
-    '7-figure', '8-figure', '9-figure', 'seven figure', 'eight figure', 'nine figure',
-    'seven-figure', 'eight-figure', 'nine-figure',
-    'bestseller', 'best seller', 'best-seller', 'top seller', 'top-seller',
-    '#1 seller', 'number one', '#1 brand',
-    'inc 5000', 'inc. 5000', 'inc5000', 'fastest growing',
-    'fortune 500', 'fortune 1000'
-  ];
-
-  if (scaleIndicators.some(indicator => combinedText.includes(indicator))) {
-    signalScore += 15;
-  }
-
-  // ---------------------------------------------------------------------------
-  // PLATFORM SIGNALS - High value, indicates specific e-commerce platform usage
-  // ---------------------------------------------------------------------------
-  // Shopify Plus is highest tier
-  if (combinedText.includes('shopify plus')) {
-    signalScore += 12;
-  } else if (combinedText.includes('shopify')) {
-    signalScore += 10;
-  }
-
-  // Amazon signals
-  if (combinedText.includes('amazon seller') || combinedText.includes('amazon fba') ||
-      combinedText.includes('selling on amazon') || combinedText.includes('amazon brand') ||
-      combinedText.includes('amazon store')) {
-    signalScore += 10;
-  }
-
-  // Other platforms
-  if (combinedText.includes('bigcommerce')) signalScore += 8;
-  if (combinedText.includes('woocommerce')) signalScore += 6;
-  if (combinedText.includes('magento')) signalScore += 6;
-
-  // ---------------------------------------------------------------------------
-  // DTC / E-COMMERCE SIGNALS - Medium value
-  // ---------------------------------------------------------------------------
-  if (combinedText.includes('dtc') || combinedText.includes('d2c') ||
-      combinedText.includes('direct-to-consumer') || combinedText.includes('direct to consumer')) {
-    signalScore += 10;
-  }
-
-  if (combinedText.includes('e-commerce') || combinedText.includes('ecommerce') ||
-      combinedText.includes('e commerce')) {
-    signalScore += 8;
-  }
-
-  if (combinedText.includes('online store') || combinedText.includes('online brand') ||
-      combinedText.includes('online shop')) {
-    signalScore += 6;
-  }
-
-  // ---------------------------------------------------------------------------
-  // FULFILLMENT / LOGISTICS SIGNALS - Medium value for merchants
-  // ---------------------------------------------------------------------------
-  if (breakdown.segment === 'merchant') {
-    if (combinedText.includes('shipping') || combinedText.includes('fulfillment') ||
-        combinedText.includes('warehouse') || combinedText.includes('logistics') ||
-        combinedText.includes('3pl') || combinedText.includes('supply chain')) {
-      signalScore += 8;
-    }
-  }
-
-  // ---------------------------------------------------------------------------
-  // INDUSTRY BONUS - For merchants in high-value retail industries
-  // ---------------------------------------------------------------------------
-  const highValueMerchantIndustries = [
-    'retail', 'consumer goods', 'apparel', 'fashion', 'food & beverages',
-    'food and beverages', 'health', 'wellness', 'fitness', 'sporting goods',
-    'jewelry', 'cosmetics', 'beauty', 'home goods', 'furniture', 'electronics'
-  ];
-
-  if (breakdown.segment === 'merchant' &&
-      highValueMerchantIndustries.some(ind => industry.includes(ind))) {
-    signalScore += 10;
-  }
-
-  // ---------------------------------------------------------------------------
-  // AGENCY-SPECIFIC SIGNALS
-  // ---------------------------------------------------------------------------
-  if (breakdown.segment === 'agency') {
-    if (combinedText.includes('shopify partner') || combinedText.includes('shopify plus partner')) {
-      signalScore += 12;
-    }
-    if (combinedText.includes('clients') && combinedText.includes('brands')) {
-      signalScore += 5;
-    }
-  }
-
-  // ---------------------------------------------------------------------------
-  // GENERAL COMMERCE SIGNALS - Low value, common terms
-  // ---------------------------------------------------------------------------
-  if (combinedText.includes('brand') || combinedText.includes('products') ||
-      combinedText.includes('customers served') || combinedText.includes('customer base')) {
-    signalScore += 5;
-  }
-
-  if (combinedText.includes('physical products') || combinedText.includes('consumer brand') ||
-      combinedText.includes('retail brand')) {
-    signalScore += 5;
-  }
+  const signalScore = scoreCompanySignals(
+    combinedText,
+    industry,
+    breakdown.segment,
+    profile.companySignals.rules
+  );
 
-  breakdown.companySignals = Math.min(signalScore, 35);
+  breakdown.companySignals = Math.min(signalScore, profile.companySignals.maxPoints);
 
   // ============================================================================
-  // STEP 4: Score company size (-10 to +15 points)
-  // Reduced penalties since size data is often missing/unreliable
+  // STEP 4: Score company size from the segment's size bands
+  // Prospects without size data get the segment's unknownSizePoints
   // ============================================================================
   const companySize = parseCompanySize(prospect.companySize);
 
-  if (companySize !== null) {
-    if (breakdown.segment === 'agency') {
-      // Agency sweet spot: 10-100 employees
-      if (companySize >= 10 && companySize <= 100) {
-        breakdown.companySize = 15; // Perfect fit
-      } else if (companySize > 100 && companySize <= 200) {
-        breakdown.companySize = 10; // Still good
-      } else if (companySize > 200 && companySize <= 500) {
-        breakdown.companySize = 5; // Okay
-      } else if (companySize > 500) {
-        breakdown.companySize = -10; // Too big (reduced penalty)
-      } else if (companySize < 10 && companySize >= 2) {
-        breakdown.companySize = 5; // Small but okay
-      } else if (companySize === 1) {
-        breakdown.companySize = -5; // Solo freelancer (reduced penalty)
-      }
-    } else if (breakdown.segment === 'merchant') {
-      // Merchant sweet spot: 10-200 employees
-      if (companySize >= 10 && companySize <= 200) {
-        breakdown.companySize = 15; // Perfect fit
-      } else if (companySize > 200 && companySize <= 500) {
-        breakdown.companySize = 10; // Still good
-      } else if (companySize > 500) {
-        breakdown.companySize = 5; // Large enterprise
-      } else if (companySize < 10 && companySize >= 2) {
-        breakdown.companySize = 5; // Small but growing
-      } else if (companySize === 1) {
-        breakdown.companySize = 0; // Very small, neutral
-      }
-    }
-  } else {
-    // No size data - give a small neutral bonus rather than 0
-    // Most prospects in the ICP have some company presence
-    // Freelancers don't get this bonus since they don't have a company
-    if (breakdown.segment !== 'freelancer') {
-      breakdown.companySize = 5;
-    }
-  }
+  breakdown.companySize = companySize !== null
+    ? scoreCompanySizeBand(companySize, profile.companySize.bands[breakdown.segment])
+    : profile.companySize.unknownSizePoints[breakdown.segment];
 
   // ============================================================================
-  // STEP 5: Product category boost (0-10 points) - Minor factor
+  // STEP 5: Product category boost - Minor factor
   // ============================================================================
-  if (PRODUCT_CATEGORIES.some(cat => combinedText.includes(cat))) {
-    breakdown.productCategory = 10;
+  if (profile.productCategory.keywords.some(cat => combinedText.includes(cat.toLowerCase()))) {
+    breakdown.productCategory = profile.productCategory.points;
   }
 
   // ============================================================================
-  // STEP 6: Profile completeness (0-5 points)
+  // STEP 6: Profile completeness
   // ============================================================================
-  if (prospect.aboutSummary && prospect.aboutSummary.length > 100) {
-    breakdown.profileCompleteness = 5;
+  if (prospect.aboutSummary && prospect.aboutSummary.length > profile.profileCompleteness.minAboutLength) {
+    breakdown.profileCompleteness = profile.profileCompleteness.points;
   }
 
   // ============================================================================
@@ -702,15 +292,18 @@ export function calculateICPScoreWithBreakdown(prospect: Partial<Prospect>): ICP
   return breakdown;
 }
 
-export function calculateICPScore(prospect: Partial<Prospect>): number {
-  return calculateICPScoreWithBreakdown(prospect).total;
+export function calculateICPScore(
+  prospect: Partial<Prospect>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  return calculateICPScoreWithBreakdown(prospect, profile).total;
 }
 
 export function parseWorkingTab(data: RawWorkingRow[]): Map<string, Partial<PipelineRecord>> {
   const pipelineMap = new Map<string, Partial<PipelineRecord>>();
 
   for (const row of data) {
-    const linkedinUrl = normalizeLinkedInUrl(row['LinkedIn URL']);
+    const linkedinUrl = canonicalizeLinkedInUrl(row['LinkedIn URL']);
     if (!linkedinUrl) continue;
 
     const status = mapExcelStatus(row);
@@ -736,11 +329,14 @@ function mapExcelStatus(row: RawWorkingRow): PipelineRecord['status'] {
   return 'not_contacted';
 }
 
-export function parseScrapedTab(data: RawScrapedRow[]): Map<string, Partial<Prospect>> {
+export function parseScrapedTab(
+  data: RawScrapedRow[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Map<string, Partial<Prospect>> {
   const prospectMap = new Map<string, Partial<Prospect>>();
 
   for (const row of data) {
-    const linkedinUrl = normalizeLinkedInUrl(row.linkedinUrl || '');
+    const linkedinUrl = canonicalizeLinkedInUrl(row.linkedinUrl || '');
     if (!linkedinUrl) continue;
 
     const careerHistory = extractCareerHistory(row);
@@ -764,7 +360,7 @@ export function parseScrapedTab(data: RawScrapedRow[]): Map<string, Partial<Pros
       recentPosts: [], // Will be populated separately
     };
 
-    const icpBreakdown = calculateICPScoreWithBreakdown(prospect);
+    const icpBreakdown = calculateICPScoreWithBreakdown(prospect, profile);
     prospect.icpScore = icpBreakdown.total;
     prospect.icpScoreBreakdown = icpBreakdown;
 
@@ -799,35 +395,78 @@ function extractCareerHistory(row: RawScrapedRow): Experience[] {
   return history;
 }
 
-function normalizeLinkedInUrl(url: string): string {
-  if (!url) return '';
+// ============================================================================
+// EXTRA COLUMNS
+// ============================================================================
+//
+// Columns the parser doesn't read itself (e.g. a "Tags" or "Deal Size" column
+// added to the sheet) are collected so the import preview can map them to
+// tags or custom fields. Nested scraper output ("experiences/3/title") is not
+// offered.
+// ============================================================================
 
-  // Remove trailing slashes and normalize
-  let normalized = url.toLowerCase().trim();
+const WORKING_COLUMNS: Array<keyof RawWorkingRow> = [
+  'First Name', 'Last Name', 'LinkedIn URL', 'Company', 'Title', 'About Summary',
+  'Visited', 'Date Visited', 'Connection Request', 'Date', 'Status',
+  'Connection Accepted', 'Message Sent', 'Notes / Personalization'
+];
 
-  // Ensure it starts with http
-  if (!normalized.startsWith('http')) {
-    normalized = 'https://' + normalized;
-  }
+const SCRAPED_COLUMNS: Array<keyof RawScrapedRow> = [
+  'fullName', 'firstName', 'lastName', 'headline', 'about', 'companyName',
+  'companyIndustry', 'companySize', 'jobTitle', 'linkedinUrl', 'totalExperienceYears',
+  'topSkillsByEndorsements', 'addressWithCountry', 'profilePic', 'profilePicHighQuality'
+];
 
-  // Convert http to https
-  normalized = normalized.replace('http://', 'https://');
+const EXTRA_COLUMN_SOURCES = [
+  { sheet: 'WORKING', urlColumn: 'LinkedIn URL', known: WORKING_COLUMNS as string[] },
+  { sheet: 'Prospects', urlColumn: 'LinkedIn URL', known: WORKING_COLUMNS as string[] },
+  { sheet: 'Scraped', urlColumn: 'linkedinUrl', known: SCRAPED_COLUMNS as string[] }
+];
 
-  // Remove trailing slash
-  normalized = normalized.replace(/\/$/, '');
+export interface ExtraColumns {
+  extraColumns: string[];
+  columnValues: ImportColumnValues;
+}
 
-  // Ensure www is present for consistency
-  if (normalized.includes('linkedin.com') && !normalized.includes('www.linkedin.com')) {
-    normalized = normalized.replace('linkedin.com', 'www.linkedin.com');
+/**
+ * Unread columns across the WORKING, Prospects and Scraped tabs, with each
+ * prospect's cells keyed by canonical LinkedIn URL. When a column appears in
+ * several tabs the first non-empty cell wins.
+ */
+export function readExtraColumns(workbook: XLSX.WorkBook): ExtraColumns {
+  const extraColumns: string[] = [];
+  const columnValues: ImportColumnValues = new Map();
+
+  for (const { sheet, urlColumn, known } of EXTRA_COLUMN_SOURCES) {
+    const worksheet = workbook.Sheets[sheet];
+    if (!worksheet) continue;
+
+    for (const row of XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet)) {
+      const linkedinUrl = canonicalizeLinkedInUrl(String(row[urlColumn] || ''));
+      if (!linkedinUrl) continue;
+
+      for (const [column, value] of Object.entries(row)) {
+        if (known.includes(column) || column.includes('/') || column.startsWith('__EMPTY')) continue;
+        if (value === null || value === undefined || String(value).trim() === '') continue;
+
+        if (!extraColumns.includes(column)) extraColumns.push(column);
+        const cells = columnValues.get(linkedinUrl) || {};
+        if (cells[column] === undefined) cells[column] = value;
+        columnValues.set(linkedinUrl, cells);
+      }
+    }
   }
 
-  return normalized;
+  return { extraColumns, columnValues };
 }
 
-export async function parseExcelFile(file: File): Promise<{
+export async function parseExcelFile(
+  file: File,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Promise<{
   prospects: Partial<Prospect>[];
   pipelineData: Map<string, Partial<PipelineRecord>>;
-}> {
+} & ExtraColumns> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -848,7 +487,7 @@ export async function parseExcelFile(file: File): Promise<{
         const scrapedData = scrapedSheet
           ? XLSX.utils.sheet_to_json<RawScrapedRow>(scrapedSheet)
           : [];
-        const scrapedProspects = parseScrapedTab(scrapedData);
+        const scrapedProspects = parseScrapedTab(scrapedData, profile);
 
         // If no Scraped tab, use Prospects tab
         if (scrapedProspects.size === 0) {
@@ -856,7 +495,7 @@ export async function parseExcelFile(file: File): Promise<{
           if (prospectsSheet) {
             const prospectsData = XLSX.utils.sheet_to_json<RawWorkingRow>(prospectsSheet);
             for (const row of prospectsData) {
-              const linkedinUrl = normalizeLinkedInUrl(row['LinkedIn URL']);
+              const linkedinUrl = canonicalizeLinkedInUrl(row['LinkedIn URL']);
               if (!linkedinUrl) continue;
 
               const prospect: Partial<Prospect> = {
@@ -871,7 +510,7 @@ export async function parseExcelFile(file: File): Promise<{
                 recentPosts: [],
                 icpScore: 0
               };
-              prospect.icpScore = calculateICPScore(prospect);
+              prospect.icpScore = calculateICPScore(prospect, profile);
               scrapedProspects.set(linkedinUrl, prospect);
             }
           }
@@ -888,7 +527,8 @@ export async function parseExcelFile(file: File): Promise<{
 
         resolve({
           prospects: Array.from(scrapedProspects.values()),
-          pipelineData: pipelineData
+          pipelineData: pipelineData,
+          ...readExtraColumns(workbook)
         });
 
       } catch (error) {
@@ -902,10 +542,13 @@ export async function parseExcelFile(file: File): Promise<{
 }
 
 // For server-side parsing with file path
-export function parseExcelFromBuffer(buffer: Buffer): {
+export function parseExcelFromBuffer(
+  buffer: Buffer,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): {
   prospects: Partial<Prospect>[];
   pipelineData: Map<string, Partial<PipelineRecord>>;
-} {
+} & ExtraColumns {
   const workbook = XLSX.read(buffer, { type: 'buffer' });
 
   // Parse WORKING tab
@@ -920,159 +563,11 @@ export function parseExcelFromBuffer(buffer: Buffer): {
   const scrapedData = scrapedSheet
     ? XLSX.utils.sheet_to_json<RawScrapedRow>(scrapedSheet)
     : [];
-  const scrapedProspects = parseScrapedTab(scrapedData);
+  const scrapedProspects = parseScrapedTab(scrapedData, profile);
 
   return {
     prospects: Array.from(scrapedProspects.values()),
-    pipelineData: pipelineData
+    pipelineData: pipelineData,
+    ...readExtraColumns(workbook)
   };
 }
-
-// ============================================================================
-// TEST FUNCTION: Validate Title Authority Scoring
-// ============================================================================
-// Run this function to verify that title matching works correctly.
-// Call testTitleScoring() from browser console or use in a test file.
-// ============================================================================
-
-interface TitleTestCase {
-  title: string;
-  expectedScore: number;
-  segment?: 'merchant' | 'agency';
-}
-
-export function testTitleScoring(): void {
-  const testCases: TitleTestCase[] = [
-    // CEO variations - should all be +40
-    { title: 'Chief Executive Officer', expectedScore: 40 },
-    { title: 'CEO', expectedScore: 40 },
-    { title: 'ceo', expectedScore: 40 },
-    { title: 'CEO & Founder', expectedScore: 40 },
-    { title: 'Co-Founder & CEO', expectedScore: 40 },
-    { title: 'CEO/Founder', expectedScore: 40 },
-    { title: 'President & CEO', expectedScore: 40 },
-    { title: 'Chief Executive Officer at TRUEWERK', expectedScore: 40 },
-    { title: 'Chief Executive Officer at Marquee Brands', expectedScore: 40 },
-
-    // Founder variations - should all be +40
-    { title: 'Founder', expectedScore: 40 },
-    { title: 'Co-Founder', expectedScore: 40 },
-    { title: 'Co-founder', expectedScore: 40 },
-    { title: 'Cofounder', expectedScore: 40 },
-    { title: 'Founder & CEO', expectedScore: 40 },
-
-    // COO variations - should all be +40
-    { title: 'COO', expectedScore: 40 },
-    { title: 'Chief Operating Officer', expectedScore: 40 },
-    { title: 'COO & Co-Founder', expectedScore: 40 },
-
-    // Operations leadership for Merchants - should be +40
-    { title: 'VP of Operations', expectedScore: 40 },
-    { title: 'VP Operations', expectedScore: 40 },
-    { title: 'Vice President of Operations', expectedScore: 40 },
-    { title: 'Head of Operations', expectedScore: 40 },
-    { title: 'Director of Operations', expectedScore: 40 },
-
-    // E-commerce leadership for Merchants - should be +40
-    { title: 'Head of E-commerce', expectedScore: 40 },
-    { title: 'Head of Ecommerce', expectedScore: 40 },
-    { title: 'VP of E-commerce', expectedScore: 40 },
-    { title: 'Director of E-commerce', expectedScore: 40 },
-
-    // Other top titles - should be +40
-    { title: 'Owner', expectedScore: 40 },
-    { title: 'President', expectedScore: 40 },
-    { title: 'Managing Partner', expectedScore: 40 },
-
-    // Secondary titles - should be +30
-    { title: 'Operations Manager', expectedScore: 30 },
-    { title: 'Head of Fulfillment', expectedScore: 30 },
-    { title: 'Supply Chain Director', expectedScore: 30 },
-    { title: 'E-commerce Manager', expectedScore: 30 },
-    { title: 'Partner', expectedScore: 30 },
-    { title: 'Principal', expectedScore: 30 },
-
-    // Tertiary titles - should be +20
-    { title: 'Director of Marketing', expectedScore: 20 },
-    { title: 'Head of Sales', expectedScore: 20 },
-    { title: 'VP of Sales', expectedScore: 20 },
-
-    // Lower authority - should be +10
-    { title: 'Marketing Manager', expectedScore: 10 },
-    { title: 'Sales Lead', expectedScore: 10 },
-    { title: 'Senior Developer', expectedScore: 10 },
-
-    // No match - should be 0
-    { title: 'Software Engineer', expectedScore: 0 },
-    { title: 'Analyst', expectedScore: 0 },
-  ];
-
-  console.log('========================================');
-  console.log('TITLE AUTHORITY SCORING TEST RESULTS');
-  console.log('========================================\n');
-
-  let passed = 0;
-  let failed = 0;
-
-  for (const testCase of testCases) {
-    // Create a minimal prospect with just the title
-    const prospect: Partial<Prospect> = {
-      jobTitle: testCase.title,
-      headline: '',
-      companyName: testCase.segment === 'agency' ? 'Test Agency' : 'Test Company',
-      aboutSummary: testCase.segment === 'agency'
-        ? 'We are a Shopify agency helping clients'
-        : 'DTC brand selling products on Shopify',
-      companyIndustry: '',
-      companySize: '11-50'
-    };
-
-    const breakdown = calculateICPScoreWithBreakdown(prospect);
-    const actualScore = breakdown.titleAuthority;
-    const status = actualScore === testCase.expectedScore ? '✓ PASS' : '✗ FAIL';
-
-    if (actualScore === testCase.expectedScore) {
-      passed++;
-    } else {
-      failed++;
-    }
-
-    console.log(`${status} | "${testCase.title}"`);
-    console.log(`       Expected: ${testCase.expectedScore} pts | Actual: ${actualScore} pts`);
-    if (actualScore !== testCase.expectedScore) {
-      console.log(`       Segment detected: ${breakdown.segment}`);
-    }
-    console.log('');
-  }
-
-  console.log('========================================');
-  console.log(`SUMMARY: ${passed} passed, ${failed} failed`);
-  console.log('========================================');
-
-  // Also test the specific bug cases mentioned
-  console.log('\n========================================');
-  console.log('BUG FIX VERIFICATION');
-  console.log('========================================');
-
-  const bugCases = [
-    { name: 'Glenn Silbert', title: 'Chief Executive Officer', company: 'TRUEWERK' },
-    { name: 'Heath Golden', title: 'Chief Executive Officer', company: 'Marquee Brands' },
-  ];
-
-  for (const bugCase of bugCases) {
-    const prospect: Partial<Prospect> = {
-      fullName: bugCase.name,
-      jobTitle: bugCase.title,
-      companyName: bugCase.company,
-      aboutSummary: 'DTC brand selling products on Shopify',
-      companySize: '11-50'
-    };
-
-    const breakdown = calculateICPScoreWithBreakdown(prospect);
-    console.log(`\n${bugCase.name} - ${bugCase.title} at ${bugCase.company}`);
-    console.log(`  Title Authority: ${breakdown.titleAuthority} pts (expected: 40)`);
-    console.log(`  Segment: ${breakdown.segment}`);
-    console.log(`  Total ICP Score: ${breakdown.total}`);
-    console.log(`  Status: ${breakdown.titleAuthority === 40 ? '✓ FIXED' : '✗ STILL BROKEN'}`);
-  }
-}
@@ -0,0 +1,236 @@
+import { generateComments, generateMessagesWithSkill } from '@/lib/claude';
+import { isDoNotContact, getDoNotContactMessage } from '@/lib/do-not-contact';
+import type { LLMProvider } from '@/lib/llm';
+import { saveGeneratedMessages } from '@/lib/message-history';
+import { OUTREACH_MESSAGE_TYPES } from '@/lib/message-rules';
+import { resolvePostFetchProspects, saveFetchedPosts, type PostFetchProspect } from '@/lib/post-fetch';
+import { getScraperConfigError, getScraperProvider, type ScraperProvider } from '@/lib/scraper';
+import { transformDbToApp } from '@/lib/storage';
+import type {
+  FetchPostsJobResult,
+  GenerateCommentsJobResult,
+  GenerateMessagesJobResult,
+  JobType,
+  OutreachMessageType,
+  Prospect
+} from '@/types';
+import { permanentJobError } from './runner';
+import type { JobHandler, JobHandlers } from './types';
+
+// ============================================================================
+// JOB HANDLERS
+// ============================================================================
+//
+// fetch_posts        Start a scraper run, poll it between steps, save the
+//                    posts and enqueue generate_comments for the new ones
+// generate_comments  Comment options for each post, one post per step
+// generate_messages  Outreach messages for each prospect, one per step
+//
+// Generation failures are retried with backoff; on the last attempt the
+// item is recorded as failed and the job moves on to the next one.
+// ============================================================================
+
+const SCRAPE_POLL_INTERVAL_MS = 5_000;
+const SCRAPE_MAX_POLLS = 120; // 10 minutes
+
+// Pause between model calls to respect rate limits
+const GENERATION_DELAY_MS = 500;
+
+export interface JobHandlerOptions {
+  llm?: LLMProvider;           // The configured provider by default
+  scraper?: ScraperProvider;   // The configured scraper by default
+}
+
+export interface FetchPostsPayload {
+  prospectIds?: string[]; // Watched profiles when omitted
+}
+
+export interface GenerateCommentsPayload {
+  postIds: string[];
+}
+
+export interface GenerateMessagesPayload {
+  prospectIds: string[];
+  messageTypes?: OutreachMessageType[];
+}
+
+interface FetchPostsState {
+  runId: string;
+  prospects: PostFetchProspect[];
+  excludedDoNotContact: number;
+  polls: number;
+}
+
+// Checkpoint of the per-item jobs: the next index and what happened so far
+type ItemState<R> = R & { index: number };
+
+/**
+ * Why a payload can't be run, or null when it can
+ */
+export function validateJobPayload(type: JobType, payload: Record<string, unknown>): string | null {
+  const isIdList = (value: unknown) =>
+    Array.isArray(value) && value.length > 0 && value.every(id => typeof id === 'string');
+
+  switch (type) {
+    case 'fetch_posts':
+      return payload.prospectIds === undefined || isIdList(payload.prospectIds)
+        ? null
+        : 'prospectIds must be a non-empty list of ids';
+    case 'generate_comments':
+      return isIdList(payload.postIds) ? null : 'postIds must be a non-empty list of ids';
+    case 'generate_messages': {
+      if (!isIdList(payload.prospectIds)) return 'prospectIds must be a non-empty list of ids';
+      const types = payload.messageTypes as OutreachMessageType[] | undefined;
+      if (types !== undefined && (!Array.isArray(types) || types.length === 0 || types.some(t => !OUTREACH_MESSAGE_TYPES.includes(t)))) {
+        return `messageTypes must be a non-empty list of: ${OUTREACH_MESSAGE_TYPES.join(', ')}`;
+      }
+      return null;
+    }
+    default:
+      return `Unknown job type "${type}"`;
+  }
+}
+
+async function loadProspect(context: Parameters<JobHandler>[0], prospectId: string): Promise<Prospect | null> {
+  const record = await context.storage.getProspectById(prospectId);
+  return record ? transformDbToApp([record])[0] : null;
+}
+
+export function createJobHandlers(options: JobHandlerOptions = {}): JobHandlers {
+  const llm = options.llm;
+  const scraper = () => options.scraper || getScraperProvider();
+
+  const fetchPostsStep: JobHandler = async (context) => {
+    const { job, storage } = context;
+    const state = job.state as FetchPostsState | undefined;
+
+    if (!state) {
+      const { prospectIds } = job.payload as FetchPostsPayload;
+      const { prospects, excludedDoNotContact } = await resolvePostFetchProspects(storage, prospectIds);
+      if (prospects.length === 0) {
+        throw permanentJobError('No prospects to fetch posts for');
+      }
+      const configError = options.scraper ? null : getScraperConfigError();
+      if (configError) {
+        throw permanentJobError(configError);
+      }
+
+      const runId = await scraper().startPostsRun(prospects.map(p => p.linkedinUrl));
+      await context.reportProgress(0, prospects.length, `Scraping ${prospects.length} profiles`);
+      return {
+        done: false,
+        state: { runId, prospects, excludedDoNotContact, polls: 0 },
+        delayMs: SCRAPE_POLL_INTERVAL_MS
+      };
+    }
+
+    const run = await scraper().getPostsRun(state.runId);
+    const status = run.detail || run.status;
+    if (run.status === 'running') {
+      if (state.polls + 1 >= SCRAPE_MAX_POLLS) {
+        throw permanentJobError(`Scraper run timed out. Status: ${status}`);
+      }
+      return { done: false, state: { ...state, polls: state.polls + 1 }, delayMs: SCRAPE_POLL_INTERVAL_MS };
+    }
+    if (run.status === 'failed') {
+      throw permanentJobError(`Scraper run failed. Status: ${status}`);
+    }
+
+    const posts = await scraper().getPostsRunResults(state.runId);
+    await context.reportProgress(0, state.prospects.length, `Saving ${posts.length} posts`);
+    const saved = await saveFetchedPosts(storage, posts, state.prospects);
+    await storage.autoArchiveOldPosts();
+
+    const result: FetchPostsJobResult = {
+      totalScraped: posts.length,
+      savedActive: saved.active.length,
+      savedArchived: saved.archived.length,
+      skipped: saved.skipped.length,
+      skippedDetails: saved.skipped,
+      excludedDoNotContact: state.excludedDoNotContact
+    };
+    if (saved.active.length > 0) {
+      const commentsJob = await context.enqueue('generate_comments', {
+        postIds: saved.active.map(p => p.id as string)
+      });
+      result.commentsJobId = commentsJob.id;
+    }
+
+    await context.reportProgress(state.prospects.length, state.prospects.length, 'Posts saved');
+    return { done: true, result: { ...result } };
+  };
+
+  const generateCommentsStep: JobHandler = async (context) => {
+    const { job, storage } = context;
+    const postIds = job.payload.postIds as GenerateCommentsPayload['postIds'];
+    const state = (job.state as ItemState<GenerateCommentsJobResult> | undefined) ||
+      { index: 0, generated: 0, failed: [] };
+
+    const postId = postIds[state.index];
+    const next = { ...state, index: state.index + 1 };
+    try {
+      const post = await storage.getEngagementPost(postId);
+      const prospect = post?.status === 'active' ? await loadProspect(context, post.prospect_id as string) : null;
+      if (!post || !prospect) {
+        next.failed = [...state.failed, { postId, error: 'Post is no longer active' }];
+      } else if (isDoNotContact(prospect)) {
+        next.failed = [...state.failed, { postId, error: getDoNotContactMessage(prospect) }];
+      } else {
+        const options = await generateComments(prospect, post.post_content as string, llm);
+        await storage.updateEngagementPostComments(postId, [options.conversational, options.perspective, options.brief]);
+        next.generated = state.generated + 1;
+      }
+    } catch (error) {
+      if (context.canRetry) throw error;
+      next.failed = [...state.failed, { postId, error: String(error) }];
+    }
+
+    await context.reportProgress(next.index, postIds.length, `Generated comments for ${next.generated} of ${postIds.length} posts`);
+    if (next.index >= postIds.length) {
+      const { generated, failed } = next;
+      return { done: true, result: { generated, failed } };
+    }
+    return { done: false, state: next, delayMs: GENERATION_DELAY_MS };
+  };
+
+  const generateMessagesStep: JobHandler = async (context) => {
+    const { job, storage } = context;
+    const prospectIds = job.payload.prospectIds as GenerateMessagesPayload['prospectIds'];
+    const messageTypes = (job.payload.messageTypes as GenerateMessagesPayload['messageTypes']) ?? OUTREACH_MESSAGE_TYPES;
+    const state = (job.state as ItemState<GenerateMessagesJobResult> | undefined) ||
+      { index: 0, generated: 0, skipped: [], failed: [] };
+
+    const prospectId = prospectIds[state.index];
+    const next = { ...state, index: state.index + 1 };
+    try {
+      const prospect = await loadProspect(context, prospectId);
+      if (!prospect) {
+        next.failed = [...state.failed, { prospectId, error: 'Prospect not found' }];
+      } else {
+        const generation = await generateMessagesWithSkill(prospect, llm, messageTypes);
+        if ('skipped' in generation) {
+          next.skipped = [...state.skipped, { prospectId, reason: generation.skip_reason }];
+        } else {
+          await saveGeneratedMessages(storage, prospectId, generation);
+          next.generated = state.generated + 1;
+        }
+      }
+    } catch (error) {
+      if (context.canRetry) throw error;
+      next.failed = [...state.failed, { prospectId, error: String(error) }];
+    }
+
+    await context.reportProgress(next.index, prospectIds.length, `Generated messages for ${next.generated} of ${prospectIds.length} prospects`);
+    if (next.index >= prospectIds.length) {
+      const { generated, skipped, failed } = next;
+      return { done: true, result: { generated, skipped, failed } };
+    }
+    return { done: false, state: next, delayMs: GENERATION_DELAY_MS };
+  };
+
+  return {
+    fetch_posts: fetchPostsStep,
+    generate_comments: generateCommentsStep,
+    generate_messages: generateMessagesStep
+  };
+}
@@ -0,0 +1,44 @@
+import type { StorageAdapter } from '@/lib/storage';
+import { createJobHandlers } from './handlers';
+import { drainJobs, type DrainOptions } from './runner';
+
+export * from './types';
+export {
+  DEFAULT_MAX_ATTEMPTS,
+  JOB_TYPES,
+  drainJobs,
+  enqueueJob,
+  getRetryDelayMs,
+  permanentJobError,
+  runJobStep,
+  runNextJob
+} from './runner';
+export type { DrainOptions } from './runner';
+export { createJobHandlers, validateJobPayload } from './handlers';
+export type { FetchPostsPayload, GenerateCommentsPayload, GenerateMessagesPayload, JobHandlerOptions } from './handlers';
+
+// Drains in progress, by workspace
+const draining = new Map<string, Promise<number>>();
+
+/**
+ * Work through the workspace's due jobs in this process. Routes schedule it
+ * with after() once they respond, so enqueueing returns at once; a drain of
+ * the same workspace already in progress is reused rather than started
+ * twice. Server-only.
+ */
+export function runQueuedJobs(storage: StorageAdapter, options?: DrainOptions): Promise<number> {
+  const workspaceId = storage.workspaceId;
+  let drain = draining.get(workspaceId);
+  if (!drain) {
+    drain = drainJobs(storage, createJobHandlers(), options)
+      .catch(error => {
+        console.error('Job worker failed:', error);
+        return 0;
+      })
+      .finally(() => {
+        draining.delete(workspaceId);
+      });
+    draining.set(workspaceId, drain);
+  }
+  return drain;
+}
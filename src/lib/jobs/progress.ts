@@ -0,0 +1,42 @@
+import type { Job, JobStatus } from '@/types';
+
+// ============================================================================
+// JOB PROGRESS
+// ============================================================================
+//
+// How a job's state reads in the UI. Browser-safe: used by JobProgress.
+// ============================================================================
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isJobFinished(job: Pick<Job, 'status'>): boolean {
+  return FINISHED_JOB_STATUSES.includes(job.status);
+}
+
+/**
+ * Percent done, or null while the job doesn't know its total yet
+ */
+export function getJobPercent(job: Pick<Job, 'status' | 'progress'>): number | null {
+  if (job.status === 'succeeded') return 100;
+  const { completed, total } = job.progress;
+  return total > 0 ? Math.min(100, Math.round((completed / total) * 100)) : null;
+}
+
+/**
+ * One line describing where the job is
+ */
+export function describeJob(job: Job): string {
+  switch (job.status) {
+    case 'queued':
+      if (job.error) return `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts}): ${job.error}`;
+      return job.progress.message || 'Waiting to start';
+    case 'running':
+      return job.cancelRequested ? 'Cancelling...' : job.progress.message || 'Working...';
+    case 'succeeded':
+      return job.progress.message || 'Done';
+    case 'failed':
+      return `Failed: ${job.error || 'unknown error'}`;
+    case 'cancelled':
+      return 'Cancelled';
+  }
+}
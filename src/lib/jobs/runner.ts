@@ -0,0 +1,200 @@
+import { transformJob, type DbRecord, type StorageAdapter } from '@/lib/storage';
+import type { Job, JobType } from '@/types';
+import type { EnqueueOptions, JobContext, JobHandlers, JobStep } from './types';
+
+// ============================================================================
+// JOB RUNNER
+// ============================================================================
+//
+// Jobs are rows in the jobs table. A worker claims the oldest job that is
+// due, runs one step of its handler and writes the outcome back:
+//
+//   done      -> succeeded with the handler's result
+//   continue  -> queued again with the checkpoint, due after delayMs
+//   throws    -> queued again after an exponential backoff, or failed once
+//                max_attempts steps in a row have failed
+//
+// Cancelling a queued job is immediate; a running job is cancelled after
+// the step in progress. A job whose worker died is claimed again once its
+// lock is older than JOB_LOCK_TIMEOUT_MS.
+// ============================================================================
+
+export const JOB_TYPES: JobType[] = ['fetch_posts', 'generate_comments', 'generate_messages'];
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const JOB_RETRY_BASE_MS = 5_000;
+export const JOB_RETRY_MAX_MS = 5 * 60_000;
+export const JOB_LOCK_TIMEOUT_MS = 5 * 60_000;
+
+type JobError = Error & { retryable?: boolean };
+
+/**
+ * An error retrying won't fix (bad payload, missing configuration). The job
+ * fails at once instead of backing off.
+ */
+export function permanentJobError(message: string): Error {
+  const error: JobError = new Error(message);
+  error.retryable = false;
+  return error;
+}
+
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof Error && (error as JobError).retryable === false);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wait before retrying after the nth failed attempt: 5s, 10s, 20s, ... up to
+ * 5 minutes
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(JOB_RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), JOB_RETRY_MAX_MS);
+}
+
+export async function enqueueJob(
+  storage: StorageAdapter,
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const record = await storage.createJob({
+    type,
+    payload,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    parent_job_id: options.parentJobId ?? null,
+    progress_total: options.total ?? 0,
+    ...(options.runAt ? { run_at: options.runAt } : {})
+  });
+  return transformJob(record);
+}
+
+const addMs = (date: Date, ms: number) => new Date(date.getTime() + ms).toISOString();
+
+/**
+ * Run one step of a claimed job and record the outcome
+ */
+export async function runJobStep(
+  storage: StorageAdapter,
+  handlers: JobHandlers,
+  record: DbRecord,
+  clock: () => Date = () => new Date()
+): Promise<Job> {
+  const job = transformJob(record);
+  const finish = async (updates: DbRecord) =>
+    transformJob(await storage.updateJob(job.id, {
+      locked_at: null,
+      finished_at: clock().toISOString(),
+      ...updates
+    }));
+
+  if (job.cancelRequested) {
+    return finish({ status: 'cancelled' });
+  }
+  if (!job.startedAt) {
+    await storage.updateJob(job.id, { started_at: clock().toISOString() });
+  }
+
+  const handler = handlers[job.type];
+  const context: JobContext = {
+    job,
+    storage,
+    canRetry: job.attempts + 1 < job.maxAttempts,
+    async reportProgress(completed, total, message) {
+      await storage.updateJob(job.id, {
+        progress_completed: completed,
+        progress_total: total,
+        progress_message: message ?? null
+      });
+    },
+    enqueue: (type, payload) => enqueueJob(storage, type, payload, { parentJobId: job.id })
+  };
+
+  let step: JobStep;
+  try {
+    if (!handler) {
+      throw permanentJobError(`No handler for job type "${job.type}"`);
+    }
+    step = await handler(context);
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    const attempts = job.attempts + 1;
+    if (isRetryable(error) && attempts < job.maxAttempts) {
+      return transformJob(await storage.updateJob(job.id, {
+        status: 'queued',
+        attempts,
+        error: errorMessage(error),
+        run_at: addMs(clock(), getRetryDelayMs(attempts)),
+        locked_at: null
+      }));
+    }
+    return finish({ status: 'failed', attempts, error: errorMessage(error) });
+  }
+
+  // A cancel requested while the step ran takes effect now
+  const latest = await storage.getJob(job.id);
+  if (latest?.cancel_requested) {
+    return finish({ status: 'cancelled', state: step.done ? null : step.state });
+  }
+
+  if (step.done) {
+    return finish({ status: 'succeeded', result: step.result, state: null, error: null });
+  }
+  return transformJob(await storage.updateJob(job.id, {
+    status: 'queued',
+    state: step.state,
+    attempts: 0, // attempts counts failures in a row
+    error: null,
+    run_at: addMs(clock(), step.delayMs ?? 0),
+    locked_at: null
+  }));
+}
+
+/**
+ * Claim and run the next due job. Null when nothing is due.
+ */
+export async function runNextJob(
+  storage: StorageAdapter,
+  handlers: JobHandlers,
+  clock: () => Date = () => new Date()
+): Promise<Job | null> {
+  const now = clock();
+  const record = await storage.claimNextJob(now.toISOString(), addMs(now, -JOB_LOCK_TIMEOUT_MS));
+  return record ? runJobStep(storage, handlers, record, clock) : null;
+}
+
+export interface DrainOptions {
+  deadlineMs?: number; // Stop claiming new steps after this long
+  maxWaitMs?: number;  // Sleep for a queued job due within this long rather than return
+}
+
+/**
+ * Run due jobs until the queue is empty or the deadline passes. Steps that
+ * ask to run again shortly (polling, rate limits) are waited for, so a
+ * single drain usually takes a job to the end.
+ */
+export async function drainJobs(
+  storage: StorageAdapter,
+  handlers: JobHandlers,
+  { deadlineMs = 50_000, maxWaitMs = 10_000 }: DrainOptions = {}
+): Promise<number> {
+  const deadline = Date.now() + deadlineMs;
+  let steps = 0;
+
+  while (Date.now() < deadline) {
+    if (await runNextJob(storage, handlers)) {
+      steps++;
+      continue;
+    }
+
+    const queued = await storage.getJobs({ status: 'queued', limit: 500 });
+    const nextRunAt = Math.min(...queued.map(j => new Date(j.run_at as string).getTime()));
+    const wait = nextRunAt - Date.now();
+    if (!Number.isFinite(wait) || wait > maxWaitMs || Date.now() + wait > deadline) break;
+    await new Promise(resolve => setTimeout(resolve, Math.max(wait, 0)));
+  }
+
+  return steps;
+}
@@ -0,0 +1,30 @@
+// Background job types
+// A job runs as a series of short steps. Each step either finishes the job or
+// saves a checkpoint and asks to run again later, so no step has to outlive
+// the request or worker tick that runs it.
+
+import type { StorageAdapter } from '@/lib/storage';
+import type { Job, JobType } from '@/types';
+
+export type JobStep =
+  | { done: true; result: Record<string, unknown> }
+  | { done: false; state: Record<string, unknown>; delayMs?: number }; // Run again after delayMs
+
+export interface JobContext {
+  job: Job;                   // As claimed; job.state is the last checkpoint
+  storage: StorageAdapter;
+  canRetry: boolean;          // False on the last attempt: record item failures instead of throwing
+  reportProgress(completed: number, total: number, message?: string): Promise<void>;
+  enqueue(type: JobType, payload: Record<string, unknown>): Promise<Job>; // Follow-up job
+}
+
+export type JobHandler = (context: JobContext) => Promise<JobStep>;
+
+export type JobHandlers = Record<JobType, JobHandler>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  parentJobId?: string;
+  total?: number;  // Known amount of work, shown before the first step runs
+  runAt?: string;  // Not before this time; now by default
+}
@@ -0,0 +1,186 @@
+// ============================================================================
+// LINKEDIN PROFILE IDENTITY
+// ============================================================================
+//
+// One person reaches us under many URL forms:
+//
+//   linkedin.com/in/Jane-Doe/                 -> https://www.linkedin.com/in/jane-doe
+//   https://uk.linkedin.com/in/jane-doe?trk=x -> https://www.linkedin.com/in/jane-doe
+//   www.linkedin.com/in/jane-doe/details/experience/
+//                                             -> https://www.linkedin.com/in/jane-doe
+//   linkedin.com/pub/jane-doe/2/b41/a37       -> https://www.linkedin.com/in/jane-doe-a37b412
+//   linkedin.com/in/ACoAAB2x...               -> https://www.linkedin.com/in/ACoAAB2x...
+//   urn:li:fsd_profile:ACoAAB2x...            -> https://www.linkedin.com/in/ACoAAB2x...
+//   linkedin.com/sales/lead/ACwAAB2x...,NAME_SEARCH,abc
+//                                             -> https://www.linkedin.com/in/ACwAAB2x...
+//
+// The canonical URL is the identity: prospects are stored under it, and the
+// other forms seen for the same person (a URN next to a vanity URL, a
+// vanity URL that changed) are kept as aliases on the prospect. Imports,
+// dedupe and post matching all compare identities through this module.
+//
+// Vanity slugs are case-insensitive and compared lowercased; member ids
+// (ACo.../ACw...) are case-sensitive and kept as they are.
+//
+// Browser-safe: used by the import modals as well as the server.
+// ============================================================================
+
+export type LinkedInProfileKind = 'vanity' | 'member';
+
+export interface LinkedInProfileRef {
+  kind: LinkedInProfileKind;
+  id: string;           // Lowercased vanity slug or member id
+  canonicalUrl: string;
+}
+
+const PROFILE_BASE_URL = 'https://www.linkedin.com/in/';
+
+// Member ids: URL-safe base64 starting ACo (profile) or ACw (Sales Navigator)
+const MEMBER_ID = /^AC[ow][A-Za-z0-9_-]{10,}$/;
+
+// urn:li:fsd_profile:ACoAA..., urn:li:fs_miniProfile:ACoAA..., urn:li:member:12345
+const PROFILE_URN = /^urn:li:(?:fsd_profile|fs_profile|fs_miniProfile|fs_salesProfile|member):([A-Za-z0-9_-]+)/;
+
+const LINKEDIN_URL = /^(?:https?:\/\/)?((?:[a-z0-9-]+\.)*linkedin\.com)(\/[^?#]*)?/i;
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function memberRef(id: string): LinkedInProfileRef {
+  return {
+    kind: 'member',
+    id,
+    canonicalUrl: MEMBER_ID.test(id) ? PROFILE_BASE_URL + id : `urn:li:member:${id}`
+  };
+}
+
+function vanityRef(slug: string): LinkedInProfileRef | null {
+  const id = safeDecode(slug).trim().toLowerCase();
+  if (!id) return null;
+  // Percent-encoded with lowercase hex, matching lower() in SQL
+  return { kind: 'vanity', id, canonicalUrl: PROFILE_BASE_URL + encodeURIComponent(id).toLowerCase() };
+}
+
+/**
+ * The profile a URL or URN points at, or null when it isn't a LinkedIn
+ * profile (company pages, posts, other sites)
+ */
+export function parseLinkedInProfile(input: string | null | undefined): LinkedInProfileRef | null {
+  const value = (input || '').trim();
+  if (!value) return null;
+
+  const urn = value.match(PROFILE_URN);
+  if (urn) return memberRef(urn[1]);
+
+  const url = value.match(LINKEDIN_URL);
+  if (!url) return null;
+  const segments = (url[2] || '').split('/').filter(Boolean);
+  const [section, slug, ...rest] = segments;
+  if (!slug) return null;
+
+  switch (section.toLowerCase()) {
+    case 'in': {
+      const id = safeDecode(slug);
+      return MEMBER_ID.test(id) ? memberRef(id) : vanityRef(slug);
+    }
+    case 'pub': {
+      // Legacy public URLs: /pub/name/c/b/a is /in/name-abc
+      const suffix = rest.filter(part => /^[0-9a-z]{1,3}$/i.test(part)).reverse().join('');
+      return vanityRef(suffix ? `${slug}-${suffix}` : slug);
+    }
+    case 'sales': {
+      // Sales Navigator: /sales/lead/ACwAA...,NAME_SEARCH,xyz or /sales/people/...
+      const id = (rest[0] || '').split(',')[0];
+      return (slug === 'lead' || slug === 'people') && MEMBER_ID.test(id) ? memberRef(id) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function isLinkedInProfileUrl(input: string | null | undefined): boolean {
+  return parseLinkedInProfile(input) !== null;
+}
+
+/**
+ * The canonical form of a profile URL. Anything that isn't a profile URL is
+ * only tidied (https, www, no query or trailing slash) so it still compares
+ * equal to itself. Empty input gives ''.
+ */
+export function canonicalizeLinkedInUrl(input: string | null | undefined): string {
+  const profile = parseLinkedInProfile(input);
+  if (profile) return profile.canonicalUrl;
+
+  let url = (input || '').trim().split(/[?#]/)[0].replace(/\/+$/, '');
+  if (!url) return '';
+  if (!/^https?:\/\//i.test(url)) url = 'https://' + url;
+  url = url.replace(/^http:\/\//i, 'https://');
+  return url.replace(/^https:\/\/(?:[a-z0-9-]+\.)*linkedin\.com/i, 'https://www.linkedin.com').toLowerCase();
+}
+
+/**
+ * The distinct canonical URLs among `urls`, in order, blanks dropped
+ */
+export function getLinkedInIdentities(urls: Array<string | null | undefined>): string[] {
+  const identities: string[] = [];
+  for (const url of urls) {
+    const canonical = canonicalizeLinkedInUrl(url);
+    if (canonical && !identities.includes(canonical)) identities.push(canonical);
+  }
+  return identities;
+}
+
+/**
+ * Every identity a prospect is known by: its URL and its aliases
+ */
+export function getProspectIdentities(linkedinUrl: string | null | undefined, aliases: unknown = []): string[] {
+  return getLinkedInIdentities([linkedinUrl, ...(Array.isArray(aliases) ? aliases as string[] : [])]);
+}
+
+/**
+ * Aliases after `urls` are seen for a prospect stored under `linkedinUrl`:
+ * the canonical forms not already equal to its URL
+ */
+export function mergeLinkedInAliases(linkedinUrl: string, aliases: unknown, urls: Array<string | null | undefined>): string[] {
+  const primary = canonicalizeLinkedInUrl(linkedinUrl);
+  return getProspectIdentities(null, [...(Array.isArray(aliases) ? aliases : []), ...urls])
+    .filter(identity => identity !== primary);
+}
+
+export interface LinkedInIdentityIndex<T> {
+  add(urls: Array<string | null | undefined>, value: T): void;  // First value added for an identity wins
+  get(url: string | null | undefined): T | undefined;
+  find(urls: Array<string | null | undefined>): T | undefined;  // First of `urls` that is known
+}
+
+/**
+ * Look values up by any URL form of the profiles they were added under
+ */
+export function createLinkedInIdentityIndex<T>(): LinkedInIdentityIndex<T> {
+  const values = new Map<string, T>();
+
+  const index: LinkedInIdentityIndex<T> = {
+    add(urls, value) {
+      for (const identity of getLinkedInIdentities(urls)) {
+        if (!values.has(identity)) values.set(identity, value);
+      }
+    },
+    get(url) {
+      const identity = canonicalizeLinkedInUrl(url);
+      return identity ? values.get(identity) : undefined;
+    },
+    find(urls) {
+      for (const url of urls) {
+        const value = index.get(url);
+        if (value !== undefined) return value;
+      }
+      return undefined;
+    }
+  };
+  return index;
+}
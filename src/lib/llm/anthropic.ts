@@ -0,0 +1,58 @@
+import { createProvider } from './provider';
+import type { LLMProvider, LLMTask, LLMTaskSettings } from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicResponse {
+  content?: Array<{ type: string; text?: string }>;
+  error?: { message?: string };
+}
+
+// Calls the Messages API directly; there is no Anthropic SDK dependency
+export function createAnthropicProvider(
+  apiKey: string,
+  settings: Record<LLMTask, LLMTaskSettings>
+): LLMProvider {
+  return createProvider('anthropic', settings, async (request, taskSettings) => {
+    // The Messages API takes system prompts separately from the turns
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const messages = request.messages.filter(m => m.role !== 'system');
+
+    // There is no JSON mode; prefilling "{" keeps the reply to the object
+    if (request.json) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model: taskSettings.model,
+        max_tokens: taskSettings.maxTokens,
+        temperature: taskSettings.temperature,
+        ...(system ? { system } : {}),
+        messages
+      })
+    });
+
+    const data = await response.json() as AnthropicResponse;
+    if (!response.ok) {
+      throw new Error(`Anthropic API error (${response.status}): ${data.error?.message || 'unknown error'}`);
+    }
+
+    const text = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    if (!text) return null;
+    return request.json ? '{' + text : text;
+  });
+}
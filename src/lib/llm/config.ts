@@ -0,0 +1,76 @@
+import type { LLMProviderName, LLMTask, LLMTaskSettings } from './types';
+
+export const LLM_TASKS: LLMTask[] = ['messages', 'comments', 'classification', 'replies'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+  mock: 'mock'
+};
+
+// Sampling defaults per task (the values each call hardcoded before)
+const TASK_DEFAULTS: Record<LLMTask, Omit<LLMTaskSettings, 'model'>> = {
+  messages: { temperature: 0.7, maxTokens: 1500 },
+  comments: { temperature: 0.8, maxTokens: 500 },
+  classification: { temperature: 0.3, maxTokens: 200 },
+  replies: { temperature: 0.7, maxTokens: 800 }
+};
+
+type Env = Record<string, string | undefined>;
+
+function readNumber(env: Env, key: string, fallback: number): number {
+  const raw = env[key];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    console.warn(`Ignoring ${key}=${raw}: not a number`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Settings for every task. Per-task env vars win over LLM_MODEL, which wins
+ * over the provider default:
+ *   LLM_MODEL_MESSAGES, LLM_TEMPERATURE_COMMENTS, LLM_MAX_TOKENS_CLASSIFICATION, ...
+ */
+export function resolveLLMTaskSettings(
+  provider: LLMProviderName,
+  env: Env = process.env
+): Record<LLMTask, LLMTaskSettings> {
+  const settings = {} as Record<LLMTask, LLMTaskSettings>;
+  for (const task of LLM_TASKS) {
+    const suffix = task.toUpperCase();
+    const defaults = TASK_DEFAULTS[task];
+    settings[task] = {
+      model: env[`LLM_MODEL_${suffix}`] || env.LLM_MODEL || DEFAULT_MODELS[provider],
+      temperature: readNumber(env, `LLM_TEMPERATURE_${suffix}`, defaults.temperature),
+      maxTokens: readNumber(env, `LLM_MAX_TOKENS_${suffix}`, defaults.maxTokens)
+    };
+  }
+  return settings;
+}
+
+/**
+ * Resolve which provider to use. LLM_PROVIDER forces a choice; otherwise
+ * OpenAI is used when its key is set, then Anthropic. The mock is never
+ * picked implicitly so missing keys can't silently produce canned output.
+ */
+export function getLLMProviderName(env: Env = process.env): LLMProviderName | null {
+  const forced = env.LLM_PROVIDER;
+  if (forced === 'openai' || forced === 'anthropic' || forced === 'mock') return forced;
+  if (env.OPENAI_API_KEY) return 'openai';
+  if (env.ANTHROPIC_API_KEY) return 'anthropic';
+  return null;
+}
+
+/**
+ * Why LLM calls can't run right now, or null when they can
+ */
+export function getLLMConfigError(env: Env = process.env): string | null {
+  const name = getLLMProviderName(env);
+  if (!name) return 'No LLM provider configured (set OPENAI_API_KEY, ANTHROPIC_API_KEY or LLM_PROVIDER)';
+  if (name === 'openai' && !env.OPENAI_API_KEY) return 'OPENAI_API_KEY is not configured';
+  if (name === 'anthropic' && !env.ANTHROPIC_API_KEY) return 'ANTHROPIC_API_KEY is not configured';
+  return null;
+}
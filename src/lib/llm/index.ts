@@ -0,0 +1,34 @@
+import { getLLMConfigError, getLLMProviderName, resolveLLMTaskSettings } from './config';
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createRecordingProvider, createReplayProvider, getRecordingKey } from './recorded';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export { LLM_TASKS, getLLMConfigError, getLLMProviderName, resolveLLMTaskSettings } from './config';
+export { parseJSONContent } from './provider';
+export { createOpenAIProvider, createAnthropicProvider, createMockProvider };
+export { createRecordingProvider, createReplayProvider, getRecordingKey };
+export type { MockProvider, MockResponder, MockScript } from './mock';
+export type { LLMRecordings } from './recorded';
+
+let provider: LLMProvider | null = null;
+
+// Server-only: API keys come from the environment
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const configError = getLLMConfigError();
+    if (configError) {
+      throw new Error(configError);
+    }
+    const name = getLLMProviderName()!;
+    const settings = resolveLLMTaskSettings(name);
+    provider = name === 'openai'
+      ? createOpenAIProvider(process.env.OPENAI_API_KEY!, settings)
+      : name === 'anthropic'
+        ? createAnthropicProvider(process.env.ANTHROPIC_API_KEY!, settings)
+        : createMockProvider({}, settings);
+  }
+  return provider;
+}
@@ -0,0 +1,119 @@
+import { resolveLLMTaskSettings } from './config';
+import { createProvider } from './provider';
+import type { LLMProvider, LLMRequest, LLMTask, LLMTaskSettings } from './types';
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+//
+// Deterministic, offline stand-in for a real model. Used by tests and with
+// LLM_PROVIDER=mock for local development without API keys.
+//
+// A script can pin the reply for a task: a fixed string, a function of the
+// request, or a list of either consumed in order (the last one repeats).
+// Tasks without a script get a canned reply derived from the prompt.
+// ============================================================================
+
+export type MockResponder = string | ((request: LLMRequest) => string);
+
+export type MockScript = Partial<Record<LLMTask, MockResponder | MockResponder[]>>;
+
+export interface MockProvider extends LLMProvider {
+  calls: LLMRequest[]; // Every request received, in order
+}
+
+function promptText(request: LLMRequest): string {
+  return request.messages
+    .filter(m => m.role === 'user')
+    .map(m => m.content)
+    .join('\n');
+}
+
+function promptField(request: LLMRequest, label: string): string | undefined {
+  const match = promptText(request).match(new RegExp(`^${label}:\\s*(.+)$`, 'm'));
+  return match?.[1].trim();
+}
+
+// Keyword rules for the canned classifier, checked in order
+const MOCK_CLASSIFICATION_RULES: Array<{ classification: string; keywords: string[] }> = [
+  { classification: 'hard_no', keywords: ['stop messaging', 'remove me', 'unsubscribe'] },
+  { classification: 'has_competitor', keywords: ['route', 'insureshield', 'navidium', 'self-insure'] },
+  { classification: 'wrong_target', keywords: ["don't ship", 'not on shopify'] },
+  { classification: 'not_interested', keywords: ['not interested', "we're good", 'not a priority'] },
+  { classification: 'hot_lead', keywords: ['funny timing', 'evaluating', 'looking for'] },
+  { classification: 'deflecting', keywords: ['talk to our', 'ops question', 'not my area'] },
+  { classification: 'asking_who_you_are', keywords: ['what do you do', 'sales thing', 'why do you ask'] },
+  { classification: 'problem_aware', keywords: ['nightmare', 'headache', 'deal with that'] },
+  { classification: 'curious', keywords: ['how does', 'tell me more', 'what do you mean'] }
+];
+
+const DEFAULT_RESPONDERS: Record<LLMTask, (request: LLMRequest) => string> = {
+  messages: (request) => {
+    const firstName = promptField(request, 'First Name') || 'there';
+    const company = promptField(request, 'Company')
+      || promptField(request, 'Current Role')?.split(' at ').pop()
+      || 'your company';
+    return JSON.stringify({
+      connection_request: `Hi ${firstName}, I have been following what you are building at ${company}. Would be good to connect.\n\nIsaac`,
+      opening_dm: `Thanks for connecting ${firstName}. I run shipping protection for Shopify brands and saw a few things at ${company} worth comparing notes on.\n\nIsaac`,
+      follow_up: `${firstName}, one more note on ${company}. Other operators are seeing the same pattern and I can share the numbers.\n\nIsaac`
+    });
+  },
+
+  comments: () => [
+    'Really interesting take. How long did it take before you saw the results?',
+    'This matches what we have seen with operators who measure the whole funnel.',
+    'Good reminder. Saving this one.'
+  ].join('\n---\n'),
+
+  classification: (request) => {
+    const reply = (promptText(request).match(/## PROSPECT'S RESPONSE\s*\n"([\s\S]*?)"/)?.[1] || '').toLowerCase();
+    const rule = MOCK_CLASSIFICATION_RULES.find(r => r.keywords.some(k => reply.includes(k)));
+    return JSON.stringify({
+      classification: rule?.classification || 'non_committal',
+      confidence: rule ? 80 : 50,
+      reasoning: rule ? 'Matched mock keyword rule' : 'No mock keyword rule matched'
+    });
+  },
+
+  replies: (request) => {
+    if (/## CLASSIFICATION\s*\nhard_no/.test(promptText(request))) {
+      return JSON.stringify({
+        responses: [{ style: 'direct', content: 'Understood. Removed.' }],
+        recommendedAction: 'Mark as do-not-contact. No follow-up ever.'
+      });
+    }
+    return JSON.stringify({
+      responses: [
+        { style: 'direct', content: 'Makes sense. Worth a quick call to run the numbers for your volume? [CALENDAR_LINK]' },
+        { style: 'soft', content: 'Appreciate you sharing that. I can send over how other brands handle it.' },
+        { style: 'question_first', content: 'How are you handling lost packages today?' }
+      ],
+      recommendedAction: 'Continue the conversation'
+    });
+  }
+};
+
+export function createMockProvider(
+  script: MockScript = {},
+  settings: Record<LLMTask, LLMTaskSettings> = resolveLLMTaskSettings('mock', {})
+): MockProvider {
+  const calls: LLMRequest[] = [];
+  const callsByTask = new Map<LLMTask, number>();
+
+  const provider = createProvider('mock', settings, async (request) => {
+    calls.push(request);
+    const index = callsByTask.get(request.task) || 0;
+    callsByTask.set(request.task, index + 1);
+
+    const scripted = script[request.task];
+    const responder = Array.isArray(scripted)
+      ? scripted[Math.min(index, scripted.length - 1)]
+      : scripted;
+
+    if (responder === undefined) return DEFAULT_RESPONDERS[request.task](request);
+    return typeof responder === 'function' ? responder(request) : responder;
+  });
+
+  return { ...provider, calls };
+}
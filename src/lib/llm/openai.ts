@@ -0,0 +1,22 @@
+import OpenAI from 'openai';
+import { createProvider } from './provider';
+import type { LLMProvider, LLMTask, LLMTaskSettings } from './types';
+
+export function createOpenAIProvider(
+  apiKey: string,
+  settings: Record<LLMTask, LLMTaskSettings>
+): LLMProvider {
+  const client = new OpenAI({ apiKey });
+
+  return createProvider('openai', settings, async (request, taskSettings) => {
+    const response = await client.chat.completions.create({
+      model: taskSettings.model,
+      max_tokens: taskSettings.maxTokens,
+      temperature: taskSettings.temperature,
+      messages: request.messages,
+      // JSON mode requires the prompt to mention JSON, which ours always do
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {})
+    });
+    return response.choices[0]?.message?.content;
+  });
+}
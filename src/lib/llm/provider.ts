@@ -0,0 +1,68 @@
+import type {
+  CompleteFn,
+  LLMProvider,
+  LLMProviderName,
+  LLMTask,
+  LLMTaskSettings
+} from './types';
+
+/**
+ * Pull a JSON object out of a model reply. Handles ```json fences and
+ * stray prose around the object.
+ */
+export function parseJSONContent<T>(content: string): T {
+  let text = content.trim();
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) {
+    text = fenced[1];
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    const objectMatch = text.match(/\{[\s\S]*\}/);
+    if (objectMatch) {
+      try {
+        return JSON.parse(objectMatch[0]) as T;
+      } catch {
+        // fall through to the error below
+      }
+    }
+  }
+
+  console.error('Failed to parse LLM response as JSON:', content);
+  throw new Error('LLM response was not valid JSON');
+}
+
+/**
+ * Build a provider around a single request function. Adds per-task
+ * settings lookup, empty-reply handling and JSON mode.
+ */
+export function createProvider(
+  name: LLMProviderName,
+  settings: Record<LLMTask, LLMTaskSettings>,
+  send: CompleteFn
+): LLMProvider {
+  async function run(task: LLMTask, request: Parameters<CompleteFn>[0]) {
+    const taskSettings = settings[task];
+    const content = await send(request, taskSettings);
+    if (!content) {
+      throw new Error(`No response from ${name} (${task})`);
+    }
+    return { content, provider: name, model: taskSettings.model };
+  }
+
+  return {
+    name,
+    settings,
+
+    complete(request) {
+      return run(request.task, { ...request, json: request.json ?? false });
+    },
+
+    async completeJSON<T>(request: Parameters<LLMProvider['completeJSON']>[0]) {
+      const { content } = await run(request.task, { ...request, json: true });
+      return parseJSONContent<T>(content);
+    }
+  };
+}
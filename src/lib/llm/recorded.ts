@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { LLM_TASKS, resolveLLMTaskSettings } from './config';
+import { createMockProvider, type MockProvider, type MockScript } from './mock';
+import { createProvider } from './provider';
+import type { LLMProvider, LLMRequest, LLMTask, LLMTaskSettings } from './types';
+
+// ============================================================================
+// RECORDED PROVIDER
+// ============================================================================
+//
+// Record a real provider's replies once, then replay them offline. Replies
+// are keyed by a hash of the task and the full prompt, so a replay only
+// answers requests it has seen: changing the prompt needs a new recording.
+//
+// Used by the classification eval harness (scripts/eval-classification.ts).
+// ============================================================================
+
+// Recording key -> raw reply content
+export type LLMRecordings = Record<string, string>;
+
+export function getRecordingKey(request: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ task: request.task, messages: request.messages }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Wrap a provider so every reply is also written into `recordings`
+ */
+export function createRecordingProvider(inner: LLMProvider, recordings: LLMRecordings): LLMProvider {
+  return createProvider(inner.name, inner.settings, async (request) => {
+    const { content } = await inner.complete(request);
+    recordings[getRecordingKey(request)] = content;
+    return content;
+  });
+}
+
+/**
+ * Answer only from `recordings`; a request that was never recorded throws
+ */
+export function createReplayProvider(
+  recordings: LLMRecordings,
+  settings: Record<LLMTask, LLMTaskSettings> = resolveLLMTaskSettings('mock', {})
+): MockProvider {
+  const replay = (request: LLMRequest) => {
+    const content = recordings[getRecordingKey(request)];
+    if (content === undefined) {
+      throw new Error(`No recorded reply for this ${request.task} request. Record it again against a live provider.`);
+    }
+    return content;
+  };
+
+  const script: MockScript = Object.fromEntries(LLM_TASKS.map(task => [task, replay]));
+  return createMockProvider(script, settings);
+}
@@ -0,0 +1,49 @@
+// LLM provider types
+// Every model call in the app goes through an LLMProvider so the model and
+// sampling settings live in one place and the mock can stand in offline.
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+// What a call is for. Each task has its own model/temperature/max tokens.
+export type LLMTask =
+  | 'messages'        // Outreach messages (connection request, DM, follow-up)
+  | 'comments'        // Comment options for engagement posts
+  | 'classification'  // Classifying a prospect's reply
+  | 'replies';        // Reply options for a classified response
+
+export interface LLMTaskSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  json?: boolean; // Ask the provider for a single JSON object
+}
+
+export interface LLMCompletion {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  settings: Record<LLMTask, LLMTaskSettings>;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // Completes in JSON mode and parses the object out of the reply
+  completeJSON<T>(request: Omit<LLMRequest, 'json'>): Promise<T>;
+}
+
+// A provider only has to send one request; completeJSON is shared
+export type CompleteFn = (
+  request: LLMRequest,
+  settings: LLMTaskSettings
+) => Promise<string | null | undefined>;
@@ -0,0 +1,90 @@
+import type { MessageGenerationResult } from '@/lib/claude';
+import { OUTREACH_MESSAGE_TYPES } from '@/lib/message-rules';
+import { DEFAULT_SEQUENCE } from '@/lib/sequences';
+import { transformGeneratedMessage } from '@/lib/storage/transform';
+import type { StorageAdapter } from '@/lib/storage/types';
+import type { GeneratedMessage, MessageType, PipelineStatus } from '@/types';
+
+// ============================================================================
+// GENERATED MESSAGE HISTORY
+// ============================================================================
+//
+// Every generation is saved as a new version of its message type, with the
+// track, hook, model and prompt version that produced it. Marking a version
+// sent completes the matching sequence step and moves the pipeline forward.
+//
+// Browser-safe: used by the API routes, the generate_messages job and
+// ProspectDetail. Saving takes the storage adapter as an argument.
+// ============================================================================
+
+// Outreach stages in order; marking a message sent never moves a prospect back
+const OUTREACH_STATUSES: PipelineStatus[] = [
+  'not_contacted',
+  'visited',
+  'connection_sent',
+  'connected',
+  'message_sent'
+];
+
+/**
+ * Versions of each message type, newest first
+ */
+export function groupMessageVersions(messages: GeneratedMessage[]): Partial<Record<MessageType, GeneratedMessage[]>> {
+  const grouped: Partial<Record<MessageType, GeneratedMessage[]>> = {};
+  for (const message of messages) {
+    (grouped[message.messageType] ||= []).push(message);
+  }
+  for (const versions of Object.values(grouped)) {
+    versions.sort((a, b) => b.version - a.version || b.generatedAt.localeCompare(a.generatedAt));
+  }
+  return grouped;
+}
+
+/**
+ * Pipeline changes for sending a message: advance to the status its sequence
+ * step leads to, and stamp message_sent_at for the opening DM. Null when
+ * nothing changes.
+ */
+export function getMessageSentPipelineUpdate(
+  messageType: MessageType,
+  currentStatus: PipelineStatus,
+  sentAt: string
+): { status?: PipelineStatus; message_sent_at?: string } | null {
+  const update: { status?: PipelineStatus; message_sent_at?: string } = {};
+
+  const step = DEFAULT_SEQUENCE.steps.find(s => s.messageType === messageType);
+  const currentIndex = OUTREACH_STATUSES.indexOf(currentStatus);
+  if (step?.advancesTo && currentIndex !== -1 && currentIndex < OUTREACH_STATUSES.indexOf(step.advancesTo)) {
+    update.status = step.advancesTo;
+  }
+  if (messageType === 'opening_dm') {
+    update.message_sent_at = sentAt;
+  }
+
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * Store each generated message as a new version with how it was produced
+ */
+export async function saveGeneratedMessages(
+  storage: StorageAdapter,
+  prospectId: string,
+  result: MessageGenerationResult
+): Promise<GeneratedMessage[]> {
+  const saved: GeneratedMessage[] = [];
+  for (const type of OUTREACH_MESSAGE_TYPES) {
+    const content = result.messages[type];
+    if (content === undefined) continue;
+    const record = await storage.saveGeneratedMessage(prospectId, type, content, {
+      track: result.track,
+      personalization_hook: result.personalization_hook,
+      model: result.model,
+      prompt_variant: result.prompts[type]?.variant,
+      prompt_version: result.prompts[type]?.version,
+      rule_warnings: result.warnings.filter(w => w.messageType === type)
+    });
+    saved.push(transformGeneratedMessage(record));
+  }
+  return saved;
+}
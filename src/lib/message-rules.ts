@@ -0,0 +1,138 @@
+import type { MessageRuleWarning, OutreachMessageType } from '@/types';
+
+// ============================================================================
+// OUTREACH MESSAGE SCHEMA AND RULES
+// ============================================================================
+//
+// generateMessagesWithSkill asks the model for a JSON object with the three
+// outreach messages. validateOutreachMessages checks that shape (after
+// repairing common near-misses) and checkMessageRules checks each message
+// against the writing rules stated in the prompt.
+//
+// Browser-safe: no server-only imports.
+// ============================================================================
+
+export const OUTREACH_MESSAGE_TYPES: OutreachMessageType[] = ['connection_request', 'opening_dm', 'follow_up'];
+
+export const MESSAGE_MAX_LENGTHS: Record<OutreachMessageType, number> = {
+  connection_request: 300,
+  opening_dm: 800,
+  follow_up: 400
+};
+
+export const MESSAGE_SIGNATURE = 'Isaac';
+
+export type OutreachMessages = Record<OutreachMessageType, string>;
+
+export interface OutreachMessagesValidation {
+  messages?: Partial<OutreachMessages>; // Set only when there are no errors
+  errors: string[];
+}
+
+// Key spellings models use instead of the requested snake_case
+const KEY_ALIASES: Record<string, OutreachMessageType> = {
+  connectionRequest: 'connection_request',
+  connection: 'connection_request',
+  openingDm: 'opening_dm',
+  openingDM: 'opening_dm',
+  opening_message: 'opening_dm',
+  followUp: 'follow_up',
+  follow_up_message: 'follow_up'
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Fix near-miss output without another model call: the object nested under
+ * "messages", camelCase keys, and surrounding whitespace
+ */
+export function repairOutreachMessages(input: unknown): unknown {
+  if (!isObject(input)) return input;
+
+  const source = isObject(input.messages) ? input.messages : input;
+  const repaired: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source)) {
+    const target = KEY_ALIASES[key] || key;
+    if (repaired[target] !== undefined) continue;
+    repaired[target] = typeof value === 'string' ? value.trim() : value;
+  }
+  return repaired;
+}
+
+/**
+ * Check the generated output has each requested message (all three by
+ * default) as a non-empty string
+ */
+export function validateOutreachMessages(
+  input: unknown,
+  types: OutreachMessageType[] = OUTREACH_MESSAGE_TYPES
+): OutreachMessagesValidation {
+  if (!isObject(input)) {
+    return { errors: ['output must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  for (const type of types) {
+    const value = input[type];
+    if (value === undefined) {
+      errors.push(`${type} is missing`);
+    } else if (typeof value !== 'string') {
+      errors.push(`${type} must be a string`);
+    } else if (value.trim() === '') {
+      errors.push(`${type} is empty`);
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const messages: Partial<OutreachMessages> = {};
+  for (const type of types) {
+    messages[type] = input[type] as string;
+  }
+  return { messages, errors };
+}
+
+// Built at runtime: unicode property escapes need an ES2018 target
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u');
+
+/**
+ * Check one message against the writing rules from the prompt
+ */
+export function checkMessageRule(type: OutreachMessageType, content: string): MessageRuleWarning[] {
+  const warnings: MessageRuleWarning[] = [];
+  const warn = (rule: MessageRuleWarning['rule'], detail: string) => {
+    warnings.push({ messageType: type, rule, detail });
+  };
+
+  const maxLength = MESSAGE_MAX_LENGTHS[type];
+  if (content.length > maxLength) {
+    warn('max_length', `${content.length} characters (max ${maxLength})`);
+  }
+  if (content.includes('—')) {
+    warn('em_dash', 'Contains an em-dash');
+  }
+  if (content.includes('!')) {
+    warn('exclamation', 'Contains an exclamation point');
+  }
+  const emoji = content.match(EMOJI_PATTERN);
+  if (emoji) {
+    warn('emoji', `Contains an emoji (${emoji[0]})`);
+  }
+  const lastLine = content.trimEnd().split('\n').pop()?.trim();
+  if (lastLine !== MESSAGE_SIGNATURE) {
+    warn('signature', `Must end with "${MESSAGE_SIGNATURE}" on its own line`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Check every message present; an empty list means every rule was followed
+ */
+export function checkMessageRules(messages: Partial<OutreachMessages>): MessageRuleWarning[] {
+  return OUTREACH_MESSAGE_TYPES
+    .filter(type => messages[type] !== undefined)
+    .flatMap(type => checkMessageRule(type, messages[type]!));
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Client } from 'pg';
+import { getStorageBackend } from '@/lib/storage';
+import { getLocalDbPath, loadLocalDatabase, table, updateLocalDatabase } from '@/lib/storage/local';
+
+// ============================================================================
+// SCHEMA MIGRATIONS
+// ============================================================================
+//
+// Numbered SQL files live in src/migrations (0001_initial_schema.sql, ...).
+// Applied versions are recorded in the schema_migrations table. Against
+// Supabase the SQL runs over a direct Postgres connection (DATABASE_URL);
+// against the local file backend the tables are created empty.
+//
+// Run with: npm run db:status / npm run db:migrate
+// ============================================================================
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'src', 'migrations');
+
+// Every table the application code reads or writes. If one of these is
+// missing the schema has drifted from what the code expects.
+export const REQUIRED_TABLES = [
+  'prospects',
+  'pipeline_status',
+  'generated_messages',
+  'engagement_watched_profiles',
+  'engagement_posts',
+  'response_interactions',
+  'pipeline_events',
+  'scoring_profiles',
+  'icp_score_snapshots',
+  'sequence_progress',
+  'import_batches',
+  'conversation_messages',
+  'jobs',
+  'workspaces',
+  'workspace_members',
+  'assignment_settings',
+  'custom_fields',
+  'saved_views'
+];
+
+export interface Migration {
+  version: string;   // e.g. "0002"
+  name: string;      // e.g. "response_interactions"
+  sql: string;
+  tables: string[];  // tables created by this migration
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  backend: 'postgres' | 'local';
+  applied: AppliedMigration[];
+  pending: Migration[];
+  missingTables: string[];
+}
+
+// Where migrations are applied
+interface MigrationTarget {
+  backend: MigrationStatus['backend'];
+  getApplied(): Promise<AppliedMigration[]>;
+  getTables(): Promise<string[]>;
+  apply(migration: Migration): Promise<void>;
+  close(): Promise<void>;
+}
+
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+/**
+ * Load migration files in version order
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  return fs.readdirSync(dir)
+    .map(file => ({ file, match: file.match(MIGRATION_FILE_PATTERN) }))
+    .filter((entry): entry is { file: string; match: RegExpMatchArray } => entry.match !== null)
+    .sort((a, b) => a.match[1].localeCompare(b.match[1]))
+    .map(({ file, match }) => {
+      const sql = fs.readFileSync(path.join(dir, file), 'utf-8');
+      const tables = Array.from(sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)/gi), m => m[1]);
+      return { version: match[1], name: match[2], sql, tables };
+    });
+}
+
+const TRACKING_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+`;
+
+function createPostgresTarget(connectionString: string): MigrationTarget {
+  const client = new Client({ connectionString });
+  let ready: Promise<unknown> | null = null;
+
+  function connect() {
+    if (!ready) {
+      ready = client.connect().then(() => client.query(TRACKING_TABLE_SQL));
+    }
+    return ready;
+  }
+
+  return {
+    backend: 'postgres',
+
+    async getApplied() {
+      await connect();
+      const { rows } = await client.query<AppliedMigration>(
+        'SELECT version, name, applied_at::text AS applied_at FROM schema_migrations ORDER BY version'
+      );
+      return rows;
+    },
+
+    async getTables() {
+      await connect();
+      const { rows } = await client.query<{ table_name: string }>(
+        "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'"
+      );
+      return rows.map(r => r.table_name);
+    },
+
+    async apply(migration: Migration) {
+      await connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    },
+
+    async close() {
+      if (ready) await client.end();
+    }
+  };
+}
+
+function createLocalTarget(filePath: string): MigrationTarget {
+  return {
+    backend: 'local',
+
+    async getApplied() {
+      const db = loadLocalDatabase(filePath);
+      return table(db, 'schema_migrations').map(row => ({
+        version: row.version as string,
+        name: row.name as string,
+        applied_at: row.applied_at as string
+      }));
+    },
+
+    async getTables() {
+      return Object.keys(loadLocalDatabase(filePath));
+    },
+
+    async apply(migration: Migration) {
+      updateLocalDatabase(filePath, db => {
+        for (const name of migration.tables) {
+          table(db, name);
+        }
+        table(db, 'schema_migrations').push({
+          version: migration.version,
+          name: migration.name,
+          applied_at: new Date().toISOString()
+        });
+      });
+    },
+
+    async close() {}
+  };
+}
+
+/**
+ * Pick the migration target matching the active storage backend
+ */
+export function getMigrationTarget(): MigrationTarget {
+  if (getStorageBackend() === 'local') {
+    return createLocalTarget(getLocalDbPath());
+  }
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL is required to run migrations against Supabase (Project Settings > Database > Connection string)');
+  }
+  return createPostgresTarget(connectionString);
+}
+
+/**
+ * Compare migration files and required tables against the database
+ */
+export async function getMigrationStatus(
+  target: MigrationTarget,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus> {
+  const applied = await target.getApplied();
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const tables = new Set(await target.getTables());
+
+  return {
+    backend: target.backend,
+    applied,
+    pending: migrations.filter(m => !appliedVersions.has(m.version)),
+    missingTables: REQUIRED_TABLES.filter(t => !tables.has(t))
+  };
+}
+
+/**
+ * Apply every pending migration in order. Stops at the first failure.
+ */
+export async function applyPendingMigrations(
+  target: MigrationTarget,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const { pending } = await getMigrationStatus(target, migrations);
+  const appliedNow: Migration[] = [];
+
+  for (const migration of pending) {
+    await target.apply(migration);
+    appliedNow.push(migration);
+  }
+
+  return appliedNow;
+}
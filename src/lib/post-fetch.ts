@@ -0,0 +1,146 @@
+import { createLinkedInIdentityIndex } from '@/lib/linkedin-identity';
+import type { ScrapedPost } from '@/lib/scraper';
+import type { DbRecord, StorageAdapter } from '@/lib/storage';
+import type { SkippedPostDetail } from '@/types';
+
+// ============================================================================
+// LINKEDIN POST FETCHING
+// ============================================================================
+//
+// Which profiles to fetch the latest post of, and how scraped posts are
+// matched back to prospects and saved as engagement posts. The scraping
+// itself is done by the scraper provider (src/lib/scraper), driven by the
+// fetch_posts job (src/lib/jobs/handlers.ts).
+//
+// Server-only: writes through the storage adapter.
+// ============================================================================
+
+// Posts older than this are saved already archived
+const SAVE_ACTIVE_MAX_AGE_DAYS = 7;
+
+// The profile a post is fetched for
+export interface PostFetchProspect {
+  id: string;
+  linkedinUrl: string;
+  linkedinAliases?: string[];
+  fullName: string;
+}
+
+export interface SavedFetchedPosts {
+  active: DbRecord[];
+  archived: DbRecord[];
+  skipped: SkippedPostDetail[];
+}
+
+/**
+ * Profiles to fetch: the given prospects, or the watch list when none are
+ * given. Prospects marked do not contact are never fetched.
+ */
+export async function resolvePostFetchProspects(
+  storage: StorageAdapter,
+  prospectIds?: string[]
+): Promise<{ prospects: PostFetchProspect[]; excludedDoNotContact: number }> {
+  const rows = prospectIds && prospectIds.length > 0
+    ? (await storage.getProspects()).filter(p => prospectIds.includes(p.id as string))
+    : (await storage.getWatchedProfiles()).map(wp => wp.prospects as DbRecord).filter(Boolean);
+
+  const allowed = rows.filter(p => !p.do_not_contact);
+  return {
+    prospects: allowed.map(p => ({
+      id: p.id as string,
+      linkedinUrl: p.linkedin_url as string,
+      linkedinAliases: (p.linkedin_aliases as string[] | undefined) || [],
+      fullName: p.full_name as string
+    })),
+    excludedDoNotContact: rows.length - allowed.length
+  };
+}
+
+/**
+ * Match each post to the profile it was fetched for and save it. Posts older
+ * than a week are saved archived; posts that can't be parsed or matched are
+ * returned as skipped with the reason.
+ */
+export async function saveFetchedPosts(
+  storage: StorageAdapter,
+  posts: ScrapedPost[],
+  prospects: PostFetchProspect[],
+  now: Date = new Date()
+): Promise<SavedFetchedPosts> {
+  const prospectsByUrl = createLinkedInIdentityIndex<PostFetchProspect>();
+  prospects.forEach(p => prospectsByUrl.add([p.linkedinUrl, ...(p.linkedinAliases || [])], p));
+
+  const cutoffDate = new Date(now);
+  cutoffDate.setDate(cutoffDate.getDate() - SAVE_ACTIVE_MAX_AGE_DAYS);
+
+  const saved: SavedFetchedPosts = { active: [], archived: [], skipped: [] };
+
+  for (const post of posts) {
+    const postUrl = post.url;
+    const postText = post.content;
+
+    if (!postUrl || !postText) {
+      saved.skipped.push({ url: postUrl || 'unknown', reason: `Missing ${!postUrl ? 'URL' : 'text'}` });
+      continue;
+    }
+
+    // Find the prospect this post belongs to
+    // Priority 1: Use query URL (the profile we requested posts from;
+    //   reposts still carry it)
+    // Priority 2: Use author URL (for original posts)
+    // Priority 3: Match by name
+    const authorName = post.authorName || '';
+    let prospect = prospectsByUrl.find([post.profileUrl, post.authorUrl]);
+
+    if (!prospect && authorName) {
+      const nameLower = authorName.toLowerCase();
+      prospect = prospects.find(p => {
+        const firstName = p.fullName.toLowerCase().split(' ')[0];
+        return nameLower.includes(firstName) || firstName.includes(nameLower.split(' ')[0]);
+      });
+    }
+
+    // Last resort: if only one watched profile, assign to them
+    if (!prospect && prospects.length === 1) {
+      prospect = prospects[0];
+    }
+
+    if (!prospect) {
+      saved.skipped.push({ url: postUrl, reason: 'Could not match to prospect' });
+      continue;
+    }
+
+    const postedAt = post.date;
+    if (!postedAt) {
+      saved.skipped.push({ url: postUrl, reason: 'No posted date' });
+      continue;
+    }
+
+    const postDate = new Date(postedAt);
+    if (isNaN(postDate.getTime())) {
+      saved.skipped.push({ url: postUrl, reason: `Invalid date: ${postedAt}` });
+      continue;
+    }
+
+    const isOldPost = postDate < cutoffDate;
+
+    try {
+      const row = await storage.saveEngagementPost({
+        prospectId: prospect.id,
+        postUrl,
+        postContent: postText,
+        postedAt: postDate.toISOString(),
+        authorName: authorName || prospect.fullName,
+        authorPhotoUrl: post.authorPhotoUrl,
+        isArchived: isOldPost,
+        archivedReason: isOldPost ? 'aged' : undefined
+      });
+      (isOldPost ? saved.archived : saved.active).push(row);
+    } catch (err) {
+      console.log('Error saving post:', postUrl, err);
+      saved.skipped.push({ url: postUrl, reason: 'Save failed (likely duplicate)' });
+    }
+  }
+
+  return saved;
+}
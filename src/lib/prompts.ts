@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  GeneratedMessage,
+  MessageType,
+  PromptSelection,
+  PromptVariant,
+  PromptVariantStats,
+  ResponseInteraction
+} from '@/types';
+
+// ============================================================================
+// PROMPT VARIANTS
+// ============================================================================
+//
+// Prompts are markdown files in src/prompts. Each variant below names one
+// file and the message types it writes. When several variants are active for
+// a type, traffic is split by weight. A prospect always lands in the same
+// bucket, so their connection request, DM and follow-up share a voice.
+//
+// Every generated message records its variant id and a version: the file
+// name plus a hash of its contents, so editing a prompt starts a new version.
+// Replies logged via /api/responses/log are attributed to the variant of the
+// last message sent before them.
+//
+// To A/B test a voice: add a file, add a variant here with a weight, and
+// compare reply rates on the Prompts page.
+//
+// Server-only: reads prompt files from disk.
+// ============================================================================
+
+export const PROMPTS_DIR = path.join(process.cwd(), 'src', 'prompts');
+
+export const PROMPT_VARIANTS: PromptVariant[] = [
+  {
+    id: 'outreach-skill',
+    name: 'Outreach skill file',
+    description: 'Track-based templates and writing rules from the original skill file',
+    file: 'isaac-linkedin-outreach.md',
+    messageTypes: ['connection_request', 'opening_dm', 'follow_up'],
+    weight: 100,
+    active: true
+  },
+  {
+    id: 'comments-default',
+    name: 'Post comments',
+    description: 'Three comment options: question, perspective, brief',
+    file: 'isaac-linkedin-comments.md',
+    messageTypes: ['comment'],
+    weight: 100,
+    active: true
+  }
+];
+
+/**
+ * Stable number in [0, 1) for a prospect, used to pick their variant
+ */
+export function getTrafficBucket(key: string): number {
+  const hash = createHash('sha256').update(key).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Pick the variant that writes `messageType` for this prospect. Without a
+ * prospect id (unsaved prospects) the pick is random.
+ */
+export function pickPromptVariant(
+  messageType: MessageType,
+  prospectId?: string,
+  variants: PromptVariant[] = PROMPT_VARIANTS
+): PromptVariant {
+  const candidates = variants.filter(v => v.active && v.weight > 0 && v.messageTypes.includes(messageType));
+  if (candidates.length === 0) {
+    throw new Error(`No active prompt variant for ${messageType}`);
+  }
+
+  const totalWeight = candidates.reduce((sum, v) => sum + v.weight, 0);
+  const target = (prospectId ? getTrafficBucket(prospectId) : Math.random()) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of candidates) {
+    cumulative += variant.weight;
+    if (target < cumulative) return variant;
+  }
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Read a variant's prompt and identify the exact text, e.g.
+ * "isaac-linkedin-outreach.md@3f2a9c1e"
+ */
+export function loadPromptVariant(variant: PromptVariant): { content: string; selection: PromptSelection } {
+  const content = fs.readFileSync(path.join(PROMPTS_DIR, variant.file), 'utf-8');
+  const hash = createHash('sha256').update(content).digest('hex').slice(0, 8);
+  return {
+    content,
+    selection: { variant: variant.id, version: `${variant.file}@${hash}` }
+  };
+}
+
+/**
+ * Messages sent and replies received per variant. A prospect counts once per
+ * variant no matter how many of its messages were sent.
+ */
+export function buildPromptVariantReport(
+  messages: GeneratedMessage[],
+  interactions: Pick<ResponseInteraction, 'prospectId' | 'promptVariant'>[],
+  variants: PromptVariant[] = PROMPT_VARIANTS
+): PromptVariantStats[] {
+  const stats = new Map<string, { generated: number; sent: Set<string>; replied: Set<string>; versions: Set<string> }>();
+  const statsFor = (id: string) => {
+    let entry = stats.get(id);
+    if (!entry) {
+      entry = { generated: 0, sent: new Set(), replied: new Set(), versions: new Set() };
+      stats.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const message of messages) {
+    if (!message.promptVariant) continue;
+    const entry = statsFor(message.promptVariant);
+    entry.generated++;
+    if (message.used) entry.sent.add(message.prospectId);
+    if (message.promptVersion) entry.versions.add(message.promptVersion);
+  }
+  for (const interaction of interactions) {
+    if (!interaction.promptVariant) continue;
+    statsFor(interaction.promptVariant).replied.add(interaction.prospectId);
+  }
+
+  // Registered variants first, then retired ones that still have history
+  const ids = [...variants.map(v => v.id), ...Array.from(stats.keys()).filter(id => !variants.some(v => v.id === id))];
+
+  return ids.map(id => {
+    const variant = variants.find(v => v.id === id);
+    const entry = statsFor(id);
+    return {
+      variant: id,
+      name: variant?.name || id,
+      messageTypes: variant?.messageTypes || [],
+      weight: variant?.weight || 0,
+      active: variant?.active || false,
+      versions: Array.from(entry.versions).sort(),
+      generated: entry.generated,
+      prospectsSent: entry.sent.size,
+      prospectsReplied: entry.replied.size,
+      replyRate: entry.sent.size > 0 ? Math.round((entry.replied.size / entry.sent.size) * 1000) / 10 : null
+    };
+  });
+}
@@ -0,0 +1,531 @@
+import {
+  collectTags,
+  matchesCustomFieldFilter,
+  matchesTagFilter,
+  readCustomFieldFilter,
+  writeCustomFieldFilter
+} from '@/lib/custom-fields';
+import { getICPTier, ICP_TIERS } from '@/lib/icp-history';
+import {
+  isViewFilterGroup,
+  matchesViewFilter,
+  PIPELINE_STATUSES,
+  PROSPECT_SORTS,
+  resolveSavedView,
+  type ViewFilterContext
+} from '@/lib/saved-views';
+import { ICP_SEGMENTS } from '@/lib/scoring-profile';
+import type { ProspectCriteria, ProspectCursor, StorageAdapter } from '@/lib/storage';
+import {
+  compareProspects,
+  getProspectCursor,
+  isAfterCursor,
+  matchesProspectCriteria
+} from '@/lib/storage/query';
+import { transformCustomField, transformDbToApp } from '@/lib/storage/transform';
+import type {
+  CustomFieldDefinition,
+  FilterOptions,
+  ICPRange,
+  ICPSegment,
+  ICPTier,
+  PipelineStatus,
+  ProspectPage,
+  ProspectQuery,
+  ProspectSort,
+  ProspectSummary,
+  ProspectWithPipeline,
+  SavedView,
+  ViewCondition,
+  ViewFilterNode
+} from '@/types';
+
+// ============================================================================
+// PROSPECT LIST QUERIES
+// ============================================================================
+//
+// The dashboard reads prospects a page at a time from GET /api/prospects
+// rather than loading the workspace. Status, segment, ICP tier, assignee and
+// search become ProspectCriteria the storage adapter applies (in Postgres
+// for Supabase); tag, custom field and saved view filters are checked here
+// on the rows it returns. Pages continue from an opaque cursor, the sort
+// value and id of the last prospect shown.
+//
+// The query string format is shared by the dashboard URL, the list API and
+// the CSV export. Browser-safe apart from the Server section.
+// ============================================================================
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Rows read at a time when a filter has to be checked outside the database
+const SCAN_BATCH = 500;
+
+// Score bounds of each tier (see getICPTier)
+const ICP_TIER_CRITERIA: Record<ICPTier, Pick<ProspectCriteria, 'icpMin' | 'icpBelow'>> = {
+  high: { icpMin: 70 },
+  medium: { icpMin: 40, icpBelow: 70 },
+  low: { icpBelow: 40 }
+};
+
+// Statuses the dashboard header counts as connected
+const CONNECTED_STATUSES: PipelineStatus[] = ['connected', 'message_sent', 'responded', 'call_booked'];
+
+// A page as the dashboard asks for it; the limit defaults to DEFAULT_PAGE_SIZE
+export type ProspectPageRequest = Omit<ProspectQuery, 'limit'> & { limit?: number };
+
+export const EMPTY_PROSPECT_FILTERS: FilterOptions = {
+  status: 'all',
+  segment: 'all',
+  search: '',
+  assignee: 'all'
+};
+
+// ============ Query strings ============
+
+/**
+ * Write filters and sort to query string params. Defaults are left out.
+ */
+export function writeProspectQuery(
+  params: URLSearchParams,
+  filters: FilterOptions,
+  icpRange: ICPRange,
+  sort: ProspectSort
+): void {
+  if (filters.status && filters.status !== 'all') params.set('status', filters.status);
+  if (filters.segment && filters.segment !== 'all') params.set('segment', filters.segment);
+  if (filters.search) params.set('search', filters.search);
+  if (filters.assignee && filters.assignee !== 'all') params.set('assignee', filters.assignee);
+  if (filters.tag) params.set('tag', filters.tag);
+  writeCustomFieldFilter(params, filters.customField);
+  if (filters.view) params.set('view', filters.view);
+  if (sort !== 'icp_desc') params.set('sort', sort);
+  if (icpRange !== 'all') params.set('icp', icpRange);
+}
+
+function oneOf<T extends string>(name: string, value: string | null, allowed: readonly T[], errors: string[]): T | 'all' {
+  if (!value || value === 'all') return 'all';
+  if (allowed.includes(value as T)) return value as T;
+  errors.push(`${name} must be one of all, ${allowed.join(', ')}`);
+  return 'all';
+}
+
+/**
+ * Read a prospect list query from query string params. `icpRange` is
+ * accepted for `icp`, as older export links use it.
+ */
+export function readProspectQuery(params: Pick<URLSearchParams, 'get'>): { query?: ProspectQuery; errors: string[] } {
+  const errors: string[] = [];
+
+  const status = oneOf<PipelineStatus>('status', params.get('status'), PIPELINE_STATUSES, errors);
+  const segment = oneOf<ICPSegment>('segment', params.get('segment'), ICP_SEGMENTS, errors);
+  const icpRange = oneOf<ICPTier>('icp', params.get('icp') ?? params.get('icpRange'), ICP_TIERS, errors);
+
+  const sortParam = params.get('sort');
+  const sort = (sortParam || 'icp_desc') as ProspectSort;
+  if (!PROSPECT_SORTS.includes(sort)) errors.push(`sort must be one of ${PROSPECT_SORTS.join(', ')}`);
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    errors.push(`limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const cursor = params.get('cursor') || undefined;
+  if (cursor && !decodeProspectCursor(cursor)) errors.push('cursor is not valid');
+
+  if (errors.length > 0) return { errors };
+  return {
+    query: {
+      filters: {
+        status,
+        segment,
+        search: params.get('search') || '',
+        assignee: params.get('assignee') || 'all',
+        tag: params.get('tag') || undefined,
+        customField: readCustomFieldFilter(params),
+        view: params.get('view') || undefined
+      },
+      icpRange,
+      sort,
+      cursor,
+      limit
+    },
+    errors
+  };
+}
+
+export function encodeProspectCursor(cursor: ProspectCursor): string {
+  return JSON.stringify([cursor.value, cursor.id]);
+}
+
+export function decodeProspectCursor(text: string): ProspectCursor | undefined {
+  try {
+    const [value, id] = JSON.parse(text) as unknown[];
+    if ((typeof value === 'string' || typeof value === 'number') && typeof id === 'string') {
+      return { value, id };
+    }
+  } catch {
+    // Falls through to undefined
+  }
+  return undefined;
+}
+
+// ============ Matching ============
+
+/**
+ * The filters storage adapters apply, or null when the query can match no
+ * one ('mine' with nobody signed in)
+ */
+export function toProspectCriteria(
+  filters: FilterOptions,
+  icpRange: ICPRange,
+  currentUserId: string | undefined
+): ProspectCriteria | null {
+  const criteria: ProspectCriteria = icpRange === 'all' ? {} : { ...ICP_TIER_CRITERIA[icpRange] };
+  if (filters.search?.trim()) criteria.search = filters.search.trim();
+  if (filters.status && filters.status !== 'all') criteria.status = filters.status;
+  if (filters.segment && filters.segment !== 'all') criteria.segment = filters.segment;
+
+  const { assignee } = filters;
+  if (assignee === 'mine') {
+    if (!currentUserId) return null;
+    criteria.assigneeId = currentUserId;
+  } else if (assignee === 'unassigned') {
+    criteria.assigneeId = null;
+  } else if (assignee && assignee !== 'all') {
+    criteria.assigneeId = assignee;
+  }
+  return criteria;
+}
+
+// A view's conditions when they all have to hold, or undefined when it has
+// an 'any' group of more than one
+function allConditions(node: ViewFilterNode): ViewCondition[] | undefined {
+  if (!isViewFilterGroup(node)) return [node];
+  if (node.match === 'any' && node.conditions.length > 1) return undefined;
+  const conditions: ViewCondition[] = [];
+  for (const child of node.conditions) {
+    const flat = allConditions(child);
+    if (!flat) return undefined;
+    conditions.push(...flat);
+  }
+  return conditions;
+}
+
+/**
+ * A saved view's filter as storage criteria, when it is status, segment,
+ * ICP tier or score and assignee conditions that all have to hold. Null
+ * when it can match no one; undefined when only matchesViewFilter can
+ * check it.
+ */
+export function toViewCriteria(
+  filter: ViewFilterNode,
+  currentUserId: string | undefined
+): ProspectCriteria | null | undefined {
+  const conditions = allConditions(filter);
+  if (!conditions) return undefined;
+
+  const criteria: ProspectCriteria = {};
+  // False when the key already holds another value
+  const narrow = <K extends 'status' | 'segment' | 'assigneeId'>(key: K, value: ProspectCriteria[K]) => {
+    if (criteria[key] !== undefined && criteria[key] !== value) return false;
+    criteria[key] = value;
+    return true;
+  };
+  const bound = (bounds: Pick<ProspectCriteria, 'icpMin' | 'icpBelow'>) => {
+    if (bounds.icpMin !== undefined) criteria.icpMin = Math.max(criteria.icpMin ?? bounds.icpMin, bounds.icpMin);
+    if (bounds.icpBelow !== undefined) criteria.icpBelow = Math.min(criteria.icpBelow ?? bounds.icpBelow, bounds.icpBelow);
+  };
+
+  for (const { field, operator, value } of conditions) {
+    // Text conditions match without regard to case (see matchesCondition)
+    const text = String(value).toLowerCase();
+    if (field === 'icp_score' && (operator === 'at_least' || operator === 'at_most')) {
+      const score = Number(value);
+      if (Number.isNaN(score)) return null;
+      // Scores are whole numbers, so at most 55.5 is below 56
+      bound(operator === 'at_least' ? { icpMin: score } : { icpBelow: Math.floor(score) + 1 });
+    } else if (operator !== 'is') {
+      return undefined;
+    } else if (field === 'status') {
+      if (!PIPELINE_STATUSES.includes(text as PipelineStatus) || !narrow('status', text as PipelineStatus)) return null;
+    } else if (field === 'segment') {
+      if (!ICP_SEGMENTS.includes(text as ICPSegment) || !narrow('segment', text as ICPSegment)) return null;
+    } else if (field === 'icp_tier') {
+      if (!ICP_TIERS.includes(text as ICPTier)) return null;
+      bound(ICP_TIER_CRITERIA[text as ICPTier]);
+    } else if (field === 'assignee') {
+      const assignee = String(value);
+      if (assignee === 'all') continue;
+      const assigneeId = assignee === 'mine' ? currentUserId : assignee === 'unassigned' ? null : assignee;
+      if (assigneeId === undefined || !narrow('assigneeId', assigneeId)) return null;
+    } else {
+      return undefined;
+    }
+  }
+  return criteria;
+}
+
+export interface ProspectQueryContext extends ViewFilterContext {
+  fields: CustomFieldDefinition[];   // For the custom field filter
+  view?: Pick<SavedView, 'filter'>;  // The saved view named by filters.view
+}
+
+// The filters storage can't apply, or null when there are none
+function getPostFilter(filters: FilterOptions, context: ProspectQueryContext) {
+  const { tag, customField } = filters;
+  const { view } = context;
+  if (!tag && !customField && !view) return null;
+
+  const now = context.now || new Date();
+  return (prospect: ProspectWithPipeline) =>
+    matchesTagFilter(prospect, tag) &&
+    matchesCustomFieldFilter(prospect, customField, context.fields) &&
+    (!view || matchesViewFilter(prospect, view.filter, { ...context, now }));
+}
+
+// The first `limit` prospects, with a cursor when more follow
+function toPage(
+  prospects: ProspectWithPipeline[],
+  limit: number,
+  sort: ProspectSort,
+  total: number | undefined
+): ProspectPage {
+  const page = prospects.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    prospects: page,
+    nextCursor: prospects.length > limit && last ? encodeProspectCursor(getProspectCursor(last, sort)) : null,
+    ...(total !== undefined ? { total } : {})
+  };
+}
+
+/**
+ * Filter and sort prospects already in memory, the way GET /api/prospects
+ * does
+ */
+export function applyProspectQuery(
+  prospects: ProspectWithPipeline[],
+  query: Pick<ProspectQuery, 'filters' | 'icpRange' | 'sort'>,
+  context: ProspectQueryContext
+): ProspectWithPipeline[] {
+  const criteria = toProspectCriteria(query.filters, query.icpRange, context.currentUserId);
+  if (!criteria) return [];
+  const keep = getPostFilter(query.filters, context);
+  return prospects
+    .filter(p => matchesProspectCriteria(p, criteria) && (!keep || keep(p)))
+    .sort(compareProspects(query.sort));
+}
+
+/**
+ * A page of prospects held in memory, the way GET /api/prospects pages
+ * stored ones. Used by the dashboard when it works without storage.
+ */
+export function pageProspects(
+  prospects: ProspectWithPipeline[],
+  request: ProspectPageRequest,
+  context: ProspectQueryContext
+): ProspectPage {
+  const matching = applyProspectQuery(prospects, request, context);
+  const after = request.cursor ? decodeProspectCursor(request.cursor) : undefined;
+  const rest = after ? matching.filter(p => isAfterCursor(p, request.sort, after)) : matching;
+  return toPage(rest, request.limit ?? DEFAULT_PAGE_SIZE, request.sort, after ? undefined : matching.length);
+}
+
+/**
+ * Dashboard header numbers, tags in use and saved view counts for a set of
+ * prospects
+ */
+export function summarizeProspects(
+  prospects: ProspectWithPipeline[],
+  views: SavedView[],
+  context: ViewFilterContext = {}
+): ProspectSummary {
+  const now = context.now || new Date();
+  const tiers = prospects.map(p => getICPTier(p.icpScore || 0));
+  return {
+    stats: {
+      total: prospects.length,
+      connected: prospects.filter(p => CONNECTED_STATUSES.includes(p.pipeline?.status || 'not_contacted')).length,
+      withMessages: prospects.filter(p => p.messages && p.messages.length > 0).length,
+      highICP: tiers.filter(t => t === 'high').length,
+      mediumICP: tiers.filter(t => t === 'medium').length,
+      lowICP: tiers.filter(t => t === 'low').length
+    },
+    tags: collectTags(prospects),
+    viewCounts: Object.fromEntries(views.map(view => [
+      view.id,
+      prospects.filter(p => matchesViewFilter(p, view.filter, { ...context, now })).length
+    ]))
+  };
+}
+
+// ============ Client ============
+
+/**
+ * Client-side: one page of the prospect list
+ */
+export async function fetchProspectPage(request: ProspectPageRequest): Promise<ProspectPage> {
+  const params = new URLSearchParams();
+  writeProspectQuery(params, request.filters, request.icpRange, request.sort);
+  if (request.cursor) params.set('cursor', request.cursor);
+  if (request.limit) params.set('limit', String(request.limit));
+
+  const response = await fetch(`/api/prospects?${params}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch prospects');
+  }
+  return response.json();
+}
+
+/**
+ * Client-side: workspace-wide numbers for the dashboard
+ */
+export async function fetchProspectSummary(): Promise<ProspectSummary> {
+  const response = await fetch('/api/prospects/summary');
+  if (!response.ok) {
+    throw new Error('Failed to fetch prospect summary');
+  }
+  return response.json();
+}
+
+// ============ Server ============
+
+/**
+ * What queryProspects needs besides the query, or null when the query names
+ * a saved view that doesn't exist
+ */
+export async function loadProspectQueryContext(
+  storage: StorageAdapter,
+  filters: FilterOptions,
+  currentUserId: string | undefined
+): Promise<ProspectQueryContext | null> {
+  const fields = filters.customField
+    ? (await storage.getCustomFields()).map(transformCustomField)
+    : [];
+  if (!filters.view) return { currentUserId, fields };
+
+  const record = await storage.getSavedView(filters.view);
+  return record ? { currentUserId, fields, view: resolveSavedView(record) } : null;
+}
+
+/**
+ * One page of the prospects matching a query. The first page also carries
+ * the total. With a tag, custom field or view filter, rows are read in
+ * batches and checked here; the first page reads to the end to count.
+ */
+export async function queryProspects(
+  storage: StorageAdapter,
+  query: ProspectQuery,
+  context: ProspectQueryContext
+): Promise<ProspectPage> {
+  const { filters, icpRange, sort, limit } = query;
+  const after = query.cursor ? decodeProspectCursor(query.cursor) : undefined;
+  const isFirstPage = !after;
+
+  const criteria = toProspectCriteria(filters, icpRange, context.currentUserId);
+  if (!criteria) return toPage([], limit, sort, isFirstPage ? 0 : undefined);
+
+  const keep = getPostFilter(filters, context);
+  if (!keep) {
+    const [rows, total] = await Promise.all([
+      storage.findProspects(criteria, { sort, after, limit: limit + 1 }),
+      isFirstPage ? storage.countProspects(criteria) : undefined
+    ]);
+    return toPage(transformDbToApp(rows), limit, sort, total);
+  }
+
+  const matches: ProspectWithPipeline[] = [];
+  let total = 0;
+  let cursor = after;
+  for (;;) {
+    const batch = transformDbToApp(
+      await storage.findProspects(criteria, { sort, after: cursor, limit: SCAN_BATCH })
+    );
+
+    for (const prospect of batch.filter(keep)) {
+      total++;
+      if (matches.length <= limit) matches.push(prospect);
+    }
+    if (batch.length < SCAN_BATCH || (!isFirstPage && matches.length > limit)) break;
+    cursor = getProspectCursor(batch[batch.length - 1], sort);
+  }
+  return toPage(matches, limit, sort, isFirstPage ? total : undefined);
+}
+
+/**
+ * summarizeProspects without loading the workspace: storage counts the
+ * numbers, lists the tags and counts the saved views it can (toViewCriteria).
+ * Prospects are only read, in batches, for views it can't.
+ */
+export async function loadProspectSummary(
+  storage: StorageAdapter,
+  views: SavedView[],
+  context: ViewFilterContext = {}
+): Promise<ProspectSummary> {
+  const count = (criteria: ProspectCriteria) => storage.countProspects(criteria);
+  const [total, connected, withMessages, highICP, mediumICP, lowICP, tags, viewCounts] = await Promise.all([
+    count({}),
+    Promise.all(CONNECTED_STATUSES.map(status => count({ status })))
+      .then(counts => counts.reduce((sum, n) => sum + n, 0)),
+    count({ hasMessages: true }),
+    count(ICP_TIER_CRITERIA.high),
+    count(ICP_TIER_CRITERIA.medium),
+    count(ICP_TIER_CRITERIA.low),
+    storage.getProspectTags(),
+    countViews(storage, views, { ...context, now: context.now || new Date() })
+  ]);
+  return {
+    stats: { total, connected, withMessages, highICP, mediumICP, lowICP },
+    tags: collectTags([{ tags }]),
+    viewCounts
+  };
+}
+
+// Views storage can count are counted there; the rest are checked together
+// in one pass over the prospects in batches
+async function countViews(
+  storage: StorageAdapter,
+  views: SavedView[],
+  context: ViewFilterContext
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = Object.fromEntries(views.map(view => [view.id, 0]));
+  const scanned: SavedView[] = [];
+  await Promise.all(views.map(async view => {
+    const criteria = toViewCriteria(view.filter, context.currentUserId);
+    if (criteria === undefined) scanned.push(view);
+    else if (criteria) counts[view.id] = await storage.countProspects(criteria);
+  }));
+  if (scanned.length === 0) return counts;
+
+  let after: ProspectCursor | undefined;
+  for (;;) {
+    const batch = transformDbToApp(
+      await storage.findProspects({}, { sort: 'recent', after, limit: SCAN_BATCH })
+    );
+    for (const view of scanned) {
+      counts[view.id] += batch.filter(p => matchesViewFilter(p, view.filter, context)).length;
+    }
+    if (batch.length < SCAN_BATCH) return counts;
+    after = getProspectCursor(batch[batch.length - 1], 'recent');
+  }
+}
+
+/**
+ * Every prospect matching a query, in order, read a page at a time
+ */
+export async function queryAllProspects(
+  storage: StorageAdapter,
+  query: Omit<ProspectQuery, 'cursor' | 'limit'>,
+  context: ProspectQueryContext
+): Promise<ProspectWithPipeline[]> {
+  const prospects: ProspectWithPipeline[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await queryProspects(storage, { ...query, cursor, limit: MAX_PAGE_SIZE }, context);
+    prospects.push(...page.prospects);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return prospects;
+}
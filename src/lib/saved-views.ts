@@ -0,0 +1,485 @@
+import { getProspectTrack } from '@/lib/analytics';
+import { matchesAssigneeFilter } from '@/lib/assignment';
+import { hasTag } from '@/lib/custom-fields';
+import { getICPTier, ICP_TIERS } from '@/lib/icp-history';
+import { ICP_SEGMENTS } from '@/lib/scoring-profile';
+import type { DbRecord, StorageAdapter } from '@/lib/storage';
+import { transformDbToApp } from '@/lib/storage/transform';
+import type {
+  FilterOptions,
+  ICPTier,
+  MessageTrack,
+  PipelineRecord,
+  PipelineStatus,
+  ProspectSort,
+  ProspectWithPipeline,
+  SavedView,
+  ViewCondition,
+  ViewFilterField,
+  ViewFilterGroup,
+  ViewFilterNode,
+  ViewFilterOperator
+} from '@/types';
+
+// ============================================================================
+// SAVED VIEWS
+// ============================================================================
+//
+// A saved view names a filter expression: conditions on prospect fields
+// joined with AND ('all') or OR ('any'), in groups that can nest. Views
+// belong to the workspace (saved_views table). The same expression is
+// evaluated on the dashboard (sidebar counts, the list), by the bulk routes
+// and job payloads given a `viewId`, by the CSV export and by the sequence
+// and daily queues.
+//
+// Browser-safe apart from the Server section, which the API routes call.
+// ============================================================================
+
+export const PIPELINE_STATUSES: PipelineStatus[] = [
+  'not_contacted', 'visited', 'connection_sent', 'connected', 'message_sent',
+  'responded', 'call_booked', 'closed_won', 'closed_lost'
+];
+
+export const MESSAGE_TRACKS: MessageTrack[] = [
+  'OPERATOR_EXIT', 'OPERATOR_SCALE', 'OPERATOR_DTC', 'AGENCY_PARTNER',
+  'GENERIC_MERCHANT', 'INFLUENCER_OUTREACH', 'CONSULTANT_OUTREACH'
+];
+
+export const PROSPECT_SORTS: ProspectSort[] = ['icp_desc', 'icp_asc', 'name_asc', 'recent'];
+
+type FieldKind = 'choice' | 'text' | 'number';
+
+const OPERATORS: Record<FieldKind, ViewFilterOperator[]> = {
+  choice: ['is', 'is_not'],
+  text: ['contains', 'not_contains', 'is', 'is_not'],
+  number: ['at_least', 'at_most']
+};
+
+export const VIEW_FILTER_FIELDS: Record<ViewFilterField, { label: string; kind: FieldKind }> = {
+  status: { label: 'Status', kind: 'choice' },
+  segment: { label: 'Segment', kind: 'choice' },
+  icp_tier: { label: 'ICP tier', kind: 'choice' },
+  icp_score: { label: 'ICP score', kind: 'number' },
+  industry: { label: 'Industry', kind: 'text' },
+  company_size: { label: 'Company size', kind: 'text' },
+  location: { label: 'Location', kind: 'text' },
+  search: { label: 'Name, company or title', kind: 'text' },
+  tag: { label: 'Tag', kind: 'choice' },
+  track: { label: 'Track', kind: 'choice' },
+  assignee: { label: 'Assignee', kind: 'choice' },
+  last_activity_days: { label: 'Days since last activity', kind: 'number' },
+  days_in_stage: { label: 'Days in current stage', kind: 'number' }
+};
+
+export const VIEW_FILTER_OPERATOR_LABELS: Record<ViewFilterOperator, string> = {
+  is: 'is',
+  is_not: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  at_least: 'at least',
+  at_most: 'at most'
+};
+
+// Choices offered for fields with a fixed set of values. Tags and assignees
+// depend on the workspace, so they are left to the caller.
+const FIXED_CHOICES: Partial<Record<ViewFilterField, string[]>> = {
+  status: PIPELINE_STATUSES,
+  segment: ICP_SEGMENTS,
+  icp_tier: ICP_TIERS,
+  track: [...MESSAGE_TRACKS, 'none']
+};
+
+export function getViewFilterOperators(field: ViewFilterField): ViewFilterOperator[] {
+  return OPERATORS[VIEW_FILTER_FIELDS[field].kind];
+}
+
+export function getViewFilterChoices(field: ViewFilterField): string[] | undefined {
+  return FIXED_CHOICES[field];
+}
+
+export function isViewFilterGroup(node: ViewFilterNode): node is ViewFilterGroup {
+  return 'match' in node;
+}
+
+export const EMPTY_VIEW_FILTER: ViewFilterGroup = { match: 'all', conditions: [] };
+
+// A view can hold groups of conditions, but groups within those get hard to read
+export const MAX_GROUP_DEPTH = 3;
+const MAX_CONDITIONS = 50;
+const MAX_NAME_LENGTH = 60;
+
+// ============ Validation ============
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNode(
+  input: unknown,
+  path: string,
+  depth: number,
+  errors: string[]
+): ViewFilterNode | undefined {
+  if (!isRecord(input)) {
+    errors.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  if ('match' in input) {
+    if (input.match !== 'all' && input.match !== 'any') {
+      errors.push(`${path}.match must be "all" or "any"`);
+    }
+    if (depth >= MAX_GROUP_DEPTH) {
+      errors.push(`${path} nests groups more than ${MAX_GROUP_DEPTH} deep`);
+      return undefined;
+    }
+    if (!Array.isArray(input.conditions)) {
+      errors.push(`${path}.conditions must be a list`);
+      return undefined;
+    }
+    const conditions = input.conditions
+      .map((child, i) => validateNode(child, `${path}.conditions[${i}]`, depth + 1, errors))
+      .filter((child): child is ViewFilterNode => child !== undefined);
+    return { match: input.match as ViewFilterGroup['match'], conditions };
+  }
+
+  const field = input.field as ViewFilterField;
+  if (!(field in VIEW_FILTER_FIELDS)) {
+    errors.push(`${path}.field must be one of ${Object.keys(VIEW_FILTER_FIELDS).join(', ')}`);
+    return undefined;
+  }
+
+  const operator = input.operator as ViewFilterOperator;
+  const operators = getViewFilterOperators(field);
+  if (!operators.includes(operator)) {
+    errors.push(`${path}.operator for ${field} must be one of ${operators.join(', ')}`);
+  }
+
+  const { kind } = VIEW_FILTER_FIELDS[field];
+  const choices = getViewFilterChoices(field);
+  let value = input.value;
+  if (kind === 'number') {
+    value = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path}.value must be a number`);
+    }
+  } else if (typeof value !== 'string' || !value.trim()) {
+    errors.push(`${path}.value is required`);
+  } else if (choices && !choices.includes(value)) {
+    errors.push(`${path}.value must be one of ${choices.join(', ')}`);
+  } else {
+    value = value.trim();
+  }
+
+  return { field, operator, value: value as ViewCondition['value'] };
+}
+
+function countConditions(node: ViewFilterNode): number {
+  return isViewFilterGroup(node) ? node.conditions.reduce((sum, child) => sum + countConditions(child), 0) : 1;
+}
+
+/**
+ * Validate an untrusted filter expression. Number values given as strings
+ * are converted.
+ */
+export function validateViewFilter(input: unknown): { filter?: ViewFilterGroup; errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(input) || !('match' in input)) {
+    return { errors: ['filter must be a group with match and conditions'] };
+  }
+
+  const filter = validateNode(input, 'filter', 1, errors) as ViewFilterGroup | undefined;
+  if (filter && countConditions(filter) > MAX_CONDITIONS) {
+    errors.push(`filter can have at most ${MAX_CONDITIONS} conditions`);
+  }
+
+  if (errors.length > 0 || !filter) return { errors };
+  return { filter, errors };
+}
+
+export interface SavedViewValidation {
+  view?: Pick<SavedView, 'name' | 'filter' | 'sort'>;
+  errors: string[];
+}
+
+/**
+ * Validate an untrusted saved view (name, filter and optional sort)
+ */
+export function validateSavedView(input: unknown): SavedViewValidation {
+  if (!isRecord(input)) {
+    return { errors: ['Saved view must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    errors.push('name is required');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const { filter, errors: filterErrors } = validateViewFilter(input.filter);
+  errors.push(...filterErrors);
+
+  const sort = input.sort ?? undefined;
+  if (sort !== undefined && !PROSPECT_SORTS.includes(sort as ProspectSort)) {
+    errors.push(`sort must be one of ${PROSPECT_SORTS.join(', ')}`);
+  }
+
+  if (errors.length > 0 || !filter) return { errors };
+  return {
+    view: { name, filter, ...(sort !== undefined ? { sort: sort as ProspectSort } : {}) },
+    errors
+  };
+}
+
+// ============ Evaluation ============
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Milestone stamped when a prospect enters a status (see withMilestoneTimestamp)
+const STATUS_MILESTONES: Partial<Record<PipelineStatus, keyof PipelineRecord>> = {
+  visited: 'visitedAt',
+  connection_sent: 'connectionSentAt',
+  connected: 'connectionAcceptedAt',
+  message_sent: 'messageSentAt',
+  responded: 'responseReceivedAt',
+  call_booked: 'callBookedAt'
+};
+
+const MILESTONE_FIELDS = Object.values(STATUS_MILESTONES);
+
+function latest(dates: Array<string | undefined>): string | undefined {
+  return dates.filter((d): d is string => Boolean(d)).sort().pop();
+}
+
+function daysSince(date: string | undefined, now: Date): number | undefined {
+  if (!date) return undefined;
+  return Math.max(0, Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS));
+}
+
+/**
+ * The latest thing that happened with a prospect: a pipeline milestone or a
+ * message generated or sent. Prospects nothing has happened to count from
+ * when they were added.
+ */
+export function getLastActivityAt(prospect: ProspectWithPipeline): string {
+  const pipeline = prospect.pipeline;
+  return latest([
+    ...MILESTONE_FIELDS.map(field => pipeline?.[field!] as string | undefined),
+    ...(prospect.messages || []).flatMap(m => [m.generatedAt, m.sentAt])
+  ]) || prospect.createdAt;
+}
+
+/**
+ * When the prospect entered its current status: the status milestone if it
+ * has one, else the last pipeline update (closed deals), else when the
+ * prospect was added
+ */
+export function getStageEnteredAt(prospect: ProspectWithPipeline): string {
+  const pipeline = prospect.pipeline;
+  const status = pipeline?.status || 'not_contacted';
+  if (status === 'not_contacted') return pipeline?.createdAt || prospect.createdAt;
+  const milestone = STATUS_MILESTONES[status];
+  return (milestone && pipeline?.[milestone] as string | undefined) || pipeline?.updatedAt || prospect.createdAt;
+}
+
+export interface ViewFilterContext {
+  currentUserId?: string;  // For assignee 'mine'
+  now?: Date;
+}
+
+function fieldValue(
+  prospect: ProspectWithPipeline,
+  field: ViewFilterField,
+  now: Date
+): string | number | undefined {
+  switch (field) {
+    case 'status': return prospect.pipeline?.status || 'not_contacted';
+    case 'segment': return prospect.icpScoreBreakdown?.segment || 'merchant';
+    case 'icp_tier': return getICPTier(prospect.icpScore || 0);
+    case 'icp_score': return prospect.icpScore || 0;
+    case 'industry': return prospect.companyIndustry;
+    case 'company_size': return prospect.companySize;
+    case 'location': return prospect.location;
+    case 'track': return getProspectTrack(prospect) || 'none';
+    case 'last_activity_days': return daysSince(getLastActivityAt(prospect), now);
+    case 'days_in_stage': return daysSince(getStageEnteredAt(prospect), now);
+    default: return undefined;
+  }
+}
+
+function matchesCondition(prospect: ProspectWithPipeline, condition: ViewCondition, context: ViewFilterContext): boolean {
+  const { field, operator, value } = condition;
+  const negated = operator === 'is_not' || operator === 'not_contains';
+
+  if (field === 'tag') {
+    return hasTag(prospect.tags, String(value)) !== negated;
+  }
+  if (field === 'assignee') {
+    return matchesAssigneeFilter(prospect, String(value), context.currentUserId) !== negated;
+  }
+  if (field === 'search') {
+    const wanted = String(value).toLowerCase();
+    const texts = [prospect.fullName, prospect.companyName, prospect.jobTitle].map(t => (t || '').toLowerCase());
+    const found = operator === 'contains' || operator === 'not_contains'
+      ? texts.some(t => t.includes(wanted))
+      : texts.some(t => t === wanted);
+    return found !== negated;
+  }
+
+  const actual = fieldValue(prospect, field, context.now || new Date());
+  if (VIEW_FILTER_FIELDS[field].kind === 'number') {
+    if (typeof actual !== 'number') return false;
+    return operator === 'at_least' ? actual >= Number(value) : actual <= Number(value);
+  }
+
+  const text = String(actual ?? '').toLowerCase();
+  const wanted = String(value).toLowerCase();
+  const found = operator === 'contains' || operator === 'not_contains' ? text.includes(wanted) : text === wanted;
+  return found !== negated;
+}
+
+/**
+ * Whether a prospect is in a view. An empty group matches everyone.
+ */
+export function matchesViewFilter(
+  prospect: ProspectWithPipeline,
+  node: ViewFilterNode,
+  context: ViewFilterContext = {}
+): boolean {
+  if (!isViewFilterGroup(node)) return matchesCondition(prospect, node, context);
+  if (node.conditions.length === 0) return true;
+  return node.match === 'all'
+    ? node.conditions.every(child => matchesViewFilter(prospect, child, context))
+    : node.conditions.some(child => matchesViewFilter(prospect, child, context));
+}
+
+/**
+ * Prospects in each view, for the dashboard sidebar
+ */
+export function countViewProspects(
+  views: SavedView[],
+  prospects: ProspectWithPipeline[],
+  context: ViewFilterContext = {}
+): Map<string, number> {
+  const now = context.now || new Date();
+  return new Map(views.map(view => [
+    view.id,
+    prospects.filter(p => matchesViewFilter(p, view.filter, { ...context, now })).length
+  ]));
+}
+
+/**
+ * The dashboard's quick filters as a view expression, to start a new view
+ * from whatever is showing
+ */
+export function viewFilterFromFilterOptions(filters: FilterOptions, icpTier: ICPTier | 'all'): ViewFilterGroup {
+  const conditions: ViewCondition[] = [];
+  if (filters.status && filters.status !== 'all') conditions.push({ field: 'status', operator: 'is', value: filters.status });
+  if (filters.segment && filters.segment !== 'all') conditions.push({ field: 'segment', operator: 'is', value: filters.segment });
+  if (icpTier !== 'all') conditions.push({ field: 'icp_tier', operator: 'is', value: icpTier });
+  if (filters.assignee && filters.assignee !== 'all') conditions.push({ field: 'assignee', operator: 'is', value: filters.assignee });
+  if (filters.tag) conditions.push({ field: 'tag', operator: 'is', value: filters.tag });
+  if (filters.search) conditions.push({ field: 'search', operator: 'contains', value: filters.search });
+  return { match: 'all', conditions };
+}
+
+/**
+ * Describe an expression in words, e.g. "Segment is agency and (Tag is VIP or ICP score at least 70)"
+ */
+export function describeViewFilter(node: ViewFilterNode, nested = false): string {
+  if (!isViewFilterGroup(node)) {
+    const { label } = VIEW_FILTER_FIELDS[node.field];
+    return `${label} ${VIEW_FILTER_OPERATOR_LABELS[node.operator]} ${node.value}`;
+  }
+  if (node.conditions.length === 0) return 'Everyone';
+  const text = node.conditions
+    .map(child => describeViewFilter(child, true))
+    .join(node.match === 'all' ? ' and ' : ' or ');
+  return nested && node.conditions.length > 1 ? `(${text})` : text;
+}
+
+/**
+ * Client-side: the workspace's saved views, or none if the API fails
+ */
+export async function fetchSavedViews(): Promise<SavedView[]> {
+  try {
+    const response = await fetch('/api/views');
+    if (!response.ok) return [];
+    const data = await response.json() as { views: SavedView[] };
+    return data.views;
+  } catch {
+    return [];
+  }
+}
+
+// ============ Server ============
+
+export function resolveSavedView(record: DbRecord): SavedView {
+  return {
+    id: record.id as string,
+    name: record.name as string,
+    filter: (record.filter as ViewFilterGroup) || EMPTY_VIEW_FILTER,
+    sort: (record.sort as ProspectSort | null) || undefined,
+    ownerId: (record.owner_id as string | null) || undefined,
+    createdAt: record.created_at as string,
+    updatedAt: record.updated_at as string
+  };
+}
+
+/**
+ * The prospects among `prospects` that are in a saved view, or null when the
+ * view doesn't exist
+ */
+export async function filterToSavedView(
+  storage: StorageAdapter,
+  prospects: ProspectWithPipeline[],
+  viewId: string,
+  currentUserId: string | undefined
+): Promise<ProspectWithPipeline[] | null> {
+  const record = await storage.getSavedView(viewId);
+  if (!record) return null;
+  const { filter } = resolveSavedView(record);
+  const now = new Date();
+  return prospects.filter(p => matchesViewFilter(p, filter, { currentUserId, now }));
+}
+
+/**
+ * A saved view's prospects, or null when the view doesn't exist. Used by
+ * routes that take a `viewId` in place of a list of prospect ids.
+ */
+export async function getViewProspects(
+  storage: StorageAdapter,
+  viewId: string,
+  currentUserId: string | undefined
+): Promise<ProspectWithPipeline[] | null> {
+  const prospects = transformDbToApp(await storage.getProspects());
+  return filterToSavedView(storage, prospects, viewId, currentUserId);
+}
+
+export type BulkTarget =
+  | { ids: string[]; error?: undefined }
+  | { ids?: undefined; error: string; status: number };
+
+/**
+ * The prospects a bulk request is for: its `ids`, or everyone currently in
+ * the saved view `viewId`
+ */
+export async function resolveBulkTarget(
+  storage: StorageAdapter,
+  body: { ids?: unknown; viewId?: unknown },
+  currentUserId: string | undefined
+): Promise<BulkTarget> {
+  if (typeof body.viewId === 'string' && body.viewId) {
+    const prospects = await getViewProspects(storage, body.viewId, currentUserId);
+    if (!prospects) return { error: 'Saved view not found', status: 404 };
+    if (prospects.length === 0) return { error: 'No prospects in this view', status: 400 };
+    return { ids: prospects.map(p => p.id) };
+  }
+
+  if (!Array.isArray(body.ids) || body.ids.length === 0) {
+    return { error: 'No prospect IDs provided', status: 400 };
+  }
+  return { ids: body.ids as string[] };
+}
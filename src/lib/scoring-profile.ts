@@ -0,0 +1,573 @@
+import type {
+  CompanySignalRule,
+  CompanySizeBand,
+  ICPSegment,
+  ScoringPattern,
+  ScoringProfile,
+  TitleTier
+} from '@/types';
+
+// ============================================================================
+// ICP SCORING PROFILE
+// ============================================================================
+//
+// Keyword lists, title tiers, point values and size bands used by
+// calculateICPScoreWithBreakdown (src/lib/import.ts). The default profile
+// below reproduces the original hardcoded rules; a workspace can save its
+// own profile from Settings > ICP Scoring.
+//
+// Browser-safe: imported by the import modals as well as API routes.
+// ============================================================================
+
+export const ICP_SEGMENTS: ICPSegment[] = ['merchant', 'agency', 'freelancer'];
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  version: 1,
+  name: 'Default (Merchants & Agencies)',
+
+  segmentation: {
+    freelancerIndicators: [
+      'self-employed', 'freelance', 'freelancer', 'independent consultant',
+      'independent contractor', 'solo', 'solopreneur'
+    ],
+    // Industries that strongly indicate an AGENCY (service-based business)
+    agencyIndustries: [
+      'marketing', 'advertising', 'marketing and advertising',
+      'public relations', 'design', 'graphic design', 'web design',
+      'information technology', 'computer software', 'internet',
+      'management consulting', 'business consulting', 'staffing',
+      'professional services', 'media production', 'online media'
+    ],
+    // Company name/description keywords that indicate an AGENCY
+    agencyKeywords: [
+      'agency', 'partner', 'partners', 'consulting', 'consultancy',
+      'services', 'solutions', 'help brands', 'work with brands',
+      'clients', 'digital marketing', 'growth agency', 'creative agency',
+      'marketing agency', 'branding agency', 'ecommerce agency',
+      'shopify partner', 'shopify expert', 'shopify agency'
+    ],
+    agencyCompanyTerms: ['agency', 'partners', 'consulting', 'consultancy', 'group', 'studios'],
+    // Industries that strongly indicate a MERCHANT (product-based business)
+    merchantIndustries: [
+      'retail', 'consumer goods', 'food & beverages', 'food and beverages',
+      'apparel', 'fashion', 'jewelry', 'cosmetics', 'sporting goods',
+      'furniture', 'home goods', 'electronics', 'health & wellness',
+      'health and wellness', 'consumer products', 'food production',
+      'food & beverage', 'consumer services', 'retail apparel',
+      'luxury goods', 'textiles', 'household products', 'pet products',
+      'beverage', 'personal care', 'beauty', 'toys', 'games',
+      'wholesale', 'manufacturing', 'packaging', 'wine and spirits',
+      'leisure', 'restaurants', 'hospitality'
+    ],
+    // Company description/headline keywords that indicate a MERCHANT
+    merchantKeywords: [
+      'brand', 'products', 'sell', 'shop', 'store', 'e-commerce', 'ecommerce',
+      'dtc', 'd2c', 'direct-to-consumer', 'direct to consumer', 'amazon',
+      'shopify', 'customers', 'shipping', 'fulfillment', 'orders',
+      'manufacturer', 'wholesale', 'retail', 'consumer', 'physical products',
+      'kitchen', 'apparel', 'clothing', 'jewelry', 'accessories', 'gear',
+      'goods', 'collection', 'designs', 'handmade', 'crafted'
+    ],
+    merchantCompanyTerms: [
+      'brand', 'co.', 'co', 'goods', 'products', 'kitchen', 'apparel', 'wear',
+      'gear', 'shop', 'store', 'swimwear', 'jewelry', 'gems'
+    ]
+  },
+
+  // Checked in order. "Senior Leaders" comes before "Partners" so that
+  // "Director of Partnerships" scores as a leader, not a partner.
+  titleTiers: [
+    {
+      name: 'Top Decision Makers',
+      points: 40,
+      patterns: [
+        'chief executive officer', 'chief executive',
+        'chief operating officer',
+        'founder', 'co-founder', 'cofounder', 'co founder',
+        'owner', 'co-owner', 'coowner',
+        'managing partner',
+        'general partner',
+        { match: 'ceo', wholeWord: true },
+        { match: 'coo', wholeWord: true },
+        { match: 'president', wholeWord: true, unless: ['vice president'] }
+      ]
+    },
+    {
+      name: 'Senior Leaders',
+      points: 25,
+      patterns: [
+        'vice president',
+        'vp ', 'vp,', 'vp/', 'vp-', ' vp',
+        'chief ',
+        'head of',
+        'director of partnerships',
+        'director of partner',
+        'director of client',
+        'director of business development'
+      ]
+    },
+    {
+      name: 'Partners',
+      points: 30,
+      patterns: [
+        {
+          match: 'partner',
+          unless: [
+            'managing partner', 'general partner',
+            'director of partner', 'director of partnerships', 'partnerships director'
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Directors',
+      points: 15,
+      patterns: ['director', 'general manager', ' gm ', ' gm,', ' gm/']
+    },
+    {
+      name: 'Senior Individual Contributors',
+      points: 10,
+      patterns: ['senior manager', 'senior director', 'lead ', 'senior ']
+    }
+  ],
+
+  companySignals: {
+    maxPoints: 35,
+    rules: [
+      {
+        name: 'Scale indicators',
+        points: 15,
+        keywords: [
+          'millions of customers', 'million customers', 'tens of millions',
+          'hundreds of thousands', 'million units', 'millions sold',
+          '$1m', '$2m', '$5m', '$10m', '$20m', '$50m', '$100m',
+          '1 million', '2 million', '5 million', '10 million',
+          'million in revenue', 'million revenue',
+          '7-figure', '8-figure', '9-figure', 'seven figure', 'eight figure', 'nine figure',
+          'seven-figure', 'eight-figure', 'nine-figure',
+          'bestseller', 'best seller', 'best-seller', 'top seller', 'top-seller',
+          '#1 seller', 'number one', '#1 brand',
+          'inc 5000', 'inc. 5000', 'inc5000', 'fastest growing',
+          'fortune 500', 'fortune 1000'
+        ]
+      },
+      { name: 'Shopify Plus', points: 12, keywords: ['shopify plus'], group: 'shopify' },
+      { name: 'Shopify', points: 10, keywords: ['shopify'], group: 'shopify' },
+      {
+        name: 'Amazon seller',
+        points: 10,
+        keywords: ['amazon seller', 'amazon fba', 'selling on amazon', 'amazon brand', 'amazon store']
+      },
+      { name: 'BigCommerce', points: 8, keywords: ['bigcommerce'] },
+      { name: 'WooCommerce', points: 6, keywords: ['woocommerce'] },
+      { name: 'Magento', points: 6, keywords: ['magento'] },
+      {
+        name: 'DTC',
+        points: 10,
+        keywords: ['dtc', 'd2c', 'direct-to-consumer', 'direct to consumer']
+      },
+      { name: 'E-commerce', points: 8, keywords: ['e-commerce', 'ecommerce', 'e commerce'] },
+      { name: 'Online store', points: 6, keywords: ['online store', 'online brand', 'online shop'] },
+      {
+        name: 'Fulfillment / logistics',
+        points: 8,
+        keywords: ['shipping', 'fulfillment', 'warehouse', 'logistics', '3pl', 'supply chain'],
+        segments: ['merchant']
+      },
+      {
+        name: 'High-value merchant industry',
+        points: 10,
+        field: 'industry',
+        keywords: [
+          'retail', 'consumer goods', 'apparel', 'fashion', 'food & beverages',
+          'food and beverages', 'health', 'wellness', 'fitness', 'sporting goods',
+          'jewelry', 'cosmetics', 'beauty', 'home goods', 'furniture', 'electronics'
+        ],
+        segments: ['merchant']
+      },
+      {
+        name: 'Shopify partner agency',
+        points: 12,
+        keywords: ['shopify partner', 'shopify plus partner'],
+        segments: ['agency']
+      },
+      {
+        name: 'Works with brands',
+        points: 5,
+        keywords: ['clients', 'brands'],
+        match: 'all',
+        segments: ['agency']
+      },
+      {
+        name: 'General commerce',
+        points: 5,
+        keywords: ['brand', 'products', 'customers served', 'customer base']
+      },
+      {
+        name: 'Physical products',
+        points: 5,
+        keywords: ['physical products', 'consumer brand', 'retail brand']
+      }
+    ]
+  },
+
+  // Size data is often missing or unreliable, so penalties are kept small
+  companySize: {
+    bands: {
+      merchant: [
+        { min: 10, max: 200, points: 15 },
+        { min: 201, max: 500, points: 10 },
+        { min: 501, points: 5 },
+        { min: 2, max: 9, points: 5 },
+        { min: 1, max: 1, points: 0 }
+      ],
+      agency: [
+        { min: 10, max: 100, points: 15 },
+        { min: 101, max: 200, points: 10 },
+        { min: 201, max: 500, points: 5 },
+        { min: 501, points: -10 },
+        { min: 2, max: 9, points: 5 },
+        { min: 1, max: 1, points: -5 }
+      ],
+      freelancer: []
+    },
+    // Most prospects in the ICP have some company presence
+    unknownSizePoints: {
+      merchant: 5,
+      agency: 5,
+      freelancer: 0
+    }
+  },
+
+  // Minor boost only - often unreliable
+  productCategory: {
+    points: 10,
+    keywords: [
+      'electronics', 'jewelry', 'supplements', 'vitamins', 'fashion',
+      'apparel', 'beauty', 'cosmetics', 'skincare', 'health',
+      'home goods', 'furniture', 'sporting goods', 'pet supplies',
+      'ceramics', 'premium', 'luxury'
+    ]
+  },
+
+  profileCompleteness: {
+    points: 5,
+    minAboutLength: 100
+  }
+};
+
+// ============================================================================
+// MATCHING HELPERS
+// ============================================================================
+
+// True if pattern occurs in text with no letter or digit directly either side
+function containsWholeWord(text: string, pattern: string): boolean {
+  let idx = text.indexOf(pattern);
+  while (idx !== -1) {
+    const leftOk = idx === 0 || !/[a-z0-9]/.test(text[idx - 1]);
+    const end = idx + pattern.length;
+    const rightOk = end >= text.length || !/[a-z0-9]/.test(text[end]);
+    if (leftOk && rightOk) return true;
+    idx = text.indexOf(pattern, idx + 1);
+  }
+  return false;
+}
+
+/**
+ * Check a scoring pattern against already-lowercased text.
+ * Returns the matched keyword, or null.
+ */
+export function matchPattern(text: string, pattern: ScoringPattern): string | null {
+  if (typeof pattern === 'string') {
+    const keyword = pattern.toLowerCase();
+    return text.includes(keyword) ? pattern : null;
+  }
+
+  const keyword = pattern.match.toLowerCase();
+  const found = pattern.wholeWord ? containsWholeWord(text, keyword) : text.includes(keyword);
+  if (!found) return null;
+  if (pattern.unless?.some(term => text.includes(term.toLowerCase()))) return null;
+  return pattern.match;
+}
+
+/**
+ * First title tier with a matching pattern, or null
+ */
+export function matchTitleTier(
+  text: string,
+  tiers: TitleTier[]
+): { tier: TitleTier; pattern: string } | null {
+  for (const tier of tiers) {
+    for (const pattern of tier.patterns) {
+      const matched = matchPattern(text, pattern);
+      if (matched) return { tier, pattern: matched };
+    }
+  }
+  return null;
+}
+
+/**
+ * Sum company signal points for a segment, honouring exclusive groups.
+ * Not capped - the caller applies companySignals.maxPoints.
+ */
+export function scoreCompanySignals(
+  text: string,
+  industry: string,
+  segment: ICPSegment,
+  rules: CompanySignalRule[]
+): number {
+  const usedGroups = new Set<string>();
+  let score = 0;
+
+  for (const rule of rules) {
+    if (rule.segments && !rule.segments.includes(segment)) continue;
+    if (rule.group && usedGroups.has(rule.group)) continue;
+
+    const haystack = rule.field === 'industry' ? industry : text;
+    const hit = (keyword: string) => haystack.includes(keyword.toLowerCase());
+    const matched = rule.match === 'all' ? rule.keywords.every(hit) : rule.keywords.some(hit);
+
+    if (matched) {
+      score += rule.points;
+      if (rule.group) usedGroups.add(rule.group);
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Points for the first size band containing the employee count
+ */
+export function scoreCompanySizeBand(size: number, bands: CompanySizeBand[]): number {
+  const band = bands.find(b =>
+    (b.min === undefined || size >= b.min) && (b.max === undefined || size <= b.max)
+  );
+  return band?.points ?? 0;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export interface ScoringProfileValidation {
+  profile?: ScoringProfile;
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(errors: string[], path: string, value: unknown) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path} must be a number`);
+  }
+}
+
+function checkStringList(errors: string[], path: string, value: unknown, allowEmpty = true) {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || v.trim() === '')) {
+    errors.push(`${path} must be a list of non-empty strings`);
+  } else if (!allowEmpty && value.length === 0) {
+    errors.push(`${path} must not be empty`);
+  }
+}
+
+function checkPattern(errors: string[], path: string, value: unknown) {
+  if (typeof value === 'string') {
+    if (value.trim() === '') errors.push(`${path} must not be empty`);
+    return;
+  }
+  if (!isRecord(value) || typeof value.match !== 'string' || value.match.trim() === '') {
+    errors.push(`${path} must be a string or { match, wholeWord?, unless? }`);
+    return;
+  }
+  if (value.wholeWord !== undefined && typeof value.wholeWord !== 'boolean') {
+    errors.push(`${path}.wholeWord must be true or false`);
+  }
+  if (value.unless !== undefined) {
+    checkStringList(errors, `${path}.unless`, value.unless);
+  }
+}
+
+function checkSegments(errors: string[], path: string, value: unknown) {
+  if (!Array.isArray(value) || value.some(s => !ICP_SEGMENTS.includes(s))) {
+    errors.push(`${path} must only contain ${ICP_SEGMENTS.join(', ')}`);
+  }
+}
+
+/**
+ * Validate an untrusted scoring profile document (e.g. from the settings
+ * editor). Returns every problem found rather than stopping at the first.
+ */
+export function validateScoringProfile(document: unknown): ScoringProfileValidation {
+  const errors: string[] = [];
+  const input = document;
+
+  if (!isRecord(input)) {
+    return { errors: ['Scoring profile must be a JSON object'] };
+  }
+
+  if (input.version !== 1) {
+    errors.push('version must be 1');
+  }
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    errors.push('name is required');
+  }
+
+  // Segmentation keyword lists
+  const segmentation = input.segmentation;
+  if (!isRecord(segmentation)) {
+    errors.push('segmentation must be an object');
+  } else {
+    for (const key of Object.keys(DEFAULT_SCORING_PROFILE.segmentation)) {
+      checkStringList(errors, `segmentation.${key}`, segmentation[key]);
+    }
+  }
+
+  // Title tiers
+  if (!Array.isArray(input.titleTiers) || input.titleTiers.length === 0) {
+    errors.push('titleTiers must be a non-empty list');
+  } else {
+    input.titleTiers.forEach((tier: unknown, i: number) => {
+      const path = `titleTiers[${i}]`;
+      if (!isRecord(tier)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (typeof tier.name !== 'string' || tier.name.trim() === '') {
+        errors.push(`${path}.name is required`);
+      }
+      checkNumber(errors, `${path}.points`, tier.points);
+      if (!Array.isArray(tier.patterns) || tier.patterns.length === 0) {
+        errors.push(`${path}.patterns must be a non-empty list`);
+      } else {
+        tier.patterns.forEach((p: unknown, j: number) => checkPattern(errors, `${path}.patterns[${j}]`, p));
+      }
+    });
+  }
+
+  // Company signals
+  const signals = input.companySignals;
+  if (!isRecord(signals)) {
+    errors.push('companySignals must be an object');
+  } else {
+    checkNumber(errors, 'companySignals.maxPoints', signals.maxPoints);
+    if (!Array.isArray(signals.rules)) {
+      errors.push('companySignals.rules must be a list');
+    } else {
+      signals.rules.forEach((rule: unknown, i: number) => {
+        const path = `companySignals.rules[${i}]`;
+        if (!isRecord(rule)) {
+          errors.push(`${path} must be an object`);
+          return;
+        }
+        if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+          errors.push(`${path}.name is required`);
+        }
+        checkNumber(errors, `${path}.points`, rule.points);
+        checkStringList(errors, `${path}.keywords`, rule.keywords, false);
+        if (rule.match !== undefined && rule.match !== 'any' && rule.match !== 'all') {
+          errors.push(`${path}.match must be "any" or "all"`);
+        }
+        if (rule.field !== undefined && rule.field !== 'text' && rule.field !== 'industry') {
+          errors.push(`${path}.field must be "text" or "industry"`);
+        }
+        if (rule.segments !== undefined) {
+          checkSegments(errors, `${path}.segments`, rule.segments);
+        }
+        if (rule.group !== undefined && typeof rule.group !== 'string') {
+          errors.push(`${path}.group must be a string`);
+        }
+      });
+    }
+  }
+
+  // Company size bands
+  const size = input.companySize;
+  if (!isRecord(size) || !isRecord(size.bands) || !isRecord(size.unknownSizePoints)) {
+    errors.push('companySize must have bands and unknownSizePoints objects');
+  } else {
+    for (const segment of ICP_SEGMENTS) {
+      const bands = size.bands[segment];
+      if (!Array.isArray(bands)) {
+        errors.push(`companySize.bands.${segment} must be a list`);
+      } else {
+        bands.forEach((band: unknown, i: number) => {
+          const path = `companySize.bands.${segment}[${i}]`;
+          if (!isRecord(band)) {
+            errors.push(`${path} must be an object`);
+            return;
+          }
+          checkNumber(errors, `${path}.points`, band.points);
+          if (band.min !== undefined) checkNumber(errors, `${path}.min`, band.min);
+          if (band.max !== undefined) checkNumber(errors, `${path}.max`, band.max);
+          if (typeof band.min === 'number' && typeof band.max === 'number' && band.min > band.max) {
+            errors.push(`${path}.min must not be greater than max`);
+          }
+        });
+      }
+      checkNumber(errors, `companySize.unknownSizePoints.${segment}`, size.unknownSizePoints[segment]);
+    }
+  }
+
+  // Product category and profile completeness
+  const product = input.productCategory;
+  if (!isRecord(product)) {
+    errors.push('productCategory must be an object');
+  } else {
+    checkNumber(errors, 'productCategory.points', product.points);
+    checkStringList(errors, 'productCategory.keywords', product.keywords);
+  }
+
+  const completeness = input.profileCompleteness;
+  if (!isRecord(completeness)) {
+    errors.push('profileCompleteness must be an object');
+  } else {
+    checkNumber(errors, 'profileCompleteness.points', completeness.points);
+    checkNumber(errors, 'profileCompleteness.minAboutLength', completeness.minAboutLength);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  // Every field has been checked above
+  return { profile: document as ScoringProfile, errors };
+}
+
+/**
+ * Turn a stored scoring_profiles row into a usable profile. Falls back to the
+ * default when nothing is saved or the stored document no longer validates.
+ */
+export function resolveScoringProfile(record: Record<string, unknown> | null): ScoringProfile {
+  if (!record) return DEFAULT_SCORING_PROFILE;
+
+  const { profile, errors } = validateScoringProfile(record.profile);
+  if (!profile) {
+    console.warn(`Stored scoring profile is invalid, using default: ${errors.join('; ')}`);
+    return DEFAULT_SCORING_PROFILE;
+  }
+  return profile;
+}
+
+/**
+ * Revision of a stored scoring_profiles row. 0 means the built-in default.
+ */
+export function getScoringProfileRevision(record: Record<string, unknown> | null): number {
+  return record ? Number(record.revision ?? 1) : 0;
+}
+
+/**
+ * Client-side: fetch the workspace's active profile so import previews score
+ * the same way the server does. Falls back to the default if the API fails.
+ */
+export async function fetchActiveScoringProfile(): Promise<ScoringProfile> {
+  try {
+    const response = await fetch('/api/settings/scoring-profile');
+    if (!response.ok) return DEFAULT_SCORING_PROFILE;
+    const data = await response.json() as { profile: ScoringProfile };
+    return data.profile;
+  } catch {
+    return DEFAULT_SCORING_PROFILE;
+  }
+}
@@ -0,0 +1,15 @@
+import type { ActorAdapter } from '../types';
+
+export { profileScraperActor } from './profile-scraper';
+export { profilePostsActor } from './profile-posts';
+
+/**
+ * Run a dataset through an actor's adapter, dropping items it can't use
+ */
+export function normalizeActorItems<T>(adapter: ActorAdapter<T>, items: unknown): T[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter(item => item && typeof item === 'object')
+    .map(item => adapter.normalize(item as Record<string, unknown>))
+    .filter((item): item is T => item !== null);
+}
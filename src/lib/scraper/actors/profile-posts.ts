@@ -0,0 +1,69 @@
+import type { ActorAdapter, ScrapedPost } from '../types';
+
+// ============================================================================
+// harvestapi~linkedin-profile-posts
+// ============================================================================
+//
+// The latest post of each profile, reposts included. Older versions of the
+// actor used other field names for the URL, text, date and author, so those
+// are still read as fallbacks.
+// ============================================================================
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const record = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === 'object' ? value as Record<string, unknown> : undefined;
+
+// postedAt is a string, or an object with a date or timestamp
+function getPostedAt(item: Record<string, unknown>): string | undefined {
+  const postedAt = item.postedAt;
+  if (typeof postedAt === 'string') return postedAt;
+  const pa = record(postedAt);
+  if (pa) {
+    if (text(pa.date)) return pa.date as string;
+    if (text(pa.dateTime)) return pa.dateTime as string;
+    if (typeof pa.timestamp === 'number') return new Date(pa.timestamp * 1000).toISOString();
+    if (typeof pa.time === 'number') return new Date(pa.time).toISOString();
+  }
+  if (text(item.postedDate)) return item.postedDate as string;
+  if (text(item.date)) return item.date as string;
+  if (text(item.timestamp)) return item.timestamp as string;
+  if (typeof item.postedAtTimestamp === 'number') return new Date(item.postedAtTimestamp * 1000).toISOString();
+  return undefined;
+}
+
+function getAuthorPhoto(author: Record<string, unknown> | undefined, item: Record<string, unknown>): string | undefined {
+  const avatar = author?.avatar;
+  return text(author?.profilePicture) || text(avatar) || text(record(avatar)?.url) || text(item.authorProfilePicture);
+}
+
+export const profilePostsActor: ActorAdapter<ScrapedPost> = {
+  actorId: 'harvestapi~linkedin-profile-posts',
+
+  buildInput: (profileUrls) => ({
+    targetUrls: profileUrls,
+    maxPosts: 1,
+    scrapeReactions: false,
+    scrapeComments: false,
+    includeQuotePosts: true,
+    includeReposts: true
+  }),
+
+  normalize(item) {
+    const author = record(item.author);
+    const query = record(item.query);
+
+    return {
+      url: text(item.linkedinUrl) || text(item.postUrl) || text(item.url) || text(item.link) || '',
+      content: text(item.text) || text(item.postText) || text(item.content) || '',
+      date: getPostedAt(item) || '',
+      // query is the profile URL we asked for, sometimes wrapped in an object
+      profileUrl: text(item.query) || text(query?.profileUrl) || text(query?.targetUrl),
+      authorName: text(item.authorName) || text(item.author) || text(author?.name) || text(item.fullName),
+      authorUrl: text(author?.profileUrl) || text(author?.linkedinUrl) || text(author?.url) ||
+        text(item.authorProfileUrl) || text(item.profileUrl) || text(item.authorUrl),
+      authorPhotoUrl: getAuthorPhoto(author, item)
+    };
+  }
+};
@@ -0,0 +1,103 @@
+import type { Experience } from '@/types';
+import type { ActorAdapter, ScrapedProfile } from '../types';
+
+// ============================================================================
+// dev_fusion~linkedin-profile-scraper
+// ============================================================================
+//
+// Full profiles for a list of profile URLs. Field names have drifted between
+// actor versions, so several aliases are read for the picture, URL and job.
+// ============================================================================
+
+// Fields holding other forms of the profile URL
+const URL_FIELDS = ['linkedinUrl', 'linkedinPublicUrl', 'profileUrl', 'url'];
+
+// Profile picture aliases, best quality first
+const PICTURE_FIELDS = [
+  'profilePicHighQuality',
+  'profilePic',
+  'profilePicture',
+  'profilePictureUrl',
+  'profilePhoto',
+  'photoUrl',
+  'photo',
+  'imageUrl',
+  'avatar',
+  'picture',
+  'imgUrl',
+  'image',
+  'img'
+];
+
+type RawExperience = Record<string, unknown>;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+function getProfilePicture(item: Record<string, unknown>): string | undefined {
+  for (const field of PICTURE_FIELDS) {
+    const value = item[field];
+    if (typeof value === 'string' && (value.startsWith('http') || value.startsWith('//'))) {
+      // Protocol-relative URLs
+      return value.startsWith('//') ? 'https:' + value : value;
+    }
+  }
+  return undefined;
+}
+
+export const profileScraperActor: ActorAdapter<ScrapedProfile> = {
+  actorId: 'dev_fusion~linkedin-profile-scraper',
+
+  buildInput: (profileUrls) => ({ profileUrls }),
+
+  normalize(item) {
+    const urls = URL_FIELDS.map(field => text(item[field])).filter((url): url is string => Boolean(url));
+    const linkedinUrl = urls[0];
+    if (!linkedinUrl) return null;
+
+    // Every other form the actor reports, the member URN included
+    const urn = text(item.urn);
+    const linkedinAliases = [...new Set([
+      ...urls.slice(1),
+      ...(urn ? [urn.startsWith('urn:') ? urn : `urn:li:fsd_profile:${urn}`] : [])
+    ])].filter(url => url !== linkedinUrl);
+
+    const fullNameField = text(item.fullName);
+    const firstName = text(item.firstName) || fullNameField?.split(' ')[0] || '';
+    const lastName = text(item.lastName) || fullNameField?.split(' ').slice(1).join(' ') || '';
+    const fullName = fullNameField || `${firstName} ${lastName}`.trim();
+
+    const experiences = Array.isArray(item.experiences) ? item.experiences as RawExperience[] : [];
+    const careerHistory: Experience[] = experiences.slice(0, 5).map(exp => ({
+      companyName: text(exp.companyName) || text(exp.company) || '',
+      title: text(exp.title) || '',
+      description: text(exp.jobDescription) || text(exp.description) || '',
+      startDate: text(exp.startDate) || '',
+      endDate: text(exp.endDate) || ''
+    }));
+    const currentJob = experiences[0];
+
+    const skills = Array.isArray(item.skills) ? item.skills.filter(s => typeof s === 'string') : [];
+    const totalExperienceYears = typeof item.totalExperienceYears === 'number' ? item.totalExperienceYears : undefined;
+
+    return {
+      firstName,
+      lastName,
+      fullName,
+      linkedinUrl,
+      linkedinAliases,
+      profilePicUrl: getProfilePicture(item),
+      headline: text(item.headline),
+      aboutSummary: text(item.about) || text(item.summary),
+      companyName: text(item.companyName) || text(currentJob?.companyName) || text(currentJob?.company),
+      companyIndustry: text(item.companyIndustry),
+      companySize: text(item.companySize),
+      jobTitle: text(item.jobTitle) || text(item.title) || text(item.position) || text(currentJob?.title),
+      location: text(item.location),
+      careerHistory,
+      recentPosts: [],
+      totalExperienceYears: totalExperienceYears || undefined,
+      topSkills: text(item.topSkillsByEndorsements) || (skills.length > 0 ? skills.join(', ') : undefined)
+    };
+  }
+};
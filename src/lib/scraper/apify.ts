@@ -0,0 +1,77 @@
+import { normalizeActorItems, profilePostsActor, profileScraperActor } from './actors';
+import type { ScrapedPost, ScrapedProfile, ScraperProvider, ScrapeRunStatus } from './types';
+
+// ============================================================================
+// APIFY PROVIDER
+// ============================================================================
+//
+// Profiles come from a synchronous run (run-sync-get-dataset-items); posts
+// from an asynchronous run the caller polls. Raw items go through the
+// actor's adapter, so nothing outside src/lib/scraper sees Apify's fields.
+// ============================================================================
+
+const APIFY_API = 'https://api.apify.com/v2';
+
+export interface ApifyProviderOptions {
+  profileActorId?: string; // Override the profile actor; its output must match dev_fusion's
+}
+
+// Apify's run states mapped onto ours
+const RUN_STATUSES: Record<string, ScrapeRunStatus> = {
+  READY: 'running',
+  RUNNING: 'running',
+  SUCCEEDED: 'succeeded'
+};
+
+export function createApifyScraperProvider(token: string, options: ApifyProviderOptions = {}): ScraperProvider {
+  const profileActor = { ...profileScraperActor, actorId: options.profileActorId || profileScraperActor.actorId };
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${APIFY_API}${path}${path.includes('?') ? '&' : '?'}token=${token}`, init);
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Apify request failed (${response.status}):`, errorText);
+      throw new Error(`Apify request failed (${response.status}): ${errorText}`);
+    }
+    return response.json();
+  };
+
+  const postJSON = (path: string, body: unknown) => request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  return {
+    name: 'apify',
+
+    async scrapeProfiles(profileUrls): Promise<ScrapedProfile[]> {
+      const items = await postJSON(
+        `/acts/${profileActor.actorId}/run-sync-get-dataset-items`,
+        profileActor.buildInput(profileUrls)
+      );
+      return normalizeActorItems(profileActor, items);
+    },
+
+    async startPostsRun(profileUrls) {
+      const run = await postJSON(`/acts/${profilePostsActor.actorId}/runs`, profilePostsActor.buildInput(profileUrls));
+      const runId = run.data?.id;
+      if (!runId) {
+        throw new Error('Failed to get Apify run ID');
+      }
+      return runId;
+    },
+
+    async getPostsRun(runId) {
+      const run = await request(`/actor-runs/${runId}`);
+      const detail: string = run.data?.status || 'FAILED';
+      return { status: RUN_STATUSES[detail] || 'failed', detail };
+    },
+
+    async getPostsRunResults(runId): Promise<ScrapedPost[]> {
+      const items = await request(`/actor-runs/${runId}/dataset/items`);
+      console.log('Apify returned', Array.isArray(items) ? items.length : 0, 'items');
+      return normalizeActorItems(profilePostsActor, items);
+    }
+  };
+}
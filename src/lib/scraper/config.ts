@@ -0,0 +1,25 @@
+import type { ScraperProviderName } from './types';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Resolve which scraper to use. SCRAPER_PROVIDER forces a choice; otherwise
+ * Apify is used when its token is set. Fixtures are never picked implicitly
+ * so a missing token can't silently import recorded profiles.
+ */
+export function getScraperProviderName(env: Env = process.env): ScraperProviderName | null {
+  const forced = env.SCRAPER_PROVIDER;
+  if (forced === 'apify' || forced === 'fixture') return forced;
+  if (env.APIFY_API_TOKEN) return 'apify';
+  return null;
+}
+
+/**
+ * Why scraping can't run right now, or null when it can
+ */
+export function getScraperConfigError(env: Env = process.env): string | null {
+  const name = getScraperProviderName(env);
+  if (!name) return 'No scraper configured (set APIFY_API_TOKEN or SCRAPER_PROVIDER=fixture)';
+  if (name === 'apify' && !env.APIFY_API_TOKEN) return 'APIFY_API_TOKEN is not configured';
+  return null;
+}
@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { getLinkedInIdentities } from '@/lib/linkedin-identity';
+import { normalizeActorItems, profilePostsActor, profileScraperActor } from './actors';
+import type { ScrapedPost, ScraperProvider } from './types';
+
+// ============================================================================
+// FIXTURE PROVIDER
+// ============================================================================
+//
+// Serves recorded actor output instead of calling Apify, so import and post
+// fetching work without a token. The fixture directory holds raw datasets,
+// exactly as exported from an Apify run:
+//
+//   profiles.json  dev_fusion~linkedin-profile-scraper items
+//   posts.json     harvestapi~linkedin-profile-posts items
+//
+// They go through the same actor adapters as live results. Only profiles
+// that were asked for come back, matched by LinkedIn identity. Post runs finish
+// at once, and post dates are shifted so the newest recorded post is an
+// hour old; otherwise recorded posts would always be saved archived.
+// ============================================================================
+
+export const DEFAULT_SCRAPER_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'scraper');
+
+const RUN_ID_PREFIX = 'fixture-';
+const NEWEST_POST_AGE_MS = 60 * 60_000;
+
+export interface FixtureProviderOptions {
+  now?: () => Date;          // Clock for shifting post dates
+  shiftPostDates?: boolean;  // Default true
+}
+
+function readDataset(dir: string, file: string): unknown[] {
+  const filePath = path.join(dir, file);
+  if (!existsSync(filePath)) return [];
+  const data = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(data)) {
+    throw new Error(`Scraper fixture ${filePath} must be a JSON array of actor items`);
+  }
+  return data;
+}
+
+function shiftDates(posts: ScrapedPost[], now: Date): ScrapedPost[] {
+  const times = posts.map(p => new Date(p.date).getTime()).filter(t => !isNaN(t));
+  if (times.length === 0) return posts;
+  const offset = now.getTime() - NEWEST_POST_AGE_MS - Math.max(...times);
+  return posts.map(post => {
+    const time = new Date(post.date).getTime();
+    return isNaN(time) ? post : { ...post, date: new Date(time + offset).toISOString() };
+  });
+}
+
+export function createFixtureScraperProvider(
+  dir: string = DEFAULT_SCRAPER_FIXTURES_DIR,
+  { now = () => new Date(), shiftPostDates = true }: FixtureProviderOptions = {}
+): ScraperProvider {
+  const encodeRun = (profileUrls: string[]) =>
+    RUN_ID_PREFIX + Buffer.from(JSON.stringify(profileUrls)).toString('base64url');
+
+  const decodeRun = (runId: string): string[] => {
+    if (!runId.startsWith(RUN_ID_PREFIX)) throw new Error(`Unknown fixture run ${runId}`);
+    return JSON.parse(Buffer.from(runId.slice(RUN_ID_PREFIX.length), 'base64url').toString('utf8'));
+  };
+
+  const requested = (profileUrls: string[]) => {
+    const identities = new Set(getLinkedInIdentities(profileUrls));
+    return (urls: Array<string | undefined>) => getLinkedInIdentities(urls).some(url => identities.has(url));
+  };
+
+  return {
+    name: 'fixture',
+
+    async scrapeProfiles(profileUrls) {
+      const isRequested = requested(profileUrls);
+      return normalizeActorItems(profileScraperActor, readDataset(dir, 'profiles.json'))
+        .filter(profile => isRequested([profile.linkedinUrl, ...(profile.linkedinAliases || [])]));
+    },
+
+    async startPostsRun(profileUrls) {
+      return encodeRun(profileUrls);
+    },
+
+    async getPostsRun(runId) {
+      decodeRun(runId);
+      return { status: 'succeeded', detail: 'SUCCEEDED' };
+    },
+
+    async getPostsRunResults(runId) {
+      const isRequested = requested(decodeRun(runId));
+      const posts = normalizeActorItems(profilePostsActor, readDataset(dir, 'posts.json'))
+        .filter(post => isRequested([post.profileUrl || post.authorUrl]));
+      return shiftPostDates ? shiftDates(posts, now()) : posts;
+    }
+  };
+}
@@ -0,0 +1,28 @@
+import { createApifyScraperProvider } from './apify';
+import { getScraperConfigError, getScraperProviderName } from './config';
+import { createFixtureScraperProvider } from './fixture';
+import type { ScraperProvider } from './types';
+
+export * from './types';
+export { getScraperConfigError, getScraperProviderName } from './config';
+export { normalizeActorItems, profilePostsActor, profileScraperActor } from './actors';
+export { createApifyScraperProvider, createFixtureScraperProvider };
+export { DEFAULT_SCRAPER_FIXTURES_DIR } from './fixture';
+export type { ApifyProviderOptions } from './apify';
+export type { FixtureProviderOptions } from './fixture';
+
+let provider: ScraperProvider | null = null;
+
+// Server-only: the Apify token comes from the environment
+export function getScraperProvider(): ScraperProvider {
+  if (!provider) {
+    const configError = getScraperConfigError();
+    if (configError) {
+      throw new Error(configError);
+    }
+    provider = getScraperProviderName() === 'apify'
+      ? createApifyScraperProvider(process.env.APIFY_API_TOKEN!, { profileActorId: process.env.APIFY_ACTOR })
+      : createFixtureScraperProvider(process.env.SCRAPER_FIXTURES_DIR || undefined);
+  }
+  return provider;
+}
@@ -0,0 +1,63 @@
+// Scraper provider types
+// Every LinkedIn scrape in the app goes through a ScraperProvider. Providers
+// return profiles and posts already normalized into the app's shapes, so
+// callers never see an actor's raw field names.
+
+import type { Prospect, RecentPost } from '@/types';
+
+export type ScraperProviderName = 'apify' | 'fixture';
+
+// A scraped profile in Prospect shape, before ICP scoring
+export type ScrapedProfile = Pick<Prospect, 'firstName' | 'lastName' | 'fullName' | 'linkedinUrl' | 'careerHistory' | 'recentPosts'> &
+  Partial<Pick<Prospect,
+    | 'linkedinAliases'
+    | 'profilePicUrl'
+    | 'headline'
+    | 'aboutSummary'
+    | 'companyName'
+    | 'companyIndustry'
+    | 'companySize'
+    | 'jobTitle'
+    | 'location'
+    | 'totalExperienceYears'
+    | 'topSkills'
+  >>;
+
+// A scraped post in RecentPost shape. content, date and url are empty when
+// the actor left them out; callers decide whether to skip the post.
+export interface ScrapedPost extends RecentPost {
+  url: string;
+  profileUrl?: string;     // The profile the post was requested for (reposts keep it)
+  authorName?: string;
+  authorUrl?: string;
+  authorPhotoUrl?: string;
+}
+
+export type ScrapeRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface ScrapeRun {
+  status: ScrapeRunStatus;
+  detail?: string; // The provider's own status, e.g. Apify's TIMED-OUT
+}
+
+/**
+ * Post scraping is asynchronous: start a run, poll it, then read its results.
+ * Profile scraping waits for its results.
+ */
+export interface ScraperProvider {
+  name: ScraperProviderName;
+  scrapeProfiles(profileUrls: string[]): Promise<ScrapedProfile[]>;
+  startPostsRun(profileUrls: string[]): Promise<string>; // Run id
+  getPostsRun(runId: string): Promise<ScrapeRun>;
+  getPostsRunResults(runId: string): Promise<ScrapedPost[]>;
+}
+
+/**
+ * One Apify actor: its id, the input it takes and how its output maps onto
+ * the app's shapes
+ */
+export interface ActorAdapter<T> {
+  actorId: string;
+  buildInput(profileUrls: string[]): Record<string, unknown>;
+  normalize(item: Record<string, unknown>): T | null; // Null for items that aren't usable at all
+}
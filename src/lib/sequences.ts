@@ -0,0 +1,194 @@
+import { isDoNotContact } from '@/lib/do-not-contact';
+import type {
+  OutreachSequence,
+  PipelineRecord,
+  PipelineStatus,
+  ProspectWithPipeline,
+  SequenceProgress,
+  SequenceQueueItem,
+  SequenceState
+} from '@/types';
+
+// ============================================================================
+// OUTREACH SEQUENCES
+// ============================================================================
+//
+// A sequence is an ordered list of steps. Each step applies while the
+// prospect is in a given pipeline status and falls due a number of days
+// after a pipeline milestone (connection accepted, message sent, ...).
+// Marking a step done records it in sequence_progress and, if the step has
+// `advancesTo`, moves the prospect to the next status.
+//
+// Sequences pause on their own once a prospect replies or is closed.
+//
+// Browser-safe: used by the API routes and the /today page.
+// ============================================================================
+
+export const DEFAULT_SEQUENCE: OutreachSequence = {
+  name: 'Default outreach',
+  steps: [
+    {
+      id: 'connection_request',
+      name: 'Send connection request',
+      messageType: 'connection_request',
+      status: 'visited',
+      after: 'visitedAt',
+      delayDays: 0,
+      advancesTo: 'connection_sent'
+    },
+    {
+      id: 'opening_dm',
+      name: 'Send opening DM',
+      messageType: 'opening_dm',
+      status: 'connected',
+      after: 'connectionAcceptedAt',
+      delayDays: 1,
+      advancesTo: 'message_sent'
+    },
+    {
+      id: 'follow_up',
+      name: 'Send follow-up',
+      messageType: 'follow_up',
+      status: 'message_sent',
+      after: 'messageSentAt',
+      delayDays: 5
+    }
+  ]
+};
+
+// Statuses that stop the sequence: the prospect replied or the deal closed
+export const SEQUENCE_PAUSE_STATUSES: PipelineStatus[] = ['responded', 'call_booked', 'closed_won', 'closed_lost'];
+
+// Upcoming steps listed by default on the daily queue
+export const DEFAULT_UPCOMING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Where a prospect is in the sequence. `doneStepIds` holds steps already
+ * completed or skipped for this prospect.
+ */
+export function getSequenceState(
+  pipeline: PipelineRecord | undefined,
+  doneStepIds: Set<string>,
+  sequence: OutreachSequence = DEFAULT_SEQUENCE,
+  now: Date = new Date()
+): SequenceState {
+  const status = pipeline?.status || 'not_contacted';
+
+  if (SEQUENCE_PAUSE_STATUSES.includes(status)) {
+    return { kind: 'paused', pausedReason: `Prospect is ${status.replace('_', ' ')}` };
+  }
+
+  const stepIndex = sequence.steps.findIndex(s => s.status === status && !doneStepIds.has(s.id));
+  if (stepIndex === -1) {
+    if (status === 'not_contacted') return { kind: 'not_started' };
+    // Nothing left for this status: finished if no step comes after it
+    const lastForStatus = sequence.steps.map(s => s.status).lastIndexOf(status);
+    const remaining = lastForStatus === -1
+      ? sequence.steps.filter(s => !doneStepIds.has(s.id))
+      : sequence.steps.slice(lastForStatus + 1);
+    return remaining.length === 0 ? { kind: 'completed' } : { kind: 'waiting' };
+  }
+
+  const step = sequence.steps[stepIndex];
+  // Rows from before milestones were stamped fall back to the last status change
+  const anchor = pipeline?.[step.after] || pipeline?.updatedAt;
+  const anchorDate = anchor ? new Date(anchor) : now;
+  const dueAt = new Date(anchorDate.getTime() + step.delayDays * DAY_MS);
+
+  if (dueAt > endOfDay(now)) {
+    return { kind: 'scheduled', step, dueAt: dueAt.toISOString() };
+  }
+
+  const overdueDays = Math.max(0, Math.round(
+    (startOfDay(now).getTime() - startOfDay(dueAt).getTime()) / DAY_MS
+  ));
+  return { kind: 'due', step, dueAt: dueAt.toISOString(), overdueDays };
+}
+
+/**
+ * Group progress rows into done step ids per prospect
+ */
+export function groupSequenceProgress(progress: SequenceProgress[]): Map<string, Set<string>> {
+  const byProspect = new Map<string, Set<string>>();
+  for (const row of progress) {
+    const done = byProspect.get(row.prospectId) || new Set<string>();
+    done.add(row.stepId);
+    byProspect.set(row.prospectId, done);
+  }
+  return byProspect;
+}
+
+/**
+ * Build the daily queue: steps due today (most overdue, then highest ICP
+ * first) and steps coming up in the next `upcomingDays` days. Prospects
+ * marked do not contact are left out.
+ */
+export function buildSequenceQueue(
+  prospects: ProspectWithPipeline[],
+  progress: SequenceProgress[],
+  options: { sequence?: OutreachSequence; now?: Date; upcomingDays?: number } = {}
+): { due: SequenceQueueItem[]; upcoming: SequenceQueueItem[] } {
+  const sequence = options.sequence || DEFAULT_SEQUENCE;
+  const now = options.now || new Date();
+  const horizon = endOfDay(new Date(now.getTime() + (options.upcomingDays ?? DEFAULT_UPCOMING_DAYS) * DAY_MS));
+  const doneByProspect = groupSequenceProgress(progress);
+
+  const due: SequenceQueueItem[] = [];
+  const upcoming: SequenceQueueItem[] = [];
+
+  for (const prospect of prospects) {
+    if (isDoNotContact(prospect)) continue;
+    const state = getSequenceState(
+      prospect.pipeline,
+      doneByProspect.get(prospect.id) || new Set(),
+      sequence,
+      now
+    );
+    if (!state.step || !state.dueAt) continue;
+    if (state.kind === 'scheduled' && new Date(state.dueAt) > horizon) continue;
+
+    const latestMessage = (prospect.messages || [])
+      .filter(m => m.messageType === state.step!.messageType)
+      .sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))[0];
+
+    const item: SequenceQueueItem = {
+      prospectId: prospect.id,
+      fullName: prospect.fullName,
+      companyName: prospect.companyName,
+      jobTitle: prospect.jobTitle,
+      linkedinUrl: prospect.linkedinUrl,
+      icpScore: prospect.icpScore || 0,
+      status: prospect.pipeline?.status || 'not_contacted',
+      step: state.step,
+      dueAt: state.dueAt,
+      overdueDays: state.overdueDays ?? 0,
+      message: latestMessage?.content,
+      messageId: latestMessage?.id
+    };
+
+    if (state.kind === 'due') {
+      due.push(item);
+    } else {
+      upcoming.push(item);
+    }
+  }
+
+  due.sort((a, b) => b.overdueDays - a.overdueDays || b.icpScore - a.icpScore);
+  upcoming.sort((a, b) => a.dueAt.localeCompare(b.dueAt) || b.icpScore - a.icpScore);
+
+  return { due, upcoming };
+}
@@ -0,0 +1,93 @@
+import { normalizeTags } from '@/lib/custom-fields';
+import {
+  canonicalizeLinkedInUrl,
+  createLinkedInIdentityIndex,
+  getProspectIdentities,
+  mergeLinkedInAliases,
+  parseLinkedInProfile
+} from '@/lib/linkedin-identity';
+import type { DbRecord, PipelineImportData } from './types';
+
+// ============================================================================
+// PROSPECT IDENTITY
+// ============================================================================
+//
+// Both adapters upsert prospects on linkedin_url. Before they do, incoming
+// rows are resolved against the stored prospects by identity (canonical URL
+// or any alias), so a different URL form for someone already stored updates
+// that row instead of adding a second one. See src/lib/linkedin-identity.ts.
+// ============================================================================
+
+/**
+ * Incoming prospect rows ready to upsert on linkedin_url:
+ *
+ * - a row matching a stored prospect takes that prospect's linkedin_url, and
+ *   its other URL forms are added to the prospect's aliases
+ * - a new row is stored under its canonical URL
+ * - rows in the same batch that are the same person collapse into one; the
+ *   later row's fields win
+ * - tags and custom field values add to the matched prospect's rather than
+ *   replacing them
+ */
+export function resolveProspectRows(incoming: DbRecord[], existing: DbRecord[]): DbRecord[] {
+  const stored = createLinkedInIdentityIndex<DbRecord>();
+  for (const row of existing) {
+    stored.add(getProspectIdentities(row.linkedin_url as string, row.linkedin_aliases), row);
+  }
+
+  const resolved: DbRecord[] = [];
+  const batch = createLinkedInIdentityIndex<DbRecord>();
+
+  for (const row of incoming) {
+    const urls = getProspectIdentities(row.linkedin_url as string, row.linkedin_aliases);
+    const earlier = batch.find(urls);
+    const match = earlier || stored.find(urls);
+
+    const linkedinUrl = match ? match.linkedin_url as string : canonicalizeLinkedInUrl(row.linkedin_url as string);
+    const aliases = mergeLinkedInAliases(linkedinUrl, match?.linkedin_aliases, urls);
+    const next: DbRecord = { ...row, linkedin_url: linkedinUrl, linkedin_aliases: aliases };
+    if (match && row.tags) {
+      next.tags = normalizeTags([...(Array.isArray(match.tags) ? match.tags : []), ...(row.tags as string[])]);
+    }
+    if (match && row.custom_fields) {
+      next.custom_fields = { ...(match.custom_fields as DbRecord | null), ...(row.custom_fields as DbRecord) };
+    }
+
+    if (earlier) {
+      Object.assign(earlier, next);
+    } else {
+      resolved.push(next);
+    }
+    batch.add([linkedinUrl, ...aliases], earlier || next);
+  }
+
+  return resolved;
+}
+
+/**
+ * Find a saved prospect's pipeline entry whatever URL form it was keyed by
+ */
+export function createPipelineLookup(pipelineData: PipelineImportData) {
+  const index = createLinkedInIdentityIndex<{ status?: string; notes?: string }>();
+  for (const [url, pipeline] of pipelineData) {
+    index.add([url], pipeline);
+  }
+  return (row: DbRecord) => index.find(getProspectIdentities(row.linkedin_url as string, row.linkedin_aliases)) || {};
+}
+
+/**
+ * A bare prospect for a URL nobody has imported yet (watching a profile by
+ * URL), named after its vanity slug until a real import fills it in
+ */
+export function placeholderProspect(linkedinUrl: string): DbRecord {
+  const profile = parseLinkedInProfile(linkedinUrl);
+  const name = profile?.kind === 'vanity' ? profile.id : 'unknown';
+  return {
+    first_name: name,
+    last_name: '',
+    full_name: name,
+    linkedin_url: canonicalizeLinkedInUrl(linkedinUrl),
+    linkedin_aliases: [],
+    icp_score: 0
+  };
+}
@@ -0,0 +1,48 @@
+import { getSupabaseServiceClient, isSupabaseConfigured } from '@/lib/supabase';
+import { createSupabaseStorage } from './supabase';
+import { createLocalStorage } from './local';
+import type { StorageAdapter, StorageBackend } from './types';
+
+export * from './types';
+export {
+  toDbProspect,
+  transformConversationMessage,
+  transformCustomField,
+  transformDbToApp,
+  transformEngagementPost,
+  transformGeneratedMessage,
+  transformImportBatch,
+  transformJob,
+  transformWatchedProfile,
+  transformPipelineEvent,
+  transformResponseInteraction,
+  transformScoreSnapshot,
+  transformSequenceProgress
+} from './transform';
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Resolve which backend to use. STORAGE_BACKEND forces a choice; otherwise
+ * Supabase is used when configured and the local JSON file when it isn't.
+ */
+export function getStorageBackend(): StorageBackend {
+  const forced = process.env.STORAGE_BACKEND;
+  if (forced === 'supabase' || forced === 'local') return forced;
+  return isSupabaseConfigured() ? 'supabase' : 'local';
+}
+
+/**
+ * Storage for the default workspace, for scripts that run without a
+ * signed-in user (on Supabase this needs the service role key). Route
+ * handlers use getWorkspaceStorage from src/lib/auth instead. Server-only:
+ * the local adapter reads and writes the filesystem.
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = getStorageBackend() === 'supabase'
+      ? createSupabaseStorage(getSupabaseServiceClient())
+      : createLocalStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,1045 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { canonicalizeLinkedInUrl, getProspectIdentities } from '@/lib/linkedin-identity';
+import { createPipelineLookup, placeholderProspect, resolveProspectRows } from './identity';
+import { MERGE_MOVED_TABLES, planProspectMerge } from './merge';
+import { compareProspects, isAfterCursor, matchesProspectCriteria } from './query';
+import { buildPipelineEvents, toDbProspect, transformDbToApp, withMilestoneTimestamp } from './transform';
+import { applyCustomFieldChanges, applyTagChanges } from '@/lib/custom-fields';
+import type { AssignmentSettings, CustomFieldValue, CustomFieldValues, ScoringProfile, SequenceStepOutcome } from '@/types';
+import { DEFAULT_WORKSPACE_ID, ENGAGEMENT_POST_MAX_AGE_DAYS } from './types';
+import type {
+  DbRecord,
+  EngagementPostInput,
+  PipelineChange,
+  ProspectCriteria,
+  StorageAdapter,
+  StorageScope
+} from './types';
+
+// Local JSON-file storage. Holds the same tables as the SQL migrations in
+// src/migrations so the dashboard works on a laptop or in CI with no hosted database.
+
+export type LocalDatabase = Record<string, DbRecord[]>;
+
+// Tables holding a workspace's data. An adapter only ever sees its own
+// workspace's rows, like the row-level policies in 0014_workspaces.sql. The
+// auth tables (users, sessions, workspaces, workspace_members) are read and
+// written by src/lib/auth/local.ts.
+const WORKSPACE_TABLES = [
+  'prospects',
+  'pipeline_status',
+  'generated_messages',
+  'engagement_watched_profiles',
+  'engagement_posts',
+  'pipeline_events',
+  'response_interactions',
+  'scoring_profiles',
+  'assignment_settings',
+  'custom_fields',
+  'saved_views',
+  'icp_score_snapshots',
+  'sequence_progress',
+  'import_batches',
+  'conversation_messages',
+  'jobs'
+];
+
+// Tables whose rows record the user who created them
+const OWNED_TABLES = [
+  'prospects',
+  'pipeline_status',
+  'generated_messages',
+  'engagement_watched_profiles',
+  'engagement_posts',
+  'saved_views'
+];
+
+// Scope of each workspace view, so rows inserted through it are stamped
+const viewScopes = new WeakMap<LocalDatabase, StorageScope>();
+
+// Column defaults mirroring src/migrations
+const TABLE_DEFAULTS: Record<string, () => DbRecord> = {
+  prospects: () => ({
+    linkedin_aliases: [],
+    career_history: [],
+    recent_posts: [],
+    icp_score: 0,
+    icp_score_breakdown: null,
+    assignee_id: null,
+    tags: [],
+    custom_fields: {},
+    do_not_contact: false,
+    created_at: now(),
+    updated_at: now()
+  }),
+  pipeline_status: () => ({
+    status: 'not_contacted',
+    created_at: now(),
+    updated_at: now()
+  }),
+  generated_messages: () => ({
+    generated_at: now(),
+    used: false,
+    version: 1,
+    rule_warnings: [],
+    sent_at: null
+  }),
+  engagement_watched_profiles: () => ({
+    added_at: now()
+  }),
+  engagement_posts: () => ({
+    status: 'active',
+    archived_reason: null,
+    generated_comments: [],
+    created_at: now(),
+    updated_at: now()
+  }),
+  pipeline_events: () => ({
+    created_at: now()
+  }),
+  response_interactions: () => ({
+    classification_overridden: false,
+    generated_responses: [],
+    created_at: now(),
+    updated_at: now()
+  }),
+  scoring_profiles: () => ({
+    revision: 1,
+    created_at: now(),
+    updated_at: now()
+  }),
+  assignment_settings: () => ({
+    round_robin_cursor: 0,
+    created_at: now(),
+    updated_at: now()
+  }),
+  custom_fields: () => ({
+    options: [],
+    created_at: now()
+  }),
+  saved_views: () => ({
+    sort: null,
+    created_at: now(),
+    updated_at: now()
+  }),
+  icp_score_snapshots: () => ({
+    created_at: now()
+  }),
+  sequence_progress: () => ({
+    created_at: now()
+  }),
+  import_batches: () => ({
+    prospect_count: 0,
+    created_at: now()
+  }),
+  workspaces: () => ({
+    invite_code: randomUUID().replace(/-/g, '').slice(0, 12),
+    created_at: now()
+  }),
+  workspace_members: () => ({
+    role: 'member',
+    created_at: now()
+  }),
+  users: () => ({
+    created_at: now()
+  }),
+  sessions: () => ({
+    created_at: now()
+  }),
+  conversation_messages: () => ({
+    classification: null,
+    classification_confidence: null,
+    generated_message_id: null,
+    sent_at: now(),
+    created_at: now()
+  }),
+  jobs: () => ({
+    status: 'queued',
+    payload: {},
+    state: null,
+    result: null,
+    error: null,
+    progress_completed: 0,
+    progress_total: 0,
+    progress_message: null,
+    attempts: 0,
+    max_attempts: 3,
+    run_at: now(),
+    locked_at: null,
+    cancel_requested: false,
+    parent_job_id: null,
+    started_at: null,
+    finished_at: null,
+    created_at: now(),
+    updated_at: now()
+  })
+};
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+export function getLocalDbPath(): string {
+  return process.env.LOCAL_DB_PATH || path.join(process.cwd(), '.data', 'outreach-db.json');
+}
+
+export function loadLocalDatabase(filePath: string): LocalDatabase {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LocalDatabase;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+export function saveLocalDatabase(filePath: string, db: LocalDatabase): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Write to a temp file first so a crash never leaves a half-written database
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(db, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Changes hold `<file>.lock` from load to save, so a jobs worker running
+// beside the Next server never loses an update or claims a job twice
+const LOCK_RETRY_MS = 10;
+const LOCK_STALE_MS = 10_000;     // Left behind by a process that crashed
+const LOCK_TIMEOUT_MS = 30_000;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireLock(lockPath: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'));
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch (error) {
+      // Released between the open and the stat
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock on ${lockPath}`);
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Load, change and save the database while holding its lock, so changes from
+ * other processes are never overwritten
+ */
+export function updateLocalDatabase<T>(filePath: string, fn: (db: LocalDatabase) => T): T {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const lockPath = `${filePath}.lock`;
+  acquireLock(lockPath);
+  try {
+    const db = loadLocalDatabase(filePath);
+    const result = fn(db);
+    saveLocalDatabase(filePath, db);
+    return result;
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+export function table(db: LocalDatabase, name: string): DbRecord[] {
+  if (!db[name]) db[name] = [];
+  return db[name];
+}
+
+// Workspace and attribution columns for a row inserted through a view
+function scopeColumns(db: LocalDatabase, name: string): DbRecord {
+  const scope = viewScopes.get(db);
+  if (!scope) return {};
+  return {
+    workspace_id: scope.workspaceId,
+    ...(OWNED_TABLES.includes(name) ? { owner_id: scope.userId ?? null } : {}),
+    ...(name === 'pipeline_events' ? { actor_id: scope.userId ?? null } : {})
+  };
+}
+
+export function insertRow(db: LocalDatabase, name: string, values: DbRecord): DbRecord {
+  const row = { id: randomUUID(), ...(TABLE_DEFAULTS[name]?.() || {}), ...scopeColumns(db, name), ...values };
+  table(db, name).push(row);
+  return row;
+}
+
+/**
+ * The workspace's rows of every workspace table. Rows are shared with `db`,
+ * so updates in place carry over; mergeWorkspaceView writes back rows added
+ * or removed.
+ */
+export function getWorkspaceView(db: LocalDatabase, scope: StorageScope): LocalDatabase {
+  const view: LocalDatabase = {};
+  for (const name of WORKSPACE_TABLES) {
+    const rows = db[name] || [];
+    // Rows from before workspaces existed belong to the default workspace
+    for (const row of rows) row.workspace_id ??= DEFAULT_WORKSPACE_ID;
+    view[name] = rows.filter(r => r.workspace_id === scope.workspaceId);
+  }
+  viewScopes.set(view, scope);
+  return view;
+}
+
+function mergeWorkspaceView(db: LocalDatabase, view: LocalDatabase, scope: StorageScope): void {
+  for (const name of WORKSPACE_TABLES) {
+    if (!db[name] && view[name].length === 0) continue;
+    db[name] = [...(db[name] || []).filter(r => r.workspace_id !== scope.workspaceId), ...view[name]];
+  }
+}
+
+// Insert or merge on a unique column, like Supabase's upsert with onConflict
+export function upsertRow(db: LocalDatabase, name: string, key: string, values: DbRecord): DbRecord {
+  const existing = table(db, name).find(r => r[key] === values[key]);
+  if (existing) {
+    Object.assign(existing, values);
+    return existing;
+  }
+  return insertRow(db, name, values);
+}
+
+function requireRow(db: LocalDatabase, name: string, id: string): DbRecord {
+  const row = table(db, name).find(r => r.id === id);
+  if (!row) throw new Error(`${name} row not found: ${id}`);
+  return row;
+}
+
+// Remove prospects and everything that references them (ON DELETE CASCADE)
+function deleteProspectsCascade(db: LocalDatabase, ids: Set<string>): void {
+  for (const name of Object.keys(db)) {
+    const column = name === 'prospects' ? 'id' : 'prospect_id';
+    db[name] = db[name].filter(r => !ids.has(r[column] as string));
+  }
+}
+
+// Upsert pipeline rows and append an event for every status that changed
+function setPipelineStatuses(
+  db: LocalDatabase,
+  rows: DbRecord[],
+  change: PipelineChange
+): DbRecord[] {
+  // Only prospects in this workspace, like the foreign keys in 0014_workspaces.sql
+  const prospectIds = new Set(table(db, 'prospects').map(p => p.id));
+  rows = rows.filter(row => prospectIds.has(row.prospect_id));
+
+  const pipeline = table(db, 'pipeline_status');
+  const previousStatuses = new Map(
+    pipeline.map(r => [r.prospect_id as string, r.status as string])
+  );
+
+  const updatedAt = now();
+  const saved = rows.map(row =>
+    upsertRow(db, 'pipeline_status', 'prospect_id', withMilestoneTimestamp(
+      { ...row, updated_at: updatedAt },
+      previousStatuses.get(row.prospect_id as string),
+      updatedAt
+    ))
+  );
+
+  const events = buildPipelineEvents(
+    previousStatuses,
+    saved.map(r => ({ prospectId: r.prospect_id as string, status: r.status as string })),
+    change
+  );
+  for (const event of events) {
+    insertRow(db, 'pipeline_events', event);
+  }
+
+  return saved;
+}
+
+function withProspectRelations(db: LocalDatabase, prospect: DbRecord): DbRecord {
+  return {
+    ...prospect,
+    pipeline_status: table(db, 'pipeline_status').filter(r => r.prospect_id === prospect.id),
+    generated_messages: table(db, 'generated_messages').filter(r => r.prospect_id === prospect.id)
+  };
+}
+
+// Prospects matching the criteria, with relations, paired with their app
+// form so the shared query functions can read them
+function matchingProspects(db: LocalDatabase, criteria: ProspectCriteria) {
+  const rows = table(db, 'prospects').map(p => withProspectRelations(db, p));
+  const prospects = transformDbToApp(rows);
+  return rows
+    .map((row, i) => ({ row, prospect: prospects[i] }))
+    .filter(({ prospect }) => matchesProspectCriteria(prospect, criteria));
+}
+
+function withProspect(db: LocalDatabase, row: DbRecord): DbRecord {
+  return {
+    ...row,
+    prospects: table(db, 'prospects').find(p => p.id === row.prospect_id) || null
+  };
+}
+
+function byDateDesc(column: string) {
+  return (a: DbRecord, b: DbRecord) =>
+    String(b[column] || '').localeCompare(String(a[column] || ''));
+}
+
+export function createLocalStorage(
+  filePath: string = getLocalDbPath(),
+  scope: StorageScope = { workspaceId: DEFAULT_WORKSPACE_ID }
+): StorageAdapter {
+  // Reads and writes are synchronous, so each call is atomic within the
+  // process, and writes hold the file lock so they are atomic across
+  // processes too. Callbacks get the workspace's view of the database.
+  function read<T>(fn: (db: LocalDatabase) => T): T {
+    return fn(getWorkspaceView(loadLocalDatabase(filePath), scope));
+  }
+
+  function write<T>(fn: (db: LocalDatabase) => T): T {
+    return updateLocalDatabase(filePath, db => {
+      const view = getWorkspaceView(db, scope);
+      const result = fn(view);
+      mergeWorkspaceView(db, view, scope);
+      return result;
+    });
+  }
+
+  function watchProfile(prospectId: string) {
+    return write(db => {
+      const prospect = requireRow(db, 'prospects', prospectId);
+      if (prospect.do_not_contact) {
+        throw new Error(`Prospect ${prospectId} is marked do not contact`);
+      }
+      const row = upsertRow(db, 'engagement_watched_profiles', 'prospect_id', { prospect_id: prospectId });
+      return withProspect(db, row);
+    });
+  }
+
+  async function findProspectByLinkedInUrl(linkedinUrl: string) {
+    const identity = canonicalizeLinkedInUrl(linkedinUrl);
+    return read(db => {
+      const prospect = table(db, 'prospects').find(p =>
+        getProspectIdentities(p.linkedin_url as string, p.linkedin_aliases).includes(identity)
+      );
+      return prospect ? withProspectRelations(db, prospect) : null;
+    });
+  }
+
+  function updateEngagementPost(postId: string, updates: DbRecord) {
+    return write(db => {
+      const row = requireRow(db, 'engagement_posts', postId);
+      Object.assign(row, updates, { updated_at: now() });
+      return { ...row };
+    });
+  }
+
+  return {
+    backend: 'local',
+    workspaceId: scope.workspaceId,
+
+    async getProspects() {
+      return read(db =>
+        [...table(db, 'prospects')]
+          .sort(byDateDesc('created_at'))
+          .map(p => withProspectRelations(db, p))
+      );
+    },
+
+    async getProspectById(id: string) {
+      return read(db => {
+        const prospect = table(db, 'prospects').find(p => p.id === id);
+        return prospect ? withProspectRelations(db, prospect) : null;
+      });
+    },
+
+    async findProspects(criteria, { sort, after, limit }) {
+      return read(db => {
+        const compare = compareProspects(sort);
+        return matchingProspects(db, criteria)
+          .filter(({ prospect }) => !after || isAfterCursor(prospect, sort, after))
+          .sort((a, b) => compare(a.prospect, b.prospect))
+          .slice(0, limit)
+          .map(({ row }) => row);
+      });
+    },
+
+    async countProspects(criteria) {
+      return read(db => matchingProspects(db, criteria).length);
+    },
+
+    findProspectByLinkedInUrl,
+
+    async upsertProspect(prospect: DbRecord) {
+      return write(db => {
+        const [row] = resolveProspectRows([prospect], table(db, 'prospects'));
+        return { ...upsertRow(db, 'prospects', 'linkedin_url', { ...row, updated_at: now() }) };
+      });
+    },
+
+    async updateProspect(id: string, updates: DbRecord) {
+      return write(db => {
+        const row = requireRow(db, 'prospects', id);
+        Object.assign(row, updates, { updated_at: now() });
+        return { ...row };
+      });
+    },
+
+    async setDoNotContact(prospectId: string, reason: string | null) {
+      return write(db => {
+        const row = requireRow(db, 'prospects', prospectId);
+        Object.assign(row, {
+          do_not_contact: reason !== null,
+          do_not_contact_reason: reason,
+          do_not_contact_at: reason !== null ? now() : null,
+          updated_at: now()
+        });
+        if (reason !== null) {
+          db.engagement_watched_profiles = table(db, 'engagement_watched_profiles')
+            .filter(w => w.prospect_id !== prospectId);
+        }
+        return { ...row };
+      });
+    },
+
+    async getDoNotContactIds(ids: string[]) {
+      const idSet = new Set(ids);
+      return read(db =>
+        table(db, 'prospects')
+          .filter(p => idSet.has(p.id as string) && p.do_not_contact)
+          .map(p => p.id as string)
+      );
+    },
+
+    async getProspectTags() {
+      return read(db => [...new Set(table(db, 'prospects').flatMap(p => (p.tags as string[] | undefined) || []))]);
+    },
+
+    async bulkImportProspects(prospects, pipelineData, batch) {
+      return write(db => {
+        const batchRow = batch
+          ? insertRow(db, 'import_batches', { ...batch, prospect_count: prospects.length })
+          : null;
+
+        const rows = resolveProspectRows(prospects.map(toDbProspect), table(db, 'prospects'));
+        const inserted = rows.map(p => {
+          const row = upsertRow(db, 'prospects', 'linkedin_url', { ...p, updated_at: now() });
+          // Prospects keep the batch that first imported them
+          if (batchRow && !row.import_batch_id) row.import_batch_id = batchRow.id;
+          return row;
+        });
+
+        const pipelineFor = createPipelineLookup(pipelineData);
+        setPipelineStatuses(db, inserted.map(p => {
+          const pipeline = pipelineFor(p);
+          return {
+            prospect_id: p.id,
+            status: pipeline.status || 'not_contacted',
+            notes: pipeline.notes || null
+          };
+        }), { source: 'import' });
+
+        return inserted.map(p => ({ ...p }));
+      });
+    },
+
+    async deleteProspect(id: string) {
+      write(db => deleteProspectsCascade(db, new Set([id])));
+    },
+
+    async bulkDeleteProspects(ids: string[]) {
+      write(db => deleteProspectsCascade(db, new Set(ids)));
+    },
+
+    async mergeProspects(keepId: string, mergeIds: string[]) {
+      return write(db => {
+        const ids = new Set([keepId, ...mergeIds]);
+        const keep = requireRow(db, 'prospects', keepId);
+        const merged = mergeIds.map(id => requireRow(db, 'prospects', id));
+        const rowsOf = (name: string) => table(db, name).filter(r => ids.has(r.prospect_id as string));
+
+        const plan = planProspectMerge({
+          keep,
+          merged,
+          pipelines: rowsOf('pipeline_status'),
+          messages: rowsOf('generated_messages'),
+          watched: rowsOf('engagement_watched_profiles'),
+          sequenceProgress: rowsOf('sequence_progress')
+        });
+
+        for (const name of MERGE_MOVED_TABLES) {
+          for (const row of rowsOf(name)) row.prospect_id = keepId;
+        }
+        for (const { id, ...updates } of plan.messageUpdates) {
+          Object.assign(requireRow(db, 'generated_messages', id as string), updates);
+        }
+        for (const id of plan.sequenceProgressIds) {
+          requireRow(db, 'sequence_progress', id).prospect_id = keepId;
+        }
+        if (plan.watch) {
+          const addedAt = rowsOf('engagement_watched_profiles').map(w => String(w.added_at)).sort()[0];
+          upsertRow(db, 'engagement_watched_profiles', 'prospect_id', { prospect_id: keepId, added_at: addedAt });
+        } else {
+          db.engagement_watched_profiles = table(db, 'engagement_watched_profiles')
+            .filter(w => w.prospect_id !== keepId);
+        }
+
+        Object.assign(keep, plan.prospect, { updated_at: now() });
+        upsertRow(db, 'pipeline_status', 'prospect_id', { ...plan.pipeline, updated_at: now() });
+        for (const event of plan.events) {
+          insertRow(db, 'pipeline_events', event);
+        }
+
+        deleteProspectsCascade(db, new Set(mergeIds));
+        return withProspectRelations(db, keep);
+      });
+    },
+
+    async bulkAssignProspects(ids: string[], assigneeId: string | null) {
+      write(db => {
+        const idSet = new Set(ids);
+        for (const row of table(db, 'prospects')) {
+          if (idSet.has(row.id as string)) Object.assign(row, { assignee_id: assigneeId, updated_at: now() });
+        }
+      });
+    },
+
+    async bulkUpdateTags(ids: string[], add: string[], remove: string[]) {
+      write(db => {
+        const idSet = new Set(ids);
+        for (const row of table(db, 'prospects')) {
+          if (!idSet.has(row.id as string)) continue;
+          Object.assign(row, { tags: applyTagChanges(row.tags as string[], add, remove), updated_at: now() });
+        }
+      });
+    },
+
+    async bulkSetCustomFields(ids: string[], changes: Record<string, CustomFieldValue | null>) {
+      write(db => {
+        const idSet = new Set(ids);
+        for (const row of table(db, 'prospects')) {
+          if (!idSet.has(row.id as string)) continue;
+          Object.assign(row, {
+            custom_fields: applyCustomFieldChanges(row.custom_fields as CustomFieldValues, changes),
+            updated_at: now()
+          });
+        }
+      });
+    },
+
+    async updatePipelineStatus(prospectId: string, updates: DbRecord, change: PipelineChange) {
+      return write(db => {
+        const [saved] = setPipelineStatuses(db, [{ prospect_id: prospectId, ...updates }], change);
+        return { ...saved };
+      });
+    },
+
+    async bulkUpdatePipelineStatus(prospectIds: string[], status: string, change: PipelineChange) {
+      write(db => {
+        setPipelineStatuses(db, prospectIds.map(id => ({ prospect_id: id, status })), change);
+      });
+    },
+
+    async getPipelineEvents(prospectId?: string) {
+      return read(db =>
+        table(db, 'pipeline_events')
+          .filter(e => !prospectId || e.prospect_id === prospectId)
+          .sort(byDateDesc('created_at'))
+      );
+    },
+
+    async getImportBatches() {
+      return read(db => [...table(db, 'import_batches')].sort(byDateDesc('created_at')));
+    },
+
+    async saveGeneratedMessage(prospectId: string, messageType: string, content: string, details: DbRecord = {}) {
+      return write(db => {
+        const versions = table(db, 'generated_messages')
+          .filter(m => m.prospect_id === prospectId && m.message_type === messageType)
+          .map(m => (m.version as number) || 1);
+        return {
+          ...insertRow(db, 'generated_messages', {
+            ...details,
+            prospect_id: prospectId,
+            message_type: messageType,
+            content,
+            version: Math.max(0, ...versions) + 1
+          })
+        };
+      });
+    },
+
+    async getGeneratedMessage(messageId: string) {
+      return read(db => {
+        const message = table(db, 'generated_messages').find(m => m.id === messageId);
+        return message ? { ...message } : null;
+      });
+    },
+
+    async markGeneratedMessageSent(messageId: string) {
+      return write(db => {
+        const message = requireRow(db, 'generated_messages', messageId);
+        for (const other of table(db, 'generated_messages')) {
+          if (other.prospect_id === message.prospect_id && other.message_type === message.message_type) {
+            Object.assign(other, { used: false, sent_at: null });
+          }
+        }
+        Object.assign(message, { used: true, sent_at: now() });
+        return { ...message };
+      });
+    },
+
+    // ============ Engagement Posts ============
+
+    async getEngagementPosts(status?: 'active' | 'archived') {
+      return read(db =>
+        table(db, 'engagement_posts')
+          .filter(p => !status || p.status === status)
+          .sort(byDateDesc('posted_at'))
+          .map(p => withProspect(db, p))
+      );
+    },
+
+    async getEngagementPost(postId: string) {
+      return read(db => {
+        const post = table(db, 'engagement_posts').find(p => p.id === postId);
+        return post ? withProspect(db, post) : null;
+      });
+    },
+
+    async saveEngagementPost(post: EngagementPostInput) {
+      return write(db => ({
+        ...upsertRow(db, 'engagement_posts', 'post_url', {
+          prospect_id: post.prospectId,
+          post_url: post.postUrl,
+          post_content: post.postContent,
+          posted_at: post.postedAt,
+          author_name: post.authorName,
+          author_photo_url: post.authorPhotoUrl || null,
+          generated_comments: post.generatedComments || [],
+          status: post.isArchived ? 'archived' : 'active',
+          archived_reason: post.archivedReason || null
+        })
+      }));
+    },
+
+    async updateEngagementPostComments(postId: string, comments: string[]) {
+      return updateEngagementPost(postId, { generated_comments: comments });
+    },
+
+    async archiveEngagementPost(postId: string, reason: 'aged' | 'engaged') {
+      return updateEngagementPost(postId, { status: 'archived', archived_reason: reason });
+    },
+
+    async restoreEngagementPost(postId: string) {
+      return updateEngagementPost(postId, { status: 'active', archived_reason: null });
+    },
+
+    async clearArchivedEngagementPosts() {
+      write(db => {
+        db.engagement_posts = table(db, 'engagement_posts').filter(p => p.status !== 'archived');
+      });
+    },
+
+    async autoArchiveOldPosts(daysOld: number = ENGAGEMENT_POST_MAX_AGE_DAYS) {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+      return write(db => {
+        const archived: DbRecord[] = [];
+        for (const post of table(db, 'engagement_posts')) {
+          if (post.status === 'active' && new Date(post.posted_at as string) < cutoffDate) {
+            Object.assign(post, { status: 'archived', archived_reason: 'aged', updated_at: now() });
+            archived.push({ ...post });
+          }
+        }
+        return archived;
+      });
+    },
+
+    // ============ Watched Profiles ============
+
+    async getWatchedProfiles() {
+      return read(db =>
+        [...table(db, 'engagement_watched_profiles')]
+          .sort(byDateDesc('added_at'))
+          .map(w => withProspect(db, w))
+      );
+    },
+
+    async addWatchedProfile(prospectId: string) {
+      return watchProfile(prospectId);
+    },
+
+    async addWatchedProfileByUrl(linkedinUrl: string) {
+      const existing = await findProspectByLinkedInUrl(linkedinUrl);
+      const prospectId = existing
+        ? existing.id as string
+        : write(db => insertRow(db, 'prospects', placeholderProspect(linkedinUrl)).id as string);
+
+      return watchProfile(prospectId);
+    },
+
+    async removeWatchedProfile(prospectId: string) {
+      write(db => {
+        db.engagement_watched_profiles = table(db, 'engagement_watched_profiles')
+          .filter(w => w.prospect_id !== prospectId);
+      });
+    },
+
+    // ============ Response Interactions ============
+
+    async logResponseInteraction(interaction: DbRecord) {
+      return write(db => ({ ...insertRow(db, 'response_interactions', interaction) }));
+    },
+
+    async getResponseInteractions(options = {}) {
+      return read(db =>
+        table(db, 'response_interactions')
+          .filter(r => !options.prospectId || r.prospect_id === options.prospectId)
+          .sort(byDateDesc('created_at'))
+          .slice(0, options.limit === null ? undefined : options.limit ?? 50)
+      );
+    },
+
+    async getLatestResponseTimes(prospectIds: string[]) {
+      const idSet = new Set(prospectIds);
+      return read(db => {
+        const latest = new Map<string, string>();
+        for (const r of table(db, 'response_interactions')) {
+          const id = r.prospect_id as string;
+          const at = r.created_at as string;
+          if (idSet.has(id) && at > (latest.get(id) ?? '')) latest.set(id, at);
+        }
+        return latest;
+      });
+    },
+
+    async getConversation(prospectId: string) {
+      return read(db =>
+        table(db, 'conversation_messages')
+          .filter(m => m.prospect_id === prospectId)
+          .sort((a, b) => String(a.sent_at).localeCompare(String(b.sent_at)))
+      );
+    },
+
+    async addConversationMessage(message: DbRecord) {
+      return write(db => ({ ...insertRow(db, 'conversation_messages', message) }));
+    },
+
+    async updateConversationMessage(id: string, updates: DbRecord) {
+      return write(db => {
+        const row = requireRow(db, 'conversation_messages', id);
+        Object.assign(row, updates);
+        return { ...row };
+      });
+    },
+
+    // ============ Scoring Profiles ============
+
+    async getScoringProfile(workspaceId: string) {
+      return read(db => table(db, 'scoring_profiles').find(r => r.workspace_id === workspaceId) || null);
+    },
+
+    async saveScoringProfile(workspaceId: string, profile: ScoringProfile) {
+      return write(db => {
+        const existing = table(db, 'scoring_profiles').find(r => r.workspace_id === workspaceId);
+        return {
+          ...upsertRow(db, 'scoring_profiles', 'workspace_id', {
+            workspace_id: workspaceId,
+            name: profile.name,
+            profile,
+            revision: existing ? Number(existing.revision ?? 1) + 1 : 1,
+            updated_at: now()
+          })
+        };
+      });
+    },
+
+    async deleteScoringProfile(workspaceId: string) {
+      write(db => {
+        db.scoring_profiles = table(db, 'scoring_profiles').filter(r => r.workspace_id !== workspaceId);
+      });
+    },
+
+    // ============ Assignment Settings ============
+
+    async getAssignmentSettings(workspaceId: string) {
+      return read(db => table(db, 'assignment_settings').find(r => r.workspace_id === workspaceId) || null);
+    },
+
+    async saveAssignmentSettings(workspaceId: string, settings: AssignmentSettings) {
+      return write(db => ({
+        ...upsertRow(db, 'assignment_settings', 'workspace_id', {
+          workspace_id: workspaceId,
+          settings,
+          updated_at: now()
+        })
+      }));
+    },
+
+    async takeRoundRobinTurns(workspaceId: string, turns: number) {
+      return write(db => {
+        const row = table(db, 'assignment_settings').find(r => r.workspace_id === workspaceId)
+          || insertRow(db, 'assignment_settings', { workspace_id: workspaceId, settings: null });
+        const first = Number(row.round_robin_cursor ?? 0);
+        row.round_robin_cursor = first + turns;
+        return first;
+      });
+    },
+
+    // ============ Custom Fields ============
+
+    async getCustomFields() {
+      return read(db => [...table(db, 'custom_fields')]
+        .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at))));
+    },
+
+    async createCustomField(field: DbRecord) {
+      return write(db => ({ ...insertRow(db, 'custom_fields', field) }));
+    },
+
+    async updateCustomField(id: string, updates: DbRecord) {
+      return write(db => {
+        const row = requireRow(db, 'custom_fields', id);
+        Object.assign(row, updates);
+        return { ...row };
+      });
+    },
+
+    async deleteCustomField(id: string) {
+      write(db => {
+        db.custom_fields = table(db, 'custom_fields').filter(r => r.id !== id);
+      });
+    },
+
+    // ============ Saved Views ============
+
+    async getSavedViews() {
+      return read(db => [...table(db, 'saved_views')]
+        .sort((a, b) => String(a.name).localeCompare(String(b.name))));
+    },
+
+    async getSavedView(id: string) {
+      return read(db => {
+        const row = table(db, 'saved_views').find(r => r.id === id);
+        return row ? { ...row } : null;
+      });
+    },
+
+    async createSavedView(view: DbRecord) {
+      return write(db => ({ ...insertRow(db, 'saved_views', view) }));
+    },
+
+    async updateSavedView(id: string, updates: DbRecord) {
+      return write(db => {
+        const row = requireRow(db, 'saved_views', id);
+        Object.assign(row, updates, { updated_at: now() });
+        return { ...row };
+      });
+    },
+
+    async deleteSavedView(id: string) {
+      write(db => {
+        db.saved_views = table(db, 'saved_views').filter(r => r.id !== id);
+      });
+    },
+
+    // ============ ICP Score History ============
+
+    async saveScoreSnapshots(snapshots: DbRecord[]) {
+      write(db => {
+        for (const snapshot of snapshots) {
+          insertRow(db, 'icp_score_snapshots', snapshot);
+        }
+      });
+    },
+
+    async getScoreSnapshots(prospectId: string) {
+      return read(db =>
+        table(db, 'icp_score_snapshots')
+          .filter(s => s.prospect_id === prospectId)
+          .sort(byDateDesc('created_at'))
+      );
+    },
+
+    // ============ Sequence Progress ============
+
+    async getSequenceProgress() {
+      return read(db => table(db, 'sequence_progress'));
+    },
+
+    async recordSequenceStep(prospectId: string, stepId: string, outcome: SequenceStepOutcome) {
+      return write(db => {
+        const rows = table(db, 'sequence_progress');
+        const existing = rows.find(r => r.prospect_id === prospectId && r.step_id === stepId);
+        if (existing) {
+          Object.assign(existing, { outcome, created_at: now() });
+          return { ...existing };
+        }
+        return { ...insertRow(db, 'sequence_progress', { prospect_id: prospectId, step_id: stepId, outcome }) };
+      });
+    },
+
+    // ============ Jobs ============
+
+    async createJob(job: DbRecord) {
+      return write(db => ({ ...insertRow(db, 'jobs', job) }));
+    },
+
+    async getJob(id: string) {
+      return read(db => table(db, 'jobs').find(j => j.id === id) || null);
+    },
+
+    async getJobs(options: { status?: string; type?: string; limit?: number } = {}) {
+      return read(db =>
+        table(db, 'jobs')
+          .filter(j => (!options.status || j.status === options.status) && (!options.type || j.type === options.type))
+          .sort(byDateDesc('created_at'))
+          .slice(0, options.limit ?? 50)
+      );
+    },
+
+    async updateJob(id: string, updates: DbRecord) {
+      return write(db => {
+        const row = requireRow(db, 'jobs', id);
+        Object.assign(row, updates, { updated_at: now() });
+        return { ...row };
+      });
+    },
+
+    async claimNextJob(claimedAt: string, staleBefore: string) {
+      return write(db => {
+        const next = table(db, 'jobs')
+          .filter(j =>
+            (j.status === 'queued' && String(j.run_at) <= claimedAt) ||
+            (j.status === 'running' && String(j.locked_at) < staleBefore)
+          )
+          .sort((a, b) => String(a.run_at).localeCompare(String(b.run_at)))[0];
+        if (!next) return null;
+        Object.assign(next, { status: 'running', locked_at: claimedAt, updated_at: claimedAt });
+        return { ...next };
+      });
+    },
+
+    async requestJobCancel(id: string) {
+      return write(db => {
+        const row = table(db, 'jobs').find(j => j.id === id);
+        if (!row) return null;
+        if (row.status === 'queued') {
+          Object.assign(row, { status: 'cancelled', cancel_requested: true, finished_at: now(), updated_at: now() });
+        } else if (row.status === 'running') {
+          Object.assign(row, { cancel_requested: true, updated_at: now() });
+        }
+        return { ...row };
+      });
+    }
+  };
+}
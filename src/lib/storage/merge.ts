@@ -0,0 +1,227 @@
+import { normalizeTags } from '@/lib/custom-fields';
+import { mergeLinkedInAliases } from '@/lib/linkedin-identity';
+import { getStatusRank, mostAdvancedStatus } from '@/lib/duplicates';
+import { buildPipelineEvents } from './transform';
+import type { DbRecord } from './types';
+
+// ============================================================================
+// PROSPECT MERGE
+// ============================================================================
+//
+// Both adapters merge duplicate prospects the same way: compute a plan here
+// from the rows involved, move every child row (messages, engagement posts,
+// pipeline events, replies, score history, conversation) to the kept
+// prospect, apply the plan, then delete the merged prospects. Child rows that
+// would break a unique constraint on the kept prospect (a second pipeline
+// row, watch entry or sequence step) are folded into the plan instead and go
+// with the merged prospects when they're deleted.
+// ============================================================================
+
+// Child tables whose rows all move to the kept prospect
+export const MERGE_MOVED_TABLES = [
+  'generated_messages',
+  'engagement_posts',
+  'pipeline_events',
+  'response_interactions',
+  'icp_score_snapshots',
+  'conversation_messages'
+];
+
+// Profile columns a kept prospect takes from a merged one when its own is blank
+const FILLED_COLUMNS = [
+  'profile_pic_url',
+  'headline',
+  'about_summary',
+  'company_name',
+  'company_industry',
+  'company_size',
+  'job_title',
+  'location',
+  'total_experience_years',
+  'top_skills',
+  'import_batch_id',
+  'assignee_id'
+];
+
+// Pipeline milestones; the merged row keeps the earliest of each
+const MILESTONE_COLUMNS = [
+  'visited_at',
+  'connection_sent_at',
+  'connection_accepted_at',
+  'message_sent_at',
+  'response_received_at',
+  'call_booked_at'
+];
+
+export interface ProspectMergeInput {
+  keep: DbRecord;
+  merged: DbRecord[];           // Prospects merged into keep, deleted afterwards
+  pipelines: DbRecord[];        // pipeline_status rows of all of them
+  messages: DbRecord[];         // generated_messages rows of all of them
+  watched: DbRecord[];          // engagement_watched_profiles rows of all of them
+  sequenceProgress: DbRecord[]; // sequence_progress rows of all of them
+}
+
+export interface ProspectMergePlan {
+  prospect: DbRecord;              // Updates for the kept prospect
+  pipeline: DbRecord;              // Its pipeline row after the merge
+  events: DbRecord[];              // pipeline_events row when its status moves
+  messageUpdates: DbRecord[];      // Renumbered versions and sent flags, by id
+  sequenceProgressIds: string[];   // Merged steps the kept prospect hasn't done
+  watch: boolean;                  // Kept prospect is on the watch list afterwards
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function earliest(values: unknown[]): string | null {
+  const dates = values.filter(v => !isBlank(v)).map(String).sort();
+  return dates[0] || null;
+}
+
+function asArray<T = DbRecord>(value: unknown): T[] {
+  return Array.isArray(value) ? value as T[] : [];
+}
+
+// Jobs from every row, the kept prospect's first, without repeats
+function mergeCareerHistory(rows: DbRecord[]): DbRecord[] {
+  const seen = new Set<string>();
+  const merged: DbRecord[] = [];
+  for (const job of rows.flatMap(row => asArray(row.career_history))) {
+    const key = [job.companyName, job.title, job.startDate]
+      .map(part => String(part || '').trim().toLowerCase())
+      .join('|');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(job);
+  }
+  return merged;
+}
+
+// Posts from every row, newest first, without repeats
+function mergeRecentPosts(rows: DbRecord[]): DbRecord[] {
+  const seen = new Set<string>();
+  const merged: DbRecord[] = [];
+  for (const post of rows.flatMap(row => asArray(row.recent_posts))) {
+    const key = String(post.url || post.content || '');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(post);
+  }
+  return merged.sort((a, b) => String(b.date || '').localeCompare(String(a.date || '')));
+}
+
+function mergeProspectRow(keep: DbRecord, merged: DbRecord[]): DbRecord {
+  const rows = [keep, ...merged];
+  const updates: DbRecord = {
+    linkedin_aliases: mergeLinkedInAliases(
+      keep.linkedin_url as string,
+      keep.linkedin_aliases,
+      merged.flatMap(row => [row.linkedin_url as string, ...asArray<string>(row.linkedin_aliases)])
+    ),
+    career_history: mergeCareerHistory(rows),
+    recent_posts: mergeRecentPosts(rows),
+    // Every tag, and each custom field from the first row that has it
+    tags: normalizeTags(rows.flatMap(row => asArray(row.tags))),
+    custom_fields: Object.assign({}, ...[...rows].reverse().map(row => row.custom_fields || {})),
+    created_at: earliest(rows.map(row => row.created_at)) || keep.created_at
+  };
+
+  for (const column of FILLED_COLUMNS) {
+    if (!isBlank(keep[column])) continue;
+    const donor = merged.find(row => !isBlank(row[column]));
+    if (donor) updates[column] = donor[column];
+  }
+
+  // Do not contact on any of them means do not contact
+  const flagged = rows.find(row => row.do_not_contact);
+  if (flagged && !keep.do_not_contact) {
+    updates.do_not_contact = true;
+    updates.do_not_contact_reason = flagged.do_not_contact_reason || null;
+    updates.do_not_contact_at = flagged.do_not_contact_at || null;
+  }
+
+  return updates;
+}
+
+function mergePipelineRow(keepId: string, pipelines: DbRecord[]): DbRecord {
+  const ranked = [...pipelines].sort((a, b) =>
+    getStatusRank(b.status as string) - getStatusRank(a.status as string)
+  );
+
+  const row: DbRecord = {
+    prospect_id: keepId,
+    status: mostAdvancedStatus(pipelines.map(p => p.status as string)),
+    deal_status: ranked.find(p => !isBlank(p.deal_status))?.deal_status ?? null,
+    notes: [...new Set(ranked.map(p => String(p.notes || '').trim()).filter(Boolean))].join('\n\n') || null
+  };
+  for (const column of MILESTONE_COLUMNS) {
+    row[column] = earliest(pipelines.map(p => p[column]));
+  }
+  return row;
+}
+
+// Number every message type's versions oldest first across the merged
+// prospects, and keep only the most recently sent version of each type sent
+function mergeMessageVersions(messages: DbRecord[]): DbRecord[] {
+  const byType = new Map<string, DbRecord[]>();
+  for (const message of messages) {
+    const type = message.message_type as string;
+    byType.set(type, [...(byType.get(type) || []), message]);
+  }
+
+  const updates: DbRecord[] = [];
+  for (const versions of byType.values()) {
+    const ordered = [...versions].sort((a, b) =>
+      String(a.generated_at || '').localeCompare(String(b.generated_at || ''))
+    );
+    const sent = ordered
+      .filter(m => m.used)
+      .sort((a, b) => String(b.sent_at || '').localeCompare(String(a.sent_at || '')))[0];
+
+    ordered.forEach((message, index) => {
+      const next: DbRecord = { version: index + 1 };
+      if (message.used && message !== sent) Object.assign(next, { used: false, sent_at: null });
+      if (next.version !== message.version || 'used' in next) {
+        updates.push({ id: message.id, ...next });
+      }
+    });
+  }
+  return updates;
+}
+
+/**
+ * What merging `merged` into `keep` changes on the kept prospect
+ */
+export function planProspectMerge(input: ProspectMergeInput): ProspectMergePlan {
+  const keepId = input.keep.id as string;
+  if (input.merged.some(row => row.id === keepId)) {
+    throw new Error(`Cannot merge prospect ${keepId} into itself`);
+  }
+  const prospect = mergeProspectRow(input.keep, input.merged);
+  const pipeline = mergePipelineRow(keepId, input.pipelines);
+  const previousStatus = input.pipelines.find(p => p.prospect_id === keepId)?.status as string | undefined;
+
+  // One row per step: the kept prospect's, else the first merged one's
+  const steps = new Set(input.sequenceProgress.filter(r => r.prospect_id === keepId).map(r => r.step_id));
+  const sequenceProgressIds: string[] = [];
+  for (const row of input.sequenceProgress) {
+    if (steps.has(row.step_id)) continue;
+    steps.add(row.step_id);
+    sequenceProgressIds.push(row.id as string);
+  }
+
+  return {
+    prospect,
+    pipeline,
+    events: buildPipelineEvents(
+      new Map(previousStatus ? [[keepId, previousStatus]] : []),
+      [{ prospectId: keepId, status: pipeline.status as string }],
+      { source: 'merge', note: `Merged ${input.merged.length} duplicate${input.merged.length === 1 ? '' : 's'}` }
+    ),
+    messageUpdates: mergeMessageVersions(input.messages),
+    sequenceProgressIds,
+    watch: input.watched.length > 0 && !(prospect.do_not_contact || input.keep.do_not_contact)
+  };
+}
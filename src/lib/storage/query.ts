@@ -0,0 +1,90 @@
+import type { ProspectSort, ProspectWithPipeline } from '@/types';
+import type { ProspectCriteria, ProspectCursor } from './types';
+
+// ============================================================================
+// PROSPECT QUERIES
+// ============================================================================
+//
+// What findProspects and countProspects mean, in one place. The local adapter
+// applies these functions to the prospects in its file; the Supabase adapter
+// sends the same criteria to Postgres, where search runs against the
+// search_vector column (migration 0018) and pages are read with keyset
+// pagination on (sort column, id).
+// ============================================================================
+
+// The column each sort orders by. Ties are broken by id in the same direction.
+export const PROSPECT_SORT_COLUMNS: Record<ProspectSort, { column: string; ascending: boolean }> = {
+  icp_desc: { column: 'icp_score', ascending: false },
+  icp_asc: { column: 'icp_score', ascending: true },
+  name_asc: { column: 'full_name', ascending: true },
+  recent: { column: 'created_at', ascending: false }
+};
+
+/**
+ * The words of a text for search: lowercased runs of letters and digits, the
+ * way Postgres' 'simple' text search configuration splits it
+ */
+export function searchWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Whether every word of `search` starts a word of the prospect's name,
+ * company, headline or about
+ */
+export function matchesSearch(prospect: ProspectWithPipeline, search: string): boolean {
+  const terms = searchWords(search);
+  if (terms.length === 0) return true;
+  const words = [prospect.fullName, prospect.companyName, prospect.headline, prospect.aboutSummary]
+    .flatMap(text => searchWords(text || ''));
+  return terms.every(term => words.some(word => word.startsWith(term)));
+}
+
+export function matchesProspectCriteria(prospect: ProspectWithPipeline, criteria: ProspectCriteria): boolean {
+  if (criteria.status && (prospect.pipeline?.status || 'not_contacted') !== criteria.status) return false;
+  if (criteria.segment && (prospect.icpScoreBreakdown?.segment || 'merchant') !== criteria.segment) return false;
+
+  const score = prospect.icpScore || 0;
+  if (criteria.icpMin !== undefined && score < criteria.icpMin) return false;
+  if (criteria.icpBelow !== undefined && score >= criteria.icpBelow) return false;
+
+  if (criteria.assigneeId !== undefined && (prospect.assigneeId ?? null) !== criteria.assigneeId) return false;
+  if (criteria.hasMessages && !prospect.messages?.length) return false;
+  if (criteria.search && !matchesSearch(prospect, criteria.search)) return false;
+  return true;
+}
+
+export function getProspectSortValue(prospect: ProspectWithPipeline, sort: ProspectSort): string | number {
+  switch (PROSPECT_SORT_COLUMNS[sort].column) {
+    case 'icp_score': return prospect.icpScore || 0;
+    case 'full_name': return prospect.fullName || '';
+    default: return prospect.createdAt || '';
+  }
+}
+
+export function getProspectCursor(prospect: ProspectWithPipeline, sort: ProspectSort): ProspectCursor {
+  return { value: getProspectSortValue(prospect, sort), id: prospect.id };
+}
+
+function compareKeys(a: ProspectCursor, b: ProspectCursor, sort: ProspectSort): number {
+  const byValue = typeof a.value === 'number' && typeof b.value === 'number'
+    ? a.value - b.value
+    : String(a.value).localeCompare(String(b.value));
+  const order = byValue || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return PROSPECT_SORT_COLUMNS[sort].ascending ? order : -order;
+}
+
+/**
+ * Comparator putting prospects in list order for a sort
+ */
+export function compareProspects(sort: ProspectSort) {
+  return (a: ProspectWithPipeline, b: ProspectWithPipeline) =>
+    compareKeys(getProspectCursor(a, sort), getProspectCursor(b, sort), sort);
+}
+
+/**
+ * Whether a prospect comes after the cursor in list order
+ */
+export function isAfterCursor(prospect: ProspectWithPipeline, sort: ProspectSort, cursor: ProspectCursor): boolean {
+  return compareKeys(getProspectCursor(prospect, sort), cursor, sort) > 0;
+}
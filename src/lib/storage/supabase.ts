@@ -0,0 +1,1287 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { canonicalizeLinkedInUrl, getProspectIdentities } from '@/lib/linkedin-identity';
+import { applyCustomFieldChanges, applyTagChanges } from '@/lib/custom-fields';
+import type { AssignmentSettings, CustomFieldValue, CustomFieldValues, ScoringProfile, SequenceStepOutcome } from '@/types';
+import { createPipelineLookup, placeholderProspect, resolveProspectRows } from './identity';
+import { MERGE_MOVED_TABLES, planProspectMerge } from './merge';
+import { PROSPECT_SORT_COLUMNS, searchWords } from './query';
+import { buildPipelineEvents, toDbProspect, withMilestoneTimestamp } from './transform';
+import { DEFAULT_WORKSPACE_ID, ENGAGEMENT_POST_MAX_AGE_DAYS } from './types';
+import type {
+  DbRecord,
+  EngagementPostInput,
+  PipelineChange,
+  ProspectCriteria,
+  StorageAdapter,
+  StorageScope
+} from './types';
+
+// Tables whose rows record the user who created them
+const OWNED_TABLES = [
+  'prospects',
+  'pipeline_status',
+  'generated_messages',
+  'engagement_watched_profiles',
+  'engagement_posts',
+  'saved_views'
+];
+
+// PostgREST's default max-rows: the most rows one request returns
+const PAGE_ROWS = 1000;
+
+/**
+ * Supabase-backed storage. Used whenever Supabase credentials are configured.
+ * `client` should carry the signed-in user's token and the workspace header
+ * (src/lib/auth/supabase.ts) so row-level policies apply as well.
+ */
+export function createSupabaseStorage(
+  client: SupabaseClient,
+  scope: StorageScope = { workspaceId: DEFAULT_WORKSPACE_ID }
+): StorageAdapter {
+  function withWorkspace(values: DbRecord | DbRecord[]) {
+    const stamp = (row: DbRecord) => ({ ...row, workspace_id: scope.workspaceId });
+    return Array.isArray(values) ? values.map(stamp) : stamp(values);
+  }
+
+  // Every query goes through from(): reads, updates and deletes only touch
+  // the workspace's rows, and written rows are stamped with it. New rows are
+  // also attributed to the user; upserts leave an existing row's owner alone.
+  function from(table: string) {
+    const query = client.from(table);
+    const attribution: DbRecord = {
+      ...(OWNED_TABLES.includes(table) ? { owner_id: scope.userId ?? null } : {}),
+      ...(table === 'pipeline_events' ? { actor_id: scope.userId ?? null } : {})
+    };
+    return {
+      select: <Columns extends string = '*'>(columns?: Columns, options?: { count?: 'exact'; head?: boolean }) =>
+        query.select(columns, options).eq('workspace_id', scope.workspaceId),
+      insert: (values: DbRecord | DbRecord[]) => query.insert(withWorkspace(
+        Array.isArray(values) ? values.map(v => ({ ...attribution, ...v })) : { ...attribution, ...values }
+      )),
+      upsert: (values: DbRecord | DbRecord[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) =>
+        query.upsert(withWorkspace(values), options),
+      update: (values: DbRecord) => query.update(values).eq('workspace_id', scope.workspaceId),
+      delete: () => query.delete().eq('workspace_id', scope.workspaceId)
+    };
+  }
+
+  // Every row of a query. PostgREST returns at most PAGE_ROWS rows per
+  // request, so whole-table reads go page by page; `build` must order by a
+  // unique column last so pages don't overlap.
+  async function selectAll(
+    build: () => { range(first: number, last: number): PromiseLike<{ data: unknown[] | null; error: unknown }> }
+  ): Promise<DbRecord[]> {
+    const rows: DbRecord[] = [];
+    for (let first = 0; ; first += PAGE_ROWS) {
+      const { data, error } = await build().range(first, first + PAGE_ROWS - 1);
+      if (error) throw error;
+      rows.push(...((data || []) as DbRecord[]));
+      if (!data || data.length < PAGE_ROWS) return rows;
+    }
+  }
+
+  // Prospects narrowed by the criteria (src/lib/storage/query.ts has the
+  // meaning of each). A status needs an inner join so it can drop prospects.
+  function selectProspects(
+    criteria: ProspectCriteria,
+    columns: string,
+    options?: { count?: 'exact'; head?: boolean }
+  ) {
+    const messages = criteria.hasMessages ? ', has_messages:generated_messages!inner (id)' : '';
+    let query = from('prospects')
+      .select(`${columns}, pipeline_status${criteria.status ? '!inner' : ''} (*)${messages}`, options);
+
+    if (criteria.status) query = query.eq('pipeline_status.status', criteria.status);
+    if (criteria.segment === 'merchant') {
+      // Prospects scored before segments existed count as merchants
+      query = query.or('icp_score_breakdown->>segment.eq.merchant,icp_score_breakdown->>segment.is.null');
+    } else if (criteria.segment) {
+      query = query.eq('icp_score_breakdown->>segment', criteria.segment);
+    }
+    if (criteria.icpMin !== undefined) query = query.gte('icp_score', criteria.icpMin);
+    if (criteria.icpBelow !== undefined) query = query.lt('icp_score', criteria.icpBelow);
+    if (criteria.assigneeId === null) query = query.is('assignee_id', null);
+    else if (criteria.assigneeId !== undefined) query = query.eq('assignee_id', criteria.assigneeId);
+
+    const terms = criteria.search ? searchWords(criteria.search) : [];
+    if (terms.length > 0) {
+      query = query.textSearch('search_vector', terms.map(term => `${term}:*`).join(' & '), { config: 'simple' });
+    }
+    return query;
+  }
+
+  // Rewrite one column of each prospect from its current value. Prospects
+  // ending up with the same value share an update.
+  async function updateProspectsBy(ids: string[], column: string, next: (current: unknown) => unknown) {
+    const { data, error } = await from('prospects')
+      .select(`id, ${column}`)
+      .in('id', ids)
+      .overrideTypes<DbRecord[], { merge: false }>();
+
+    if (error) throw error;
+
+    const groups = new Map<string, { value: unknown; ids: string[] }>();
+    for (const row of data || []) {
+      const value = next(row[column]);
+      const key = JSON.stringify(value);
+      const group = groups.get(key) || { value, ids: [] };
+      group.ids.push(row.id as string);
+      groups.set(key, group);
+    }
+
+    const updatedAt = new Date().toISOString();
+    for (const { value, ids: groupIds } of groups.values()) {
+      const { error: updateError } = await from('prospects')
+        .update({ [column]: value, updated_at: updatedAt })
+        .in('id', groupIds);
+
+      if (updateError) throw updateError;
+    }
+  }
+
+  async function addWatchedProfile(prospectId: string) {
+    const { data: prospect, error: prospectError } = await from('prospects')
+      .select('do_not_contact')
+      .eq('id', prospectId)
+      .single();
+
+    if (prospectError) throw prospectError;
+    if (prospect.do_not_contact) {
+      throw new Error(`Prospect ${prospectId} is marked do not contact`);
+    }
+
+    const { data, error } = await from('engagement_watched_profiles')
+      .upsert({
+        prospect_id: prospectId
+      }, {
+        onConflict: 'prospect_id'
+      })
+      .select(`
+        *,
+        prospects (*)
+      `)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Stored prospects known by any of the canonical URLs, as their URL or an
+  // alias. Queried in chunks to keep request URLs short on big imports.
+  async function getProspectsByIdentities(identities: string[], columns = '*'): Promise<DbRecord[]> {
+    const found = new Map<string, DbRecord>();
+    for (let i = 0; i < identities.length; i += 100) {
+      const chunk = identities.slice(i, i + 100);
+      const [byUrl, byAlias] = await Promise.all([
+        from('prospects').select(columns).in('linkedin_url', chunk).overrideTypes<DbRecord[], { merge: false }>(),
+        from('prospects').select(columns).overlaps('linkedin_aliases', chunk).overrideTypes<DbRecord[], { merge: false }>()
+      ]);
+      if (byUrl.error) throw byUrl.error;
+      if (byAlias.error) throw byAlias.error;
+      for (const row of [...(byUrl.data || []), ...(byAlias.data || [])]) {
+        found.set(row.id as string, row);
+      }
+    }
+    return [...found.values()];
+  }
+
+  async function findProspectByLinkedInUrl(linkedinUrl: string) {
+    const [prospect] = await getProspectsByIdentities(
+      [canonicalizeLinkedInUrl(linkedinUrl)],
+      '*, pipeline_status (*), generated_messages (*)'
+    );
+    return prospect || null;
+  }
+
+  // Current status per prospect, used as from_status for pipeline events
+  async function getCurrentStatuses(prospectIds: string[]) {
+    const { data, error } = await from('pipeline_status')
+      .select('prospect_id, status')
+      .in('prospect_id', prospectIds);
+
+    if (error) throw error;
+    return new Map((data || []).map(r => [r.prospect_id as string, r.status as string]));
+  }
+
+  // Upsert pipeline rows, batching rows that set the same columns so a row
+  // without a milestone doesn't null out one already stored
+  async function upsertPipelineRows(rows: DbRecord[]) {
+    const batches = new Map<string, DbRecord[]>();
+    for (const row of rows) {
+      const columns = Object.keys(row).sort().join(',');
+      batches.set(columns, [...(batches.get(columns) || []), row]);
+    }
+
+    for (const batch of batches.values()) {
+      const { error } = await from('pipeline_status')
+        .upsert(batch, {
+          onConflict: 'prospect_id',
+          ignoreDuplicates: false
+        });
+
+      if (error) throw error;
+    }
+  }
+
+  async function recordPipelineEvents(
+    previousStatuses: Map<string, string>,
+    next: Array<{ prospectId: string; status: string }>,
+    change: PipelineChange
+  ) {
+    const events = buildPipelineEvents(previousStatuses, next, change);
+    if (events.length === 0) return;
+
+    const { error } = await from('pipeline_events')
+      .insert(events);
+
+    if (error) throw error;
+  }
+
+  return {
+    backend: 'supabase',
+    workspaceId: scope.workspaceId,
+
+    async getProspects() {
+      return selectAll(() => from('prospects')
+        .select(`
+          *,
+          pipeline_status (*),
+          generated_messages (*)
+        `)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false }));
+    },
+
+    async getProspectById(id: string) {
+      const { data, error } = await from('prospects')
+        .select(`
+          *,
+          pipeline_status (*),
+          generated_messages (*)
+        `)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findProspects(criteria, { sort, after, limit }) {
+      const { column, ascending } = PROSPECT_SORT_COLUMNS[sort];
+      let query = selectProspects(criteria, '*, generated_messages (*)');
+
+      if (after) {
+        // Keyset pagination: rows past the cursor's value, or level with it
+        // and past its id. Values are quoted for PostgREST's filter syntax.
+        const op = ascending ? 'gt' : 'lt';
+        const value = `"${String(after.value).replace(/["\\]/g, '\\$&')}"`;
+        query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${after.id})`);
+      }
+
+      const { data, error } = await query
+        .order(column, { ascending })
+        .order('id', { ascending })
+        .limit(limit)
+        .overrideTypes<DbRecord[], { merge: false }>();
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async countProspects(criteria) {
+      const { count, error } = await selectProspects(criteria, 'id', { count: 'exact', head: true });
+      if (error) throw error;
+      return count || 0;
+    },
+
+    findProspectByLinkedInUrl,
+
+    async upsertProspect(prospect: DbRecord) {
+      const existing = await getProspectsByIdentities(
+        getProspectIdentities(prospect.linkedin_url as string, prospect.linkedin_aliases)
+      );
+      const [row] = resolveProspectRows([prospect], existing);
+      const { data, error } = await from('prospects')
+        .upsert(row, {
+          onConflict: 'workspace_id,linkedin_url'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateProspect(id: string, updates: DbRecord) {
+      const { data, error } = await from('prospects')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async setDoNotContact(prospectId: string, reason: string | null) {
+      const timestamp = new Date().toISOString();
+      const { data, error } = await from('prospects')
+        .update({
+          do_not_contact: reason !== null,
+          do_not_contact_reason: reason,
+          do_not_contact_at: reason !== null ? timestamp : null,
+          updated_at: timestamp
+        })
+        .eq('id', prospectId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (reason !== null) {
+        const { error: watchError } = await from('engagement_watched_profiles')
+          .delete()
+          .eq('prospect_id', prospectId);
+
+        if (watchError) throw watchError;
+      }
+      return data;
+    },
+
+    async getDoNotContactIds(ids: string[]) {
+      // In chunks, like getProspectsByIdentities, to keep request URLs short
+      const flagged: string[] = [];
+      for (let i = 0; i < ids.length; i += 100) {
+        const { data, error } = await from('prospects')
+          .select('id')
+          .in('id', ids.slice(i, i + 100))
+          .eq('do_not_contact', true);
+
+        if (error) throw error;
+        flagged.push(...(data || []).map(row => row.id as string));
+      }
+      return flagged;
+    },
+
+    async getProspectTags() {
+      // Distinct in Postgres (migration 0019) rather than reading every row
+      const { data, error } = await client.rpc('prospect_tags', { ws: scope.workspaceId });
+      if (error) throw error;
+      return (data || []) as string[];
+    },
+
+    async bulkImportProspects(prospects, pipelineData, batch) {
+      const incoming = prospects.map(toDbProspect);
+      const existing = await getProspectsByIdentities([...new Set(incoming.flatMap(p =>
+        getProspectIdentities(p.linkedin_url as string, p.linkedin_aliases)
+      ))]);
+      const dbProspects = resolveProspectRows(incoming, existing);
+
+      // Upsert prospects
+      const { data: insertedProspects, error: prospectsError } = await from('prospects')
+        .upsert(dbProspects, {
+          onConflict: 'workspace_id,linkedin_url',
+          ignoreDuplicates: false
+        })
+        .select();
+
+      if (prospectsError) throw prospectsError;
+
+      // Prospects keep the batch that first imported them
+      if (batch && insertedProspects && insertedProspects.length > 0) {
+        const { data: batchRow, error: batchError } = await from('import_batches')
+          .insert({ ...batch, prospect_count: prospects.length })
+          .select()
+          .single();
+
+        if (batchError) throw batchError;
+
+        const unbatched = insertedProspects.filter(p => !p.import_batch_id);
+        if (unbatched.length > 0) {
+          const { error: assignError } = await from('prospects')
+            .update({ import_batch_id: batchRow.id })
+            .in('id', unbatched.map(p => p.id));
+
+          if (assignError) throw assignError;
+          for (const p of unbatched) p.import_batch_id = batchRow.id;
+        }
+      }
+
+      // Insert pipeline status for each prospect
+      if (insertedProspects && insertedProspects.length > 0) {
+        const previousStatuses = await getCurrentStatuses(insertedProspects.map(p => p.id));
+        const importedAt = new Date().toISOString();
+        const pipelineFor = createPipelineLookup(pipelineData);
+        const pipelineRecords = insertedProspects.map(p => {
+          const pipeline = pipelineFor(p);
+          return withMilestoneTimestamp({
+            prospect_id: p.id,
+            status: pipeline.status || 'not_contacted',
+            notes: pipeline.notes || null
+          }, previousStatuses.get(p.id), importedAt);
+        });
+
+        await upsertPipelineRows(pipelineRecords);
+
+        await recordPipelineEvents(
+          previousStatuses,
+          pipelineRecords.map(r => ({ prospectId: r.prospect_id as string, status: r.status as string })),
+          { source: 'import' }
+        );
+      }
+
+      return insertedProspects || [];
+    },
+
+    async deleteProspect(id: string) {
+      const { error } = await from('prospects')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async bulkDeleteProspects(ids: string[]) {
+      const { error } = await from('prospects')
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    // Not transactional: children move before anything is deleted, so a
+    // failure part way leaves every row in place to merge again
+    async mergeProspects(keepId: string, mergeIds: string[]) {
+      const ids = [keepId, ...mergeIds];
+      const rowsOf = async (name: string, column = 'prospect_id') => {
+        const { data, error } = await from(name).select('*').in(column, ids);
+        if (error) throw error;
+        return (data || []) as DbRecord[];
+      };
+
+      const [prospects, pipelines, messages, watched, sequenceProgress] = await Promise.all([
+        rowsOf('prospects', 'id'),
+        rowsOf('pipeline_status'),
+        rowsOf('generated_messages'),
+        rowsOf('engagement_watched_profiles'),
+        rowsOf('sequence_progress')
+      ]);
+      const byId = new Map(prospects.map(p => [p.id as string, p]));
+      const missing = ids.find(id => !byId.has(id));
+      if (missing) throw new Error(`prospects row not found: ${missing}`);
+
+      const plan = planProspectMerge({
+        keep: byId.get(keepId)!,
+        merged: mergeIds.map(id => byId.get(id)!),
+        pipelines,
+        messages,
+        watched,
+        sequenceProgress
+      });
+
+      for (const name of MERGE_MOVED_TABLES) {
+        const { error } = await from(name)
+          .update({ prospect_id: keepId })
+          .in('prospect_id', mergeIds);
+
+        if (error) throw error;
+      }
+
+      for (const { id, ...updates } of plan.messageUpdates) {
+        const { error } = await from('generated_messages')
+          .update(updates)
+          .eq('id', id);
+
+        if (error) throw error;
+      }
+
+      if (plan.sequenceProgressIds.length > 0) {
+        const { error } = await from('sequence_progress')
+          .update({ prospect_id: keepId })
+          .in('id', plan.sequenceProgressIds);
+
+        if (error) throw error;
+      }
+
+      if (plan.watch) {
+        const addedAt = watched.map(w => String(w.added_at)).sort()[0];
+        const { error } = await from('engagement_watched_profiles')
+          .upsert({ prospect_id: keepId, added_at: addedAt }, { onConflict: 'prospect_id' });
+
+        if (error) throw error;
+      } else {
+        const { error } = await from('engagement_watched_profiles')
+          .delete()
+          .eq('prospect_id', keepId);
+
+        if (error) throw error;
+      }
+
+      const updatedAt = new Date().toISOString();
+      const { error: prospectError } = await from('prospects')
+        .update({ ...plan.prospect, updated_at: updatedAt })
+        .eq('id', keepId);
+
+      if (prospectError) throw prospectError;
+
+      const { error: pipelineError } = await from('pipeline_status')
+        .upsert({ ...plan.pipeline, updated_at: updatedAt }, { onConflict: 'prospect_id' });
+
+      if (pipelineError) throw pipelineError;
+
+      if (plan.events.length > 0) {
+        const { error } = await from('pipeline_events')
+          .insert(plan.events);
+
+        if (error) throw error;
+      }
+
+      const { error: deleteError } = await from('prospects')
+        .delete()
+        .in('id', mergeIds);
+
+      if (deleteError) throw deleteError;
+
+      const { data, error } = await from('prospects')
+        .select(`
+          *,
+          pipeline_status (*),
+          generated_messages (*)
+        `)
+        .eq('id', keepId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async bulkAssignProspects(ids: string[], assigneeId: string | null) {
+      const { error } = await from('prospects')
+        .update({ assignee_id: assigneeId, updated_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    async bulkUpdateTags(ids: string[], add: string[], remove: string[]) {
+      await updateProspectsBy(ids, 'tags', current => applyTagChanges(current as string[], add, remove));
+    },
+
+    async bulkSetCustomFields(ids: string[], changes: Record<string, CustomFieldValue | null>) {
+      await updateProspectsBy(ids, 'custom_fields', current =>
+        applyCustomFieldChanges(current as CustomFieldValues, changes)
+      );
+    },
+
+    async updatePipelineStatus(prospectId: string, updates: DbRecord, change: PipelineChange) {
+      const previousStatuses = await getCurrentStatuses([prospectId]);
+      const updatedAt = new Date().toISOString();
+      const { data, error } = await from('pipeline_status')
+        .upsert(withMilestoneTimestamp({
+          prospect_id: prospectId,
+          ...updates,
+          updated_at: updatedAt
+        }, previousStatuses.get(prospectId), updatedAt), {
+          onConflict: 'prospect_id'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await recordPipelineEvents(previousStatuses, [{ prospectId, status: data.status }], change);
+      return data;
+    },
+
+    async bulkUpdatePipelineStatus(prospectIds: string[], status: string, change: PipelineChange) {
+      const previousStatuses = await getCurrentStatuses(prospectIds);
+
+      // Create upsert records for each prospect
+      const updatedAt = new Date().toISOString();
+      const pipelineRecords = prospectIds.map(id => withMilestoneTimestamp({
+        prospect_id: id,
+        status: status,
+        updated_at: updatedAt
+      }, previousStatuses.get(id), updatedAt));
+
+      await upsertPipelineRows(pipelineRecords);
+
+      await recordPipelineEvents(
+        previousStatuses,
+        prospectIds.map(id => ({ prospectId: id, status })),
+        change
+      );
+    },
+
+    async getPipelineEvents(prospectId?: string) {
+      return selectAll(() => {
+        let query = from('pipeline_events')
+          .select('*');
+
+        if (prospectId) {
+          query = query.eq('prospect_id', prospectId);
+        }
+
+        return query
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false });
+      });
+    },
+
+    async getImportBatches() {
+      const { data, error } = await from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async saveGeneratedMessage(prospectId: string, messageType: string, content: string, details: DbRecord = {}) {
+      const { data: latest, error: versionError } = await from('generated_messages')
+        .select('version')
+        .eq('prospect_id', prospectId)
+        .eq('message_type', messageType)
+        .order('version', { ascending: false })
+        .limit(1);
+
+      if (versionError) throw versionError;
+
+      const { data, error } = await from('generated_messages')
+        .insert({
+          ...details,
+          prospect_id: prospectId,
+          message_type: messageType,
+          content: content,
+          version: (latest?.[0]?.version || 0) + 1
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getGeneratedMessage(messageId: string) {
+      const { data, error } = await from('generated_messages')
+        .select('*')
+        .eq('id', messageId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async markGeneratedMessageSent(messageId: string) {
+      const { data: message, error: fetchError } = await from('generated_messages')
+        .select('prospect_id, message_type')
+        .eq('id', messageId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      // Only one version of each message type counts as sent
+      const { error: clearError } = await from('generated_messages')
+        .update({ used: false, sent_at: null })
+        .eq('prospect_id', message.prospect_id)
+        .eq('message_type', message.message_type)
+        .neq('id', messageId);
+
+      if (clearError) throw clearError;
+
+      const { data, error } = await from('generated_messages')
+        .update({ used: true, sent_at: new Date().toISOString() })
+        .eq('id', messageId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // ============ Engagement Posts ============
+
+    async getEngagementPosts(status?: 'active' | 'archived') {
+      let query = from('engagement_posts')
+        .select(`
+          *,
+          prospects (*)
+        `)
+        .order('posted_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getEngagementPost(postId: string) {
+      const { data, error } = await from('engagement_posts')
+        .select(`
+          *,
+          prospects (*)
+        `)
+        .eq('id', postId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async saveEngagementPost(post: EngagementPostInput) {
+      const { data, error } = await from('engagement_posts')
+        .upsert({
+          prospect_id: post.prospectId,
+          post_url: post.postUrl,
+          post_content: post.postContent,
+          posted_at: post.postedAt,
+          author_name: post.authorName,
+          author_photo_url: post.authorPhotoUrl || null,
+          generated_comments: post.generatedComments || [],
+          status: post.isArchived ? 'archived' : 'active',
+          archived_reason: post.archivedReason || null
+        }, {
+          onConflict: 'workspace_id,post_url'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateEngagementPostComments(postId: string, comments: string[]) {
+      const { data, error } = await from('engagement_posts')
+        .update({
+          generated_comments: comments,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', postId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async archiveEngagementPost(postId: string, reason: 'aged' | 'engaged') {
+      const { data, error } = await from('engagement_posts')
+        .update({
+          status: 'archived',
+          archived_reason: reason,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', postId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async restoreEngagementPost(postId: string) {
+      const { data, error } = await from('engagement_posts')
+        .update({
+          status: 'active',
+          archived_reason: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', postId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async clearArchivedEngagementPosts() {
+      const { error } = await from('engagement_posts')
+        .delete()
+        .eq('status', 'archived');
+
+      if (error) throw error;
+    },
+
+    async autoArchiveOldPosts(daysOld: number = ENGAGEMENT_POST_MAX_AGE_DAYS) {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+      const { data, error } = await from('engagement_posts')
+        .update({
+          status: 'archived',
+          archived_reason: 'aged',
+          updated_at: new Date().toISOString()
+        })
+        .eq('status', 'active')
+        .lt('posted_at', cutoffDate.toISOString())
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    // ============ Watched Profiles ============
+
+    async getWatchedProfiles() {
+      const { data, error } = await from('engagement_watched_profiles')
+        .select(`
+          *,
+          prospects (*)
+        `)
+        .order('added_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    addWatchedProfile,
+
+    async addWatchedProfileByUrl(linkedinUrl: string) {
+      const existingProspect = await findProspectByLinkedInUrl(linkedinUrl);
+      if (existingProspect) {
+        return addWatchedProfile(existingProspect.id as string);
+      }
+
+      const { data: newProspect, error: prospectError } = await from('prospects')
+        .insert(placeholderProspect(linkedinUrl))
+        .select()
+        .single();
+
+      if (prospectError) throw prospectError;
+
+      return addWatchedProfile(newProspect.id);
+    },
+
+    async removeWatchedProfile(prospectId: string) {
+      const { error } = await from('engagement_watched_profiles')
+        .delete()
+        .eq('prospect_id', prospectId);
+
+      if (error) throw error;
+    },
+
+    // ============ Response Interactions ============
+
+    async logResponseInteraction(interaction: DbRecord) {
+      const { data, error } = await from('response_interactions')
+        .insert(interaction)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getResponseInteractions(options = {}) {
+      let query = from('response_interactions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (options.limit !== null) {
+        query = query.limit(options.limit ?? 50);
+      }
+      if (options.prospectId) {
+        query = query.eq('prospect_id', options.prospectId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getLatestResponseTimes(prospectIds: string[]) {
+      // Newest first, so the first row seen for a prospect is its latest
+      const latest = new Map<string, string>();
+      for (let i = 0; i < prospectIds.length; i += 100) {
+        const rows = await selectAll(() => from('response_interactions')
+          .select('id, prospect_id, created_at')
+          .in('prospect_id', prospectIds.slice(i, i + 100))
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false }));
+        for (const row of rows) {
+          if (!latest.has(row.prospect_id as string)) latest.set(row.prospect_id as string, row.created_at as string);
+        }
+      }
+      return latest;
+    },
+
+    // ============ Conversation Threads ============
+
+    async getConversation(prospectId: string) {
+      const { data, error } = await from('conversation_messages')
+        .select('*')
+        .eq('prospect_id', prospectId)
+        .order('sent_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async addConversationMessage(message: DbRecord) {
+      const { data, error } = await from('conversation_messages')
+        .insert(message)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateConversationMessage(id: string, updates: DbRecord) {
+      const { data, error } = await from('conversation_messages')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // ============ Scoring Profiles ============
+
+    async getScoringProfile(workspaceId: string) {
+      const { data, error } = await from('scoring_profiles')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async saveScoringProfile(workspaceId: string, profile: ScoringProfile) {
+      const { data: existing, error: fetchError } = await from('scoring_profiles')
+        .select('revision')
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const { data, error } = await from('scoring_profiles')
+        .upsert({
+          workspace_id: workspaceId,
+          name: profile.name,
+          profile,
+          revision: existing ? (existing.revision ?? 1) + 1 : 1,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteScoringProfile(workspaceId: string) {
+      const { error } = await from('scoring_profiles')
+        .delete()
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+    },
+
+    // ============ Assignment Settings ============
+
+    async getAssignmentSettings(workspaceId: string) {
+      const { data, error } = await from('assignment_settings')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async saveAssignmentSettings(workspaceId: string, settings: AssignmentSettings) {
+      const { data, error } = await from('assignment_settings')
+        .upsert({
+          workspace_id: workspaceId,
+          settings,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'workspace_id'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async takeRoundRobinTurns(workspaceId: string, turns: number) {
+      // Advance with a conditional update: if another import moved the cursor
+      // first the row no longer matches, so read it again and retry
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const { data: current, error } = await from('assignment_settings')
+          .select('round_robin_cursor')
+          .eq('workspace_id', workspaceId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!current) return 0;
+
+        const first = Number(current.round_robin_cursor ?? 0);
+        const { data: advanced, error: advanceError } = await from('assignment_settings')
+          .update({ round_robin_cursor: first + turns })
+          .eq('workspace_id', workspaceId)
+          .eq('round_robin_cursor', first)
+          .select('id')
+          .maybeSingle();
+
+        if (advanceError) throw advanceError;
+        if (advanced) return first;
+      }
+      throw new Error('Could not reserve round-robin turns; too many imports at once');
+    },
+
+    // ============ Custom Fields ============
+
+    async getCustomFields() {
+      const { data, error } = await from('custom_fields')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async createCustomField(field: DbRecord) {
+      const { data, error } = await from('custom_fields')
+        .insert(field)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateCustomField(id: string, updates: DbRecord) {
+      const { data, error } = await from('custom_fields')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteCustomField(id: string) {
+      const { error } = await from('custom_fields')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    // ============ Saved Views ============
+
+    async getSavedViews() {
+      const { data, error } = await from('saved_views')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async getSavedView(id: string) {
+      const { data, error } = await from('saved_views')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async createSavedView(view: DbRecord) {
+      const { data, error } = await from('saved_views')
+        .insert(view)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateSavedView(id: string, updates: DbRecord) {
+      const { data, error } = await from('saved_views')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteSavedView(id: string) {
+      const { error } = await from('saved_views')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    // ============ ICP Score History ============
+
+    async saveScoreSnapshots(snapshots: DbRecord[]) {
+      if (snapshots.length === 0) return;
+
+      const { error } = await from('icp_score_snapshots')
+        .insert(snapshots);
+
+      if (error) throw error;
+    },
+
+    async getScoreSnapshots(prospectId: string) {
+      const { data, error } = await from('icp_score_snapshots')
+        .select('*')
+        .eq('prospect_id', prospectId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    // ============ Sequence Progress ============
+
+    async getSequenceProgress() {
+      const { data, error } = await from('sequence_progress')
+        .select('*');
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async recordSequenceStep(prospectId: string, stepId: string, outcome: SequenceStepOutcome) {
+      const { data, error } = await from('sequence_progress')
+        .upsert({
+          prospect_id: prospectId,
+          step_id: stepId,
+          outcome,
+          created_at: new Date().toISOString()
+        }, {
+          onConflict: 'prospect_id,step_id'
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    // ============ Jobs ============
+
+    async createJob(job: DbRecord) {
+      const { data, error } = await from('jobs')
+        .insert(job)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getJob(id: string) {
+      const { data, error } = await from('jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getJobs(options: { status?: string; type?: string; limit?: number } = {}) {
+      let query = from('jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 50);
+
+      if (options.status) query = query.eq('status', options.status);
+      if (options.type) query = query.eq('type', options.type);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+
+    async updateJob(id: string, updates: DbRecord) {
+      const { data, error } = await from('jobs')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async claimNextJob(claimedAt: string, staleBefore: string) {
+      const { data: candidates, error } = await from('jobs')
+        .select('id, status, locked_at')
+        .or(`and(status.eq.queued,run_at.lte.${claimedAt}),and(status.eq.running,locked_at.lt.${staleBefore})`)
+        .order('run_at', { ascending: true })
+        .limit(5);
+
+      if (error) throw error;
+
+      // Claim with a conditional update: if another worker got there first
+      // the row no longer matches and the next candidate is tried
+      for (const candidate of candidates || []) {
+        let claim = from('jobs')
+          .update({ status: 'running', locked_at: claimedAt, updated_at: claimedAt })
+          .eq('id', candidate.id)
+          .eq('status', candidate.status);
+        claim = candidate.locked_at ? claim.eq('locked_at', candidate.locked_at) : claim.is('locked_at', null);
+
+        const { data, error: claimError } = await claim.select().maybeSingle();
+        if (claimError) throw claimError;
+        if (data) return data;
+      }
+      return null;
+    },
+
+    async requestJobCancel(id: string) {
+      const timestamp = new Date().toISOString();
+      const { data: cancelled, error } = await from('jobs')
+        .update({ status: 'cancelled', cancel_requested: true, finished_at: timestamp, updated_at: timestamp })
+        .eq('id', id)
+        .eq('status', 'queued')
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (cancelled) return cancelled;
+
+      const { data: flagged, error: flagError } = await from('jobs')
+        .update({ cancel_requested: true, updated_at: timestamp })
+        .eq('id', id)
+        .eq('status', 'running')
+        .select()
+        .maybeSingle();
+
+      if (flagError) throw flagError;
+      if (flagged) return flagged;
+
+      const { data, error: getError } = await from('jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (getError) throw getError;
+      return data;
+    }
+  };
+}
@@ -0,0 +1,346 @@
+import type {
+  ConversationMessage,
+  ConversationSource,
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValues,
+  EngagementPost,
+  EngagementPostWithProspect,
+  Experience,
+  GeneratedMessage,
+  ICPScoreBreakdown,
+  ICPScoreSnapshot,
+  ImportBatch,
+  ImportBatchSource,
+  Job,
+  JobResult,
+  JobStatus,
+  JobType,
+  MessageRuleWarning,
+  MessageTrack,
+  MessageType,
+  PipelineEvent,
+  PipelineEventSource,
+  PipelineStatus,
+  ProspectPreview,
+  ProspectWithPipeline,
+  RecentPost,
+  ResponseClassification,
+  ResponseInteraction,
+  ResponseOption,
+  SequenceProgress,
+  SequenceStepOutcome,
+  WatchedProfileWithProspect
+} from '@/types';
+import type { DbRecord, PipelineChange, ProspectImportInput } from './types';
+
+// Transform app-format prospect to database format
+export function toDbProspect(p: ProspectImportInput): DbRecord {
+  return {
+    first_name: p.firstName,
+    last_name: p.lastName,
+    full_name: p.fullName,
+    linkedin_url: p.linkedinUrl,
+    linkedin_aliases: p.linkedinAliases || [],
+    profile_pic_url: p.profilePicUrl || null,
+    headline: p.headline || null,
+    about_summary: p.aboutSummary || null,
+    company_name: p.companyName || null,
+    company_industry: p.companyIndustry || null,
+    company_size: p.companySize || null,
+    job_title: p.jobTitle || null,
+    location: p.location || null,
+    career_history: p.careerHistory || [],
+    recent_posts: p.recentPosts || [],
+    icp_score: p.icpScore || 0,
+    icp_score_breakdown: p.icpScoreBreakdown || null,
+    total_experience_years: p.totalExperienceYears || null,
+    top_skills: p.topSkills || null,
+    // Left out when not given, so a re-import keeps what the prospect has
+    ...(p.tags ? { tags: p.tags } : {}),
+    ...(p.customFields ? { custom_fields: p.customFields } : {})
+  };
+}
+
+// Transform database records to app format
+export function transformDbToApp(dbRecords: unknown[]): ProspectWithPipeline[] {
+  return (dbRecords || []).map((rec) => {
+    const record = rec as Record<string, unknown>;
+    const pipeline = (Array.isArray(record.pipeline_status)
+      ? record.pipeline_status[0]
+      : record.pipeline_status) as Record<string, unknown> | undefined;
+    const messages = (record.generated_messages || []) as Record<string, unknown>[];
+
+    return {
+      id: record.id as string,
+      firstName: record.first_name as string,
+      lastName: record.last_name as string,
+      fullName: record.full_name as string,
+      linkedinUrl: record.linkedin_url as string,
+      linkedinAliases: (record.linkedin_aliases || []) as string[],
+      profilePicUrl: record.profile_pic_url as string | undefined,
+      headline: record.headline as string | undefined,
+      aboutSummary: record.about_summary as string | undefined,
+      companyName: record.company_name as string | undefined,
+      companyIndustry: record.company_industry as string | undefined,
+      companySize: record.company_size as string | undefined,
+      jobTitle: record.job_title as string | undefined,
+      location: record.location as string | undefined,
+      careerHistory: (record.career_history || []) as Experience[],
+      recentPosts: (record.recent_posts || []) as RecentPost[],
+      icpScore: (record.icp_score || 0) as number,
+      icpScoreBreakdown: record.icp_score_breakdown as ICPScoreBreakdown | undefined,
+      totalExperienceYears: record.total_experience_years as number | undefined,
+      topSkills: record.top_skills as string | undefined,
+      importBatchId: (record.import_batch_id || undefined) as string | undefined,
+      ownerId: (record.owner_id || undefined) as string | undefined,
+      assigneeId: (record.assignee_id || undefined) as string | undefined,
+      tags: (record.tags || []) as string[],
+      customFields: (record.custom_fields || {}) as CustomFieldValues,
+      doNotContact: (record.do_not_contact || false) as boolean,
+      doNotContactReason: (record.do_not_contact_reason || undefined) as string | undefined,
+      doNotContactAt: (record.do_not_contact_at || undefined) as string | undefined,
+      createdAt: record.created_at as string,
+      updatedAt: record.updated_at as string,
+      pipeline: pipeline ? {
+        id: pipeline.id as string,
+        prospectId: pipeline.prospect_id as string,
+        status: (pipeline.status || 'not_contacted') as PipelineStatus,
+        visitedAt: pipeline.visited_at as string | undefined,
+        connectionSentAt: pipeline.connection_sent_at as string | undefined,
+        connectionAcceptedAt: pipeline.connection_accepted_at as string | undefined,
+        messageSentAt: pipeline.message_sent_at as string | undefined,
+        responseReceivedAt: pipeline.response_received_at as string | undefined,
+        callBookedAt: pipeline.call_booked_at as string | undefined,
+        dealStatus: pipeline.deal_status as string | undefined,
+        notes: pipeline.notes as string | undefined,
+        createdAt: pipeline.created_at as string,
+        updatedAt: pipeline.updated_at as string
+      } : undefined,
+      messages: messages.map(transformGeneratedMessage)
+    };
+  });
+}
+
+// Transform generated message from DB to app format
+export function transformGeneratedMessage(dbMessage: Record<string, unknown>): GeneratedMessage {
+  return {
+    id: dbMessage.id as string,
+    prospectId: dbMessage.prospect_id as string,
+    messageType: dbMessage.message_type as MessageType,
+    content: dbMessage.content as string,
+    generatedAt: dbMessage.generated_at as string,
+    used: (dbMessage.used || false) as boolean,
+    version: (dbMessage.version || 1) as number,
+    track: (dbMessage.track || undefined) as MessageTrack | undefined,
+    personalizationHook: (dbMessage.personalization_hook || undefined) as string | undefined,
+    model: (dbMessage.model || undefined) as string | undefined,
+    promptVariant: (dbMessage.prompt_variant || undefined) as string | undefined,
+    promptVersion: (dbMessage.prompt_version || undefined) as string | undefined,
+    warnings: (dbMessage.rule_warnings || []) as MessageRuleWarning[],
+    sentAt: (dbMessage.sent_at || undefined) as string | undefined
+  };
+}
+
+// Transform import batch from DB to app format
+export function transformImportBatch(dbBatch: Record<string, unknown>): ImportBatch {
+  return {
+    id: dbBatch.id as string,
+    source: dbBatch.source as ImportBatchSource,
+    label: dbBatch.label as string,
+    prospectCount: (dbBatch.prospect_count || 0) as number,
+    createdAt: dbBatch.created_at as string
+  };
+}
+
+// Transform response interaction from DB to app format
+export function transformResponseInteraction(dbInteraction: Record<string, unknown>): ResponseInteraction {
+  return {
+    id: dbInteraction.id as string,
+    prospectId: dbInteraction.prospect_id as string,
+    prospectResponse: dbInteraction.prospect_response as string,
+    classification: dbInteraction.classification as ResponseClassification,
+    classificationOverridden: (dbInteraction.classification_overridden || false) as boolean,
+    originalClassification: (dbInteraction.original_classification || undefined) as ResponseClassification | undefined,
+    generatedResponses: (dbInteraction.generated_responses || []) as ResponseOption[],
+    selectedResponse: (dbInteraction.selected_response || undefined) as string | undefined,
+    selectedStyle: (dbInteraction.selected_style || undefined) as ResponseOption['style'] | undefined,
+    outcome: (dbInteraction.outcome || undefined) as ResponseInteraction['outcome'],
+    generatedMessageId: (dbInteraction.generated_message_id || undefined) as string | undefined,
+    promptVariant: (dbInteraction.prompt_variant || undefined) as string | undefined,
+    createdAt: dbInteraction.created_at as string,
+    updatedAt: dbInteraction.updated_at as string
+  };
+}
+
+// Transform conversation message from DB to app format
+export function transformConversationMessage(dbMessage: Record<string, unknown>): ConversationMessage {
+  return {
+    id: dbMessage.id as string,
+    prospectId: dbMessage.prospect_id as string,
+    direction: dbMessage.direction as ConversationMessage['direction'],
+    content: dbMessage.content as string,
+    source: dbMessage.source as ConversationSource,
+    classification: (dbMessage.classification || undefined) as ResponseClassification | undefined,
+    classificationConfidence: (dbMessage.classification_confidence ?? undefined) as number | undefined,
+    generatedMessageId: (dbMessage.generated_message_id || undefined) as string | undefined,
+    sentAt: dbMessage.sent_at as string,
+    createdAt: dbMessage.created_at as string
+  };
+}
+
+// The prospect joined onto an engagement post or watched profile
+function transformProspectPreview(prospect: Record<string, unknown> | null): ProspectPreview | undefined {
+  return prospect ? {
+    id: prospect.id as string,
+    firstName: prospect.first_name as string,
+    lastName: prospect.last_name as string,
+    fullName: prospect.full_name as string,
+    linkedinUrl: prospect.linkedin_url as string,
+    profilePicUrl: prospect.profile_pic_url as string | undefined,
+    headline: prospect.headline as string | undefined,
+    companyName: prospect.company_name as string | undefined,
+    jobTitle: prospect.job_title as string | undefined,
+    icpScore: prospect.icp_score as number
+  } : undefined;
+}
+
+// Transform engagement post from DB to app format
+export function transformEngagementPost(dbPost: Record<string, unknown>): EngagementPostWithProspect {
+  return {
+    id: dbPost.id as string,
+    prospectId: dbPost.prospect_id as string,
+    postUrl: dbPost.post_url as string,
+    postContent: dbPost.post_content as string,
+    postedAt: dbPost.posted_at as string,
+    authorName: dbPost.author_name as string,
+    authorPhotoUrl: dbPost.author_photo_url as string | undefined,
+    status: dbPost.status as EngagementPost['status'],
+    archivedReason: dbPost.archived_reason as EngagementPost['archivedReason'],
+    generatedComments: (dbPost.generated_comments || []) as string[],
+    createdAt: dbPost.created_at as string,
+    updatedAt: dbPost.updated_at as string,
+    prospect: transformProspectPreview(dbPost.prospects as Record<string, unknown> | null)
+  };
+}
+
+// Transform watched profile from DB to app format
+export function transformWatchedProfile(dbRecord: Record<string, unknown>): WatchedProfileWithProspect {
+  return {
+    id: dbRecord.id as string,
+    prospectId: dbRecord.prospect_id as string,
+    addedAt: dbRecord.added_at as string,
+    prospect: transformProspectPreview(dbRecord.prospects as Record<string, unknown> | null)
+  };
+}
+
+// Milestone column stamped when a prospect moves into a status
+const STATUS_MILESTONE_COLUMNS: Record<string, string> = {
+  visited: 'visited_at',
+  connection_sent: 'connection_sent_at',
+  connected: 'connection_accepted_at',
+  message_sent: 'message_sent_at',
+  responded: 'response_received_at',
+  call_booked: 'call_booked_at'
+};
+
+/**
+ * Stamp the milestone for a status change unless the caller set it already.
+ * Moving back into a status re-stamps it, so sequences time from the latest move.
+ */
+export function withMilestoneTimestamp(row: DbRecord, previousStatus: string | undefined, at: string): DbRecord {
+  const column = STATUS_MILESTONE_COLUMNS[row.status as string];
+  if (!column || row.status === previousStatus || row[column]) return row;
+  return { ...row, [column]: at };
+}
+
+// Build pipeline_events rows for prospects whose status actually changed
+export function buildPipelineEvents(
+  previousStatuses: Map<string, string>,
+  next: Array<{ prospectId: string; status: string }>,
+  change: PipelineChange
+): DbRecord[] {
+  return next
+    .filter(n => previousStatuses.get(n.prospectId) !== n.status)
+    .map(n => ({
+      prospect_id: n.prospectId,
+      from_status: previousStatuses.get(n.prospectId) || null,
+      to_status: n.status,
+      source: change.source,
+      note: change.note || null
+    }));
+}
+
+// Transform pipeline event from DB to app format
+export function transformPipelineEvent(dbEvent: Record<string, unknown>): PipelineEvent {
+  return {
+    id: dbEvent.id as string,
+    prospectId: dbEvent.prospect_id as string,
+    fromStatus: (dbEvent.from_status || undefined) as PipelineStatus | undefined,
+    toStatus: dbEvent.to_status as PipelineStatus,
+    source: dbEvent.source as PipelineEventSource,
+    note: (dbEvent.note || undefined) as string | undefined,
+    actorId: (dbEvent.actor_id || undefined) as string | undefined,
+    createdAt: dbEvent.created_at as string
+  };
+}
+
+export function transformScoreSnapshot(dbSnapshot: Record<string, unknown>): ICPScoreSnapshot {
+  return {
+    id: dbSnapshot.id as string,
+    runId: dbSnapshot.run_id as string,
+    prospectId: dbSnapshot.prospect_id as string,
+    icpScore: dbSnapshot.icp_score as number,
+    icpScoreBreakdown: (dbSnapshot.icp_score_breakdown || undefined) as ICPScoreBreakdown | undefined,
+    previousScore: (dbSnapshot.previous_score ?? undefined) as number | undefined,
+    profileName: dbSnapshot.profile_name as string,
+    profileRevision: dbSnapshot.profile_revision as number,
+    createdAt: dbSnapshot.created_at as string
+  };
+}
+
+export function transformSequenceProgress(dbProgress: Record<string, unknown>): SequenceProgress {
+  return {
+    id: dbProgress.id as string,
+    prospectId: dbProgress.prospect_id as string,
+    stepId: dbProgress.step_id as string,
+    outcome: dbProgress.outcome as SequenceStepOutcome,
+    createdAt: dbProgress.created_at as string
+  };
+}
+
+export function transformJob(dbJob: Record<string, unknown>): Job {
+  return {
+    id: dbJob.id as string,
+    type: dbJob.type as JobType,
+    status: dbJob.status as JobStatus,
+    payload: (dbJob.payload || {}) as Record<string, unknown>,
+    state: (dbJob.state || undefined) as Record<string, unknown> | undefined,
+    result: (dbJob.result || undefined) as JobResult | undefined,
+    error: (dbJob.error || undefined) as string | undefined,
+    progress: {
+      completed: (dbJob.progress_completed ?? 0) as number,
+      total: (dbJob.progress_total ?? 0) as number,
+      message: (dbJob.progress_message || undefined) as string | undefined
+    },
+    attempts: (dbJob.attempts ?? 0) as number,
+    maxAttempts: (dbJob.max_attempts ?? 3) as number,
+    runAt: dbJob.run_at as string,
+    cancelRequested: (dbJob.cancel_requested || false) as boolean,
+    parentJobId: (dbJob.parent_job_id || undefined) as string | undefined,
+    startedAt: (dbJob.started_at || undefined) as string | undefined,
+    finishedAt: (dbJob.finished_at || undefined) as string | undefined,
+    createdAt: dbJob.created_at as string,
+    updatedAt: dbJob.updated_at as string
+  };
+}
+
+export function transformCustomField(dbField: Record<string, unknown>): CustomFieldDefinition {
+  return {
+    id: dbField.id as string,
+    label: dbField.label as string,
+    type: dbField.type as CustomFieldType,
+    options: (dbField.options || []) as string[],
+    createdAt: dbField.created_at as string
+  };
+}
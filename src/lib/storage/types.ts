@@ -0,0 +1,250 @@
+// Storage layer types
+// Records are kept in database (snake_case) shape so both backends can share
+// the same transform functions in ./transform.ts
+
+import type {
+  AssignmentSettings,
+  CustomFieldValue,
+  ICPSegment,
+  ImportBatchSource,
+  PipelineEventSource,
+  PipelineStatus,
+  ProspectSort,
+  ScoringProfile,
+  SequenceStepOutcome
+} from '@/types';
+
+export type DbRecord = Record<string, unknown>;
+
+export type StorageBackend = 'supabase' | 'local';
+
+// Workspace holding data from before workspaces existed. The first person to
+// sign up becomes its owner; scripts and tests use it when no scope is given.
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Whose data an adapter reads and writes. Every row belongs to one workspace;
+// rows created with a user are attributed to them (owner_id, or actor_id on
+// pipeline events).
+export interface StorageScope {
+  workspaceId: string;
+  userId?: string;  // Unset for background jobs and scripts
+}
+
+// Active engagement posts older than this are archived as 'aged'
+export const ENGAGEMENT_POST_MAX_AGE_DAYS = 2;
+
+// Prospect shape accepted by bulk import (app format, camelCase)
+export interface ProspectImportInput {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  linkedinUrl: string;
+  linkedinAliases?: string[]; // Other URL forms seen for the same profile
+  profilePicUrl?: string;
+  headline?: string;
+  aboutSummary?: string;
+  companyName?: string;
+  companyIndustry?: string;
+  companySize?: string;
+  jobTitle?: string;
+  location?: string;
+  careerHistory?: unknown[];
+  recentPosts?: unknown[];
+  icpScore?: number;
+  icpScoreBreakdown?: unknown;
+  totalExperienceYears?: number;
+  topSkills?: string;
+  tags?: string[];                          // Added to the prospect's tags
+  customFields?: Record<string, unknown>;   // By field id; set over the prospect's values
+}
+
+export type PipelineImportData = Map<string, { status?: string; notes?: string }>;
+
+// Recorded in import_batches for every bulk import
+export interface ImportBatchInput {
+  source: ImportBatchSource;
+  label: string;
+}
+
+// Attribution recorded in pipeline_events when a status changes
+export interface PipelineChange {
+  source: PipelineEventSource;
+  note?: string;
+}
+
+export interface EngagementPostInput {
+  prospectId: string;
+  postUrl: string;
+  postContent: string;
+  postedAt: string;
+  authorName: string;
+  authorPhotoUrl?: string;
+  generatedComments?: string[];
+  isArchived?: boolean;
+  archivedReason?: 'aged' | 'engaged';
+}
+
+// What findProspects and countProspects narrow the prospect list by. These
+// are the filters the database can apply itself; src/lib/prospect-query.ts
+// applies the rest (tags, custom fields, saved views).
+export interface ProspectCriteria {
+  search?: string;              // Every word starts a word of the name, company, headline or about
+  status?: PipelineStatus;
+  segment?: ICPSegment;
+  icpMin?: number;              // Inclusive
+  icpBelow?: number;            // Exclusive
+  assigneeId?: string | null;   // null for unassigned
+  hasMessages?: boolean;        // true for prospects with a generated message
+}
+
+// Where a page starts: the sort value and id of the last row of the page before
+export interface ProspectCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface ProspectPageOptions {
+  sort: ProspectSort;
+  after?: ProspectCursor;
+  limit: number;
+}
+
+/**
+ * Every data operation the app performs. Implemented by the Supabase adapter
+ * and the local JSON-file adapter.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  readonly workspaceId: string;
+
+  // Prospects (returned with nested pipeline_status and generated_messages).
+  // getProspects returns every one, however many rows that takes.
+  getProspects(): Promise<DbRecord[]>;
+  getProspectById(id: string): Promise<DbRecord | null>;
+  // One page of the prospects matching `criteria`, in sort order (ties broken
+  // by id) after `options.after`
+  findProspects(criteria: ProspectCriteria, options: ProspectPageOptions): Promise<DbRecord[]>;
+  countProspects(criteria: ProspectCriteria): Promise<number>;
+  // By canonical URL or alias (src/lib/linkedin-identity.ts)
+  findProspectByLinkedInUrl(linkedinUrl: string): Promise<DbRecord | null>;
+  // Upserts resolve the LinkedIn URL against stored URLs and aliases first,
+  // so another URL form for a stored prospect updates it
+  upsertProspect(prospect: DbRecord): Promise<DbRecord>;
+  updateProspect(id: string, updates: DbRecord): Promise<DbRecord>;
+  // Flags do_not_contact with a reason, or clears it when reason is null.
+  // Flagging also takes the prospect off the engagement watch list.
+  setDoNotContact(prospectId: string, reason: string | null): Promise<DbRecord>;
+  // Those of `ids` marked do not contact
+  getDoNotContactIds(ids: string[]): Promise<string[]>;
+  // Every distinct tag on the workspace's prospects, as stored
+  getProspectTags(): Promise<string[]>;
+  bulkImportProspects(
+    prospects: ProspectImportInput[],
+    pipelineData: PipelineImportData,
+    batch?: ImportBatchInput
+  ): Promise<DbRecord[]>;
+  deleteProspect(id: string): Promise<void>;
+  bulkDeleteProspects(ids: string[]): Promise<void>;
+  // Moves everything that references the merged prospects to keepId, keeps
+  // the most advanced pipeline status, then deletes them (./merge.ts).
+  // Returns the kept prospect with its relations.
+  mergeProspects(keepId: string, mergeIds: string[]): Promise<DbRecord>;
+  // Sets the assignee of each prospect, or clears it when assigneeId is null
+  bulkAssignProspects(ids: string[], assigneeId: string | null): Promise<void>;
+  // Adds and removes tags on each prospect (src/lib/custom-fields.ts)
+  bulkUpdateTags(ids: string[], add: string[], remove: string[]): Promise<void>;
+  // Sets custom field values on each prospect by field id; null clears one
+  bulkSetCustomFields(ids: string[], changes: Record<string, CustomFieldValue | null>): Promise<void>;
+
+  // Pipeline (status changes are appended to pipeline_events)
+  updatePipelineStatus(prospectId: string, updates: DbRecord, change: PipelineChange): Promise<DbRecord>;
+  bulkUpdatePipelineStatus(prospectIds: string[], status: string, change: PipelineChange): Promise<void>;
+  getPipelineEvents(prospectId?: string): Promise<DbRecord[]>; // All of them; every prospect's when omitted
+
+  // Import batches, newest first
+  getImportBatches(): Promise<DbRecord[]>;
+
+  // Generated messages. Every save is a new version of that message type for
+  // the prospect; marking one version sent clears the others of its type.
+  saveGeneratedMessage(prospectId: string, messageType: string, content: string, details?: DbRecord): Promise<DbRecord>;
+  getGeneratedMessage(messageId: string): Promise<DbRecord | null>;
+  markGeneratedMessageSent(messageId: string): Promise<DbRecord>;
+
+  // Engagement posts (returned with nested prospects)
+  getEngagementPosts(status?: 'active' | 'archived'): Promise<DbRecord[]>;
+  getEngagementPost(postId: string): Promise<DbRecord | null>;
+  saveEngagementPost(post: EngagementPostInput): Promise<DbRecord>;
+  updateEngagementPostComments(postId: string, comments: string[]): Promise<DbRecord>;
+  archiveEngagementPost(postId: string, reason: 'aged' | 'engaged'): Promise<DbRecord>;
+  restoreEngagementPost(postId: string): Promise<DbRecord>;
+  clearArchivedEngagementPosts(): Promise<void>;
+  autoArchiveOldPosts(daysOld?: number): Promise<DbRecord[]>;
+
+  // Watched profiles (returned with nested prospects). Adding a prospect
+  // marked do not contact throws.
+  getWatchedProfiles(): Promise<DbRecord[]>;
+  addWatchedProfile(prospectId: string): Promise<DbRecord>;
+  addWatchedProfileByUrl(linkedinUrl: string): Promise<DbRecord>;
+  removeWatchedProfile(prospectId: string): Promise<void>;
+
+  // Response interactions (logged from the response generator)
+  logResponseInteraction(interaction: DbRecord): Promise<DbRecord>;
+  // Newest first; limit defaults to 50, null returns every row
+  getResponseInteractions(options?: { prospectId?: string; limit?: number | null }): Promise<DbRecord[]>;
+  // created_at of the newest interaction for each of `prospectIds` that has one
+  getLatestResponseTimes(prospectIds: string[]): Promise<Map<string, string>>;
+
+  // Conversation threads (oldest first by sent_at)
+  getConversation(prospectId: string): Promise<DbRecord[]>;
+  addConversationMessage(message: DbRecord): Promise<DbRecord>;
+  updateConversationMessage(id: string, updates: DbRecord): Promise<DbRecord>;
+
+  // ICP scoring profile (one per workspace; none saved means the default profile).
+  // Saving bumps the row's revision.
+  getScoringProfile(workspaceId: string): Promise<DbRecord | null>;
+  saveScoringProfile(workspaceId: string, profile: ScoringProfile): Promise<DbRecord>;
+  deleteScoringProfile(workspaceId: string): Promise<void>;
+
+  // Prospect assignment settings (one per workspace; none saved means new
+  // prospects stay unassigned). Saving keeps the round-robin cursor.
+  getAssignmentSettings(workspaceId: string): Promise<DbRecord | null>;
+  saveAssignmentSettings(workspaceId: string, settings: AssignmentSettings): Promise<DbRecord>;
+  // Reserves the next `turns` round-robin turns and returns the first
+  takeRoundRobinTurns(workspaceId: string, turns: number): Promise<number>;
+
+  // Custom field definitions, oldest first. Deleting one leaves its values
+  // on prospects, where they are ignored.
+  getCustomFields(): Promise<DbRecord[]>;
+  createCustomField(field: DbRecord): Promise<DbRecord>;
+  updateCustomField(id: string, updates: DbRecord): Promise<DbRecord>;
+  deleteCustomField(id: string): Promise<void>;
+
+  // Saved views, by name. Everyone in the workspace shares them.
+  getSavedViews(): Promise<DbRecord[]>;
+  getSavedView(id: string): Promise<DbRecord | null>;
+  createSavedView(view: DbRecord): Promise<DbRecord>;
+  updateSavedView(id: string, updates: DbRecord): Promise<DbRecord>;
+  deleteSavedView(id: string): Promise<void>;
+
+  // ICP score history (one snapshot per prospect per rescore run)
+  saveScoreSnapshots(snapshots: DbRecord[]): Promise<void>;
+  getScoreSnapshots(prospectId: string): Promise<DbRecord[]>;
+
+  // Outreach sequence progress (one row per prospect and step; recording a
+  // step again replaces its outcome)
+  getSequenceProgress(): Promise<DbRecord[]>;
+  recordSequenceStep(prospectId: string, stepId: string, outcome: SequenceStepOutcome): Promise<DbRecord>;
+
+  // Background jobs, newest first when listed
+  createJob(job: DbRecord): Promise<DbRecord>;
+  getJob(id: string): Promise<DbRecord | null>;
+  getJobs(options?: { status?: string; type?: string; limit?: number }): Promise<DbRecord[]>;
+  updateJob(id: string, updates: DbRecord): Promise<DbRecord>;
+  // Takes the oldest queued job due by `now`, or a running one locked before
+  // `staleBefore` (its worker died), and marks it running. Two workers never
+  // claim the same job. Null when nothing is due.
+  claimNextJob(now: string, staleBefore: string): Promise<DbRecord | null>;
+  // A queued job is cancelled at once; a running one is flagged and stops at
+  // its next checkpoint. Finished jobs are returned unchanged.
+  requestJobCancel(id: string): Promise<DbRecord | null>;
+}
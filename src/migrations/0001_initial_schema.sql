@@ -0,0 +1,111 @@
+-- Initial schema: prospects, pipeline, messages and engagement tables
+
+-- Prospects table
+CREATE TABLE IF NOT EXISTS prospects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  linkedin_url TEXT UNIQUE NOT NULL,
+  profile_pic_url TEXT,
+  headline TEXT,
+  about_summary TEXT,
+  company_name TEXT,
+  company_industry TEXT,
+  company_size TEXT,
+  job_title TEXT,
+  location TEXT,
+  career_history JSONB DEFAULT '[]'::jsonb,
+  recent_posts JSONB DEFAULT '[]'::jsonb,
+  icp_score INTEGER DEFAULT 0,
+  icp_score_breakdown JSONB,
+  total_experience_years NUMERIC,
+  top_skills TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Pipeline status table
+CREATE TABLE IF NOT EXISTS pipeline_status (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  status TEXT DEFAULT 'not_contacted',
+  visited_at TIMESTAMPTZ,
+  connection_sent_at TIMESTAMPTZ,
+  connection_accepted_at TIMESTAMPTZ,
+  message_sent_at TIMESTAMPTZ,
+  response_received_at TIMESTAMPTZ,
+  call_booked_at TIMESTAMPTZ,
+  deal_status TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(prospect_id)
+);
+
+-- Generated messages table
+CREATE TABLE IF NOT EXISTS generated_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  message_type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  generated_at TIMESTAMPTZ DEFAULT NOW(),
+  used BOOLEAN DEFAULT FALSE
+);
+
+-- Watched profiles for engagement (profiles to regularly fetch posts from)
+CREATE TABLE IF NOT EXISTS engagement_watched_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(prospect_id)
+);
+
+-- Engagement posts table for comment workflow
+CREATE TABLE IF NOT EXISTS engagement_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  post_url TEXT NOT NULL,
+  post_content TEXT NOT NULL,
+  posted_at TIMESTAMPTZ NOT NULL,
+  author_name TEXT NOT NULL,
+  author_photo_url TEXT,
+  status TEXT DEFAULT 'active',
+  archived_reason TEXT,
+  generated_comments JSONB DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(post_url)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_prospects_linkedin_url ON prospects(linkedin_url);
+CREATE INDEX IF NOT EXISTS idx_pipeline_status_prospect_id ON pipeline_status(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_status_status ON pipeline_status(status);
+CREATE INDEX IF NOT EXISTS idx_generated_messages_prospect_id ON generated_messages(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_posts_prospect_id ON engagement_posts(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_posts_status ON engagement_posts(status);
+CREATE INDEX IF NOT EXISTS idx_engagement_watched_profiles_prospect_id ON engagement_watched_profiles(prospect_id);
+
+-- Create updated_at trigger function
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Apply trigger to prospects
+DROP TRIGGER IF EXISTS update_prospects_updated_at ON prospects;
+CREATE TRIGGER update_prospects_updated_at
+  BEFORE UPDATE ON prospects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Apply trigger to pipeline_status
+DROP TRIGGER IF EXISTS update_pipeline_status_updated_at ON pipeline_status;
+CREATE TRIGGER update_pipeline_status_updated_at
+  BEFORE UPDATE ON pipeline_status
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
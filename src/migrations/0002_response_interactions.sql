@@ -0,0 +1,25 @@
+-- Response interactions logged by /api/responses/log
+
+CREATE TABLE IF NOT EXISTS response_interactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  prospect_response TEXT NOT NULL,
+  classification TEXT NOT NULL,
+  classification_overridden BOOLEAN DEFAULT FALSE,
+  original_classification TEXT,
+  generated_responses JSONB DEFAULT '[]'::jsonb,
+  selected_response TEXT,
+  selected_style TEXT,
+  outcome TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_interactions_prospect_id ON response_interactions(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_response_interactions_classification ON response_interactions(classification);
+
+DROP TRIGGER IF EXISTS update_response_interactions_updated_at ON response_interactions;
+CREATE TRIGGER update_response_interactions_updated_at
+  BEFORE UPDATE ON response_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
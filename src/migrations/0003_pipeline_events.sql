@@ -0,0 +1,14 @@
+-- Append-only log of pipeline status changes
+
+CREATE TABLE IF NOT EXISTS pipeline_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_events_prospect_id ON pipeline_events(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_events_created_at ON pipeline_events(created_at);
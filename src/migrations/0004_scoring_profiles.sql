@@ -0,0 +1,11 @@
+-- ICP scoring profile per workspace (keyword lists, title tiers, weights, size bands)
+-- The document shape is ScoringProfile in src/types; validated before it is saved
+
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  profile JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
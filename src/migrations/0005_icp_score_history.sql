@@ -0,0 +1,19 @@
+-- ICP score history: one snapshot per prospect per rescore run
+
+-- Bumped on every save so snapshots can record which profile produced them
+ALTER TABLE scoring_profiles ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS icp_score_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  icp_score INTEGER NOT NULL,
+  icp_score_breakdown JSONB,
+  previous_score INTEGER,
+  profile_name TEXT NOT NULL,
+  profile_revision INTEGER NOT NULL, -- 0 = built-in default profile
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_icp_score_snapshots_prospect_id ON icp_score_snapshots(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_icp_score_snapshots_run_id ON icp_score_snapshots(run_id);
@@ -0,0 +1,12 @@
+-- Outreach sequence steps marked done or skipped per prospect
+
+CREATE TABLE IF NOT EXISTS sequence_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  step_id TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('completed', 'skipped')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (prospect_id, step_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_progress_prospect_id ON sequence_progress(prospect_id);
@@ -0,0 +1,20 @@
+-- Generated message versions: how each message was produced and which one was sent
+
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS track TEXT;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS personalization_hook TEXT;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS rule_warnings JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ;
+
+-- Number messages saved before versioning, oldest first per prospect and type
+UPDATE generated_messages AS m
+SET version = numbered.version
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY prospect_id, message_type ORDER BY generated_at) AS version
+  FROM generated_messages
+) AS numbered
+WHERE m.id = numbered.id;
+
+CREATE INDEX IF NOT EXISTS idx_generated_messages_prospect_type ON generated_messages(prospect_id, message_type);
@@ -0,0 +1,15 @@
+-- Prompt variants: which prompt wrote each message, and which message a reply answered
+
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS prompt_variant TEXT;
+
+ALTER TABLE response_interactions ADD COLUMN IF NOT EXISTS generated_message_id UUID REFERENCES generated_messages(id) ON DELETE SET NULL;
+ALTER TABLE response_interactions ADD COLUMN IF NOT EXISTS prompt_variant TEXT;
+
+-- Everything generated so far came from the original skill file
+UPDATE generated_messages
+SET prompt_variant = 'outreach-skill'
+WHERE prompt_variant IS NULL
+  AND message_type IN ('connection_request', 'opening_dm', 'follow_up');
+
+CREATE INDEX IF NOT EXISTS idx_generated_messages_prompt_variant ON generated_messages(prompt_variant);
+CREATE INDEX IF NOT EXISTS idx_response_interactions_prompt_variant ON response_interactions(prompt_variant);
@@ -0,0 +1,14 @@
+-- Import batches: which upload (Excel file, URL list, manual add) brought each prospect in
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL CHECK (source IN ('excel', 'url', 'manual')),
+  label TEXT NOT NULL,
+  prospect_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A prospect keeps the batch that first imported it; re-imports don't move it
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_import_batch_id ON prospects(import_batch_id);
@@ -0,0 +1,45 @@
+-- Conversation threads: every inbound and outbound message with a prospect, in order
+
+CREATE TABLE IF NOT EXISTS conversation_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('outreach', 'response', 'manual')),
+  classification TEXT,
+  classification_confidence INT,
+  generated_message_id UUID REFERENCES generated_messages(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_prospect_id ON conversation_messages(prospect_id, sent_at);
+
+-- Seed threads from what was already recorded: sent outreach, logged replies and the option chosen for each
+INSERT INTO conversation_messages (prospect_id, direction, content, source, generated_message_id, sent_at, created_at)
+SELECT prospect_id, 'outbound', content, 'outreach', id, sent_at, sent_at
+FROM generated_messages
+WHERE used = TRUE AND sent_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM conversation_messages c WHERE c.generated_message_id = generated_messages.id);
+
+-- Copying several options for one reply logged it several times; keep its latest classification
+INSERT INTO conversation_messages (prospect_id, direction, content, source, classification, sent_at, created_at)
+SELECT DISTINCT ON (prospect_id, prospect_response)
+  prospect_id, 'inbound', prospect_response, 'response', classification, created_at, created_at
+FROM response_interactions r
+WHERE NOT EXISTS (
+  SELECT 1 FROM conversation_messages c
+  WHERE c.prospect_id = r.prospect_id AND c.direction = 'inbound' AND c.content = r.prospect_response
+)
+ORDER BY prospect_id, prospect_response, created_at DESC;
+
+INSERT INTO conversation_messages (prospect_id, direction, content, source, sent_at, created_at)
+SELECT DISTINCT ON (prospect_id, prospect_response)
+  prospect_id, 'outbound', selected_response, 'response', created_at + INTERVAL '1 second', created_at
+FROM response_interactions r
+WHERE selected_response IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM conversation_messages c
+    WHERE c.prospect_id = r.prospect_id AND c.direction = 'outbound' AND c.content = r.selected_response
+  )
+ORDER BY prospect_id, prospect_response, created_at DESC;
@@ -0,0 +1,25 @@
+-- Do-not-contact: set when a prospect replies with a hard no (or by hand).
+-- Imports never write these columns, so re-importing a profile keeps the flag.
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS do_not_contact BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS do_not_contact_reason TEXT;
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS do_not_contact_at TIMESTAMPTZ;
+
+-- Prospects who already said hard no
+UPDATE prospects p
+SET do_not_contact = TRUE,
+    do_not_contact_reason = 'Replied with a hard no',
+    do_not_contact_at = r.created_at
+FROM (
+  SELECT DISTINCT ON (prospect_id) prospect_id, created_at
+  FROM response_interactions
+  WHERE classification = 'hard_no'
+  ORDER BY prospect_id, created_at
+) r
+WHERE p.id = r.prospect_id AND p.do_not_contact = FALSE;
+
+DELETE FROM engagement_watched_profiles w
+USING prospects p
+WHERE w.prospect_id = p.id AND p.do_not_contact = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_do_not_contact ON prospects(do_not_contact) WHERE do_not_contact;
@@ -0,0 +1,28 @@
+-- Background jobs: long-running work (fetching posts, generating comments and
+-- messages) runs in steps outside the request that started it
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('fetch_posts', 'generate_comments', 'generate_messages')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  state JSONB,                          -- Checkpoint between steps
+  result JSONB,
+  error TEXT,                           -- Last failure, kept while the job retries
+  progress_completed INT NOT NULL DEFAULT 0,
+  progress_total INT NOT NULL DEFAULT 0,
+  progress_message TEXT,
+  attempts INT NOT NULL DEFAULT 0,      -- Failed steps so far
+  max_attempts INT NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  parent_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at DESC);
@@ -0,0 +1,25 @@
+-- LinkedIn identity: prospects are stored under their canonical profile URL
+-- (https://www.linkedin.com/in/<slug>) and keep the other URL forms seen for
+-- the same person as aliases. See src/lib/linkedin-identity.ts.
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS linkedin_aliases TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_prospects_linkedin_aliases ON prospects USING GIN (linkedin_aliases);
+
+-- Canonicalize stored vanity URLs: lowercase slug, www host, no query or
+-- trailing path. Member ids (ACo.../ACw...) are case-sensitive and left as
+-- they are. A row whose canonical URL another row already has (or would
+-- get) is a duplicate and is left for the duplicate finder.
+WITH canonical AS (
+  SELECT id, 'https://www.linkedin.com/in/' || lower(substring(linkedin_url FROM '/in/([^/?#]+)')) AS url
+  FROM prospects
+  WHERE linkedin_url ~* 'linkedin\.com/in/[^/?#]+'
+    AND substring(linkedin_url FROM '/in/([^/?#]+)') !~ '^AC[ow][A-Za-z0-9_-]{10,}$'
+)
+UPDATE prospects p
+SET linkedin_url = c.url
+FROM canonical c
+WHERE p.id = c.id
+  AND p.linkedin_url <> c.url
+  AND NOT EXISTS (SELECT 1 FROM canonical o WHERE o.url = c.url AND o.id <> c.id)
+  AND NOT EXISTS (SELECT 1 FROM prospects q WHERE q.linkedin_url = c.url AND q.id <> c.id);
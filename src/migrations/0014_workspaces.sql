@@ -0,0 +1,275 @@
+-- Workspaces: people sign in with Supabase Auth and everyone in a workspace
+-- shares its prospects, pipeline, messages and engagement posts. Every data
+-- row carries its workspace_id and row-level security only lets members of
+-- that workspace see or change it. See src/lib/auth.
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL,
+  invite_code TEXT UNIQUE NOT NULL DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 12),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Holds the data from before workspaces existed; the first person to sign
+-- up becomes its owner (create_workspace below)
+INSERT INTO workspaces (id, name) VALUES ('default', 'Default workspace')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON workspace_members(user_id);
+
+-- Existing rows go to the default workspace. New rows always name theirs
+-- (the storage adapter sets it), so the column has no default afterwards.
+-- scoring_profiles has been keyed by workspace_id since 0004.
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE pipeline_status ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE engagement_watched_profiles ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE engagement_posts ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE pipeline_events ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE response_interactions ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE icp_score_snapshots ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE sequence_progress ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE import_batches ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE conversation_messages ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS workspace_id TEXT NOT NULL DEFAULT 'default' REFERENCES workspaces(id) ON DELETE CASCADE;
+
+ALTER TABLE prospects ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE pipeline_status ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE generated_messages ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE engagement_watched_profiles ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE engagement_posts ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE pipeline_events ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE response_interactions ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE icp_score_snapshots ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE sequence_progress ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE import_batches ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE conversation_messages ALTER COLUMN workspace_id DROP DEFAULT;
+ALTER TABLE jobs ALTER COLUMN workspace_id DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_workspace ON prospects(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_status_workspace ON pipeline_status(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_generated_messages_workspace ON generated_messages(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_watched_profiles_workspace ON engagement_watched_profiles(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_engagement_posts_workspace ON engagement_posts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_pipeline_events_workspace ON pipeline_events(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_response_interactions_workspace ON response_interactions(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_icp_score_snapshots_workspace ON icp_score_snapshots(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_sequence_progress_workspace ON sequence_progress(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_import_batches_workspace ON import_batches(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_workspace ON conversation_messages(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_workspace ON jobs(workspace_id);
+
+-- The same profile or post can be in two workspaces
+ALTER TABLE prospects DROP CONSTRAINT IF EXISTS prospects_linkedin_url_key;
+ALTER TABLE prospects ADD CONSTRAINT prospects_workspace_linkedin_url_key UNIQUE (workspace_id, linkedin_url);
+ALTER TABLE engagement_posts DROP CONSTRAINT IF EXISTS engagement_posts_post_url_key;
+ALTER TABLE engagement_posts ADD CONSTRAINT engagement_posts_workspace_post_url_key UNIQUE (workspace_id, post_url);
+
+-- A row about a prospect must be in the prospect's workspace, so nobody can
+-- attach a pipeline row or message to another workspace's prospect
+ALTER TABLE prospects ADD CONSTRAINT prospects_id_workspace_key UNIQUE (id, workspace_id);
+ALTER TABLE pipeline_status ADD CONSTRAINT pipeline_status_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE generated_messages ADD CONSTRAINT generated_messages_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE engagement_watched_profiles ADD CONSTRAINT engagement_watched_profiles_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE engagement_posts ADD CONSTRAINT engagement_posts_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE pipeline_events ADD CONSTRAINT pipeline_events_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE response_interactions ADD CONSTRAINT response_interactions_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE icp_score_snapshots ADD CONSTRAINT icp_score_snapshots_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE sequence_progress ADD CONSTRAINT sequence_progress_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+ALTER TABLE conversation_messages ADD CONSTRAINT conversation_messages_prospect_workspace_fkey FOREIGN KEY (prospect_id, workspace_id) REFERENCES prospects(id, workspace_id) ON DELETE CASCADE;
+
+-- Who added a row, and who made each pipeline change. Empty for rows from
+-- before sign-in and for the job worker.
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE pipeline_status ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE generated_messages ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE engagement_watched_profiles ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE engagement_posts ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE pipeline_events ADD COLUMN IF NOT EXISTS actor_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- SECURITY DEFINER so the policies below can read workspace_members without
+-- tripping over its own policy
+CREATE OR REPLACE FUNCTION app_is_workspace_member(ws TEXT) RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members WHERE workspace_id = ws AND user_id = auth.uid()
+  );
+$$;
+
+-- A new user's own workspace. The first one takes over the default
+-- workspace and the data already in it.
+CREATE OR REPLACE FUNCTION create_workspace() RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  ws TEXT;
+  member_name TEXT := coalesce(auth.jwt() -> 'user_metadata' ->> 'name', auth.jwt() ->> 'email');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  -- One sign-up at a time decides who claims the default workspace
+  PERFORM 1 FROM workspaces WHERE id = 'default' FOR UPDATE;
+
+  UPDATE workspaces
+  SET name = member_name || '''s workspace', created_by = auth.uid()
+  WHERE id = 'default'
+    AND NOT EXISTS (SELECT 1 FROM workspace_members WHERE workspace_id = 'default')
+  RETURNING id INTO ws;
+
+  IF ws IS NULL THEN
+    INSERT INTO workspaces (name, created_by)
+    VALUES (member_name || '''s workspace', auth.uid())
+    RETURNING id INTO ws;
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, email, name, role)
+  VALUES (ws, auth.uid(), auth.jwt() ->> 'email', member_name, 'owner');
+  RETURN ws;
+END;
+$$;
+
+-- Join the workspace with this invite code
+CREATE OR REPLACE FUNCTION join_workspace(code TEXT) RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  ws TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT id INTO ws FROM workspaces WHERE invite_code = code;
+  IF ws IS NULL THEN
+    RAISE EXCEPTION 'No workspace has that invite code';
+  END IF;
+
+  INSERT INTO workspace_members (workspace_id, user_id, email, name, role)
+  VALUES (
+    ws,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    coalesce(auth.jwt() -> 'user_metadata' ->> 'name', auth.jwt() ->> 'email'),
+    'member'
+  )
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  RETURN ws;
+END;
+$$;
+
+-- Row-level security. Members read and write their workspaces' rows; the
+-- anon key alone sees nothing. Workspaces and memberships change only
+-- through the functions above. The service role (job worker) bypasses RLS.
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS workspace_member_read ON workspaces;
+CREATE POLICY workspace_member_read ON workspaces
+  FOR SELECT TO authenticated USING (app_is_workspace_member(id));
+
+DROP POLICY IF EXISTS workspace_member_read ON workspace_members;
+CREATE POLICY workspace_member_read ON workspace_members
+  FOR SELECT TO authenticated USING (app_is_workspace_member(workspace_id));
+
+ALTER TABLE prospects ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON prospects;
+CREATE POLICY workspace_member_access ON prospects
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE pipeline_status ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON pipeline_status;
+CREATE POLICY workspace_member_access ON pipeline_status
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE generated_messages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON generated_messages;
+CREATE POLICY workspace_member_access ON generated_messages
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE engagement_watched_profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON engagement_watched_profiles;
+CREATE POLICY workspace_member_access ON engagement_watched_profiles
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE engagement_posts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON engagement_posts;
+CREATE POLICY workspace_member_access ON engagement_posts
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE pipeline_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON pipeline_events;
+CREATE POLICY workspace_member_access ON pipeline_events
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE response_interactions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON response_interactions;
+CREATE POLICY workspace_member_access ON response_interactions
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON scoring_profiles;
+CREATE POLICY workspace_member_access ON scoring_profiles
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE icp_score_snapshots ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON icp_score_snapshots;
+CREATE POLICY workspace_member_access ON icp_score_snapshots
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE sequence_progress ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON sequence_progress;
+CREATE POLICY workspace_member_access ON sequence_progress
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON import_batches;
+CREATE POLICY workspace_member_access ON import_batches
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE conversation_messages ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON conversation_messages;
+CREATE POLICY workspace_member_access ON conversation_messages
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON jobs;
+CREATE POLICY workspace_member_access ON jobs
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
@@ -0,0 +1,25 @@
+-- Prospect assignment: each prospect can have an assignee, the workspace
+-- member working it. New prospects are assigned at import by rules (segment
+-- and ICP tier) or round-robin. See src/lib/assignment.ts.
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_assignee ON prospects(workspace_id, assignee_id);
+
+-- One row per workspace. The settings document is AssignmentSettings in
+-- src/types; round_robin_cursor counts the turns taken so far.
+CREATE TABLE IF NOT EXISTS assignment_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT UNIQUE NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  settings JSONB,
+  round_robin_cursor INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE assignment_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON assignment_settings;
+CREATE POLICY workspace_member_access ON assignment_settings
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
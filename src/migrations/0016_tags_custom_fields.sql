@@ -0,0 +1,26 @@
+-- Tags and custom fields: free-form tags on each prospect, and typed fields
+-- (text, number, date, select) a workspace defines for its prospects. Values
+-- are stored on the prospect keyed by field id. See src/lib/custom-fields.ts.
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_prospects_tags ON prospects USING GIN (tags);
+
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'select')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_workspace ON custom_fields(workspace_id);
+
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON custom_fields;
+CREATE POLICY workspace_member_access ON custom_fields
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
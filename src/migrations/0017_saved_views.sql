@@ -0,0 +1,23 @@
+-- Saved views: named filter expressions (AND/OR groups of conditions on
+-- prospect fields) shared by everyone in the workspace. See
+-- src/lib/saved-views.ts for the expression format.
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  filter JSONB NOT NULL DEFAULT '{"match": "all", "conditions": []}',
+  sort TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_workspace ON saved_views(workspace_id);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS workspace_member_access ON saved_views;
+CREATE POLICY workspace_member_access ON saved_views
+  FOR ALL TO authenticated
+  USING (app_is_workspace_member(workspace_id))
+  WITH CHECK (app_is_workspace_member(workspace_id));
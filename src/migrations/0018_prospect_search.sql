@@ -0,0 +1,24 @@
+-- Server-side prospect queries: full-text search over name, company, headline
+-- and about, and indexes for each list sort so pages can be read with keyset
+-- (cursor) pagination. See src/lib/prospect-query.ts.
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    to_tsvector('simple',
+      coalesce(full_name, '') || ' ' ||
+      coalesce(company_name, '') || ' ' ||
+      coalesce(headline, '') || ' ' ||
+      coalesce(about_summary, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_search ON prospects USING GIN (search_vector);
+
+-- Keyset pagination compares (sort column, id), which needs a score on every row
+UPDATE prospects SET icp_score = 0 WHERE icp_score IS NULL;
+ALTER TABLE prospects ALTER COLUMN icp_score SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_icp_page ON prospects(workspace_id, icp_score, id);
+CREATE INDEX IF NOT EXISTS idx_prospects_name_page ON prospects(workspace_id, full_name, id);
+CREATE INDEX IF NOT EXISTS idx_prospects_recent_page ON prospects(workspace_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_prospects_segment ON prospects(workspace_id, (icp_score_breakdown->>'segment'));
+CREATE INDEX IF NOT EXISTS idx_pipeline_status_status ON pipeline_status(status, prospect_id);
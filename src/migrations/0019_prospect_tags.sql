@@ -0,0 +1,7 @@
+-- Tags in use across a workspace's prospects, so the dashboard summary can
+-- list them without reading every prospect. SECURITY INVOKER keeps the
+-- prospects policies in force for the caller.
+CREATE OR REPLACE FUNCTION prospect_tags(ws TEXT) RETURNS SETOF TEXT
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public AS $$
+  SELECT DISTINCT tag FROM prospects, unnest(tags) AS tag WHERE workspace_id = ws;
+$$;
@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  ACCESS_TOKEN_HEADER,
+  clearSessionCookies,
+  getAuthProvider,
+  REFRESH_TOKEN_COOKIE,
+  setSessionCookies,
+  USER_ID_HEADER,
+  WORKSPACE_COOKIE,
+  WORKSPACE_ID_HEADER,
+  type AuthSession
+} from '@/lib/auth';
+
+const SIGN_IN_PAGE = '/sign-in';
+
+// API routes reachable without a session
+const PUBLIC_API_PATHS = ['/api/auth/sign-in', '/api/auth/sign-up', '/api/auth/sign-out'];
+
+async function loadSession(request: NextRequest): Promise<AuthSession | null> {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) return null;
+  try {
+    return await getAuthProvider().getSession(
+      { accessToken, refreshToken: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value },
+      request.cookies.get(WORKSPACE_COOKIE)?.value
+    );
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return null;
+  }
+}
+
+/**
+ * Every page and API route needs a signed-in user. The session from the
+ * cookies is checked here (and renewed when its access token has expired);
+ * route handlers then read who is signed in, and in which workspace, from
+ * request headers through getRequestIdentity in src/lib/auth.
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  // Only this proxy sets the identity headers
+  const headers = new Headers(request.headers);
+  for (const name of [USER_ID_HEADER, WORKSPACE_ID_HEADER, ACCESS_TOKEN_HEADER]) {
+    headers.delete(name);
+  }
+
+  if (PUBLIC_API_PATHS.includes(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const session = await loadSession(request);
+
+  if (!session) {
+    if (pathname === SIGN_IN_PAGE) {
+      return NextResponse.next({ request: { headers } });
+    }
+    const response = pathname.startsWith('/api/')
+      ? NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+      : NextResponse.redirect(new URL(`${SIGN_IN_PAGE}?next=${encodeURIComponent(pathname + search)}`, request.url));
+    if (request.cookies.has(ACCESS_TOKEN_COOKIE)) clearSessionCookies(response);
+    return response;
+  }
+
+  if (pathname === SIGN_IN_PAGE) {
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  headers.set(USER_ID_HEADER, session.user.id);
+  headers.set(WORKSPACE_ID_HEADER, session.workspace.id);
+  headers.set(ACCESS_TOKEN_HEADER, session.tokens.accessToken);
+
+  const response = NextResponse.next({ request: { headers } });
+  if (session.refreshed) setSessionCookies(response, session.tokens);
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+};
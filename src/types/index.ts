@@ -27,6 +27,23 @@ export type MessageTrack =
   | 'INFLUENCER_OUTREACH'
   | 'CONSULTANT_OUTREACH';
 
+// The three messages generated for every qualified prospect
+export type OutreachMessageType = Extract<MessageType, 'connection_request' | 'opening_dm' | 'follow_up'>;
+
+// Writing rules each generated message is checked against
+export type MessageRule =
+  | 'max_length'   // 300 / 800 / 400 characters
+  | 'em_dash'
+  | 'exclamation'
+  | 'emoji'
+  | 'signature';   // Must end with "Isaac" on its own line
+
+export interface MessageRuleWarning {
+  messageType: OutreachMessageType;
+  rule: MessageRule;
+  detail: string;
+}
+
 export interface Experience {
   companyName: string;
   title: string;
@@ -56,12 +73,129 @@ export interface ICPScoreBreakdown {
   total: number;               // Max ~105, clamped to 0-100
 }
 
+export type ICPSegment = ICPScoreBreakdown['segment'];
+
+// A keyword matched as a substring, or with extra conditions
+export type ScoringPattern =
+  | string
+  | {
+      match: string;
+      wholeWord?: boolean;  // "coo" must not match "coordinator"
+      unless?: string[];    // skip when any of these appear ("vice president")
+    };
+
+// Title tiers are checked in order; the first tier with a matching pattern wins
+export interface TitleTier {
+  name: string;
+  points: number;
+  patterns: ScoringPattern[];
+}
+
+// One company signal. Rules sharing a group are exclusive: only the first
+// matching rule in the group scores (e.g. "shopify plus" before "shopify").
+export interface CompanySignalRule {
+  name: string;
+  points: number;
+  keywords: string[];
+  match?: 'any' | 'all';       // default 'any'
+  field?: 'text' | 'industry'; // default 'text' (company, about, headline, industry)
+  segments?: ICPSegment[];     // default: every segment
+  group?: string;
+}
+
+// Inclusive employee-count range. Bands are checked in order.
+export interface CompanySizeBand {
+  min?: number;
+  max?: number;
+  points: number;
+}
+
+// Everything calculateICPScoreWithBreakdown needs to score a prospect
+export interface ScoringProfile {
+  version: 1;
+  name: string;
+  segmentation: {
+    freelancerIndicators: string[];
+    agencyIndustries: string[];
+    agencyKeywords: string[];
+    agencyCompanyTerms: string[];
+    merchantIndustries: string[];
+    merchantKeywords: string[];
+    merchantCompanyTerms: string[];
+  };
+  titleTiers: TitleTier[];
+  companySignals: {
+    maxPoints: number;
+    rules: CompanySignalRule[];
+  };
+  companySize: {
+    bands: Record<ICPSegment, CompanySizeBand[]>;
+    unknownSizePoints: Record<ICPSegment, number>;
+  };
+  productCategory: {
+    points: number;
+    keywords: string[];
+  };
+  profileCompleteness: {
+    points: number;
+    minAboutLength: number;
+  };
+}
+
+// Score buckets used by the dashboard filters and stats cards
+export type ICPTier = 'high' | 'medium' | 'low';
+
+// One prospect's score as recorded by a rescore run
+export interface ICPScoreSnapshot {
+  id: string;
+  runId: string;
+  prospectId: string;
+  icpScore: number;
+  icpScoreBreakdown?: ICPScoreBreakdown;
+  previousScore?: number;
+  profileName: string;
+  profileRevision: number; // 0 = built-in default profile
+  createdAt: string;
+}
+
+export interface RescoreMover {
+  prospectId: string;
+  name: string;
+  previousScore: number;
+  newScore: number;
+  delta: number;
+  previousTier: ICPTier;
+  newTier: ICPTier;
+}
+
+export interface RescoreSegmentChange {
+  prospectId: string;
+  name: string;
+  previousSegment: ICPSegment;
+  newSegment: ICPSegment;
+}
+
+// What a rescore changed, so a scoring profile change can be reviewed
+export interface RescoreReport {
+  total: number;
+  scoreChanged: number;
+  tierChanged: number;
+  tierMoves: Array<{ from: ICPTier; to: ICPTier; count: number }>;
+  tierCounts: {
+    before: Record<ICPTier, number>;
+    after: Record<ICPTier, number>;
+  };
+  segmentChanges: RescoreSegmentChange[];
+  biggestMovers: RescoreMover[];
+}
+
 export interface Prospect {
   id: string;
   firstName: string;
   lastName: string;
   fullName: string;
   linkedinUrl: string;
+  linkedinAliases?: string[]; // Other URL forms of the same profile (src/lib/linkedin-identity.ts)
   profilePicUrl?: string;
   headline?: string;
   aboutSummary?: string;
@@ -76,10 +210,50 @@ export interface Prospect {
   icpScoreBreakdown?: ICPScoreBreakdown;
   totalExperienceYears?: number;
   topSkills?: string;
+  importBatchId?: string;
+  ownerId?: string;             // User who added the prospect
+  assigneeId?: string;          // Workspace member working the prospect (src/lib/assignment.ts)
+  tags?: string[];              // Free-form labels, e.g. "met at conference"
+  customFields?: CustomFieldValues;
+  doNotContact?: boolean;       // Never generate, send, comment or queue anything for them
+  doNotContactReason?: string;
+  doNotContactAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Typed fields a workspace adds to its prospects (src/lib/custom-fields.ts)
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface CustomFieldDefinition {
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];  // Choices for select fields, empty otherwise
+  createdAt: string;
+}
+
+// Dates are stored as YYYY-MM-DD strings
+export type CustomFieldValue = string | number;
+
+// Keyed by field id; values of deleted fields are ignored
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Where an import batch came from
+export type ImportBatchSource =
+  | 'excel'   // Excel workbook upload
+  | 'url'     // Bulk LinkedIn URL import
+  | 'manual'; // Add Prospect form
+
+// One upload of prospects; each prospect keeps the batch that first imported it
+export interface ImportBatch {
+  id: string;
+  source: ImportBatchSource;
+  label: string;          // File name, or a description for URL and manual imports
+  prospectCount: number;  // Rows in the upload, including ones already imported
+  createdAt: string;
+}
+
 export interface PipelineRecord {
   id: string;
   prospectId: string;
@@ -96,13 +270,232 @@ export interface PipelineRecord {
   updatedAt: string;
 }
 
+// Where a pipeline status change came from
+export type PipelineEventSource =
+  | 'drag'          // Dragged on the pipeline board
+  | 'manual'        // Status dropdown in prospect detail
+  | 'bulk'          // Bulk status change from selection mode
+  | 'import'        // Excel or URL import
+  | 'response_log'  // Prospect reply logged via the response generator
+  | 'sequence'      // Sequence step marked done from the daily queue
+  | 'queue'         // Other one-click actions on the daily queue
+  | 'message'       // Generated message version marked sent
+  | 'merge';        // Duplicate prospects merged into this one
+
+// Append-only history of pipeline status changes
+export interface PipelineEvent {
+  id: string;
+  prospectId: string;
+  fromStatus?: PipelineStatus;
+  toStatus: PipelineStatus;
+  source: PipelineEventSource;
+  note?: string;
+  actorId?: string;    // User who made the change; unset for imports by jobs and older events
+  actorName?: string;
+  createdAt: string;
+}
+
+// Why two prospects look like the same person (src/lib/duplicates.ts)
+export type DuplicateMatchReason =
+  | 'linkedin_url'   // Same canonical profile URL or alias
+  | 'name_company'   // Same name at the same current or past company
+  | 'name_photo';    // Same name and profile picture
+
+// Prospects that look like one person, suggested keeper first
+export interface DuplicateGroup {
+  keepId: string;                 // Most advanced pipeline status, then oldest
+  prospects: ProspectWithPipeline[];
+  reasons: DuplicateMatchReason[];
+}
+
+// Pipeline milestones a sequence step can be timed from
+export type PipelineMilestone =
+  | 'visitedAt'
+  | 'connectionSentAt'
+  | 'connectionAcceptedAt'
+  | 'messageSentAt'
+  | 'responseReceivedAt';
+
+// Ways the conversion funnel can be broken down (Analytics page)
+export type AnalyticsDimension = 'segment' | 'track' | 'icp_tier' | 'import_batch' | 'week';
+
+// Movement from one funnel stage to the next
+export interface StageConversion {
+  from: PipelineStatus;
+  to: PipelineStatus;
+  reachedFrom: number;              // Prospects that reached `from`
+  reachedTo: number;                // Of those, prospects that reached `to`
+  rate: number | null;              // Percent; null when nobody reached `from`
+  medianDaysInStage: number | null; // Median days between entering `from` and `to`
+}
+
+// Funnel for one group of prospects (or all of them)
+export interface FunnelReport {
+  key: string;
+  label: string;
+  prospects: number;
+  closedLost: number;
+  reached: Partial<Record<PipelineStatus, number>>;
+  conversions: StageConversion[];
+}
+
+export interface AnalyticsReport {
+  overall: FunnelReport;
+  breakdowns: Record<AnalyticsDimension, FunnelReport[]>;
+  generatedAt: string;
+}
+
+// One scheduled touch in an outreach sequence. A step applies while the
+// prospect is in `status` and is due `delayDays` after the `after` milestone.
+export interface SequenceStep {
+  id: string;
+  name: string;
+  messageType: OutreachMessageType;
+  status: PipelineStatus;
+  after: PipelineMilestone;
+  delayDays: number;
+  advancesTo?: PipelineStatus; // Status set when the step is marked done
+}
+
+export interface OutreachSequence {
+  name: string;
+  steps: SequenceStep[];
+}
+
+export type SequenceStepOutcome = 'completed' | 'skipped';
+
+// A step marked done or skipped for one prospect
+export interface SequenceProgress {
+  id: string;
+  prospectId: string;
+  stepId: string;
+  outcome: SequenceStepOutcome;
+  createdAt: string;
+}
+
+export type SequenceStateKind =
+  | 'not_started' // Not contacted yet
+  | 'due'         // Next step is due today or overdue
+  | 'scheduled'   // Next step is due on a later day
+  | 'waiting'     // Waiting on the prospect (e.g. to accept the connection)
+  | 'paused'      // Replied or closed; no more automated steps
+  | 'completed';  // Every step done or skipped
+
+export interface SequenceState {
+  kind: SequenceStateKind;
+  step?: SequenceStep;
+  dueAt?: string;
+  overdueDays?: number;
+  pausedReason?: string;
+}
+
+// An entry in the daily sequence queue
+export interface SequenceQueueItem {
+  prospectId: string;
+  fullName: string;
+  companyName?: string;
+  jobTitle?: string;
+  linkedinUrl: string;
+  icpScore: number;
+  status: PipelineStatus;
+  step: SequenceStep;
+  dueAt: string;
+  overdueDays: number;
+  message?: string;   // Latest generated message for the step's message type
+  messageId?: string; // Version to mark sent when the step is done
+}
+
+// Kinds of work on the /today action queue
+export type ActionKind =
+  | 'reply'           // Prospect replied and is waiting on us
+  | 'engage_post'     // Engagement post about to be archived as aged
+  | 'send_opening_dm'
+  | 'send_follow_up'
+  | 'send_connection'
+  | 'visit_profile';
+
+export interface ActionItem {
+  id: string;          // Stable key, e.g. "send_follow_up:<prospectId>"
+  kind: ActionKind;
+  prospectId: string;
+  fullName: string;
+  companyName?: string;
+  jobTitle?: string;
+  linkedinUrl: string;
+  icpScore: number;
+  status: PipelineStatus;
+  waitingDays: number; // Staleness: days overdue or waiting on us
+  priority: number;    // ICP score plus a staleness bonus; higher goes first
+  stepId?: string;     // Sequence step completed by the send_* actions
+  message?: string;    // Generated message to copy for the send_* actions
+  messageId?: string;  // Its stored version, marked sent with the step
+  postId?: string;
+  postUrl?: string;
+  postContent?: string;
+  expiresAt?: string;  // When an engagement post will be archived
+}
+
+export interface ActionQueueSection {
+  kind: ActionKind;
+  label: string;
+  items: ActionItem[];
+  hiddenCount: number; // Items beyond the daily limit for this section
+}
+
+export interface ActionQueue {
+  generatedAt: string;
+  total: number;
+  sections: ActionQueueSection[];
+  upcoming: SequenceQueueItem[]; // Sequence steps due in the next few days
+}
+
+// A prompt file registered in src/lib/prompts.ts. Active variants that write
+// the same message type split traffic by weight.
+export interface PromptVariant {
+  id: string;                 // Recorded on every message it generates
+  name: string;
+  description?: string;
+  file: string;               // Under src/prompts
+  messageTypes: MessageType[];
+  weight: number;
+  active: boolean;
+}
+
+// The prompt that produced a message
+export interface PromptSelection {
+  variant: string; // PromptVariant id
+  version: string; // File name plus a hash of its contents
+}
+
+// Reply rate per variant (Prompts page)
+export interface PromptVariantStats {
+  variant: string;
+  name: string;
+  messageTypes: MessageType[];
+  weight: number;
+  active: boolean;
+  versions: string[];
+  generated: number;        // Messages generated
+  prospectsSent: number;    // Prospects sent at least one of its messages
+  prospectsReplied: number; // Of those, prospects whose logged reply is attributed to it
+  replyRate: number | null; // Percent; null before anything was sent
+}
+
 export interface GeneratedMessage {
   id: string;
   prospectId: string;
   messageType: MessageType;
   content: string;
   generatedAt: string;
-  used: boolean;
+  used: boolean;                  // This version is the one that was sent
+  version: number;                // 1, 2, ... per prospect and message type
+  track?: MessageTrack;
+  personalizationHook?: string;
+  model?: string;
+  promptVariant?: string;
+  promptVersion?: string;
+  warnings: MessageRuleWarning[]; // Writing rules this version breaks
+  sentAt?: string;
 }
 
 export interface ProspectWithPipeline extends Prospect {
@@ -158,17 +551,112 @@ export interface RawScrapedRow {
 // Filter/sort options
 export type SegmentFilter = 'agency' | 'merchant' | 'freelancer' | 'all';
 
+// 'mine' is the signed-in user; anything else not listed is a member's user id
+export type AssigneeFilter = 'all' | 'mine' | 'unassigned' | string;
+
 export interface FilterOptions {
   status?: PipelineStatus | 'all';
   segment?: SegmentFilter;
   industry?: string;
   search?: string;
   icpScoreMin?: number;
+  assignee?: AssigneeFilter;
+  tag?: string;
+  customField?: CustomFieldFilter;
+  view?: string;  // Saved view id; its filter applies on top of the others
+}
+
+export type ICPRange = ICPTier | 'all';
+
+// One page of the prospect list: the dashboard filters, a sort, and where
+// the page starts (GET /api/prospects)
+export interface ProspectQuery {
+  filters: FilterOptions;
+  icpRange: ICPRange;
+  sort: ProspectSort;
+  cursor?: string;  // nextCursor of the page before; none for the first page
+  limit: number;
+}
+
+export interface ProspectPage {
+  prospects: ProspectWithPipeline[];
+  nextCursor: string | null;  // null on the last page
+  total?: number;             // Prospects matching the query; first page only
+}
+
+// Workspace-wide numbers for the dashboard, which no longer loads every prospect
+export interface ProspectSummary {
+  stats: {
+    total: number;
+    connected: number;
+    withMessages: number;
+    highICP: number;
+    mediumICP: number;
+    lowICP: number;
+  };
+  tags: string[];
+  viewCounts: Record<string, number>;  // Saved view id -> prospects in it
+}
+
+// Text and select fields match `value` (text contains it, select equals it);
+// number and date fields match the inclusive `min`-`max` range
+export interface CustomFieldFilter {
+  fieldId: string;
+  value?: string;
+  min?: string;
+  max?: string;
 }
 
 export type SortField = 'name' | 'company' | 'icpScore' | 'lastActivity' | 'status';
 export type SortDirection = 'asc' | 'desc';
 
+// Dashboard sort orders
+export type ProspectSort = 'icp_desc' | 'icp_asc' | 'name_asc' | 'recent';
+
+// Saved views (src/lib/saved-views.ts): a named filter expression the whole
+// workspace can reuse on the dashboard, for bulk actions, exports and the
+// sequence queue
+export type ViewFilterField =
+  | 'status'
+  | 'segment'
+  | 'icp_tier'
+  | 'icp_score'
+  | 'industry'
+  | 'company_size'
+  | 'location'
+  | 'search'              // Name, company or title
+  | 'tag'
+  | 'track'               // Track of the sent message, else the latest generated
+  | 'assignee'            // 'mine', 'unassigned' or a member's user id
+  | 'last_activity_days'  // Days since the latest milestone or message
+  | 'days_in_stage';      // Days since the prospect entered its current status
+
+export type ViewFilterOperator = 'is' | 'is_not' | 'contains' | 'not_contains' | 'at_least' | 'at_most';
+
+export interface ViewCondition {
+  field: ViewFilterField;
+  operator: ViewFilterOperator;
+  value: string | number;
+}
+
+// 'all' is AND, 'any' is OR. Groups nest, e.g. agencies AND (tagged VIP OR ICP 70+).
+export interface ViewFilterGroup {
+  match: 'all' | 'any';
+  conditions: ViewFilterNode[];
+}
+
+export type ViewFilterNode = ViewCondition | ViewFilterGroup;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: ViewFilterGroup;
+  sort?: ProspectSort;
+  ownerId?: string;  // Who saved it
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Engagement posts for commenting workflow
 export interface EngagementPost {
   id: string;
@@ -185,8 +673,14 @@ export interface EngagementPost {
   updatedAt: string;
 }
 
+// The prospect fields shown beside an engagement post or watched profile
+export type ProspectPreview = Pick<
+  Prospect,
+  'id' | 'firstName' | 'lastName' | 'fullName' | 'linkedinUrl' | 'profilePicUrl' | 'headline' | 'companyName' | 'jobTitle' | 'icpScore'
+>;
+
 export interface EngagementPostWithProspect extends EngagementPost {
-  prospect?: Prospect;
+  prospect?: ProspectPreview;
 }
 
 // Watched profiles for regular engagement
@@ -197,7 +691,7 @@ export interface WatchedProfile {
 }
 
 export interface WatchedProfileWithProspect extends WatchedProfile {
-  prospect?: Prospect;
+  prospect?: ProspectPreview;
 }
 
 // Response Generator Types
@@ -241,6 +735,189 @@ export interface ResponseInteraction {
   selectedResponse?: string;
   selectedStyle?: 'direct' | 'soft' | 'question_first';
   outcome?: 'positive' | 'neutral' | 'negative' | 'no_reply';
+  generatedMessageId?: string; // Last message sent before the reply
+  promptVariant?: string;      // Variant that wrote that message
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where a conversation turn came from
+export type ConversationSource =
+  | 'outreach'  // Generated message marked sent
+  | 'response'  // Reply option chosen in the response generator
+  | 'manual';   // Added by hand to the thread
+
+// One message in the back-and-forth with a prospect, oldest first
+export interface ConversationMessage {
+  id: string;
+  prospectId: string;
+  direction: 'inbound' | 'outbound'; // inbound = from the prospect
+  content: string;
+  source: ConversationSource;
+  classification?: ResponseClassification; // Inbound turns, as logged
+  classificationConfidence?: number;
+  generatedMessageId?: string;              // Outreach turns
+  sentAt: string;
+  createdAt: string;
+}
+
+// One labeled reply in the classification eval dataset (evals/classification)
+export interface ClassificationEvalCase {
+  id: string;
+  reply: string;
+  expected: ResponseClassification;
+  source: 'seed' | 'override';  // override = a classification corrected in the response generator
+  prospectName?: string;
+  thread?: Array<Pick<ConversationMessage, 'direction' | 'content' | 'sentAt' | 'classification'>>;
+  note?: string;
+}
+
+// The classifier's answer for one case
+export interface ClassificationEvalResult {
+  caseId: string;
+  expected: ResponseClassification;
+  predicted: ResponseClassification | null; // null when the call failed or returned an unknown label
+  confidence?: number;
+  error?: string;
+}
+
+export interface ClassificationScore {
+  support: number;    // Cases labeled with this classification
+  predicted: number;  // Cases the classifier put in it
+  correct: number;
+  precision: number | null; // Percent, one decimal; null when nothing was predicted/labeled
+  recall: number | null;
+}
+
+// One scored run of the classifier over the dataset
+export interface ClassificationEvalReport {
+  label: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  runAt: string;
+  total: number;
+  correct: number;
+  accuracy: number; // Percent, one decimal
+  perClass: Record<ResponseClassification, ClassificationScore>;
+  // expected -> predicted -> count; failed calls are counted under 'error'
+  confusion: Record<ResponseClassification, Partial<Record<ResponseClassification | 'error', number>>>;
+  results: ClassificationEvalResult[];
+}
+
+// A candidate run measured against a baseline
+export interface ClassificationEvalComparison {
+  baseline: string;
+  candidate: string;
+  accuracyDelta: number;
+  recallDelta: Partial<Record<ResponseClassification, number>>; // Classes whose recall moved
+  fixed: string[];     // Case ids the candidate gets right and the baseline got wrong
+  regressed: string[]; // Case ids the baseline got right and the candidate gets wrong
+}
+
+// Background jobs (src/lib/jobs): long-running work started from the UI
+export type JobType = 'fetch_posts' | 'generate_comments' | 'generate_messages';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number;     // 0 until the job knows how much work there is
+  message?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  state?: Record<string, unknown>;  // Handler checkpoint between steps
+  result?: JobResult;
+  error?: string;            // Last failure; set while retrying and when failed
+  progress: JobProgress;
+  attempts: number;          // Failed steps so far
+  maxAttempts: number;
+  runAt: string;             // Queued jobs wait until then (retry backoff, polling)
+  cancelRequested: boolean;
+  parentJobId?: string;      // Job that enqueued this one
+  startedAt?: string;
+  finishedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
+
+export interface SkippedPostDetail {
+  url: string;
+  reason: string;
+}
+
+export interface FetchPostsJobResult {
+  totalScraped: number;
+  savedActive: number;
+  savedArchived: number;
+  skipped: number;
+  skippedDetails: SkippedPostDetail[];
+  excludedDoNotContact: number;
+  commentsJobId?: string; // generate_comments job for the new active posts
+}
+
+export interface GenerateCommentsJobResult {
+  generated: number;
+  failed: Array<{ postId: string; error: string }>;
+}
+
+export interface GenerateMessagesJobResult {
+  generated: number;
+  skipped: Array<{ prospectId: string; reason: string }>;
+  failed: Array<{ prospectId: string; error: string }>;
+}
+
+// What a finished job returns, by job type
+export type JobResult = FetchPostsJobResult | GenerateCommentsJobResult | GenerateMessagesJobResult;
+
+// Workspaces (src/lib/auth): everyone in a workspace shares its prospects,
+// pipeline, messages and engagement posts
+export type WorkspaceRole = 'owner' | 'member';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;     // The signed-in user's role
+  inviteCode?: string;     // Shown to owners; new members sign up or join with it
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+// Sends prospects matching a segment and/or ICP tier to one member. A rule
+// with neither matches every prospect.
+export interface AssignmentRule {
+  segment?: ICPSegment;
+  icpTier?: ICPTier;
+  assigneeId: string;
+}
+
+// How new prospects are assigned at import (one per workspace): the first
+// matching rule wins, otherwise the round-robin members take turns
+export interface AssignmentSettings {
+  rules: AssignmentRule[];
+  roundRobin: string[];  // User ids, in turn order
+}
+
+// Who is signed in, the workspace they're working in and the others they can switch to
+export interface SessionInfo {
+  user: AuthUser;
+  workspace: Workspace;
+  workspaces: Workspace[];
+}
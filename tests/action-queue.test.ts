@@ -0,0 +1,118 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildActionQueue, isAwaitingReply } from '@/lib/action-queue';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { EngagementPost } from '@/types';
+import { buildProspect, daysAgo, hoursAgo, NOW } from './prospects';
+
+function post(id: string, prospectId: string, postedAt: string): EngagementPost {
+  return {
+    id,
+    prospectId,
+    postUrl: `https://www.linkedin.com/feed/update/${id}`,
+    postContent: 'We just shipped our spring collection',
+    postedAt,
+    authorName: prospectId,
+    status: 'active',
+    generatedComments: [],
+    createdAt: postedAt,
+    updatedAt: postedAt
+  };
+}
+
+function section(queue: ReturnType<typeof buildActionQueue>, kind: string) {
+  return queue.sections.find(s => s.kind === kind)!;
+}
+
+describe('awaiting reply', () => {
+  test('a reply is open until a response is logged after it', () => {
+    const replied = buildProspect('r', { icpScore: 60 }, 'responded', { responseReceivedAt: daysAgo(1) });
+    assert.equal(isAwaitingReply(replied), true);
+    assert.equal(isAwaitingReply(replied, daysAgo(2)), true);
+    assert.equal(isAwaitingReply(replied, hoursAgo(1)), false);
+    assert.equal(isAwaitingReply(buildProspect('c', { icpScore: 60 }, 'connected')), false);
+  });
+});
+
+describe('daily action queue', () => {
+  test('ranks each section by ICP score plus staleness', () => {
+    const queue = buildActionQueue({
+      prospects: [
+        // 80 + 0 days waiting
+        buildProspect('fresh-high', { icpScore: 80 }, 'responded', { responseReceivedAt: hoursAgo(2) }),
+        // 60 + 6 days x 5 points = 90
+        buildProspect('stale-low', { icpScore: 60 }, 'responded', { responseReceivedAt: daysAgo(6) }),
+        buildProspect('answered', { icpScore: 99 }, 'responded', { responseReceivedAt: daysAgo(3) }),
+        buildProspect('dm', { icpScore: 50 }, 'connected', { connectionAcceptedAt: daysAgo(2) })
+      ],
+      sequenceProgress: [],
+      activePosts: [],
+      lastAnsweredAt: new Map([['answered', daysAgo(1)]]),
+      postMaxAgeDays: 2,
+      now: NOW
+    });
+
+    assert.deepEqual(section(queue, 'reply').items.map(i => i.prospectId), ['stale-low', 'fresh-high']);
+    assert.equal(section(queue, 'reply').items[0].priority, 90);
+
+    const dm = section(queue, 'send_opening_dm').items;
+    assert.deepEqual(dm.map(i => [i.prospectId, i.stepId]), [['dm', 'opening_dm']]);
+    assert.equal(queue.total, 3);
+  });
+
+  test('lists posts only when they are close to aging out', () => {
+    const queue = buildActionQueue({
+      prospects: [buildProspect('author', { icpScore: 70 }, 'connected', { connectionAcceptedAt: hoursAgo(1) })],
+      sequenceProgress: [],
+      activePosts: [post('old', 'author', hoursAgo(30)), post('new', 'author', hoursAgo(4))],
+      lastAnsweredAt: new Map(),
+      postMaxAgeDays: 2,
+      now: NOW
+    });
+
+    const posts = section(queue, 'engage_post').items;
+    assert.deepEqual(posts.map(i => i.postId), ['old']);
+    assert.equal(posts[0].expiresAt, new Date(NOW.getTime() + 18 * 60 * 60 * 1000).toISOString());
+    assert.deepEqual(queue.upcoming.map(i => i.step.id), ['opening_dm']);
+  });
+
+  test('caps profile visits at the daily limit', () => {
+    const queue = buildActionQueue({
+      prospects: [buildProspect('a', { icpScore: 10 }), buildProspect('b', { icpScore: 30 }), buildProspect('c', { icpScore: 20 })],
+      sequenceProgress: [],
+      activePosts: [],
+      lastAnsweredAt: new Map(),
+      postMaxAgeDays: 2,
+      limits: { visit_profile: 2 },
+      now: NOW
+    });
+
+    const visits = section(queue, 'visit_profile');
+    assert.deepEqual(visits.items.map(i => i.prospectId), ['b', 'c']);
+    assert.equal(visits.hiddenCount, 1);
+  });
+});
+
+describe('last answered times from storage', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'action-queue-'));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('the newest interaction per prospect asked for, in one call', async () => {
+    const storage = createLocalStorage(path.join(dir, 'db.json'));
+    const [a, b, c] = await storage.bulkImportProspects(['ana', 'ben', 'cy'].map(slug => ({
+      firstName: slug,
+      lastName: '',
+      fullName: slug,
+      linkedinUrl: `https://www.linkedin.com/in/${slug}`
+    })), new Map());
+    await storage.logResponseInteraction({ prospect_id: a.id, prospect_response: 'Maybe', created_at: daysAgo(3) });
+    await storage.logResponseInteraction({ prospect_id: a.id, prospect_response: 'Sure', created_at: daysAgo(1) });
+    await storage.logResponseInteraction({ prospect_id: c.id, prospect_response: 'Yes', created_at: daysAgo(2) });
+
+    const latest = await storage.getLatestResponseTimes([a.id as string, b.id as string]);
+    assert.deepEqual([...latest], [[a.id, daysAgo(1)]]);
+  });
+});
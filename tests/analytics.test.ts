@@ -0,0 +1,143 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAnalyticsReport, buildFunnel, buildProspectJourney, getWeekStart } from '@/lib/analytics';
+import type {
+  ICPSegment,
+  ImportBatch,
+  MessageTrack,
+  PipelineEvent,
+  PipelineRecord,
+  PipelineStatus,
+  ProspectWithPipeline
+} from '@/types';
+import { buildProspect, icpBreakdown } from './prospects';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function prospect(
+  id: string,
+  status: PipelineStatus,
+  options: {
+    segment?: ICPSegment;
+    icpScore?: number;
+    createdAt?: string;
+    importBatchId?: string;
+    track?: MessageTrack;
+    pipeline?: Partial<PipelineRecord>;
+  } = {}
+): ProspectWithPipeline {
+  const createdAt = options.createdAt || '2026-03-02T09:00:00.000Z';
+  const icpScore = options.icpScore ?? 50;
+  return buildProspect(id, {
+    icpScore,
+    icpScoreBreakdown: options.segment ? icpBreakdown(options.segment, icpScore) : undefined,
+    importBatchId: options.importBatchId,
+    createdAt,
+    updatedAt: createdAt,
+    messages: options.track ? [{
+      id: `message-${id}`,
+      prospectId: id,
+      messageType: 'opening_dm',
+      content: 'Hi',
+      generatedAt: createdAt,
+      used: true,
+      version: 1,
+      track: options.track,
+      warnings: []
+    }] : []
+  }, status, { createdAt, updatedAt: createdAt, ...options.pipeline });
+}
+
+function event(prospectId: string, fromStatus: PipelineStatus | undefined, toStatus: PipelineStatus, createdAt: string): PipelineEvent {
+  return { id: `${prospectId}-${toStatus}`, prospectId, fromStatus, toStatus, source: 'manual', createdAt };
+}
+
+describe('prospect journeys', () => {
+  test('a lost prospect still counts toward the stages it reached', () => {
+    const journey = buildProspectJourney(prospect('p1', 'closed_lost'), [
+      event('p1', 'not_contacted', 'connection_sent', '2026-03-03T09:00:00.000Z'),
+      event('p1', 'connection_sent', 'closed_lost', '2026-03-09T09:00:00.000Z')
+    ]);
+    assert.equal(journey.furthestStage, 2);
+    assert.equal(journey.closedLost, true);
+  });
+
+  test('uses the earliest of milestone and event times for each stage', () => {
+    const journey = buildProspectJourney(
+      prospect('p1', 'connected', { pipeline: { connectionSentAt: '2026-03-05T09:00:00.000Z' } }),
+      [event('p1', 'visited', 'connection_sent', '2026-03-04T09:00:00.000Z')]
+    );
+    assert.equal(journey.enteredAt.connection_sent, Date.parse('2026-03-04T09:00:00.000Z'));
+    assert.equal(journey.enteredAt.connected, undefined);
+    assert.equal(journey.furthestStage, 3);
+  });
+});
+
+describe('funnels', () => {
+  test('converts between consecutive stages with a median time in stage', () => {
+    const start = Date.parse('2026-03-02T00:00:00.000Z');
+    const funnel = buildFunnel('all', 'All', [
+      { furthestStage: 5, closedLost: false, enteredAt: { message_sent: start, responded: start + 2 * DAY } },
+      { furthestStage: 5, closedLost: false, enteredAt: { message_sent: start, responded: start + 4 * DAY } },
+      { furthestStage: 4, closedLost: true, enteredAt: { message_sent: start } },
+      { furthestStage: 0, closedLost: false, enteredAt: {} }
+    ]);
+
+    const replied = funnel.conversions.find(c => c.from === 'message_sent')!;
+    assert.deepEqual(
+      [replied.to, replied.reachedFrom, replied.reachedTo, replied.rate, replied.medianDaysInStage],
+      ['responded', 3, 2, 66.7, 3]
+    );
+    assert.equal(funnel.reached.not_contacted, 4);
+    assert.equal(funnel.closedLost, 1);
+    assert.equal(funnel.conversions.find(c => c.from === 'responded')!.rate, 0);
+    assert.equal(funnel.conversions.at(-1)!.rate, null);
+    assert.equal(buildFunnel('none', 'None', []).conversions[0].rate, null);
+  });
+});
+
+describe('analytics report', () => {
+  test('breaks the funnel down by every dimension', () => {
+    const batches: ImportBatch[] = [
+      { id: 'b1', source: 'excel', label: 'march.xlsx', prospectCount: 2, createdAt: '2026-03-02T08:00:00.000Z' },
+      { id: 'b2', source: 'url', label: '1 LinkedIn URL', prospectCount: 1, createdAt: '2026-03-10T08:00:00.000Z' }
+    ];
+    const report = buildAnalyticsReport({
+      prospects: [
+        prospect('a', 'responded', { segment: 'agency', icpScore: 80, importBatchId: 'b1', track: 'AGENCY_PARTNER' }),
+        prospect('b', 'message_sent', { segment: 'agency', icpScore: 45, importBatchId: 'b1', track: 'AGENCY_PARTNER' }),
+        prospect('c', 'message_sent', {
+          segment: 'merchant',
+          icpScore: 20,
+          importBatchId: 'b2',
+          track: 'OPERATOR_EXIT',
+          createdAt: '2026-03-11T09:00:00.000Z'
+        }),
+        prospect('d', 'not_contacted', { createdAt: '2026-03-11T09:00:00.000Z' })
+      ],
+      events: [],
+      batches
+    }, new Date('2026-03-12T00:00:00.000Z'));
+
+    assert.equal(report.overall.prospects, 4);
+    assert.equal(report.generatedAt, '2026-03-12T00:00:00.000Z');
+
+    const segments = report.breakdowns.segment;
+    assert.deepEqual(segments.map(s => s.key), ['agency', 'merchant', 'unscored']);
+    assert.equal(segments[0].conversions.find(c => c.from === 'message_sent')!.rate, 50);
+
+    assert.deepEqual(report.breakdowns.track.map(t => [t.key, t.prospects]), [
+      ['AGENCY_PARTNER', 2],
+      ['OPERATOR_EXIT', 1],
+      ['none', 1]
+    ]);
+    assert.deepEqual(report.breakdowns.icp_tier.map(t => t.key), ['high', 'medium', 'low']);
+    assert.deepEqual(report.breakdowns.import_batch.map(b => b.key), ['b2', 'b1', 'none']);
+    assert.deepEqual(report.breakdowns.week.map(w => w.key), ['2026-03-09', '2026-03-02']);
+  });
+
+  test('weeks start on Monday', () => {
+    assert.equal(getWeekStart('2026-03-08T23:00:00.000Z'), '2026-03-02');
+    assert.equal(getWeekStart('2026-03-09T00:00:00.000Z'), '2026-03-09');
+  });
+});
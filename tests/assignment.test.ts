@@ -0,0 +1,133 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  assignNewProspects,
+  matchesAssigneeFilter,
+  planAssignments,
+  resolveAssignmentSettings,
+  validateAssignmentSettings
+} from '@/lib/assignment';
+import type { ProspectImportInput } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { AssignmentSettings } from '@/types';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'assignment-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function prospect(id: string, segment: string, score: number) {
+  return { id, icp_score: score, icp_score_breakdown: { segment } };
+}
+
+function importInput(slug: string, segment: string, score: number): ProspectImportInput {
+  return {
+    firstName: slug,
+    lastName: '',
+    fullName: slug,
+    linkedinUrl: `https://www.linkedin.com/in/${slug}`,
+    icpScore: score,
+    icpScoreBreakdown: { segment }
+  };
+}
+
+describe('assignment settings', () => {
+  test('only accept members of the workspace', () => {
+    const { settings, errors } = validateAssignmentSettings({
+      rules: [{ segment: 'agency', assigneeId: 'stranger' }, { icpTier: 'top', assigneeId: 'dana' }],
+      roundRobin: ['dana', 'dana']
+    }, ['dana', 'sam']);
+
+    assert.equal(settings, undefined);
+    assert.deepEqual(errors, [
+      'rules[0].assigneeId must be a member of the workspace',
+      'rules[1].icpTier must be one of high, medium, low',
+      'roundRobin must not list anyone twice'
+    ]);
+  });
+
+  test('nothing saved assigns nobody', () => {
+    assert.deepEqual(resolveAssignmentSettings(null), { rules: [], roundRobin: [] });
+  });
+});
+
+describe('planning assignments', () => {
+  const settings: AssignmentSettings = {
+    rules: [
+      { segment: 'agency', icpTier: 'high', assigneeId: 'dana' },
+      { segment: 'freelancer', assigneeId: 'lee' }
+    ],
+    roundRobin: ['sam', 'kim']
+  };
+
+  test('the first matching rule wins, the rest take round-robin turns', () => {
+    const plan = planAssignments([
+      prospect('a', 'agency', 85),
+      prospect('b', 'agency', 50),
+      prospect('c', 'freelancer', 20),
+      prospect('d', 'merchant', 75)
+    ], settings, 0);
+
+    assert.deepEqual(plan.map(p => [p.prospectId, p.assigneeId]), [
+      ['a', 'dana'],
+      ['b', 'sam'],
+      ['c', 'lee'],
+      ['d', 'kim']
+    ]);
+  });
+
+  test('turns continue from the cursor', () => {
+    const plan = planAssignments([prospect('a', 'merchant', 10)], settings, 3);
+    assert.equal(plan[0].assigneeId, 'kim');
+  });
+
+  test('without a round-robin unmatched prospects stay unassigned', () => {
+    const plan = planAssignments([prospect('a', 'merchant', 10)], { ...settings, roundRobin: [] }, 0);
+    assert.deepEqual(plan, []);
+  });
+});
+
+describe('assigning imports', () => {
+  test('round-robin carries over between imports and existing assignees are kept', async () => {
+    const storage = createLocalStorage(path.join(dir, 'db.json'));
+    await storage.saveAssignmentSettings(storage.workspaceId, { rules: [], roundRobin: ['sam', 'kim'] });
+
+    const first = await storage.bulkImportProspects([importInput('alex', 'merchant', 50)], new Map());
+    assert.equal(await assignNewProspects(storage, first), 1);
+
+    await storage.bulkAssignProspects([first[0].id as string], 'dana');
+    const second = await storage.bulkImportProspects(
+      [importInput('alex', 'merchant', 50), importInput('jo', 'agency', 30)],
+      new Map()
+    );
+    assert.equal(await assignNewProspects(storage, second), 1);
+
+    const assignees = new Map((await storage.getProspects()).map(p => [p.full_name, p.assignee_id]));
+    assert.deepEqual(Object.fromEntries(assignees), { alex: 'dana', jo: 'kim' });
+  });
+
+  test('saving new settings keeps the round-robin turn', async () => {
+    const storage = createLocalStorage(path.join(dir, 'cursor.json'));
+    await storage.saveAssignmentSettings(storage.workspaceId, { rules: [], roundRobin: ['sam', 'kim'] });
+    assert.equal(await storage.takeRoundRobinTurns(storage.workspaceId, 3), 0);
+
+    await storage.saveAssignmentSettings(storage.workspaceId, { rules: [], roundRobin: ['sam', 'kim', 'lee'] });
+    assert.equal(await storage.takeRoundRobinTurns(storage.workspaceId, 1), 3);
+  });
+});
+
+describe('assignee filter', () => {
+  test('mine, unassigned and a named member', () => {
+    const mine = { assigneeId: 'dana' };
+    const nobodys = { assigneeId: undefined };
+
+    assert.ok(matchesAssigneeFilter(mine, 'mine', 'dana'));
+    assert.ok(!matchesAssigneeFilter(nobodys, 'mine', 'dana'));
+    assert.ok(!matchesAssigneeFilter(mine, 'mine', undefined));
+    assert.ok(matchesAssigneeFilter(nobodys, 'unassigned', 'dana'));
+    assert.ok(matchesAssigneeFilter(mine, 'dana', 'sam'));
+    assert.ok(!matchesAssigneeFilter(mine, 'sam', 'sam'));
+    assert.ok(matchesAssigneeFilter(nobodys, 'all', 'dana'));
+  });
+});
@@ -0,0 +1,157 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { getAuthErrorStatus, type AuthProvider, type RequestIdentity } from '@/lib/auth';
+import { createLocalAuthProvider } from '@/lib/auth/local';
+import { DEFAULT_WORKSPACE_ID } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'auth-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let dbCount = 0;
+
+function freshProvider() {
+  const filePath = path.join(dir, `db-${++dbCount}.json`);
+  return { filePath, auth: createLocalAuthProvider(filePath) };
+}
+
+async function signUp(auth: AuthProvider, name: string, inviteCode?: string): Promise<RequestIdentity> {
+  const tokens = await auth.signUp({ email: `${name.toLowerCase()}@example.com`, password: 'correct horse', name, inviteCode });
+  const session = await auth.getSession(tokens);
+  assert.ok(session);
+  return { userId: session.user.id, workspaceId: session.workspace.id, accessToken: tokens.accessToken };
+}
+
+async function rejectsWithStatus(promise: Promise<unknown>, status: number) {
+  await assert.rejects(promise, error => getAuthErrorStatus(error) === status);
+}
+
+describe('local sign-in', () => {
+  test('the first user takes over the default workspace and later ones start their own', async () => {
+    const { filePath, auth } = freshProvider();
+    // Data from before anyone signed up
+    await createLocalStorage(filePath).upsertProspect({ first_name: 'Dana', full_name: 'Dana Reyes', linkedin_url: 'https://www.linkedin.com/in/dana-reyes' });
+
+    const dana = await signUp(auth, 'Dana');
+    const sam = await signUp(auth, 'Sam');
+
+    assert.equal(dana.workspaceId, DEFAULT_WORKSPACE_ID);
+    assert.notEqual(sam.workspaceId, DEFAULT_WORKSPACE_ID);
+    assert.equal((await auth.getStorage(dana).getProspects()).length, 1);
+    assert.equal((await auth.getStorage(sam).getProspects()).length, 0);
+    assert.deepEqual((await auth.getWorkspaceIds()).sort(), [DEFAULT_WORKSPACE_ID, sam.workspaceId].sort());
+  });
+
+  test('an invite code joins the owner\'s workspace', async () => {
+    const { auth } = freshProvider();
+    const owner = await signUp(auth, 'Dana');
+    const ownerSession = await auth.getSession({ accessToken: owner.accessToken });
+    const inviteCode = ownerSession?.workspace.inviteCode;
+    assert.ok(inviteCode);
+
+    const member = await signUp(auth, 'Sam', inviteCode);
+    const memberSession = await auth.getSession({ accessToken: member.accessToken });
+
+    assert.equal(member.workspaceId, owner.workspaceId);
+    assert.equal(memberSession?.workspace.role, 'member');
+    assert.equal(memberSession?.workspace.inviteCode, undefined, 'only owners see the invite code');
+    assert.deepEqual(
+      (await auth.getMembers(owner)).map(m => [m.name, m.role]),
+      [['Dana', 'owner'], ['Sam', 'member']]
+    );
+  });
+
+  test('joining a second workspace lets the user switch to it', async () => {
+    const { auth } = freshProvider();
+    const dana = await signUp(auth, 'Dana');
+    const sam = await signUp(auth, 'Sam');
+    const inviteCode = (await auth.getSession({ accessToken: sam.accessToken }))?.workspace.inviteCode as string;
+
+    assert.equal(await auth.joinWorkspace(dana, inviteCode), sam.workspaceId);
+
+    const session = await auth.getSession({ accessToken: dana.accessToken }, sam.workspaceId);
+    assert.equal(session?.workspace.id, sam.workspaceId);
+    assert.equal(session?.workspaces.length, 2);
+    // A workspace they aren't in falls back to their first
+    assert.equal((await auth.getSession({ accessToken: dana.accessToken }, 'elsewhere'))?.workspace.id, dana.workspaceId);
+  });
+
+  test('bad credentials, repeat emails and unknown invite codes are refused', async () => {
+    const { auth } = freshProvider();
+    await signUp(auth, 'Dana');
+
+    await rejectsWithStatus(auth.signIn('dana@example.com', 'wrong password'), 401);
+    await rejectsWithStatus(auth.signIn('nobody@example.com', 'correct horse'), 401);
+    await rejectsWithStatus(auth.signUp({ email: 'DANA@example.com', password: 'correct horse', name: 'Dana' }), 409);
+    await rejectsWithStatus(auth.signUp({ email: 'sam@example.com', password: 'short', name: 'Sam' }), 400);
+    await rejectsWithStatus(auth.signUp({ email: 'sam@example.com', password: 'correct horse', name: 'Sam', inviteCode: 'nope' }), 404);
+
+    const tokens = await auth.signIn(' Dana@Example.com ', 'correct horse');
+    assert.ok(await auth.getSession(tokens));
+  });
+
+  test('signing out ends the session and nothing secret is stored', async () => {
+    const { filePath, auth } = freshProvider();
+    const dana = await signUp(auth, 'Dana');
+
+    const stored = readFileSync(filePath, 'utf-8');
+    assert.ok(!stored.includes('correct horse'));
+    assert.ok(!stored.includes(dana.accessToken));
+
+    await auth.signOut({ accessToken: dana.accessToken });
+    assert.equal(await auth.getSession({ accessToken: dana.accessToken }), null);
+    assert.equal(await auth.getSession({ accessToken: 'made-up' }), null);
+  });
+});
+
+describe('workspace storage', () => {
+  test('each workspace only sees its own rows, even for the same profile', async () => {
+    const { auth } = freshProvider();
+    const dana = auth.getStorage(await signUp(auth, 'Dana'));
+    const sam = auth.getStorage(await signUp(auth, 'Sam'));
+    const url = 'https://www.linkedin.com/in/alex-kim';
+
+    const [ours] = await dana.bulkImportProspects(
+      [{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: url, companyName: 'Acme' }],
+      new Map([[url, { status: 'connected' }]])
+    );
+    const [theirs] = await sam.bulkImportProspects(
+      [{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: url, companyName: 'Globex' }],
+      new Map()
+    );
+
+    assert.notEqual(ours.id, theirs.id);
+    assert.equal(await sam.getProspectById(ours.id as string), null);
+    assert.equal((await dana.findProspectByLinkedInUrl(url))?.company_name, 'Acme');
+
+    await sam.bulkDeleteProspects([ours.id as string]);
+    assert.ok(await dana.getProspectById(ours.id as string), 'another workspace cannot delete it');
+    assert.deepEqual((await dana.getPipelineEvents()).map(e => e.prospect_id), [ours.id]);
+    assert.deepEqual((await sam.getPipelineEvents()).map(e => e.prospect_id), [theirs.id]);
+  });
+
+  test('rows record who added them and pipeline events who made the change', async () => {
+    const { filePath, auth } = freshProvider();
+    const owner = await signUp(auth, 'Dana');
+    const inviteCode = (await auth.getSession({ accessToken: owner.accessToken }))?.workspace.inviteCode as string;
+    const member = await signUp(auth, 'Sam', inviteCode);
+
+    const [prospect] = await auth.getStorage(owner).bulkImportProspects(
+      [{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: 'https://www.linkedin.com/in/alex-kim' }],
+      new Map()
+    );
+    await auth.getStorage(member).updatePipelineStatus(prospect.id as string, { status: 'visited' }, { source: 'manual' });
+    await auth.getWorkerStorage(owner.workspaceId)
+      .updatePipelineStatus(prospect.id as string, { status: 'connection_sent' }, { source: 'sequence' });
+
+    assert.equal(prospect.owner_id, owner.userId);
+    const events = await createLocalStorage(filePath, { workspaceId: owner.workspaceId }).getPipelineEvents(prospect.id as string);
+    assert.deepEqual(
+      events.map(e => [e.to_status, e.actor_id]).sort(),
+      [['connection_sent', null], ['not_contacted', owner.userId], ['visited', member.userId]]
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  compareClassificationEvals,
+  getClassificationPromptVersion,
+  loadEvalDataset,
+  runClassificationEval,
+  scoreClassificationResults,
+  seedEvalCases
+} from '@/lib/classification-eval';
+import { createMockProvider, createRecordingProvider, createReplayProvider, type LLMRecordings } from '@/lib/llm';
+import { RESPONSE_CLASSIFICATIONS } from '@/lib/response-generator';
+import type {
+  ClassificationEvalCase,
+  ClassificationEvalResult,
+  ConversationMessage,
+  ResponseClassification,
+  ResponseInteraction
+} from '@/types';
+
+const NOW = new Date('2026-03-10T09:00:00.000Z');
+
+function evalCase(id: string, reply: string, expected: ResponseClassification): ClassificationEvalCase {
+  return { id, reply, expected, source: 'seed' };
+}
+
+function result(caseId: string, expected: ResponseClassification, predicted: ResponseClassification | null): ClassificationEvalResult {
+  return { caseId, expected, predicted };
+}
+
+function interaction(id: string, reply: string, overrides: Partial<ResponseInteraction> = {}): ResponseInteraction {
+  return {
+    id,
+    prospectId: 'p1',
+    prospectResponse: reply,
+    classification: 'not_interested',
+    classificationOverridden: true,
+    originalClassification: 'hard_no',
+    generatedResponses: [],
+    createdAt: '2026-03-04T09:00:00.000Z',
+    updatedAt: '2026-03-04T09:00:00.000Z',
+    ...overrides
+  };
+}
+
+const cases = [
+  evalCase('route', 'We use Route', 'has_competitor'),
+  evalCase('stop', 'Stop messaging me', 'hard_no'),
+  evalCase('maybe', 'Maybe later', 'not_interested')
+];
+
+describe('scoring', () => {
+  test('accuracy, precision/recall per classification and the confusion matrix', () => {
+    const score = scoreClassificationResults([
+      result('a', 'curious', 'curious'),
+      result('b', 'curious', 'non_committal'),
+      result('c', 'non_committal', 'non_committal'),
+      result('d', 'hard_no', null)
+    ]);
+
+    assert.equal(score.accuracy, 50);
+    assert.deepEqual(score.perClass.curious, { support: 2, predicted: 1, correct: 1, precision: 100, recall: 50 });
+    assert.deepEqual(score.perClass.non_committal, { support: 1, predicted: 2, correct: 1, precision: 50, recall: 100 });
+    assert.equal(score.perClass.hot_lead.recall, null);
+    assert.deepEqual(score.confusion.curious, { curious: 1, non_committal: 1 });
+    assert.deepEqual(score.confusion.hard_no, { error: 1 });
+    assert.deepEqual(Object.keys(score.confusion), RESPONSE_CLASSIFICATIONS);
+  });
+});
+
+describe('running an eval', () => {
+  test('classifies each case and records failures as errors', async () => {
+    const provider = createMockProvider({
+      classification: [
+        JSON.stringify({ classification: 'has_competitor', confidence: 90, reasoning: '' }),
+        JSON.stringify({ classification: 'angry', confidence: 90, reasoning: '' }),
+        'not json'
+      ]
+    });
+    const report = await runClassificationEval(cases, provider, { label: 'scripted', now: NOW });
+
+    assert.equal(report.accuracy, 33.3);
+    assert.equal(report.promptVersion, getClassificationPromptVersion());
+    assert.equal(report.runAt, NOW.toISOString());
+    assert.deepEqual(report.results.map(r => r.predicted), ['has_competitor', null, null]);
+    assert.match(report.results[1].error!, /Unknown classification "angry"/);
+    assert.equal(provider.calls.every(c => c.task === 'classification'), true);
+  });
+
+  test('sends the thread and a replacement guide to the classifier', async () => {
+    const provider = createMockProvider();
+    await runClassificationEval([{
+      ...evalCase('thread', 'Sure, Thursday works', 'hot_lead'),
+      prospectName: 'Dana Reyes',
+      thread: [{ direction: 'outbound', content: 'Thursday or Friday?', sentAt: '2026-03-03T10:00:00.000Z' }]
+    }], provider, { label: 'guide', guide: '## RESPONSE CLASSIFICATIONS\nA shorter guide' });
+
+    const prompt = provider.calls[0].messages.at(-1)!.content;
+    assert.match(prompt, /A shorter guide/);
+    assert.match(prompt, /\[2026-03-03\] Isaac: "Thursday or Friday\?"/);
+  });
+
+  test('replays a recorded run offline and refuses prompts it has not seen', async () => {
+    const recordings: LLMRecordings = {};
+    const recorded = await runClassificationEval(cases, createRecordingProvider(createMockProvider(), recordings), {
+      label: 'recorded',
+      now: NOW
+    });
+    assert.equal(Object.keys(recordings).length, cases.length);
+
+    const replayed = await runClassificationEval(cases, createReplayProvider(recordings), { label: 'recorded', now: NOW });
+    assert.deepEqual(replayed.results, recorded.results);
+
+    const changedGuide = await runClassificationEval(cases, createReplayProvider(recordings), {
+      label: 'new-guide',
+      guide: 'A different guide'
+    });
+    assert.equal(changedGuide.results.every(r => r.predicted === null && /No recorded reply/.test(r.error!)), true);
+  });
+});
+
+describe('comparing runs', () => {
+  test('reports accuracy and recall deltas and the cases that changed', async () => {
+    const baseline = await runClassificationEval(cases, createMockProvider(), { label: 'baseline' });
+    const candidate = await runClassificationEval(cases, createMockProvider({
+      classification: [
+        JSON.stringify({ classification: 'has_competitor', confidence: 90, reasoning: '' }),
+        JSON.stringify({ classification: 'not_interested', confidence: 90, reasoning: '' }),
+        JSON.stringify({ classification: 'not_interested', confidence: 90, reasoning: '' })
+      ]
+    }), { label: 'candidate' });
+
+    const comparison = compareClassificationEvals(baseline, candidate);
+    assert.equal(comparison.accuracyDelta, 0);
+    assert.deepEqual(comparison.fixed, ['maybe']);
+    assert.deepEqual(comparison.regressed, ['stop']);
+    assert.deepEqual(comparison.recallDelta, { not_interested: 100, hard_no: -100 });
+  });
+});
+
+describe('seeding the dataset', () => {
+  test('adds overridden replies once, with the turns before them', () => {
+    const thread: ConversationMessage[] = [
+      { id: 't1', prospectId: 'p1', direction: 'outbound', content: 'Worth a look?', source: 'outreach', sentAt: '2026-03-03T09:00:00.000Z', createdAt: '2026-03-03T09:00:00.000Z' },
+      { id: 't2', prospectId: 'p1', direction: 'inbound', content: 'No thanks', source: 'response', sentAt: '2026-03-04T09:00:00.000Z', createdAt: '2026-03-04T09:00:00.000Z' }
+    ];
+    const { cases: seeded, added } = seedEvalCases(
+      [evalCase('existing', 'We use Route', 'has_competitor')],
+      [
+        interaction('i1', 'No thanks'),
+        interaction('i2', 'How does it work?', { classificationOverridden: false }),
+        interaction('i3', ' we use  route ')
+      ],
+      new Map([['p1', thread]]),
+      new Map([['p1', 'Dana Reyes']])
+    );
+
+    assert.deepEqual(added, [{
+      id: 'interaction-i1',
+      reply: 'No thanks',
+      expected: 'not_interested',
+      source: 'override',
+      prospectName: 'Dana Reyes',
+      thread: [{ direction: 'outbound', content: 'Worth a look?', sentAt: '2026-03-03T09:00:00.000Z', classification: undefined }],
+      note: 'Classifier said hard_no'
+    }]);
+    assert.equal(seeded.length, 2);
+    assert.equal(seedEvalCases(seeded, [interaction('i1', 'No thanks')]).added.length, 0);
+  });
+
+  test('the bundled dataset covers every classification with unique ids', () => {
+    const dataset = loadEvalDataset();
+    assert.equal(new Set(dataset.map(c => c.id)).size, dataset.length);
+    for (const classification of RESPONSE_CLASSIFICATIONS) {
+      assert.ok(dataset.some(c => c.expected === classification), `no case labeled ${classification}`);
+    }
+    assert.equal(dataset.every(c => RESPONSE_CLASSIFICATIONS.includes(c.expected)), true);
+  });
+});
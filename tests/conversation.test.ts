@@ -0,0 +1,92 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findLoggedReply, formatThreadForPrompt, getThreadContext, sortThread } from '@/lib/conversation';
+import { generateResponse } from '@/lib/response-generator';
+import { createMockProvider } from '@/lib/llm';
+import type { ConversationMessage, Prospect } from '@/types';
+
+function turn(
+  id: string,
+  direction: ConversationMessage['direction'],
+  content: string,
+  day: number,
+  overrides: Partial<ConversationMessage> = {}
+): ConversationMessage {
+  const sentAt = `2026-03-${String(day).padStart(2, '0')}T09:00:00.000Z`;
+  return {
+    id,
+    prospectId: 'p1',
+    direction,
+    content,
+    source: direction === 'inbound' ? 'response' : 'outreach',
+    sentAt,
+    createdAt: sentAt,
+    ...overrides
+  };
+}
+
+const thread = [
+  turn('reply-1', 'inbound', 'How does that work?', 3, { classification: 'curious' }),
+  turn('dm', 'outbound', 'Thanks for connecting Dana.', 1),
+  turn('answer-1', 'outbound', 'We insure each package.', 4, { source: 'response' })
+];
+
+const prospect: Partial<Prospect> = {
+  id: 'p1',
+  firstName: 'Dana',
+  fullName: 'Dana Reyes',
+  companyName: 'Trailhead Goods',
+  icpScore: 60
+};
+
+describe('conversation threads', () => {
+  test('orders turns by when they were sent', () => {
+    assert.deepEqual(sortThread(thread).map(t => t.id), ['dm', 'reply-1', 'answer-1']);
+  });
+
+  test('finds a reply that was already logged, with the response chosen for it', () => {
+    const logged = findLoggedReply(thread, ' How does that work? ');
+    assert.equal(logged.inbound?.id, 'reply-1');
+    assert.equal(logged.response?.id, 'answer-1');
+
+    // Only the latest reply is updated in place; anything else is a new turn
+    const later = [...thread, turn('reply-2', 'inbound', 'Sounds good', 5)];
+    assert.deepEqual(findLoggedReply(later, 'How does that work?'), {});
+  });
+
+  test('context for a reply leaves out the reply itself', () => {
+    assert.deepEqual(getThreadContext(thread, 'How does that work?').map(t => t.id), ['dm']);
+    assert.deepEqual(getThreadContext(thread, 'What does it cost?').map(t => t.id), ['dm', 'reply-1', 'answer-1']);
+  });
+
+  test('formats a transcript with each reply classification', () => {
+    assert.equal(
+      formatThreadForPrompt(thread, 'Dana'),
+      [
+        '[2026-03-01] Isaac: "Thanks for connecting Dana."',
+        '[2026-03-03] Dana (classified: curious): "How does that work?"',
+        '[2026-03-04] Isaac: "We insure each package."'
+      ].join('\n')
+    );
+  });
+});
+
+describe('generating a response with a thread', () => {
+  test('classifies and drafts with the earlier conversation as context', async () => {
+    const provider = createMockProvider();
+    const result = await generateResponse(prospect, 'We use Route right now.', provider, sortThread(thread));
+
+    assert.equal(result.classification, 'has_competitor');
+    for (const call of provider.calls) {
+      const prompt = call.messages.at(-1)!.content;
+      assert.match(prompt, /## CONVERSATION SO FAR/);
+      assert.match(prompt, /Dana \(classified: curious\): "How does that work\?"/);
+    }
+  });
+
+  test('leaves the thread out for a first reply', async () => {
+    const provider = createMockProvider();
+    await generateResponse(prospect, 'How does that work?', provider);
+    assert.doesNotMatch(provider.calls[0].messages.at(-1)!.content, /CONVERSATION SO FAR/);
+  });
+});
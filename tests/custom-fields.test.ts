@@ -0,0 +1,140 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import * as XLSX from 'xlsx';
+import {
+  applyColumnMappings,
+  coerceCustomFieldValue,
+  matchesCustomFieldFilter,
+  normalizeTags,
+  parseTagList,
+  suggestColumnMappings,
+  validateCustomFieldChanges,
+  validateCustomFieldDefinition
+} from '@/lib/custom-fields';
+import { readExtraColumns } from '@/lib/import';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { CustomFieldDefinition, Prospect } from '@/types';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'custom-fields-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function field(id: string, type: CustomFieldDefinition['type'], options: string[] = []): CustomFieldDefinition {
+  return { id, label: id.replace(/_/g, ' '), type, options, createdAt: '2026-10-01T00:00:00.000Z' };
+}
+
+const dealSize = field('deal_size', 'number');
+const renewal = field('renewal', 'date');
+const plan = field('plan', 'select', ['Starter', 'Pro']);
+const FIELDS = [dealSize, renewal, plan, field('source', 'text')];
+
+describe('tags', () => {
+  test('are trimmed and deduplicated case-insensitively, keeping the first spelling', () => {
+    assert.deepEqual(normalizeTags([' VIP ', 'vip', '', 'warm  lead', 42]), ['VIP', 'warm lead']);
+    assert.deepEqual(parseTagList('VIP; conference | warm lead,'), ['VIP', 'conference', 'warm lead']);
+  });
+});
+
+describe('custom field values', () => {
+  test('are coerced to the field type', () => {
+    assert.deepEqual(coerceCustomFieldValue(dealSize, '12,500'), { ok: true, value: 12500 });
+    assert.deepEqual(coerceCustomFieldValue(renewal, 46023), { ok: true, value: '2026-01-01' });
+    assert.deepEqual(coerceCustomFieldValue(renewal, '2026-02-30'), { ok: false, error: 'renewal must be a date' });
+    assert.deepEqual(coerceCustomFieldValue(plan, 'pro'), { ok: true, value: 'Pro' });
+    assert.deepEqual(coerceCustomFieldValue(plan, ' '), { ok: true, value: null });
+  });
+
+  test('changes name unknown fields and values that do not fit', () => {
+    assert.deepEqual(validateCustomFieldChanges({ deal_size: 'lots', nope: 1 }, FIELDS).errors, [
+      'deal size must be a number',
+      'Unknown custom field: nope'
+    ]);
+    assert.deepEqual(validateCustomFieldChanges({ plan: 'Starter', renewal: '' }, FIELDS).changes, {
+      plan: 'Starter',
+      renewal: null
+    });
+  });
+
+  test('a select field needs options', () => {
+    assert.deepEqual(validateCustomFieldDefinition({ label: 'Plan', type: 'select', options: [] }).errors, [
+      'a select field needs at least one option'
+    ]);
+  });
+});
+
+describe('custom field filter', () => {
+  test('numbers and dates filter by range, selects by option', () => {
+    const prospect = { customFields: { deal_size: 5000, renewal: '2026-03-01', plan: 'Pro' } };
+
+    assert.ok(matchesCustomFieldFilter(prospect, { fieldId: 'deal_size', min: '1000', max: '5000' }, FIELDS));
+    assert.ok(!matchesCustomFieldFilter(prospect, { fieldId: 'deal_size', min: '6000' }, FIELDS));
+    assert.ok(matchesCustomFieldFilter(prospect, { fieldId: 'renewal', max: '2026-03-31' }, FIELDS));
+    assert.ok(!matchesCustomFieldFilter(prospect, { fieldId: 'plan', value: 'Starter' }, FIELDS));
+    assert.ok(!matchesCustomFieldFilter({ customFields: {} }, { fieldId: 'deal_size', min: '1' }, FIELDS));
+  });
+});
+
+describe('import column mapping', () => {
+  test('unread sheet columns are offered and mapped to tags and fields', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+      { fullName: 'Alex Kim', linkedinUrl: 'https://linkedin.com/in/Alex-Kim/', 'experiences/0/title': 'CEO', Tags: 'VIP, webinar', 'Deal Size': 'n/a' },
+      { fullName: 'Jo Park', linkedinUrl: 'https://www.linkedin.com/in/jo-park', Tags: '', 'Deal Size': '2,000' }
+    ]), 'Scraped');
+
+    const { extraColumns, columnValues } = readExtraColumns(workbook);
+    assert.deepEqual(extraColumns, ['Tags', 'Deal Size']);
+
+    const fields = [{ ...dealSize, label: 'Deal Size' }];
+    const mappings = suggestColumnMappings(extraColumns, fields);
+    assert.deepEqual(mappings, { Tags: 'tags', 'Deal Size': 'deal_size' });
+
+    const parsed: Partial<Prospect>[] = [
+      { linkedinUrl: 'https://www.linkedin.com/in/alex-kim' },
+      { linkedinUrl: 'https://www.linkedin.com/in/jo-park' }
+    ];
+    const { prospects, invalidCells } = applyColumnMappings(
+      parsed,
+      columnValues,
+      mappings,
+      fields
+    );
+    assert.equal(invalidCells, 1);
+    assert.deepEqual(prospects.map(p => [p.tags, p.customFields]), [
+      [['VIP', 'webinar'], {}],
+      [[], { deal_size: 2000 }]
+    ]);
+  });
+});
+
+describe('storage', () => {
+  test('bulk edits and re-imports add to what a prospect already has', async () => {
+    const storage = createLocalStorage(path.join(dir, 'db.json'));
+    const { id: planId } = await storage.createCustomField({ label: 'Plan', type: 'select', options: ['Starter', 'Pro'] }) as { id: string };
+    const url = 'https://www.linkedin.com/in/alex-kim';
+
+    const [alex] = await storage.bulkImportProspects(
+      [{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: url, tags: ['webinar'] }],
+      new Map()
+    );
+    await storage.bulkUpdateTags([alex.id as string], ['VIP', 'Webinar'], []);
+    await storage.bulkSetCustomFields([alex.id as string], { [planId]: 'Pro' });
+
+    // A later import without tags or fields leaves them alone; one with tags adds to them
+    await storage.bulkImportProspects([{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: url }], new Map());
+    await storage.bulkImportProspects(
+      [{ firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: url, tags: ['conference'] }],
+      new Map()
+    );
+    await storage.bulkUpdateTags([alex.id as string], [], ['vip']);
+
+    const stored = await storage.getProspectById(alex.id as string);
+    assert.deepEqual(stored?.tags, ['webinar', 'conference']);
+    assert.deepEqual(stored?.custom_fields, { [planId]: 'Pro' });
+
+    await storage.bulkSetCustomFields([alex.id as string], { [planId]: null });
+    assert.deepEqual((await storage.getProspectById(alex.id as string))?.custom_fields, {});
+  });
+});
@@ -0,0 +1,122 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildActionQueue } from '@/lib/action-queue';
+import { generateComments, generateMessagesWithSkill } from '@/lib/claude';
+import { buildHardNoReason, getDoNotContactMessage, isBlockedStatus } from '@/lib/do-not-contact';
+import { createMockProvider } from '@/lib/llm';
+import { buildSequenceQueue } from '@/lib/sequences';
+import { transformDbToApp } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { ProspectWithPipeline } from '@/types';
+import { buildProspect, daysAgo, icpBreakdown, NOW } from './prospects';
+
+function prospect(id: string, doNotContact = false): ProspectWithPipeline {
+  return buildProspect(id, {
+    companyName: 'Trailhead Goods',
+    icpScore: 80,
+    icpScoreBreakdown: icpBreakdown('merchant', 80),
+    doNotContact,
+    doNotContactReason: doNotContact ? 'Replied hard no: "Not interested"' : undefined
+  }, 'connected', { connectionAcceptedAt: daysAgo(8) });
+}
+
+describe('do not contact', () => {
+  test('builds a reason from the hard_no reply', () => {
+    assert.equal(buildHardNoReason('  Not interested,\n please stop.  '), 'Replied hard no: "Not interested, please stop."');
+    assert.equal(buildHardNoReason(''), 'Replied hard no');
+    assert.equal(buildHardNoReason('x'.repeat(200)).length, 'Replied hard no: ""'.length + 120);
+  });
+
+  test('blocks only the statuses that mean reaching out', () => {
+    assert.equal(isBlockedStatus('message_sent'), true);
+    assert.equal(isBlockedStatus('connection_sent'), true);
+    assert.equal(isBlockedStatus('closed_lost'), false);
+    assert.equal(isBlockedStatus('responded'), false);
+  });
+
+  test('message generation skips a flagged prospect without calling the model', async () => {
+    const provider = createMockProvider();
+    const result = await generateMessagesWithSkill(prospect('dana', true), provider);
+
+    assert.deepEqual(result, {
+      skipped: true,
+      skip_reason: 'dana is marked do not contact: Replied hard no: "Not interested"'
+    });
+    assert.equal(provider.calls.length, 0);
+  });
+
+  test('comment generation refuses a flagged prospect', async () => {
+    const provider = createMockProvider();
+    await assert.rejects(
+      generateComments(prospect('dana', true), 'Spring collection is live', provider),
+      { message: getDoNotContactMessage(prospect('dana', true)) }
+    );
+    assert.equal(provider.calls.length, 0);
+  });
+
+  test('flagged prospects are left out of the sequence and action queues', () => {
+    const prospects = [prospect('open'), prospect('flagged', true)];
+
+    const { due } = buildSequenceQueue(prospects, [], { now: NOW });
+    assert.deepEqual(due.map(d => d.prospectId), ['open']);
+
+    const queue = buildActionQueue({
+      prospects,
+      sequenceProgress: [],
+      activePosts: [],
+      lastAnsweredAt: new Map(),
+      postMaxAgeDays: 7,
+      now: NOW
+    });
+    const queued = queue.sections.flatMap(s => s.items.map(i => i.prospectId));
+    assert.equal(queued.includes('flagged'), false);
+    assert.equal(queued.includes('open'), true);
+  });
+});
+
+describe('do not contact in storage', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'dnc-'));
+  const storage = createLocalStorage(path.join(dir, 'db.json'));
+  const linkedinUrl = 'https://www.linkedin.com/in/dana-reyes';
+  const importRow = { firstName: 'Dana', lastName: 'Reyes', fullName: 'Dana Reyes', linkedinUrl, companyName: 'Trailhead Goods' };
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('flagging takes the prospect off the watch list and re-importing keeps the flag', async () => {
+    const [imported] = await storage.bulkImportProspects([importRow], new Map());
+    const id = imported.id as string;
+    await storage.addWatchedProfile(id);
+
+    await storage.setDoNotContact(id, 'Replied hard no: "Stop"');
+    assert.deepEqual(await storage.getWatchedProfiles(), []);
+    await assert.rejects(storage.addWatchedProfile(id), /marked do not contact/);
+
+    await storage.bulkImportProspects([{ ...importRow, companyName: 'Trailhead Goods Co' }], new Map());
+    const [reimported] = transformDbToApp(await storage.getProspects());
+    assert.equal(reimported.id, id);
+    assert.equal(reimported.companyName, 'Trailhead Goods Co');
+    assert.equal(reimported.doNotContact, true);
+    assert.equal(reimported.doNotContactReason, 'Replied hard no: "Stop"');
+
+    await storage.setDoNotContact(id, null);
+    const [cleared] = transformDbToApp(await storage.getProspects());
+    assert.equal(cleared.doNotContact, false);
+    assert.equal(cleared.doNotContactAt, undefined);
+  });
+
+  test('getDoNotContactIds returns only the flagged prospects among those asked for', async () => {
+    const [a, b, c] = await storage.bulkImportProspects(['ada-lin', 'bea-moss', 'cal-ortiz'].map(slug => ({
+      ...importRow,
+      fullName: slug,
+      linkedinUrl: `https://www.linkedin.com/in/${slug}`
+    })), new Map());
+    await storage.setDoNotContact(a.id as string, 'Replied hard no');
+    await storage.setDoNotContact(c.id as string, 'Replied hard no');
+
+    assert.deepEqual(await storage.getDoNotContactIds([a.id as string, b.id as string]), [a.id]);
+    assert.deepEqual(await storage.getDoNotContactIds([]), []);
+  });
+});
@@ -0,0 +1,194 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  findDuplicateGroups,
+  getProfilePictureKey,
+  mostAdvancedStatus,
+  normalizeCompanyName,
+  normalizePersonName
+} from '@/lib/duplicates';
+import { transformDbToApp } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { PipelineStatus, ProspectWithPipeline } from '@/types';
+import { buildProspect } from './prospects';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'duplicates-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let prospectCount = 0;
+
+function prospect(fullName: string, extra: Partial<ProspectWithPipeline> = {}, status?: PipelineStatus): ProspectWithPipeline {
+  const id = `p${++prospectCount}`;
+  const [firstName, ...rest] = fullName.split(' ');
+  return buildProspect(id, {
+    firstName,
+    lastName: rest.join(' '),
+    fullName,
+    icpScore: 0,
+    createdAt: `2026-01-0${prospectCount % 9 + 1}T00:00:00.000Z`,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...extra
+  }, status);
+}
+
+const PHOTO = 'https://media.licdn.com/dms/image/v2/D4E03AQFx1a2b3c4d5/profile-displayphoto-shrink_800_800/0/1700000000000';
+
+describe('matching', () => {
+  test('names, companies and photos are compared loosely', () => {
+    assert.equal(normalizePersonName('  José Núñez, MBA '), 'jose nunez');
+    assert.equal(normalizeCompanyName('Trailhead Goods, Inc.'), 'trailhead goods');
+    assert.equal(normalizeCompanyName('Globex Corp. Ltd'), 'globex');
+    assert.equal(normalizeCompanyName('Inc.'), 'inc');
+    assert.equal(
+      getProfilePictureKey(`${PHOTO}?e=1760000000&v=beta&t=abc`),
+      getProfilePictureKey(PHOTO.replace('shrink_800_800', 'shrink_100_100'))
+    );
+    assert.equal(getProfilePictureKey('https://static.licdn.com/aero-v1/sc/h/ghost-person.svg'), '');
+  });
+
+  test('closed outranks open stages and won outranks lost', () => {
+    assert.equal(mostAdvancedStatus(['connected', 'responded', undefined]), 'responded');
+    assert.equal(mostAdvancedStatus(['call_booked', 'closed_lost']), 'closed_lost');
+    assert.equal(mostAdvancedStatus(['closed_lost', 'closed_won']), 'closed_won');
+    assert.equal(mostAdvancedStatus([]), 'not_contacted');
+  });
+
+  test('finds each kind of duplicate and groups them transitively', () => {
+    const byUrl = prospect('Dana Reyes', { linkedinUrl: 'https://www.linkedin.com/in/dana-reyes' }, 'connected');
+    const byAlias = prospect('Dana Reyes', {
+      linkedinAliases: ['https://www.linkedin.com/in/dana-reyes'],
+      companyName: 'Northwind'
+    }, 'message_sent');
+    // Changed jobs since: the old company is in the career history
+    const byCompany = prospect('Dana Reyes, MBA', {
+      companyName: 'Acme',
+      careerHistory: [{ companyName: 'Northwind Inc.', title: 'COO' }]
+    });
+    const byPhoto = prospect('Sam Ortiz', { profilePicUrl: `${PHOTO}?t=1` });
+    const samAgain = prospect('sam ortiz', { profilePicUrl: PHOTO });
+    const otherSam = prospect('Sam Ortiz', { companyName: 'Elsewhere' });
+    const unrelated = prospect('Priya Raman', { companyName: 'Northwind', profilePicUrl: PHOTO });
+
+    const groups = findDuplicateGroups([byUrl, byAlias, byCompany, byPhoto, samAgain, otherSam, unrelated]);
+
+    assert.equal(groups.length, 2);
+    assert.deepEqual(groups[0].prospects.map(p => p.id).sort(), [byUrl.id, byAlias.id, byCompany.id].sort());
+    assert.equal(groups[0].keepId, byAlias.id, 'the furthest along is kept');
+    assert.equal(groups[0].prospects[0].id, byAlias.id);
+    assert.deepEqual(groups[0].reasons, ['linkedin_url', 'name_company']);
+    assert.deepEqual(groups[1].prospects.map(p => p.id).sort(), [byPhoto.id, samAgain.id].sort());
+    assert.deepEqual(groups[1].reasons, ['name_photo']);
+  });
+
+  test('the same name alone is not a duplicate', () => {
+    assert.deepEqual(findDuplicateGroups([
+      prospect('Alex Kim', { companyName: 'Acme' }),
+      prospect('Alex Kim', { companyName: 'Globex' })
+    ]), []);
+  });
+});
+
+describe('merging in storage', () => {
+  test('moves everything to the kept prospect and keeps the furthest status', async () => {
+    const storage = createLocalStorage(path.join(dir, 'merge.json'));
+    const [keep, dupe] = await storage.bulkImportProspects([
+      {
+        firstName: 'Dana', lastName: 'Reyes', fullName: 'Dana Reyes',
+        linkedinUrl: 'https://www.linkedin.com/in/dana-reyes',
+        companyName: 'Northwind',
+        careerHistory: [{ companyName: 'Northwind', title: 'COO' }],
+        recentPosts: [{ content: 'New role', date: '2026-02-01', url: 'https://www.linkedin.com/posts/2' }]
+      },
+      {
+        firstName: 'Dana', lastName: 'Reyes', fullName: 'Dana Reyes',
+        linkedinUrl: 'https://www.linkedin.com/in/dana-reyes-1a2b',
+        headline: 'Operator',
+        careerHistory: [{ companyName: 'Northwind', title: 'COO' }, { companyName: 'Dana R. Consulting', title: 'Owner' }],
+        recentPosts: [{ content: 'Old news', date: '2025-12-01', url: 'https://www.linkedin.com/posts/1' }]
+      }
+    ], new Map([
+      ['https://www.linkedin.com/in/dana-reyes', { status: 'connected', notes: 'Met at expo' }],
+      ['https://www.linkedin.com/in/dana-reyes-1a2b', { status: 'responded', notes: 'Replied to DM' }]
+    ]));
+    const keepId = keep.id as string;
+    const dupeId = dupe.id as string;
+
+    await storage.saveGeneratedMessage(keepId, 'opening_dm', 'Hi Dana');
+    const sent = await storage.saveGeneratedMessage(dupeId, 'opening_dm', 'Hey Dana');
+    await storage.markGeneratedMessageSent(sent.id as string);
+    await storage.saveEngagementPost({
+      prospectId: dupeId, postUrl: 'https://www.linkedin.com/posts/1', postContent: 'Old news',
+      postedAt: '2025-12-01T00:00:00.000Z', authorName: 'Dana Reyes'
+    });
+    await storage.addConversationMessage({ prospect_id: dupeId, direction: 'inbound', content: 'Sounds good', source: 'manual' });
+    await storage.logResponseInteraction({ prospect_id: dupeId, prospect_response: 'Sounds good', classification: 'interested' });
+    await storage.recordSequenceStep(keepId, 'visit', 'completed');
+    await storage.recordSequenceStep(dupeId, 'visit', 'skipped');
+    await storage.recordSequenceStep(dupeId, 'connect', 'completed');
+    await storage.addWatchedProfile(dupeId);
+
+    const merged = await storage.mergeProspects(keepId, [dupeId]);
+    const [app] = transformDbToApp([merged]);
+
+    assert.equal(await storage.getProspectById(dupeId), null);
+    assert.equal((await storage.getProspects()).length, 1);
+
+    assert.equal(app.pipeline?.status, 'responded');
+    assert.equal(app.pipeline?.notes, 'Replied to DM\n\nMet at expo');
+    assert.ok(app.pipeline?.connectionAcceptedAt && app.pipeline?.responseReceivedAt);
+    assert.deepEqual(app.linkedinAliases, ['https://www.linkedin.com/in/dana-reyes-1a2b']);
+    assert.equal(app.headline, 'Operator');
+    assert.equal(app.companyName, 'Northwind');
+    assert.deepEqual(app.careerHistory.map(job => job.title), ['COO', 'Owner']);
+    assert.deepEqual(app.recentPosts.map(post => post.content), ['New role', 'Old news']);
+
+    // Versions renumbered across both prospects; the sent one stays sent
+    assert.deepEqual(
+      app.messages?.map(m => [m.content, m.version, m.used]).sort(),
+      [['Hey Dana', 2, true], ['Hi Dana', 1, false]]
+    );
+
+    const events = await storage.getPipelineEvents(keepId);
+    assert.equal(events[0].source, 'merge');
+    assert.deepEqual([events[0].from_status, events[0].to_status], ['connected', 'responded']);
+    assert.equal(events.length, 3, 'both imports plus the merge');
+
+    assert.deepEqual((await storage.getEngagementPosts()).map(p => p.prospect_id), [keepId]);
+    assert.equal((await storage.getConversation(keepId)).length, 1);
+    assert.equal((await storage.getResponseInteractions({ prospectId: keepId })).length, 1);
+    assert.deepEqual(
+      (await storage.getSequenceProgress()).map(r => [r.prospect_id, r.step_id, r.outcome]).sort(),
+      [[keepId, 'connect', 'completed'], [keepId, 'visit', 'completed']]
+    );
+    assert.deepEqual((await storage.getWatchedProfiles()).map(w => w.prospect_id), [keepId]);
+  });
+
+  test('do not contact on a merged prospect carries over and unwatches', async () => {
+    const storage = createLocalStorage(path.join(dir, 'dnc.json'));
+    const [keep, dupe] = await storage.bulkImportProspects([
+      { firstName: 'Sam', lastName: 'Ortiz', fullName: 'Sam Ortiz', linkedinUrl: 'https://www.linkedin.com/in/sam-ortiz' },
+      { firstName: 'Sam', lastName: 'Ortiz', fullName: 'Sam Ortiz', linkedinUrl: 'https://www.linkedin.com/in/sam-ortiz-2' }
+    ], new Map());
+    await storage.addWatchedProfile(keep.id as string);
+    await storage.setDoNotContact(dupe.id as string, 'Asked not to be contacted');
+
+    const merged = await storage.mergeProspects(keep.id as string, [dupe.id as string]);
+
+    assert.equal(merged.do_not_contact, true);
+    assert.equal(merged.do_not_contact_reason, 'Asked not to be contacted');
+    assert.deepEqual(await storage.getWatchedProfiles(), []);
+  });
+
+  test('refuses to merge a prospect into itself', async () => {
+    const storage = createLocalStorage(path.join(dir, 'self.json'));
+    const [only] = await storage.bulkImportProspects([
+      { firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: 'https://www.linkedin.com/in/alex-kim' }
+    ], new Map());
+
+    await assert.rejects(storage.mergeProspects(only.id as string, [only.id as string]), /into itself/);
+    assert.ok(await storage.getProspectById(only.id as string));
+  });
+});
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// GOLDEN FILES
+// ============================================================================
+//
+// Recorded outputs live next to the fixtures in __golden__/<suite>.json,
+// keyed by case name. Tests compare against them; `npm run test:golden`
+// (UPDATE_GOLDEN=1) rewrites them from the current code instead.
+// Review the diff of a re-recorded golden file like any other code change.
+// ============================================================================
+
+export const UPDATE_GOLDEN = Boolean(process.env.UPDATE_GOLDEN);
+
+export interface GoldenFile {
+  path: string;
+  expected: Record<string, unknown>;
+  recorded: Record<string, unknown>;
+}
+
+export function loadGolden(fixturesDir: string, suite: string): GoldenFile {
+  const filePath = path.join(fixturesDir, '__golden__', `${suite}.json`);
+  const expected = fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    : {};
+  return { path: filePath, expected, recorded: {} };
+}
+
+/**
+ * Returns the recorded value for a case, or throws if there is none.
+ * In record mode the actual value is kept for saveGolden and returned as-is.
+ */
+export function goldenFor(golden: GoldenFile, name: string, actual: unknown): unknown {
+  if (UPDATE_GOLDEN) {
+    golden.recorded[name] = actual;
+    return actual;
+  }
+  if (!(name in golden.expected)) {
+    throw new Error(`No golden output for "${name}". Run \`npm run test:golden\` to record it.`);
+  }
+  return golden.expected[name];
+}
+
+// Cases in the golden file that no longer exist in the fixtures
+export function staleGoldenCases(golden: GoldenFile, caseNames: string[]): string[] {
+  const names = new Set(caseNames);
+  return Object.keys(golden.expected).filter(name => !names.has(name));
+}
+
+export function saveGolden(golden: GoldenFile): void {
+  if (!UPDATE_GOLDEN) return;
+  fs.mkdirSync(path.dirname(golden.path), { recursive: true });
+  fs.writeFileSync(golden.path, JSON.stringify(golden.recorded, null, 2) + '\n');
+}
@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRescoreReport, type RescoreChange } from '@/lib/icp-history';
+
+function change(
+  prospectId: string,
+  previousScore: number,
+  newScore: number,
+  fields: Partial<RescoreChange> = {}
+): RescoreChange {
+  return { prospectId, name: prospectId, previousScore, newScore, previousSegment: 'merchant', newSegment: 'merchant', ...fields };
+}
+
+describe('buildRescoreReport', () => {
+  test('counts tiers before and after and groups tier moves, most common first', () => {
+    const report = buildRescoreReport([
+      change('a', 75, 65),   // high -> medium
+      change('b', 72, 50),   // high -> medium
+      change('c', 30, 45),   // low -> medium
+      change('d', 80, 85),   // stays high
+      change('e', 20, 20)    // unchanged
+    ]);
+
+    assert.equal(report.total, 5);
+    assert.equal(report.scoreChanged, 4);
+    assert.equal(report.tierChanged, 3);
+    assert.deepEqual(report.tierMoves, [
+      { from: 'high', to: 'medium', count: 2 },
+      { from: 'low', to: 'medium', count: 1 }
+    ]);
+    assert.deepEqual(report.tierCounts, {
+      before: { high: 3, medium: 0, low: 2 },
+      after: { high: 1, medium: 3, low: 1 }
+    });
+  });
+
+  test('lists segment changes, skipping prospects never scored with a breakdown', () => {
+    const report = buildRescoreReport([
+      change('a', 60, 60, { previousSegment: 'merchant', newSegment: 'agency' }),
+      change('b', 60, 60, { previousSegment: undefined, newSegment: 'agency' }),
+      change('c', 60, 60, { previousSegment: 'freelancer', newSegment: 'freelancer' })
+    ]);
+    assert.deepEqual(report.segmentChanges, [
+      { prospectId: 'a', name: 'a', previousSegment: 'merchant', newSegment: 'agency' }
+    ]);
+    assert.equal(report.scoreChanged, 0);
+  });
+
+  test('biggest movers are ordered by the size of the change either way, ten at most', () => {
+    const report = buildRescoreReport([
+      change('up', 40, 55),
+      change('down', 90, 60),
+      change('small', 50, 52),
+      change('same', 50, 50),
+      ...Array.from({ length: 10 }, (_, i) => change(`tail-${i}`, 10, 11))
+    ]);
+    assert.equal(report.biggestMovers.length, 10);
+    assert.deepEqual(report.biggestMovers.slice(0, 3).map(m => [m.prospectId, m.delta]), [
+      ['down', -30],
+      ['up', 15],
+      ['small', 2]
+    ]);
+    assert.deepEqual(report.biggestMovers[0], {
+      prospectId: 'down',
+      name: 'down',
+      previousScore: 90,
+      newScore: 60,
+      delta: -30,
+      previousTier: 'high',
+      newTier: 'medium'
+    });
+    assert.ok(!report.biggestMovers.some(m => m.prospectId === 'same'));
+  });
+});
@@ -0,0 +1,77 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calculateICPScoreWithBreakdown } from '@/lib/import';
+import { getICPTier } from '@/lib/icp-history';
+import type { ICPScoreBreakdown, ICPTier, Prospect } from '@/types';
+import { goldenFor, loadGolden, saveGolden, staleGoldenCases, UPDATE_GOLDEN } from './golden';
+
+// ============================================================================
+// ICP SCORING REGRESSION SUITE
+// ============================================================================
+//
+// Every case in tests/fixtures/icp/*.json is scored with the default profile
+// and the full ICPScoreBreakdown is compared with the recorded golden output.
+// `expect` (exact) and `expectMin` (lower bound) hold the hand-written
+// expectations the cases were originally written for.
+// ============================================================================
+
+type NumericField = Exclude<keyof ICPScoreBreakdown, 'segment'>;
+
+interface ScoringCase {
+  name: string;
+  prospect: Partial<Prospect>;
+  expect?: Partial<ICPScoreBreakdown>;
+  expectMin?: Partial<Record<NumericField, number>>;
+}
+
+interface ScoringFixture {
+  description: string;
+  cases: ScoringCase[];
+  tiers?: Array<{ score: number; tier: ICPTier }>;
+}
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'icp');
+
+const suites = fs.readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.json'))
+  .map(file => ({
+    name: path.basename(file, '.json'),
+    fixture: JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8')) as ScoringFixture
+  }));
+
+for (const { name: suite, fixture } of suites) {
+  describe(suite, () => {
+    const golden = loadGolden(FIXTURES_DIR, suite);
+    after(() => saveGolden(golden));
+
+    for (const scoringCase of fixture.cases) {
+      test(scoringCase.name, () => {
+        const breakdown = calculateICPScoreWithBreakdown(scoringCase.prospect);
+
+        for (const [field, value] of Object.entries(scoringCase.expect || {})) {
+          assert.equal(breakdown[field as keyof ICPScoreBreakdown], value, `${field}`);
+        }
+        for (const [field, min] of Object.entries(scoringCase.expectMin || {})) {
+          const actual = breakdown[field as NumericField];
+          assert.ok(actual >= min, `${field} should be at least ${min}, got ${actual}`);
+        }
+
+        assert.deepEqual(breakdown, goldenFor(golden, scoringCase.name, breakdown));
+      });
+    }
+
+    for (const { score, tier } of fixture.tiers || []) {
+      test(`score ${score} is ${tier}`, () => {
+        assert.equal(getICPTier(score), tier);
+      });
+    }
+
+    if (!UPDATE_GOLDEN) {
+      test('golden file has no stale cases', () => {
+        assert.deepEqual(staleGoldenCases(golden, fixture.cases.map(c => c.name)), []);
+      });
+    }
+  });
+}
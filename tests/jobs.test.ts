@@ -0,0 +1,311 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import {
+  createJobHandlers,
+  enqueueJob,
+  getRetryDelayMs,
+  permanentJobError,
+  runNextJob,
+  validateJobPayload,
+  type JobHandler,
+  type JobHandlers
+} from '@/lib/jobs';
+import { describeJob, getJobPercent } from '@/lib/jobs/progress';
+import { createMockProvider } from '@/lib/llm';
+import { saveFetchedPosts } from '@/lib/post-fetch';
+import { normalizeActorItems, profilePostsActor } from '@/lib/scraper';
+import { transformJob, type DbRecord } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { GenerateCommentsJobResult, GenerateMessagesJobResult, Job } from '@/types';
+
+const START = '2026-03-10T09:00:00.000Z';
+const dir = mkdtempSync(path.join(tmpdir(), 'jobs-'));
+let dbCount = 0;
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function freshStorage() {
+  return createLocalStorage(path.join(dir, `db-${++dbCount}.json`));
+}
+
+// A clock the test moves by hand
+function testClock(start = START) {
+  let now = new Date(start).getTime();
+  return {
+    now: () => new Date(now),
+    advance: (ms: number) => { now += ms; }
+  };
+}
+
+function handlersWith(handler: JobHandler): JobHandlers {
+  return { fetch_posts: handler, generate_comments: handler, generate_messages: handler };
+}
+
+// Run steps until nothing is due, moving the clock a minute between steps
+async function runToEnd(storage: ReturnType<typeof freshStorage>, handlers: JobHandlers, clock = testClock()) {
+  let last: Job | null = null;
+  for (let step = 0; step < 50; step++) {
+    const job = await runNextJob(storage, handlers, clock.now);
+    if (!job) break;
+    last = job;
+    clock.advance(60_000);
+  }
+  return last;
+}
+
+describe('job runner', () => {
+  test('retry delays double from 5 seconds up to 5 minutes', () => {
+    assert.deepEqual([1, 2, 3, 4].map(getRetryDelayMs), [5_000, 10_000, 20_000, 40_000]);
+    assert.equal(getRetryDelayMs(20), 5 * 60_000);
+  });
+
+  test('a job checkpoints between steps and waits out each delay', async () => {
+    const storage = freshStorage();
+    const clock = testClock();
+    const handler: JobHandler = async ({ job, reportProgress }) => {
+      const index = ((job.state?.index as number) ?? 0) + 1;
+      await reportProgress(index, 2, `Step ${index}`);
+      return index < 2
+        ? { done: false, state: { index }, delayMs: 5_000 }
+        : { done: true, result: { steps: index } };
+    };
+    const queued = await enqueueJob(storage, 'generate_messages', { prospectIds: ['a'] }, { total: 2, runAt: START });
+    assert.equal(queued.status, 'queued');
+    assert.deepEqual(queued.progress, { completed: 0, total: 2, message: undefined });
+
+    const first = await runNextJob(storage, handlersWith(handler), clock.now);
+    assert.equal(first?.status, 'queued');
+    assert.deepEqual(first?.state, { index: 1 });
+    assert.equal(first?.progress.message, 'Step 1');
+    assert.equal(first?.runAt, '2026-03-10T09:00:05.000Z');
+
+    assert.equal(await runNextJob(storage, handlersWith(handler), clock.now), null);
+
+    clock.advance(5_000);
+    const done = await runNextJob(storage, handlersWith(handler), clock.now);
+    assert.equal(done?.status, 'succeeded');
+    assert.deepEqual(done?.result, { steps: 2 });
+    assert.equal(done?.startedAt, '2026-03-10T09:00:00.000Z');
+    assert.equal(done?.finishedAt, '2026-03-10T09:00:05.000Z');
+    assert.equal(getJobPercent(done!), 100);
+  });
+
+  test('failed steps back off and the job fails after max attempts', async () => {
+    const storage = freshStorage();
+    const clock = testClock();
+    const handler: JobHandler = async () => { throw new Error('Model overloaded'); };
+    await enqueueJob(storage, 'generate_comments', { postIds: ['p'] }, { runAt: START });
+
+    const retrying = await runNextJob(storage, handlersWith(handler), clock.now);
+    assert.equal(retrying?.status, 'queued');
+    assert.equal(retrying?.attempts, 1);
+    assert.equal(retrying?.error, 'Model overloaded');
+    assert.equal(retrying?.runAt, '2026-03-10T09:00:05.000Z');
+    assert.equal(describeJob(retrying!), 'Retrying (attempt 2 of 3): Model overloaded');
+
+    clock.advance(5_000);
+    assert.equal((await runNextJob(storage, handlersWith(handler), clock.now))?.runAt, '2026-03-10T09:00:15.000Z');
+
+    clock.advance(10_000);
+    const failed = await runNextJob(storage, handlersWith(handler), clock.now);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.attempts, 3);
+    assert.equal(describeJob(failed!), 'Failed: Model overloaded');
+  });
+
+  test('a permanent error fails the job without retrying', async () => {
+    const storage = freshStorage();
+    const handler: JobHandler = async () => { throw permanentJobError('Apify API token not configured'); };
+    await enqueueJob(storage, 'fetch_posts', {}, { runAt: START });
+
+    const failed = await runNextJob(storage, handlersWith(handler), testClock().now);
+    assert.equal(failed?.status, 'failed');
+    assert.equal(failed?.attempts, 1);
+  });
+
+  test('cancelling a queued job stops it before it runs', async () => {
+    const storage = freshStorage();
+    let ran = false;
+    const job = await enqueueJob(storage, 'fetch_posts', {}, { runAt: START });
+
+    const cancelled = transformJob((await storage.requestJobCancel(job.id))!);
+    assert.equal(cancelled.status, 'cancelled');
+    assert.equal(await runNextJob(storage, handlersWith(async () => {
+      ran = true;
+      return { done: true, result: {} };
+    })), null);
+    assert.equal(ran, false);
+  });
+
+  test('cancelling a running job takes effect after its current step', async () => {
+    const storage = freshStorage();
+    const job = await enqueueJob(storage, 'generate_messages', { prospectIds: ['a', 'b'] }, { runAt: START });
+    const handler: JobHandler = async () => {
+      await storage.requestJobCancel(job.id);
+      return { done: false, state: { index: 1 } };
+    };
+
+    const cancelled = await runNextJob(storage, handlersWith(handler), testClock().now);
+    assert.equal(cancelled?.status, 'cancelled');
+    assert.equal(cancelled?.cancelRequested, true);
+    assert.deepEqual(cancelled?.state, { index: 1 });
+  });
+
+  test('a job whose worker died is claimed again once its lock goes stale', async () => {
+    const storage = freshStorage();
+    const clock = testClock();
+    await enqueueJob(storage, 'fetch_posts', {}, { runAt: START });
+    await storage.claimNextJob(clock.now().toISOString(), '2026-03-10T08:55:00.000Z');
+
+    clock.advance(60_000);
+    assert.equal(await runNextJob(storage, handlersWith(async () => ({ done: true, result: {} })), clock.now), null);
+
+    clock.advance(5 * 60_000);
+    const reclaimed = await runNextJob(storage, handlersWith(async () => ({ done: true, result: {} })), clock.now);
+    assert.equal(reclaimed?.status, 'succeeded');
+  });
+
+  test('workers in separate processes never claim the same job', async () => {
+    const dbPath = path.join(dir, `db-${++dbCount}.json`);
+    const storage = createLocalStorage(dbPath);
+    for (let i = 0; i < 30; i++) await enqueueJob(storage, 'fetch_posts', {}, { runAt: START });
+
+    // Each worker claims until nothing is left and prints the ids it got
+    const worker = path.join(dir, 'claim-worker.mts');
+    writeFileSync(worker, `
+      import { createLocalStorage } from ${JSON.stringify(path.resolve('src/lib/storage/local.ts'))};
+      const storage = createLocalStorage(process.argv[2]);
+      const ids = [];
+      for (let job; (job = await storage.claimNextJob('2026-03-11T00:00:00.000Z', '2026-03-10T00:00:00.000Z'));) {
+        ids.push(job.id);
+      }
+      console.log(JSON.stringify(ids));
+    `);
+    const outputs = await Promise.all([1, 2, 3].map(() =>
+      promisify(execFile)(process.execPath, ['--import', 'tsx', worker, dbPath])
+    ));
+
+    const claimed = outputs.flatMap(({ stdout }) => JSON.parse(stdout) as string[]);
+    assert.equal(claimed.length, 30);
+    assert.equal(new Set(claimed).size, 30);
+  });
+
+  test('payloads are checked before a job is enqueued', () => {
+    assert.equal(validateJobPayload('fetch_posts', {}), null);
+    assert.match(validateJobPayload('generate_comments', { postIds: [] })!, /postIds/);
+    assert.match(validateJobPayload('generate_messages', { prospectIds: ['a'], messageTypes: ['email'] })!, /messageTypes/);
+  });
+});
+
+describe('generation jobs', () => {
+  const importRow = (name: string) => ({
+    firstName: name,
+    lastName: 'Reyes',
+    fullName: `${name} Reyes`,
+    linkedinUrl: `https://www.linkedin.com/in/${name.toLowerCase()}-reyes`,
+    companyName: 'Trailhead Goods',
+    icpScore: 80,
+    icpScoreBreakdown: { segment: 'merchant', total: 80 }
+  });
+
+  test('generate_comments saves options per post and records flagged prospects as failed', async () => {
+    const storage = freshStorage();
+    const [dana, sam] = await storage.bulkImportProspects([importRow('Dana'), importRow('Sam')], new Map());
+    await storage.setDoNotContact(sam.id as string, 'Replied hard no');
+    const posts: DbRecord[] = [];
+    for (const prospect of [dana, sam]) {
+      posts.push(await storage.saveEngagementPost({
+        prospectId: prospect.id as string,
+        postUrl: `https://www.linkedin.com/posts/${prospect.id}`,
+        postContent: 'Spring collection is live',
+        postedAt: '2026-03-09T09:00:00.000Z',
+        authorName: prospect.full_name as string
+      }));
+    }
+    const archived = await storage.saveEngagementPost({
+      prospectId: dana.id as string,
+      postUrl: 'https://www.linkedin.com/posts/archived',
+      postContent: 'Old news',
+      postedAt: '2026-01-09T09:00:00.000Z',
+      authorName: 'Dana Reyes',
+      isArchived: true,
+      archivedReason: 'aged'
+    });
+
+    const provider = createMockProvider();
+    await enqueueJob(storage, 'generate_comments', { postIds: [...posts, archived].map(p => p.id) }, { runAt: START });
+    const job = await runToEnd(storage, createJobHandlers({ llm: provider }));
+
+    const result = job?.result as GenerateCommentsJobResult;
+    assert.equal(job?.status, 'succeeded');
+    assert.equal(result.generated, 1);
+    assert.deepEqual(result.failed.map(f => f.postId), [posts[1].id, archived.id]);
+    assert.match(result.failed[0].error, /marked do not contact/);
+    assert.equal(result.failed[1].error, 'Post is no longer active');
+    assert.deepEqual(job?.progress, { completed: 3, total: 3, message: 'Generated comments for 1 of 3 posts' });
+
+    const [saved] = (await storage.getEngagementPosts('active')).filter(p => p.id === posts[0].id);
+    assert.equal((saved.generated_comments as string[]).length, 3);
+    assert.equal(provider.calls.length, 1);
+  });
+
+  test('generate_messages saves a version per message and retries a failing prospect before moving on', async () => {
+    const storage = freshStorage();
+    const [dana] = await storage.bulkImportProspects([importRow('Dana')], new Map());
+    const failing = createMockProvider({ messages: () => { throw new Error('Model overloaded'); } });
+
+    await enqueueJob(storage, 'generate_messages', { prospectIds: [dana.id, 'missing'] }, { runAt: START });
+    const job = await runToEnd(storage, createJobHandlers({ llm: failing }));
+    const result = job?.result as GenerateMessagesJobResult;
+    assert.equal(job?.status, 'succeeded');
+    assert.equal(failing.calls.length, 3);
+    assert.deepEqual(result.failed.map(f => f.prospectId), [dana.id, 'missing']);
+
+    await enqueueJob(storage, 'generate_messages', { prospectIds: [dana.id], messageTypes: ['connection_request'] }, { runAt: START });
+    const retried = await runToEnd(storage, createJobHandlers({ llm: createMockProvider() }));
+    assert.equal((retried?.result as GenerateMessagesJobResult).generated, 1);
+    const stored = await storage.getProspectById(dana.id as string);
+    assert.deepEqual((stored?.generated_messages as Array<{ message_type: string }>).map(m => m.message_type), ['connection_request']);
+  });
+});
+
+describe('saving fetched posts', () => {
+  test('matches posts to the requested profile and archives old ones', async () => {
+    const storage = freshStorage();
+    const [dana] = await storage.bulkImportProspects([{
+      firstName: 'Dana',
+      lastName: 'Reyes',
+      fullName: 'Dana Reyes',
+      linkedinUrl: 'https://www.linkedin.com/in/dana-reyes/'
+    }, {
+      firstName: 'Sam',
+      lastName: 'Ortiz',
+      fullName: 'Sam Ortiz',
+      linkedinUrl: 'https://www.linkedin.com/in/sam-ortiz'
+    }], new Map());
+    const prospects = [
+      { id: dana.id as string, linkedinUrl: 'https://www.linkedin.com/in/dana-reyes/', fullName: 'Dana Reyes' },
+      { id: 'sam', linkedinUrl: 'https://www.linkedin.com/in/sam-ortiz', fullName: 'Sam Ortiz' }
+    ];
+
+    const posts = normalizeActorItems(profilePostsActor, [
+      { linkedinUrl: 'https://www.linkedin.com/posts/1', content: 'Restock day', query: 'linkedin.com/in/Dana-Reyes', postedAt: { date: '2026-03-09T09:00:00.000Z' } },
+      { linkedinUrl: 'https://www.linkedin.com/posts/2', content: 'Old news', author: { name: 'Dana Reyes' }, postedAtTimestamp: 1767225600 },
+      { linkedinUrl: 'https://www.linkedin.com/posts/3', postedAt: '2026-03-09T09:00:00.000Z' },
+      { linkedinUrl: 'https://www.linkedin.com/posts/4', text: 'Hello', authorName: 'Someone Else', postedAt: '2026-03-09T09:00:00.000Z' }
+    ]);
+    const saved = await saveFetchedPosts(storage, posts, prospects, new Date('2026-03-10T09:00:00.000Z'));
+
+    assert.deepEqual(saved.active.map(p => [p.post_url, p.prospect_id]), [['https://www.linkedin.com/posts/1', dana.id]]);
+    assert.deepEqual(saved.archived.map(p => p.archived_reason), ['aged']);
+    assert.deepEqual(saved.skipped, [
+      { url: 'https://www.linkedin.com/posts/3', reason: 'Missing text' },
+      { url: 'https://www.linkedin.com/posts/4', reason: 'Could not match to prospect' }
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { parseScrapedTab, parseWorkingTab } from '@/lib/import';
+import {
+  canonicalizeLinkedInUrl,
+  createLinkedInIdentityIndex,
+  isLinkedInProfileUrl,
+  mergeLinkedInAliases,
+  parseLinkedInProfile
+} from '@/lib/linkedin-identity';
+import { saveFetchedPosts } from '@/lib/post-fetch';
+import { transformDbToApp } from '@/lib/storage';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { Prospect, RawScrapedRow, RawWorkingRow } from '@/types';
+
+const MEMBER_ID = 'ACoAAB2xYz9_Qw-1234';
+const dir = mkdtempSync(path.join(tmpdir(), 'identity-'));
+let dbCount = 0;
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function freshStorage() {
+  return createLocalStorage(path.join(dir, `db-${++dbCount}.json`));
+}
+
+const dana = (linkedinUrl: string, extra: Partial<Prospect> = {}) => ({
+  firstName: 'Dana',
+  lastName: 'Reyes',
+  fullName: 'Dana Reyes',
+  linkedinUrl,
+  ...extra
+});
+
+describe('canonical profile URLs', () => {
+  test('every URL form of a vanity profile has one canonical URL', () => {
+    const forms = [
+      'linkedin.com/in/Dana-Reyes/',
+      'http://linkedin.com/in/dana-reyes',
+      'https://uk.linkedin.com/in/dana-reyes?trk=public_profile',
+      'https://de.linkedin.com/in/dana-reyes/en',
+      'https://m.linkedin.com/in/dana-reyes#about',
+      'www.linkedin.com/in/dana-reyes/details/experience/',
+      'https://www.linkedin.com/in/dana-reyes/recent-activity/all/',
+      '  https://www.linkedin.com/in/dana-reyes  '
+    ];
+    assert.deepEqual(
+      [...new Set(forms.map(canonicalizeLinkedInUrl))],
+      ['https://www.linkedin.com/in/dana-reyes']
+    );
+  });
+
+  test('legacy /pub/ URLs become the /in/ slug they redirect to', () => {
+    assert.equal(
+      canonicalizeLinkedInUrl('https://www.linkedin.com/pub/dana-reyes/2/b41/a37'),
+      'https://www.linkedin.com/in/dana-reyes-a37b412'
+    );
+  });
+
+  test('member ids keep their case, whether from a URL, URN or Sales Navigator', () => {
+    const canonical = `https://www.linkedin.com/in/${MEMBER_ID}`;
+    assert.equal(canonicalizeLinkedInUrl(`https://www.linkedin.com/in/${MEMBER_ID}/`), canonical);
+    assert.equal(canonicalizeLinkedInUrl(`urn:li:fsd_profile:${MEMBER_ID}`), canonical);
+    assert.equal(canonicalizeLinkedInUrl(`https://www.linkedin.com/sales/lead/${MEMBER_ID},NAME_SEARCH,x1y2`), canonical);
+    assert.equal(canonicalizeLinkedInUrl('urn:li:member:123456'), 'urn:li:member:123456');
+    assert.equal(parseLinkedInProfile(canonical)?.kind, 'member');
+  });
+
+  test('encoded slugs compare equal to their decoded form', () => {
+    assert.equal(
+      canonicalizeLinkedInUrl('https://www.linkedin.com/in/Jos%C3%A9-garc%C3%ADa'),
+      canonicalizeLinkedInUrl('https://www.linkedin.com/in/josé-garcía/')
+    );
+  });
+
+  test('anything that is not a profile is only tidied', () => {
+    assert.equal(isLinkedInProfileUrl('https://www.linkedin.com/company/trailhead-goods'), false);
+    assert.equal(isLinkedInProfileUrl('https://example.com/in/dana-reyes'), false);
+    assert.equal(isLinkedInProfileUrl('https://www.linkedin.com/in/'), false);
+    assert.equal(
+      canonicalizeLinkedInUrl('http://linkedin.com/company/Trailhead-Goods/?trk=x'),
+      'https://www.linkedin.com/company/trailhead-goods'
+    );
+    assert.equal(canonicalizeLinkedInUrl(''), '');
+  });
+
+  test('aliases keep only forms other than the profile URL', () => {
+    assert.deepEqual(
+      mergeLinkedInAliases('https://www.linkedin.com/in/dana-reyes', ['urn:li:member:1'], [
+        'linkedin.com/in/Dana-Reyes',
+        `urn:li:fsd_profile:${MEMBER_ID}`,
+        'urn:li:member:1'
+      ]),
+      ['urn:li:member:1', `https://www.linkedin.com/in/${MEMBER_ID}`]
+    );
+  });
+
+  test('the index finds a value by any form it was added under', () => {
+    const index = createLinkedInIdentityIndex<string>();
+    index.add(['https://www.linkedin.com/in/dana-reyes', `urn:li:fsd_profile:${MEMBER_ID}`], 'dana');
+    assert.equal(index.get('uk.linkedin.com/in/Dana-Reyes/'), 'dana');
+    assert.equal(index.get(`https://www.linkedin.com/in/${MEMBER_ID}`), 'dana');
+    assert.equal(index.get('https://www.linkedin.com/in/sam-ortiz'), undefined);
+    assert.equal(index.find([undefined, 'linkedin.com/in/sam-ortiz', 'linkedin.com/in/dana-reyes']), 'dana');
+  });
+});
+
+describe('Excel import', () => {
+  test('scraped and working tabs key rows by canonical URL', () => {
+    const prospects = parseScrapedTab([
+      { linkedinUrl: 'uk.linkedin.com/in/Dana-Reyes/', firstName: 'Dana', lastName: 'Reyes' } as RawScrapedRow
+    ]);
+    const pipeline = parseWorkingTab([
+      { 'LinkedIn URL': 'https://www.linkedin.com/in/dana-reyes?trk=x', 'Visited': true } as RawWorkingRow
+    ]);
+
+    assert.deepEqual([...prospects.keys()], ['https://www.linkedin.com/in/dana-reyes']);
+    assert.deepEqual([...pipeline.keys()], ['https://www.linkedin.com/in/dana-reyes']);
+  });
+});
+
+describe('prospect identity in storage', () => {
+  test('another URL form of a stored prospect updates it and is kept as an alias', async () => {
+    const storage = freshStorage();
+    const [first] = await storage.bulkImportProspects([dana('https://www.linkedin.com/in/dana-reyes')], new Map());
+    const [second] = await storage.bulkImportProspects([
+      dana('https://uk.linkedin.com/in/Dana-Reyes/', { companyName: 'Trailhead Goods', linkedinAliases: [`urn:li:fsd_profile:${MEMBER_ID}`] })
+    ], new Map([['https://uk.linkedin.com/in/Dana-Reyes/', { status: 'visited' }]]));
+
+    assert.equal(second.id, first.id);
+    const [stored] = transformDbToApp(await storage.getProspects());
+    assert.equal((await storage.getProspects()).length, 1);
+    assert.equal(stored.linkedinUrl, 'https://www.linkedin.com/in/dana-reyes');
+    assert.deepEqual(stored.linkedinAliases, [`https://www.linkedin.com/in/${MEMBER_ID}`]);
+    assert.equal(stored.companyName, 'Trailhead Goods');
+    assert.equal(stored.pipeline?.status, 'visited');
+
+    // The alias alone is enough to find the prospect again
+    const [third] = await storage.bulkImportProspects([dana(`https://www.linkedin.com/in/${MEMBER_ID}`)], new Map());
+    assert.equal(third.id, first.id);
+    assert.equal((await storage.findProspectByLinkedInUrl(`urn:li:fsd_profile:${MEMBER_ID}`))?.id, first.id);
+    assert.equal(await storage.findProspectByLinkedInUrl('https://www.linkedin.com/in/sam-ortiz'), null);
+  });
+
+  test('two forms of one profile in the same import become one prospect', async () => {
+    const storage = freshStorage();
+    const saved = await storage.bulkImportProspects([
+      dana('https://www.linkedin.com/in/dana-reyes', { jobTitle: 'Founder' }),
+      dana('linkedin.com/in/DANA-REYES/', { jobTitle: 'CEO' })
+    ], new Map());
+
+    assert.equal(saved.length, 1);
+    assert.equal(saved[0].job_title, 'CEO');
+  });
+
+  test('single upserts and watching by URL reuse the stored prospect', async () => {
+    const storage = freshStorage();
+    const stored = await storage.upsertProspect({ first_name: 'Dana', full_name: 'Dana Reyes', linkedin_url: 'linkedin.com/in/dana-reyes/' });
+    assert.equal(stored.linkedin_url, 'https://www.linkedin.com/in/dana-reyes');
+
+    const updated = await storage.upsertProspect({ first_name: 'Dana', full_name: 'Dana Reyes', linkedin_url: 'https://de.linkedin.com/in/dana-reyes', headline: 'Founder' });
+    assert.equal(updated.id, stored.id);
+
+    const watched = await storage.addWatchedProfileByUrl('https://www.linkedin.com/in/Dana-Reyes?trk=feed');
+    assert.equal(watched.prospect_id, stored.id);
+
+    const placeholder = await storage.addWatchedProfileByUrl('uk.linkedin.com/in/sam-ortiz/');
+    const sam = await storage.getProspectById(placeholder.prospect_id as string);
+    assert.equal(sam?.linkedin_url, 'https://www.linkedin.com/in/sam-ortiz');
+    assert.equal(sam?.full_name, 'sam-ortiz');
+  });
+
+  test('fetched posts match a prospect through its aliases', async () => {
+    const storage = freshStorage();
+    const [row] = await storage.bulkImportProspects([
+      dana('https://www.linkedin.com/in/dana-reyes', { linkedinAliases: ['https://www.linkedin.com/in/dana-reyes-old'] })
+    ], new Map());
+    const prospects = [
+      { id: row.id as string, linkedinUrl: 'https://www.linkedin.com/in/dana-reyes', linkedinAliases: row.linkedin_aliases as string[], fullName: 'Dana Reyes' },
+      { id: 'sam', linkedinUrl: 'https://www.linkedin.com/in/sam-ortiz', fullName: 'Sam Ortiz' }
+    ];
+
+    const saved = await saveFetchedPosts(storage, [
+      { url: 'https://www.linkedin.com/posts/1', content: 'Restock day', date: '2026-03-09T09:00:00.000Z', profileUrl: 'https://uk.linkedin.com/in/Dana-Reyes-Old/' }
+    ], prospects, new Date('2026-03-10T09:00:00.000Z'));
+
+    assert.deepEqual(saved.active.map(p => p.prospect_id), [row.id]);
+  });
+});
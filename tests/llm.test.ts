@@ -0,0 +1,121 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMockProvider,
+  getLLMConfigError,
+  getLLMProviderName,
+  parseJSONContent,
+  resolveLLMTaskSettings
+} from '@/lib/llm';
+import { generateComments, generateMessagesWithSkill } from '@/lib/claude';
+import { generateResponse } from '@/lib/response-generator';
+import type { ICPScoreBreakdown, Prospect } from '@/types';
+
+const merchantBreakdown: ICPScoreBreakdown = {
+  segment: 'merchant',
+  titleAuthority: 40,
+  companySignals: 20,
+  companySize: 5,
+  productCategory: 0,
+  profileCompleteness: 5,
+  total: 70
+};
+
+const prospect: Partial<Prospect> = {
+  firstName: 'Dana',
+  fullName: 'Dana Reyes',
+  jobTitle: 'Founder',
+  companyName: 'Trailhead Goods',
+  companyIndustry: 'Apparel & Fashion',
+  aboutSummary: 'Founder of a Shopify apparel brand shipping across the US.',
+  icpScore: 70,
+  icpScoreBreakdown: merchantBreakdown
+};
+
+describe('llm config', () => {
+  test('picks a provider from the environment', () => {
+    assert.equal(getLLMProviderName({}), null);
+    assert.equal(getLLMProviderName({ OPENAI_API_KEY: 'sk' }), 'openai');
+    assert.equal(getLLMProviderName({ ANTHROPIC_API_KEY: 'sk' }), 'anthropic');
+    assert.equal(getLLMProviderName({ OPENAI_API_KEY: 'sk', LLM_PROVIDER: 'mock' }), 'mock');
+    assert.equal(getLLMConfigError({ LLM_PROVIDER: 'anthropic' }), 'ANTHROPIC_API_KEY is not configured');
+    assert.equal(getLLMConfigError({ LLM_PROVIDER: 'mock' }), null);
+  });
+
+  test('per-task settings override the global model and defaults', () => {
+    const settings = resolveLLMTaskSettings('openai', {
+      LLM_MODEL: 'gpt-4o-mini',
+      LLM_MODEL_MESSAGES: 'gpt-4.1',
+      LLM_TEMPERATURE_CLASSIFICATION: '0',
+      LLM_MAX_TOKENS_COMMENTS: 'lots'
+    });
+    assert.deepEqual(settings.messages, { model: 'gpt-4.1', temperature: 0.7, maxTokens: 1500 });
+    assert.deepEqual(settings.classification, { model: 'gpt-4o-mini', temperature: 0, maxTokens: 200 });
+    assert.equal(settings.comments.maxTokens, 500);
+    assert.equal(resolveLLMTaskSettings('anthropic', {}).replies.model, 'claude-sonnet-4-5');
+  });
+
+  test('parses JSON out of fenced or chatty replies', () => {
+    assert.deepEqual(parseJSONContent('```json\n{"a": 1}\n```'), { a: 1 });
+    assert.deepEqual(parseJSONContent('Here you go: {"a": 2} Hope that helps.'), { a: 2 });
+    assert.throws(() => parseJSONContent('no json here'), /not valid JSON/);
+  });
+});
+
+describe('generation with the mock provider', () => {
+  test('generates messages for a qualified prospect', async () => {
+    const provider = createMockProvider();
+    const result = await generateMessagesWithSkill(prospect, provider);
+
+    assert.ok(!('skipped' in result));
+    assert.equal(result.track, 'OPERATOR_DTC');
+    assert.match(result.messages.connection_request!, /^Hi Dana,/);
+    assert.equal(provider.calls.length, 1);
+    assert.equal(provider.calls[0].task, 'messages');
+    assert.equal(provider.calls[0].json, true);
+  });
+
+  test('skips unqualified prospects without calling the model', async () => {
+    const provider = createMockProvider();
+    const result = await generateMessagesWithSkill({ ...prospect, companyName: undefined }, provider);
+    assert.ok('skipped' in result);
+    assert.equal(provider.calls.length, 0);
+  });
+
+  test('surfaces replies that are not JSON', async () => {
+    const provider = createMockProvider({ messages: 'Sorry, I cannot help with that.' });
+    await assert.rejects(generateMessagesWithSkill(prospect, provider), /output was not valid JSON/);
+  });
+
+  test('splits scripted comments into three options', async () => {
+    const provider = createMockProvider({ comments: 'Option 1: Nice one. What changed?\n---\nSecond\n---\nThird' });
+    const comments = await generateComments(prospect, 'We cut shipping costs by 20%.', provider);
+    assert.deepEqual(comments, {
+      conversational: 'Nice one. What changed?',
+      perspective: 'Second',
+      brief: 'Third'
+    });
+  });
+
+  test('classifies a reply and generates options', async () => {
+    const provider = createMockProvider();
+    const result = await generateResponse(prospect, 'We use Route right now.', provider);
+
+    assert.equal(result.classification, 'has_competitor');
+    assert.equal(result.responses.length, 3);
+    assert.deepEqual(provider.calls.map(c => c.task), ['classification', 'replies']);
+  });
+
+  test('scripted replies are consumed in order', async () => {
+    const provider = createMockProvider({
+      classification: [
+        '{"classification": "hard_no", "confidence": 99, "reasoning": "Asked to stop"}',
+        '{"classification": "curious", "confidence": 70, "reasoning": "Question"}'
+      ]
+    });
+    const first = await generateResponse(prospect, 'Please stop.', provider);
+    const second = await generateResponse(prospect, 'Please stop.', provider);
+    assert.deepEqual(first.responses, [{ style: 'direct', content: 'Understood. Removed.' }]);
+    assert.equal(second.classification, 'curious');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMessageSentPipelineUpdate, groupMessageVersions } from '@/lib/message-history';
+import { generateMessagesWithSkill } from '@/lib/claude';
+import { createMockProvider } from '@/lib/llm';
+import type { GeneratedMessage, MessageType, Prospect } from '@/types';
+
+const SENT_AT = '2026-03-10T09:00:00.000Z';
+
+function message(id: string, messageType: MessageType, version: number): GeneratedMessage {
+  return {
+    id,
+    prospectId: 'p1',
+    messageType,
+    content: `${messageType} v${version}`,
+    generatedAt: `2026-03-0${version}T09:00:00.000Z`,
+    used: false,
+    version,
+    warnings: []
+  };
+}
+
+const prospect: Partial<Prospect> = {
+  firstName: 'Dana',
+  fullName: 'Dana Reyes',
+  companyName: 'Trailhead Goods',
+  icpScore: 70,
+  icpScoreBreakdown: {
+    segment: 'merchant',
+    titleAuthority: 40,
+    companySignals: 20,
+    companySize: 5,
+    productCategory: 0,
+    profileCompleteness: 5,
+    total: 70
+  }
+};
+
+describe('message versions', () => {
+  test('groups versions by type, newest first', () => {
+    const grouped = groupMessageVersions([
+      message('a', 'opening_dm', 1),
+      message('b', 'follow_up', 1),
+      message('c', 'opening_dm', 3),
+      message('d', 'opening_dm', 2)
+    ]);
+    assert.deepEqual(grouped.opening_dm?.map(m => m.id), ['c', 'd', 'a']);
+    assert.deepEqual(grouped.follow_up?.map(m => m.id), ['b']);
+    assert.equal(grouped.connection_request, undefined);
+  });
+});
+
+describe('marking a message sent', () => {
+  test('advances the pipeline to the status the sequence step leads to', () => {
+    assert.deepEqual(getMessageSentPipelineUpdate('connection_request', 'visited', SENT_AT), {
+      status: 'connection_sent'
+    });
+    assert.deepEqual(getMessageSentPipelineUpdate('opening_dm', 'connected', SENT_AT), {
+      status: 'message_sent',
+      message_sent_at: SENT_AT
+    });
+  });
+
+  test('never moves a prospect backwards', () => {
+    assert.equal(getMessageSentPipelineUpdate('connection_request', 'connected', SENT_AT), null);
+    assert.deepEqual(getMessageSentPipelineUpdate('opening_dm', 'responded', SENT_AT), {
+      message_sent_at: SENT_AT
+    });
+    assert.equal(getMessageSentPipelineUpdate('follow_up', 'message_sent', SENT_AT), null);
+  });
+});
+
+describe('regenerating one message type', () => {
+  test('asks for and returns only the requested type', async () => {
+    const provider = createMockProvider();
+    const result = await generateMessagesWithSkill(prospect, provider, ['follow_up']);
+
+    assert.ok(!('skipped' in result));
+    assert.deepEqual(Object.keys(result.messages), ['follow_up']);
+    assert.equal(result.model, 'mock');
+    assert.equal(result.prompts.follow_up?.variant, 'outreach-skill');
+    assert.match(result.prompts.follow_up!.version, /^isaac-linkedin-outreach\.md@[0-9a-f]{8}$/);
+
+    const prompt = provider.calls[0].messages.at(-1)!.content;
+    assert.match(prompt, /only these message types \(follow_up\)/);
+    assert.doesNotMatch(prompt, /"opening_dm"/);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkMessageRules,
+  repairOutreachMessages,
+  validateOutreachMessages
+} from '@/lib/message-rules';
+import { createMockProvider } from '@/lib/llm';
+import { generateMessagesWithSkill } from '@/lib/claude';
+import type { Prospect } from '@/types';
+
+const valid = {
+  connection_request: 'Hi Dana, saw the launch at Trailhead. Would be good to connect.\n\nIsaac',
+  opening_dm: 'Thanks for connecting Dana. Curious how you handle lost packages today.\n\nIsaac',
+  follow_up: 'Dana, one more note on shipping claims.\n\nIsaac'
+};
+
+const prospect: Partial<Prospect> = {
+  firstName: 'Dana',
+  fullName: 'Dana Reyes',
+  companyName: 'Trailhead Goods',
+  icpScore: 70,
+  icpScoreBreakdown: {
+    segment: 'merchant',
+    titleAuthority: 40,
+    companySignals: 20,
+    companySize: 5,
+    productCategory: 0,
+    profileCompleteness: 5,
+    total: 70
+  }
+};
+
+describe('outreach message schema', () => {
+  test('accepts the three messages', () => {
+    assert.deepEqual(validateOutreachMessages(valid), { messages: valid, errors: [] });
+  });
+
+  test('reports every missing or wrong-typed message', () => {
+    assert.deepEqual(validateOutreachMessages({ connection_request: 42, follow_up: ' ' }).errors, [
+      'connection_request must be a string',
+      'opening_dm is missing',
+      'follow_up is empty'
+    ]);
+    assert.deepEqual(validateOutreachMessages(['nope']).errors, ['output must be a JSON object']);
+  });
+
+  test('repairs nesting, camelCase keys and whitespace', () => {
+    const repaired = repairOutreachMessages({
+      messages: {
+        connectionRequest: `  ${valid.connection_request}  `,
+        openingDm: valid.opening_dm,
+        followUp: valid.follow_up
+      }
+    });
+    assert.deepEqual(validateOutreachMessages(repaired).messages, valid);
+  });
+});
+
+describe('outreach message rules', () => {
+  test('clean messages produce no warnings', () => {
+    assert.deepEqual(checkMessageRules(valid), []);
+  });
+
+  test('flags each broken rule', () => {
+    const warnings = checkMessageRules({
+      connection_request: 'x'.repeat(295) + '\n\nIsaac',
+      opening_dm: 'Big news — we launched! 🚀\n\nIsaac',
+      follow_up: 'Talk soon.\nIsaac Stern'
+    });
+    assert.deepEqual(warnings.map(w => `${w.messageType}:${w.rule}`), [
+      'connection_request:max_length',
+      'opening_dm:em_dash',
+      'opening_dm:exclamation',
+      'opening_dm:emoji',
+      'follow_up:signature'
+    ]);
+    assert.equal(warnings[0].detail, '302 characters (max 300)');
+  });
+});
+
+describe('message generation output handling', () => {
+  test('retries with the validation errors until the output is valid', async () => {
+    const provider = createMockProvider({
+      messages: ['not json at all', JSON.stringify({ connection_request: 'Hi' }), JSON.stringify(valid)]
+    });
+    const result = await generateMessagesWithSkill(prospect, provider);
+
+    assert.ok(!('skipped' in result));
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(result.messages, valid);
+    assert.deepEqual(result.warnings, []);
+    const retryPrompt = provider.calls[2].messages.at(-1)!.content;
+    assert.match(retryPrompt, /opening_dm is missing/);
+  });
+
+  test('gives up after the last attempt', async () => {
+    const provider = createMockProvider({ messages: '{"connection_request": ""}' });
+    await assert.rejects(generateMessagesWithSkill(prospect, provider), /invalid output after 3 attempts/);
+    assert.equal(provider.calls.length, 3);
+  });
+
+  test('returns rule violations as warnings instead of failing', async () => {
+    const provider = createMockProvider({
+      messages: JSON.stringify({ ...valid, follow_up: 'Following up!' })
+    });
+    const result = await generateMessagesWithSkill(prospect, provider);
+
+    assert.ok(!('skipped' in result));
+    assert.equal(result.attempts, 1);
+    assert.deepEqual(result.warnings.map(w => w.rule), ['exclamation', 'signature']);
+  });
+});
@@ -0,0 +1,70 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createLocalStorage } from '@/lib/storage/local';
+import { buildPipelineEvents } from '@/lib/storage/transform';
+import type { StorageAdapter } from '@/lib/storage';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'pipeline-events-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('buildPipelineEvents', () => {
+  test('one event per changed status, none for an unchanged one', () => {
+    const events = buildPipelineEvents(
+      new Map([['a', 'visited'], ['b', 'connected']]),
+      [
+        { prospectId: 'a', status: 'connection_sent' },
+        { prospectId: 'b', status: 'connected' },
+        { prospectId: 'c', status: 'not_contacted' }
+      ],
+      { source: 'bulk', note: 'Weekly cleanup' }
+    );
+    assert.deepEqual(events, [
+      { prospect_id: 'a', from_status: 'visited', to_status: 'connection_sent', source: 'bulk', note: 'Weekly cleanup' },
+      { prospect_id: 'c', from_status: null, to_status: 'not_contacted', source: 'bulk', note: 'Weekly cleanup' }
+    ]);
+  });
+});
+
+describe('recording status changes', () => {
+  let storage: StorageAdapter;
+  let ids: string[];
+
+  before(async () => {
+    storage = createLocalStorage(path.join(dir, 'db.json'));
+    const imported = await storage.bulkImportProspects(
+      ['ana-ruiz', 'ben-ode'].map(slug => ({
+        firstName: slug,
+        lastName: '',
+        fullName: slug,
+        linkedinUrl: `https://www.linkedin.com/in/${slug}`
+      })),
+      new Map()
+    );
+    ids = imported.map(p => p.id as string);
+  });
+
+  async function eventsFor(id: string) {
+    return (await storage.getPipelineEvents(id)).map(e => [e.from_status, e.to_status, e.source]);
+  }
+
+  test('import records the first status', async () => {
+    assert.deepEqual(await eventsFor(ids[0]), [[null, 'not_contacted', 'import']]);
+  });
+
+  test('a change records from, to and source; the same status records nothing', async () => {
+    await storage.updatePipelineStatus(ids[0], { status: 'visited' }, { source: 'drag' });
+    await storage.updatePipelineStatus(ids[0], { status: 'visited', notes: 'Looked twice' }, { source: 'manual' });
+    const events = await eventsFor(ids[0]);
+    assert.equal(events.length, 2);
+    assert.ok(events.some(([from, to, source]) => from === 'not_contacted' && to === 'visited' && source === 'drag'));
+  });
+
+  test('bulk changes record one event per prospect that moved', async () => {
+    await storage.bulkUpdatePipelineStatus(ids, 'visited', { source: 'bulk' });
+    assert.equal((await eventsFor(ids[0])).length, 2);
+    assert.deepEqual((await eventsFor(ids[1]))[0], ['not_contacted', 'visited', 'bulk']);
+  });
+});
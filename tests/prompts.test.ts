@@ -0,0 +1,109 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPromptVariantReport, getTrafficBucket, pickPromptVariant } from '@/lib/prompts';
+import { generateMessagesWithSkill } from '@/lib/claude';
+import { createMockProvider } from '@/lib/llm';
+import type { GeneratedMessage, Prospect, PromptVariant } from '@/types';
+
+function variant(id: string, weight: number, overrides: Partial<PromptVariant> = {}): PromptVariant {
+  return {
+    id,
+    name: id,
+    file: 'isaac-linkedin-outreach.md',
+    messageTypes: ['connection_request', 'opening_dm', 'follow_up'],
+    weight,
+    active: true,
+    ...overrides
+  };
+}
+
+function sent(prospectId: string, promptVariant: string, used = true): GeneratedMessage {
+  return {
+    id: `${prospectId}-${promptVariant}`,
+    prospectId,
+    messageType: 'opening_dm',
+    content: 'Hi',
+    generatedAt: '2026-03-01T09:00:00.000Z',
+    used,
+    version: 1,
+    promptVariant,
+    promptVersion: `${promptVariant}.md@00000000`,
+    warnings: []
+  };
+}
+
+describe('prompt variant selection', () => {
+  test('splits traffic by weight and keeps each prospect in one bucket', () => {
+    const variants = [variant('a', 75), variant('b', 25)];
+    const counts: Record<string, number> = { a: 0, b: 0 };
+    for (let i = 0; i < 400; i++) {
+      counts[pickPromptVariant('opening_dm', `prospect-${i}`, variants).id]++;
+    }
+    assert.ok(counts.a > 250 && counts.a < 350, `a got ${counts.a} of 400`);
+
+    const first = pickPromptVariant('connection_request', 'prospect-7', variants);
+    assert.equal(pickPromptVariant('follow_up', 'prospect-7', variants).id, first.id);
+    assert.ok(getTrafficBucket('prospect-7') >= 0 && getTrafficBucket('prospect-7') < 1);
+  });
+
+  test('skips inactive variants and those for other message types', () => {
+    const variants = [
+      variant('retired', 100, { active: false }),
+      variant('dm-only', 100, { messageTypes: ['opening_dm'] }),
+      variant('current', 100)
+    ];
+    assert.equal(pickPromptVariant('follow_up', 'p1', variants).id, 'current');
+    assert.throws(() => pickPromptVariant('comment', 'p1', variants), /No active prompt variant for comment/);
+  });
+});
+
+describe('generation with variants', () => {
+  test('makes one model call per variant and records which wrote each message', async () => {
+    const prospect: Partial<Prospect> = {
+      id: 'p1',
+      firstName: 'Dana',
+      fullName: 'Dana Reyes',
+      companyName: 'Trailhead Goods',
+      icpScore: 70,
+      icpScoreBreakdown: {
+        segment: 'merchant',
+        titleAuthority: 40,
+        companySignals: 20,
+        companySize: 5,
+        productCategory: 0,
+        profileCompleteness: 5,
+        total: 70
+      }
+    };
+    const variants = [
+      variant('dm-test', 100, { messageTypes: ['opening_dm'] }),
+      variant('rest', 100, { messageTypes: ['connection_request', 'follow_up'] })
+    ];
+    const provider = createMockProvider();
+    const result = await generateMessagesWithSkill(prospect, provider, undefined, variants);
+
+    assert.ok(!('skipped' in result));
+    assert.equal(provider.calls.length, 2);
+    assert.equal(result.attempts, 2);
+    assert.deepEqual(Object.keys(result.messages).sort(), ['connection_request', 'follow_up', 'opening_dm']);
+    assert.equal(result.prompts.opening_dm?.variant, 'dm-test');
+    assert.equal(result.prompts.follow_up?.variant, 'rest');
+  });
+});
+
+describe('prompt variant report', () => {
+  test('counts prospects sent and replied per variant', () => {
+    const report = buildPromptVariantReport(
+      [sent('p1', 'a'), sent('p1', 'a'), sent('p2', 'a'), sent('p3', 'b'), sent('p4', 'b', false), sent('p5', 'old')],
+      [{ prospectId: 'p1', promptVariant: 'a' }, { prospectId: 'p3', promptVariant: undefined }],
+      [variant('a', 50), variant('b', 50)]
+    );
+
+    assert.deepEqual(report.map(r => r.variant), ['a', 'b', 'old']);
+    const [a, b, old] = report;
+    assert.deepEqual([a.generated, a.prospectsSent, a.prospectsReplied, a.replyRate], [3, 2, 1, 50]);
+    assert.deepEqual([b.generated, b.prospectsSent, b.prospectsReplied, b.replyRate], [2, 1, 0, 0]);
+    assert.equal(old.active, false);
+    assert.equal(buildPromptVariantReport([], [], [variant('a', 1)])[0].replyRate, null);
+  });
+});
@@ -0,0 +1,249 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  EMPTY_PROSPECT_FILTERS,
+  loadProspectSummary,
+  pageProspects,
+  queryAllProspects,
+  queryProspects,
+  readProspectQuery,
+  summarizeProspects,
+  toProspectCriteria,
+  toViewCriteria
+} from '@/lib/prospect-query';
+import { createLocalStorage } from '@/lib/storage/local';
+import { matchesSearch } from '@/lib/storage/query';
+import type { ProspectImportInput, StorageAdapter } from '@/lib/storage';
+import type { ProspectQuery, ProspectSummary, ProspectWithPipeline, SavedView } from '@/types';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'prospect-query-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function input(name: string, fields: Partial<ProspectImportInput> = {}): ProspectImportInput {
+  const [firstName, lastName = ''] = name.split(' ');
+  return {
+    firstName,
+    lastName,
+    fullName: name,
+    linkedinUrl: `https://www.linkedin.com/in/${name.toLowerCase().replace(/ /g, '-')}`,
+    ...fields
+  };
+}
+
+const context = { currentUserId: 'dana', fields: [] };
+
+function query(fields: Partial<ProspectQuery> = {}): ProspectQuery {
+  return { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'icp_desc', limit: 50, ...fields };
+}
+
+describe('search', () => {
+  const prospect = {
+    fullName: 'Alex Kim',
+    companyName: 'Northwind Goods',
+    headline: 'Head of E-commerce',
+    aboutSummary: 'Scaling Shopify stores since 2015'
+  } as ProspectWithPipeline;
+
+  test('every word must start a word of the name, company, headline or about', () => {
+    assert.ok(matchesSearch(prospect, 'north shop'));
+    assert.ok(matchesSearch(prospect, 'ALEX e-comm'));
+    assert.ok(matchesSearch(prospect, '2015'));
+    assert.ok(!matchesSearch(prospect, 'wind'));
+    assert.ok(!matchesSearch(prospect, 'alex magento'));
+    assert.ok(matchesSearch(prospect, '  '));
+  });
+});
+
+describe('reading queries', () => {
+  test('names each parameter that does not fit', () => {
+    const { query: parsed, errors } = readProspectQuery(new URLSearchParams(
+      'status=ghosted&segment=agency&icp=huge&sort=random&limit=500&cursor=nope'
+    ));
+    assert.equal(parsed, undefined);
+    assert.deepEqual(errors, [
+      'status must be one of all, not_contacted, visited, connection_sent, connected, message_sent, responded, call_booked, closed_won, closed_lost',
+      'icp must be one of all, high, medium, low',
+      'sort must be one of icp_desc, icp_asc, name_asc, recent',
+      'limit must be a whole number from 1 to 200',
+      'cursor is not valid'
+    ]);
+  });
+
+  test('defaults, and icpRange from older export links', () => {
+    const { query: parsed } = readProspectQuery(new URLSearchParams('icpRange=medium&search=acme&field=f1&fieldMin=3'));
+    assert.deepEqual(parsed, {
+      filters: {
+        status: 'all',
+        segment: 'all',
+        search: 'acme',
+        assignee: 'all',
+        tag: undefined,
+        customField: { fieldId: 'f1', value: undefined, min: '3', max: undefined },
+        view: undefined
+      },
+      icpRange: 'medium',
+      sort: 'icp_desc',
+      cursor: undefined,
+      limit: 50
+    });
+  });
+
+  test('tiers become score bounds; mine with nobody signed in matches no one', () => {
+    assert.deepEqual(
+      toProspectCriteria({ ...EMPTY_PROSPECT_FILTERS, assignee: 'unassigned', status: 'connected' }, 'medium', 'dana'),
+      { icpMin: 40, icpBelow: 70, status: 'connected', assigneeId: null }
+    );
+    assert.equal(toProspectCriteria({ ...EMPTY_PROSPECT_FILTERS, assignee: 'mine' }, 'all', undefined), null);
+  });
+  test('views of status, segment, ICP and assignee conditions that all hold become criteria', () => {
+    assert.deepEqual(toViewCriteria({
+      match: 'all',
+      conditions: [
+        { field: 'status', operator: 'is', value: 'Connected' },
+        { match: 'any', conditions: [{ field: 'icp_tier', operator: 'is', value: 'high' }] },
+        { field: 'icp_score', operator: 'at_most', value: 85.5 },
+        { field: 'assignee', operator: 'is', value: 'mine' }
+      ]
+    }, 'dana'), { status: 'connected', icpMin: 70, icpBelow: 86, assigneeId: 'dana' });
+    assert.deepEqual(toViewCriteria({ match: 'any', conditions: [] }, undefined), {});
+
+    // Conditions that can't both hold match no one
+    assert.equal(toViewCriteria({
+      match: 'all',
+      conditions: [{ field: 'segment', operator: 'is', value: 'agency' }, { field: 'segment', operator: 'is', value: 'merchant' }]
+    }, undefined), null);
+
+    // Or, negation and row-only fields are left to matchesViewFilter
+    for (const filter of [
+      { match: 'any' as const, conditions: [{ field: 'status' as const, operator: 'is' as const, value: 'connected' }, { field: 'icp_tier' as const, operator: 'is' as const, value: 'high' }] },
+      { match: 'all' as const, conditions: [{ field: 'status' as const, operator: 'is_not' as const, value: 'connected' }] },
+      { match: 'all' as const, conditions: [{ field: 'tag' as const, operator: 'is' as const, value: 'VIP' }] }
+    ]) {
+      assert.equal(toViewCriteria(filter, 'dana'), undefined);
+    }
+  });
+});
+
+describe('pages from storage', () => {
+  let storage: StorageAdapter;
+
+  before(async () => {
+    storage = createLocalStorage(path.join(dir, 'db.json'));
+    await storage.bulkImportProspects([
+      input('Alex Kim', { icpScore: 90, companyName: 'Northwind', tags: ['VIP'] }),
+      input('Bo Lee', { icpScore: 75, icpScoreBreakdown: { segment: 'agency' } }),
+      input('Cy Park', { icpScore: 75, headline: 'Shopify partner', tags: ['vip'] }),
+      input('Di Ng', { icpScore: 55, aboutSummary: 'Runs a Shopify agency' }),
+      input('Ed Fox', { icpScore: 40, tags: ['VIP'] }),
+      input('Flo Ray', { icpScore: 12 }),
+      input('Gus Tan')
+    ], new Map([['https://www.linkedin.com/in/bo-lee', { status: 'connected' }]]));
+  });
+
+  async function pageThrough(q: ProspectQuery) {
+    const names: string[] = [];
+    const totals: Array<number | undefined> = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryProspects(storage, { ...q, cursor }, context);
+      names.push(...page.prospects.map(p => p.fullName));
+      totals.push(page.total);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return { names, totals };
+  }
+
+  test('cursor pages follow the sort, with ties broken by id, and the first page has the total', async () => {
+    const { names, totals } = await pageThrough(query({ limit: 2 }));
+    assert.equal(names.length, 7);
+    assert.deepEqual(names.slice(0, 1), ['Alex Kim']);
+    assert.deepEqual(new Set(names.slice(1, 3)), new Set(['Bo Lee', 'Cy Park']));
+    assert.deepEqual(names.slice(3), ['Di Ng', 'Ed Fox', 'Flo Ray', 'Gus Tan']);
+    assert.deepEqual(totals, [7, undefined, undefined, undefined]);
+
+    const byName = await pageThrough(query({ sort: 'name_asc', limit: 3 }));
+    assert.deepEqual(byName.names, ['Alex Kim', 'Bo Lee', 'Cy Park', 'Di Ng', 'Ed Fox', 'Flo Ray', 'Gus Tan']);
+  });
+
+  test('storage applies status, segment, tier and search', async () => {
+    const count = (q: ProspectQuery) => queryProspects(storage, q, context).then(page => page.total);
+    assert.equal(await count(query({ filters: { ...EMPTY_PROSPECT_FILTERS, status: 'connected' } })), 1);
+    assert.equal(await count(query({ filters: { ...EMPTY_PROSPECT_FILTERS, segment: 'merchant' } })), 6);
+    assert.equal(await count(query({ icpRange: 'high' })), 3);
+    assert.equal(await count(query({ icpRange: 'low' })), 2);
+
+    const page = await queryProspects(storage, query({ filters: { ...EMPTY_PROSPECT_FILTERS, search: 'shop' } }), context);
+    assert.deepEqual(page.prospects.map(p => p.fullName), ['Cy Park', 'Di Ng']);
+    assert.equal(await storage.countProspects({ search: 'shop', icpMin: 70 }), 1);
+  });
+
+  test('tag and view filters are checked after storage, and still total and page', async () => {
+    const vip = query({ filters: { ...EMPTY_PROSPECT_FILTERS, tag: 'vip' }, limit: 2 });
+    const { names, totals } = await pageThrough(vip);
+    assert.deepEqual(names, ['Alex Kim', 'Cy Park', 'Ed Fox']);
+    assert.deepEqual(totals, [3, undefined]);
+
+    const viewContext = {
+      ...context,
+      view: { filter: { match: 'all' as const, conditions: [{ field: 'icp_score' as const, operator: 'at_most' as const, value: 50 }] } }
+    };
+    const inView = await queryAllProspects(storage, { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'icp_asc' }, viewContext);
+    assert.deepEqual(inView.map(p => p.fullName), ['Gus Tan', 'Flo Ray', 'Ed Fox']);
+  });
+
+  test('prospects in memory page the same way', async () => {
+    const all = await queryAllProspects(storage, { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'recent' }, context);
+    const first = pageProspects(all, { ...query({ sort: 'name_asc' }), limit: 4 }, context);
+    assert.equal(first.total, 7);
+    const second = pageProspects(all, { ...query({ sort: 'name_asc' }), cursor: first.nextCursor ?? undefined, limit: 4 }, context);
+    assert.deepEqual(
+      [...first.prospects, ...second.prospects].map(p => p.fullName),
+      ['Alex Kim', 'Bo Lee', 'Cy Park', 'Di Ng', 'Ed Fox', 'Flo Ray', 'Gus Tan']
+    );
+    assert.equal(second.nextCursor, null);
+  });
+
+  test('the summary comes from counts and matches one worked out in memory', async () => {
+    const all = await queryAllProspects(storage, { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'recent' }, context);
+    const bo = all.find(p => p.fullName === 'Bo Lee')!;
+    await storage.saveGeneratedMessage(bo.id, 'connection_request', 'Hi Bo');
+    const view = (id: string, filter: SavedView['filter']): SavedView => ({
+      id,
+      name: id,
+      filter,
+      createdAt: '2026-03-01T09:00:00.000Z',
+      updatedAt: '2026-03-01T09:00:00.000Z'
+    });
+    const views = [
+      view('low', { match: 'all', conditions: [{ field: 'icp_score', operator: 'at_most', value: 50 }] }),
+      view('connected-high', {
+        match: 'all',
+        conditions: [{ field: 'status', operator: 'is', value: 'connected' }, { field: 'icp_tier', operator: 'is', value: 'high' }]
+      }),
+      view('vip', { match: 'all', conditions: [{ field: 'tag', operator: 'is', value: 'vip' }] })
+    ];
+
+    // Prospects are only read for the view storage can't count
+    let reads = 0;
+    const counted = { ...storage, findProspects: (...args: Parameters<StorageAdapter['findProspects']>) => {
+      reads++;
+      return storage.findProspects(...args);
+    } };
+    assert.deepEqual((await loadProspectSummary(counted, views.slice(0, 2), context)).viewCounts, { low: 3, 'connected-high': 1 });
+    assert.equal(reads, 0);
+
+    const summary = await loadProspectSummary(counted, views, context);
+    assert.equal(reads, 1);
+    assert.deepEqual(summary.stats, { total: 7, connected: 1, withMessages: 1, highICP: 3, mediumICP: 2, lowICP: 2 });
+    assert.deepEqual(summary.viewCounts, { low: 3, 'connected-high': 1, vip: 3 });
+
+    // Which spelling of a tag wins depends on row order, so compare ignoring case
+    const withMessage = await queryAllProspects(storage, { filters: EMPTY_PROSPECT_FILTERS, icpRange: 'all', sort: 'recent' }, context);
+    const lowerTags = (s: ProspectSummary) => ({ ...s, tags: s.tags.map(t => t.toLowerCase()) });
+    assert.deepEqual(lowerTags(summary), lowerTags(summarizeProspects(withMessage, views, context)));
+    assert.deepEqual(lowerTags(summary).tags, ['vip']);
+  });
+});
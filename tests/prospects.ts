@@ -0,0 +1,83 @@
+import type {
+  ICPScoreBreakdown,
+  ICPSegment,
+  PipelineRecord,
+  PipelineStatus,
+  ProspectWithPipeline
+} from '@/types';
+
+// ============================================================================
+// PROSPECT BUILDERS
+// ============================================================================
+//
+// In-memory prospects for tests of code that works on ProspectWithPipeline.
+// Dates are relative to NOW so tests read as "replied a day ago".
+// ============================================================================
+
+export const NOW = new Date('2026-03-10T09:00:00.000Z');
+
+export function hoursAgo(hours: number): string {
+  return new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+export function daysAgo(days: number): string {
+  return hoursAgo(days * 24);
+}
+
+/**
+ * A pipeline record created 30 days ago, with any milestones given
+ */
+export function buildPipeline(
+  prospectId: string,
+  status: PipelineStatus,
+  milestones: Partial<PipelineRecord> = {}
+): PipelineRecord {
+  return {
+    id: `pipeline-${prospectId}`,
+    prospectId,
+    status,
+    createdAt: daysAgo(30),
+    updatedAt: daysAgo(30),
+    ...milestones
+  };
+}
+
+/**
+ * A prospect named after its id, added 30 days ago with an ICP score of 50.
+ * Without a status it has no pipeline record.
+ */
+export function buildProspect(
+  id: string,
+  fields: Partial<ProspectWithPipeline> = {},
+  status?: PipelineStatus,
+  milestones: Partial<PipelineRecord> = {}
+): ProspectWithPipeline {
+  return {
+    id,
+    firstName: id,
+    lastName: '',
+    fullName: id,
+    linkedinUrl: `https://www.linkedin.com/in/${id}`,
+    careerHistory: [],
+    recentPosts: [],
+    icpScore: 50,
+    createdAt: daysAgo(30),
+    updatedAt: daysAgo(30),
+    pipeline: status && buildPipeline(id, status, milestones),
+    messages: [],
+    ...fields
+  };
+}
+
+// A breakdown that only carries the segment and total
+export function icpBreakdown(segment: ICPSegment, total: number): ICPScoreBreakdown {
+  return {
+    segment,
+    titleAuthority: 0,
+    companySignals: 0,
+    companySize: 0,
+    productCategory: 0,
+    profileCompleteness: 0,
+    total
+  };
+}
@@ -0,0 +1,194 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  countViewProspects,
+  describeViewFilter,
+  matchesViewFilter,
+  resolveBulkTarget,
+  resolveSavedView,
+  validateSavedView,
+  validateViewFilter,
+  viewFilterFromFilterOptions
+} from '@/lib/saved-views';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { SavedView, ViewFilterGroup } from '@/types';
+import { buildProspect, daysAgo, icpBreakdown, NOW } from './prospects';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'saved-views-'));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const context = { currentUserId: 'dana', now: NOW };
+
+describe('view filter validation', () => {
+  test('names each condition that does not fit', () => {
+    const { filter, errors } = validateViewFilter({
+      match: 'all',
+      conditions: [
+        { field: 'status', operator: 'is', value: 'ghosted' },
+        { field: 'industry', operator: 'at_least', value: 'Retail' },
+        { field: 'icp_score', operator: 'at_least', value: 'high' },
+        { field: 'shoe_size', operator: 'is', value: '9' }
+      ]
+    });
+
+    assert.equal(filter, undefined);
+    assert.deepEqual(errors, [
+      'filter.conditions[0].value must be one of not_contacted, visited, connection_sent, connected, message_sent, responded, call_booked, closed_won, closed_lost',
+      'filter.conditions[1].operator for industry must be one of contains, not_contains, is, is_not',
+      'filter.conditions[2].value must be a number',
+      'filter.conditions[3].field must be one of status, segment, icp_tier, icp_score, industry, company_size, location, search, tag, track, assignee, last_activity_days, days_in_stage'
+    ]);
+  });
+
+  test('groups can hold groups only one level down', () => {
+    const condition = { field: 'tag', operator: 'is', value: 'VIP' };
+    const { errors } = validateViewFilter({
+      match: 'any',
+      conditions: [{ match: 'all', conditions: [{ match: 'all', conditions: [condition] }] }]
+    });
+    assert.deepEqual(errors, ['filter.conditions[0].conditions[0] nests groups more than 3 deep']);
+  });
+
+  test('a saved view needs a name; numbers given as text are converted', () => {
+    assert.deepEqual(validateSavedView({ name: ' ', filter: { match: 'all', conditions: [] } }).errors, ['name is required']);
+
+    const { view } = validateSavedView({
+      name: ' Stale agencies ',
+      filter: { match: 'all', conditions: [{ field: 'days_in_stage', operator: 'at_least', value: '14' }] },
+      sort: 'recent'
+    });
+    assert.deepEqual(view, {
+      name: 'Stale agencies',
+      filter: { match: 'all', conditions: [{ field: 'days_in_stage', operator: 'at_least', value: 14 }] },
+      sort: 'recent'
+    });
+  });
+});
+
+describe('matching prospects', () => {
+  const agency = buildProspect('agency', {
+    icpScore: 82,
+    icpScoreBreakdown: icpBreakdown('agency', 82),
+    companyIndustry: 'Marketing Services',
+    location: 'Austin, Texas',
+    tags: ['VIP'],
+    assigneeId: 'dana'
+  }, 'connection_sent', { connectionSentAt: daysAgo(20) });
+  const merchant = buildProspect('merchant', {
+    icpScore: 45,
+    companySize: '11-50',
+    location: 'London'
+  }, 'message_sent', { messageSentAt: daysAgo(3) });
+
+  test('all is AND, any is OR, and groups mix them', () => {
+    const filter: ViewFilterGroup = {
+      match: 'all',
+      conditions: [
+        { field: 'icp_score', operator: 'at_least', value: 40 },
+        {
+          match: 'any',
+          conditions: [
+            { field: 'tag', operator: 'is', value: 'vip' },
+            { field: 'location', operator: 'contains', value: 'london' }
+          ]
+        }
+      ]
+    };
+    assert.ok(matchesViewFilter(agency, filter, context));
+    assert.ok(matchesViewFilter(merchant, filter, context));
+    assert.ok(!matchesViewFilter(merchant, { ...filter, conditions: [...filter.conditions, { field: 'assignee', operator: 'is', value: 'mine' }] }, context));
+  });
+
+  test('days in stage count from the status milestone, last activity from the latest event', () => {
+    const stale: ViewFilterGroup = { match: 'all', conditions: [{ field: 'days_in_stage', operator: 'at_least', value: 14 }] };
+    assert.ok(matchesViewFilter(agency, stale, context));
+    assert.ok(!matchesViewFilter(merchant, stale, context));
+
+    const withMessage = buildProspect('fresh', {
+      messages: [{
+        id: 'm1',
+        prospectId: 'fresh',
+        messageType: 'opening_dm',
+        content: 'Hi',
+        generatedAt: daysAgo(1),
+        used: false,
+        version: 1,
+        track: 'AGENCY_PARTNER',
+        warnings: []
+      }]
+    });
+    const quiet: ViewFilterGroup = { match: 'all', conditions: [{ field: 'last_activity_days', operator: 'at_least', value: 30 }] };
+    assert.ok(!matchesViewFilter(withMessage, quiet, context));
+    assert.ok(matchesViewFilter(buildProspect('untouched'), quiet, context));
+
+    const track: ViewFilterGroup = { match: 'all', conditions: [{ field: 'track', operator: 'is', value: 'none' }] };
+    assert.ok(!matchesViewFilter(withMessage, track, context));
+    assert.ok(matchesViewFilter(agency, track, context));
+  });
+
+  test('negated conditions and an empty view', () => {
+    const notMarketing: ViewFilterGroup = {
+      match: 'all',
+      conditions: [{ field: 'industry', operator: 'not_contains', value: 'marketing' }]
+    };
+    assert.ok(!matchesViewFilter(agency, notMarketing, context));
+    assert.ok(matchesViewFilter(merchant, notMarketing, context));
+    assert.ok(matchesViewFilter(merchant, { match: 'any', conditions: [] }, context));
+  });
+
+  test('counts per view for the sidebar', () => {
+    const views: SavedView[] = [
+      { id: 'v1', name: 'Mine', filter: { match: 'all', conditions: [{ field: 'assignee', operator: 'is', value: 'mine' }] }, createdAt: '', updatedAt: '' },
+      { id: 'v2', name: 'Everyone', filter: { match: 'all', conditions: [] }, createdAt: '', updatedAt: '' }
+    ];
+    assert.deepEqual([...countViewProspects(views, [agency, merchant], context)], [['v1', 1], ['v2', 2]]);
+  });
+});
+
+describe('describing and seeding views', () => {
+  test('the dashboard filters become a view and read back in words', () => {
+    const filter = viewFilterFromFilterOptions({ status: 'all', segment: 'agency', search: 'acme', assignee: 'all', tag: 'VIP' }, 'high');
+    assert.equal(describeViewFilter(filter), 'Segment is agency and ICP tier is high and Tag is VIP and Name, company or title contains acme');
+    assert.equal(
+      describeViewFilter({
+        match: 'all',
+        conditions: [
+          { field: 'segment', operator: 'is', value: 'agency' },
+          { match: 'any', conditions: [{ field: 'tag', operator: 'is', value: 'VIP' }, { field: 'icp_score', operator: 'at_least', value: 70 }] }
+        ]
+      }),
+      'Segment is agency and (Tag is VIP or ICP score at least 70)'
+    );
+  });
+});
+
+describe('views as bulk targets', () => {
+  test('a view id stands for the prospects in the view when it is resolved', async () => {
+    const storage = createLocalStorage(path.join(dir, 'db.json'));
+    const [alex, jo] = await storage.bulkImportProspects([
+      { firstName: 'Alex', lastName: 'Kim', fullName: 'Alex Kim', linkedinUrl: 'https://www.linkedin.com/in/alex-kim', tags: ['VIP'] },
+      { firstName: 'Jo', lastName: 'Park', fullName: 'Jo Park', linkedinUrl: 'https://www.linkedin.com/in/jo-park' }
+    ], new Map());
+
+    const vip = resolveSavedView(await storage.createSavedView({
+      name: 'VIPs',
+      filter: { match: 'all', conditions: [{ field: 'tag', operator: 'is', value: 'VIP' }] }
+    }));
+    assert.equal(vip.sort, undefined);
+    assert.deepEqual(await resolveBulkTarget(storage, { viewId: vip.id }, 'dana'), { ids: [alex.id] });
+
+    // The view is evaluated when used, so it follows the prospects
+    await storage.bulkUpdateTags([jo.id as string], ['vip'], []);
+    const { ids } = await resolveBulkTarget(storage, { viewId: vip.id }, 'dana');
+    assert.deepEqual(ids?.sort(), [alex.id, jo.id].sort());
+
+    assert.deepEqual(await resolveBulkTarget(storage, { viewId: 'missing' }, 'dana'), { error: 'Saved view not found', status: 404 });
+    assert.deepEqual(await resolveBulkTarget(storage, { ids: [] }, 'dana'), { error: 'No prospect IDs provided', status: 400 });
+
+    await storage.deleteSavedView(vip.id);
+    assert.deepEqual(await storage.getSavedViews(), []);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateICPScoreWithBreakdown } from '@/lib/import';
+import { DEFAULT_SCORING_PROFILE, resolveScoringProfile, validateScoringProfile } from '@/lib/scoring-profile';
+
+describe('scoring profile', () => {
+  test('default profile is valid', () => {
+    assert.deepEqual(validateScoringProfile(DEFAULT_SCORING_PROFILE).errors, []);
+  });
+
+  test('reports every problem in an invalid profile', () => {
+    const { profile, errors } = validateScoringProfile({
+      ...DEFAULT_SCORING_PROFILE,
+      version: 2,
+      titleTiers: [{ name: 'Bad', points: 'forty', patterns: [] }]
+    });
+    assert.equal(profile, undefined);
+    assert.deepEqual(errors, [
+      'version must be 1',
+      'titleTiers[0].points must be a number',
+      'titleTiers[0].patterns must be a non-empty list'
+    ]);
+  });
+
+  test('falls back to the default when the stored profile is invalid', () => {
+    assert.equal(resolveScoringProfile(null), DEFAULT_SCORING_PROFILE);
+    assert.equal(resolveScoringProfile({ profile: { version: 1 } }), DEFAULT_SCORING_PROFILE);
+  });
+
+  test('custom tier points change the title score', () => {
+    const profile = structuredClone(DEFAULT_SCORING_PROFILE);
+    profile.titleTiers[0].points = 50;
+    const breakdown = calculateICPScoreWithBreakdown({ jobTitle: 'Founder' }, profile);
+    assert.equal(breakdown.titleAuthority, 50);
+  });
+});
@@ -0,0 +1,156 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createJobHandlers, enqueueJob, runNextJob } from '@/lib/jobs';
+import {
+  createFixtureScraperProvider,
+  getScraperConfigError,
+  getScraperProviderName,
+  profilePostsActor,
+  profileScraperActor
+} from '@/lib/scraper';
+import { createLocalStorage } from '@/lib/storage/local';
+import type { FetchPostsJobResult, Job } from '@/types';
+
+const NOW = new Date('2026-03-10T09:00:00.000Z');
+const FIXTURES = path.join(process.cwd(), 'fixtures', 'scraper');
+const dir = mkdtempSync(path.join(tmpdir(), 'scraper-'));
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe('scraper config', () => {
+  test('Apify is used when its token is set; fixtures only when asked for', () => {
+    assert.equal(getScraperProviderName({ APIFY_API_TOKEN: 'token' }), 'apify');
+    assert.equal(getScraperProviderName({ SCRAPER_PROVIDER: 'fixture', APIFY_API_TOKEN: 'token' }), 'fixture');
+    assert.equal(getScraperProviderName({}), null);
+    assert.match(getScraperConfigError({})!, /No scraper configured/);
+    assert.equal(getScraperConfigError({ SCRAPER_PROVIDER: 'apify' }), 'APIFY_API_TOKEN is not configured');
+    assert.equal(getScraperConfigError({ SCRAPER_PROVIDER: 'fixture' }), null);
+  });
+});
+
+describe('actor adapters', () => {
+  test('profiles map onto the Prospect shape whatever the field aliases', () => {
+    const profile = profileScraperActor.normalize({
+      profileUrl: 'https://linkedin.com/in/devon-okafor/',
+      fullName: 'Devon Okafor',
+      summary: 'Operations lead',
+      profilePicture: '//media.example.com/devon.jpg',
+      skills: ['Logistics', 'Shopify Plus'],
+      experiences: [{ company: 'Trailhead Supply', title: 'Head of Operations', description: 'Fulfillment' }]
+    });
+
+    assert.deepEqual(profile, {
+      firstName: 'Devon',
+      lastName: 'Okafor',
+      fullName: 'Devon Okafor',
+      linkedinUrl: 'https://linkedin.com/in/devon-okafor/',
+      linkedinAliases: [],
+      profilePicUrl: 'https://media.example.com/devon.jpg',
+      headline: undefined,
+      aboutSummary: 'Operations lead',
+      companyName: 'Trailhead Supply',
+      companyIndustry: undefined,
+      companySize: undefined,
+      jobTitle: 'Head of Operations',
+      location: undefined,
+      careerHistory: [{ companyName: 'Trailhead Supply', title: 'Head of Operations', description: 'Fulfillment', startDate: '', endDate: '' }],
+      recentPosts: [],
+      totalExperienceYears: undefined,
+      topSkills: 'Logistics, Shopify Plus'
+    });
+    assert.equal(profileScraperActor.normalize({ fullName: 'No URL' }), null);
+  });
+
+  test('posts map onto the RecentPost shape with the requested profile', () => {
+    assert.deepEqual(profilePostsActor.normalize({
+      linkedinUrl: 'https://www.linkedin.com/posts/1',
+      content: 'Restock day',
+      author: { name: 'Dana Reyes', linkedinUrl: 'https://www.linkedin.com/in/dana-reyes', avatar: { url: 'https://media.example.com/dana.jpg' } },
+      postedAt: { date: '2026-03-09T09:00:00.000Z' },
+      query: 'https://www.linkedin.com/in/dana-reyes'
+    }), {
+      url: 'https://www.linkedin.com/posts/1',
+      content: 'Restock day',
+      date: '2026-03-09T09:00:00.000Z',
+      profileUrl: 'https://www.linkedin.com/in/dana-reyes',
+      authorName: 'Dana Reyes',
+      authorUrl: 'https://www.linkedin.com/in/dana-reyes',
+      authorPhotoUrl: 'https://media.example.com/dana.jpg'
+    });
+
+    const legacy = profilePostsActor.normalize({ postUrl: 'https://www.linkedin.com/posts/2', text: 'Hi', postedAtTimestamp: 1767225600 });
+    assert.equal(legacy?.date, '2026-01-01T00:00:00.000Z');
+    assert.equal(profilePostsActor.normalize({})?.content, '');
+  });
+});
+
+describe('fixture provider', () => {
+  const provider = createFixtureScraperProvider(FIXTURES, { now: () => NOW });
+
+  test('serves only the recorded profiles that were asked for', async () => {
+    const profiles = await provider.scrapeProfiles([
+      'https://www.linkedin.com/in/Maya-Lindqvist/',
+      'https://www.linkedin.com/in/devon-okafor?trk=feed',
+      'https://www.linkedin.com/in/never-recorded'
+    ]);
+
+    assert.deepEqual(profiles.map(p => p.fullName), ['Maya Lindqvist', 'Devon Okafor']);
+    assert.equal(profiles[0].profilePicUrl, 'https://media.licdn.com/dms/image/fixture/maya-lindqvist-800.jpg');
+    assert.deepEqual(profiles[0].linkedinAliases, ['urn:li:fsd_profile:ACoAAB1f2e3dMayaL1ndqv']);
+    assert.equal(profiles[1].companyName, 'Trailhead Supply');
+
+    // The member URN finds the same recorded profile
+    const byUrn = await provider.scrapeProfiles(['https://www.linkedin.com/in/ACoAAB1f2e3dMayaL1ndqv']);
+    assert.deepEqual(byUrn.map(p => p.fullName), ['Maya Lindqvist']);
+  });
+
+  test('post runs finish at once with dates shifted so the newest post is recent', async () => {
+    const runId = await provider.startPostsRun([
+      'https://www.linkedin.com/in/maya-lindqvist',
+      'https://www.linkedin.com/in/devon-okafor'
+    ]);
+    assert.deepEqual(await provider.getPostsRun(runId), { status: 'succeeded', detail: 'SUCCEEDED' });
+
+    const posts = await provider.getPostsRunResults(runId);
+    assert.deepEqual(posts.map(p => [p.authorName, p.date]), [
+      ['Maya Lindqvist', '2026-03-10T08:00:00.000Z'],
+      ['Shipwell News', '2026-03-09T14:26:40.000Z']
+    ]);
+  });
+
+  test('a missing dataset scrapes nothing; a malformed one says so', async () => {
+    const empty = createFixtureScraperProvider(dir);
+    assert.deepEqual(await empty.scrapeProfiles(['https://www.linkedin.com/in/maya-lindqvist']), []);
+
+    writeFileSync(path.join(dir, 'profiles.json'), '{"not": "a list"}');
+    await assert.rejects(empty.scrapeProfiles(['https://www.linkedin.com/in/maya-lindqvist']), /must be a JSON array/);
+  });
+
+  test('a fetch_posts job saves the fixture posts and queues comments for them', async () => {
+    const storage = createLocalStorage(path.join(dir, 'db.json'));
+    await storage.bulkImportProspects(['Maya Lindqvist', 'Devon Okafor', 'Priya Raman'].map(fullName => {
+      const [firstName, lastName] = fullName.split(' ');
+      const slug = fullName === 'Priya Raman' ? 'priya-raman-3a91b2' : fullName.toLowerCase().replace(' ', '-');
+      return { firstName, lastName, fullName, linkedinUrl: `https://www.linkedin.com/in/${slug}` };
+    }), new Map());
+    const prospectIds = (await storage.getProspects()).map(p => p.id as string);
+
+    // Saving archives against the real clock, so shift the fixture dates to it too
+    const handlers = createJobHandlers({ scraper: createFixtureScraperProvider(FIXTURES) });
+    const clock = () => NOW;
+    await enqueueJob(storage, 'fetch_posts', { prospectIds }, { runAt: NOW.toISOString() });
+    await runNextJob(storage, handlers, clock);
+    const job = await runNextJob(storage, handlers, () => new Date(NOW.getTime() + 10_000)) as Job;
+
+    assert.equal(job.status, 'succeeded');
+    const result = job.result as FetchPostsJobResult;
+    assert.equal(result.totalScraped, 3);
+    assert.equal(result.savedActive, 2);
+    assert.equal(result.savedArchived, 1);
+    assert.ok(result.commentsJobId);
+    assert.equal((await storage.getJob(result.commentsJobId!))?.type, 'generate_comments');
+  });
+});
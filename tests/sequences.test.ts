@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSequenceQueue, getSequenceState } from '@/lib/sequences';
+import { withMilestoneTimestamp } from '@/lib/storage/transform';
+import type { PipelineStatus, SequenceProgress } from '@/types';
+import { buildPipeline, buildProspect, daysAgo, NOW } from './prospects';
+
+describe('sequence state', () => {
+  test('opening DM is due one day after the connection is accepted', () => {
+    const scheduled = getSequenceState(buildPipeline('p1', 'connected', { connectionAcceptedAt: daysAgo(0) }), new Set(), undefined, NOW);
+    assert.equal(scheduled.kind, 'scheduled');
+    assert.equal(scheduled.step?.id, 'opening_dm');
+
+    const due = getSequenceState(buildPipeline('p1', 'connected', { connectionAcceptedAt: daysAgo(3) }), new Set(), undefined, NOW);
+    assert.equal(due.kind, 'due');
+    assert.equal(due.overdueDays, 2);
+  });
+
+  test('follow-up is due five days after the message was sent', () => {
+    const state = getSequenceState(buildPipeline('p1', 'message_sent', { messageSentAt: daysAgo(5) }), new Set(), undefined, NOW);
+    assert.equal(state.kind, 'due');
+    assert.equal(state.step?.id, 'follow_up');
+    assert.equal(state.overdueDays, 0);
+  });
+
+  test('pauses once the prospect responds or is closed', () => {
+    for (const status of ['responded', 'closed_won', 'closed_lost'] as PipelineStatus[]) {
+      assert.equal(getSequenceState(buildPipeline('p1', status), new Set(), undefined, NOW).kind, 'paused');
+    }
+  });
+
+  test('waits on the prospect and finishes after the last step', () => {
+    assert.equal(getSequenceState(undefined, new Set(), undefined, NOW).kind, 'not_started');
+    assert.equal(getSequenceState(buildPipeline('p1', 'connection_sent'), new Set(), undefined, NOW).kind, 'waiting');
+    assert.equal(getSequenceState(buildPipeline('p1', 'message_sent'), new Set(['follow_up']), undefined, NOW).kind, 'completed');
+  });
+
+  test('falls back to the last status change when the milestone is missing', () => {
+    const state = getSequenceState(buildPipeline('p1', 'message_sent', { updatedAt: daysAgo(6) }), new Set(), undefined, NOW);
+    assert.equal(state.kind, 'due');
+    assert.equal(state.overdueDays, 1);
+  });
+});
+
+describe('sequence queue', () => {
+  test('orders due steps by staleness then ICP score and skips done steps', () => {
+    const prospects = [
+      buildProspect('fresh-high', { icpScore: 90 }, 'connected', { connectionAcceptedAt: daysAgo(1) }),
+      buildProspect('stale-low', { icpScore: 40 }, 'message_sent', { messageSentAt: daysAgo(9) }),
+      buildProspect('fresh-low', { icpScore: 50 }, 'visited', { visitedAt: daysAgo(0) }),
+      buildProspect('done', { icpScore: 99 }, 'message_sent', { messageSentAt: daysAgo(9) }),
+      buildProspect('later', { icpScore: 70 }, 'message_sent', { messageSentAt: daysAgo(2) }),
+      buildProspect('replied', { icpScore: 95 }, 'responded')
+    ];
+    const progress: SequenceProgress[] = [
+      { id: 's1', prospectId: 'done', stepId: 'follow_up', outcome: 'skipped', createdAt: daysAgo(1) }
+    ];
+
+    const { due, upcoming } = buildSequenceQueue(prospects, progress, { now: NOW });
+    assert.deepEqual(due.map(i => i.prospectId), ['stale-low', 'fresh-high', 'fresh-low']);
+    assert.deepEqual(upcoming.map(i => `${i.prospectId}:${i.step.id}`), ['later:follow_up']);
+  });
+});
+
+describe('pipeline milestones', () => {
+  test('stamps the milestone when the status changes', () => {
+    const at = NOW.toISOString();
+    assert.deepEqual(
+      withMilestoneTimestamp({ prospect_id: 'p1', status: 'connected' }, 'connection_sent', at),
+      { prospect_id: 'p1', status: 'connected', connection_accepted_at: at }
+    );
+    // Unchanged status, no milestone for the status, or set by the caller
+    assert.deepEqual(withMilestoneTimestamp({ status: 'connected' }, 'connected', at), { status: 'connected' });
+    assert.deepEqual(withMilestoneTimestamp({ status: 'closed_won' }, 'responded', at), { status: 'closed_won' });
+    assert.deepEqual(
+      withMilestoneTimestamp({ status: 'visited', visited_at: 'earlier' }, undefined, at),
+      { status: 'visited', visited_at: 'earlier' }
+    );
+  });
+});